@@ -2,3 +2,4 @@ export * from './base58-address';
 export * from './bech32';
 export * from './cash-address';
 export * from './locking-bytecode';
+export * from './segwit-address';
@@ -41,15 +41,22 @@ export const cashAddressSizeToBit = {
  * - next 4 bits: Address Type
  * - 3 least significant bits: Hash Size
  *
- * Only two Address Type values are currently standardized:
+ * Four Address Type values are currently standardized:
  * - 0 (`0b0000`): P2PKH
  * - 1 (`0b0001`): P2SH
+ * - 2 (`0b0010`): P2PKH with token support (CHIP-2022-02)
+ * - 3 (`0b0011`): P2SH with token support (CHIP-2022-02)
+ *
+ * Token-aware address types encode the same locking bytecode as their
+ * non-token-aware equivalents, but signal that the receiving wallet supports
+ * CashTokens.
  *
  * While both P2PKH and P2SH addresses always use 160 bit hashes, the
  * CashAddress specification standardizes other sizes for future use (or use by
  * other systems), see `CashAddressSizeBit`.
  *
- * With these constraints, only two version byte values are currently standard.
+ * With these constraints, only four version byte values are currently
+ * standard.
  */
 export enum CashAddressVersionByte {
   /**
@@ -68,6 +75,22 @@ export enum CashAddressVersionByte {
    * - Size bits: `000` (160 bits)
    */
   P2SH = 0b00001000,
+  /**
+   * Pay to Public Key Hash (P2PKH) with token support: `0b00010000`
+   *
+   * - Most significant bit: `0` (reserved)
+   * - Address Type bits: `0010` (P2PKH with token support)
+   * - Size bits: `000` (160 bits)
+   */
+  P2PKHWithTokens = 0b00010000,
+  /**
+   * Pay to Script Hash (P2SH) with token support: `0b00011000`
+   *
+   * - Most significant bit: `0` (reserved)
+   * - Address Type bits: `0011` (P2SH with token support)
+   * - Size bits: `000` (160 bits)
+   */
+  P2SHWithTokens = 0b00011000,
 }
 
 /**
@@ -83,6 +106,14 @@ export enum CashAddressType {
    * Pay to Script Hash (P2SH)
    */
   P2SH = 1,
+  /**
+   * Pay to Public Key Hash (P2PKH) with token support (CHIP-2022-02)
+   */
+  P2PKHWithTokens = 2,
+  /**
+   * Pay to Script Hash (P2SH) with token support (CHIP-2022-02)
+   */
+  P2SHWithTokens = 3,
 }
 
 const cashAddressTypeBitShift = 3;
@@ -16,6 +16,8 @@ import {
   lockingBytecodeToAddressContents,
   lockingBytecodeToBase58Address,
   lockingBytecodeToCashAddress,
+  lockingBytecodeToSegWitAddress,
+  SegWitAddressNetworkPrefix,
 } from '../lib';
 
 const sha256Promise = instantiateSha256();
@@ -93,6 +95,62 @@ test('lockingBytecode <-> AddressContents: P2SH', (t) => {
   );
 });
 
+test('lockingBytecode <-> AddressContents: P2WPKH', (t) => {
+  const p2wpkh = hexToBin('0014751e76e8199196d454941c45d1b3a323f1433bd6');
+  const expectedPayload = hexToBin('751e76e8199196d454941c45d1b3a323f1433bd6');
+  t.deepEqual(lockingBytecodeToAddressContents(p2wpkh), {
+    payload: expectedPayload,
+    type: AddressType.p2wpkh,
+  });
+  t.deepEqual(
+    addressContentsToLockingBytecode({
+      payload: expectedPayload,
+      type: AddressType.p2wpkh,
+    }),
+    p2wpkh
+  );
+});
+
+test('lockingBytecode <-> AddressContents: P2WSH', (t) => {
+  const p2wsh = hexToBin(
+    '00201863143c14c5166804bd19203356da136c985678cd4d27a1b8c6329604903262'
+  );
+  const expectedPayload = hexToBin(
+    '1863143c14c5166804bd19203356da136c985678cd4d27a1b8c6329604903262'
+  );
+  t.deepEqual(lockingBytecodeToAddressContents(p2wsh), {
+    payload: expectedPayload,
+    type: AddressType.p2wsh,
+  });
+  t.deepEqual(
+    addressContentsToLockingBytecode({
+      payload: expectedPayload,
+      type: AddressType.p2wsh,
+    }),
+    p2wsh
+  );
+});
+
+test('lockingBytecode <-> AddressContents: P2TR', (t) => {
+  const p2tr = hexToBin(
+    '512079be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'
+  );
+  const expectedPayload = hexToBin(
+    '79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'
+  );
+  t.deepEqual(lockingBytecodeToAddressContents(p2tr), {
+    payload: expectedPayload,
+    type: AddressType.p2tr,
+  });
+  t.deepEqual(
+    addressContentsToLockingBytecode({
+      payload: expectedPayload,
+      type: AddressType.p2tr,
+    }),
+    p2tr
+  );
+});
+
 test('lockingBytecode <-> AddressContents: unknown', (t) => {
   const simpleMath = hexToBin('52935387');
   t.deepEqual(lockingBytecodeToAddressContents(simpleMath), {
@@ -152,6 +210,7 @@ const cashVectors: Macro<[string, string]> = (t, cashAddress, bytecode) => {
   t.deepEqual(cashAddressToLockingBytecode(cashAddress), {
     bytecode: hexToBin(bytecode),
     prefix: 'bitcoincash',
+    tokenSupport: false,
   });
   t.deepEqual(
     lockingBytecodeToCashAddress(hexToBin(bytecode), 'bitcoincash'),
@@ -243,6 +302,32 @@ test('cashAddressToLockingBytecode <-> lockingBytecodeToCashAddress: P2SH', (t)
   t.deepEqual(cashAddressToLockingBytecode(address), {
     bytecode: p2sh,
     prefix: 'bitcoincash',
+    tokenSupport: false,
+  });
+});
+
+test('cashAddressToLockingBytecode <-> lockingBytecodeToCashAddress: token support', (t) => {
+  const p2pkh = hexToBin('76a91476a04053bda0a88bda5177b86a15c3b29f55987388ac');
+  const p2pkhAddress = 'bitcoincash:zpm2qsznhks23z7629mms6s4cwef74vcwvrqekrq9w';
+  t.deepEqual(
+    lockingBytecodeToCashAddress(p2pkh, 'bitcoincash', true),
+    p2pkhAddress
+  );
+  t.deepEqual(cashAddressToLockingBytecode(p2pkhAddress), {
+    bytecode: p2pkh,
+    prefix: 'bitcoincash',
+    tokenSupport: true,
+  });
+  const p2sh = hexToBin('a91476a04053bda0a88bda5177b86a15c3b29f55987387');
+  const p2shAddress = 'bitcoincash:rpm2qsznhks23z7629mms6s4cwef74vcwv59yeyr7n';
+  t.deepEqual(
+    lockingBytecodeToCashAddress(p2sh, 'bitcoincash', true),
+    p2shAddress
+  );
+  t.deepEqual(cashAddressToLockingBytecode(p2shAddress), {
+    bytecode: p2sh,
+    prefix: 'bitcoincash',
+    tokenSupport: true,
   });
 });
 
@@ -388,3 +473,22 @@ test('base58AddressToLockingBytecode: error', async (t) => {
     Base58AddressError.unknownCharacter
   );
 });
+
+test('lockingBytecodeToSegWitAddress: non-witness bytecode', (t) => {
+  const p2pkh = hexToBin('76a91465a16059864a2fdbc7c99a4723a8395bc6f188eb88ac');
+  t.deepEqual(
+    lockingBytecodeToSegWitAddress(p2pkh, SegWitAddressNetworkPrefix.mainnet),
+    {
+      payload: hexToBin('65a16059864a2fdbc7c99a4723a8395bc6f188eb'),
+      type: AddressType.p2pkh,
+    }
+  );
+  const invalidV0Length = hexToBin('00020000');
+  t.deepEqual(
+    lockingBytecodeToSegWitAddress(
+      invalidV0Length,
+      SegWitAddressNetworkPrefix.mainnet
+    ),
+    { payload: invalidV0Length, type: AddressType.unknown }
+  );
+});
@@ -13,6 +13,12 @@ import {
   decodeCashAddress,
   encodeCashAddress,
 } from './cash-address';
+import {
+  decodeSegWitAddress,
+  encodeSegWitAddress,
+  SegWitAddressEncodingError,
+  SegWitAddressNetworkPrefix,
+} from './segwit-address';
 
 /**
  * The most common address types used on bitcoin and bitcoin-like networks. Each
@@ -25,7 +31,8 @@ import {
  * Several address formats exist – `Base58Address` was the format used by the
  * original satoshi client, and is still in use on several active chains (see
  * `encodeBase58Address`). On Bitcoin Cash, the `CashAddress` standard is most
- * common (See `encodeCashAddress`).
+ * common (See `encodeCashAddress`). On Bitcoin, witness programs are encoded
+ * using the SegWit address format (See `encodeSegWitAddress`).
  */
 export enum AddressType {
   /**
@@ -47,6 +54,23 @@ export enum AddressType {
    * a script provided in the spending transaction. See BIP13 for details.
    */
   p2sh = 'P2SH',
+  /**
+   * Pay to Taproot (P2TR). A SegWit version 1 address type which locks funds
+   * to a single x-only public key, which may commit to a tree of alternative
+   * spending scripts. See BIP341 for details.
+   */
+  p2tr = 'P2TR',
+  /**
+   * Pay to Witness Public Key Hash (P2WPKH). The SegWit version 0 equivalent of
+   * `AddressType.p2pkh`. See BIP141 for details.
+   */
+  p2wpkh = 'P2WPKH',
+  /**
+   * Pay to Witness Script Hash (P2WSH). The SegWit version 0 equivalent of
+   * `AddressType.p2sh`, using a 32-byte `SHA256` hash of the witness script.
+   * See BIP141 for details.
+   */
+  p2wsh = 'P2WSH',
   /**
    * This `AddressType` represents an address using an unknown or uncommon
    * locking bytecode pattern for which no standardized address formats exist.
@@ -80,6 +104,13 @@ export interface AddressContents {
  * For a locking bytecode matching the Pay to Public Key (P2PK) pattern, the
  * returned `type` is `AddressType.p2pk` and `payload` is the full public key.
  *
+ * For a locking bytecode matching the Pay to Witness Public Key Hash (P2WPKH),
+ * Pay to Witness Script Hash (P2WSH), or Pay to Taproot (P2TR) patterns, the
+ * returned `type` is `AddressType.p2wpkh`, `AddressType.p2wsh`, or
+ * `AddressType.p2tr` (respectively) and `payload` is the witness program: the
+ * `HASH160` of the public key, the `SHA256` of the witness script, or the
+ * x-only output public key.
+ *
  * Any other locking bytecode will return a `type` of `AddressType.unknown` and
  * a payload of the unmodified `bytecode`.
  *
@@ -137,6 +168,30 @@ export const lockingBytecodeToAddressContents = (
     return { payload: bytecode.slice(start, end), type: AddressType.p2pk };
   }
 
+  const p2wpkhLength = 22;
+  if (
+    bytecode.length === p2wpkhLength &&
+    bytecode[0] === OpcodesCommon.OP_0 &&
+    bytecode[1] === OpcodesCommon.OP_PUSHBYTES_20
+  ) {
+    const start = 2;
+    return { payload: bytecode.slice(start), type: AddressType.p2wpkh };
+  }
+
+  const p2wshOrP2trLength = 34;
+  if (
+    bytecode.length === p2wshOrP2trLength &&
+    bytecode[1] === OpcodesCommon.OP_PUSHBYTES_32
+  ) {
+    const start = 2;
+    if (bytecode[0] === OpcodesCommon.OP_0) {
+      return { payload: bytecode.slice(start), type: AddressType.p2wsh };
+    }
+    if (bytecode[0] === OpcodesCommon.OP_1) {
+      return { payload: bytecode.slice(start), type: AddressType.p2tr };
+    }
+  }
+
   return {
     payload: bytecode.slice(),
     type: AddressType.unknown,
@@ -187,6 +242,27 @@ export const addressContentsToLockingBytecode = (
           OpcodesCommon.OP_CHECKSIG,
         ]);
   }
+  if (addressContents.type === AddressType.p2wpkh) {
+    return Uint8Array.from([
+      OpcodesCommon.OP_0,
+      OpcodesCommon.OP_PUSHBYTES_20,
+      ...addressContents.payload,
+    ]);
+  }
+  if (addressContents.type === AddressType.p2wsh) {
+    return Uint8Array.from([
+      OpcodesCommon.OP_0,
+      OpcodesCommon.OP_PUSHBYTES_32,
+      ...addressContents.payload,
+    ]);
+  }
+  if (addressContents.type === AddressType.p2tr) {
+    return Uint8Array.from([
+      OpcodesCommon.OP_1,
+      OpcodesCommon.OP_PUSHBYTES_32,
+      ...addressContents.payload,
+    ]);
+  }
   return addressContents.payload;
 };
 
@@ -202,19 +278,31 @@ export const addressContentsToLockingBytecode = (
  * @param bytecode - the locking bytecode to encode
  * @param prefix - the network prefix to use, e.g. `bitcoincash`, `bchtest`, or
  * `bchreg`
+ * @param tokenSupport - if `true`, the address is encoded using the
+ * token-aware address type (see `CashAddressType.P2PKHWithTokens`), signaling
+ * that the receiving wallet supports CashTokens – defaults to `false`
  */
 export const lockingBytecodeToCashAddress = <
   Prefix extends string = CashAddressNetworkPrefix
 >(
   bytecode: Uint8Array,
-  prefix: Prefix
+  prefix: Prefix,
+  tokenSupport = false
 ) => {
   const contents = lockingBytecodeToAddressContents(bytecode);
   if (contents.type === AddressType.p2pkh) {
-    return encodeCashAddress(prefix, CashAddressType.P2PKH, contents.payload);
+    return encodeCashAddress(
+      prefix,
+      tokenSupport ? CashAddressType.P2PKHWithTokens : CashAddressType.P2PKH,
+      contents.payload
+    );
   }
   if (contents.type === AddressType.p2sh) {
-    return encodeCashAddress(prefix, CashAddressType.P2SH, contents.payload);
+    return encodeCashAddress(
+      prefix,
+      tokenSupport ? CashAddressType.P2SHWithTokens : CashAddressType.P2SH,
+      contents.payload
+    );
   }
 
   return contents;
@@ -227,8 +315,9 @@ export enum LockingBytecodeEncodingError {
 /**
  * Convert a CashAddress to its respective locking bytecode.
  *
- * This method returns the locking bytecode and network prefix. If an error
- * occurs, an error message is returned as a string.
+ * This method returns the locking bytecode, network prefix, and whether or not
+ * the address signals token support (see `CashAddressType.P2PKHWithTokens`).
+ * If an error occurs, an error message is returned as a string.
  *
  * @param address - the CashAddress to convert
  */
@@ -236,23 +325,31 @@ export const cashAddressToLockingBytecode = (address: string) => {
   const decoded = decodeCashAddress(address);
   if (typeof decoded === 'string') return decoded;
 
-  if (decoded.type === CashAddressType.P2PKH) {
+  if (
+    decoded.type === CashAddressType.P2PKH ||
+    decoded.type === CashAddressType.P2PKHWithTokens
+  ) {
     return {
       bytecode: addressContentsToLockingBytecode({
         payload: decoded.hash,
         type: AddressType.p2pkh,
       }),
       prefix: decoded.prefix,
+      tokenSupport: decoded.type === CashAddressType.P2PKHWithTokens,
     };
   }
 
-  if (decoded.type === CashAddressType.P2SH) {
+  if (
+    decoded.type === CashAddressType.P2SH ||
+    decoded.type === CashAddressType.P2SHWithTokens
+  ) {
     return {
       bytecode: addressContentsToLockingBytecode({
         payload: decoded.hash,
         type: AddressType.p2sh,
       }),
       prefix: decoded.prefix,
+      tokenSupport: decoded.type === CashAddressType.P2SHWithTokens,
     };
   }
 
@@ -336,3 +433,86 @@ export const base58AddressToLockingBytecode = (
     version: decoded.version,
   };
 };
+
+const witnessVersionOpcodeOffset = OpcodesCommon.OP_1 - 1;
+const witnessProgramMinimumLength = 4;
+const witnessProgramMaximumLength = 42;
+
+/**
+ * Get the witness version and witness program of a locking bytecode matching
+ * the witness program pattern (a version push – `OP_0` through `OP_16` –
+ * followed by a single 2 to 40 byte push), or `undefined` if `bytecode` is not
+ * a witness program.
+ */
+const decodeWitnessLockingBytecode = (bytecode: Uint8Array) => {
+  const version =
+    bytecode[0] === OpcodesCommon.OP_0
+      ? 0
+      : bytecode[0] >= OpcodesCommon.OP_1 && bytecode[0] <= OpcodesCommon.OP_16
+      ? bytecode[0] - witnessVersionOpcodeOffset
+      : undefined;
+  const programStart = 2;
+  return version !== undefined &&
+    bytecode.length >= witnessProgramMinimumLength &&
+    bytecode.length <= witnessProgramMaximumLength &&
+    bytecode[1] === bytecode.length - programStart
+    ? { program: bytecode.slice(programStart), version }
+    : undefined;
+};
+
+/**
+ * Encode a locking bytecode as a SegWit address given a network prefix.
+ *
+ * If `bytecode` matches a witness program pattern (including the P2WPKH,
+ * P2WSH, and P2TR patterns), it is encoded using the proper witness version
+ * and returned as a valid SegWit address (string).
+ *
+ * If `bytecode` cannot be encoded as a SegWit address (i.e. because it is not a
+ * witness program), the resulting `AddressContents` is returned.
+ *
+ * @param bytecode - the locking bytecode to encode
+ * @param prefix - the network prefix to use, e.g. `bc`, `tb`, or `bcrt`
+ */
+export const lockingBytecodeToSegWitAddress = <
+  Prefix extends string = SegWitAddressNetworkPrefix
+>(
+  bytecode: Uint8Array,
+  prefix: Prefix
+) => {
+  const witnessProgram = decodeWitnessLockingBytecode(bytecode);
+  if (witnessProgram !== undefined) {
+    const encoded = encodeSegWitAddress(
+      prefix,
+      witnessProgram.version,
+      witnessProgram.program
+    );
+    if (encoded !== SegWitAddressEncodingError.invalidProgramLength) {
+      return encoded;
+    }
+  }
+  return lockingBytecodeToAddressContents(bytecode);
+};
+
+/**
+ * Convert a SegWit address to its respective locking bytecode.
+ *
+ * This method returns the locking bytecode and network prefix. If an error
+ * occurs, an error message is returned as a string.
+ *
+ * @param address - the SegWit address to convert
+ */
+export const segWitAddressToLockingBytecode = (address: string) => {
+  const decoded = decodeSegWitAddress(address);
+  if (typeof decoded === 'string') return decoded;
+
+  return {
+    bytecode: Uint8Array.from([
+      decoded.version === 0
+        ? OpcodesCommon.OP_0
+        : decoded.version + witnessVersionOpcodeOffset,
+      decoded.program.length,
+      ...decoded.program,
+    ]),
+    prefix: decoded.prefix,
+  };
+};
@@ -0,0 +1,209 @@
+/* eslint-disable functional/no-expression-statement, @typescript-eslint/no-magic-numbers */
+import test from 'ava';
+
+import {
+  Bech32ChecksumConstant,
+  Bech32FormatDecodingError,
+  decodeBech32Format,
+  decodeSegWitAddress,
+  encodeBech32Format,
+  encodeSegWitAddress,
+  expandBech32Prefix,
+  hexToBin,
+  lockingBytecodeToSegWitAddress,
+  SegWitAddressDecodingError,
+  SegWitAddressEncodingError,
+  SegWitAddressNetworkPrefix,
+  segWitAddressToLockingBytecode,
+} from '../lib';
+
+/**
+ * Test vectors from BIP350.
+ */
+const validSegWitAddresses = [
+  [
+    'BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4',
+    '0014751e76e8199196d454941c45d1b3a323f1433bd6',
+  ],
+  [
+    'tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7',
+    '00201863143c14c5166804bd19203356da136c985678cd4d27a1b8c6329604903262',
+  ],
+  [
+    'bc1pw508d6qejxtdg4y5r3zarvary0c5xw7kw508d6qejxtdg4y5r3zarvary0c5xw7kt5nd6y',
+    '5128751e76e8199196d454941c45d1b3a323f1433bd6751e76e8199196d454941c45d1b3a323f1433bd6',
+  ],
+  ['BC1SW50QGDZ25J', '6002751e'],
+  [
+    'bc1zw508d6qejxtdg4y5r3zarvaryvaxxpcs',
+    '5210751e76e8199196d454941c45d1b3a323',
+  ],
+  [
+    'tb1qqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesrxh6hy',
+    '0020000000c4a5cad46221b2a187905e5266362b99d5e91c6ce24d165dab93e86433',
+  ],
+  [
+    'tb1pqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesf3hn0c',
+    '5120000000c4a5cad46221b2a187905e5266362b99d5e91c6ce24d165dab93e86433',
+  ],
+  [
+    'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0',
+    '512079be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
+  ],
+];
+
+/**
+ * Test vectors from BIP350.
+ */
+const invalidSegWitAddresses: [
+  string,
+  Bech32FormatDecodingError | SegWitAddressDecodingError
+][] = [
+  [
+    'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqh2y7hd',
+    SegWitAddressDecodingError.mismatchedChecksum,
+  ],
+  [
+    'BC1S0XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ54WELL',
+    SegWitAddressDecodingError.mismatchedChecksum,
+  ],
+  [
+    'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kemeawh',
+    SegWitAddressDecodingError.mismatchedChecksum,
+  ],
+  [
+    'tb1q0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq24jc47',
+    SegWitAddressDecodingError.mismatchedChecksum,
+  ],
+  [
+    'bc1p38j9r5y49hruaue7wxjce0updqjuyyx0kh56v8s25huc6995vvpql3jow4',
+    Bech32FormatDecodingError.invalidCharacters,
+  ],
+  [
+    'BC130XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ7ZWS8R',
+    SegWitAddressDecodingError.invalidVersion,
+  ],
+  ['bc1pw5dgrnzv', SegWitAddressDecodingError.invalidProgramLength],
+  [
+    'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v8n0nx0muaewav253zgeav',
+    SegWitAddressDecodingError.invalidProgramLength,
+  ],
+  [
+    'BC1QR508D6QEJXTDG4Y5R3ZARVARYV98GJ9P',
+    SegWitAddressDecodingError.invalidProgramLength,
+  ],
+  [
+    'tb1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq47Zagq',
+    Bech32FormatDecodingError.invalidFormat,
+  ],
+  [
+    'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v07qwwzcrf',
+    SegWitAddressDecodingError.improperPadding,
+  ],
+  [
+    'tb1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vpggkg4j',
+    SegWitAddressDecodingError.improperPadding,
+  ],
+  ['bc1gmk9yu', SegWitAddressDecodingError.invalidVersion],
+];
+
+test('expandBech32Prefix', (t) => {
+  t.deepEqual(expandBech32Prefix('bc'), [3, 3, 0, 2, 3]);
+});
+
+test('encodeBech32Format <-> decodeBech32Format', (t) => {
+  /**
+   * Test vectors from BIP173 and BIP350.
+   */
+  t.deepEqual(
+    encodeBech32Format('a', [], Bech32ChecksumConstant.bech32),
+    'a12uel5l'
+  );
+  t.deepEqual(
+    encodeBech32Format('a', [], Bech32ChecksumConstant.bech32m),
+    'a1lqfn3a'
+  );
+  t.deepEqual(decodeBech32Format('A12UEL5L'), {
+    checksumConstant: Bech32ChecksumConstant.bech32,
+    data: [],
+    prefix: 'a',
+  });
+  t.deepEqual(decodeBech32Format('a1lqfn3a'), {
+    checksumConstant: Bech32ChecksumConstant.bech32m,
+    data: [],
+    prefix: 'a',
+  });
+  t.deepEqual(
+    decodeBech32Format('a1lqfn3q'),
+    Bech32FormatDecodingError.invalidChecksum
+  );
+  t.deepEqual(
+    decodeBech32Format('1qzzfhee'),
+    Bech32FormatDecodingError.invalidFormat
+  );
+  t.deepEqual(
+    decodeBech32Format('a1qfn3a'),
+    Bech32FormatDecodingError.invalidFormat
+  );
+});
+
+test('decodeSegWitAddress <-> encodeSegWitAddress: BIP350 test vectors', (t) => {
+  validSegWitAddresses.forEach(([address, lockingBytecode]) => {
+    const decoded = decodeSegWitAddress(address);
+    if (typeof decoded === 'string') {
+      t.fail(decoded);
+      return;
+    }
+    const bytecode = hexToBin(lockingBytecode);
+    t.deepEqual(decoded.program, bytecode.slice(2));
+    t.deepEqual(
+      encodeSegWitAddress(decoded.prefix, decoded.version, decoded.program),
+      address.toLowerCase()
+    );
+  });
+  invalidSegWitAddresses.forEach(([address, error]) => {
+    t.deepEqual(decodeSegWitAddress(address), error, address);
+  });
+});
+
+test('encodeSegWitAddress: errors', (t) => {
+  t.deepEqual(
+    encodeSegWitAddress(
+      SegWitAddressNetworkPrefix.mainnet,
+      17,
+      hexToBin('0000')
+    ),
+    SegWitAddressEncodingError.invalidVersion
+  );
+  t.deepEqual(
+    encodeSegWitAddress(
+      SegWitAddressNetworkPrefix.mainnet,
+      0,
+      hexToBin('0000')
+    ),
+    SegWitAddressEncodingError.invalidProgramLength
+  );
+  t.deepEqual(
+    encodeSegWitAddress(SegWitAddressNetworkPrefix.mainnet, 1, hexToBin('00')),
+    SegWitAddressEncodingError.invalidProgramLength
+  );
+});
+
+test('segWitAddressToLockingBytecode <-> lockingBytecodeToSegWitAddress', (t) => {
+  validSegWitAddresses.forEach(([address, lockingBytecode]) => {
+    const result = segWitAddressToLockingBytecode(address);
+    if (typeof result === 'string') {
+      t.fail(result);
+      return;
+    }
+    t.deepEqual(result.bytecode, hexToBin(lockingBytecode));
+    t.deepEqual(
+      lockingBytecodeToSegWitAddress(result.bytecode, result.prefix),
+      address.toLowerCase()
+    );
+  });
+  t.deepEqual(
+    segWitAddressToLockingBytecode('bc1gmk9yu'),
+    SegWitAddressDecodingError.invalidVersion
+  );
+});
@@ -0,0 +1,297 @@
+import { Immutable } from '../format/format';
+
+import {
+  decodeBech32,
+  encodeBech32,
+  isBech32CharacterSet,
+  regroupBits,
+} from './bech32';
+
+export enum SegWitAddressNetworkPrefix {
+  mainnet = 'bc',
+  testnet = 'tb',
+  regtest = 'bcrt',
+}
+
+/**
+ * The constants used to complete Bech32 and Bech32m checksums. The checksum
+ * constant is XORed with the result of `bech32PolynomialModulo` when encoding,
+ * and a valid string produces the same constant when decoding.
+ *
+ * Witness version 0 addresses use `Bech32` (BIP173), while all other witness
+ * versions use `Bech32m` (BIP350).
+ */
+export enum Bech32ChecksumConstant {
+  bech32 = 1,
+  bech32m = 0x2bc830a3,
+}
+
+// prettier-ignore
+const bech32Generator = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3]; // eslint-disable-line @typescript-eslint/no-magic-numbers
+
+/**
+ * Perform the Bech32 polynomial modulo operation, returning a 30-bit checksum.
+ *
+ * A.K.A. `bech32_polymod`
+ *
+ * @privateRemarks
+ * Derived from: https://github.com/sipa/bech32
+ *
+ * @param v - Array of 5-bit integers over which the checksum is to be computed
+ */
+export const bech32PolynomialModulo = (v: readonly number[]) => {
+  /* eslint-disable functional/no-let, functional/no-loop-statement, functional/no-expression-statement, no-bitwise, @typescript-eslint/no-magic-numbers */
+  let checksum = 1;
+  // eslint-disable-next-line @typescript-eslint/prefer-for-of, no-plusplus
+  for (let j = 0; j < v.length; j++) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ v[j];
+    // eslint-disable-next-line no-plusplus
+    for (let i = 0; i < bech32Generator.length; ++i) {
+      // eslint-disable-next-line functional/no-conditional-statement
+      if ((top >>> i) & 1) {
+        checksum ^= bech32Generator[i];
+      }
+    }
+  }
+  return checksum >>> 0;
+  /* eslint-enable functional/no-let, functional/no-loop-statement, functional/no-expression-statement, no-bitwise, @typescript-eslint/no-magic-numbers */
+};
+
+/**
+ * Expand a Bech32 prefix (A.K.A. "human-readable part") for use in checksum
+ * computation: the high 3 bits of each character, a `0` separator, and the
+ * low 5 bits of each character.
+ *
+ * A.K.A. `bech32_hrp_expand`
+ *
+ * @param prefix - the prefix to expand
+ */
+export const expandBech32Prefix = (prefix: string) => {
+  const codes = Array.from(prefix).map((character) => character.charCodeAt(0));
+  return [
+    // eslint-disable-next-line no-bitwise, @typescript-eslint/no-magic-numbers
+    ...codes.map((code) => code >>> 5),
+    0,
+    // eslint-disable-next-line no-bitwise, @typescript-eslint/no-magic-numbers
+    ...codes.map((code) => code & 31),
+  ];
+};
+
+const base32WordLength = 5;
+const base256WordLength = 8;
+const checksumLength = 6;
+const separator = '1';
+
+/**
+ * Encode an array of 5-bit integers as a Bech32 or Bech32m string (including
+ * the prefix, separator, and checksum).
+ *
+ * @param prefix - the prefix (A.K.A. "human-readable part") – must be only
+ * lowercase letters
+ * @param data - the array of 5-bit integers to encode
+ * @param checksumConstant - the `Bech32ChecksumConstant` to use
+ */
+export const encodeBech32Format = (
+  prefix: string,
+  data: readonly number[],
+  checksumConstant: Bech32ChecksumConstant
+) => {
+  const checksum =
+    // eslint-disable-next-line no-bitwise
+    bech32PolynomialModulo([
+      ...expandBech32Prefix(prefix),
+      ...data,
+      ...new Array<number>(checksumLength).fill(0),
+    ]) ^ checksumConstant;
+  const checksumContents = new Array<number>(checksumLength).fill(0).map(
+    (_, i) =>
+      // eslint-disable-next-line no-bitwise, @typescript-eslint/no-magic-numbers
+      (checksum >>> (base32WordLength * (checksumLength - 1 - i))) & 31
+  );
+  return `${prefix}${separator}${encodeBech32([...data, ...checksumContents])}`;
+};
+
+export enum Bech32FormatDecodingError {
+  invalidCharacters = 'Bech32 decoding error: the payload contains non-bech32 characters.',
+  invalidChecksum = 'Bech32 decoding error: please review the address for errors.',
+  invalidFormat = 'Bech32 decoding error: Bech32 strings should be of the form "prefix1payload", and may not use mixed case.',
+}
+
+const maximumBech32Length = 90;
+const minimumPrefixCharacter = 33;
+const maximumPrefixCharacter = 126;
+
+/**
+ * Decode and validate a Bech32 or Bech32m string, returning the prefix, the
+ * array of 5-bit integers (without the checksum), and the
+ * `Bech32ChecksumConstant` with which the string was encoded.
+ *
+ * @param encoded - the Bech32 or Bech32m string to decode
+ */
+// eslint-disable-next-line complexity
+export const decodeBech32Format = (encoded: string) => {
+  const lowercase = encoded.toLowerCase();
+  const separatorPosition = lowercase.lastIndexOf(separator);
+  if (
+    (lowercase !== encoded && encoded.toUpperCase() !== encoded) ||
+    encoded.length > maximumBech32Length ||
+    separatorPosition < 1 ||
+    separatorPosition + checksumLength + 1 > lowercase.length ||
+    Array.from(lowercase).some(
+      (character) =>
+        character.charCodeAt(0) < minimumPrefixCharacter ||
+        character.charCodeAt(0) > maximumPrefixCharacter
+    )
+  ) {
+    return Bech32FormatDecodingError.invalidFormat;
+  }
+  const prefix = lowercase.slice(0, separatorPosition);
+  const payload = lowercase.slice(separatorPosition + 1);
+  if (!isBech32CharacterSet(payload)) {
+    return Bech32FormatDecodingError.invalidCharacters;
+  }
+  const decodedPayload = decodeBech32(payload);
+  const checksum = bech32PolynomialModulo([
+    ...expandBech32Prefix(prefix),
+    ...decodedPayload,
+  ]);
+  const checksumConstant =
+    checksum === Bech32ChecksumConstant.bech32
+      ? Bech32ChecksumConstant.bech32
+      : checksum === Bech32ChecksumConstant.bech32m
+      ? Bech32ChecksumConstant.bech32m
+      : undefined;
+  if (checksumConstant === undefined) {
+    return Bech32FormatDecodingError.invalidChecksum;
+  }
+  return {
+    checksumConstant,
+    data: decodedPayload.slice(0, -checksumLength),
+    prefix,
+  };
+};
+
+export enum SegWitAddressEncodingError {
+  invalidVersion = 'SegWit address encoding error: the witness version must be an integer between 0 and 16.',
+  invalidProgramLength = 'SegWit address encoding error: a witness program of this length can not be encoded as a valid SegWit address.',
+}
+
+const maximumWitnessVersion = 16;
+const minimumProgramLength = 2;
+const maximumProgramLength = 40;
+const witnessV0KeyHashLength = 20;
+const witnessV0ScriptHashLength = 32;
+
+/**
+ * Determine if a witness program has a valid length for its witness version.
+ * Witness programs must be between 2 and 40 bytes, and version 0 witness
+ * programs must be either 20 bytes (P2WPKH) or 32 bytes (P2WSH).
+ */
+const isValidProgramLength = (version: number, programLength: number) =>
+  programLength >= minimumProgramLength &&
+  programLength <= maximumProgramLength &&
+  (version !== 0 ||
+    programLength === witnessV0KeyHashLength ||
+    programLength === witnessV0ScriptHashLength);
+
+/**
+ * Encode a witness program as a SegWit address (BIP173 and BIP350).
+ *
+ * Witness version 0 programs are encoded using the Bech32 checksum, while all
+ * other witness versions are encoded using the Bech32m checksum.
+ *
+ * Note, this method does not enforce error handling via the type system. The
+ * returned string may be a `SegWitAddressEncodingError` if `version` or
+ * `program` are not valid. Check the result if the input is potentially
+ * malformed.
+ *
+ * @param prefix - a valid prefix indicating the network for which to encode the
+ * address (usually a `SegWitAddressNetworkPrefix`) – must be only lowercase
+ * letters
+ * @param version - the witness version (between `0` and `16`)
+ * @param program - the witness program to encode (e.g. for P2WPKH, the public
+ * key hash; for P2TR, the x-only output public key)
+ */
+export const encodeSegWitAddress = <
+  Prefix extends string = SegWitAddressNetworkPrefix
+>(
+  prefix: Prefix,
+  version: number,
+  program: Immutable<Uint8Array>
+) => {
+  if (
+    !Number.isInteger(version) ||
+    version < 0 ||
+    version > maximumWitnessVersion
+  ) {
+    return SegWitAddressEncodingError.invalidVersion;
+  }
+  if (!isValidProgramLength(version, program.length)) {
+    return SegWitAddressEncodingError.invalidProgramLength;
+  }
+  return encodeBech32Format(
+    prefix,
+    [
+      version,
+      ...(regroupBits({
+        bin: program,
+        resultWordLength: base32WordLength,
+        sourceWordLength: base256WordLength,
+      }) as number[]),
+    ],
+    version === 0
+      ? Bech32ChecksumConstant.bech32
+      : Bech32ChecksumConstant.bech32m
+  );
+};
+
+export enum SegWitAddressDecodingError {
+  improperPadding = 'SegWit address decoding error: the payload is improperly padded.',
+  invalidProgramLength = 'SegWit address decoding error: the witness program has an invalid length for its witness version.',
+  invalidVersion = 'SegWit address decoding error: the witness version must be between 0 and 16.',
+  mismatchedChecksum = 'SegWit address decoding error: witness version 0 addresses must use Bech32 checksums, and all other witness versions must use Bech32m checksums.',
+}
+
+/**
+ * Decode and validate a SegWit address (BIP173 and BIP350), returning the
+ * network prefix, witness version, and witness program.
+ *
+ * If an error occurs, an error message is returned as a string.
+ *
+ * @param address - the SegWit address to decode
+ */
+export const decodeSegWitAddress = (address: string) => {
+  const decoded = decodeBech32Format(address);
+  if (typeof decoded === 'string') {
+    return decoded;
+  }
+  const [version, ...programContents] = decoded.data;
+  if (version === undefined || version > maximumWitnessVersion) {
+    return SegWitAddressDecodingError.invalidVersion;
+  }
+  const expectedChecksum =
+    version === 0
+      ? Bech32ChecksumConstant.bech32
+      : Bech32ChecksumConstant.bech32m;
+  if (decoded.checksumConstant !== expectedChecksum) {
+    return SegWitAddressDecodingError.mismatchedChecksum;
+  }
+  const program = regroupBits({
+    allowPadding: false,
+    bin: programContents,
+    resultWordLength: base256WordLength,
+    sourceWordLength: base32WordLength,
+  });
+  if (typeof program === 'string') {
+    return SegWitAddressDecodingError.improperPadding;
+  }
+  if (!isValidProgramLength(version, program.length)) {
+    return SegWitAddressDecodingError.invalidProgramLength;
+  }
+  return {
+    prefix: decoded.prefix,
+    program: Uint8Array.from(program),
+    version,
+  };
+};
@@ -0,0 +1,75 @@
+/* eslint-disable functional/no-expression-statement, functional/immutable-data */
+import test from 'ava';
+
+import {
+  instantiateRipemd160,
+  instantiateSecp256k1,
+  instantiateSha1,
+  instantiateSha256,
+  instantiateSha512,
+  instantiateWasmOrFallback,
+  ripemd160Fallback,
+  secp256k1Fallback,
+  sha1Fallback,
+  sha256Fallback,
+  sha512Fallback,
+} from '../lib';
+
+test('[crypto] instantiateWasmOrFallback', async (t) => {
+  t.deepEqual(
+    await instantiateWasmOrFallback(async () => Promise.resolve('wasm'), 'js'),
+    'wasm'
+  );
+  t.deepEqual(
+    await instantiateWasmOrFallback(
+      async () => Promise.reject(new WebAssembly.CompileError()),
+      'js'
+    ),
+    'js'
+  );
+  await t.throwsAsync(
+    instantiateWasmOrFallback(
+      async () => Promise.reject(new Error('Out of memory')),
+      'js'
+    ),
+    { message: 'Out of memory' }
+  );
+});
+
+test.serial(
+  '[crypto] instantiate*: fall back if WebAssembly cannot be compiled',
+  async (t) => {
+    const { instantiate } = WebAssembly;
+    /**
+     * e.g. "WebAssembly.instantiate(): Refused to compile or instantiate
+     * WebAssembly module because 'unsafe-eval' is not an allowed source of
+     * script"
+     */
+    WebAssembly.instantiate = () => {
+      // eslint-disable-next-line functional/no-throw-statement
+      throw new WebAssembly.CompileError();
+    };
+    const [ripemd160, secp256k1, sha1, sha256, sha512] = await Promise.all([
+      instantiateRipemd160(),
+      instantiateSecp256k1(),
+      instantiateSha1(),
+      instantiateSha256(),
+      instantiateSha512(),
+    ]);
+    await t.throwsAsync(instantiateSecp256k1(undefined, { fallback: false }), {
+      instanceOf: WebAssembly.CompileError,
+    });
+    WebAssembly.instantiate = instantiate;
+    t.is(ripemd160, ripemd160Fallback);
+    t.is(secp256k1, secp256k1Fallback);
+    t.is(sha1, sha1Fallback);
+    t.is(sha256, sha256Fallback);
+    t.is(sha512, sha512Fallback);
+  }
+);
+
+test('[crypto] instantiateSecp256k1: fallback: false', async (t) => {
+  const secp256k1 = await instantiateSecp256k1(undefined, { fallback: false });
+  t.not(secp256k1, secp256k1Fallback);
+  t.is(await instantiateSecp256k1(), secp256k1);
+});
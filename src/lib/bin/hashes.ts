@@ -5,6 +5,38 @@ export interface HashFunction {
   readonly update: (rawState: Uint8Array, input: Uint8Array) => Uint8Array;
 }
 
+/**
+ * Instantiate a WebAssembly implementation with `instantiate`, resolving to
+ * `fallback` if WebAssembly is not available. Some environments do not provide
+ * WebAssembly, and in others (e.g. those with a restrictive Content Security
+ * Policy) the `WebAssembly` global is defined, but compilation throws a
+ * `WebAssembly.CompileError`. Any other error is rethrown.
+ *
+ * @param instantiate - a method which instantiates the WebAssembly
+ * implementation
+ * @param fallback - the implementation to use if WebAssembly is not available
+ */
+export const instantiateWasmOrFallback = async <T>(
+  instantiate: () => Promise<T>,
+  fallback: T
+) => {
+  // eslint-disable-next-line functional/no-conditional-statement
+  if (typeof WebAssembly === 'undefined') {
+    return fallback;
+  }
+  // eslint-disable-next-line functional/no-try-statement
+  try {
+    return await instantiate();
+  } catch (error) {
+    // eslint-disable-next-line functional/no-conditional-statement
+    if (error instanceof WebAssembly.CompileError) {
+      return fallback;
+    }
+    // eslint-disable-next-line functional/no-throw-statement
+    throw error;
+  }
+};
+
 /* eslint-disable functional/no-conditional-statement, functional/no-let, functional/no-expression-statement, no-underscore-dangle, functional/no-try-statement, @typescript-eslint/no-magic-numbers, max-params, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-assignment */
 /**
  * Note, most of this method is translated and boiled-down from the wasm-pack
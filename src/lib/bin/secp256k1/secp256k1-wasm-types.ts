@@ -353,21 +353,25 @@ export interface Secp256k1Wasm {
    * failed, or the private key was invalid.
    *
    * Note, this WebAssembly Secp256k1 implementation does not currently support
-   * the final two arguments from the C library, `noncefp` and `ndata`. The
-   * default nonce generation function, `secp256k1_nonce_function_default`, is
-   * always used.
+   * the `noncefp` argument from the C library. The default nonce generation
+   * function, `secp256k1_nonce_function_default` (RFC6979), is always used.
+   * The `ndata` argument is supported as `nonceDataPtr`.
    *
    * @param contextPtr - pointer to a context object, initialized for signing
    * @param outputSigPtr - pointer to a 64 byte space where the signature will
    * be written
    * @param msg32Ptr - pointer to the 32-byte message hash being signed
    * @param secretKeyPtr - pointer to a 32-byte secret key
+   * @param nonceDataPtr - pointer to 32 bytes of extra entropy which are added
+   * to the RFC6979 nonce generation input, or `0` (the default) to derive the
+   * nonce only from the message hash and secret key
    */
   readonly schnorrSign: (
     contextPtr: number,
     outputSigPtr: number,
     msg32Ptr: number,
-    secretKeyPtr: number
+    secretKeyPtr: number,
+    nonceDataPtr?: number
   ) => 1 | 0;
 
   /**
@@ -406,21 +410,25 @@ export interface Secp256k1Wasm {
    * failed, or the private key was invalid.
    *
    * Note, this WebAssembly Secp256k1 implementation does not currently support
-   * the final two arguments from the C library, `noncefp` and `ndata`. The
-   * default nonce generation function, `secp256k1_nonce_function_default`, is
-   * always used.
+   * the `noncefp` argument from the C library. The default nonce generation
+   * function, `secp256k1_nonce_function_default` (RFC6979), is always used.
+   * The `ndata` argument is supported as `nonceDataPtr`.
    *
    * @param contextPtr - pointer to a context object, initialized for signing
    * @param outputSigPtr - pointer to a 64 byte space where the signature will be
    * written (internal format)
    * @param msg32Ptr - pointer to the 32-byte message hash being signed
    * @param secretKeyPtr - pointer to a 32-byte secret key
+   * @param nonceDataPtr - pointer to 32 bytes of extra entropy which are added
+   * to the RFC6979 nonce generation input, or `0` (the default) to derive the
+   * nonce only from the message hash and secret key
    */
   readonly sign: (
     contextPtr: number,
     outputSigPtr: number,
     msg32Ptr: number,
-    secretKeyPtr: number
+    secretKeyPtr: number,
+    nonceDataPtr?: number
   ) => 1 | 0;
 
   /**
@@ -589,21 +597,25 @@ export interface Secp256k1Wasm {
    * failed, or the private key was invalid.
    *
    * Note, this WebAssembly Secp256k1 implementation does not currently support
-   * the final two arguments from the C library, `noncefp` and `ndata`. The
-   * default nonce generation function, `secp256k1_nonce_function_default`, is
-   * always used.
+   * the `noncefp` argument from the C library. The default nonce generation
+   * function, `secp256k1_nonce_function_default` (RFC6979), is always used.
+   * The `ndata` argument is supported as `nonceDataPtr`.
    *
    * @param contextPtr - pointer to a context object, initialized for signing
    * @param outputRSigPtr - pointer to a 65 byte space where the signature will
    * be written (internal format)
    * @param msg32Ptr - pointer to the 32-byte message hash being signed
    * @param secretKeyPtr - pointer to a 32-byte secret key
+   * @param nonceDataPtr - pointer to 32 bytes of extra entropy which are added
+   * to the RFC6979 nonce generation input, or `0` (the default) to derive the
+   * nonce only from the message hash and secret key
    */
   readonly signRecoverable: (
     contextPtr: number,
     outputRSigPtr: number,
     msg32Ptr: number,
-    secretKeyPtr: number
+    secretKeyPtr: number,
+    nonceDataPtr?: number
   ) => 1 | 0;
 
   /**
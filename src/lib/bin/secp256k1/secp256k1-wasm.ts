@@ -130,12 +130,20 @@ const wrapSecp256k1Wasm = (
       recIDOutPtr,
       rSigPtr
     ),
-  schnorrSign: (contextPtr, outputSigPtr, msg32Ptr, secretKeyPtr) =>
+  schnorrSign: (
+    contextPtr,
+    outputSigPtr,
+    msg32Ptr,
+    secretKeyPtr,
+    nonceDataPtr = 0
+  ) =>
     (instance.exports as any)._secp256k1_schnorr_sign(
       contextPtr,
       outputSigPtr,
       msg32Ptr,
-      secretKeyPtr
+      secretKeyPtr,
+      0,
+      nonceDataPtr
     ),
   schnorrVerify: (contextPtr, sigPtr, msg32Ptr, publicKeyPtr) =>
     (instance.exports as any)._secp256k1_schnorr_verify(
@@ -149,19 +157,29 @@ const wrapSecp256k1Wasm = (
       contextPtr,
       secretKeyPtr
     ),
-  sign: (contextPtr, outputSigPtr, msg32Ptr, secretKeyPtr) =>
+  sign: (contextPtr, outputSigPtr, msg32Ptr, secretKeyPtr, nonceDataPtr = 0) =>
     (instance.exports as any)._secp256k1_ecdsa_sign(
       contextPtr,
       outputSigPtr,
       msg32Ptr,
-      secretKeyPtr
+      secretKeyPtr,
+      0,
+      nonceDataPtr
     ),
-  signRecoverable: (contextPtr, outputRSigPtr, msg32Ptr, secretKeyPtr) =>
+  signRecoverable: (
+    contextPtr,
+    outputRSigPtr,
+    msg32Ptr,
+    secretKeyPtr,
+    nonceDataPtr = 0
+  ) =>
     (instance.exports as any)._secp256k1_ecdsa_sign_recoverable(
       contextPtr,
       outputRSigPtr,
       msg32Ptr,
-      secretKeyPtr
+      secretKeyPtr,
+      0,
+      nonceDataPtr
     ),
   signatureMalleate: (contextPtr, outputSigPtr, inputSigPtr) =>
     (instance.exports as any)._secp256k1_ecdsa_signature_malleate(
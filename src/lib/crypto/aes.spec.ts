@@ -0,0 +1,44 @@
+/* eslint-disable functional/no-expression-statement */
+import test, { Macro } from 'ava';
+
+import { decryptAesBlock, encryptAesBlock, hexToBin } from '../lib';
+
+const vectors: Macro<[
+  { key: string; plaintext: string; ciphertext: string }
+]> = (t, vector) => {
+  const key = hexToBin(vector.key);
+  t.deepEqual(
+    encryptAesBlock(key, hexToBin(vector.plaintext)),
+    hexToBin(vector.ciphertext)
+  );
+  t.deepEqual(
+    decryptAesBlock(key, hexToBin(vector.ciphertext)),
+    hexToBin(vector.plaintext)
+  );
+};
+// eslint-disable-next-line functional/immutable-data
+vectors.title = (title) => `[crypto] AES Test Vector: ${title ?? '?'}`;
+
+test('AES-128 (FIPS 197, Appendix C.1)', vectors, {
+  ciphertext: '69c4e0d86a7b0430d8cdb78070b4c55a',
+  key: '000102030405060708090a0b0c0d0e0f',
+  plaintext: '00112233445566778899aabbccddeeff',
+});
+
+test('AES-192 (FIPS 197, Appendix C.2)', vectors, {
+  ciphertext: 'dda97ca4864cdfe06eaf70a0ec0d7191',
+  key: '000102030405060708090a0b0c0d0e0f1011121314151617',
+  plaintext: '00112233445566778899aabbccddeeff',
+});
+
+test('AES-256 (FIPS 197, Appendix C.3)', vectors, {
+  ciphertext: '8ea2b7ca516745bfeafc49904b496089',
+  key: '000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f',
+  plaintext: '00112233445566778899aabbccddeeff',
+});
+
+test('AES-128 (FIPS 197, Appendix B)', vectors, {
+  ciphertext: '3925841d02dc09fbdc118597196a0b32',
+  key: '2b7e151628aed2a6abf7158809cf4f3c',
+  plaintext: '3243f6a8885a308d313198a2e0370734',
+});
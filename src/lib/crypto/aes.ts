@@ -0,0 +1,172 @@
+/* eslint-disable functional/no-let, functional/no-loop-statement, functional/no-expression-statement, functional/immutable-data, no-bitwise, no-plusplus, functional/no-conditional-statement, @typescript-eslint/no-magic-numbers */
+
+/**
+ * The AES substitution box (FIPS 197, Section 5.1.1).
+ */
+// prettier-ignore
+const substitutionBox = Uint8Array.from([0x63, 0x7c, 0x77, 0x7b, 0xf2, 0x6b, 0x6f, 0xc5, 0x30, 0x01, 0x67, 0x2b, 0xfe, 0xd7, 0xab, 0x76, 0xca, 0x82, 0xc9, 0x7d, 0xfa, 0x59, 0x47, 0xf0, 0xad, 0xd4, 0xa2, 0xaf, 0x9c, 0xa4, 0x72, 0xc0, 0xb7, 0xfd, 0x93, 0x26, 0x36, 0x3f, 0xf7, 0xcc, 0x34, 0xa5, 0xe5, 0xf1, 0x71, 0xd8, 0x31, 0x15, 0x04, 0xc7, 0x23, 0xc3, 0x18, 0x96, 0x05, 0x9a, 0x07, 0x12, 0x80, 0xe2, 0xeb, 0x27, 0xb2, 0x75, 0x09, 0x83, 0x2c, 0x1a, 0x1b, 0x6e, 0x5a, 0xa0, 0x52, 0x3b, 0xd6, 0xb3, 0x29, 0xe3, 0x2f, 0x84, 0x53, 0xd1, 0x00, 0xed, 0x20, 0xfc, 0xb1, 0x5b, 0x6a, 0xcb, 0xbe, 0x39, 0x4a, 0x4c, 0x58, 0xcf, 0xd0, 0xef, 0xaa, 0xfb, 0x43, 0x4d, 0x33, 0x85, 0x45, 0xf9, 0x02, 0x7f, 0x50, 0x3c, 0x9f, 0xa8, 0x51, 0xa3, 0x40, 0x8f, 0x92, 0x9d, 0x38, 0xf5, 0xbc, 0xb6, 0xda, 0x21, 0x10, 0xff, 0xf3, 0xd2, 0xcd, 0x0c, 0x13, 0xec, 0x5f, 0x97, 0x44, 0x17, 0xc4, 0xa7, 0x7e, 0x3d, 0x64, 0x5d, 0x19, 0x73, 0x60, 0x81, 0x4f, 0xdc, 0x22, 0x2a, 0x90, 0x88, 0x46, 0xee, 0xb8, 0x14, 0xde, 0x5e, 0x0b, 0xdb, 0xe0, 0x32, 0x3a, 0x0a, 0x49, 0x06, 0x24, 0x5c, 0xc2, 0xd3, 0xac, 0x62, 0x91, 0x95, 0xe4, 0x79, 0xe7, 0xc8, 0x37, 0x6d, 0x8d, 0xd5, 0x4e, 0xa9, 0x6c, 0x56, 0xf4, 0xea, 0x65, 0x7a, 0xae, 0x08, 0xba, 0x78, 0x25, 0x2e, 0x1c, 0xa6, 0xb4, 0xc6, 0xe8, 0xdd, 0x74, 0x1f, 0x4b, 0xbd, 0x8b, 0x8a, 0x70, 0x3e, 0xb5, 0x66, 0x48, 0x03, 0xf6, 0x0e, 0x61, 0x35, 0x57, 0xb9, 0x86, 0xc1, 0x1d, 0x9e, 0xe1, 0xf8, 0x98, 0x11, 0x69, 0xd9, 0x8e, 0x94, 0x9b, 0x1e, 0x87, 0xe9, 0xce, 0x55, 0x28, 0xdf, 0x8c, 0xa1, 0x89, 0x0d, 0xbf, 0xe6, 0x42, 0x68, 0x41, 0x99, 0x2d, 0x0f, 0xb0, 0x54, 0xbb, 0x16]);
+
+const inverseSubstitutionBox = substitutionBox.reduce(
+  (inverse, value, index) => {
+    inverse[value] = index;
+    return inverse;
+  },
+  new Uint8Array(256)
+);
+
+const enum Internal {
+  blockLength = 16,
+  wordLength = 4,
+  columns = 4,
+  reductionPolynomial = 0x1b,
+}
+
+/**
+ * Multiply a byte by `x` (`0x02`) in GF(2^8).
+ */
+const xtime = (value: number) =>
+  ((value << 1) ^ (value & 0x80 ? Internal.reductionPolynomial : 0)) & 0xff;
+
+/**
+ * Multiply two bytes in GF(2^8).
+ */
+const multiply = (a: number, b: number) => {
+  let result = 0;
+  let multiplicand = a;
+  for (let bits = b; bits > 0; bits >>= 1) {
+    if (bits & 1) {
+      result ^= multiplicand;
+    }
+    multiplicand = xtime(multiplicand);
+  }
+  return result;
+};
+
+/**
+ * Expand an AES key into its key schedule (FIPS 197, Section 5.2), returning
+ * the concatenated round keys.
+ */
+const expandKey = (key: Uint8Array) => {
+  const keyWords = key.length / Internal.wordLength;
+  const rounds = keyWords + 6;
+  const schedule = new Uint8Array(Internal.blockLength * (rounds + 1));
+  schedule.set(key);
+  let roundConstant = 1;
+  for (let word = keyWords; word < Internal.columns * (rounds + 1); word++) {
+    const offset = word * Internal.wordLength;
+    const temp = schedule.slice(offset - Internal.wordLength, offset);
+    if (word % keyWords === 0) {
+      const [first, ...rest] = temp;
+      temp.set([...rest, first].map((byte) => substitutionBox[byte]));
+      temp[0] ^= roundConstant;
+      roundConstant = xtime(roundConstant);
+    } else if (keyWords > 6 && word % keyWords === Internal.wordLength) {
+      temp.set(temp.map((byte) => substitutionBox[byte]));
+    }
+    for (let i = 0; i < Internal.wordLength; i++) {
+      schedule[offset + i] =
+        schedule[offset - keyWords * Internal.wordLength + i] ^ temp[i];
+    }
+  }
+  return { rounds, schedule };
+};
+
+const addRoundKey = (
+  state: Uint8Array,
+  schedule: Uint8Array,
+  round: number
+) => {
+  for (let i = 0; i < Internal.blockLength; i++) {
+    state[i] ^= schedule[round * Internal.blockLength + i];
+  }
+};
+
+/**
+ * Cyclically shift row `r` of the state left by `r * direction` columns. (The
+ * state is stored in column-major order.)
+ */
+const shiftRows = (state: Uint8Array, direction: 1 | -1) => {
+  const original = state.slice();
+  for (let row = 1; row < Internal.wordLength; row++) {
+    for (let column = 0; column < Internal.columns; column++) {
+      const source =
+        (column + row * direction + Internal.columns) % Internal.columns;
+      state[column * Internal.wordLength + row] =
+        original[source * Internal.wordLength + row];
+    }
+  }
+};
+
+/**
+ * Multiply each column of the state by a fixed polynomial, where
+ * `coefficients` is the first row of the corresponding circulant matrix.
+ */
+const mixColumns = (state: Uint8Array, coefficients: readonly number[]) => {
+  for (let column = 0; column < Internal.columns; column++) {
+    const offset = column * Internal.wordLength;
+    const original = state.slice(offset, offset + Internal.wordLength);
+    for (let row = 0; row < Internal.wordLength; row++) {
+      state[offset + row] = coefficients.reduce(
+        (result, coefficient, i) =>
+          result ^
+          multiply(original[(row + i) % Internal.wordLength], coefficient),
+        0
+      );
+    }
+  }
+};
+
+const mixColumnsCoefficients = [0x02, 0x03, 0x01, 0x01];
+const inverseMixColumnsCoefficients = [0x0e, 0x0b, 0x0d, 0x09];
+
+/**
+ * Encrypt a single 16-byte block using the AES block cipher (FIPS 197).
+ *
+ * The key length determines the AES variant: 16-byte keys use AES-128,
+ * 24-byte keys use AES-192, and 32-byte keys use AES-256.
+ *
+ * Note, this method does not enforce error handling via the type system. The
+ * result will not be correct if `key` or `block` have invalid lengths. If
+ * needed, validate their lengths before calling this method. Also note, this
+ * method is a building block for other standards (e.g. BIP38) and does not
+ * implement any block cipher mode of operation.
+ *
+ * @param key - the 16, 24, or 32-byte key
+ * @param block - the 16-byte block to encrypt
+ */
+export const encryptAesBlock = (key: Uint8Array, block: Uint8Array) => {
+  const { rounds, schedule } = expandKey(key);
+  const state = block.slice(0, Internal.blockLength);
+  addRoundKey(state, schedule, 0);
+  for (let round = 1; round <= rounds; round++) {
+    state.set(state.map((byte) => substitutionBox[byte]));
+    shiftRows(state, 1);
+    if (round !== rounds) {
+      mixColumns(state, mixColumnsCoefficients);
+    }
+    addRoundKey(state, schedule, round);
+  }
+  return state;
+};
+
+/**
+ * Decrypt a single 16-byte block using the AES block cipher (FIPS 197). See
+ * `encryptAesBlock` for details.
+ *
+ * @param key - the 16, 24, or 32-byte key
+ * @param block - the 16-byte block to decrypt
+ */
+export const decryptAesBlock = (key: Uint8Array, block: Uint8Array) => {
+  const { rounds, schedule } = expandKey(key);
+  const state = block.slice(0, Internal.blockLength);
+  addRoundKey(state, schedule, rounds);
+  for (let round = rounds - 1; round >= 0; round--) {
+    shiftRows(state, -1);
+    state.set(state.map((byte) => inverseSubstitutionBox[byte]));
+    addRoundKey(state, schedule, round);
+    if (round !== 0) {
+      mixColumns(state, inverseMixColumnsCoefficients);
+    }
+  }
+  return state;
+};
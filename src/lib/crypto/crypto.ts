@@ -1,6 +1,18 @@
+export * from './aes';
+export * from './ed25519';
+export * from './hash-fallback';
+export * from './hkdf';
 export * from './hmac';
+export * from './p256';
+export * from './pbkdf2';
 export * from './ripemd160';
+export * from './scrypt';
 export * from './secp256k1';
+export * from './secp256k1-batch';
+export * from './secp256k1-constants';
+export * from './secp256k1-fallback';
+export * from './secp256k1-nonce';
+export * from './secp256k1-point';
 export * from './sha1';
 export * from './sha256';
 export * from './sha512';
@@ -0,0 +1,58 @@
+/* eslint-disable functional/no-expression-statement */
+import test, { Macro } from 'ava';
+
+import {
+  binToHex,
+  derivePublicKeyEd25519,
+  hexToBin,
+  instantiateSha512,
+} from '../lib';
+
+const sha512Promise = instantiateSha512();
+
+/**
+ * Test vectors from RFC 8032, Section 7.1.
+ */
+const vectors: Macro<[{ privateKey: string; publicKey: string }]> = async (
+  t,
+  { privateKey, publicKey }
+) => {
+  const sha512 = await sha512Promise;
+  t.deepEqual(
+    binToHex(derivePublicKeyEd25519(sha512, hexToBin(privateKey))),
+    publicKey
+  );
+};
+// eslint-disable-next-line functional/immutable-data
+vectors.title = (title) =>
+  `[crypto] derivePublicKeyEd25519: RFC 8032 ${title ?? '?'}`;
+
+test('TEST 1', vectors, {
+  privateKey:
+    '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60',
+  publicKey: 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a',
+});
+
+test('TEST 2', vectors, {
+  privateKey:
+    '4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb',
+  publicKey: '3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c',
+});
+
+test('TEST 3', vectors, {
+  privateKey:
+    'c5aa8df43f9f837bedb7442f31dcb7b166d38535076f094b85ce3a2e0b4458f7',
+  publicKey: 'fc51cd8e6218a1a38da47ed00230f0580816ed13ba3303ac5deb911548908025',
+});
+
+test('TEST 1024', vectors, {
+  privateKey:
+    'f5e5767cf153319517630f226876b86c8160cc583bc013744c6bf255f5cc0ee5',
+  publicKey: '278117fc144c72340f67d0f2316e8386ceffbf2b2428c9c51fef7c597f1d426e',
+});
+
+test('TEST SHA(abc)', vectors, {
+  privateKey:
+    '833fe62409237b9d62ec77587520911e9a759cec1d19755b7da901b96dca3d42',
+  publicKey: 'ec172b93ad5e563bf4932c70e1245034c35467ef2efd4d64ebf819683467e2bf',
+});
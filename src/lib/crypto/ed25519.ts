@@ -0,0 +1,125 @@
+import { bigIntToBinUintLE, binToBigIntUintLE } from '../format/format';
+
+import { modularInverse, modulo } from './secp256k1-point';
+import { Sha512 } from './sha512';
+
+/**
+ * Pure-JavaScript arithmetic for the ed25519 curve (the twisted Edwards curve
+ * birationally equivalent to Curve25519), as specified in RFC 8032.
+ *
+ * Note, these methods are not constant-time.
+ */
+
+const enum Internal {
+  keyLength = 32,
+  signBit = 0x80,
+}
+
+/**
+ * The size of the finite field over which the ed25519 curve is defined
+ * (`2^255 - 19`).
+ */
+export const ed25519FieldSize = BigInt(
+  '0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffed'
+);
+
+/**
+ * The curve constant `d` (`-121665/121666`).
+ */
+const curveD = BigInt(
+  '0x52036cee2b6ffe738cc740797779e89800700a4d4141d8ab75eb4dca135978a3'
+);
+
+/**
+ * A point in extended coordinates, `(x / z, y / z)`, where `t = x * y / z`.
+ */
+type ExtendedPoint = { x: bigint; y: bigint; z: bigint; t: bigint };
+
+const basePoint: ExtendedPoint = (() => {
+  const x = BigInt(
+    '0x216936d3cd6e53fec0a4e231fdd6dc5c692cc7609525a7b2c9562d608f25d51a'
+  );
+  const y = BigInt(
+    '0x6666666666666666666666666666666666666666666666666666666666666658'
+  );
+  return { t: modulo(x * y, ed25519FieldSize), x, y, z: BigInt(1) };
+})();
+
+const identity: ExtendedPoint = {
+  t: BigInt(0),
+  x: BigInt(0),
+  y: BigInt(1),
+  z: BigInt(1),
+};
+
+/**
+ * Add two points (the formula is complete, so it also handles doubling).
+ */
+const addPoints = (a: ExtendedPoint, b: ExtendedPoint): ExtendedPoint => {
+  const p = ed25519FieldSize;
+  const two = BigInt(2);
+  const pa = modulo((a.y - a.x) * (b.y - b.x), p);
+  const pb = modulo((a.y + a.x) * (b.y + b.x), p);
+  const pc = modulo(two * curveD * a.t * b.t, p);
+  const pd = modulo(two * a.z * b.z, p);
+  const e = pb - pa;
+  const f = pd - pc;
+  const g = pd + pc;
+  const h = pb + pa;
+  return {
+    t: modulo(e * h, p),
+    x: modulo(e * f, p),
+    y: modulo(g * h, p),
+    z: modulo(f * g, p),
+  };
+};
+
+const multiplyPoint = (point: ExtendedPoint, scalar: bigint) =>
+  scalar
+    .toString(2)
+    .split('')
+    .reduce<ExtendedPoint>(
+      (sum, bit) =>
+        bit === '1'
+          ? addPoints(addPoints(sum, sum), point)
+          : addPoints(sum, sum),
+      identity
+    );
+
+/**
+ * Encode a point as 32 bytes: the little-endian Y coordinate, with the most
+ * significant bit set to the parity of the X coordinate.
+ */
+const encodePoint = (point: ExtendedPoint) => {
+  const zInverse = modularInverse(point.z, ed25519FieldSize);
+  const x = modulo(point.x * zInverse, ed25519FieldSize);
+  const y = modulo(point.y * zInverse, ed25519FieldSize);
+  const encoded = new Uint8Array(Internal.keyLength);
+  // eslint-disable-next-line functional/no-expression-statement
+  encoded.set(bigIntToBinUintLE(y));
+  // eslint-disable-next-line functional/no-expression-statement, functional/immutable-data, no-bitwise
+  encoded[Internal.keyLength - 1] |=
+    x % BigInt(2) === BigInt(1) ? Internal.signBit : 0;
+  return encoded;
+};
+
+/**
+ * Derive the 32-byte ed25519 public key for a 32-byte ed25519 private key (as
+ * specified in RFC 8032, Section 5.1.5). Any 32-byte value is a valid ed25519
+ * private key.
+ *
+ * @param sha512 - an implementation of Sha512
+ * @param privateKey - the 32-byte private key
+ */
+export const derivePublicKeyEd25519 = (
+  sha512: { hash: Sha512['hash'] },
+  privateKey: Uint8Array
+) => {
+  const hash = sha512.hash(privateKey).slice(0, Internal.keyLength);
+  /* eslint-disable functional/no-expression-statement, functional/immutable-data, no-bitwise, @typescript-eslint/no-magic-numbers */
+  hash[0] &= 0xf8;
+  hash[31] &= 0x7f;
+  hash[31] |= 0x40;
+  /* eslint-enable functional/no-expression-statement, functional/immutable-data, no-bitwise, @typescript-eslint/no-magic-numbers */
+  return encodePoint(multiplyPoint(basePoint, binToBigIntUintLE(hash)));
+};
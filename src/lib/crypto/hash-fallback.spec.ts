@@ -0,0 +1,56 @@
+/* eslint-disable functional/no-expression-statement, @typescript-eslint/no-magic-numbers */
+import test, { Macro } from 'ava';
+
+import {
+  HashFunction,
+  instantiateRipemd160,
+  instantiateSha1,
+  instantiateSha256,
+  instantiateSha512,
+  ripemd160Fallback,
+  sha1Fallback,
+  sha256Fallback,
+  sha512Fallback,
+  utf8ToBin,
+} from '../lib';
+
+/**
+ * Inputs of every length up to 300 bytes, covering each padding case.
+ */
+const inputs = [...Array(301).keys()].map((length) =>
+  Uint8Array.from([...Array(length).keys()].map((index) => (index * 7) % 256))
+);
+
+const matchesWasm: Macro<[HashFunction, () => Promise<HashFunction>]> = async (
+  t,
+  fallback,
+  instantiate
+) => {
+  const wasm = await instantiate();
+  inputs.forEach((input) => {
+    const expected = wasm.hash(input);
+    t.deepEqual(fallback.hash(input), expected);
+    const split = Math.floor(input.length / 3);
+    t.deepEqual(
+      fallback.final(
+        fallback.update(
+          fallback.update(fallback.init(), input.slice(0, split)),
+          input.slice(split)
+        )
+      ),
+      expected
+    );
+  });
+  t.deepEqual(
+    fallback.hash(utf8ToBin('abc'.repeat(1000))),
+    wasm.hash(utf8ToBin('abc'.repeat(1000)))
+  );
+};
+// eslint-disable-next-line functional/immutable-data
+matchesWasm.title = (title) =>
+  `[crypto] ${title ?? '?'}: fallback matches WebAssembly implementation`;
+
+test('ripemd160', matchesWasm, ripemd160Fallback, instantiateRipemd160);
+test('sha1', matchesWasm, sha1Fallback, instantiateSha1);
+test('sha256', matchesWasm, sha256Fallback, instantiateSha256);
+test('sha512', matchesWasm, sha512Fallback, instantiateSha512);
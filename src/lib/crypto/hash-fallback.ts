@@ -0,0 +1,618 @@
+/* eslint-disable functional/no-let, functional/no-loop-statement, functional/no-expression-statement, functional/immutable-data, no-bitwise, @typescript-eslint/no-magic-numbers */
+import { HashFunction } from '../bin/bin';
+import { flattenBinArray } from '../format/format';
+
+import { Ripemd160 } from './ripemd160';
+import { Sha1 } from './sha1';
+import { Sha256 } from './sha256';
+import { Sha512 } from './sha512';
+
+/**
+ * Pure-JavaScript implementations of the hash functions otherwise provided by
+ * Libauth's WebAssembly binaries, for use in environments which cannot
+ * instantiate WebAssembly (e.g. under a restrictive Content Security Policy).
+ * These implementations are used automatically by `instantiateSha256` (and
+ * similar methods) when `WebAssembly` is unavailable.
+ *
+ * The raw states used by `init`, `update`, and `final` are not compatible with
+ * those of the WebAssembly implementations.
+ */
+
+/**
+ * A Merkle–Damgård hash function operating on 32-bit words.
+ */
+interface MerkleDamgardAlgorithm {
+  readonly blockLength: number;
+  /**
+   * Process one block (beginning at `offset` in `block`), updating `state`.
+   */
+  readonly compress: (
+    state: Uint32Array,
+    block: DataView,
+    offset: number
+  ) => void;
+  readonly digest: (state: Uint32Array) => Uint8Array;
+  readonly initialState: readonly number[];
+  readonly lengthFieldLength: number;
+  readonly littleEndian: boolean;
+}
+
+const enum Internal {
+  byteCountLength = 8,
+  uint32Length = 4,
+  uint32Max = 0x100000000,
+  paddingByte = 0x80,
+}
+
+const viewOf = (bin: Uint8Array) =>
+  new DataView(bin.buffer, bin.byteOffset, bin.byteLength);
+
+/**
+ * Create a `HashFunction` from a `MerkleDamgardAlgorithm`. Raw states are
+ * encoded as the state words (little-endian), followed by the count of bytes
+ * processed (as a little-endian, 64-bit integer), followed by any input which
+ * does not yet fill a block.
+ */
+const createMerkleDamgardHash = (
+  algorithm: MerkleDamgardAlgorithm
+): HashFunction => {
+  const stateLength = algorithm.initialState.length * Internal.uint32Length;
+
+  const encode = (
+    state: Uint32Array,
+    byteCount: number,
+    pending: Uint8Array
+  ) => {
+    const raw = new Uint8Array(
+      stateLength + Internal.byteCountLength + pending.length
+    );
+    const view = viewOf(raw);
+    state.forEach((word, index) => {
+      view.setUint32(index * Internal.uint32Length, word, true);
+    });
+    view.setUint32(stateLength, byteCount % Internal.uint32Max, true);
+    view.setUint32(
+      stateLength + Internal.uint32Length,
+      Math.floor(byteCount / Internal.uint32Max),
+      true
+    );
+    raw.set(pending, stateLength + Internal.byteCountLength);
+    return raw;
+  };
+
+  const decode = (raw: Uint8Array) => {
+    const view = viewOf(raw);
+    const state = new Uint32Array(
+      algorithm.initialState.length
+    ).map((_, index) => view.getUint32(index * Internal.uint32Length, true));
+    const byteCount =
+      view.getUint32(stateLength, true) +
+      view.getUint32(stateLength + Internal.uint32Length, true) *
+        Internal.uint32Max;
+    return {
+      byteCount,
+      pending: raw.slice(stateLength + Internal.byteCountLength),
+      state,
+    };
+  };
+
+  /**
+   * Compress all complete blocks in `data`, returning any remaining bytes.
+   */
+  const absorb = (state: Uint32Array, data: Uint8Array) => {
+    const view = viewOf(data);
+    let offset = 0;
+    for (
+      ;
+      offset + algorithm.blockLength <= data.length;
+      offset += algorithm.blockLength
+    ) {
+      algorithm.compress(state, view, offset);
+    }
+    return data.slice(offset);
+  };
+
+  const init = () =>
+    encode(Uint32Array.from(algorithm.initialState), 0, new Uint8Array(0));
+
+  const update = (rawState: Uint8Array, input: Uint8Array) => {
+    const { byteCount, pending, state } = decode(rawState);
+    const remaining = absorb(state, flattenBinArray([pending, input]));
+    return encode(state, byteCount + input.length, remaining);
+  };
+
+  const final = (rawState: Uint8Array) => {
+    const { byteCount, pending, state } = decode(rawState);
+    const paddedLength =
+      Math.ceil(
+        (pending.length + 1 + algorithm.lengthFieldLength) /
+          algorithm.blockLength
+      ) * algorithm.blockLength;
+    const padded = new Uint8Array(paddedLength);
+    padded.set(pending);
+    padded[pending.length] = Internal.paddingByte;
+    const bitCount = byteCount * 8;
+    const high = Math.floor(bitCount / Internal.uint32Max);
+    const low = bitCount % Internal.uint32Max;
+    const view = viewOf(padded);
+    if (algorithm.littleEndian) {
+      view.setUint32(paddedLength - algorithm.lengthFieldLength, low, true);
+      view.setUint32(
+        paddedLength - algorithm.lengthFieldLength + Internal.uint32Length,
+        high,
+        true
+      );
+    } else {
+      view.setUint32(paddedLength - 2 * Internal.uint32Length, high);
+      view.setUint32(paddedLength - Internal.uint32Length, low);
+    }
+    absorb(state, padded);
+    return algorithm.digest(state);
+  };
+
+  return {
+    final,
+    hash: (input: Uint8Array) => final(update(init(), input)),
+    init,
+    update,
+  };
+};
+
+const digestWords = (littleEndian: boolean, wordCount: number) => (
+  state: Uint32Array
+) => {
+  const digest = new Uint8Array(wordCount * Internal.uint32Length);
+  const view = viewOf(digest);
+  for (let index = 0; index < wordCount; index += 1) {
+    view.setUint32(index * Internal.uint32Length, state[index], littleEndian);
+  }
+  return digest;
+};
+
+const rotateLeft = (value: number, bits: number) =>
+  (value << bits) | (value >>> (32 - bits));
+
+const rotateRight = (value: number, bits: number) =>
+  (value >>> bits) | (value << (32 - bits));
+
+/**
+ * The SHA-512 round constants and initial hash value, as pairs of (high, low)
+ * 32-bit words. The SHA-256 constants are the high words of the first 64 round
+ * constants, and the SHA-256 initial hash value is the high words of the
+ * SHA-512 initial hash value.
+ */
+// prettier-ignore
+const sha512RoundConstants = [
+  0x428a2f98, 0xd728ae22,
+  0x71374491, 0x23ef65cd,
+  0xb5c0fbcf, 0xec4d3b2f,
+  0xe9b5dba5, 0x8189dbbc,
+  0x3956c25b, 0xf348b538,
+  0x59f111f1, 0xb605d019,
+  0x923f82a4, 0xaf194f9b,
+  0xab1c5ed5, 0xda6d8118,
+  0xd807aa98, 0xa3030242,
+  0x12835b01, 0x45706fbe,
+  0x243185be, 0x4ee4b28c,
+  0x550c7dc3, 0xd5ffb4e2,
+  0x72be5d74, 0xf27b896f,
+  0x80deb1fe, 0x3b1696b1,
+  0x9bdc06a7, 0x25c71235,
+  0xc19bf174, 0xcf692694,
+  0xe49b69c1, 0x9ef14ad2,
+  0xefbe4786, 0x384f25e3,
+  0x0fc19dc6, 0x8b8cd5b5,
+  0x240ca1cc, 0x77ac9c65,
+  0x2de92c6f, 0x592b0275,
+  0x4a7484aa, 0x6ea6e483,
+  0x5cb0a9dc, 0xbd41fbd4,
+  0x76f988da, 0x831153b5,
+  0x983e5152, 0xee66dfab,
+  0xa831c66d, 0x2db43210,
+  0xb00327c8, 0x98fb213f,
+  0xbf597fc7, 0xbeef0ee4,
+  0xc6e00bf3, 0x3da88fc2,
+  0xd5a79147, 0x930aa725,
+  0x06ca6351, 0xe003826f,
+  0x14292967, 0x0a0e6e70,
+  0x27b70a85, 0x46d22ffc,
+  0x2e1b2138, 0x5c26c926,
+  0x4d2c6dfc, 0x5ac42aed,
+  0x53380d13, 0x9d95b3df,
+  0x650a7354, 0x8baf63de,
+  0x766a0abb, 0x3c77b2a8,
+  0x81c2c92e, 0x47edaee6,
+  0x92722c85, 0x1482353b,
+  0xa2bfe8a1, 0x4cf10364,
+  0xa81a664b, 0xbc423001,
+  0xc24b8b70, 0xd0f89791,
+  0xc76c51a3, 0x0654be30,
+  0xd192e819, 0xd6ef5218,
+  0xd6990624, 0x5565a910,
+  0xf40e3585, 0x5771202a,
+  0x106aa070, 0x32bbd1b8,
+  0x19a4c116, 0xb8d2d0c8,
+  0x1e376c08, 0x5141ab53,
+  0x2748774c, 0xdf8eeb99,
+  0x34b0bcb5, 0xe19b48a8,
+  0x391c0cb3, 0xc5c95a63,
+  0x4ed8aa4a, 0xe3418acb,
+  0x5b9cca4f, 0x7763e373,
+  0x682e6ff3, 0xd6b2b8a3,
+  0x748f82ee, 0x5defb2fc,
+  0x78a5636f, 0x43172f60,
+  0x84c87814, 0xa1f0ab72,
+  0x8cc70208, 0x1a6439ec,
+  0x90befffa, 0x23631e28,
+  0xa4506ceb, 0xde82bde9,
+  0xbef9a3f7, 0xb2c67915,
+  0xc67178f2, 0xe372532b,
+  0xca273ece, 0xea26619c,
+  0xd186b8c7, 0x21c0c207,
+  0xeada7dd6, 0xcde0eb1e,
+  0xf57d4f7f, 0xee6ed178,
+  0x06f067aa, 0x72176fba,
+  0x0a637dc5, 0xa2c898a6,
+  0x113f9804, 0xbef90dae,
+  0x1b710b35, 0x131c471b,
+  0x28db77f5, 0x23047d84,
+  0x32caab7b, 0x40c72493,
+  0x3c9ebe0a, 0x15c9bebc,
+  0x431d67c4, 0x9c100d4c,
+  0x4cc5d4be, 0xcb3e42b6,
+  0x597f299c, 0xfc657e2a,
+  0x5fcb6fab, 0x3ad6faec,
+  0x6c44198c, 0x4a475817,
+];
+
+// prettier-ignore
+const sha512InitialState = [
+  0x6a09e667, 0xf3bcc908,
+  0xbb67ae85, 0x84caa73b,
+  0x3c6ef372, 0xfe94f82b,
+  0xa54ff53a, 0x5f1d36f1,
+  0x510e527f, 0xade682d1,
+  0x9b05688c, 0x2b3e6c1f,
+  0x1f83d9ab, 0xfb41bd6b,
+  0x5be0cd19, 0x137e2179,
+];
+
+const highWords = (pairs: readonly number[]) =>
+  pairs.filter((_, index) => index % 2 === 0);
+
+const sha256RoundConstants = highWords(sha512RoundConstants).slice(0, 64);
+
+const sha512RoundConstantWords = Uint32Array.from(sha512RoundConstants);
+
+const sha256Compress = (
+  state: Uint32Array,
+  block: DataView,
+  offset: number
+) => {
+  const w = new Uint32Array(64);
+  for (let i = 0; i < 16; i += 1) {
+    w[i] = block.getUint32(offset + i * Internal.uint32Length);
+  }
+  for (let i = 16; i < 64; i += 1) {
+    const s0 =
+      rotateRight(w[i - 15], 7) ^
+      rotateRight(w[i - 15], 18) ^
+      (w[i - 15] >>> 3);
+    const s1 =
+      rotateRight(w[i - 2], 17) ^ rotateRight(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+    w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+  }
+  let [a, b, c, d, e, f, g, h] = state;
+  for (let i = 0; i < 64; i += 1) {
+    const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+    const choice = (e & f) ^ (~e & g);
+    const t1 = (h + s1 + choice + sha256RoundConstants[i] + w[i]) | 0;
+    const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+    const majority = (a & b) ^ (a & c) ^ (b & c);
+    const t2 = (s0 + majority) | 0;
+    h = g;
+    g = f;
+    f = e;
+    e = (d + t1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (t1 + t2) | 0;
+  }
+  [a, b, c, d, e, f, g, h].forEach((value, index) => {
+    state[index] += value;
+  });
+};
+
+/**
+ * A pure-JavaScript implementation of sha256. See `instantiateSha256`.
+ */
+export const sha256Fallback: Sha256 = createMerkleDamgardHash({
+  blockLength: 64,
+  compress: sha256Compress,
+  digest: digestWords(false, 8),
+  initialState: highWords(sha512InitialState),
+  lengthFieldLength: 8,
+  littleEndian: false,
+});
+
+const sha1Compress = (state: Uint32Array, block: DataView, offset: number) => {
+  const w = new Uint32Array(80);
+  for (let i = 0; i < 16; i += 1) {
+    w[i] = block.getUint32(offset + i * Internal.uint32Length);
+  }
+  for (let i = 16; i < 80; i += 1) {
+    w[i] = rotateLeft(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+  }
+  let [a, b, c, d, e] = state;
+  for (let i = 0; i < 80; i += 1) {
+    const [f, k] =
+      i < 20
+        ? [(b & c) | (~b & d), 0x5a827999]
+        : i < 40
+        ? [b ^ c ^ d, 0x6ed9eba1]
+        : i < 60
+        ? [(b & c) | (b & d) | (c & d), 0x8f1bbcdc]
+        : [b ^ c ^ d, 0xca62c1d6];
+    const temp = (rotateLeft(a, 5) + f + e + k + w[i]) | 0;
+    e = d;
+    d = c;
+    c = rotateLeft(b, 30);
+    b = a;
+    a = temp;
+  }
+  [a, b, c, d, e].forEach((value, index) => {
+    state[index] += value;
+  });
+};
+
+/**
+ * A pure-JavaScript implementation of sha1. See `instantiateSha1`.
+ */
+export const sha1Fallback: Sha1 = createMerkleDamgardHash({
+  blockLength: 64,
+  compress: sha1Compress,
+  digest: digestWords(false, 5),
+  initialState: [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0],
+  lengthFieldLength: 8,
+  littleEndian: false,
+});
+
+// prettier-ignore
+const ripemd160WordOrderLeft = [
+  0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15,
+  7, 4, 13, 1, 10, 6, 15, 3, 12, 0, 9, 5, 2, 14, 11, 8,
+  3, 10, 14, 4, 9, 15, 8, 1, 2, 7, 0, 6, 13, 11, 5, 12,
+  1, 9, 11, 10, 0, 8, 12, 4, 13, 3, 7, 15, 14, 5, 6, 2,
+  4, 0, 5, 9, 7, 12, 2, 10, 14, 1, 3, 8, 11, 6, 15, 13,
+];
+
+// prettier-ignore
+const ripemd160WordOrderRight = [
+  5, 14, 7, 0, 9, 2, 11, 4, 13, 6, 15, 8, 1, 10, 3, 12,
+  6, 11, 3, 7, 0, 13, 5, 10, 14, 15, 8, 12, 4, 9, 1, 2,
+  15, 5, 1, 3, 7, 14, 6, 9, 11, 8, 12, 2, 10, 0, 4, 13,
+  8, 6, 4, 1, 3, 11, 15, 0, 5, 12, 2, 13, 9, 7, 10, 14,
+  12, 15, 10, 4, 1, 5, 8, 7, 6, 2, 13, 14, 0, 3, 9, 11,
+];
+
+// prettier-ignore
+const ripemd160RotationsLeft = [
+  11, 14, 15, 12, 5, 8, 7, 9, 11, 13, 14, 15, 6, 7, 9, 8,
+  7, 6, 8, 13, 11, 9, 7, 15, 7, 12, 15, 9, 11, 7, 13, 12,
+  11, 13, 6, 7, 14, 9, 13, 15, 14, 8, 13, 6, 5, 12, 7, 5,
+  11, 12, 14, 15, 14, 15, 9, 8, 9, 14, 5, 6, 8, 6, 5, 12,
+  9, 15, 5, 11, 6, 8, 13, 12, 5, 12, 13, 14, 11, 8, 5, 6,
+];
+
+// prettier-ignore
+const ripemd160RotationsRight = [
+  8, 9, 9, 11, 13, 15, 15, 5, 7, 7, 8, 11, 14, 14, 12, 6,
+  9, 13, 15, 7, 12, 8, 9, 11, 7, 7, 12, 7, 6, 15, 13, 11,
+  9, 7, 15, 11, 8, 6, 6, 14, 12, 13, 5, 14, 13, 13, 7, 5,
+  15, 5, 8, 11, 14, 14, 6, 14, 6, 9, 12, 9, 12, 5, 15, 8,
+  8, 5, 12, 9, 12, 5, 14, 6, 8, 13, 6, 5, 15, 13, 11, 11,
+];
+
+const ripemd160ConstantsLeft = [
+  0x00000000,
+  0x5a827999,
+  0x6ed9eba1,
+  0x8f1bbcdc,
+  0xa953fd4e,
+];
+
+const ripemd160ConstantsRight = [
+  0x50a28be6,
+  0x5c4dd124,
+  0x6d703ef3,
+  0x7a6d76e9,
+  0x00000000,
+];
+
+const ripemd160Function = (round: number, x: number, y: number, z: number) =>
+  round === 0
+    ? x ^ y ^ z
+    : round === 1
+    ? (x & y) | (~x & z)
+    : round === 2
+    ? (x | ~y) ^ z
+    : round === 3
+    ? (x & z) | (y & ~z)
+    : x ^ (y | ~z);
+
+const ripemd160Compress = (
+  state: Uint32Array,
+  block: DataView,
+  offset: number
+) => {
+  const x = new Uint32Array(16).map((_, i) =>
+    block.getUint32(offset + i * Internal.uint32Length, true)
+  );
+  let [al, bl, cl, dl, el] = state;
+  let [ar, br, cr, dr, er] = state;
+  for (let j = 0; j < 80; j += 1) {
+    const round = Math.floor(j / 16);
+    const tl =
+      (rotateLeft(
+        (al +
+          ripemd160Function(round, bl, cl, dl) +
+          x[ripemd160WordOrderLeft[j]] +
+          ripemd160ConstantsLeft[round]) |
+          0,
+        ripemd160RotationsLeft[j]
+      ) +
+        el) |
+      0;
+    al = el;
+    el = dl;
+    dl = rotateLeft(cl, 10);
+    cl = bl;
+    bl = tl;
+    const tr =
+      (rotateLeft(
+        (ar +
+          ripemd160Function(4 - round, br, cr, dr) +
+          x[ripemd160WordOrderRight[j]] +
+          ripemd160ConstantsRight[round]) |
+          0,
+        ripemd160RotationsRight[j]
+      ) +
+        er) |
+      0;
+    ar = er;
+    er = dr;
+    dr = rotateLeft(cr, 10);
+    cr = br;
+    br = tr;
+  }
+  const [h0, h1, h2, h3, h4] = state;
+  state[0] = h1 + cl + dr;
+  state[1] = h2 + dl + er;
+  state[2] = h3 + el + ar;
+  state[3] = h4 + al + br;
+  state[4] = h0 + bl + cr;
+};
+
+/**
+ * A pure-JavaScript implementation of ripemd160. See `instantiateRipemd160`.
+ */
+export const ripemd160Fallback: Ripemd160 = createMerkleDamgardHash({
+  blockLength: 64,
+  compress: ripemd160Compress,
+  digest: digestWords(true, 5),
+  initialState: [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0],
+  lengthFieldLength: 8,
+  littleEndian: true,
+});
+
+/**
+ * SHA-512 operates on 64-bit words, each represented here by a pair of 32-bit
+ * words: the high word at an even index, and the low word at the following
+ * index.
+ */
+const sha512Compress = (
+  state: Uint32Array,
+  block: DataView,
+  offset: number
+) => {
+  const w = new Uint32Array(160);
+  for (let i = 0; i < 32; i += 1) {
+    w[i] = block.getUint32(offset + i * Internal.uint32Length);
+  }
+
+  /**
+   * Set the 64-bit word at `words[index]` to the sum of the provided 64-bit
+   * (high, low) pairs.
+   */
+  const setSum = (
+    words: Uint32Array,
+    index: number,
+    ...pairs: (readonly [number, number])[]
+  ) => {
+    const low = pairs.reduce((sum, pair) => sum + (pair[1] >>> 0), 0);
+    const high = pairs.reduce((sum, pair) => sum + pair[0], 0);
+    words[index] = high + Math.floor(low / Internal.uint32Max);
+    words[index + 1] = low;
+  };
+
+  const pairAt = (words: Uint32Array, index: number) =>
+    [words[index], words[index + 1]] as const;
+
+  const rotate = (high: number, low: number, bits: number) =>
+    bits < 32
+      ? ([
+          (high >>> bits) | (low << (32 - bits)),
+          (low >>> bits) | (high << (32 - bits)),
+        ] as const)
+      : ([
+          (low >>> (bits - 32)) | (high << (64 - bits)),
+          (high >>> (bits - 32)) | (low << (64 - bits)),
+        ] as const);
+
+  const shift = (high: number, low: number, bits: number) =>
+    [high >>> bits, (low >>> bits) | (high << (32 - bits))] as const;
+
+  const xor3 = (
+    a: readonly [number, number],
+    b: readonly [number, number],
+    c: readonly [number, number]
+  ) => [a[0] ^ b[0] ^ c[0], a[1] ^ b[1] ^ c[1]] as const;
+
+  for (let i = 16; i < 80; i += 1) {
+    const [h15, l15] = pairAt(w, (i - 15) * 2);
+    const [h2, l2] = pairAt(w, (i - 2) * 2);
+    setSum(
+      w,
+      i * 2,
+      pairAt(w, (i - 16) * 2),
+      xor3(rotate(h15, l15, 1), rotate(h15, l15, 8), shift(h15, l15, 7)),
+      pairAt(w, (i - 7) * 2),
+      xor3(rotate(h2, l2, 19), rotate(h2, l2, 61), shift(h2, l2, 6))
+    );
+  }
+
+  const v = Uint32Array.from(state);
+  const t = new Uint32Array(4);
+  for (let i = 0; i < 80; i += 1) {
+    const [ah, al] = pairAt(v, 0);
+    const [bh, bl] = pairAt(v, 2);
+    const [ch, cl] = pairAt(v, 4);
+    const [eh, el] = pairAt(v, 8);
+    const [fh, fl] = pairAt(v, 10);
+    const [gh, gl] = pairAt(v, 12);
+    setSum(
+      t,
+      0,
+      pairAt(v, 14),
+      xor3(rotate(eh, el, 14), rotate(eh, el, 18), rotate(eh, el, 41)),
+      [(eh & fh) ^ (~eh & gh), (el & fl) ^ (~el & gl)],
+      pairAt(sha512RoundConstantWords, i * 2),
+      pairAt(w, i * 2)
+    );
+    setSum(
+      t,
+      2,
+      xor3(rotate(ah, al, 28), rotate(ah, al, 34), rotate(ah, al, 39)),
+      [(ah & bh) ^ (ah & ch) ^ (bh & ch), (al & bl) ^ (al & cl) ^ (bl & cl)]
+    );
+    v.copyWithin(2, 0, 14);
+    setSum(v, 8, pairAt(v, 8), pairAt(t, 0));
+    setSum(v, 0, pairAt(t, 0), pairAt(t, 2));
+  }
+  for (let i = 0; i < 16; i += 2) {
+    setSum(state, i, pairAt(state, i), pairAt(v, i));
+  }
+};
+
+/**
+ * A pure-JavaScript implementation of sha512. See `instantiateSha512`.
+ */
+export const sha512Fallback: Sha512 = createMerkleDamgardHash({
+  blockLength: 128,
+  compress: sha512Compress,
+  digest: digestWords(false, 16),
+  initialState: sha512InitialState,
+  lengthFieldLength: 16,
+  littleEndian: false,
+});
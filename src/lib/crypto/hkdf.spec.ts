@@ -0,0 +1,99 @@
+/* eslint-disable functional/no-expression-statement, @typescript-eslint/no-magic-numbers */
+import test, { Macro } from 'ava';
+
+import {
+  binToHex,
+  hexToBin,
+  HkdfError,
+  hkdfSha256,
+  hkdfSha512,
+  instantiateSha256,
+  instantiateSha512,
+} from '../lib';
+
+const sha256Promise = instantiateSha256();
+const sha512Promise = instantiateSha512();
+
+const range = (start: number, length: number) =>
+  binToHex(Uint8Array.from({ length }, (_, i) => start + i));
+
+const vectors: Macro<[
+  {
+    inputKeyMaterial: string;
+    salt?: string;
+    info?: string;
+    length: number;
+    sha256: string;
+    sha512: string;
+  }
+]> = async (t, vector) => {
+  const sha256 = await sha256Promise;
+  const sha512 = await sha512Promise;
+  const parameters = {
+    inputKeyMaterial: hexToBin(vector.inputKeyMaterial),
+    length: vector.length,
+    ...(vector.salt === undefined ? {} : { salt: hexToBin(vector.salt) }),
+    ...(vector.info === undefined ? {} : { info: hexToBin(vector.info) }),
+  };
+  t.deepEqual(
+    binToHex(hkdfSha256(sha256, parameters) as Uint8Array),
+    vector.sha256
+  );
+  t.deepEqual(
+    binToHex(hkdfSha512(sha512, parameters) as Uint8Array),
+    vector.sha512
+  );
+};
+// eslint-disable-next-line functional/immutable-data
+vectors.title = (title) => `[crypto] HKDF Test Vector #${title ?? '?'}`;
+
+/**
+ * The HKDF-SHA256 results are test cases 1 through 3 from RFC 5869. The
+ * HKDF-SHA512 results were produced by Node.js' `crypto.hkdfSync`.
+ */
+test('1 (RFC 5869)', vectors, {
+  info: 'f0f1f2f3f4f5f6f7f8f9',
+  inputKeyMaterial: '0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b',
+  length: 42,
+  salt: '000102030405060708090a0b0c',
+  sha256:
+    '3cb25f25faacd57a90434f64d0362f2a2d2d0a90cf1a5a4c5db02d56ecc4c5bf34007208d5b887185865',
+  sha512:
+    '832390086cda71fb47625bb5ceb168e4c8e26a1a16ed34d9fc7fe92c1481579338da362cb8d9f925d7cb',
+});
+
+test('2 (RFC 5869)', vectors, {
+  info: range(0xb0, 80),
+  inputKeyMaterial: range(0x00, 80),
+  length: 82,
+  salt: range(0x60, 80),
+  sha256:
+    'b11e398dc80327a1c8e7f78c596a49344f012eda2d4efad8a050cc4c19afa97c59045a99cac7827271cb41c65e590e09da3275600c2f09b8367793a9aca3db71cc30c58179ec3e87c14c01d5c1f3434f1d87',
+  sha512:
+    'ce6c97192805b346e6161e821ed165673b84f400a2b514b2fe23d84cd189ddf1b695b48cbd1c8388441137b3ce28f16aa64ba33ba466b24df6cfcb021ecff235f6a2056ce3af1de44d572097a8505d9e7a93',
+});
+
+test('3 (RFC 5869)', vectors, {
+  inputKeyMaterial: '0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b',
+  length: 42,
+  sha256:
+    '8da4e775a563c18f715f802a063c5a31b8a11f5c5ee1879ec3454e5f3c738d2d9d201395faa4b61a96c8',
+  sha512:
+    'f5fa02b18298a72a8c23898a8703472c6eb179dc204c03425c970e3b164bf90fff22d04836d0e2343bac',
+});
+
+test('[crypto] HKDF: output length limit', async (t) => {
+  const sha256 = await sha256Promise;
+  const sha512 = await sha512Promise;
+  const inputKeyMaterial = hexToBin('0b0b0b0b');
+  t.is(hkdfSha256(sha256, { inputKeyMaterial, length: 8160 }).length, 8160);
+  t.deepEqual(
+    hkdfSha256(sha256, { inputKeyMaterial, length: 8161 }),
+    HkdfError.outputLengthTooLarge
+  );
+  t.is(hkdfSha512(sha512, { inputKeyMaterial, length: 16320 }).length, 16320);
+  t.deepEqual(
+    hkdfSha512(sha512, { inputKeyMaterial, length: 16321 }),
+    HkdfError.outputLengthTooLarge
+  );
+});
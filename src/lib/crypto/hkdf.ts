@@ -0,0 +1,114 @@
+import { flattenBinArray } from '../format/hex';
+
+import { hmacSha256, hmacSha512 } from './hmac';
+import { Sha256 } from './sha256';
+import { Sha512 } from './sha512';
+
+export enum HkdfError {
+  outputLengthTooLarge = 'HKDF error: the requested output length may not exceed 255 times the byte-length of the hash function output.',
+}
+
+export interface HkdfParameters {
+  /**
+   * The input keying material (A.K.A. `IKM`) from which to derive the key.
+   */
+  inputKeyMaterial: Uint8Array;
+  /**
+   * An optional (non-secret) salt. If not provided, a string of zeros with the
+   * byte-length of the hash function output is used.
+   */
+  salt?: Uint8Array;
+  /**
+   * Optional context and application-specific information, defaults to an
+   * empty Uint8Array.
+   */
+  info?: Uint8Array;
+  /**
+   * The desired byte-length of the output keying material (A.K.A. `L`).
+   */
+  length: number;
+}
+
+const maximumBlockCount = 255;
+
+/**
+ * Instantiate an HMAC-based Extract-and-Expand Key Derivation Function (HKDF)
+ * as specified by RFC 5869.
+ *
+ * The returned function produces the output keying material (A.K.A. `OKM`), or
+ * an `HkdfError` if the requested length is too large.
+ *
+ * @param hmacFunction - the HMAC function to use (e.g. `hmacSha256` with an
+ * instantiated `Sha256`)
+ * @param hmacByteLength - the byte-length of the output of `hmacFunction`
+ */
+export const instantiateHkdfFunction = (
+  hmacFunction: (secret: Uint8Array, message: Uint8Array) => Uint8Array,
+  hmacByteLength: number
+) => ({
+  inputKeyMaterial,
+  salt = new Uint8Array(hmacByteLength),
+  info = Uint8Array.of(),
+  length,
+}: HkdfParameters) => {
+  const blockCount = Math.ceil(length / hmacByteLength);
+  if (blockCount > maximumBlockCount) {
+    return HkdfError.outputLengthTooLarge;
+  }
+  const pseudorandomKey = hmacFunction(salt, inputKeyMaterial);
+  const blocks = new Array(blockCount)
+    .fill(0)
+    .reduce<Uint8Array[]>(
+      (previous, _, index) => [
+        ...previous,
+        hmacFunction(
+          pseudorandomKey,
+          flattenBinArray([
+            previous.length === 0
+              ? Uint8Array.of()
+              : previous[previous.length - 1],
+            info,
+            Uint8Array.of(index + 1),
+          ])
+        ),
+      ],
+      []
+    );
+  return flattenBinArray(blocks).slice(0, length);
+};
+
+const sha256OutputByteLength = 32;
+
+/**
+ * Derive a key using HKDF-SHA256 as specified by RFC 5869. Returns the output
+ * keying material, or an `HkdfError` if `length` exceeds 8160 bytes.
+ *
+ * @param sha256 - an implementation of Sha256
+ * @param parameters - the `HkdfParameters` to use
+ */
+export const hkdfSha256 = (
+  sha256: { hash: Sha256['hash'] },
+  parameters: HkdfParameters
+) =>
+  instantiateHkdfFunction(
+    (secret, message) => hmacSha256(sha256, secret, message),
+    sha256OutputByteLength
+  )(parameters);
+
+const sha512OutputByteLength = 64;
+
+/**
+ * Derive a key using HKDF-SHA512 as specified by RFC 5869. Returns the output
+ * keying material, or an `HkdfError` if `length` exceeds 16320 bytes.
+ *
+ * @param sha512 - an implementation of Sha512
+ * @param parameters - the `HkdfParameters` to use
+ */
+export const hkdfSha512 = (
+  sha512: { hash: Sha512['hash'] },
+  parameters: HkdfParameters
+) =>
+  instantiateHkdfFunction(
+    (secret, message) => hmacSha512(sha512, secret, message),
+    sha512OutputByteLength
+  )(parameters);
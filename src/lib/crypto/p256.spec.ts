@@ -0,0 +1,111 @@
+/* eslint-disable functional/no-expression-statement, @typescript-eslint/no-magic-numbers */
+import test from 'ava';
+
+import {
+  addTweakPrivateKeyP256,
+  addTweakPublicKeyCompressedP256,
+  bigIntToBinUint256BEClamped,
+  binToHex,
+  derivePublicKeyCompressedP256,
+  hexToBin,
+  p256FieldSize,
+  p256Order,
+  validatePrivateKeyP256,
+} from '../lib';
+
+/**
+ * The NIST P-256 key pair from RFC 6979, Appendix A.2.5.
+ */
+const privateKey = hexToBin(
+  'c9afa9d845ba75166b5c215767b1d6934e50c3db36e89b127b8a622b120f6721'
+);
+const publicKey = hexToBin(
+  '0360fed4ba255a9d31c961eb74c6356d68c049b8923b61fa6ce669622e60f29fb6'
+);
+
+const one = bigIntToBinUint256BEClamped(BigInt(1));
+const three = bigIntToBinUint256BEClamped(BigInt(3));
+const orderMinusOne = bigIntToBinUint256BEClamped(p256Order - BigInt(1));
+const order = bigIntToBinUint256BEClamped(p256Order);
+
+/**
+ * The compressed public key of the generator point.
+ */
+const generator = hexToBin(
+  '036b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296'
+);
+
+test('[crypto] validatePrivateKeyP256', (t) => {
+  t.true(validatePrivateKeyP256(privateKey));
+  t.true(validatePrivateKeyP256(one));
+  t.true(validatePrivateKeyP256(orderMinusOne));
+  t.false(validatePrivateKeyP256(new Uint8Array(32)));
+  t.false(validatePrivateKeyP256(order));
+});
+
+test('[crypto] derivePublicKeyCompressedP256', (t) => {
+  t.deepEqual(derivePublicKeyCompressedP256(privateKey), publicKey);
+  t.deepEqual(derivePublicKeyCompressedP256(one), generator);
+  t.deepEqual(
+    binToHex(derivePublicKeyCompressedP256(orderMinusOne) as Uint8Array),
+    '026b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296'
+  );
+  t.deepEqual(
+    binToHex(derivePublicKeyCompressedP256(three) as Uint8Array),
+    '025ecbe4d1a6330a44c8f7ef951d4bf165e6c6b721efada985fb41661bc6e7fd6c'
+  );
+  t.deepEqual(derivePublicKeyCompressedP256(new Uint8Array(32)), undefined);
+  t.deepEqual(derivePublicKeyCompressedP256(order), undefined);
+});
+
+test('[crypto] addTweakPrivateKeyP256', (t) => {
+  t.deepEqual(
+    binToHex(addTweakPrivateKeyP256(privateKey, three) as Uint8Array),
+    'c9afa9d845ba75166b5c215767b1d6934e50c3db36e89b127b8a622b120f6724'
+  );
+  t.deepEqual(
+    addTweakPrivateKeyP256(orderMinusOne, three),
+    bigIntToBinUint256BEClamped(BigInt(2))
+  );
+  t.deepEqual(addTweakPrivateKeyP256(privateKey, order), undefined);
+  t.deepEqual(addTweakPrivateKeyP256(one, orderMinusOne), undefined);
+});
+
+test('[crypto] addTweakPublicKeyCompressedP256', (t) => {
+  const tweaked = addTweakPublicKeyCompressedP256(publicKey, three);
+  t.deepEqual(
+    binToHex(tweaked as Uint8Array),
+    '02291627d386a572c740350900bd3e3a8e27fa558951ec06823dbf9dce47bd630a'
+  );
+  t.deepEqual(
+    tweaked,
+    derivePublicKeyCompressedP256(
+      addTweakPrivateKeyP256(privateKey, three) as Uint8Array
+    )
+  );
+  t.deepEqual(addTweakPublicKeyCompressedP256(publicKey, order), undefined);
+  t.deepEqual(
+    addTweakPublicKeyCompressedP256(generator, orderMinusOne),
+    undefined
+  );
+});
+
+test('[crypto] addTweakPublicKeyCompressedP256: invalid public keys', (t) => {
+  const invalidPublicKeys = [
+    /**
+     * `x = 1` is not the X coordinate of a point on the curve.
+     */
+    '020000000000000000000000000000000000000000000000000000000000000001',
+    `02${p256FieldSize.toString(16)}`,
+    `04${binToHex(publicKey.slice(1))}`,
+    binToHex(publicKey.slice(0, 32)),
+    binToHex(publicKey.slice(1)),
+  ];
+  invalidPublicKeys.forEach((invalid) => {
+    t.deepEqual(
+      addTweakPublicKeyCompressedP256(hexToBin(invalid), three),
+      undefined,
+      invalid
+    );
+  });
+});
@@ -0,0 +1,242 @@
+import {
+  bigIntToBinUint256BEClamped,
+  binToBigIntUint256BE,
+} from '../format/format';
+
+import { modularInverse, modularPower, modulo } from './secp256k1-point';
+
+/**
+ * Pure-JavaScript arithmetic for the NIST P-256 curve (also called
+ * `secp256r1` or `prime256v1`), providing the operations required for
+ * hierarchical deterministic key derivation.
+ *
+ * Note, these methods are not constant-time.
+ */
+
+const enum Internal {
+  compressedPublicKeyLength = 33,
+  evenPublicKeyHeaderByte = 0x02,
+  oddPublicKeyHeaderByte = 0x03,
+}
+
+/**
+ * The order of the NIST P-256 curve.
+ */
+export const p256Order = BigInt(
+  '0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551'
+);
+
+/**
+ * The size of the finite field over which the NIST P-256 curve is defined.
+ */
+export const p256FieldSize = BigInt(
+  '0xffffffff00000001000000000000000000000000ffffffffffffffffffffffff'
+);
+
+const curveB = BigInt(
+  '0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604b'
+);
+
+/**
+ * A point in Jacobian coordinates, `(x / z^2, y / z^3)`. The point at infinity
+ * has a `z` of `0`.
+ */
+type JacobianPoint = { x: bigint; y: bigint; z: bigint };
+
+const generator: JacobianPoint = {
+  x: BigInt(
+    '0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296'
+  ),
+  y: BigInt(
+    '0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5'
+  ),
+  z: BigInt(1),
+};
+
+const infinity: JacobianPoint = { x: BigInt(1), y: BigInt(1), z: BigInt(0) };
+
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+/**
+ * Double a point (using the `a = -3` doubling formula).
+ */
+const doublePoint = ({ x, y, z }: JacobianPoint): JacobianPoint => {
+  if (z === BigInt(0) || y === BigInt(0)) {
+    return infinity;
+  }
+  const p = p256FieldSize;
+  const delta = (z * z) % p;
+  const gamma = (y * y) % p;
+  const beta = (x * gamma) % p;
+  const alpha = modulo(BigInt(3) * (x - delta) * (x + delta), p);
+  const x3 = modulo(alpha * alpha - BigInt(8) * beta, p);
+  return {
+    x: x3,
+    y: modulo(alpha * (BigInt(4) * beta - x3) - BigInt(8) * gamma * gamma, p),
+    z: modulo((y + z) * (y + z) - gamma - delta, p),
+  };
+};
+
+const addPoints = (a: JacobianPoint, b: JacobianPoint): JacobianPoint => {
+  if (a.z === BigInt(0)) {
+    return b;
+  }
+  if (b.z === BigInt(0)) {
+    return a;
+  }
+  const p = p256FieldSize;
+  const az2 = (a.z * a.z) % p;
+  const bz2 = (b.z * b.z) % p;
+  const u1 = (a.x * bz2) % p;
+  const u2 = (b.x * az2) % p;
+  const s1 = (((a.y * bz2) % p) * b.z) % p;
+  const s2 = (((b.y * az2) % p) * a.z) % p;
+  if (u1 === u2) {
+    return s1 === s2 ? doublePoint(a) : infinity;
+  }
+  const h = modulo(u2 - u1, p);
+  const r = modulo(s2 - s1, p);
+  const h2 = (h * h) % p;
+  const h3 = (h * h2) % p;
+  const u1h2 = (u1 * h2) % p;
+  const x3 = modulo(r * r - h3 - BigInt(2) * u1h2, p);
+  return {
+    x: x3,
+    y: modulo(r * (u1h2 - x3) - s1 * h3, p),
+    z: (((h * a.z) % p) * b.z) % p,
+  };
+};
+/* eslint-enable @typescript-eslint/no-magic-numbers */
+
+const multiplyPoint = (point: JacobianPoint, scalar: bigint) =>
+  scalar
+    .toString(2)
+    .split('')
+    .reduce<JacobianPoint>(
+      (sum, bit) =>
+        bit === '1' ? addPoints(doublePoint(sum), point) : doublePoint(sum),
+      infinity
+    );
+
+/**
+ * Encode a point (returning `undefined` for the point at infinity) as a
+ * compressed public key.
+ */
+const encodePoint = (point: JacobianPoint) => {
+  if (point.z === BigInt(0)) {
+    return undefined;
+  }
+  const zInverse = modularInverse(point.z, p256FieldSize);
+  const zInverse2 = (zInverse * zInverse) % p256FieldSize;
+  const x = (point.x * zInverse2) % p256FieldSize;
+  const y =
+    (((point.y * zInverse2) % p256FieldSize) * zInverse) % p256FieldSize;
+  return Uint8Array.from([
+    y % BigInt(2) === BigInt(1)
+      ? Internal.oddPublicKeyHeaderByte
+      : Internal.evenPublicKeyHeaderByte,
+    ...bigIntToBinUint256BEClamped(x),
+  ]);
+};
+
+/**
+ * Decode a compressed public key, returning `undefined` if it is not a valid
+ * point on the curve.
+ */
+const decodePoint = (publicKey: Uint8Array): JacobianPoint | undefined => {
+  const header = publicKey[0] as number | undefined;
+  if (
+    publicKey.length !== Internal.compressedPublicKeyLength ||
+    (header !== Internal.evenPublicKeyHeaderByte &&
+      header !== Internal.oddPublicKeyHeaderByte)
+  ) {
+    return undefined;
+  }
+  const x = binToBigIntUint256BE(publicKey.slice(1));
+  if (x >= p256FieldSize) {
+    return undefined;
+  }
+  const ySquared = modulo(
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    x * x * x - BigInt(3) * x + curveB,
+    p256FieldSize
+  );
+  const y = modularPower(
+    ySquared,
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    (p256FieldSize + BigInt(1)) / BigInt(4),
+    p256FieldSize
+  );
+  if ((y * y) % p256FieldSize !== ySquared) {
+    return undefined;
+  }
+  const isOdd = y % BigInt(2) === BigInt(1);
+  return {
+    x,
+    y:
+      isOdd === (header === Internal.oddPublicKeyHeaderByte)
+        ? y
+        : p256FieldSize - y,
+    z: BigInt(1),
+  };
+};
+
+/**
+ * Verify that a 32-byte value is a valid NIST P-256 private key (greater than
+ * `0` and less than the curve order).
+ *
+ * @param privateKey - the 32-byte private key to verify
+ */
+export const validatePrivateKeyP256 = (privateKey: Uint8Array) => {
+  const value = binToBigIntUint256BE(privateKey);
+  return value > BigInt(0) && value < p256Order;
+};
+
+/**
+ * Derive the compressed (33-byte) public key for a NIST P-256 private key.
+ * Returns `undefined` if the private key is not valid.
+ *
+ * @param privateKey - a valid NIST P-256, 32-byte private key
+ */
+export const derivePublicKeyCompressedP256 = (privateKey: Uint8Array) =>
+  validatePrivateKeyP256(privateKey)
+    ? encodePoint(multiplyPoint(generator, binToBigIntUint256BE(privateKey)))
+    : undefined;
+
+/**
+ * Tweak a NIST P-256 private key by adding `tweakValue` to it (modulo the curve
+ * order). Returns `undefined` if `tweakValue` is not less than the curve order
+ * or if the result is not a valid private key.
+ *
+ * @param privateKey - a valid NIST P-256, 32-byte private key
+ * @param tweakValue - the 32-byte tweak value
+ */
+export const addTweakPrivateKeyP256 = (
+  privateKey: Uint8Array,
+  tweakValue: Uint8Array
+) => {
+  const tweak = binToBigIntUint256BE(tweakValue);
+  const result = (binToBigIntUint256BE(privateKey) + tweak) % p256Order;
+  return tweak >= p256Order || result === BigInt(0)
+    ? undefined
+    : bigIntToBinUint256BEClamped(result);
+};
+
+/**
+ * Tweak a compressed NIST P-256 public key by adding `tweakValue` times the
+ * generator point to it. Returns `undefined` if the public key is invalid,
+ * `tweakValue` is not less than the curve order, or the result is the point at
+ * infinity.
+ *
+ * @param publicKey - a compressed, 33-byte NIST P-256 public key
+ * @param tweakValue - the 32-byte tweak value
+ */
+export const addTweakPublicKeyCompressedP256 = (
+  publicKey: Uint8Array,
+  tweakValue: Uint8Array
+) => {
+  const point = decodePoint(publicKey);
+  const tweak = binToBigIntUint256BE(tweakValue);
+  return point === undefined || tweak >= p256Order
+    ? undefined
+    : encodePoint(addPoints(point, multiplyPoint(generator, tweak)));
+};
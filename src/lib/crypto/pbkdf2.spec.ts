@@ -0,0 +1,84 @@
+/* eslint-disable functional/no-expression-statement, @typescript-eslint/no-magic-numbers */
+import test, { Macro } from 'ava';
+
+import {
+  binToHex,
+  instantiateSha256,
+  instantiateSha512,
+  pbkdf2HmacSha256,
+  pbkdf2HmacSha512,
+  utf8ToBin,
+} from '../lib';
+
+const sha256Promise = instantiateSha256();
+const sha512Promise = instantiateSha512();
+
+const vectors: Macro<[
+  {
+    password: string;
+    salt: string;
+    iterations: number;
+    derivedKeyLength: number;
+    sha256: string;
+    sha512: string;
+  }
+]> = async (t, vector) => {
+  const sha256 = await sha256Promise;
+  const sha512 = await sha512Promise;
+  const parameters = {
+    derivedKeyLength: vector.derivedKeyLength,
+    iterations: vector.iterations,
+    password: utf8ToBin(vector.password),
+    salt: utf8ToBin(vector.salt),
+  };
+  t.deepEqual(binToHex(pbkdf2HmacSha256(sha256, parameters)), vector.sha256);
+  t.deepEqual(binToHex(pbkdf2HmacSha512(sha512, parameters)), vector.sha512);
+};
+// eslint-disable-next-line functional/immutable-data
+vectors.title = (title) => `[crypto] PBKDF2 Test Vector #${title ?? '?'}`;
+
+/**
+ * The PBKDF2-HMAC-SHA256 results of vectors 1 and 2 are from RFC 7914, Section
+ * 11. Other results were produced by Node.js' `crypto.pbkdf2Sync`.
+ */
+test('1 (RFC 7914)', vectors, {
+  derivedKeyLength: 64,
+  iterations: 1,
+  password: 'passwd',
+  salt: 'salt',
+  sha256:
+    '55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783',
+  sha512:
+    'c74319d99499fc3e9013acff597c23c5baf0a0bec5634c46b8352b793e324723d55caa76b2b25c43402dcfdc06cdcf66f95b7d0429420b39520006749c51a04e',
+});
+
+test('2 (RFC 7914)', vectors, {
+  derivedKeyLength: 64,
+  iterations: 80000,
+  password: 'Password',
+  salt: 'NaCl',
+  sha256:
+    '4ddcd8f60b98be21830cee5ef22701f9641a4418d04c0414aeff08876b34ab56a1d425a1225833549adb841b51c9b3176a272bdebba1d078478f62b397f33c8d',
+  sha512:
+    'e6337d6fbeb645c794d4a9b5b75b7b30dac9ac50376a91df1f4460f6060d5addb2c1fd1f84409abacc67de7eb4056e6bb06c2d82c3ef4ccd1bded0f675ed97c6',
+});
+
+test('3', vectors, {
+  derivedKeyLength: 20,
+  iterations: 2,
+  password: 'password',
+  salt: 'salt',
+  sha256: 'ae4d0c95af6b46d32d0adff928f06dd02a303f8e',
+  sha512: 'e1d9c16aa681708a45f5c7c4e215ceb66e011a2e',
+});
+
+test('4 (multiple blocks)', vectors, {
+  derivedKeyLength: 100,
+  iterations: 4096,
+  password: 'passwordPASSWORDpassword',
+  salt: 'saltSALTsaltSALTsaltSALTsaltSALTsalt',
+  sha256:
+    '348c89dbcbd32b2f32d814b8116e84cf2b17347ebc1800181c4e2a1fb8dd53e1c635518c7dac47e94561f2686056e5fcd3989bf8960bb2a36c90340586c4faca44d5627a75ce351154b9ff85e6f1950073b04e662b211e3b88841e20c8060dc2e78b4ae0',
+  sha512:
+    '8c0511f4c6e597c6ac6315d8f0362e225f3c501495ba23b868c005174dc4ee71115b59f9e60cd9532fa33e0f75aefe30225c583a186cd82bd4daea9724a3d3b804f75bdd41494fa324cab24bcc680fb3b96a30cf5d21fac3c2875913919f3399b1d9ce7e',
+});
@@ -0,0 +1,94 @@
+import { flattenBinArray } from '../format/hex';
+import { numberToBinUint32BE } from '../format/numbers';
+
+import { hmacSha256, hmacSha512 } from './hmac';
+import { Sha256 } from './sha256';
+import { Sha512 } from './sha512';
+
+export interface Pbkdf2Parameters {
+  /**
+   * The password from which to derive the key.
+   */
+  password: Uint8Array;
+  /**
+   * The salt to use in the derivation.
+   */
+  salt: Uint8Array;
+  /**
+   * The number of iterations of the pseudorandom function to perform for each
+   * block of the derived key (A.K.A. `c`).
+   */
+  iterations: number;
+  /**
+   * The desired byte-length of the derived key (A.K.A. `dkLen`).
+   */
+  derivedKeyLength: number;
+}
+
+/**
+ * Instantiate a PBKDF2 function as specified by RFC 8018.
+ *
+ * @param hmacFunction - the HMAC function to use as the pseudorandom function
+ * (e.g. `hmacSha512` with an instantiated `Sha512`)
+ * @param hmacByteLength - the byte-length of the output of `hmacFunction`
+ */
+export const instantiatePbkdf2Function = (
+  hmacFunction: (secret: Uint8Array, message: Uint8Array) => Uint8Array,
+  hmacByteLength: number
+) => ({ password, salt, iterations, derivedKeyLength }: Pbkdf2Parameters) => {
+  const blockCount = Math.ceil(derivedKeyLength / hmacByteLength);
+  const blocks = new Array(blockCount).fill(0).map((_, index) => {
+    const result = hmacFunction(
+      password,
+      flattenBinArray([salt, numberToBinUint32BE(index + 1)])
+    );
+    /* eslint-disable functional/no-let, functional/no-loop-statement, functional/no-expression-statement, no-bitwise */
+    let previous = result;
+    // eslint-disable-next-line no-plusplus
+    for (let iteration = 1; iteration < iterations; iteration++) {
+      previous = hmacFunction(password, previous);
+      // eslint-disable-next-line no-plusplus
+      for (let i = 0; i < hmacByteLength; i++) {
+        // eslint-disable-next-line functional/immutable-data
+        result[i] ^= previous[i];
+      }
+    }
+    /* eslint-enable functional/no-let, functional/no-loop-statement, functional/no-expression-statement, no-bitwise */
+    return result;
+  });
+  return flattenBinArray(blocks).slice(0, derivedKeyLength);
+};
+
+const sha256OutputByteLength = 32;
+
+/**
+ * Derive a key using PBKDF2-HMAC-SHA256 as specified by RFC 8018.
+ *
+ * @param sha256 - an implementation of Sha256
+ * @param parameters - the `Pbkdf2Parameters` to use
+ */
+export const pbkdf2HmacSha256 = (
+  sha256: { hash: Sha256['hash'] },
+  parameters: Pbkdf2Parameters
+) =>
+  instantiatePbkdf2Function(
+    (secret, message) => hmacSha256(sha256, secret, message),
+    sha256OutputByteLength
+  )(parameters);
+
+const sha512OutputByteLength = 64;
+
+/**
+ * Derive a key using PBKDF2-HMAC-SHA512 as specified by RFC 8018.
+ *
+ * @param sha512 - an implementation of Sha512
+ * @param parameters - the `Pbkdf2Parameters` to use
+ */
+export const pbkdf2HmacSha512 = (
+  sha512: { hash: Sha512['hash'] },
+  parameters: Pbkdf2Parameters
+) =>
+  instantiatePbkdf2Function(
+    (secret, message) => hmacSha512(sha512, secret, message),
+    sha512OutputByteLength
+  )(parameters);
@@ -1,10 +1,13 @@
 import {
   HashFunction,
   instantiateRustWasm,
+  instantiateWasmOrFallback,
   ripemd160Base64Bytes,
 } from '../bin/bin';
 import { base64ToBin } from '../format/format';
 
+import { ripemd160Fallback } from './hash-fallback';
+
 export interface Ripemd160 extends HashFunction {
   /**
    * Finish an incremental ripemd160 hashing computation.
@@ -89,12 +92,18 @@ const cachedRipemd160: { cache?: Promise<Ripemd160> } = {};
 /**
  * An ultimately-portable (but slower) version of `instantiateRipemd160Bytes`
  * which does not require the consumer to provide the ripemd160 binary buffer.
+ *
+ * If WebAssembly is unavailable (or cannot be compiled), the pure-JavaScript
+ * `ripemd160Fallback` is used.
  */
 export const instantiateRipemd160 = async (): Promise<Ripemd160> => {
   if (cachedRipemd160.cache !== undefined) {
     return cachedRipemd160.cache;
   }
-  const result = instantiateRipemd160Bytes(getEmbeddedRipemd160Binary());
+  const result = instantiateWasmOrFallback(
+    async () => instantiateRipemd160Bytes(getEmbeddedRipemd160Binary()),
+    ripemd160Fallback
+  );
   // eslint-disable-next-line functional/immutable-data, functional/no-expression-statement
   cachedRipemd160.cache = result;
   return result;
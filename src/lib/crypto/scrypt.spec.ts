@@ -0,0 +1,65 @@
+/* eslint-disable functional/no-expression-statement, @typescript-eslint/no-magic-numbers */
+import test, { Macro } from 'ava';
+
+import { binToHex, instantiateSha256, scrypt, utf8ToBin } from '../lib';
+
+const sha256Promise = instantiateSha256();
+
+const vectors: Macro<[
+  {
+    password: string;
+    salt: string;
+    costFactor: number;
+    blockSizeFactor: number;
+    parallelizationFactor: number;
+    derivedKey: string;
+  }
+]> = async (t, vector) => {
+  const sha256 = await sha256Promise;
+  t.deepEqual(
+    binToHex(
+      scrypt(sha256, {
+        blockSizeFactor: vector.blockSizeFactor,
+        costFactor: vector.costFactor,
+        derivedKeyLength: vector.derivedKey.length / 2,
+        parallelizationFactor: vector.parallelizationFactor,
+        password: utf8ToBin(vector.password),
+        salt: utf8ToBin(vector.salt),
+      })
+    ),
+    vector.derivedKey
+  );
+};
+// eslint-disable-next-line functional/immutable-data
+vectors.title = (title) =>
+  `[crypto] scrypt Test Vector #${title ?? '?'} (RFC 7914)`;
+
+test('1', vectors, {
+  blockSizeFactor: 1,
+  costFactor: 16,
+  derivedKey:
+    '77d6576238657b203b19ca42c18a0497f16b4844e3074ae8dfdffa3fede21442fcd0069ded0948f8326a753a0fc81f17e8d3e0fb2e0d3628cf35e20c38d18906',
+  parallelizationFactor: 1,
+  password: '',
+  salt: '',
+});
+
+test('2', vectors, {
+  blockSizeFactor: 8,
+  costFactor: 1024,
+  derivedKey:
+    'fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b3731622eaf30d92e22a3886ff109279d9830dac727afb94a83ee6d8360cbdfa2cc0640',
+  parallelizationFactor: 16,
+  password: 'password',
+  salt: 'NaCl',
+});
+
+test('3', vectors, {
+  blockSizeFactor: 8,
+  costFactor: 16384,
+  derivedKey:
+    '7023bdcb3afd7348461c06cd81fd38ebfda8fbba904f8e3ea9b543f6545da1f2d5432955613f0fcf62d49705242a9af9e61e85dc0d651e40dfcf017b45575887',
+  parallelizationFactor: 1,
+  password: 'pleaseletmein',
+  salt: 'SodiumChloride',
+});
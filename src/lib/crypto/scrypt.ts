@@ -0,0 +1,228 @@
+import { pbkdf2HmacSha256 } from './pbkdf2';
+import { Sha256 } from './sha256';
+
+export interface ScryptParameters {
+  /**
+   * The password from which to derive the key.
+   */
+  password: Uint8Array;
+  /**
+   * The salt to use in the derivation.
+   */
+  salt: Uint8Array;
+  /**
+   * The CPU/memory cost parameter (A.K.A. `N`) – must be a power of 2 greater
+   * than 1.
+   */
+  costFactor: number;
+  /**
+   * The block size parameter (A.K.A. `r`).
+   */
+  blockSizeFactor: number;
+  /**
+   * The parallelization parameter (A.K.A. `p`).
+   */
+  parallelizationFactor: number;
+  /**
+   * The desired byte-length of the derived key (A.K.A. `dkLen`).
+   */
+  derivedKeyLength: number;
+}
+
+const enum Internal {
+  salsaBlockWords = 16,
+  salsaDoubleRounds = 4,
+  bytesPerWord = 4,
+  bytesPerBlockSizeFactor = 128,
+}
+
+/* eslint-disable functional/no-let, functional/no-loop-statement, functional/no-expression-statement, functional/immutable-data, no-bitwise, no-plusplus, @typescript-eslint/no-magic-numbers */
+
+const rotate = (value: number, bits: number) =>
+  (value << bits) | (value >>> (32 - bits));
+
+/**
+ * Apply the Salsa20/8 core to a 16-word block, replacing it with the result.
+ */
+const salsa20Core8 = (block: Uint32Array) => {
+  let x0 = block[0];
+  let x1 = block[1];
+  let x2 = block[2];
+  let x3 = block[3];
+  let x4 = block[4];
+  let x5 = block[5];
+  let x6 = block[6];
+  let x7 = block[7];
+  let x8 = block[8];
+  let x9 = block[9];
+  let x10 = block[10];
+  let x11 = block[11];
+  let x12 = block[12];
+  let x13 = block[13];
+  let x14 = block[14];
+  let x15 = block[15];
+  for (let i = 0; i < Internal.salsaDoubleRounds; i++) {
+    x4 ^= rotate(x0 + x12, 7);
+    x8 ^= rotate(x4 + x0, 9);
+    x12 ^= rotate(x8 + x4, 13);
+    x0 ^= rotate(x12 + x8, 18);
+    x9 ^= rotate(x5 + x1, 7);
+    x13 ^= rotate(x9 + x5, 9);
+    x1 ^= rotate(x13 + x9, 13);
+    x5 ^= rotate(x1 + x13, 18);
+    x14 ^= rotate(x10 + x6, 7);
+    x2 ^= rotate(x14 + x10, 9);
+    x6 ^= rotate(x2 + x14, 13);
+    x10 ^= rotate(x6 + x2, 18);
+    x3 ^= rotate(x15 + x11, 7);
+    x7 ^= rotate(x3 + x15, 9);
+    x11 ^= rotate(x7 + x3, 13);
+    x15 ^= rotate(x11 + x7, 18);
+    x1 ^= rotate(x0 + x3, 7);
+    x2 ^= rotate(x1 + x0, 9);
+    x3 ^= rotate(x2 + x1, 13);
+    x0 ^= rotate(x3 + x2, 18);
+    x6 ^= rotate(x5 + x4, 7);
+    x7 ^= rotate(x6 + x5, 9);
+    x4 ^= rotate(x7 + x6, 13);
+    x5 ^= rotate(x4 + x7, 18);
+    x11 ^= rotate(x10 + x9, 7);
+    x8 ^= rotate(x11 + x10, 9);
+    x9 ^= rotate(x8 + x11, 13);
+    x10 ^= rotate(x9 + x8, 18);
+    x12 ^= rotate(x15 + x14, 7);
+    x13 ^= rotate(x12 + x15, 9);
+    x14 ^= rotate(x13 + x12, 13);
+    x15 ^= rotate(x14 + x13, 18);
+  }
+  block[0] += x0;
+  block[1] += x1;
+  block[2] += x2;
+  block[3] += x3;
+  block[4] += x4;
+  block[5] += x5;
+  block[6] += x6;
+  block[7] += x7;
+  block[8] += x8;
+  block[9] += x9;
+  block[10] += x10;
+  block[11] += x11;
+  block[12] += x12;
+  block[13] += x13;
+  block[14] += x14;
+  block[15] += x15;
+};
+
+/**
+ * The scrypt `BlockMix` function (using Salsa20/8), mixing the `2 * r` 16-word
+ * blocks of `input` into `output`.
+ */
+const blockMix = (input: Uint32Array, output: Uint32Array, r: number) => {
+  const x = input.slice(
+    (2 * r - 1) * Internal.salsaBlockWords,
+    2 * r * Internal.salsaBlockWords
+  );
+  for (let i = 0; i < 2 * r; i++) {
+    for (let j = 0; j < Internal.salsaBlockWords; j++) {
+      x[j] ^= input[i * Internal.salsaBlockWords + j];
+    }
+    salsa20Core8(x);
+    /**
+     * Even blocks are written to the first half of the output, odd blocks to
+     * the second half.
+     */
+    output.set(x, ((i >> 1) + (i & 1) * r) * Internal.salsaBlockWords);
+  }
+};
+
+/**
+ * The scrypt `ROMix` function, replacing the `32 * r` words of `block` with the
+ * result.
+ */
+const roMix = (block: Uint32Array, r: number, n: number) => {
+  const blockWords = 2 * r * Internal.salsaBlockWords;
+  const v = new Uint32Array(blockWords * n);
+  const x = block.slice();
+  const y = new Uint32Array(blockWords);
+  for (let i = 0; i < n; i++) {
+    v.set(x, i * blockWords);
+    blockMix(x, y, r);
+    x.set(y);
+  }
+  for (let i = 0; i < n; i++) {
+    const j = x[(2 * r - 1) * Internal.salsaBlockWords] & (n - 1);
+    for (let k = 0; k < blockWords; k++) {
+      x[k] ^= v[j * blockWords + k];
+    }
+    blockMix(x, y, r);
+    x.set(y);
+  }
+  block.set(x);
+};
+
+const bytesToWordsLE = (bytes: Uint8Array) =>
+  new Uint32Array(bytes.length / Internal.bytesPerWord).map(
+    (_, i) =>
+      bytes[i * 4] |
+      (bytes[i * 4 + 1] << 8) |
+      (bytes[i * 4 + 2] << 16) |
+      (bytes[i * 4 + 3] << 24)
+  );
+
+const wordsToBytesLE = (words: Uint32Array) =>
+  new Uint8Array(words.length * Internal.bytesPerWord).map(
+    (_, i) => words[i >> 2] >>> ((i & 3) * 8)
+  );
+
+/* eslint-enable functional/no-let, functional/no-loop-statement, functional/no-expression-statement, functional/immutable-data, no-bitwise, no-plusplus, @typescript-eslint/no-magic-numbers */
+
+/**
+ * Derive a key using the scrypt password-based key derivation function as
+ * specified by RFC 7914.
+ *
+ * Note, this method does not enforce error handling via the type system. The
+ * result will not be correct if `costFactor` is not a power of 2. Also note,
+ * scrypt is designed to be expensive: this method requires
+ * `128 * blockSizeFactor * costFactor` bytes of memory, and will block the
+ * thread until complete.
+ *
+ * @param sha256 - an implementation of Sha256
+ * @param parameters - the `ScryptParameters` to use
+ */
+export const scrypt = (
+  sha256: { hash: Sha256['hash'] },
+  {
+    password,
+    salt,
+    costFactor,
+    blockSizeFactor,
+    parallelizationFactor,
+    derivedKeyLength,
+  }: ScryptParameters
+) => {
+  const blockByteLength = Internal.bytesPerBlockSizeFactor * blockSizeFactor;
+  const blocks = bytesToWordsLE(
+    pbkdf2HmacSha256(sha256, {
+      derivedKeyLength: parallelizationFactor * blockByteLength,
+      iterations: 1,
+      password,
+      salt,
+    })
+  );
+  const blockWords = blockByteLength / Internal.bytesPerWord;
+  // eslint-disable-next-line functional/no-expression-statement
+  new Array(parallelizationFactor).fill(0).forEach((_, i) => {
+    // eslint-disable-next-line functional/no-expression-statement
+    roMix(
+      blocks.subarray(i * blockWords, (i + 1) * blockWords),
+      blockSizeFactor,
+      costFactor
+    );
+  });
+  return pbkdf2HmacSha256(sha256, {
+    derivedKeyLength,
+    iterations: 1,
+    password,
+    salt: wordsToBytesLE(blocks),
+  });
+};
@@ -0,0 +1,138 @@
+import {
+  binToBigIntUint256BE,
+  binToBigIntUintBE,
+  flattenBinArray,
+  numberToBinUint32LE,
+} from '../format/format';
+
+import {
+  secp256k1FieldSize,
+  secp256k1Generator,
+  secp256k1Order,
+} from './secp256k1-constants';
+import {
+  decodePointSecp256k1,
+  encodePointSecp256k1,
+  isQuadraticResidueSecp256k1,
+  modulo,
+  multiplyAndAddPointsSecp256k1,
+  PointSecp256k1,
+} from './secp256k1-point';
+import { SignatureVerificationSchnorr } from './secp256k1-types';
+import { Sha256 } from './sha256';
+
+const enum Internal {
+  coefficientLength = 16,
+  evenPublicKeyHeaderByte = 0x02,
+  scalarLength = 32,
+  schnorrSignatureLength = 64,
+}
+
+const negatePoint = ({ x, y }: { x: bigint; y: bigint }) => ({
+  x,
+  y: secp256k1FieldSize - y,
+});
+
+/**
+ * Decode the nonce point `R` of a BCH Schnorr signature from its X coordinate,
+ * selecting the Y coordinate which is a quadratic residue. Returns `undefined`
+ * if `x` is not the X coordinate of a point on the curve.
+ */
+const liftNonceX = (x: Uint8Array): PointSecp256k1 => {
+  const point = decodePointSecp256k1(
+    flattenBinArray([Uint8Array.of(Internal.evenPublicKeyHeaderByte), x])
+  );
+  return point === undefined || isQuadraticResidueSecp256k1(point.y)
+    ? point
+    : negatePoint(point);
+};
+
+/**
+ * Verify a batch of Secp256k1 EC-Schnorr-SHA256 signatures (BCH construction)
+ * in a single multi-scalar multiplication. Returns `true` only if every
+ * signature in the batch is valid (an empty batch is valid).
+ *
+ * For each signature `(r, s)` by public key `P_i` of message hash `m_i`, the
+ * nonce point `R_i` is the point with X coordinate `r` and a quadratic residue
+ * Y coordinate, and the challenge is `e_i = sha256(r || P_i || m_i)`. The batch
+ * is valid if:
+ *
+ * `(a_1 * s_1 + ... + a_n * s_n) * G ==
+ *   a_1 * R_1 + ... + a_n * R_n + (a_1 * e_1) * P_1 + ... + (a_n * e_n) * P_n`
+ *
+ * where `a_1` is `1`, and the remaining coefficients are 128-bit values derived
+ * by hashing the full contents of the batch. Because the coefficients cannot be
+ * chosen independently of the signatures, invalid signatures cannot be crafted
+ * to cancel each other out. (128-bit coefficients provide the same security
+ * level as the curve, and halve the cost of multiplying each nonce point.)
+ *
+ * Note, this method is not constant-time, and must only be used with public
+ * values.
+ *
+ * @param sha256 - an implementation of sha256
+ * @param batch - an array of signature verifications, each public key must be
+ * compressed (33 bytes)
+ */
+export const verifySignatureSchnorrBatchSecp256k1 = (
+  sha256: { hash: Sha256['hash'] },
+  batch: readonly SignatureVerificationSchnorr[]
+) => {
+  const seed = sha256.hash(
+    flattenBinArray(
+      batch.map(({ messageHash, publicKey, signature }) =>
+        flattenBinArray([signature, publicKey, messageHash])
+      )
+    )
+  );
+  const coefficient = (index: number) =>
+    index === 0
+      ? BigInt(1)
+      : binToBigIntUintBE(
+          sha256
+            .hash(flattenBinArray([seed, numberToBinUint32LE(index)]))
+            .slice(0, Internal.coefficientLength)
+        );
+  const terms = batch.map(({ messageHash, publicKey, signature }, index) => {
+    if (signature.length !== Internal.schnorrSignatureLength) {
+      return undefined;
+    }
+    const rX = signature.slice(0, Internal.scalarLength);
+    const s = binToBigIntUint256BE(signature.slice(Internal.scalarLength));
+    const point = decodePointSecp256k1(publicKey);
+    const nonce = liftNonceX(rX);
+    if (s >= secp256k1Order || point === undefined || nonce === undefined) {
+      return undefined;
+    }
+    const e = modulo(
+      binToBigIntUint256BE(
+        sha256.hash(
+          flattenBinArray([rX, encodePointSecp256k1(point), messageHash])
+        )
+      ),
+      secp256k1Order
+    );
+    const a = coefficient(index);
+    return { a, e, nonce, point, s };
+  });
+  if (terms.some((term) => term === undefined)) {
+    return false;
+  }
+  const parsed = terms as Exclude<typeof terms[number], undefined>[];
+  const generatorScalar = parsed.reduce(
+    (sum, { a, s }) => modulo(sum + a * s, secp256k1Order),
+    BigInt(0)
+  );
+  return (
+    multiplyAndAddPointsSecp256k1([
+      [secp256k1Generator, generatorScalar],
+      ...parsed.map<[PointSecp256k1, bigint]>(({ a, nonce }) => [
+        negatePoint(nonce),
+        a,
+      ]),
+      ...parsed.map<[PointSecp256k1, bigint]>(({ a, e, point }) => [
+        negatePoint(point),
+        a * e,
+      ]),
+    ]) === undefined
+  );
+};
@@ -0,0 +1,25 @@
+/**
+ * The order of the secp256k1 curve.
+ */
+export const secp256k1Order = BigInt(
+  '0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141'
+);
+
+/**
+ * The size of the finite field over which the secp256k1 curve is defined.
+ */
+export const secp256k1FieldSize = BigInt(
+  '0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f'
+);
+
+/**
+ * The generator point of the secp256k1 curve.
+ */
+export const secp256k1Generator = {
+  x: BigInt(
+    '0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'
+  ),
+  y: BigInt(
+    '0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8'
+  ),
+};
@@ -0,0 +1,228 @@
+/* eslint-disable functional/no-expression-statement, @typescript-eslint/no-magic-numbers */
+import test from 'ava';
+
+import {
+  bigIntToBinUint256BEClamped,
+  binToBigIntUint256BE,
+  hexToBin,
+  instantiateSecp256k1,
+  instantiateSha256,
+  RecoveryId,
+  Secp256k1,
+  secp256k1Fallback,
+  SignatureVerificationSchnorr,
+} from '../lib';
+
+const secp256k1Promise = instantiateSecp256k1();
+const sha256Promise = instantiateSha256();
+
+const order = hexToBin(
+  'fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141'
+);
+
+/**
+ * Returns the result of `method` or the message of the error it throws.
+ */
+const attempt = <T>(method: () => T) => {
+  // eslint-disable-next-line functional/no-try-statement
+  try {
+    return method();
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+test('[crypto] secp256k1Fallback: matches WebAssembly implementation', async (t) => {
+  const [secp256k1, sha256] = await Promise.all([
+    secp256k1Promise,
+    sha256Promise,
+  ]);
+  const same = <T>(method: (implementation: Secp256k1) => T) => {
+    const expected = attempt(() => method(secp256k1));
+    t.deepEqual(
+      attempt(() => method(secp256k1Fallback)),
+      expected
+    );
+    return expected as T;
+  };
+  [...Array(6).keys()].forEach((index) => {
+    const privateKey = sha256.hash(Uint8Array.of(index));
+    const messageHash = sha256.hash(Uint8Array.of(index, 1));
+    const tweak = sha256.hash(Uint8Array.of(index, 2));
+    const extraEntropy = sha256.hash(Uint8Array.of(index, 3));
+    const publicKey = same((s) => s.derivePublicKeyCompressed(privateKey));
+    const uncompressed = same((s) => s.derivePublicKeyUncompressed(privateKey));
+    same((s) => s.compressPublicKey(uncompressed));
+    same((s) => s.uncompressPublicKey(publicKey));
+    same((s) => s.validatePrivateKey(privateKey));
+
+    const compact = same((s) =>
+      s.signMessageHashCompact(privateKey, messageHash)
+    );
+    const der = same((s) =>
+      s.signMessageHashDER(privateKey, messageHash, extraEntropy)
+    );
+    const recoverable = same((s) =>
+      s.signMessageHashRecoverableCompact(privateKey, messageHash)
+    );
+    const schnorr = same((s) =>
+      s.signMessageHashSchnorr(privateKey, messageHash, extraEntropy)
+    );
+    const highS = same((s) => s.malleateSignatureCompact(compact));
+    same((s) => s.malleateSignatureDER(der));
+    same((s) => s.normalizeSignatureCompact(highS));
+    same((s) => s.signatureCompactToDER(highS));
+    same((s) => s.signatureDERToCompact(der));
+
+    t.true(
+      same((s) => s.verifySignatureCompact(highS, publicKey, messageHash))
+    );
+    t.false(
+      same((s) => s.verifySignatureCompactLowS(highS, publicKey, messageHash))
+    );
+    t.false(same((s) => s.verifySignatureCompact(compact, publicKey, tweak)));
+    t.true(
+      same((s) => s.verifySignatureDERLowS(der, uncompressed, messageHash))
+    );
+    t.true(
+      same((s) => s.verifySignatureSchnorr(schnorr, publicKey, messageHash))
+    );
+    t.false(same((s) => s.verifySignatureSchnorr(schnorr, publicKey, tweak)));
+
+    same((s) =>
+      s.recoverPublicKeyCompressed(
+        recoverable.signature,
+        recoverable.recoveryId,
+        messageHash
+      )
+    );
+    same((s) =>
+      s.recoverPublicKeyUncompressed(
+        recoverable.signature,
+        // eslint-disable-next-line no-bitwise
+        (recoverable.recoveryId ^ 1) as RecoveryId,
+        messageHash
+      )
+    );
+
+    same((s) => s.addTweakPrivateKey(privateKey, tweak));
+    same((s) => s.mulTweakPrivateKey(privateKey, tweak));
+    same((s) => s.addTweakPublicKeyCompressed(publicKey, tweak));
+    same((s) => s.mulTweakPublicKeyUncompressed(publicKey, tweak));
+  });
+});
+
+test('[crypto] secp256k1Fallback: errors match WebAssembly implementation', async (t) => {
+  const secp256k1 = await secp256k1Promise;
+  const same = <T>(method: (implementation: Secp256k1) => T) => {
+    t.deepEqual(
+      attempt(() => method(secp256k1Fallback)),
+      attempt(() => method(secp256k1))
+    );
+  };
+  const zero = new Uint8Array(32);
+  const one = hexToBin(
+    '0000000000000000000000000000000000000000000000000000000000000001'
+  );
+  const publicKey = secp256k1.derivePublicKeyCompressed(one);
+  [zero, order].forEach((invalid) => {
+    same((s) => s.validatePrivateKey(invalid));
+    same((s) => s.derivePublicKeyCompressed(invalid));
+    same((s) => s.signMessageHashCompact(invalid, one));
+    same((s) => s.signMessageHashSchnorr(invalid, one));
+    same((s) => s.addTweakPrivateKey(one, invalid));
+    same((s) => s.mulTweakPrivateKey(one, invalid));
+    same((s) => s.mulTweakPublicKeyCompressed(publicKey, invalid));
+  });
+  same((s) => s.uncompressPublicKey(Uint8Array.of(5, ...publicKey.slice(1))));
+  same((s) => s.signatureCompactToDER(Uint8Array.from([...order, ...one])));
+  same((s) => s.signatureDERToCompact(hexToBin('3006020101020101')));
+  same((s) => s.signatureDERToCompact(hexToBin('300702020001020101')));
+  same((s) => s.recoverPublicKeyCompressed(new Uint8Array(64), 0, one));
+  same((s) => s.verifySignatureSchnorr(new Uint8Array(64), publicKey, one));
+  [new Uint8Array(31), new Uint8Array(33)].forEach((extraEntropy) => {
+    [secp256k1, secp256k1Fallback].forEach((implementation) => {
+      [
+        implementation.signMessageHashCompact,
+        implementation.signMessageHashDER,
+        implementation.signMessageHashRecoverableCompact,
+        implementation.signMessageHashSchnorr,
+      ].forEach((sign) => {
+        t.deepEqual(
+          attempt(() => sign(one, one, extraEntropy)),
+          'Failed to sign message hash. The extra entropy must be 32 bytes.'
+        );
+      });
+    });
+  });
+});
+
+test('[crypto] verifySignatureSchnorrBatch: rejects an invalid signature at any position', async (t) => {
+  const [secp256k1, sha256] = await Promise.all([
+    secp256k1Promise,
+    sha256Promise,
+  ]);
+  const batch = [...Array(4).keys()].map<SignatureVerificationSchnorr>(
+    (index) => {
+      const privateKey = sha256.hash(Uint8Array.of(index));
+      const messageHash = sha256.hash(Uint8Array.of(index, 1));
+      return {
+        messageHash,
+        publicKey: secp256k1.derivePublicKeyCompressed(privateKey),
+        signature: secp256k1.signMessageHashSchnorr(privateKey, messageHash),
+      };
+    }
+  );
+  const withS = (signature: Uint8Array, offset: number) =>
+    Uint8Array.from([
+      ...signature.slice(0, 32),
+      ...bigIntToBinUint256BEClamped(
+        binToBigIntUint256BE(signature.slice(32)) + BigInt(offset)
+      ),
+    ]);
+  const replaceAt = (
+    index: number,
+    replacement: Partial<SignatureVerificationSchnorr>
+  ) =>
+    batch.map((verification, i) =>
+      i === index ? { ...verification, ...replacement } : verification
+    );
+  [secp256k1, secp256k1Fallback].forEach((implementation) => {
+    t.true(implementation.verifySignatureSchnorrBatch(batch));
+    batch.forEach(({ signature }, index) => {
+      t.false(
+        implementation.verifySignatureSchnorrBatch(
+          replaceAt(index, { signature: withS(signature, 1) })
+        )
+      );
+      t.false(
+        implementation.verifySignatureSchnorrBatch(
+          replaceAt(index, { messageHash: order })
+        )
+      );
+      t.false(
+        implementation.verifySignatureSchnorrBatch(
+          replaceAt(index, {
+            publicKey: batch[(index + 1) % batch.length].publicKey,
+          })
+        )
+      );
+    });
+    /**
+     * Invalid signatures which would cancel each other out if the batch were
+     * verified without coefficients.
+     */
+    t.false(
+      implementation.verifySignatureSchnorrBatch(
+        batch.map((verification, index) =>
+          index < 2
+            ? {
+                ...verification,
+                signature: withS(verification.signature, index === 0 ? 1 : -1),
+              }
+            : verification
+        )
+      )
+    );
+  });
+});
@@ -0,0 +1,565 @@
+/* eslint-disable functional/no-conditional-statement, functional/no-throw-statement, @typescript-eslint/no-magic-numbers */
+import {
+  bigIntToBinUint256BEClamped,
+  bigIntToBinUintLE,
+  binToBigIntUintBE,
+  flattenBinArray,
+} from '../format/format';
+
+import { sha256Fallback } from './hash-fallback';
+import { verifySignatureSchnorrBatchSecp256k1 } from './secp256k1-batch';
+import {
+  secp256k1FieldSize,
+  secp256k1Generator,
+  secp256k1Order,
+} from './secp256k1-constants';
+import {
+  generateNonceRFC6979,
+  nonceAlgorithmSchnorrBCH,
+  signMessageHashSchnorrWithNonce,
+} from './secp256k1-nonce';
+import {
+  addPointsSecp256k1,
+  decodePointSecp256k1,
+  encodePointSecp256k1,
+  isQuadraticResidueSecp256k1,
+  modularInverse,
+  modulo,
+  multiplyPointSecp256k1,
+  PointSecp256k1,
+} from './secp256k1-point';
+import {
+  RecoverableSignature,
+  RecoveryId,
+  Secp256k1,
+  SignatureVerificationSchnorr,
+} from './secp256k1-types';
+
+const enum Internal {
+  compressedPublicKeyLength = 33,
+  derIntegerTag = 0x02,
+  derSequenceTag = 0x30,
+  derShortFormMaximum = 0x80,
+  hybridEvenHeaderByte = 0x06,
+  hybridOddHeaderByte = 0x07,
+  scalarLength = 32,
+  uncompressedHeaderByte = 0x04,
+  uncompressedPublicKeyLength = 65,
+}
+
+type Point = { x: bigint; y: bigint };
+
+type Signature = { r: bigint; s: bigint };
+
+const halfOrder = secp256k1Order / BigInt(2);
+
+const isScalar = (value: bigint) => value < secp256k1Order;
+
+const isValidPrivateKey = (value: bigint) =>
+  value > BigInt(0) && value < secp256k1Order;
+
+const toBin = bigIntToBinUint256BEClamped;
+
+const parsePublicKey = (publicKey: Uint8Array): PointSecp256k1 => {
+  if (publicKey.length === Internal.compressedPublicKeyLength) {
+    return decodePointSecp256k1(publicKey);
+  }
+  const header = publicKey[0];
+  if (
+    publicKey.length !== Internal.uncompressedPublicKeyLength ||
+    (header !== Internal.uncompressedHeaderByte &&
+      header !== Internal.hybridEvenHeaderByte &&
+      header !== Internal.hybridOddHeaderByte)
+  ) {
+    return undefined;
+  }
+  const x = binToBigIntUintBE(publicKey.slice(1, Internal.scalarLength + 1));
+  const y = binToBigIntUintBE(publicKey.slice(Internal.scalarLength + 1));
+  const isOdd = y % BigInt(2) === BigInt(1);
+  if (
+    x >= secp256k1FieldSize ||
+    y >= secp256k1FieldSize ||
+    modulo(y * y - x * x * x - BigInt(7), secp256k1FieldSize) !== BigInt(0) ||
+    (header === Internal.hybridEvenHeaderByte && isOdd) ||
+    (header === Internal.hybridOddHeaderByte && !isOdd)
+  ) {
+    return undefined;
+  }
+  return { x, y };
+};
+
+const parsePublicKeyOrThrow = (publicKey: Uint8Array) => {
+  const point = parsePublicKey(publicKey);
+  if (point === undefined) {
+    throw new Error('Failed to parse public key.');
+  }
+  return point;
+};
+
+const serializePublicKey = (point: Point, compressed: boolean) =>
+  compressed
+    ? encodePointSecp256k1(point)
+    : flattenBinArray([
+        Uint8Array.of(Internal.uncompressedHeaderByte),
+        toBin(point.x),
+        toBin(point.y),
+      ]);
+
+const parseSignatureCompact = (
+  signature: Uint8Array
+): Signature | undefined => {
+  const r = binToBigIntUintBE(signature.slice(0, Internal.scalarLength));
+  const s = binToBigIntUintBE(
+    signature.slice(Internal.scalarLength, Internal.scalarLength * 2)
+  );
+  return isScalar(r) && isScalar(s) ? { r, s } : undefined;
+};
+
+/**
+ * Parse a DER-encoded integer as in libsecp256k1: integers with excessive
+ * padding are rejected, but negative or overflowing integers are parsed as `0`
+ * (producing a signature which is never valid).
+ */
+const parseDERInteger = (bin: Uint8Array, offset: number) => {
+  const length = bin[offset + 1] as number | undefined;
+  if (
+    bin[offset] !== Internal.derIntegerTag ||
+    length === undefined ||
+    length === 0 ||
+    length >= Internal.derShortFormMaximum ||
+    offset + 2 + length > bin.length
+  ) {
+    return undefined;
+  }
+  const integer = bin.slice(offset + 2, offset + 2 + length);
+  const excessivePadding =
+    length > 1 &&
+    ((integer[0] === 0x00 && integer[1] < Internal.derShortFormMaximum) ||
+      (integer[0] === 0xff && integer[1] >= Internal.derShortFormMaximum));
+  if (excessivePadding) {
+    return undefined;
+  }
+  const value = binToBigIntUintBE(integer);
+  return {
+    next: offset + 2 + length,
+    value:
+      integer[0] >= Internal.derShortFormMaximum || !isScalar(value)
+        ? BigInt(0)
+        : value,
+  };
+};
+
+const parseSignatureDER = (signature: Uint8Array): Signature | undefined => {
+  if (
+    signature[0] !== Internal.derSequenceTag ||
+    signature[1] !== signature.length - 2
+  ) {
+    return undefined;
+  }
+  const r = parseDERInteger(signature, 2);
+  const s = r === undefined ? undefined : parseDERInteger(signature, r.next);
+  return r === undefined || s === undefined || s.next !== signature.length
+    ? undefined
+    : { r: r.value, s: s.value };
+};
+
+const parseSignatureOrThrow = (signature: Uint8Array, isDer: boolean) => {
+  const parsed = isDer
+    ? parseSignatureDER(signature)
+    : parseSignatureCompact(signature);
+  if (parsed === undefined) {
+    throw new Error('Failed to parse signature.');
+  }
+  return parsed;
+};
+
+const serializeDERInteger = (value: bigint) => {
+  const bin = bigIntToBinUintLE(value).reverse();
+  const integer =
+    bin[0] >= Internal.derShortFormMaximum
+      ? flattenBinArray([Uint8Array.of(0), bin])
+      : bin;
+  return flattenBinArray([
+    Uint8Array.of(Internal.derIntegerTag, integer.length),
+    integer,
+  ]);
+};
+
+const serializeSignature = ({ r, s }: Signature, isDer: boolean) => {
+  if (!isDer) {
+    return flattenBinArray([toBin(r), toBin(s)]);
+  }
+  const content = flattenBinArray([
+    serializeDERInteger(r),
+    serializeDERInteger(s),
+  ]);
+  return flattenBinArray([
+    Uint8Array.of(Internal.derSequenceTag, content.length),
+    content,
+  ]);
+};
+
+const normalize = ({ r, s }: Signature) => ({
+  r,
+  s: s > halfOrder ? secp256k1Order - s : s,
+});
+
+const malleate = ({ r, s }: Signature) => ({
+  r,
+  s: modulo(-s, secp256k1Order),
+});
+
+const messageScalar = (messageHash: Uint8Array) =>
+  binToBigIntUintBE(messageHash) % secp256k1Order;
+
+/**
+ * Compute `a⋅G + b⋅P`.
+ */
+const linearCombination = (a: bigint, b: bigint, point: Point) =>
+  addPointsSecp256k1(
+    multiplyPointSecp256k1(secp256k1Generator, a),
+    multiplyPointSecp256k1(point, b)
+  );
+
+const derivePoint = (privateKey: Uint8Array) => {
+  const d = binToBigIntUintBE(privateKey);
+  if (!isValidPrivateKey(d)) {
+    throw new Error('Cannot derive public key from invalid private key.');
+  }
+  return multiplyPointSecp256k1(secp256k1Generator, d) as Point;
+};
+
+const validateExtraEntropy = (extraEntropy?: Uint8Array) => {
+  if (
+    extraEntropy !== undefined &&
+    extraEntropy.length !== Internal.scalarLength
+  ) {
+    throw new Error(
+      'Failed to sign message hash. The extra entropy must be 32 bytes.'
+    );
+  }
+};
+
+const signECDSA = (
+  privateKey: Uint8Array,
+  messageHash: Uint8Array,
+  extraEntropy?: Uint8Array
+) => {
+  validateExtraEntropy(extraEntropy);
+  const d = binToBigIntUintBE(privateKey);
+  if (!isValidPrivateKey(d)) {
+    throw new Error(
+      'Failed to sign message hash. The private key is not valid.'
+    );
+  }
+  const z = messageScalar(messageHash);
+  const attempt = (
+    counter: number
+  ): { recoveryId: RecoveryId; signature: Signature } => {
+    const k = binToBigIntUintBE(
+      generateNonceRFC6979(sha256Fallback, {
+        counter,
+        extraEntropy,
+        messageHash,
+        privateKey,
+      })
+    );
+    const point = multiplyPointSecp256k1(secp256k1Generator, k) as Point;
+    const r = point.x % secp256k1Order;
+    const s = modulo(
+      modularInverse(k, secp256k1Order) * (z + r * d),
+      secp256k1Order
+    );
+    if (r === BigInt(0) || s === BigInt(0)) {
+      return attempt(counter + 1);
+    }
+    // eslint-disable-next-line no-bitwise
+    const recoveryId = ((point.x >= secp256k1Order ? 2 : 0) |
+      (point.y % BigInt(2) === BigInt(1) ? 1 : 0)) as RecoveryId;
+    return s > halfOrder
+      ? {
+          // eslint-disable-next-line no-bitwise
+          recoveryId: (recoveryId ^ 1) as RecoveryId,
+          signature: { r, s: secp256k1Order - s },
+        }
+      : { recoveryId, signature: { r, s } };
+  };
+  return attempt(0);
+};
+
+const verifyECDSA = (
+  { r, s }: Signature,
+  point: Point,
+  messageHash: Uint8Array
+) => {
+  if (r === BigInt(0) || s === BigInt(0) || s > halfOrder) {
+    return false;
+  }
+  const sInverse = modularInverse(s, secp256k1Order);
+  const result = linearCombination(
+    (messageScalar(messageHash) * sInverse) % secp256k1Order,
+    (r * sInverse) % secp256k1Order,
+    point
+  );
+  return result !== undefined && result.x % secp256k1Order === r;
+};
+
+const verifySignature = (isDer: boolean, normalizeSignature: boolean) => (
+  signature: Uint8Array,
+  publicKey: Uint8Array,
+  messageHash: Uint8Array
+) => {
+  const point = parsePublicKey(publicKey);
+  const parsed = isDer
+    ? parseSignatureDER(signature)
+    : parseSignatureCompact(signature);
+  return (
+    point !== undefined &&
+    parsed !== undefined &&
+    verifyECDSA(
+      normalizeSignature ? normalize(parsed) : parsed,
+      point,
+      messageHash
+    )
+  );
+};
+
+const verifySignatureSchnorr = (
+  signature: Uint8Array,
+  publicKey: Uint8Array,
+  messageHash: Uint8Array
+) => {
+  const point = parsePublicKey(publicKey);
+  if (point === undefined) {
+    return false;
+  }
+  const rX = signature.slice(0, Internal.scalarLength);
+  const r = binToBigIntUintBE(rX);
+  const s = binToBigIntUintBE(
+    signature.slice(Internal.scalarLength, Internal.scalarLength * 2)
+  );
+  if (r >= secp256k1FieldSize || !isScalar(s)) {
+    return false;
+  }
+  const e =
+    binToBigIntUintBE(
+      sha256Fallback.hash(
+        flattenBinArray([rX, encodePointSecp256k1(point), messageHash])
+      )
+    ) % secp256k1Order;
+  const nonce = linearCombination(s, modulo(-e, secp256k1Order), point);
+  return (
+    nonce !== undefined && isQuadraticResidueSecp256k1(nonce.y) && nonce.x === r
+  );
+};
+
+const recoverPublicKey = (compressed: boolean) => (
+  signature: Uint8Array,
+  recoveryId: RecoveryId,
+  messageHash: Uint8Array
+) => {
+  const parsed = parseSignatureCompact(signature);
+  if (parsed === undefined || recoveryId < 0 || recoveryId > 3) {
+    throw new Error('Failed to recover public key. Could not parse signature.');
+  }
+  const { r, s } = parsed;
+  // eslint-disable-next-line no-bitwise
+  const x = recoveryId & 2 ? r + secp256k1Order : r;
+  const nonce =
+    r === BigInt(0) || s === BigInt(0) || x >= secp256k1FieldSize
+      ? undefined
+      : decodePointSecp256k1(
+          flattenBinArray([
+            // eslint-disable-next-line no-bitwise
+            Uint8Array.of(recoveryId & 1 ? 3 : 2),
+            toBin(x),
+          ])
+        );
+  const rInverse = modularInverse(r, secp256k1Order);
+  const point =
+    nonce === undefined
+      ? undefined
+      : linearCombination(
+          modulo(-messageScalar(messageHash) * rInverse, secp256k1Order),
+          (s * rInverse) % secp256k1Order,
+          nonce
+        );
+  if (point === undefined) {
+    throw new Error(
+      'Failed to recover public key. The compact signature, recovery, or message hash is invalid.'
+    );
+  }
+  return serializePublicKey(point, compressed);
+};
+
+const addTweakPrivateKey = (privateKey: Uint8Array, tweakValue: Uint8Array) => {
+  const d = binToBigIntUintBE(privateKey);
+  const tweak = binToBigIntUintBE(tweakValue);
+  const result = (d + tweak) % secp256k1Order;
+  if (!isValidPrivateKey(d) || !isScalar(tweak) || result === BigInt(0)) {
+    throw new Error('Private key is invalid or adding failed.');
+  }
+  return toBin(result);
+};
+
+const mulTweakPrivateKey = (privateKey: Uint8Array, tweakValue: Uint8Array) => {
+  const d = binToBigIntUintBE(privateKey);
+  const tweak = binToBigIntUintBE(tweakValue);
+  if (!isValidPrivateKey(d) || !isValidPrivateKey(tweak)) {
+    throw new Error('Private key is invalid or multiplying failed.');
+  }
+  return toBin((d * tweak) % secp256k1Order);
+};
+
+const addTweakPublicKey = (compressed: boolean) => (
+  publicKey: Uint8Array,
+  tweakValue: Uint8Array
+) => {
+  const point = parsePublicKeyOrThrow(publicKey);
+  const tweak = binToBigIntUintBE(tweakValue);
+  const result = isScalar(tweak)
+    ? addPointsSecp256k1(
+        point,
+        multiplyPointSecp256k1(secp256k1Generator, tweak)
+      )
+    : undefined;
+  if (result === undefined) {
+    throw new Error('Adding failed');
+  }
+  return serializePublicKey(result, compressed);
+};
+
+const mulTweakPublicKey = (compressed: boolean) => (
+  publicKey: Uint8Array,
+  tweakValue: Uint8Array
+) => {
+  const point = parsePublicKeyOrThrow(publicKey);
+  const tweak = binToBigIntUintBE(tweakValue);
+  if (!isValidPrivateKey(tweak)) {
+    throw new Error('Multiplying failed');
+  }
+  return serializePublicKey(
+    multiplyPointSecp256k1(point, tweak) as Point,
+    compressed
+  );
+};
+
+const derivePublicKeyCompressed = (privateKey: Uint8Array) =>
+  serializePublicKey(derivePoint(privateKey), true);
+
+const validatePrivateKey = (privateKey: Uint8Array) =>
+  isValidPrivateKey(binToBigIntUintBE(privateKey));
+
+/**
+ * A pure-JavaScript implementation of `Secp256k1`, for use in environments
+ * which cannot instantiate WebAssembly (e.g. under a restrictive Content
+ * Security Policy). This implementation is used automatically by
+ * `instantiateSecp256k1` when `WebAssembly` is unavailable.
+ *
+ * Signatures and nonces are produced exactly as by the WebAssembly
+ * implementation, but this implementation is significantly slower, and
+ * **it is not constant-time**: timing side-channels may leak information about
+ * private keys. Prefer the WebAssembly implementation wherever it is available.
+ */
+export const secp256k1Fallback: Secp256k1 = {
+  addTweakPrivateKey,
+  addTweakPublicKeyCompressed: addTweakPublicKey(true),
+  addTweakPublicKeyUncompressed: addTweakPublicKey(false),
+  compressPublicKey: (publicKey) =>
+    serializePublicKey(parsePublicKeyOrThrow(publicKey), true),
+  derivePublicKeyCompressed,
+  derivePublicKeyUncompressed: (privateKey) =>
+    serializePublicKey(derivePoint(privateKey), false),
+  malleateSignatureCompact: (signature) =>
+    serializeSignature(
+      malleate(parseSignatureOrThrow(signature, false)),
+      false
+    ),
+  malleateSignatureDER: (signature) =>
+    serializeSignature(malleate(parseSignatureOrThrow(signature, true)), true),
+  mulTweakPrivateKey,
+  mulTweakPublicKeyCompressed: mulTweakPublicKey(true),
+  mulTweakPublicKeyUncompressed: mulTweakPublicKey(false),
+  normalizeSignatureCompact: (signature) =>
+    serializeSignature(
+      normalize(parseSignatureOrThrow(signature, false)),
+      false
+    ),
+  normalizeSignatureDER: (signature) =>
+    serializeSignature(normalize(parseSignatureOrThrow(signature, true)), true),
+  recoverPublicKeyCompressed: recoverPublicKey(true),
+  recoverPublicKeyUncompressed: recoverPublicKey(false),
+  signMessageHashCompact: (privateKey, messageHash, extraEntropy) =>
+    serializeSignature(
+      signECDSA(privateKey, messageHash, extraEntropy).signature,
+      false
+    ),
+  signMessageHashDER: (privateKey, messageHash, extraEntropy) =>
+    serializeSignature(
+      signECDSA(privateKey, messageHash, extraEntropy).signature,
+      true
+    ),
+  signMessageHashRecoverableCompact: (
+    privateKey,
+    messageHash,
+    extraEntropy
+  ): RecoverableSignature => {
+    const { recoveryId, signature } = signECDSA(
+      privateKey,
+      messageHash,
+      extraEntropy
+    );
+    return { recoveryId, signature: serializeSignature(signature, false) };
+  },
+  signMessageHashSchnorr: (privateKey, messageHash, extraEntropy) => {
+    validateExtraEntropy(extraEntropy);
+    if (!validatePrivateKey(privateKey)) {
+      throw new Error(
+        'Failed to sign message hash. The private key is not valid.'
+      );
+    }
+    return signMessageHashSchnorrWithNonce(
+      {
+        secp256k1: { derivePublicKeyCompressed, validatePrivateKey },
+        sha256: sha256Fallback,
+      },
+      {
+        messageHash,
+        nonce: generateNonceRFC6979(sha256Fallback, {
+          algorithm: nonceAlgorithmSchnorrBCH,
+          extraEntropy,
+          messageHash,
+          privateKey,
+        }),
+        privateKey,
+      }
+    ) as Uint8Array;
+  },
+  signatureCompactToDER: (signature) =>
+    serializeSignature(parseSignatureOrThrow(signature, false), true),
+  signatureDERToCompact: (signature) =>
+    serializeSignature(parseSignatureOrThrow(signature, true), false),
+  uncompressPublicKey: (publicKey) =>
+    serializePublicKey(parsePublicKeyOrThrow(publicKey), false),
+  validatePrivateKey,
+  verifySignatureCompact: verifySignature(false, true),
+  verifySignatureCompactLowS: verifySignature(false, false),
+  verifySignatureDER: verifySignature(true, true),
+  verifySignatureDERLowS: verifySignature(true, false),
+  verifySignatureSchnorr,
+  verifySignatureSchnorrBatch: (
+    batch: readonly SignatureVerificationSchnorr[]
+  ) => {
+    const points = batch.map(({ publicKey }) => parsePublicKey(publicKey));
+    return (
+      points.every((point) => point !== undefined) &&
+      verifySignatureSchnorrBatchSecp256k1(
+        sha256Fallback,
+        batch.map((verification, index) => ({
+          ...verification,
+          publicKey: encodePointSecp256k1(points[index] as Point),
+        }))
+      )
+    );
+  },
+};
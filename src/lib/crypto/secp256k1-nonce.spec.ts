@@ -0,0 +1,233 @@
+/* eslint-disable functional/no-expression-statement, @typescript-eslint/no-magic-numbers */
+import test from 'ava';
+
+import {
+  binToHex,
+  generateNonceRFC6979,
+  hexToBin,
+  instantiateSecp256k1,
+  instantiateSha256,
+  nonceAlgorithmSchnorrBCH,
+  NonceSigningError,
+  signMessageHashCompactLowR,
+  signMessageHashCompactWithNonce,
+  signMessageHashSchnorrWithNonce,
+  utf8ToBin,
+} from '../lib';
+
+const cryptoPromise = (async () => {
+  const [secp256k1, sha256] = await Promise.all([
+    instantiateSecp256k1(),
+    instantiateSha256(),
+  ]);
+  return { secp256k1, sha256 };
+})();
+
+const privateKey = hexToBin(
+  'f85d4bd8a03ca106c9deb47b791803dac7f0333809e3f1dd04d182e0aba6e553'
+);
+
+test('generateNonceRFC6979: test vector', async (t) => {
+  const { sha256 } = await cryptoPromise;
+  t.deepEqual(
+    binToHex(
+      generateNonceRFC6979(sha256, {
+        messageHash: sha256.hash(utf8ToBin('Satoshi Nakamoto')),
+        privateKey: hexToBin(
+          '0000000000000000000000000000000000000000000000000000000000000001'
+        ),
+      })
+    ),
+    '8f8a276c19f4149656b280621e358cce24f5f52542772691ee69063b74f15d15'
+  );
+});
+
+test('signMessageHashCompactWithNonce: reproduces signMessageHashCompact', async (t) => {
+  const crypto = await cryptoPromise;
+  [...Array(8).keys()].forEach((index) => {
+    const messageHash = crypto.sha256.hash(Uint8Array.of(index));
+    const extraEntropy = crypto.sha256.hash(Uint8Array.of(index, index));
+    const expected = crypto.secp256k1.signMessageHashCompact(
+      privateKey,
+      messageHash
+    );
+    const expectedWithEntropy = crypto.secp256k1.signMessageHashCompact(
+      privateKey,
+      messageHash,
+      extraEntropy
+    );
+    t.notDeepEqual(expected, expectedWithEntropy);
+    t.deepEqual(
+      signMessageHashCompactWithNonce(crypto.secp256k1, {
+        messageHash,
+        nonce: generateNonceRFC6979(crypto.sha256, { messageHash, privateKey }),
+        privateKey,
+      }),
+      expected
+    );
+    t.deepEqual(
+      signMessageHashCompactWithNonce(crypto.secp256k1, {
+        messageHash,
+        nonce: generateNonceRFC6979(crypto.sha256, {
+          extraEntropy,
+          messageHash,
+          privateKey,
+        }),
+        privateKey,
+      }),
+      expectedWithEntropy
+    );
+    t.deepEqual(
+      crypto.secp256k1.signatureCompactToDER(expectedWithEntropy),
+      crypto.secp256k1.signMessageHashDER(privateKey, messageHash, extraEntropy)
+    );
+    t.deepEqual(
+      crypto.secp256k1.signMessageHashRecoverableCompact(
+        privateKey,
+        messageHash,
+        extraEntropy
+      ).signature,
+      expectedWithEntropy
+    );
+  });
+});
+
+test('signMessageHashSchnorrWithNonce: reproduces signMessageHashSchnorr', async (t) => {
+  const crypto = await cryptoPromise;
+  const publicKey = crypto.secp256k1.derivePublicKeyCompressed(privateKey);
+  [...Array(8).keys()].forEach((index) => {
+    const messageHash = crypto.sha256.hash(Uint8Array.of(index));
+    const extraEntropy = crypto.sha256.hash(Uint8Array.of(index, index));
+    const expected = crypto.secp256k1.signMessageHashSchnorr(
+      privateKey,
+      messageHash
+    );
+    const expectedWithEntropy = crypto.secp256k1.signMessageHashSchnorr(
+      privateKey,
+      messageHash,
+      extraEntropy
+    );
+    t.notDeepEqual(expected, expectedWithEntropy);
+    t.true(
+      crypto.secp256k1.verifySignatureSchnorr(
+        expectedWithEntropy,
+        publicKey,
+        messageHash
+      )
+    );
+    t.deepEqual(
+      signMessageHashSchnorrWithNonce(crypto, {
+        messageHash,
+        nonce: generateNonceRFC6979(crypto.sha256, {
+          algorithm: nonceAlgorithmSchnorrBCH,
+          messageHash,
+          privateKey,
+        }),
+        privateKey,
+      }),
+      expected
+    );
+    t.deepEqual(
+      signMessageHashSchnorrWithNonce(crypto, {
+        messageHash,
+        nonce: generateNonceRFC6979(crypto.sha256, {
+          algorithm: nonceAlgorithmSchnorrBCH,
+          extraEntropy,
+          messageHash,
+          privateKey,
+        }),
+        privateKey,
+      }),
+      expectedWithEntropy
+    );
+  });
+});
+
+test('sign with explicit nonce: errors', async (t) => {
+  const crypto = await cryptoPromise;
+  const messageHash = crypto.sha256.hash(Uint8Array.of(0));
+  const invalid = new Uint8Array(32);
+  t.deepEqual(
+    signMessageHashCompactWithNonce(crypto.secp256k1, {
+      messageHash,
+      nonce: privateKey,
+      privateKey: invalid,
+    }),
+    NonceSigningError.invalidPrivateKey
+  );
+  t.deepEqual(
+    signMessageHashSchnorrWithNonce(crypto, {
+      messageHash,
+      nonce: invalid,
+      privateKey,
+    }),
+    NonceSigningError.invalidNonce
+  );
+});
+
+test('sign with extra entropy: extra entropy must be 32 bytes', async (t) => {
+  const crypto = await cryptoPromise;
+  const messageHash = crypto.sha256.hash(Uint8Array.of(0));
+  const message =
+    'Failed to sign message hash. The extra entropy must be 32 bytes.';
+  [new Uint8Array(31), new Uint8Array(33), new Uint8Array(1024)].forEach(
+    (extraEntropy) => {
+      t.throws(
+        () =>
+          crypto.secp256k1.signMessageHashCompact(
+            privateKey,
+            messageHash,
+            extraEntropy
+          ),
+        { message }
+      );
+      t.throws(
+        () =>
+          crypto.secp256k1.signMessageHashDER(
+            privateKey,
+            messageHash,
+            extraEntropy
+          ),
+        { message }
+      );
+      t.throws(
+        () =>
+          crypto.secp256k1.signMessageHashSchnorr(
+            privateKey,
+            messageHash,
+            extraEntropy
+          ),
+        { message }
+      );
+    }
+  );
+});
+
+test('signMessageHashCompactLowR', async (t) => {
+  const crypto = await cryptoPromise;
+  const publicKey = crypto.secp256k1.derivePublicKeyCompressed(privateKey);
+  const signatures = [...Array(16).keys()].map((index) => {
+    const messageHash = crypto.sha256.hash(Uint8Array.of(index));
+    const signature = signMessageHashCompactLowR(
+      crypto.secp256k1,
+      privateKey,
+      messageHash
+    );
+    t.true(signature[0] < 0x80);
+    t.true(
+      crypto.secp256k1.verifySignatureCompactLowS(
+        signature,
+        publicKey,
+        messageHash
+      )
+    );
+    return {
+      ground: binToHex(signature),
+      initial: binToHex(
+        crypto.secp256k1.signMessageHashCompact(privateKey, messageHash)
+      ),
+    };
+  });
+  t.true(signatures.some(({ ground, initial }) => ground === initial));
+  t.true(signatures.some(({ ground, initial }) => ground !== initial));
+});
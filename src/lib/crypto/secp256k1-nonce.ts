@@ -0,0 +1,279 @@
+import {
+  bigIntToBinUint256BEClamped,
+  binToBigIntUint256BE,
+  flattenBinArray,
+  numberToBinUint32LE,
+  utf8ToBin,
+} from '../format/format';
+
+import { hmacSha256 } from './hmac';
+import { secp256k1Order } from './secp256k1-constants';
+import {
+  decodePointSecp256k1,
+  isQuadraticResidueSecp256k1,
+  modularInverse,
+  modulo,
+} from './secp256k1-point';
+import { Secp256k1 } from './secp256k1-types';
+import { Sha256 } from './sha256';
+
+/**
+ * Pure-JavaScript implementations of the deterministic nonce generation and
+ * signing algorithms used by the `Secp256k1` WebAssembly implementation. These
+ * make it possible to reproduce signatures created by other implementations
+ * (e.g. hardware wallets) and to create signatures with an explicitly-chosen
+ * nonce for testing.
+ *
+ * Note, these methods are not constant-time. Production signing should use the
+ * `Secp256k1` WebAssembly implementation, which accepts `extraEntropy` where
+ * additional nonce data is required.
+ */
+
+export enum NonceSigningError {
+  invalidPrivateKey = 'Nonce signing error: the private key is not a valid Secp256k1 private key.',
+  invalidNonce = 'Nonce signing error: the nonce is not a valid Secp256k1 private key.',
+  invalidSignature = 'Nonce signing error: the nonce produced an invalid signature (r or s is zero); choose a different nonce.',
+}
+
+const enum Internal {
+  extraEntropyLength = 32,
+  highRByte = 0x80,
+  scalarLength = 32,
+  uint32Length = 4,
+}
+
+/**
+ * The 16-byte RFC 6979 "additional data" (Section 3.6) used by the BCH
+ * Schnorr signing algorithm: the ASCII string `Schnorr+SHA256  `.
+ */
+export const nonceAlgorithmSchnorrBCH = utf8ToBin('Schnorr+SHA256  ');
+
+const isValidScalar = (scalar: Uint8Array) => {
+  const value = binToBigIntUint256BE(scalar);
+  return value > BigInt(0) && value < secp256k1Order;
+};
+
+/**
+ * Generate a deterministic secp256k1 nonce using RFC 6979 with HMAC-SHA256,
+ * exactly as performed by libsecp256k1's default nonce function.
+ *
+ * The HMAC-DRBG is seeded with the private key, the message hash, the optional
+ * `extraEntropy` (RFC 6979 Section 3.6, "additional data"), and the optional
+ * 16-byte `algorithm` identifier, in that order. Candidates which are not valid
+ * secp256k1 private keys are skipped.
+ *
+ * To reproduce the nonce of an ECDSA signature, omit `algorithm`; to reproduce
+ * the nonce of a BCH Schnorr signature, use `nonceAlgorithmSchnorrBCH`.
+ *
+ * @param sha256 - an implementation of Sha256
+ * @param privateKey - the 32-byte private key with which to sign
+ * @param messageHash - the 32-byte message hash to be signed
+ * @param extraEntropy - optional, 32 bytes of additional data
+ * @param algorithm - optional, a 16-byte algorithm identifier
+ * @param counter - the number of valid candidates to skip (default: `0`) – the
+ * signing algorithm increments this value if a nonce produces an invalid
+ * signature
+ */
+export const generateNonceRFC6979 = (
+  sha256: { hash: Sha256['hash'] },
+  {
+    algorithm,
+    counter = 0,
+    extraEntropy,
+    messageHash,
+    privateKey,
+  }: {
+    algorithm?: Uint8Array;
+    counter?: number;
+    extraEntropy?: Uint8Array;
+    messageHash: Uint8Array;
+    privateKey: Uint8Array;
+  }
+) => {
+  const seed = flattenBinArray([
+    privateKey,
+    messageHash,
+    ...(extraEntropy === undefined ? [] : [extraEntropy]),
+    ...(algorithm === undefined ? [] : [algorithm]),
+  ]);
+  const hmac = (key: Uint8Array, ...data: Uint8Array[]) =>
+    hmacSha256(sha256, key, flattenBinArray(data));
+  const k0 = new Uint8Array(Internal.scalarLength);
+  const v0 = new Uint8Array(Internal.scalarLength).fill(1);
+  const k1 = hmac(k0, v0, Uint8Array.of(0), seed);
+  const v1 = hmac(k1, v0);
+  const k2 = hmac(k1, v1, Uint8Array.of(1), seed);
+  const v2 = hmac(k2, v1);
+
+  const next = (
+    k: Uint8Array,
+    v: Uint8Array,
+    remaining: number,
+    isFirst: boolean
+  ): Uint8Array => {
+    const kRetry = isFirst ? k : hmac(k, v, Uint8Array.of(0));
+    const vRetry = isFirst ? v : hmac(kRetry, v);
+    const candidate = hmac(kRetry, vRetry);
+    if (!isValidScalar(candidate)) {
+      return next(kRetry, candidate, remaining, false);
+    }
+    return remaining === 0
+      ? candidate
+      : next(kRetry, candidate, remaining - 1, false);
+  };
+  return next(k2, v2, counter, true);
+};
+
+type SigningSecp256k1 = {
+  derivePublicKeyCompressed: Secp256k1['derivePublicKeyCompressed'];
+  validatePrivateKey: Secp256k1['validatePrivateKey'];
+};
+
+const nonceCommitment = (
+  secp256k1: SigningSecp256k1,
+  privateKey: Uint8Array,
+  nonce: Uint8Array
+) => {
+  if (!secp256k1.validatePrivateKey(privateKey)) {
+    return NonceSigningError.invalidPrivateKey;
+  }
+  if (!secp256k1.validatePrivateKey(nonce)) {
+    return NonceSigningError.invalidNonce;
+  }
+  return decodePointSecp256k1(secp256k1.derivePublicKeyCompressed(nonce)) as {
+    x: bigint;
+    y: bigint;
+  };
+};
+
+/**
+ * Create an ECDSA signature in compact format using an explicit `nonce`. The
+ * created signature is always in lower-S form.
+ *
+ * When used with a nonce from `generateNonceRFC6979`, this produces the same
+ * signature as `Secp256k1.signMessageHashCompact`.
+ *
+ * **Reusing a nonce with a different message reveals the private key.** This
+ * method should only be used for testing and for reproducing signatures.
+ *
+ * @param secp256k1 - an implementation of Secp256k1
+ * @param privateKey - a valid secp256k1, 32-byte private key
+ * @param messageHash - the 32-byte message hash to be signed
+ * @param nonce - the 32-byte nonce (a valid secp256k1 private key)
+ */
+export const signMessageHashCompactWithNonce = (
+  secp256k1: SigningSecp256k1,
+  {
+    messageHash,
+    nonce,
+    privateKey,
+  }: { messageHash: Uint8Array; nonce: Uint8Array; privateKey: Uint8Array }
+) => {
+  const point = nonceCommitment(secp256k1, privateKey, nonce);
+  if (typeof point === 'string') {
+    return point;
+  }
+  const r = point.x % secp256k1Order;
+  const s = modulo(
+    modularInverse(binToBigIntUint256BE(nonce), secp256k1Order) *
+      (binToBigIntUint256BE(messageHash) +
+        r * binToBigIntUint256BE(privateKey)),
+    secp256k1Order
+  );
+  if (r === BigInt(0) || s === BigInt(0)) {
+    return NonceSigningError.invalidSignature;
+  }
+  const lowS = s > secp256k1Order / BigInt(2) ? secp256k1Order - s : s;
+  return flattenBinArray([
+    bigIntToBinUint256BEClamped(r),
+    bigIntToBinUint256BEClamped(lowS),
+  ]);
+};
+
+/**
+ * Create a Secp256k1 EC-Schnorr-SHA256 signature (BCH construction) using an
+ * explicit `nonce`. If the nonce point's Y coordinate is not a quadratic
+ * residue, the nonce is negated (as required by the BCH Schnorr algorithm).
+ *
+ * When used with a nonce from `generateNonceRFC6979` (with the algorithm
+ * `nonceAlgorithmSchnorrBCH`), this produces the same signature as
+ * `Secp256k1.signMessageHashSchnorr`.
+ *
+ * **Reusing a nonce with a different message reveals the private key.** This
+ * method should only be used for testing and for reproducing signatures.
+ *
+ * @param crypto - implementations of Secp256k1 and Sha256
+ * @param privateKey - a valid secp256k1, 32-byte private key
+ * @param messageHash - the 32-byte message hash to be signed
+ * @param nonce - the 32-byte nonce (a valid secp256k1 private key)
+ */
+export const signMessageHashSchnorrWithNonce = (
+  crypto: { secp256k1: SigningSecp256k1; sha256: { hash: Sha256['hash'] } },
+  {
+    messageHash,
+    nonce,
+    privateKey,
+  }: { messageHash: Uint8Array; nonce: Uint8Array; privateKey: Uint8Array }
+) => {
+  const point = nonceCommitment(crypto.secp256k1, privateKey, nonce);
+  if (typeof point === 'string') {
+    return point;
+  }
+  const rX = bigIntToBinUint256BEClamped(point.x);
+  const k = binToBigIntUint256BE(nonce);
+  const e =
+    binToBigIntUint256BE(
+      crypto.sha256.hash(
+        flattenBinArray([
+          rX,
+          crypto.secp256k1.derivePublicKeyCompressed(privateKey),
+          messageHash,
+        ])
+      )
+    ) % secp256k1Order;
+  const s = modulo(
+    (isQuadraticResidueSecp256k1(point.y) ? k : secp256k1Order - k) +
+      e * binToBigIntUint256BE(privateKey),
+    secp256k1Order
+  );
+  return flattenBinArray([rX, bigIntToBinUint256BEClamped(s)]);
+};
+
+/**
+ * Create an ECDSA signature in compact format with a "low-R" value (the first
+ * byte of `r` is less than `0x80`), saving one byte in the DER encoding.
+ *
+ * Like Bitcoin Core, signing is first attempted without extra entropy, then
+ * repeated with a 32-byte extra entropy value holding an incrementing,
+ * little-endian `Uint32` counter (starting at `1`) until a low-R signature is
+ * found. Signatures are therefore deterministic and can be reproduced by other
+ * implementations which grind for low-R signatures.
+ *
+ * Throws if the provided private key is too large (see `validatePrivateKey`).
+ *
+ * @param secp256k1 - an implementation of Secp256k1
+ * @param privateKey - a valid secp256k1, 32-byte private key
+ * @param messageHash - the 32-byte message hash to be signed
+ */
+export const signMessageHashCompactLowR = (
+  secp256k1: { signMessageHashCompact: Secp256k1['signMessageHashCompact'] },
+  privateKey: Uint8Array,
+  messageHash: Uint8Array
+) => {
+  const grind = (counter: number): Uint8Array => {
+    const extraEntropy =
+      counter === 0
+        ? undefined
+        : flattenBinArray([
+            numberToBinUint32LE(counter),
+            new Uint8Array(Internal.extraEntropyLength - Internal.uint32Length),
+          ]);
+    const signature = secp256k1.signMessageHashCompact(
+      privateKey,
+      messageHash,
+      extraEntropy
+    );
+    return signature[0] < Internal.highRByte ? signature : grind(counter + 1);
+  };
+  return grind(0);
+};
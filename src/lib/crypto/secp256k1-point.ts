@@ -0,0 +1,324 @@
+import {
+  bigIntToBinUint256BEClamped,
+  binToBigIntUint256BE,
+  range,
+} from '../format/format';
+
+import { secp256k1FieldSize, secp256k1Order } from './secp256k1-constants';
+
+/**
+ * Pure-JavaScript arithmetic for the secp256k1 curve. These utilities provide
+ * the point addition which is not exposed by the `Secp256k1` WebAssembly
+ * implementation. Where WebAssembly is available, scalar multiplication should
+ * be performed with `Secp256k1.mulTweakPublicKeyCompressed` and
+ * `Secp256k1.derivePublicKeyCompressed`.
+ *
+ * Note, these methods are not constant-time, and must only be used with public
+ * values.
+ */
+
+const enum Internal {
+  compressedPublicKeyLength = 33,
+  evenPublicKeyHeaderByte = 0x02,
+  oddPublicKeyHeaderByte = 0x03,
+  hexadecimal = 16,
+  windowBits = 4,
+  windowMultiples = 15,
+}
+
+/**
+ * An affine point on the secp256k1 curve, `undefined` represents the point at
+ * infinity.
+ */
+export type PointSecp256k1 = { x: bigint; y: bigint } | undefined;
+
+/**
+ * Reduce `value` modulo `modulus`, returning a non-negative result.
+ */
+export const modulo = (value: bigint, modulus: bigint) => {
+  const result = value % modulus;
+  return result < BigInt(0) ? result + modulus : result;
+};
+
+/**
+ * Compute `base^exponent` modulo `modulus`.
+ */
+export const modularPower = (
+  base: bigint,
+  exponent: bigint,
+  modulus: bigint
+) => {
+  // eslint-disable-next-line functional/no-let
+  let result = BigInt(1);
+  // eslint-disable-next-line functional/no-let
+  let b = modulo(base, modulus);
+  // eslint-disable-next-line functional/no-let
+  let e = exponent;
+  // eslint-disable-next-line functional/no-loop-statement
+  while (e > BigInt(0)) {
+    if (e % BigInt(2) === BigInt(1)) {
+      // eslint-disable-next-line functional/no-expression-statement
+      result = (result * b) % modulus;
+    }
+    // eslint-disable-next-line functional/no-expression-statement
+    b = (b * b) % modulus;
+    // eslint-disable-next-line functional/no-expression-statement
+    e /= BigInt(2);
+  }
+  return result;
+};
+
+/**
+ * Compute the multiplicative inverse of `value` modulo the prime `modulus`.
+ */
+export const modularInverse = (value: bigint, modulus: bigint) =>
+  modularPower(value, modulus - BigInt(2), modulus);
+
+/**
+ * Check if `value` is a quadratic residue in the secp256k1 field. (BCH Schnorr
+ * signatures require the Y coordinate of the nonce point to be a quadratic
+ * residue.)
+ */
+export const isQuadraticResidueSecp256k1 = (value: bigint) =>
+  modularPower(
+    value,
+    (secp256k1FieldSize - BigInt(1)) / BigInt(2),
+    secp256k1FieldSize
+  ) === BigInt(1);
+
+/**
+ * Decode a compressed public key, returning `undefined` if it is not a valid
+ * point on the curve. (Compressed public keys cannot encode the point at
+ * infinity.)
+ */
+export const decodePointSecp256k1 = (publicKey: Uint8Array): PointSecp256k1 => {
+  const header = publicKey[0] as number | undefined;
+  if (
+    publicKey.length !== Internal.compressedPublicKeyLength ||
+    (header !== Internal.evenPublicKeyHeaderByte &&
+      header !== Internal.oddPublicKeyHeaderByte)
+  ) {
+    return undefined;
+  }
+  const x = binToBigIntUint256BE(publicKey.slice(1));
+  if (x >= secp256k1FieldSize) {
+    return undefined;
+  }
+  // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+  const ySquared = modulo(x * x * x + BigInt(7), secp256k1FieldSize);
+  const y = modularPower(
+    ySquared,
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    (secp256k1FieldSize + BigInt(1)) / BigInt(4),
+    secp256k1FieldSize
+  );
+  if ((y * y) % secp256k1FieldSize !== ySquared) {
+    return undefined;
+  }
+  const isOdd = y % BigInt(2) === BigInt(1);
+  return {
+    x,
+    y:
+      isOdd === (header === Internal.oddPublicKeyHeaderByte)
+        ? y
+        : secp256k1FieldSize - y,
+  };
+};
+
+/**
+ * Encode a point (other than the point at infinity) as a compressed public key.
+ */
+export const encodePointSecp256k1 = (point: { x: bigint; y: bigint }) =>
+  Uint8Array.from([
+    point.y % BigInt(2) === BigInt(1)
+      ? Internal.oddPublicKeyHeaderByte
+      : Internal.evenPublicKeyHeaderByte,
+    ...bigIntToBinUint256BEClamped(point.x),
+  ]);
+
+/**
+ * Add two points on the secp256k1 curve.
+ */
+export const addPointsSecp256k1 = (
+  a: PointSecp256k1,
+  b: PointSecp256k1
+): PointSecp256k1 => {
+  if (a === undefined) {
+    return b;
+  }
+  if (b === undefined) {
+    return a;
+  }
+  if (a.x === b.x && modulo(a.y + b.y, secp256k1FieldSize) === BigInt(0)) {
+    return undefined;
+  }
+  const slope =
+    a.x === b.x
+      ? modulo(
+          // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+          BigInt(3) *
+            a.x *
+            a.x *
+            modularInverse(BigInt(2) * a.y, secp256k1FieldSize),
+          secp256k1FieldSize
+        )
+      : modulo(
+          (b.y - a.y) *
+            modularInverse(
+              modulo(b.x - a.x, secp256k1FieldSize),
+              secp256k1FieldSize
+            ),
+          secp256k1FieldSize
+        );
+  const x = modulo(slope * slope - a.x - b.x, secp256k1FieldSize);
+  const y = modulo(slope * (a.x - x) - a.y, secp256k1FieldSize);
+  return { x, y };
+};
+
+/**
+ * Negate a compressed public key (by inverting the parity of its Y
+ * coordinate).
+ */
+export const negatePublicKeyCompressed = (publicKey: Uint8Array) =>
+  Uint8Array.from([
+    publicKey[0] === Internal.evenPublicKeyHeaderByte
+      ? Internal.oddPublicKeyHeaderByte
+      : Internal.evenPublicKeyHeaderByte,
+    ...publicKey.slice(1),
+  ]);
+
+/**
+ * A point in Jacobian coordinates, `(x / z^2, y / z^3)`. The point at infinity
+ * has a `z` of `0`.
+ */
+type JacobianPoint = { x: bigint; y: bigint; z: bigint };
+
+const jacobianInfinity: JacobianPoint = {
+  x: BigInt(1),
+  y: BigInt(1),
+  z: BigInt(0),
+};
+
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+const doubleJacobian = ({ x, y, z }: JacobianPoint): JacobianPoint => {
+  if (z === BigInt(0) || y === BigInt(0)) {
+    return jacobianInfinity;
+  }
+  const p = secp256k1FieldSize;
+  const a = (x * x) % p;
+  const b = (y * y) % p;
+  const c = (b * b) % p;
+  const d = modulo(BigInt(2) * ((x + b) * (x + b) - a - c), p);
+  const e = (BigInt(3) * a) % p;
+  const x3 = modulo(e * e - BigInt(2) * d, p);
+  return {
+    x: x3,
+    y: modulo(e * (d - x3) - BigInt(8) * c, p),
+    z: (BigInt(2) * y * z) % p,
+  };
+};
+
+const addJacobian = (a: JacobianPoint, b: JacobianPoint): JacobianPoint => {
+  if (a.z === BigInt(0)) {
+    return b;
+  }
+  if (b.z === BigInt(0)) {
+    return a;
+  }
+  const p = secp256k1FieldSize;
+  const az2 = (a.z * a.z) % p;
+  const bz2 = (b.z * b.z) % p;
+  const u1 = (a.x * bz2) % p;
+  const u2 = (b.x * az2) % p;
+  const s1 = (((a.y * bz2) % p) * b.z) % p;
+  const s2 = (((b.y * az2) % p) * a.z) % p;
+  if (u1 === u2) {
+    return s1 === s2 ? doubleJacobian(a) : jacobianInfinity;
+  }
+  const h = modulo(u2 - u1, p);
+  const r = modulo(s2 - s1, p);
+  const h2 = (h * h) % p;
+  const h3 = (h * h2) % p;
+  const u1h2 = (u1 * h2) % p;
+  const x3 = modulo(r * r - h3 - BigInt(2) * u1h2, p);
+  return {
+    x: x3,
+    y: modulo(r * (u1h2 - x3) - s1 * h3, p),
+    z: (((h * a.z) % p) * b.z) % p,
+  };
+};
+/* eslint-enable @typescript-eslint/no-magic-numbers */
+
+/**
+ * Compute the sum of a list of points on the secp256k1 curve, each multiplied
+ * by a scalar, i.e. `scalar_1 * point_1 + scalar_2 * point_2 + ...`.
+ *
+ * Multiplications are interleaved (Strauss' algorithm), so all terms share a
+ * single chain of point doublings. Scalars are processed in 4-bit windows
+ * using a table of `1 * point` through `15 * point` for each term, so shorter
+ * scalars require fewer point additions.
+ *
+ * @param terms - an array of `[point, scalar]` pairs
+ */
+export const multiplyAndAddPointsSecp256k1 = (
+  terms: readonly (readonly [PointSecp256k1, bigint])[]
+): PointSecp256k1 => {
+  const bases = terms.reduce<{ digits: string; multiples: JacobianPoint[] }[]>(
+    (all, [point, scalar]) => {
+      const k = modulo(scalar, secp256k1Order);
+      return point === undefined || k === BigInt(0)
+        ? all
+        : [
+            ...all,
+            {
+              digits: k.toString(Internal.hexadecimal),
+              multiples: range(Internal.windowMultiples - 1).reduce(
+                (multiples) => [
+                  ...multiples,
+                  addJacobian(multiples[multiples.length - 1], {
+                    ...point,
+                    z: BigInt(1),
+                  }),
+                ],
+                [{ ...point, z: BigInt(1) }]
+              ),
+            },
+          ];
+    },
+    []
+  );
+  const windows = Math.max(0, ...bases.map(({ digits }) => digits.length));
+  const padded = bases.map(({ digits, multiples }) => ({
+    digits: digits.padStart(windows, '0'),
+    multiples,
+  }));
+  const result = range(windows).reduce<JacobianPoint>(
+    (sum, index) =>
+      padded.reduce((partial, { digits, multiples }) => {
+        const digit = parseInt(digits[index], Internal.hexadecimal);
+        return digit === 0
+          ? partial
+          : addJacobian(partial, multiples[digit - 1]);
+      }, range(Internal.windowBits).reduce(doubleJacobian, sum)),
+    jacobianInfinity
+  );
+  if (result.z === BigInt(0)) {
+    return undefined;
+  }
+  const zInverse = modularInverse(result.z, secp256k1FieldSize);
+  const zInverse2 = (zInverse * zInverse) % secp256k1FieldSize;
+  return {
+    x: (result.x * zInverse2) % secp256k1FieldSize,
+    y:
+      (((result.y * zInverse2) % secp256k1FieldSize) * zInverse) %
+      secp256k1FieldSize,
+  };
+};
+
+/**
+ * Multiply a point on the secp256k1 curve by `scalar`.
+ */
+export const multiplyPointSecp256k1 = (
+  point: PointSecp256k1,
+  scalar: bigint
+): PointSecp256k1 => multiplyAndAddPointsSecp256k1([[point, scalar]]);
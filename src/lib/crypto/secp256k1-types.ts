@@ -5,6 +5,45 @@ export interface RecoverableSignature {
   signature: Uint8Array;
 }
 
+/**
+ * A single Secp256k1 EC-Schnorr-SHA256 signature verification (see
+ * `Secp256k1.verifySignatureSchnorr`).
+ */
+export interface SignatureVerificationSchnorr {
+  /**
+   * The 32-byte message hash signed by `signature`.
+   */
+  messageHash: Uint8Array;
+  /**
+   * A public key, in either compressed (33-byte) or uncompressed (65-byte)
+   * format.
+   */
+  publicKey: Uint8Array;
+  /**
+   * The 64-byte Schnorr signature to verify.
+   */
+  signature: Uint8Array;
+}
+
+/**
+ * A batch of deferred Schnorr signature verifications, created by
+ * `createSignatureBatchSchnorr`.
+ */
+export interface SignatureBatchSchnorr {
+  /**
+   * A `Secp256k1` object in which `verifySignatureSchnorr` queues each
+   * verification in this batch and immediately returns `true`. All other
+   * methods are unmodified.
+   */
+  readonly secp256k1: Secp256k1;
+  /**
+   * Verify all queued signatures using `verifySignatureSchnorrBatch`, then
+   * empty the queue. Returns `true` if all queued signatures are valid (or if
+   * the queue is empty).
+   */
+  readonly verify: () => boolean;
+}
+
 /**
  * An object which exposes a set of purely-functional Secp256k1 methods.
  *
@@ -255,28 +294,36 @@ export interface Secp256k1 {
    * Create an ECDSA signature in compact format. The created signature is
    * always in lower-S form and follows RFC 6979.
    *
-   * Throws if the provided private key is too large (see `validatePrivateKey`).
+   * Throws if the provided private key is too large (see `validatePrivateKey`),
+   * or if `extraEntropy` is provided but is not exactly 32 bytes.
    *
    * @param privateKey - a valid secp256k1 private key
    * @param messageHash - the 32-byte message hash to be signed
+   * @param extraEntropy - optional, 32 bytes of additional data to include in
+   * RFC 6979 nonce generation (Section 3.6, "additional data")
    */
   readonly signMessageHashCompact: (
     privateKey: Uint8Array,
-    messageHash: Uint8Array
+    messageHash: Uint8Array,
+    extraEntropy?: Uint8Array
   ) => Uint8Array;
 
   /**
    * Create an ECDSA signature in DER format. The created signature is always in
    * lower-S form and follows RFC 6979.
    *
-   * Throws if the provided private key is too large (see `validatePrivateKey`).
+   * Throws if the provided private key is too large (see `validatePrivateKey`),
+   * or if `extraEntropy` is provided but is not exactly 32 bytes.
    *
    * @param privateKey - a valid secp256k1, 32-byte private key
    * @param messageHash - the 32-byte message hash to be signed
+   * @param extraEntropy - optional, 32 bytes of additional data to include in
+   * RFC 6979 nonce generation (Section 3.6, "additional data")
    */
   readonly signMessageHashDER: (
     privateKey: Uint8Array,
-    messageHash: Uint8Array
+    messageHash: Uint8Array,
+    extraEntropy?: Uint8Array
   ) => Uint8Array;
 
   /**
@@ -286,14 +333,18 @@ export interface Secp256k1 {
    * Also returns a recovery number for use in the `recoverPublicKey*`
    * functions
    *
-   * Throws if the provided private key is too large (see `validatePrivateKey`).
+   * Throws if the provided private key is too large (see `validatePrivateKey`),
+   * or if `extraEntropy` is provided but is not exactly 32 bytes.
    *
    * @param privateKey - a valid secp256k1, 32-byte private key
    * @param messageHash - the 32-byte message hash to be signed
+   * @param extraEntropy - optional, 32 bytes of additional data to include in
+   * RFC 6979 nonce generation (Section 3.6, "additional data")
    */
   readonly signMessageHashRecoverableCompact: (
     privateKey: Uint8Array,
-    messageHash: Uint8Array
+    messageHash: Uint8Array,
+    extraEntropy?: Uint8Array
   ) => RecoverableSignature;
 
   /**
@@ -305,14 +356,18 @@ export interface Secp256k1 {
    * This avoids leaking a private key by inadvertently creating both an ECDSA
    * signature and a Schnorr signature using the same nonce.
    *
-   * Throws if the provided private key is too large (see `validatePrivateKey`).
+   * Throws if the provided private key is too large (see `validatePrivateKey`),
+   * or if `extraEntropy` is provided but is not exactly 32 bytes.
    *
    * @param privateKey - a valid secp256k1, 32-byte private key
    * @param messageHash - the 32-byte message hash to be signed
+   * @param extraEntropy - optional, 32 bytes of additional data to include in
+   * RFC 6979 nonce generation (Section 3.6, "additional data")
    */
   readonly signMessageHashSchnorr: (
     privateKey: Uint8Array,
-    messageHash: Uint8Array
+    messageHash: Uint8Array,
+    extraEntropy?: Uint8Array
   ) => Uint8Array;
 
   /**
@@ -419,4 +474,23 @@ export interface Secp256k1 {
     publicKey: Uint8Array,
     messageHash: Uint8Array
   ) => boolean;
+
+  /**
+   * Verify a batch of Secp256k1 EC-Schnorr-SHA256 signatures (BCH
+   * construction). Returns `true` only if every signature in the batch is valid
+   * (an empty batch is valid).
+   *
+   * The WebAssembly implementation verifies each signature in turn (stopping
+   * at the first invalid signature), as native verification is faster than a
+   * batch check performed in JavaScript. The pure-JavaScript
+   * `secp256k1Fallback` instead verifies the full batch using a single
+   * random-linear-combination check (see
+   * `verifySignatureSchnorrBatchSecp256k1`). In either case, if the batch is
+   * invalid, this method does not indicate which signature(s) are invalid.
+   *
+   * @param batch - an array of signature verifications
+   */
+  readonly verifySignatureSchnorrBatch: (
+    batch: readonly SignatureVerificationSchnorr[]
+  ) => boolean;
 }
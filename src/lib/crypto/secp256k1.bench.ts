@@ -6,7 +6,13 @@ import suite from 'chuhai';
 import * as elliptic from 'elliptic';
 import * as secp256k1Node from 'secp256k1';
 
-import { binToHex, generatePrivateKey, instantiateSecp256k1 } from '../lib';
+import {
+  binToHex,
+  generatePrivateKey,
+  instantiateSecp256k1,
+  secp256k1Fallback,
+  SignatureVerificationSchnorr,
+} from '../lib';
 
 const secp256k1Promise = instantiateSecp256k1();
 
@@ -275,3 +281,49 @@ test('bench: secp256k1: verify: Schnorr vs. ECDSA', async (t) => {
     });
   });
 });
+
+test('bench: secp256k1: verify Schnorr: batch vs. individual', async (t) => {
+  const { secp256k1 } = await setup();
+  const batchSize = 16;
+  await suite(t.title, (s) => {
+    let batch: SignatureVerificationSchnorr[];
+    let result: boolean;
+    const nextCycle = () => {
+      batch = Array.from({ length: batchSize }, () => {
+        const privKey = generatePrivateKey(secureRandom);
+        const messageHash = randomBytes(privateKeyLength);
+        return {
+          messageHash,
+          publicKey: secp256k1.derivePublicKeyCompressed(privKey),
+          signature: secp256k1.signMessageHashSchnorr(privKey, messageHash),
+        };
+      });
+      result = false;
+    };
+    nextCycle();
+    s.bench('secp256k1.verifySignatureSchnorr (each signature)', () => {
+      result = batch.every(({ messageHash, publicKey, signature }) =>
+        secp256k1.verifySignatureSchnorr(signature, publicKey, messageHash)
+      );
+    });
+    s.bench('secp256k1.verifySignatureSchnorrBatch', () => {
+      result = secp256k1.verifySignatureSchnorrBatch(batch);
+    });
+    s.bench('secp256k1Fallback.verifySignatureSchnorr (each signature)', () => {
+      result = batch.every(({ messageHash, publicKey, signature }) =>
+        secp256k1Fallback.verifySignatureSchnorr(
+          signature,
+          publicKey,
+          messageHash
+        )
+      );
+    });
+    s.bench('secp256k1Fallback.verifySignatureSchnorrBatch', () => {
+      result = secp256k1Fallback.verifySignatureSchnorrBatch(batch);
+    });
+    s.cycle(() => {
+      t.true(result);
+      nextCycle();
+    });
+  });
+});
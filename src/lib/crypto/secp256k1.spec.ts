@@ -10,6 +10,7 @@ import * as fc from 'fast-check';
 import * as secp256k1Node from 'secp256k1';
 
 import {
+  createSignatureBatchSchnorr,
   getEmbeddedSecp256k1Binary,
   instantiateSecp256k1,
   instantiateSecp256k1Bytes,
@@ -1236,3 +1237,53 @@ test('[crypto] secp256k1.verifySchnorr', async (t) => {
   const sig6 = Uint8Array.from([0x2a, 0x29, 0x8d, 0xac, 0xae, 0x57, 0x39, 0x5a, 0x15, 0xd0, 0x79, 0x5d, 0xdb, 0xfd, 0x1d, 0xcb, 0x56, 0x4d, 0xa8, 0x2b, 0x0f, 0x26, 0x9b, 0xc7, 0x0a, 0x74, 0xf8, 0x22, 0x04, 0x29, 0xba, 0x1d, 0xfa, 0x16, 0xae, 0xe0, 0x66, 0x09, 0x28, 0x0a, 0x19, 0xb6, 0x7a, 0x24, 0xe1, 0x97, 0x7e, 0x46, 0x97, 0x71, 0x2b, 0x5f, 0xd2, 0x94, 0x39, 0x14, 0xec, 0xd5, 0xf7, 0x30, 0x90, 0x1b, 0x4a, 0xb7]);
   t.is(secp256k1.verifySignatureSchnorr(sig6, pk6, msg6), false);
 });
+
+test('[crypto] secp256k1.verifySignatureSchnorrBatch', async (t) => {
+  const secp256k1 = await secp256k1Promise;
+  const valid = {
+    messageHash: schnorrMsgHash,
+    publicKey: pubkeyCompressed,
+    signature: sigSchnorr,
+  };
+  const uncompressed = { ...valid, publicKey: pubkeyUncompressed };
+  const invalid = { ...valid, signature: sigSchnorr.slice().fill(0, 6, 7) };
+  t.true(secp256k1.verifySignatureSchnorrBatch([]));
+  t.true(secp256k1.verifySignatureSchnorrBatch([valid, uncompressed, valid]));
+  t.false(secp256k1.verifySignatureSchnorrBatch([valid, invalid, valid]));
+  t.false(
+    secp256k1.verifySignatureSchnorrBatch([
+      { ...valid, publicKey: pubkeyCompressed.slice().fill(0, 0, 1) },
+    ])
+  );
+});
+
+test('[crypto] createSignatureBatchSchnorr', async (t) => {
+  const secp256k1 = await secp256k1Promise;
+  const batch = createSignatureBatchSchnorr(secp256k1);
+  const invalidSig = sigSchnorr.slice().fill(0, 6, 7);
+  t.true(batch.verify());
+  t.true(
+    batch.secp256k1.verifySignatureSchnorr(
+      sigSchnorr,
+      pubkeyCompressed,
+      schnorrMsgHash
+    )
+  );
+  t.true(batch.verify());
+  t.true(
+    batch.secp256k1.verifySignatureSchnorr(
+      invalidSig,
+      pubkeyCompressed,
+      schnorrMsgHash
+    )
+  );
+  t.false(batch.verify());
+  t.true(batch.verify());
+  t.true(
+    batch.secp256k1.verifySignatureDERLowS(
+      sigDER,
+      pubkeyCompressed,
+      messageHash
+    )
+  );
+});
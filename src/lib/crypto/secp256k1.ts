@@ -4,16 +4,31 @@ import {
   ContextFlag,
   instantiateSecp256k1Wasm,
   instantiateSecp256k1WasmBytes,
+  instantiateWasmOrFallback,
   Secp256k1Wasm,
 } from '../bin/bin';
 
-import { RecoverableSignature, RecoveryId, Secp256k1 } from './secp256k1-types';
-
-export { RecoverableSignature, RecoveryId, Secp256k1 };
+import { secp256k1Fallback } from './secp256k1-fallback';
+import {
+  RecoverableSignature,
+  RecoveryId,
+  Secp256k1,
+  SignatureBatchSchnorr,
+  SignatureVerificationSchnorr,
+} from './secp256k1-types';
+
+export {
+  RecoverableSignature,
+  RecoveryId,
+  Secp256k1,
+  SignatureBatchSchnorr,
+  SignatureVerificationSchnorr,
+};
 
 const enum ByteLength {
   compactSig = 64,
   compressedPublicKey = 33,
+  extraEntropy = 32,
   internalPublicKey = 64,
   internalSig = 64,
   maxPublicKey = 65,
@@ -62,6 +77,7 @@ const wrapSecp256k1Wasm = (
   const internalSigPtr = secp256k1Wasm.malloc(ByteLength.internalSig);
   const schnorrSigPtr = secp256k1Wasm.malloc(ByteLength.schnorrSig);
   const privateKeyPtr = secp256k1Wasm.malloc(ByteLength.privateKey);
+  const nonceDataPtr = secp256k1Wasm.malloc(ByteLength.extraEntropy);
 
   const internalRSigPtr = secp256k1Wasm.malloc(ByteLength.recoverableSig);
   // eslint-disable-next-line @typescript-eslint/no-magic-numbers
@@ -218,6 +234,24 @@ const wrapSecp256k1Wasm = (
     return getSerializedPublicKey(compressed);
   };
 
+  /**
+   * Returns the `nonceDataPtr` to use in signing: `0` if `extraEntropy` is not
+   * provided, otherwise a pointer to a copy of `extraEntropy`. Throws if
+   * `extraEntropy` is not exactly 32 bytes.
+   */
+  const fillNonceDataPtr = (extraEntropy?: Uint8Array) => {
+    if (extraEntropy === undefined) {
+      return 0;
+    }
+    if (extraEntropy.length !== ByteLength.extraEntropy) {
+      throw new Error(
+        'Failed to sign message hash. The extra entropy must be 32 bytes.'
+      );
+    }
+    secp256k1Wasm.heapU8.set(extraEntropy, nonceDataPtr);
+    return nonceDataPtr;
+  };
+
   const fillMessageHashScratch = (messageHash: Uint8Array) => {
     secp256k1Wasm.heapU8.set(messageHash, messageHashScratch);
   };
@@ -261,8 +295,10 @@ const wrapSecp256k1Wasm = (
 
   const signMessageHash = (isDer: boolean) => (
     privateKey: Uint8Array,
-    messageHash: Uint8Array
+    messageHash: Uint8Array,
+    extraEntropy?: Uint8Array
   ) => {
+    const extraEntropyPtr = fillNonceDataPtr(extraEntropy);
     fillMessageHashScratch(messageHash);
     return withPrivateKey<Uint8Array>(privateKey, () => {
       const failed =
@@ -270,7 +306,8 @@ const wrapSecp256k1Wasm = (
           contextPtr,
           internalSigPtr,
           messageHashScratch,
-          privateKeyPtr
+          privateKeyPtr,
+          extraEntropyPtr
         ) !== 1;
 
       if (failed) {
@@ -302,8 +339,10 @@ const wrapSecp256k1Wasm = (
 
   const signMessageHashSchnorr = () => (
     privateKey: Uint8Array,
-    messageHash: Uint8Array
+    messageHash: Uint8Array,
+    extraEntropy?: Uint8Array
   ) => {
+    const extraEntropyPtr = fillNonceDataPtr(extraEntropy);
     fillMessageHashScratch(messageHash);
     return withPrivateKey<Uint8Array>(privateKey, () => {
       const failed =
@@ -311,7 +350,8 @@ const wrapSecp256k1Wasm = (
           contextPtr,
           schnorrSigPtr,
           messageHashScratch,
-          privateKeyPtr
+          privateKeyPtr,
+          extraEntropyPtr
         ) !== 1;
 
       if (failed) {
@@ -372,10 +412,19 @@ const wrapSecp256k1Wasm = (
       ? verifyMessageSchnorr(messageHash, signature)
       : false;
 
+  const verifySignatureSchnorrBatch = (
+    batch: readonly SignatureVerificationSchnorr[]
+  ) =>
+    batch.every(({ messageHash, publicKey, signature }) =>
+      verifySignatureSchnorr()(signature, publicKey, messageHash)
+    );
+
   const signMessageHashRecoverable = (
     privateKey: Uint8Array,
-    messageHash: Uint8Array
+    messageHash: Uint8Array,
+    extraEntropy?: Uint8Array
   ): RecoverableSignature => {
+    const extraEntropyPtr = fillNonceDataPtr(extraEntropy);
     fillMessageHashScratch(messageHash);
     return withPrivateKey<RecoverableSignature>(privateKey, () => {
       if (
@@ -383,7 +432,8 @@ const wrapSecp256k1Wasm = (
           contextPtr,
           internalRSigPtr,
           messageHashScratch,
-          privateKeyPtr
+          privateKeyPtr,
+          extraEntropyPtr
         ) !== 1
       ) {
         throw new Error(
@@ -580,6 +630,46 @@ const wrapSecp256k1Wasm = (
     verifySignatureDER: verifySignature(true, true),
     verifySignatureDERLowS: verifySignature(true, false),
     verifySignatureSchnorr: verifySignatureSchnorr(),
+    verifySignatureSchnorrBatch,
+  };
+};
+
+/**
+ * Create a batch of deferred Schnorr signature verifications from a
+ * `Secp256k1` object.
+ *
+ * The returned `secp256k1` object queues each Schnorr signature verification
+ * rather than performing it (reporting every signature as valid), and `verify`
+ * later verifies the full queue with `verifySignatureSchnorrBatch`. This allows
+ * the Schnorr signatures checked while evaluating many inputs of a transaction
+ * (or many transactions) to be verified together.
+ *
+ * Deferral is only safe for virtual machines in which an invalid, non-empty
+ * signature always causes evaluation to fail (e.g. BCH with the `NULLFAIL`
+ * requirement). In such virtual machines, the result of a signature check
+ * cannot otherwise affect evaluation, so a program which succeeds with
+ * deferred verification is valid if and only if `verify` returns `true`.
+ *
+ * Note, the batch is not safe to share between concurrent verifications.
+ *
+ * @param secp256k1 - the `Secp256k1` object used to verify the batch
+ */
+export const createSignatureBatchSchnorr = (
+  secp256k1: Secp256k1
+): SignatureBatchSchnorr => {
+  const queue: SignatureVerificationSchnorr[] = [];
+  return {
+    secp256k1: {
+      ...secp256k1,
+      verifySignatureSchnorr: (signature, publicKey, messageHash) => {
+        // eslint-disable-next-line functional/immutable-data
+        queue.push({ messageHash, publicKey, signature });
+        return true;
+      },
+    },
+    verify: () =>
+      // eslint-disable-next-line functional/immutable-data
+      secp256k1.verifySignatureSchnorrBatch(queue.splice(0, queue.length)),
   };
 };
 
@@ -627,16 +717,7 @@ export const instantiateSecp256k1Bytes = async (
 
 const cachedSecp256k1: { cache?: Promise<Secp256k1> } = {};
 
-/**
- * Create and wrap a Secp256k1 WebAssembly instance to expose a set of
- * purely-functional Secp256k1 methods. For slightly faster initialization, use
- * `instantiateSecp256k1Bytes`.
- *
- * @param randomSeed - a 32-byte random seed used to randomize the secp256k1
- * context after creation. See the description in `instantiateSecp256k1Bytes`
- * for details.
- */
-export const instantiateSecp256k1 = async (
+const instantiateSecp256k1WasmCached = async (
   randomSeed?: Uint8Array
 ): Promise<Secp256k1> => {
   if (cachedSecp256k1.cache !== undefined) {
@@ -649,3 +730,32 @@ export const instantiateSecp256k1 = async (
   cachedSecp256k1.cache = result;
   return result;
 };
+
+/**
+ * Create and wrap a Secp256k1 WebAssembly instance to expose a set of
+ * purely-functional Secp256k1 methods. For slightly faster initialization, use
+ * `instantiateSecp256k1Bytes`.
+ *
+ * If WebAssembly is unavailable (or cannot be compiled), the pure-JavaScript
+ * `secp256k1Fallback` is used by default. The fallback is not constant-time
+ * and ignores `randomSeed`, so applications which sign with secret keys may
+ * prefer to disable it with `{ fallback: false }`, in which case the returned
+ * promise rejects if WebAssembly is unavailable. To detect which
+ * implementation was chosen, compare the result with `secp256k1Fallback`.
+ *
+ * @param randomSeed - a 32-byte random seed used to randomize the secp256k1
+ * context after creation. See the description in `instantiateSecp256k1Bytes`
+ * for details.
+ * @param options - set `fallback` to `false` to require the WebAssembly
+ * implementation (defaults to `true`)
+ */
+export const instantiateSecp256k1 = async (
+  randomSeed?: Uint8Array,
+  { fallback = true }: { fallback?: boolean } = {}
+): Promise<Secp256k1> =>
+  fallback
+    ? instantiateWasmOrFallback(
+        async () => instantiateSecp256k1WasmCached(randomSeed),
+        secp256k1Fallback
+      )
+    : instantiateSecp256k1WasmCached(randomSeed);
@@ -1,6 +1,13 @@
-import { HashFunction, instantiateRustWasm, sha1Base64Bytes } from '../bin/bin';
+import {
+  HashFunction,
+  instantiateRustWasm,
+  instantiateWasmOrFallback,
+  sha1Base64Bytes,
+} from '../bin/bin';
 import { base64ToBin } from '../format/format';
 
+import { sha1Fallback } from './hash-fallback';
+
 export interface Sha1 extends HashFunction {
   /**
    * Finish an incremental sha1 hashing computation.
@@ -85,12 +92,18 @@ const cachedSha1: { cache?: Promise<Sha1> } = {};
 /**
  * An ultimately-portable (but slower) version of `instantiateSha1Bytes`
  * which does not require the consumer to provide the sha1 binary buffer.
+ *
+ * If WebAssembly is unavailable (or cannot be compiled), the pure-JavaScript
+ * `sha1Fallback` is used.
  */
 export const instantiateSha1 = async (): Promise<Sha1> => {
   if (cachedSha1.cache !== undefined) {
     return cachedSha1.cache;
   }
-  const result = instantiateSha1Bytes(getEmbeddedSha1Binary());
+  const result = instantiateWasmOrFallback(
+    async () => instantiateSha1Bytes(getEmbeddedSha1Binary()),
+    sha1Fallback
+  );
   // eslint-disable-next-line functional/immutable-data, functional/no-expression-statement
   cachedSha1.cache = result;
   return result;
@@ -1,10 +1,13 @@
 import {
   HashFunction,
   instantiateRustWasm,
+  instantiateWasmOrFallback,
   sha256Base64Bytes,
 } from '../bin/bin';
 import { base64ToBin } from '../format/format';
 
+import { sha256Fallback } from './hash-fallback';
+
 export interface Sha256 extends HashFunction {
   /**
    * Finish an incremental sha256 hashing computation.
@@ -90,12 +93,18 @@ const cachedSha256: { cache?: Promise<Sha256> } = {};
  * An ultimately-portable (but possibly slower) version of
  * `instantiateSha256Bytes` which does not require the consumer to provide the
  * sha256 binary buffer.
+ *
+ * If WebAssembly is unavailable (or cannot be compiled), the pure-JavaScript
+ * `sha256Fallback` is used.
  */
 export const instantiateSha256 = async (): Promise<Sha256> => {
   if (cachedSha256.cache !== undefined) {
     return cachedSha256.cache;
   }
-  const result = instantiateSha256Bytes(getEmbeddedSha256Binary());
+  const result = instantiateWasmOrFallback(
+    async () => instantiateSha256Bytes(getEmbeddedSha256Binary()),
+    sha256Fallback
+  );
   // eslint-disable-next-line functional/immutable-data, functional/no-expression-statement
   cachedSha256.cache = result;
   return result;
@@ -1,10 +1,13 @@
 import {
   HashFunction,
   instantiateRustWasm,
+  instantiateWasmOrFallback,
   sha512Base64Bytes,
 } from '../bin/bin';
 import { base64ToBin } from '../format/format';
 
+import { sha512Fallback } from './hash-fallback';
+
 export interface Sha512 extends HashFunction {
   /**
    * Finish an incremental sha512 hashing computation.
@@ -89,12 +92,18 @@ const cachedSha512: { cache?: Promise<Sha512> } = {};
 /**
  * An ultimately-portable (but slower) version of `instantiateSha512Bytes`
  * which does not require the consumer to provide the sha512 binary buffer.
+ *
+ * If WebAssembly is unavailable (or cannot be compiled), the pure-JavaScript
+ * `sha512Fallback` is used.
  */
 export const instantiateSha512 = async (): Promise<Sha512> => {
   if (cachedSha512.cache !== undefined) {
     return cachedSha512.cache;
   }
-  const result = instantiateSha512Bytes(getEmbeddedSha512Binary());
+  const result = instantiateWasmOrFallback(
+    async () => instantiateSha512Bytes(getEmbeddedSha512Binary()),
+    sha512Fallback
+  );
   // eslint-disable-next-line functional/immutable-data, functional/no-expression-statement
   cachedSha512.cache = result;
   return result;
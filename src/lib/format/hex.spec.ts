@@ -3,7 +3,9 @@ import test from 'ava';
 import { fc, testProp } from 'ava-fast-check';
 
 import {
+  binsAreEqual,
   binToHex,
+  compareBin,
   hexToBin,
   isHex,
   range,
@@ -63,3 +65,23 @@ testProp(
 test('swapEndianness', (t) => {
   t.deepEqual(swapEndianness('0001022a646566ff'), 'ff6665642a020100');
 });
+
+test('binsAreEqual', (t) => {
+  t.true(binsAreEqual(hexToBin('0001ff'), hexToBin('0001ff')));
+  t.true(binsAreEqual(hexToBin(''), hexToBin('')));
+  t.false(binsAreEqual(hexToBin('0001ff'), hexToBin('0001fe')));
+  t.false(binsAreEqual(hexToBin('0001'), hexToBin('0001ff')));
+});
+
+test('compareBin', (t) => {
+  t.is(compareBin(hexToBin('0001ff'), hexToBin('0001ff')), 0);
+  t.true(compareBin(hexToBin('0001'), hexToBin('0002')) < 0);
+  t.true(compareBin(hexToBin('ff'), hexToBin('0001')) > 0);
+  t.true(compareBin(hexToBin('0001'), hexToBin('000100')) < 0);
+  t.deepEqual(
+    [hexToBin('03'), hexToBin('0201'), hexToBin('02')]
+      .sort(compareBin)
+      .map(binToHex),
+    ['02', '0201', '03']
+  );
+});
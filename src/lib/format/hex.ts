@@ -86,3 +86,25 @@ export const flattenBinArray = (array: readonly Uint8Array[]) => {
   }, 0);
   return flattened;
 };
+
+/**
+ * Determine if two `Uint8Array`s contain the same bytes.
+ * @param a - the first `Uint8Array`
+ * @param b - the second `Uint8Array`
+ */
+export const binsAreEqual = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((value, index) => value === b[index]);
+
+/**
+ * Compare two `Uint8Array`s in lexicographic order, returning a negative
+ * number if `a` sorts before `b`, a positive number if `a` sorts after `b`, and
+ * `0` if they are equal. Suitable for use with `Array.prototype.sort`.
+ * @param a - the first `Uint8Array`
+ * @param b - the second `Uint8Array`
+ */
+export const compareBin = (a: Uint8Array, b: Uint8Array) => {
+  const firstDifference = a.findIndex((value, index) => value !== b[index]);
+  return firstDifference === -1
+    ? a.length - b.length
+    : a[firstDifference] - b[firstDifference];
+};
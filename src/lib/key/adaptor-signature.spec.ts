@@ -0,0 +1,323 @@
+/* eslint-disable functional/no-expression-statement, @typescript-eslint/no-magic-numbers */
+import test from 'ava';
+
+import {
+  AdaptorSignatureError,
+  completeAdaptorSignatureECDSA,
+  completeAdaptorSignatureSchnorr,
+  createAdaptorSignatureECDSA,
+  createAdaptorSignatureSchnorr,
+  extractAdaptorSecretECDSA,
+  extractAdaptorSecretSchnorr,
+  hexToBin,
+  instantiateSecp256k1,
+  instantiateSha256,
+  verifyAdaptorSignatureECDSA,
+  verifyAdaptorSignatureSchnorr,
+} from '../lib';
+
+const cryptoPromise = (async () => {
+  const [secp256k1, sha256] = await Promise.all([
+    instantiateSecp256k1(),
+    instantiateSha256(),
+  ]);
+  return { secp256k1, sha256 };
+})();
+
+const privateKey = hexToBin(
+  'f85d4bd8a03ca106c9deb47b791803dac7f0333809e3f1dd04d182e0aba6e553'
+);
+const adaptorSecret = hexToBin(
+  '1e99423a4ed27608a15a2616a2b0e9e52ced330ac530edcc32c8ffc6a526aedd'
+);
+
+test('[key] adaptor signatures: Schnorr', async (t) => {
+  const crypto = await cryptoPromise;
+  const publicKey = crypto.secp256k1.derivePublicKeyCompressed(privateKey);
+  const adaptorPoint = crypto.secp256k1.derivePublicKeyCompressed(
+    adaptorSecret
+  );
+  [...Array(8).keys()].forEach((index) => {
+    const messageHash = crypto.sha256.hash(Uint8Array.of(index));
+    const adaptorSignature = createAdaptorSignatureSchnorr(crypto, {
+      adaptorPoint,
+      messageHash,
+      privateKey,
+    }) as Uint8Array;
+    t.is(adaptorSignature.length, 65);
+    t.deepEqual(
+      createAdaptorSignatureSchnorr(crypto, {
+        adaptorPoint,
+        messageHash,
+        privateKey,
+      }),
+      adaptorSignature
+    );
+    t.true(
+      verifyAdaptorSignatureSchnorr(crypto, {
+        adaptorPoint,
+        adaptorSignature,
+        messageHash,
+        publicKey,
+      })
+    );
+    t.false(
+      verifyAdaptorSignatureSchnorr(crypto, {
+        adaptorPoint: publicKey,
+        adaptorSignature,
+        messageHash,
+        publicKey,
+      })
+    );
+    t.false(
+      verifyAdaptorSignatureSchnorr(crypto, {
+        adaptorPoint,
+        adaptorSignature,
+        messageHash,
+        publicKey: adaptorPoint,
+      })
+    );
+    const signature = completeAdaptorSignatureSchnorr(crypto, {
+      adaptorSecret,
+      adaptorSignature,
+    }) as Uint8Array;
+    t.true(
+      crypto.secp256k1.verifySignatureSchnorr(signature, publicKey, messageHash)
+    );
+    t.deepEqual(
+      extractAdaptorSecretSchnorr(crypto, { adaptorSignature, signature }),
+      adaptorSecret
+    );
+  });
+});
+
+test('[key] adaptor signatures: Schnorr errors', async (t) => {
+  const crypto = await cryptoPromise;
+  const publicKey = crypto.secp256k1.derivePublicKeyCompressed(privateKey);
+  const adaptorPoint = crypto.secp256k1.derivePublicKeyCompressed(
+    adaptorSecret
+  );
+  const messageHash = crypto.sha256.hash(Uint8Array.of(0));
+  const adaptorSignature = createAdaptorSignatureSchnorr(crypto, {
+    adaptorPoint,
+    messageHash,
+    privateKey,
+  }) as Uint8Array;
+  t.deepEqual(
+    createAdaptorSignatureSchnorr(crypto, {
+      adaptorPoint,
+      messageHash,
+      privateKey: new Uint8Array(32),
+    }),
+    AdaptorSignatureError.invalidPrivateKey
+  );
+  t.deepEqual(
+    createAdaptorSignatureSchnorr(crypto, {
+      adaptorPoint: new Uint8Array(33),
+      messageHash,
+      privateKey,
+    }),
+    AdaptorSignatureError.invalidAdaptorPoint
+  );
+  t.false(
+    verifyAdaptorSignatureSchnorr(crypto, {
+      adaptorPoint,
+      adaptorSignature: adaptorSignature.slice(1),
+      messageHash,
+      publicKey,
+    })
+  );
+  t.deepEqual(
+    completeAdaptorSignatureSchnorr(crypto, {
+      adaptorSecret: new Uint8Array(32),
+      adaptorSignature,
+    }),
+    AdaptorSignatureError.invalidAdaptorSecret
+  );
+  t.deepEqual(
+    completeAdaptorSignatureSchnorr(crypto, {
+      adaptorSecret,
+      adaptorSignature: adaptorSignature.slice(1),
+    }),
+    AdaptorSignatureError.invalidAdaptorSignature
+  );
+  const signature = completeAdaptorSignatureSchnorr(crypto, {
+    adaptorSecret,
+    adaptorSignature,
+  }) as Uint8Array;
+  t.deepEqual(
+    extractAdaptorSecretSchnorr(crypto, {
+      adaptorSignature: adaptorSignature.slice(1),
+      signature,
+    }),
+    AdaptorSignatureError.invalidAdaptorSignature
+  );
+  t.deepEqual(
+    extractAdaptorSecretSchnorr(crypto, {
+      adaptorSignature,
+      signature: signature.slice(1),
+    }),
+    AdaptorSignatureError.invalidSignature
+  );
+  t.deepEqual(
+    extractAdaptorSecretSchnorr(crypto, {
+      adaptorSignature,
+      signature: crypto.secp256k1.signMessageHashSchnorr(
+        privateKey,
+        messageHash
+      ),
+    }),
+    AdaptorSignatureError.secretMismatch
+  );
+});
+
+test('[key] adaptor signatures: ECDSA', async (t) => {
+  const crypto = await cryptoPromise;
+  const publicKey = crypto.secp256k1.derivePublicKeyCompressed(privateKey);
+  const adaptorPoint = crypto.secp256k1.derivePublicKeyCompressed(
+    adaptorSecret
+  );
+  [...Array(8).keys()].forEach((index) => {
+    const messageHash = crypto.sha256.hash(Uint8Array.of(index));
+    const adaptorSignature = createAdaptorSignatureECDSA(crypto, {
+      adaptorPoint,
+      messageHash,
+      privateKey,
+    }) as Uint8Array;
+    t.is(adaptorSignature.length, 162);
+    t.true(
+      verifyAdaptorSignatureECDSA(crypto, {
+        adaptorPoint,
+        adaptorSignature,
+        messageHash,
+        publicKey,
+      })
+    );
+    t.false(
+      verifyAdaptorSignatureECDSA(crypto, {
+        adaptorPoint: publicKey,
+        adaptorSignature,
+        messageHash,
+        publicKey,
+      })
+    );
+    t.false(
+      verifyAdaptorSignatureECDSA(crypto, {
+        adaptorPoint,
+        adaptorSignature,
+        messageHash: crypto.sha256.hash(messageHash),
+        publicKey,
+      })
+    );
+    const signature = completeAdaptorSignatureECDSA({
+      adaptorSecret,
+      adaptorSignature,
+    }) as Uint8Array;
+    t.true(
+      crypto.secp256k1.verifySignatureCompactLowS(
+        signature,
+        publicKey,
+        messageHash
+      )
+    );
+    t.deepEqual(
+      extractAdaptorSecretECDSA(crypto, {
+        adaptorPoint,
+        adaptorSignature,
+        signature,
+      }),
+      adaptorSecret
+    );
+  });
+});
+
+test('[key] adaptor signatures: ECDSA errors', async (t) => {
+  const crypto = await cryptoPromise;
+  const publicKey = crypto.secp256k1.derivePublicKeyCompressed(privateKey);
+  const adaptorPoint = crypto.secp256k1.derivePublicKeyCompressed(
+    adaptorSecret
+  );
+  const messageHash = crypto.sha256.hash(Uint8Array.of(0));
+  const adaptorSignature = createAdaptorSignatureECDSA(crypto, {
+    adaptorPoint,
+    messageHash,
+    privateKey,
+  }) as Uint8Array;
+  t.deepEqual(
+    createAdaptorSignatureECDSA(crypto, {
+      adaptorPoint,
+      messageHash,
+      privateKey: new Uint8Array(32),
+    }),
+    AdaptorSignatureError.invalidPrivateKey
+  );
+  t.deepEqual(
+    createAdaptorSignatureECDSA(crypto, {
+      adaptorPoint: new Uint8Array(33),
+      messageHash,
+      privateKey,
+    }),
+    AdaptorSignatureError.invalidAdaptorPoint
+  );
+  const tamperedProof = adaptorSignature.slice();
+  // eslint-disable-next-line functional/immutable-data
+  tamperedProof[161] ^= 1; // eslint-disable-line no-bitwise
+  t.false(
+    verifyAdaptorSignatureECDSA(crypto, {
+      adaptorPoint,
+      adaptorSignature: tamperedProof,
+      messageHash,
+      publicKey,
+    })
+  );
+  t.false(
+    verifyAdaptorSignatureECDSA(crypto, {
+      adaptorPoint,
+      adaptorSignature: adaptorSignature.slice(1),
+      messageHash,
+      publicKey,
+    })
+  );
+  t.deepEqual(
+    completeAdaptorSignatureECDSA({
+      adaptorSecret: new Uint8Array(32),
+      adaptorSignature,
+    }),
+    AdaptorSignatureError.invalidAdaptorSecret
+  );
+  t.deepEqual(
+    completeAdaptorSignatureECDSA({
+      adaptorSecret,
+      adaptorSignature: adaptorSignature.slice(1),
+    }),
+    AdaptorSignatureError.invalidAdaptorSignature
+  );
+  const signature = completeAdaptorSignatureECDSA({
+    adaptorSecret,
+    adaptorSignature,
+  }) as Uint8Array;
+  t.deepEqual(
+    extractAdaptorSecretECDSA(crypto, {
+      adaptorPoint,
+      adaptorSignature: adaptorSignature.slice(1),
+      signature,
+    }),
+    AdaptorSignatureError.invalidAdaptorSignature
+  );
+  t.deepEqual(
+    extractAdaptorSecretECDSA(crypto, {
+      adaptorPoint,
+      adaptorSignature,
+      signature: new Uint8Array(64),
+    }),
+    AdaptorSignatureError.invalidSignature
+  );
+  t.deepEqual(
+    extractAdaptorSecretECDSA(crypto, {
+      adaptorPoint: publicKey,
+      adaptorSignature,
+      signature,
+    }),
+    AdaptorSignatureError.secretMismatch
+  );
+});
@@ -0,0 +1,667 @@
+import {
+  addPointsSecp256k1,
+  decodePointSecp256k1,
+  encodePointSecp256k1,
+  isQuadraticResidueSecp256k1,
+  modularInverse,
+  modulo,
+  negatePublicKeyCompressed,
+  PointSecp256k1,
+  Secp256k1,
+  secp256k1Order,
+  Sha256,
+} from '../crypto/crypto';
+import {
+  bigIntToBinUint256BEClamped,
+  binsAreEqual,
+  binToBigIntUint256BE,
+  flattenBinArray,
+  numberToBinUint32LE,
+} from '../format/format';
+import { taggedHash } from '../vm/vm';
+
+import { validateSecp256k1PrivateKey } from './key-utils';
+
+export enum AdaptorSignatureError {
+  invalidPrivateKey = 'Adaptor signature error: the private key is not a valid Secp256k1 private key.',
+  invalidAdaptorPoint = 'Adaptor signature error: the adaptor point is not a valid, compressed Secp256k1 public key.',
+  invalidAdaptorSecret = 'Adaptor signature error: the adaptor secret is not a valid Secp256k1 private key.',
+  invalidAdaptorSignature = 'Adaptor signature error: the adaptor signature is not correctly encoded.',
+  invalidSignature = 'Adaptor signature error: the signature is not correctly encoded.',
+  secretMismatch = 'Adaptor signature error: the signature was not completed from the provided adaptor signature.',
+}
+
+const enum Internal {
+  compressedPublicKeyLength = 33,
+  adaptorSignatureSchnorrLength = 65,
+  adaptorSignatureECDSALength = 162,
+  scalarLength = 32,
+  signatureLength = 64,
+}
+
+type Crypto = {
+  secp256k1: {
+    derivePublicKeyCompressed: Secp256k1['derivePublicKeyCompressed'];
+    mulTweakPublicKeyCompressed: Secp256k1['mulTweakPublicKeyCompressed'];
+  };
+  sha256: { hash: Sha256['hash'] };
+};
+
+const hashToScalar = (
+  sha256: { hash: Sha256['hash'] },
+  tag: string,
+  data: Uint8Array
+) => binToBigIntUint256BE(taggedHash(sha256, tag, data)) % secp256k1Order;
+
+const toScalar = (value: bigint) =>
+  bigIntToBinUint256BEClamped(modulo(value, secp256k1Order));
+
+/**
+ * Compute `a + b`, where `a` and `b` are compressed public keys. Returns
+ * `undefined` if the result is the point at infinity.
+ */
+const addPublicKeys = (a: Uint8Array, b: Uint8Array) => {
+  const sum = addPointsSecp256k1(
+    decodePointSecp256k1(a),
+    decodePointSecp256k1(b)
+  );
+  return sum === undefined ? undefined : encodePointSecp256k1(sum);
+};
+
+/**
+ * Derive a deterministic nonce which satisfies `isValid`, incrementing a
+ * counter until a valid nonce is found.
+ */
+const deriveNonce = <T>(
+  sha256: { hash: Sha256['hash'] },
+  tag: string,
+  data: Uint8Array,
+  attempt: (nonce: Uint8Array) => T | undefined,
+  counter = 0
+): T => {
+  const nonce = toScalar(
+    hashToScalar(
+      sha256,
+      tag,
+      flattenBinArray([data, numberToBinUint32LE(counter)])
+    )
+  );
+  const result = validateSecp256k1PrivateKey(nonce)
+    ? attempt(nonce)
+    : undefined;
+  return result === undefined
+    ? deriveNonce(sha256, tag, data, attempt, counter + 1)
+    : result;
+};
+
+/**
+ * Compute the BCH Schnorr challenge, `sha256(R.x || P || m)`.
+ */
+const challengeSchnorr = (
+  sha256: { hash: Sha256['hash'] },
+  nonce: Uint8Array,
+  publicKey: Uint8Array,
+  messageHash: Uint8Array
+) =>
+  binToBigIntUint256BE(
+    sha256.hash(flattenBinArray([nonce.slice(1), publicKey, messageHash]))
+  ) % secp256k1Order;
+
+/**
+ * Compute the final nonce of a Schnorr adaptor signature (`R' + T`), returning
+ * `undefined` if it is invalid for a BCH Schnorr signature.
+ */
+const finalNonceSchnorr = (
+  adaptorNonce: Uint8Array,
+  adaptorPoint: Uint8Array
+) => {
+  const point = addPointsSecp256k1(
+    decodePointSecp256k1(adaptorNonce),
+    decodePointSecp256k1(adaptorPoint)
+  );
+  return point === undefined || !isQuadraticResidueSecp256k1(point.y)
+    ? undefined
+    : encodePointSecp256k1(point);
+};
+
+/**
+ * Create a BCH Schnorr adaptor signature (also called a "pre-signature") for
+ * `messageHash` using `privateKey`, encrypted to `adaptorPoint`.
+ *
+ * The adaptor signature is 65 bytes: the compressed adaptor nonce (`R'`)
+ * followed by the 32-byte adaptor `s'` value. Anyone who knows the secret
+ * (`t`) of the adaptor point (`T = t⋅G`) can complete it into a valid BCH
+ * Schnorr signature (with `completeAdaptorSignatureSchnorr`), and anyone who
+ * holds both the adaptor signature and the completed signature can extract
+ * the secret (with `extractAdaptorSecretSchnorr`).
+ *
+ * Nonces are derived deterministically from the private key, message hash,
+ * and adaptor point.
+ *
+ * @param crypto - implementations of sha256 and secp256k1
+ * @param adaptorPoint - the compressed adaptor point, `T`
+ * @param messageHash - the 32-byte message hash to sign
+ * @param privateKey - the private key with which to sign
+ */
+export const createAdaptorSignatureSchnorr = (
+  crypto: Crypto,
+  {
+    adaptorPoint,
+    messageHash,
+    privateKey,
+  }: {
+    adaptorPoint: Uint8Array;
+    messageHash: Uint8Array;
+    privateKey: Uint8Array;
+  }
+) => {
+  if (!validateSecp256k1PrivateKey(privateKey)) {
+    return AdaptorSignatureError.invalidPrivateKey;
+  }
+  if (decodePointSecp256k1(adaptorPoint) === undefined) {
+    return AdaptorSignatureError.invalidAdaptorPoint;
+  }
+  const publicKey = crypto.secp256k1.derivePublicKeyCompressed(privateKey);
+  return deriveNonce(
+    crypto.sha256,
+    'BCHSchnorrAdaptor/nonce',
+    flattenBinArray([privateKey, messageHash, adaptorPoint]),
+    (nonce) => {
+      const adaptorNonce = crypto.secp256k1.derivePublicKeyCompressed(nonce);
+      const finalNonce = finalNonceSchnorr(adaptorNonce, adaptorPoint);
+      if (finalNonce === undefined) {
+        return undefined;
+      }
+      const e = challengeSchnorr(
+        crypto.sha256,
+        finalNonce,
+        publicKey,
+        messageHash
+      );
+      return flattenBinArray([
+        adaptorNonce,
+        toScalar(
+          binToBigIntUint256BE(nonce) + e * binToBigIntUint256BE(privateKey)
+        ),
+      ]);
+    }
+  );
+};
+
+/**
+ * Verify a BCH Schnorr adaptor signature created by
+ * `createAdaptorSignatureSchnorr`. If `true`, completing the adaptor
+ * signature with the secret of `adaptorPoint` produces a valid signature
+ * for `messageHash` by `publicKey`.
+ *
+ * @param crypto - implementations of sha256 and secp256k1
+ * @param adaptorPoint - the compressed adaptor point, `T`
+ * @param adaptorSignature - the 65-byte adaptor signature
+ * @param messageHash - the 32-byte message hash
+ * @param publicKey - the compressed public key of the signer
+ */
+export const verifyAdaptorSignatureSchnorr = (
+  crypto: Crypto,
+  {
+    adaptorPoint,
+    adaptorSignature,
+    messageHash,
+    publicKey,
+  }: {
+    adaptorPoint: Uint8Array;
+    adaptorSignature: Uint8Array;
+    messageHash: Uint8Array;
+    publicKey: Uint8Array;
+  }
+) => {
+  if (adaptorSignature.length !== Internal.adaptorSignatureSchnorrLength) {
+    return false;
+  }
+  const adaptorNonce = adaptorSignature.slice(
+    0,
+    Internal.compressedPublicKeyLength
+  );
+  const s = adaptorSignature.slice(Internal.compressedPublicKeyLength);
+  const finalNonce = finalNonceSchnorr(adaptorNonce, adaptorPoint);
+  if (finalNonce === undefined || !validateSecp256k1PrivateKey(s)) {
+    return false;
+  }
+  const e = challengeSchnorr(crypto.sha256, finalNonce, publicKey, messageHash);
+  // eslint-disable-next-line functional/no-try-statement
+  try {
+    const expected = addPublicKeys(
+      adaptorNonce,
+      crypto.secp256k1.mulTweakPublicKeyCompressed(publicKey, toScalar(e))
+    );
+    return (
+      expected !== undefined &&
+      binsAreEqual(expected, crypto.secp256k1.derivePublicKeyCompressed(s))
+    );
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Complete a BCH Schnorr adaptor signature using the secret of its adaptor
+ * point, producing a 64-byte BCH Schnorr signature (which can be verified with
+ * `Secp256k1.verifySignatureSchnorr` or `OP_CHECKDATASIG`).
+ *
+ * Note, this method does not verify the adaptor signature (see
+ * `verifyAdaptorSignatureSchnorr`).
+ *
+ * @param crypto - an implementation of secp256k1
+ * @param adaptorSecret - the 32-byte secret of the adaptor point, `t`
+ * @param adaptorSignature - the 65-byte adaptor signature
+ */
+export const completeAdaptorSignatureSchnorr = (
+  crypto: {
+    secp256k1: {
+      derivePublicKeyCompressed: Secp256k1['derivePublicKeyCompressed'];
+    };
+  },
+  {
+    adaptorSecret,
+    adaptorSignature,
+  }: {
+    adaptorSecret: Uint8Array;
+    adaptorSignature: Uint8Array;
+  }
+) => {
+  if (!validateSecp256k1PrivateKey(adaptorSecret)) {
+    return AdaptorSignatureError.invalidAdaptorSecret;
+  }
+  if (adaptorSignature.length !== Internal.adaptorSignatureSchnorrLength) {
+    return AdaptorSignatureError.invalidAdaptorSignature;
+  }
+  const finalNonce = finalNonceSchnorr(
+    adaptorSignature.slice(0, Internal.compressedPublicKeyLength),
+    crypto.secp256k1.derivePublicKeyCompressed(adaptorSecret)
+  );
+  if (finalNonce === undefined) {
+    return AdaptorSignatureError.invalidAdaptorSignature;
+  }
+  return flattenBinArray([
+    finalNonce.slice(1),
+    toScalar(
+      binToBigIntUint256BE(
+        adaptorSignature.slice(Internal.compressedPublicKeyLength)
+      ) + binToBigIntUint256BE(adaptorSecret)
+    ),
+  ]);
+};
+
+/**
+ * Extract the 32-byte adaptor secret, `t`, from a BCH Schnorr adaptor signature
+ * and the signature completed from it.
+ *
+ * @param crypto - an implementation of secp256k1
+ * @param adaptorSignature - the 65-byte adaptor signature
+ * @param signature - the 64-byte BCH Schnorr signature completed from
+ * `adaptorSignature`
+ */
+export const extractAdaptorSecretSchnorr = (
+  crypto: {
+    secp256k1: {
+      derivePublicKeyCompressed: Secp256k1['derivePublicKeyCompressed'];
+    };
+  },
+  {
+    adaptorSignature,
+    signature,
+  }: {
+    adaptorSignature: Uint8Array;
+    signature: Uint8Array;
+  }
+) => {
+  if (adaptorSignature.length !== Internal.adaptorSignatureSchnorrLength) {
+    return AdaptorSignatureError.invalidAdaptorSignature;
+  }
+  if (signature.length !== Internal.signatureLength) {
+    return AdaptorSignatureError.invalidSignature;
+  }
+  const secret = toScalar(
+    binToBigIntUint256BE(signature.slice(Internal.scalarLength)) -
+      binToBigIntUint256BE(
+        adaptorSignature.slice(Internal.compressedPublicKeyLength)
+      )
+  );
+  if (!validateSecp256k1PrivateKey(secret)) {
+    return AdaptorSignatureError.secretMismatch;
+  }
+  const finalNonce = finalNonceSchnorr(
+    adaptorSignature.slice(0, Internal.compressedPublicKeyLength),
+    crypto.secp256k1.derivePublicKeyCompressed(secret)
+  );
+  return finalNonce !== undefined &&
+    binsAreEqual(finalNonce.slice(1), signature.slice(0, Internal.scalarLength))
+    ? secret
+    : AdaptorSignatureError.secretMismatch;
+};
+
+/**
+ * Compute the challenge of the discrete logarithm equality proof included in
+ * ECDSA adaptor signatures.
+ */
+const challengeDleq = (
+  sha256: { hash: Sha256['hash'] },
+  points: Uint8Array[]
+) => hashToScalar(sha256, 'ECDSAAdaptor/dleq', flattenBinArray(points));
+
+/**
+ * Decode an ECDSA adaptor signature into its component parts.
+ */
+const decodeAdaptorSignatureECDSA = (adaptorSignature: Uint8Array) => {
+  const [nonce, adaptorNonce] = [0, 1].map((index) =>
+    adaptorSignature.slice(
+      index * Internal.compressedPublicKeyLength,
+      (index + 1) * Internal.compressedPublicKeyLength
+    )
+  );
+  const [s, proofChallenge, proofResponse] = [0, 1, 2].map((index) =>
+    adaptorSignature.slice(
+      Internal.compressedPublicKeyLength * 2 + index * Internal.scalarLength,
+      Internal.compressedPublicKeyLength * 2 +
+        (index + 1) * Internal.scalarLength
+    )
+  );
+  return { adaptorNonce, nonce, proofChallenge, proofResponse, s };
+};
+
+/**
+ * Create an ECDSA adaptor signature (also called a "pre-signature") for
+ * `messageHash` using `privateKey`, encrypted to `adaptorPoint`.
+ *
+ * The adaptor signature is 162 bytes:
+ * - the compressed final nonce, `R = k⋅T` (33 bytes),
+ * - the compressed adaptor nonce, `R' = k⋅G` (33 bytes),
+ * - the adaptor `s'` value (32 bytes), and
+ * - a discrete logarithm equality proof that `R` and `R'` share the same
+ * nonce, `k` (64 bytes: a challenge and a response).
+ *
+ * Anyone who knows the secret (`t`) of the adaptor point (`T = t⋅G`) can
+ * complete it into a valid, low-S ECDSA signature (with
+ * `completeAdaptorSignatureECDSA`), and anyone who holds both the adaptor
+ * signature and the completed signature can extract the secret (with
+ * `extractAdaptorSecretECDSA`).
+ *
+ * Nonces are derived deterministically from the private key, message hash,
+ * and adaptor point.
+ *
+ * @param crypto - implementations of sha256 and secp256k1
+ * @param adaptorPoint - the compressed adaptor point, `T`
+ * @param messageHash - the 32-byte message hash to sign
+ * @param privateKey - the private key with which to sign
+ */
+export const createAdaptorSignatureECDSA = (
+  crypto: Crypto,
+  {
+    adaptorPoint,
+    messageHash,
+    privateKey,
+  }: {
+    adaptorPoint: Uint8Array;
+    messageHash: Uint8Array;
+    privateKey: Uint8Array;
+  }
+) => {
+  if (!validateSecp256k1PrivateKey(privateKey)) {
+    return AdaptorSignatureError.invalidPrivateKey;
+  }
+  if (decodePointSecp256k1(adaptorPoint) === undefined) {
+    return AdaptorSignatureError.invalidAdaptorPoint;
+  }
+  const m = binToBigIntUint256BE(messageHash);
+  const x = binToBigIntUint256BE(privateKey);
+  return deriveNonce(
+    crypto.sha256,
+    'ECDSAAdaptor/nonce',
+    flattenBinArray([privateKey, messageHash, adaptorPoint]),
+    (nonce) => {
+      const k = binToBigIntUint256BE(nonce);
+      const finalNonce = crypto.secp256k1.mulTweakPublicKeyCompressed(
+        adaptorPoint,
+        nonce
+      );
+      const adaptorNonce = crypto.secp256k1.derivePublicKeyCompressed(nonce);
+      const r = binToBigIntUint256BE(finalNonce.slice(1)) % secp256k1Order;
+      const s = modulo(
+        modularInverse(k, secp256k1Order) * (m + r * x),
+        secp256k1Order
+      );
+      if (r === BigInt(0) || s === BigInt(0)) {
+        return undefined;
+      }
+      return deriveNonce(
+        crypto.sha256,
+        'ECDSAAdaptor/dleq-nonce',
+        flattenBinArray([nonce, finalNonce, adaptorNonce]),
+        (proofNonce) => {
+          const challenge = challengeDleq(crypto.sha256, [
+            adaptorPoint,
+            adaptorNonce,
+            finalNonce,
+            crypto.secp256k1.derivePublicKeyCompressed(proofNonce),
+            crypto.secp256k1.mulTweakPublicKeyCompressed(
+              adaptorPoint,
+              proofNonce
+            ),
+          ]);
+          return flattenBinArray([
+            finalNonce,
+            adaptorNonce,
+            toScalar(s),
+            toScalar(challenge),
+            toScalar(binToBigIntUint256BE(proofNonce) + challenge * k),
+          ]);
+        }
+      );
+    }
+  );
+};
+
+/**
+ * Verify an ECDSA adaptor signature created by `createAdaptorSignatureECDSA`.
+ * If `true`, completing the adaptor signature with the secret of
+ * `adaptorPoint` produces a valid signature for `messageHash` by `publicKey`.
+ *
+ * @param crypto - implementations of sha256 and secp256k1
+ * @param adaptorPoint - the compressed adaptor point, `T`
+ * @param adaptorSignature - the 162-byte adaptor signature
+ * @param messageHash - the 32-byte message hash
+ * @param publicKey - the compressed public key of the signer
+ */
+export const verifyAdaptorSignatureECDSA = (
+  crypto: Crypto,
+  {
+    adaptorPoint,
+    adaptorSignature,
+    messageHash,
+    publicKey,
+  }: {
+    adaptorPoint: Uint8Array;
+    adaptorSignature: Uint8Array;
+    messageHash: Uint8Array;
+    publicKey: Uint8Array;
+  }
+) => {
+  if (adaptorSignature.length !== Internal.adaptorSignatureECDSALength) {
+    return false;
+  }
+  const {
+    adaptorNonce,
+    nonce,
+    proofChallenge,
+    proofResponse,
+    s,
+  } = decodeAdaptorSignatureECDSA(adaptorSignature);
+  const r = binToBigIntUint256BE(nonce.slice(1)) % secp256k1Order;
+  const m = binToBigIntUint256BE(messageHash) % secp256k1Order;
+  if (
+    [adaptorPoint, adaptorNonce, nonce, publicKey].some(
+      (point) => decodePointSecp256k1(point) === undefined
+    ) ||
+    [s, proofChallenge, proofResponse].some(
+      (scalar) => !validateSecp256k1PrivateKey(scalar)
+    ) ||
+    r === BigInt(0)
+  ) {
+    return false;
+  }
+  // eslint-disable-next-line functional/no-try-statement
+  try {
+    /**
+     * Verify the discrete logarithm equality proof:
+     * `A1 = z⋅G - e⋅R'` and `A2 = z⋅T - e⋅R`
+     */
+    const commitments = [
+      addPublicKeys(
+        crypto.secp256k1.derivePublicKeyCompressed(proofResponse),
+        crypto.secp256k1.mulTweakPublicKeyCompressed(
+          negatePublicKeyCompressed(adaptorNonce),
+          proofChallenge
+        )
+      ),
+      addPublicKeys(
+        crypto.secp256k1.mulTweakPublicKeyCompressed(
+          adaptorPoint,
+          proofResponse
+        ),
+        crypto.secp256k1.mulTweakPublicKeyCompressed(
+          negatePublicKeyCompressed(nonce),
+          proofChallenge
+        )
+      ),
+    ];
+    if (
+      commitments.some((commitment) => commitment === undefined) ||
+      challengeDleq(crypto.sha256, [
+        adaptorPoint,
+        adaptorNonce,
+        nonce,
+        ...(commitments as Uint8Array[]),
+      ]) !== binToBigIntUint256BE(proofChallenge)
+    ) {
+      return false;
+    }
+    /**
+     * Verify the adaptor signature: `s'⋅R' = m⋅G + r⋅P`
+     */
+    const rP = decodePointSecp256k1(
+      crypto.secp256k1.mulTweakPublicKeyCompressed(publicKey, toScalar(r))
+    );
+    const expected: PointSecp256k1 =
+      m === BigInt(0)
+        ? rP
+        : addPointsSecp256k1(
+            decodePointSecp256k1(
+              crypto.secp256k1.derivePublicKeyCompressed(toScalar(m))
+            ),
+            rP
+          );
+    return (
+      expected !== undefined &&
+      binsAreEqual(
+        encodePointSecp256k1(expected),
+        crypto.secp256k1.mulTweakPublicKeyCompressed(adaptorNonce, s)
+      )
+    );
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Complete an ECDSA adaptor signature using the secret of its adaptor point,
+ * producing a 64-byte, low-S, compact ECDSA signature (which can be verified
+ * with `Secp256k1.verifySignatureCompactLowS`, or converted to DER encoding
+ * with `Secp256k1.signatureCompactToDER`).
+ *
+ * Note, this method does not verify the adaptor signature (see
+ * `verifyAdaptorSignatureECDSA`).
+ *
+ * @param adaptorSecret - the 32-byte secret of the adaptor point, `t`
+ * @param adaptorSignature - the 162-byte adaptor signature
+ */
+export const completeAdaptorSignatureECDSA = ({
+  adaptorSecret,
+  adaptorSignature,
+}: {
+  adaptorSecret: Uint8Array;
+  adaptorSignature: Uint8Array;
+}) => {
+  if (!validateSecp256k1PrivateKey(adaptorSecret)) {
+    return AdaptorSignatureError.invalidAdaptorSecret;
+  }
+  if (adaptorSignature.length !== Internal.adaptorSignatureECDSALength) {
+    return AdaptorSignatureError.invalidAdaptorSignature;
+  }
+  const { nonce, s } = decodeAdaptorSignatureECDSA(adaptorSignature);
+  const completed = modulo(
+    binToBigIntUint256BE(s) *
+      modularInverse(binToBigIntUint256BE(adaptorSecret), secp256k1Order),
+    secp256k1Order
+  );
+  const lowS =
+    completed > secp256k1Order / BigInt(2)
+      ? secp256k1Order - completed
+      : completed;
+  return flattenBinArray([
+    toScalar(binToBigIntUint256BE(nonce.slice(1))),
+    toScalar(lowS),
+  ]);
+};
+
+/**
+ * Extract the 32-byte adaptor secret, `t`, from an ECDSA adaptor signature and
+ * the compact signature completed from it.
+ *
+ * @param crypto - an implementation of secp256k1
+ * @param adaptorPoint - the compressed adaptor point, `T`
+ * @param adaptorSignature - the 162-byte adaptor signature
+ * @param signature - the 64-byte compact ECDSA signature completed from
+ * `adaptorSignature`
+ */
+export const extractAdaptorSecretECDSA = (
+  crypto: {
+    secp256k1: {
+      derivePublicKeyCompressed: Secp256k1['derivePublicKeyCompressed'];
+    };
+  },
+  {
+    adaptorPoint,
+    adaptorSignature,
+    signature,
+  }: {
+    adaptorPoint: Uint8Array;
+    adaptorSignature: Uint8Array;
+    signature: Uint8Array;
+  }
+) => {
+  if (adaptorSignature.length !== Internal.adaptorSignatureECDSALength) {
+    return AdaptorSignatureError.invalidAdaptorSignature;
+  }
+  if (signature.length !== Internal.signatureLength) {
+    return AdaptorSignatureError.invalidSignature;
+  }
+  const s = binToBigIntUint256BE(signature.slice(Internal.scalarLength));
+  if (s === BigInt(0) || s >= secp256k1Order) {
+    return AdaptorSignatureError.invalidSignature;
+  }
+  const { s: adaptorS } = decodeAdaptorSignatureECDSA(adaptorSignature);
+  const candidate = modulo(
+    binToBigIntUint256BE(adaptorS) * modularInverse(s, secp256k1Order),
+    secp256k1Order
+  );
+  const secret = [candidate, secp256k1Order - candidate]
+    .map(toScalar)
+    .find(
+      (value) =>
+        validateSecp256k1PrivateKey(value) &&
+        binsAreEqual(
+          crypto.secp256k1.derivePublicKeyCompressed(value),
+          adaptorPoint
+        )
+    );
+  return secret === undefined ? AdaptorSignatureError.secretMismatch : secret;
+};
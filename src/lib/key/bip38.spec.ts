@@ -0,0 +1,279 @@
+/* eslint-disable functional/no-expression-statement, @typescript-eslint/no-magic-numbers */
+import test, { Macro } from 'ava';
+
+import {
+  Base58AddressError,
+  Bip38Error,
+  decodePrivateKeyWif,
+  decryptPrivateKeyBip38,
+  encodeBase58AddressFormat,
+  encryptPrivateKeyBip38,
+  generateBip38EncryptedKeyFromIntermediateCode,
+  generateBip38IntermediateCode,
+  hexToBin,
+  instantiateBIP32Crypto,
+  verifyBip38ConfirmationCode,
+} from '../lib';
+
+const cryptoPromise = instantiateBIP32Crypto();
+
+/**
+ * BIP38 uses scrypt with a large cost factor, so each encryption or decryption
+ * blocks the worker for a significant time. These tests run serially to allow
+ * progress to be reported between them (avoiding AVA's inactivity timeout).
+ */
+
+const nonEcMultiplied: Macro<[
+  { passphrase: string; encryptedKey: string; wif: string }
+]> = async (t, vector) => {
+  const crypto = await cryptoPromise;
+  const decoded = decodePrivateKeyWif(crypto.sha256, vector.wif);
+  if (typeof decoded === 'string') {
+    t.fail(decoded);
+    return;
+  }
+  t.deepEqual(
+    encryptPrivateKeyBip38(crypto, {
+      passphrase: vector.passphrase,
+      privateKey: decoded.privateKey,
+      type: decoded.type,
+    }),
+    vector.encryptedKey
+  );
+  t.deepEqual(
+    decryptPrivateKeyBip38(crypto, vector.encryptedKey, vector.passphrase),
+    decoded
+  );
+};
+// eslint-disable-next-line functional/immutable-data
+nonEcMultiplied.title = (title) =>
+  `[key] BIP38 Test Vector: no EC multiply, ${title ?? '?'}`;
+
+test.serial('no compression', nonEcMultiplied, {
+  encryptedKey: '6PRVWUbkzzsbcVac2qwfssoUJAN1Xhrg6bNk8J7Nzm5H7kxEbn2Nh2ZoGg',
+  passphrase: 'TestingOneTwoThree',
+  wif: '5KN7MzqK5wt2TP1fQCYyHBtDrXdJuXbUzm4A9rKAteGu3Qi5CVR',
+});
+
+test.serial('compression', nonEcMultiplied, {
+  encryptedKey: '6PYNKZ1EAgYgmQfmNVamxyXVWHzK5s6DGhwP4J5o44cvXdoY7sRzhtpUeo',
+  passphrase: 'TestingOneTwoThree',
+  wif: 'L44B5gGEpqEDRS9vVPz7QT35jcBG2r3CZwSwQ4fCewXAhAhqGVpP',
+});
+
+const ecMultiplied: Macro<[
+  {
+    passphrase: string;
+    encryptedKey: string;
+    address: string;
+    wif: string;
+    confirmationCode?: string;
+  }
+]> = async (t, vector) => {
+  const crypto = await cryptoPromise;
+  t.deepEqual(
+    decryptPrivateKeyBip38(crypto, vector.encryptedKey, vector.passphrase),
+    decodePrivateKeyWif(crypto.sha256, vector.wif)
+  );
+  if (vector.confirmationCode !== undefined) {
+    t.deepEqual(
+      verifyBip38ConfirmationCode(
+        crypto,
+        vector.confirmationCode,
+        vector.passphrase
+      ),
+      { address: vector.address, type: 'mainnet-uncompressed' }
+    );
+  }
+};
+// eslint-disable-next-line functional/immutable-data
+ecMultiplied.title = (title) =>
+  `[key] BIP38 Test Vector: EC multiply, ${title ?? '?'}`;
+
+test.serial('no compression, no lot/sequence numbers', ecMultiplied, {
+  address: '1PE6TQi6HTVNz5DLwB1LcpMBALubfuN2z2',
+  encryptedKey: '6PfQu77ygVyJLZjfvMLyhLMQbYnu5uguoJJ4kMCLqWwPEdfpwANVS76gTX',
+  passphrase: 'TestingOneTwoThree',
+  wif: '5K4caxezwjGCGfnoPTZ8tMcJBLB7Jvyjv4xxeacadhq8nLisLR2',
+});
+
+test.serial('no compression, lot/sequence numbers #1', ecMultiplied, {
+  address: '1Jscj8ALrYu2y9TD8NrpvDBugPedmbj4Yh',
+  confirmationCode:
+    'cfrm38V8aXBn7JWA1ESmFMUn6erxeBGZGAxJPY4e36S9QWkzZKtaVqLNMgnifETYw7BPwWC9aPD',
+  encryptedKey: '6PgNBNNzDkKdhkT6uJntUXwwzQV8Rr2tZcbkDcuC9DZRsS6AtHts4Ypo1j',
+  passphrase: 'MOLON LABE',
+  wif: '5JLdxTtcTHcfYcmJsNVy1v2PMDx432JPoYcBTVVRHpPaxUrdtf8',
+});
+
+test.serial('no compression, lot/sequence numbers #2', ecMultiplied, {
+  address: '1Lurmih3KruL4xDB5FmHof38yawNtP9oGf',
+  confirmationCode:
+    'cfrm38V8G4qq2ywYEFfWLD5Cc6msj9UwsG2Mj4Z6QdGJAFQpdatZLavkgRd1i4iBMdRngDqDs51',
+  encryptedKey: '6PgGWtx25kUg8QWvwuJAgorN6k9FbE25rv5dMRwu5SKMnfpfVe5mar2ngH',
+  passphrase: 'ΜΟΛΩΝ ΛΑΒΕ',
+  wif: '5KMKKuUmAkiNbA3DazMQiLfDq47qs8MAEThm4yL8R2PhV1ov33D',
+});
+
+test.serial('[key] BIP38: generateBip38IntermediateCode', async (t) => {
+  const crypto = await cryptoPromise;
+  t.deepEqual(
+    generateBip38IntermediateCode(crypto, {
+      lotNumber: 263183,
+      ownerSalt: hexToBin('4fca5a97'),
+      passphrase: 'MOLON LABE',
+      sequenceNumber: 1,
+    }),
+    'passphraseaB8feaLQDENqCgr4gKZpmf4VoaT6qdjJNJiv7fsKvjqavcJxvuR1hy25aTu5sX'
+  );
+});
+
+test.serial(
+  '[key] BIP38: generateBip38EncryptedKeyFromIntermediateCode',
+  async (t) => {
+    const crypto = await cryptoPromise;
+    const passphrase = 'MOLON LABE';
+    const result = generateBip38EncryptedKeyFromIntermediateCode(crypto, {
+      intermediateCode:
+        'passphraseaB8feaLQDENqCgr4gKZpmf4VoaT6qdjJNJiv7fsKvjqavcJxvuR1hy25aTu5sX',
+      seed: new Uint8Array(24).fill(7),
+      type: 'mainnet',
+    });
+    t.deepEqual(result, {
+      address: '19wM7qfhXYuC9CYvftF8zhv7zxdkgFjn2M',
+      confirmationCode:
+        'cfrm38VWzQyHLwmmgHzMzk9p1EMDgBCDUKyZhF3L8fyHgGV3vzLrgWeCpH1oLVjurhQhNSrmYVt',
+      encryptedKey:
+        '6PoF6d19XmwoJkLHMdoCYtxfftw986fFLbyNLzRwwmc42b7XWSGQ5XzoDV',
+    });
+    if (typeof result === 'string') return;
+    t.deepEqual(
+      decryptPrivateKeyBip38(crypto, result.encryptedKey, passphrase),
+      {
+        privateKey: hexToBin(
+          '59e2f12090187fd87f6113b7b4dba827d32b7dda8bd0206a9994e5deceddf9ba'
+        ),
+        type: 'mainnet',
+      }
+    );
+  }
+);
+
+test.serial('[key] BIP38: testnet', async (t) => {
+  const crypto = await cryptoPromise;
+  const privateKey = hexToBin(
+    'cbf4b9f70470856bb4f40f80b87edb90865997ffee6df315ab166d713af433a5'
+  );
+  const encryptedKey = encryptPrivateKeyBip38(crypto, {
+    passphrase: 'TestingOneTwoThree',
+    privateKey,
+    type: 'testnet',
+  });
+  t.deepEqual(
+    decryptPrivateKeyBip38(
+      crypto,
+      encryptedKey,
+      'TestingOneTwoThree',
+      'testnet'
+    ),
+    { privateKey, type: 'testnet' }
+  );
+});
+
+test.serial('[key] BIP38: errors', async (t) => {
+  const crypto = await cryptoPromise;
+  t.deepEqual(
+    decryptPrivateKeyBip38(crypto, 'not a key', 'passphrase'),
+    Base58AddressError.unknownCharacter
+  );
+  t.deepEqual(
+    decryptPrivateKeyBip38(
+      crypto,
+      '5KN7MzqK5wt2TP1fQCYyHBtDrXdJuXbUzm4A9rKAteGu3Qi5CVR',
+      'passphrase'
+    ),
+    Bip38Error.unknownPrefix
+  );
+  t.deepEqual(
+    decryptPrivateKeyBip38(
+      crypto,
+      encodeBase58AddressFormat(crypto.sha256, 0x01, Uint8Array.of(0x42, 0xc0)),
+      'passphrase'
+    ),
+    Bip38Error.invalidLength
+  );
+  t.deepEqual(
+    decryptPrivateKeyBip38(
+      crypto,
+      encodeBase58AddressFormat(
+        crypto.sha256,
+        0x01,
+        Uint8Array.from([0x42, 0xc1, ...new Array<number>(36).fill(0)])
+      ),
+      'passphrase'
+    ),
+    Bip38Error.invalidFlags
+  );
+  t.deepEqual(
+    decryptPrivateKeyBip38(
+      crypto,
+      encodeBase58AddressFormat(
+        crypto.sha256,
+        0x01,
+        Uint8Array.from([0x43, 0xc0, ...new Array<number>(36).fill(0)])
+      ),
+      'passphrase'
+    ),
+    Bip38Error.invalidFlags
+  );
+  t.deepEqual(
+    encryptPrivateKeyBip38(crypto, {
+      passphrase: 'passphrase',
+      privateKey: new Uint8Array(32),
+      type: 'mainnet',
+    }),
+    Bip38Error.invalidPrivateKey
+  );
+  t.deepEqual(
+    generateBip38IntermediateCode(crypto, {
+      ownerSalt: new Uint8Array(4),
+      passphrase: 'passphrase',
+    }),
+    Bip38Error.invalidOwnerSalt
+  );
+  t.deepEqual(
+    generateBip38IntermediateCode(crypto, {
+      lotNumber: 1048576,
+      ownerSalt: new Uint8Array(4),
+      passphrase: 'passphrase',
+      sequenceNumber: 0,
+    }),
+    Bip38Error.invalidLotSequence
+  );
+  t.deepEqual(
+    generateBip38EncryptedKeyFromIntermediateCode(crypto, {
+      intermediateCode:
+        '6PRVWUbkzzsbcVac2qwfssoUJAN1Xhrg6bNk8J7Nzm5H7kxEbn2Nh2ZoGg',
+      seed: new Uint8Array(24),
+      type: 'mainnet',
+    }),
+    Bip38Error.invalidIntermediateCode
+  );
+  t.deepEqual(
+    generateBip38EncryptedKeyFromIntermediateCode(crypto, {
+      intermediateCode:
+        'passphraseaB8feaLQDENqCgr4gKZpmf4VoaT6qdjJNJiv7fsKvjqavcJxvuR1hy25aTu5sX',
+      seed: new Uint8Array(16),
+      type: 'mainnet',
+    }),
+    Bip38Error.invalidSeed
+  );
+  t.deepEqual(
+    verifyBip38ConfirmationCode(
+      crypto,
+      '6PRVWUbkzzsbcVac2qwfssoUJAN1Xhrg6bNk8J7Nzm5H7kxEbn2Nh2ZoGg',
+      'passphrase'
+    ),
+    Bip38Error.invalidConfirmationCode
+  );
+});
@@ -0,0 +1,754 @@
+import {
+  decodeBase58AddressFormat,
+  encodeBase58Address,
+  encodeBase58AddressFormat,
+} from '../address/address';
+import {
+  decryptAesBlock,
+  encryptAesBlock,
+  Ripemd160,
+  scrypt,
+  Secp256k1,
+  Sha256,
+} from '../crypto/crypto';
+import {
+  binsAreEqual,
+  flattenBinArray,
+  numberToBinUint32BE,
+  utf8ToBin,
+} from '../format/format';
+
+import { validateSecp256k1PrivateKey } from './key-utils';
+import { WalletImportFormatType } from './wallet-import-format';
+
+export enum Bip38Error {
+  unknownPrefix = 'BIP38 error: the encrypted key does not begin with a known BIP38 prefix.',
+  invalidLength = 'BIP38 error: the encrypted key is not the correct length.',
+  invalidFlags = 'BIP38 error: the encrypted key uses unknown or invalid flags.',
+  incorrectPassphrase = 'BIP38 error: the passphrase is incorrect – the decrypted result does not match the encoded address hash.',
+  invalidPrivateKey = 'BIP38 error: the private key is not a valid Secp256k1 private key.',
+  invalidOwnerSalt = 'BIP38 error: the owner salt must be 8 bytes, or 4 bytes if a lot and sequence number are provided.',
+  invalidLotSequence = 'BIP38 error: the lot number must be between 0 and 1048575, and the sequence number must be between 0 and 4095.',
+  invalidIntermediateCode = 'BIP38 error: the intermediate code is not valid.',
+  invalidSeed = 'BIP38 error: the seed must be 24 bytes and must produce a valid Secp256k1 private key factor.',
+  invalidConfirmationCode = 'BIP38 error: the confirmation code is not valid.',
+}
+
+/**
+ * The implementations required by BIP38 utilities in this library (available
+ * via `instantiateBIP32Crypto`).
+ */
+export interface Bip38Crypto {
+  ripemd160: { hash: Ripemd160['hash'] };
+  secp256k1: {
+    derivePublicKeyCompressed: Secp256k1['derivePublicKeyCompressed'];
+    derivePublicKeyUncompressed: Secp256k1['derivePublicKeyUncompressed'];
+    mulTweakPrivateKey: Secp256k1['mulTweakPrivateKey'];
+    mulTweakPublicKeyCompressed: Secp256k1['mulTweakPublicKeyCompressed'];
+    mulTweakPublicKeyUncompressed: Secp256k1['mulTweakPublicKeyUncompressed'];
+  };
+  sha256: { hash: Sha256['hash'] };
+}
+
+export type Bip38Network = 'mainnet' | 'testnet';
+
+const enum Internal {
+  prefixVersion = 0x01,
+  prefixNonEcMultiplied = 0x42,
+  prefixEcMultiplied = 0x43,
+  flagNonEcMultiplied = 0xc0,
+  flagCompressed = 0x20,
+  flagLotSequence = 0x04,
+  encryptedKeyPayloadLength = 38,
+  addressHashLength = 4,
+  ownerEntropyLength = 8,
+  ownerSaltLengthWithLotSequence = 4,
+  maximumLot = 1048575,
+  maximumSequence = 4095,
+  sequencesPerLot = 4096,
+  intermediateCodeVersion = 0x2c,
+  intermediateCodeLotSequence = 0x51,
+  intermediateCodeNoLotSequence = 0x53,
+  intermediateCodePayloadLength = 48,
+  confirmationCodeVersion = 0x64,
+  confirmationCodePayloadLength = 50,
+  seedLength = 24,
+  aesBlockLength = 16,
+  halfLength = 32,
+  scryptCostFactor = 16384,
+  scryptBlockSizeFactor = 8,
+  scryptParallelizationFactor = 8,
+  scryptEcCostFactor = 1024,
+  scryptEcBlockSizeFactor = 1,
+  scryptEcParallelizationFactor = 1,
+}
+
+/**
+ * The remaining magic bytes (after the version byte) of intermediate codes,
+ * which are encoded with the prefix `passphrase`.
+ */
+const intermediateCodeMagic = Uint8Array.of(0xe9, 0xb3, 0xe1, 0xff, 0x39, 0xe2);
+
+/**
+ * The remaining magic bytes (after the version byte) of confirmation codes,
+ * which are encoded with the prefix `cfrm38`.
+ */
+const confirmationCodeMagic = Uint8Array.of(0x3b, 0xf6, 0xa8, 0x9a);
+
+const xor = (a: Uint8Array, b: Uint8Array) =>
+  // eslint-disable-next-line no-bitwise
+  a.map((value, index) => value ^ b[index]);
+
+const encodePassphrase = (passphrase: string) =>
+  utf8ToBin(passphrase.normalize('NFC'));
+
+const doubleSha256 = (sha256: { hash: Sha256['hash'] }, input: Uint8Array) =>
+  sha256.hash(sha256.hash(input));
+
+/**
+ * Derive the P2PKH address of a public key and its BIP38 address hash: the
+ * first 4 bytes of the double-sha256 hash of the address string.
+ */
+const deriveAddressHash = (
+  crypto: Pick<Bip38Crypto, 'ripemd160' | 'sha256'>,
+  publicKey: Uint8Array,
+  network: Bip38Network
+) => {
+  const address = encodeBase58Address(
+    crypto.sha256,
+    network === 'mainnet' ? 'p2pkh' : 'p2pkh-testnet',
+    crypto.ripemd160.hash(crypto.sha256.hash(publicKey))
+  );
+  return {
+    address,
+    addressHash: doubleSha256(crypto.sha256, utf8ToBin(address)).slice(
+      0,
+      Internal.addressHashLength
+    ),
+  };
+};
+
+const toWalletImportFormatType = (
+  network: Bip38Network,
+  compressed: boolean
+): WalletImportFormatType =>
+  network === 'mainnet'
+    ? compressed
+      ? 'mainnet'
+      : 'mainnet-uncompressed'
+    : compressed
+    ? 'testnet'
+    : 'testnet-uncompressed';
+
+/**
+ * Multiply a public key by a 32-byte factor, returning `undefined` if the
+ * public key is not a valid point.
+ */
+const multiplyPublicKey = (
+  secp256k1: Pick<
+    Bip38Crypto['secp256k1'],
+    'mulTweakPublicKeyCompressed' | 'mulTweakPublicKeyUncompressed'
+  >,
+  publicKey: Uint8Array,
+  factor: Uint8Array,
+  compressed: boolean
+) => {
+  // eslint-disable-next-line functional/no-try-statement
+  try {
+    return compressed
+      ? secp256k1.mulTweakPublicKeyCompressed(publicKey, factor)
+      : secp256k1.mulTweakPublicKeyUncompressed(publicKey, factor);
+  } catch (error) {
+    return undefined;
+  }
+};
+
+/**
+ * Encrypt 32 bytes using the BIP38 construction: each 16-byte half of `data` is
+ * XORed with the corresponding half of `derivedHalf1`, then encrypted with
+ * AES-256 using `derivedHalf2` as the key.
+ */
+const encryptHalves = (
+  data: Uint8Array,
+  derivedHalf1: Uint8Array,
+  derivedHalf2: Uint8Array
+) =>
+  flattenBinArray([
+    encryptAesBlock(
+      derivedHalf2,
+      xor(data.slice(0, Internal.aesBlockLength), derivedHalf1)
+    ),
+    encryptAesBlock(
+      derivedHalf2,
+      xor(
+        data.slice(Internal.aesBlockLength),
+        derivedHalf1.slice(Internal.aesBlockLength)
+      )
+    ),
+  ]);
+
+/**
+ * Decrypt 32 bytes encrypted with `encryptHalves`.
+ */
+const decryptHalves = (
+  data: Uint8Array,
+  derivedHalf1: Uint8Array,
+  derivedHalf2: Uint8Array
+) =>
+  flattenBinArray([
+    xor(
+      decryptAesBlock(derivedHalf2, data.slice(0, Internal.aesBlockLength)),
+      derivedHalf1
+    ),
+    xor(
+      decryptAesBlock(derivedHalf2, data.slice(Internal.aesBlockLength)),
+      derivedHalf1.slice(Internal.aesBlockLength)
+    ),
+  ]);
+
+/**
+ * Derive the `passfactor` for an EC-multiplied key from the passphrase and the
+ * owner entropy (A.K.A. `ownerentropy`).
+ */
+const derivePassFactor = (
+  sha256: { hash: Sha256['hash'] },
+  passphrase: string,
+  ownerEntropy: Uint8Array,
+  hasLotSequence: boolean
+) => {
+  const preFactor = scrypt(sha256, {
+    blockSizeFactor: Internal.scryptBlockSizeFactor,
+    costFactor: Internal.scryptCostFactor,
+    derivedKeyLength: Internal.halfLength,
+    parallelizationFactor: Internal.scryptParallelizationFactor,
+    password: encodePassphrase(passphrase),
+    salt: hasLotSequence
+      ? ownerEntropy.slice(0, Internal.ownerSaltLengthWithLotSequence)
+      : ownerEntropy,
+  });
+  return hasLotSequence
+    ? doubleSha256(sha256, flattenBinArray([preFactor, ownerEntropy]))
+    : preFactor;
+};
+
+/**
+ * Derive the two 32-byte halves used to encrypt the seed (and confirmation
+ * code) of an EC-multiplied key.
+ */
+const deriveEcMultipliedHalves = (
+  sha256: { hash: Sha256['hash'] },
+  passPoint: Uint8Array,
+  addressHash: Uint8Array,
+  ownerEntropy: Uint8Array
+) => {
+  const derived = scrypt(sha256, {
+    blockSizeFactor: Internal.scryptEcBlockSizeFactor,
+    costFactor: Internal.scryptEcCostFactor,
+    derivedKeyLength: Internal.halfLength * 2,
+    parallelizationFactor: Internal.scryptEcParallelizationFactor,
+    password: passPoint,
+    salt: flattenBinArray([addressHash, ownerEntropy]),
+  });
+  return {
+    derivedHalf1: derived.slice(0, Internal.halfLength),
+    derivedHalf2: derived.slice(Internal.halfLength),
+  };
+};
+
+/**
+ * Encrypt a private key using the non-EC-multiplied BIP38 method, producing a
+ * string beginning with `6P`.
+ *
+ * Because the encrypted key includes a hash of the P2PKH address for which the
+ * private key is intended, `type` determines both the compression of the public
+ * key (as with WIF-encoding, see `WalletImportFormatType`) and the network of
+ * the address. Note, BIP38 does not encode the network: testnet keys must be
+ * decrypted with `network` set to `testnet`.
+ *
+ * Note, this method does not enforce error handling via the type system. The
+ * returned string will be a `Bip38Error` if `privateKey` is not valid.
+ *
+ * @param crypto - implementations of sha256, ripemd160, and secp256k1 public
+ * key derivation (available via `instantiateBIP32Crypto`)
+ * @param passphrase - the passphrase with which to encrypt the private key
+ * (normalized using Unicode NFC)
+ * @param privateKey - the 32-byte Secp256k1 private key to encrypt
+ * @param type - the intended usage of the private key (e.g. `mainnet` or
+ * `mainnet-uncompressed`)
+ */
+export const encryptPrivateKeyBip38 = (
+  crypto: Pick<Bip38Crypto, 'ripemd160' | 'sha256'> & {
+    secp256k1: Pick<
+      Bip38Crypto['secp256k1'],
+      'derivePublicKeyCompressed' | 'derivePublicKeyUncompressed'
+    >;
+  },
+  {
+    passphrase,
+    privateKey,
+    type,
+  }: {
+    passphrase: string;
+    privateKey: Uint8Array;
+    type: WalletImportFormatType;
+  }
+) => {
+  if (!validateSecp256k1PrivateKey(privateKey)) {
+    return Bip38Error.invalidPrivateKey;
+  }
+  const compressed = type === 'mainnet' || type === 'testnet';
+  const network = type.startsWith('mainnet') ? 'mainnet' : 'testnet';
+  const publicKey = compressed
+    ? crypto.secp256k1.derivePublicKeyCompressed(privateKey)
+    : crypto.secp256k1.derivePublicKeyUncompressed(privateKey);
+  const { addressHash } = deriveAddressHash(crypto, publicKey, network);
+  const derived = scrypt(crypto.sha256, {
+    blockSizeFactor: Internal.scryptBlockSizeFactor,
+    costFactor: Internal.scryptCostFactor,
+    derivedKeyLength: Internal.halfLength * 2,
+    parallelizationFactor: Internal.scryptParallelizationFactor,
+    password: encodePassphrase(passphrase),
+    salt: addressHash,
+  });
+  return encodeBase58AddressFormat(
+    crypto.sha256,
+    Internal.prefixVersion,
+    flattenBinArray([
+      Uint8Array.of(
+        Internal.prefixNonEcMultiplied,
+        compressed
+          ? // eslint-disable-next-line no-bitwise
+            Internal.flagNonEcMultiplied | Internal.flagCompressed
+          : Internal.flagNonEcMultiplied
+      ),
+      addressHash,
+      encryptHalves(
+        privateKey,
+        derived.slice(0, Internal.halfLength),
+        derived.slice(Internal.halfLength)
+      ),
+    ])
+  );
+};
+
+/**
+ * Decrypt a BIP38-encrypted private key (a string beginning with `6P`). Both
+ * non-EC-multiplied and EC-multiplied keys are supported.
+ *
+ * Returns the decrypted private key and its `WalletImportFormatType`, or an
+ * error message as a string. If the passphrase is incorrect,
+ * `Bip38Error.incorrectPassphrase` is returned.
+ *
+ * @param crypto - implementations of sha256, ripemd160, and secp256k1
+ * (available via `instantiateBIP32Crypto`)
+ * @param encryptedKey - the BIP38-encrypted private key
+ * @param passphrase - the passphrase with which the key was encrypted
+ * @param network - the network of the address for which the private key was
+ * encrypted, defaults to `mainnet`
+ */
+// eslint-disable-next-line complexity
+export const decryptPrivateKeyBip38 = (
+  crypto: Bip38Crypto,
+  encryptedKey: string,
+  passphrase: string,
+  network: Bip38Network = 'mainnet'
+) => {
+  const decoded = decodeBase58AddressFormat(crypto.sha256, encryptedKey);
+  if (typeof decoded === 'string') return decoded;
+  const { payload } = decoded;
+  const [prefix, flag] = payload;
+  if (
+    decoded.version !== Internal.prefixVersion ||
+    (prefix !== Internal.prefixNonEcMultiplied &&
+      prefix !== Internal.prefixEcMultiplied)
+  ) {
+    return Bip38Error.unknownPrefix;
+  }
+  if (payload.length !== Internal.encryptedKeyPayloadLength) {
+    return Bip38Error.invalidLength;
+  }
+  const ecMultiplied = prefix === Internal.prefixEcMultiplied;
+  /* eslint-disable no-bitwise */
+  const compressed = (flag & Internal.flagCompressed) !== 0;
+  const hasLotSequence = (flag & Internal.flagLotSequence) !== 0;
+  const expectedFlag = ecMultiplied
+    ? flag & (Internal.flagCompressed | Internal.flagLotSequence)
+    : Internal.flagNonEcMultiplied | (flag & Internal.flagCompressed);
+  /* eslint-enable no-bitwise */
+  if (flag !== expectedFlag) {
+    return Bip38Error.invalidFlags;
+  }
+  const addressHashStart = 2;
+  const addressHash = payload.slice(
+    addressHashStart,
+    addressHashStart + Internal.addressHashLength
+  );
+  const contentsStart = addressHashStart + Internal.addressHashLength;
+
+  const privateKey = ecMultiplied
+    ? (() => {
+        const encryptedPart1Start = contentsStart + Internal.ownerEntropyLength;
+        const encryptedPart2Start =
+          encryptedPart1Start + Internal.ownerEntropyLength;
+        const ownerEntropy = payload.slice(contentsStart, encryptedPart1Start);
+        const passFactor = derivePassFactor(
+          crypto.sha256,
+          passphrase,
+          ownerEntropy,
+          hasLotSequence
+        );
+        const { derivedHalf1, derivedHalf2 } = deriveEcMultipliedHalves(
+          crypto.sha256,
+          crypto.secp256k1.derivePublicKeyCompressed(passFactor),
+          addressHash,
+          ownerEntropy
+        );
+        const decryptedPart2 = xor(
+          decryptAesBlock(derivedHalf2, payload.slice(encryptedPart2Start)),
+          derivedHalf1.slice(Internal.aesBlockLength)
+        );
+        const encryptedPart1 = flattenBinArray([
+          payload.slice(encryptedPart1Start, encryptedPart2Start),
+          decryptedPart2.slice(0, Internal.ownerEntropyLength),
+        ]);
+        const seed = flattenBinArray([
+          xor(decryptAesBlock(derivedHalf2, encryptedPart1), derivedHalf1),
+          decryptedPart2.slice(Internal.ownerEntropyLength),
+        ]);
+        return crypto.secp256k1.mulTweakPrivateKey(
+          passFactor,
+          doubleSha256(crypto.sha256, seed)
+        );
+      })()
+    : (() => {
+        const derived = scrypt(crypto.sha256, {
+          blockSizeFactor: Internal.scryptBlockSizeFactor,
+          costFactor: Internal.scryptCostFactor,
+          derivedKeyLength: Internal.halfLength * 2,
+          parallelizationFactor: Internal.scryptParallelizationFactor,
+          password: encodePassphrase(passphrase),
+          salt: addressHash,
+        });
+        return decryptHalves(
+          payload.slice(contentsStart),
+          derived.slice(0, Internal.halfLength),
+          derived.slice(Internal.halfLength)
+        );
+      })();
+
+  const publicKey = compressed
+    ? crypto.secp256k1.derivePublicKeyCompressed(privateKey)
+    : crypto.secp256k1.derivePublicKeyUncompressed(privateKey);
+  const derivedAddressHash = deriveAddressHash(crypto, publicKey, network)
+    .addressHash;
+  if (!binsAreEqual(derivedAddressHash, addressHash)) {
+    return Bip38Error.incorrectPassphrase;
+  }
+  return { privateKey, type: toWalletImportFormatType(network, compressed) };
+};
+
+/**
+ * Generate a BIP38 intermediate code (A.K.A. "passphrase code", a string
+ * beginning with `passphrase`) from a passphrase and owner salt.
+ *
+ * Intermediate codes allow a third party (e.g. a paper wallet printer) to
+ * generate EC-multiplied encrypted keys (see
+ * `generateBip38EncryptedKeyFromIntermediateCode`) for which only the holder of
+ * the passphrase can recover the private key.
+ *
+ * If both `lotNumber` and `sequenceNumber` are provided, `ownerSalt` must be 4
+ * bytes; otherwise, it must be 8 bytes. The owner salt should be generated
+ * from a secure source of randomness.
+ *
+ * Note, this method does not enforce error handling via the type system. The
+ * returned string will be a `Bip38Error` if the provided parameters are not
+ * valid.
+ *
+ * @param crypto - implementations of sha256 and secp256k1 compressed public
+ * key derivation
+ * @param parameters - the passphrase, owner salt, and (optionally) the lot and
+ * sequence numbers to encode
+ */
+export const generateBip38IntermediateCode = (
+  crypto: {
+    secp256k1: Pick<Bip38Crypto['secp256k1'], 'derivePublicKeyCompressed'>;
+    sha256: { hash: Sha256['hash'] };
+  },
+  {
+    lotNumber,
+    ownerSalt,
+    passphrase,
+    sequenceNumber,
+  }: {
+    lotNumber?: number;
+    ownerSalt: Uint8Array;
+    passphrase: string;
+    sequenceNumber?: number;
+  }
+) => {
+  const hasLotSequence =
+    lotNumber !== undefined && sequenceNumber !== undefined;
+  if (
+    ownerSalt.length !==
+    (hasLotSequence
+      ? Internal.ownerSaltLengthWithLotSequence
+      : Internal.ownerEntropyLength)
+  ) {
+    return Bip38Error.invalidOwnerSalt;
+  }
+  if (
+    hasLotSequence &&
+    !(
+      Number.isInteger(lotNumber) &&
+      Number.isInteger(sequenceNumber) &&
+      (lotNumber as number) >= 0 &&
+      (lotNumber as number) <= Internal.maximumLot &&
+      (sequenceNumber as number) >= 0 &&
+      (sequenceNumber as number) <= Internal.maximumSequence
+    )
+  ) {
+    return Bip38Error.invalidLotSequence;
+  }
+  const ownerEntropy = hasLotSequence
+    ? flattenBinArray([
+        ownerSalt,
+        numberToBinUint32BE(
+          (lotNumber as number) * Internal.sequencesPerLot +
+            (sequenceNumber as number)
+        ),
+      ])
+    : ownerSalt;
+  const passFactor = derivePassFactor(
+    crypto.sha256,
+    passphrase,
+    ownerEntropy,
+    hasLotSequence
+  );
+  return encodeBase58AddressFormat(
+    crypto.sha256,
+    Internal.intermediateCodeVersion,
+    flattenBinArray([
+      Uint8Array.from([
+        ...intermediateCodeMagic,
+        hasLotSequence
+          ? Internal.intermediateCodeLotSequence
+          : Internal.intermediateCodeNoLotSequence,
+      ]),
+      ownerEntropy,
+      crypto.secp256k1.derivePublicKeyCompressed(passFactor),
+    ])
+  );
+};
+
+/**
+ * Generate an EC-multiplied BIP38-encrypted private key from an intermediate
+ * code (see `generateBip38IntermediateCode`) and a 24-byte seed (A.K.A.
+ * `seedb`), which should be generated from a secure source of randomness.
+ *
+ * Returns the P2PKH address of the new key, the encrypted key, and a
+ * confirmation code (a string beginning with `cfrm38`) with which the holder of
+ * the passphrase can verify the address (see `verifyBip38ConfirmationCode`),
+ * or an error message as a string.
+ *
+ * @param crypto - implementations of sha256, ripemd160, and secp256k1
+ * (available via `instantiateBIP32Crypto`)
+ * @param parameters - the intermediate code, seed, and intended usage of the
+ * private key (`type`, e.g. `mainnet` or `mainnet-uncompressed`; see
+ * `encryptPrivateKeyBip38` for details)
+ */
+// eslint-disable-next-line complexity
+export const generateBip38EncryptedKeyFromIntermediateCode = (
+  crypto: Bip38Crypto,
+  {
+    intermediateCode,
+    seed,
+    type,
+  }: {
+    intermediateCode: string;
+    seed: Uint8Array;
+    type: WalletImportFormatType;
+  }
+) => {
+  const decoded = decodeBase58AddressFormat(crypto.sha256, intermediateCode);
+  if (typeof decoded === 'string') return decoded;
+  const { payload } = decoded;
+  const magicLength = intermediateCodeMagic.length;
+  const lotSequenceByte = payload[magicLength];
+  if (
+    decoded.version !== Internal.intermediateCodeVersion ||
+    payload.length !== Internal.intermediateCodePayloadLength ||
+    !binsAreEqual(payload.slice(0, magicLength), intermediateCodeMagic) ||
+    (lotSequenceByte !== Internal.intermediateCodeLotSequence &&
+      lotSequenceByte !== Internal.intermediateCodeNoLotSequence)
+  ) {
+    return Bip38Error.invalidIntermediateCode;
+  }
+  const ownerEntropyStart = magicLength + 1;
+  const passPointStart = ownerEntropyStart + Internal.ownerEntropyLength;
+  const ownerEntropy = payload.slice(ownerEntropyStart, passPointStart);
+  const passPoint = payload.slice(passPointStart);
+  const factor = doubleSha256(crypto.sha256, seed);
+  if (
+    seed.length !== Internal.seedLength ||
+    !validateSecp256k1PrivateKey(factor)
+  ) {
+    return Bip38Error.invalidSeed;
+  }
+  const compressed = type === 'mainnet' || type === 'testnet';
+  const network = type.startsWith('mainnet') ? 'mainnet' : 'testnet';
+  const publicKey = multiplyPublicKey(
+    crypto.secp256k1,
+    passPoint,
+    factor,
+    compressed
+  );
+  if (publicKey === undefined) {
+    return Bip38Error.invalidIntermediateCode;
+  }
+  const { address, addressHash } = deriveAddressHash(
+    crypto,
+    publicKey,
+    network
+  );
+  const { derivedHalf1, derivedHalf2 } = deriveEcMultipliedHalves(
+    crypto.sha256,
+    passPoint,
+    addressHash,
+    ownerEntropy
+  );
+  const encryptedPart1 = encryptAesBlock(
+    derivedHalf2,
+    xor(seed.slice(0, Internal.aesBlockLength), derivedHalf1)
+  );
+  const encryptedPart2 = encryptAesBlock(
+    derivedHalf2,
+    xor(
+      flattenBinArray([
+        encryptedPart1.slice(Internal.ownerEntropyLength),
+        seed.slice(Internal.aesBlockLength),
+      ]),
+      derivedHalf1.slice(Internal.aesBlockLength)
+    )
+  );
+  /* eslint-disable no-bitwise */
+  const flag =
+    (compressed ? Internal.flagCompressed : 0) |
+    (lotSequenceByte === Internal.intermediateCodeLotSequence
+      ? Internal.flagLotSequence
+      : 0);
+  const pointB = crypto.secp256k1.derivePublicKeyCompressed(factor);
+  const encryptedPointB = flattenBinArray([
+    Uint8Array.of(pointB[0] ^ (derivedHalf2[Internal.halfLength - 1] & 1)),
+    encryptHalves(pointB.slice(1), derivedHalf1, derivedHalf2),
+  ]);
+  /* eslint-enable no-bitwise */
+  return {
+    address,
+    confirmationCode: encodeBase58AddressFormat(
+      crypto.sha256,
+      Internal.confirmationCodeVersion,
+      flattenBinArray([
+        Uint8Array.from([...confirmationCodeMagic, flag]),
+        addressHash,
+        ownerEntropy,
+        encryptedPointB,
+      ])
+    ),
+    encryptedKey: encodeBase58AddressFormat(
+      crypto.sha256,
+      Internal.prefixVersion,
+      flattenBinArray([
+        Uint8Array.of(Internal.prefixEcMultiplied, flag),
+        addressHash,
+        ownerEntropy,
+        encryptedPart1.slice(0, Internal.ownerEntropyLength),
+        encryptedPart2,
+      ])
+    ),
+  };
+};
+
+/**
+ * Verify a BIP38 confirmation code (a string beginning with `cfrm38`) using the
+ * passphrase from which the intermediate code was generated.
+ *
+ * Returns the P2PKH address of the encrypted key (and the key's
+ * `WalletImportFormatType`), or an error message as a string. If the
+ * passphrase is incorrect, `Bip38Error.incorrectPassphrase` is returned.
+ *
+ * @param crypto - implementations of sha256, ripemd160, and secp256k1
+ * (available via `instantiateBIP32Crypto`)
+ * @param confirmationCode - the confirmation code to verify
+ * @param passphrase - the passphrase from which the intermediate code was
+ * generated
+ * @param network - the network of the address for which the private key was
+ * encrypted, defaults to `mainnet`
+ */
+// eslint-disable-next-line complexity
+export const verifyBip38ConfirmationCode = (
+  crypto: Bip38Crypto,
+  confirmationCode: string,
+  passphrase: string,
+  network: Bip38Network = 'mainnet'
+) => {
+  const decoded = decodeBase58AddressFormat(crypto.sha256, confirmationCode);
+  if (typeof decoded === 'string') return decoded;
+  const { payload } = decoded;
+  const magicLength = confirmationCodeMagic.length;
+  const flag = payload[magicLength];
+  if (
+    decoded.version !== Internal.confirmationCodeVersion ||
+    payload.length !== Internal.confirmationCodePayloadLength ||
+    !binsAreEqual(payload.slice(0, magicLength), confirmationCodeMagic) ||
+    // eslint-disable-next-line no-bitwise
+    (flag & ~(Internal.flagCompressed | Internal.flagLotSequence)) !== 0
+  ) {
+    return Bip38Error.invalidConfirmationCode;
+  }
+  /* eslint-disable no-bitwise */
+  const compressed = (flag & Internal.flagCompressed) !== 0;
+  const hasLotSequence = (flag & Internal.flagLotSequence) !== 0;
+  /* eslint-enable no-bitwise */
+  const addressHashStart = magicLength + 1;
+  const ownerEntropyStart = addressHashStart + Internal.addressHashLength;
+  const encryptedPointBStart = ownerEntropyStart + Internal.ownerEntropyLength;
+  const addressHash = payload.slice(addressHashStart, ownerEntropyStart);
+  const ownerEntropy = payload.slice(ownerEntropyStart, encryptedPointBStart);
+  const encryptedPointB = payload.slice(encryptedPointBStart);
+  const passFactor = derivePassFactor(
+    crypto.sha256,
+    passphrase,
+    ownerEntropy,
+    hasLotSequence
+  );
+  const { derivedHalf1, derivedHalf2 } = deriveEcMultipliedHalves(
+    crypto.sha256,
+    crypto.secp256k1.derivePublicKeyCompressed(passFactor),
+    addressHash,
+    ownerEntropy
+  );
+  const pointB = flattenBinArray([
+    Uint8Array.of(
+      // eslint-disable-next-line no-bitwise
+      encryptedPointB[0] ^ (derivedHalf2[Internal.halfLength - 1] & 1)
+    ),
+    decryptHalves(encryptedPointB.slice(1), derivedHalf1, derivedHalf2),
+  ]);
+  const publicKey = multiplyPublicKey(
+    crypto.secp256k1,
+    pointB,
+    passFactor,
+    compressed
+  );
+  if (publicKey === undefined) {
+    return Bip38Error.incorrectPassphrase;
+  }
+  const derived = deriveAddressHash(crypto, publicKey, network);
+  if (!binsAreEqual(derived.addressHash, addressHash)) {
+    return Bip38Error.incorrectPassphrase;
+  }
+  return {
+    address: derived.address,
+    type: toWalletImportFormatType(network, compressed),
+  };
+};
@@ -0,0 +1,178 @@
+import { pbkdf2HmacSha512, Sha256, Sha512 } from '../../crypto/crypto';
+import { binStringToBin, binToBinString, utf8ToBin } from '../../format/format';
+
+import { bip39WordlistEnglish } from './bip39-wordlist-english';
+
+export enum Bip39MnemonicError {
+  invalidEntropyLength = 'BIP39 error: entropy must be 16, 20, 24, 28, or 32 bytes.',
+  invalidWordlist = 'BIP39 error: the wordlist must contain exactly 2048 words.',
+  invalidWordCount = 'BIP39 error: mnemonic phrases must contain 12, 15, 18, 21, or 24 words.',
+  unknownWord = 'BIP39 error: the mnemonic phrase contains a word which is not in the wordlist.',
+  invalidChecksum = 'BIP39 error: the mnemonic phrase has an invalid checksum. Please review the phrase for errors.',
+}
+
+const enum Internal {
+  bitsPerWord = 11,
+  entropyBitsPerChecksumBit = 32,
+  minimumEntropyLength = 16,
+  maximumEntropyLength = 32,
+  entropyLengthStep = 4,
+  wordlistLength = 2048,
+  binaryRadix = 2,
+  bitsPerByte = 8,
+  seedIterations = 2048,
+  seedLength = 64,
+}
+
+const isValidEntropyLength = (length: number) =>
+  length >= Internal.minimumEntropyLength &&
+  length <= Internal.maximumEntropyLength &&
+  length % Internal.entropyLengthStep === 0;
+
+/**
+ * Compute the BIP39 checksum bits for the provided entropy: the first
+ * `entropy.length * 8 / 32` bits of its sha256 hash.
+ */
+const deriveChecksumBits = (
+  sha256: { hash: Sha256['hash'] },
+  entropy: Uint8Array
+) =>
+  binToBinString(sha256.hash(entropy)).slice(
+    0,
+    (entropy.length * Internal.bitsPerByte) / Internal.entropyBitsPerChecksumBit
+  );
+
+/**
+ * Encode entropy as a BIP39 mnemonic phrase.
+ *
+ * The entropy must be 16, 20, 24, 28, or 32 bytes (producing a mnemonic phrase
+ * of 12, 15, 18, 21, or 24 words, respectively). If the entropy or wordlist is
+ * not valid, a `Bip39MnemonicError` is returned.
+ *
+ * To generate a new mnemonic phrase, provide entropy from a secure source of
+ * randomness, e.g. `encodeBip39Mnemonic(sha256, randomBytes(16))` in Node.js or
+ * `encodeBip39Mnemonic(sha256, crypto.getRandomValues(new Uint8Array(16)))` in
+ * the browser.
+ *
+ * @param sha256 - an implementation of sha256 (a universal implementation is
+ * available via `instantiateSha256`)
+ * @param entropy - the entropy to encode
+ * @param separator - the string used to separate words, defaults to `' '`
+ * (Japanese mnemonic phrases conventionally use `'\u3000'`)
+ * @param wordlist - the 2048-word list to use, defaults to
+ * `bip39WordlistEnglish`
+ */
+export const encodeBip39Mnemonic = (
+  sha256: { hash: Sha256['hash'] },
+  entropy: Uint8Array,
+  {
+    separator = ' ',
+    wordlist = bip39WordlistEnglish,
+  }: { separator?: string; wordlist?: readonly string[] } = {}
+) => {
+  if (!isValidEntropyLength(entropy.length)) {
+    return Bip39MnemonicError.invalidEntropyLength;
+  }
+  if (wordlist.length !== Internal.wordlistLength) {
+    return Bip39MnemonicError.invalidWordlist;
+  }
+  const bits = `${binToBinString(entropy)}${deriveChecksumBits(
+    sha256,
+    entropy
+  )}`;
+  const wordCount = bits.length / Internal.bitsPerWord;
+  return new Array(wordCount)
+    .fill(0)
+    .map(
+      (_, index) =>
+        wordlist[
+          parseInt(
+            bits.slice(
+              index * Internal.bitsPerWord,
+              (index + 1) * Internal.bitsPerWord
+            ),
+            Internal.binaryRadix
+          )
+        ]
+    )
+    .join(separator);
+};
+
+/**
+ * Decode a BIP39 mnemonic phrase, validating its checksum and returning the
+ * encoded entropy.
+ *
+ * Words may be separated by any whitespace (including the ideographic spaces
+ * used in Japanese mnemonic phrases), and both the mnemonic phrase and the
+ * wordlist are compared after Unicode NFKD normalization. If the mnemonic
+ * phrase is not valid, a `Bip39MnemonicError` is returned.
+ *
+ * @param sha256 - an implementation of sha256 (a universal implementation is
+ * available via `instantiateSha256`)
+ * @param mnemonic - the mnemonic phrase to decode
+ * @param wordlist - the 2048-word list to use, defaults to
+ * `bip39WordlistEnglish`
+ */
+export const decodeBip39Mnemonic = (
+  sha256: { hash: Sha256['hash'] },
+  mnemonic: string,
+  wordlist: readonly string[] = bip39WordlistEnglish
+) => {
+  if (wordlist.length !== Internal.wordlistLength) {
+    return Bip39MnemonicError.invalidWordlist;
+  }
+  const words = mnemonic.normalize('NFKD').trim().split(/\s+/u);
+  const bitLength = words.length * Internal.bitsPerWord;
+  const checksumBitLength =
+    bitLength / (Internal.entropyBitsPerChecksumBit + 1);
+  const entropyBitLength = bitLength - checksumBitLength;
+  if (
+    !Number.isInteger(checksumBitLength) ||
+    !isValidEntropyLength(entropyBitLength / Internal.bitsPerByte)
+  ) {
+    return Bip39MnemonicError.invalidWordCount;
+  }
+  const normalizedWordlist = wordlist.map((word) => word.normalize('NFKD'));
+  const indexes = words.map((word) => normalizedWordlist.indexOf(word));
+  if (indexes.includes(-1)) {
+    return Bip39MnemonicError.unknownWord;
+  }
+  const bits = indexes
+    .map((index) =>
+      index.toString(Internal.binaryRadix).padStart(Internal.bitsPerWord, '0')
+    )
+    .join('');
+  const entropy = binStringToBin(bits.slice(0, entropyBitLength));
+  if (deriveChecksumBits(sha256, entropy) !== bits.slice(entropyBitLength)) {
+    return Bip39MnemonicError.invalidChecksum;
+  }
+  return entropy;
+};
+
+const saltPrefix = 'mnemonic';
+
+/**
+ * Derive a 64-byte seed from a BIP39 mnemonic phrase and optional passphrase
+ * using PBKDF2-HMAC-SHA512 (2048 iterations). The seed can be used with
+ * `deriveHdPrivateNodeFromSeed` to derive an HD wallet.
+ *
+ * Note, as specified by BIP39, this method does not validate the mnemonic
+ * phrase – any string produces a seed. Use `decodeBip39Mnemonic` to validate
+ * user input before deriving a seed.
+ *
+ * @param sha512 - an implementation of sha512 (a universal implementation is
+ * available via `instantiateSha512`)
+ * @param mnemonic - the mnemonic phrase
+ * @param passphrase - an optional passphrase, defaults to `''`
+ */
+export const deriveBip39Seed = (
+  sha512: { hash: Sha512['hash'] },
+  mnemonic: string,
+  passphrase = ''
+) =>
+  pbkdf2HmacSha512(sha512, {
+    derivedKeyLength: Internal.seedLength,
+    iterations: Internal.seedIterations,
+    password: utf8ToBin(mnemonic.normalize('NFKD')),
+    salt: utf8ToBin(`${saltPrefix}${passphrase}`.normalize('NFKD')),
+  });
@@ -0,0 +1,223 @@
+/* eslint-disable functional/no-expression-statement, @typescript-eslint/no-magic-numbers */
+
+import test, { Macro } from 'ava';
+
+import {
+  binToHex,
+  bip39WordlistChineseSimplified,
+  bip39WordlistChineseTraditional,
+  bip39WordlistCzech,
+  bip39WordlistEnglish,
+  bip39WordlistFrench,
+  bip39WordlistItalian,
+  bip39WordlistJapanese,
+  bip39WordlistKorean,
+  bip39WordlistPortuguese,
+  bip39WordlistSpanish,
+  Bip39MnemonicError,
+  decodeBip39Mnemonic,
+  deriveBip39Seed,
+  deriveHdPrivateNodeFromSeed,
+  encodeBip39Mnemonic,
+  encodeHdPrivateKey,
+  hexToBin,
+  instantiateBIP32Crypto,
+  instantiateSha256,
+  instantiateSha512,
+} from '../../lib';
+
+const sha256Promise = instantiateSha256();
+const sha512Promise = instantiateSha512();
+const crypto = instantiateBIP32Crypto();
+
+const vectors: Macro<[
+  { entropy: string; mnemonic: string; seed: string }
+]> = async (t, vector) => {
+  const sha256 = await sha256Promise;
+  const sha512 = await sha512Promise;
+  const entropy = hexToBin(vector.entropy);
+  t.deepEqual(encodeBip39Mnemonic(sha256, entropy), vector.mnemonic);
+  t.deepEqual(decodeBip39Mnemonic(sha256, vector.mnemonic), entropy);
+  t.deepEqual(
+    binToHex(deriveBip39Seed(sha512, vector.mnemonic, 'TREZOR')),
+    vector.seed
+  );
+};
+// eslint-disable-next-line functional/immutable-data
+vectors.title = (title) => `[key] BIP39 Test Vector #${title ?? '?'}`;
+
+test('1', vectors, {
+  entropy: '00000000000000000000000000000000',
+  mnemonic:
+    'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+  seed:
+    'c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04',
+});
+
+test('2', vectors, {
+  entropy: '7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f',
+  mnemonic:
+    'legal winner thank year wave sausage worth useful legal winner thank yellow',
+  seed:
+    '2e8905819b8723fe2c1d161860e5ee1830318dbf49a83bd451cfb8440c28bd6fa457fe1296106559a3c80937a1c1069be3a3a5bd381ee6260e8d9739fce1f607',
+});
+
+test('3', vectors, {
+  entropy: '808080808080808080808080808080808080808080808080',
+  mnemonic:
+    'letter advice cage absurd amount doctor acoustic avoid letter advice cage absurd amount doctor acoustic avoid letter always',
+  seed:
+    '107d7c02a5aa6f38c58083ff74f04c607c2d2c0ecc55501dadd72d025b751bc27fe913ffb796f841c49b1d33b610cf0e91d3aa239027f5e99fe4ce9e5088cd65',
+});
+
+test('4', vectors, {
+  entropy: 'ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+  mnemonic:
+    'zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo vote',
+  seed:
+    'dd48c104698c30cfe2b6142103248622fb7bb0ff692eebb00089b32d22484e1613912f0a5b694407be899ffd31ed3992c456cdf60f5d4564b8ba3f05a69890ad',
+});
+
+test('5', vectors, {
+  entropy: '9e885d952ad362caeb4efe34a8e91bd2',
+  mnemonic:
+    'ozone drill grab fiber curtain grace pudding thank cruise elder eight picnic',
+  seed:
+    '274ddc525802f7c828d8ef7ddbcdc5304e87ac3535913611fbbfa986d0c9e5476c91689f9c8a54fd55bd38606aa6a8595ad213d4c9c9f9aca3fb217069a41028',
+});
+
+test('6', vectors, {
+  entropy: 'f585c11aec520db57dd353c69554b21a89b20fb0650966fa0a9d6f74fd989d8f',
+  mnemonic:
+    'void come effort suffer camp survey warrior heavy shoot primary clutch crush open amazing screen patrol group space point ten exist slush involve unfold',
+  seed:
+    '01f5bced59dec48e362f2c45b5de68b9fd6c92c6634f44d6d40aab69056506f0e35524a518034ddc1192e1dacd32c1ed3eaa3c3b131c88ed8e7e54c49a5d0998',
+});
+
+test('[key] BIP39: Japanese mnemonic phrases (NFKD normalization)', async (t) => {
+  const sha256 = await sha256Promise;
+  const sha512 = await sha512Promise;
+  const entropy = hexToBin('00000000000000000000000000000000');
+  const mnemonic =
+    'あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あおぞら';
+  t.deepEqual(
+    encodeBip39Mnemonic(sha256, entropy, {
+      separator: '\u3000',
+      wordlist: bip39WordlistJapanese,
+    }),
+    mnemonic
+  );
+  t.deepEqual(
+    decodeBip39Mnemonic(sha256, mnemonic, bip39WordlistJapanese),
+    entropy
+  );
+  t.deepEqual(
+    decodeBip39Mnemonic(
+      sha256,
+      mnemonic.normalize('NFKD'),
+      bip39WordlistJapanese
+    ),
+    entropy
+  );
+  t.deepEqual(
+    binToHex(
+      deriveBip39Seed(sha512, mnemonic, '㍍ガバヴァぱばぐゞちぢ十人十色')
+    ),
+    'a262d6fb6122ecf45be09c50492b31f92e9beb7d9a845987a02cefda57a15f9c467a17872029a9e92299b5cbdf306e3a0ee620245cbd508959b6cb7ca637bd55'
+  );
+});
+
+test('[key] BIP39: wordlists', async (t) => {
+  const sha256 = await sha256Promise;
+  const wordlists = [
+    bip39WordlistChineseSimplified,
+    bip39WordlistChineseTraditional,
+    bip39WordlistCzech,
+    bip39WordlistEnglish,
+    bip39WordlistFrench,
+    bip39WordlistItalian,
+    bip39WordlistJapanese,
+    bip39WordlistKorean,
+    bip39WordlistPortuguese,
+    bip39WordlistSpanish,
+  ];
+  wordlists.forEach((wordlist) => {
+    t.is(wordlist.length, 2048);
+    t.is(new Set(wordlist).size, 2048);
+  });
+  t.deepEqual(
+    encodeBip39Mnemonic(sha256, hexToBin('7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f'), {
+      wordlist: bip39WordlistSpanish,
+    }),
+    'ligero vista talar yogur venta queso yacer trozo ligero vista talar zafiro'
+  );
+});
+
+test('[key] BIP39: errors', async (t) => {
+  const sha256 = await sha256Promise;
+  t.deepEqual(
+    encodeBip39Mnemonic(sha256, new Uint8Array(15)),
+    Bip39MnemonicError.invalidEntropyLength
+  );
+  t.deepEqual(
+    encodeBip39Mnemonic(sha256, new Uint8Array(36)),
+    Bip39MnemonicError.invalidEntropyLength
+  );
+  t.deepEqual(
+    encodeBip39Mnemonic(sha256, new Uint8Array(16), { wordlist: ['abandon'] }),
+    Bip39MnemonicError.invalidWordlist
+  );
+  t.deepEqual(
+    decodeBip39Mnemonic(sha256, 'abandon', ['abandon']),
+    Bip39MnemonicError.invalidWordlist
+  );
+  t.deepEqual(
+    decodeBip39Mnemonic(sha256, ''),
+    Bip39MnemonicError.invalidWordCount
+  );
+  t.deepEqual(
+    decodeBip39Mnemonic(
+      sha256,
+      'abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+    ),
+    Bip39MnemonicError.invalidWordCount
+  );
+  t.deepEqual(
+    decodeBip39Mnemonic(
+      sha256,
+      'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon bitcoin'
+    ),
+    Bip39MnemonicError.unknownWord
+  );
+  t.deepEqual(
+    decodeBip39Mnemonic(
+      sha256,
+      'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon'
+    ),
+    Bip39MnemonicError.invalidChecksum
+  );
+});
+
+test('[key] BIP39: decoding tolerates surrounding and repeated whitespace', async (t) => {
+  const sha256 = await sha256Promise;
+  t.deepEqual(
+    decodeBip39Mnemonic(
+      sha256,
+      '  legal winner thank year wave  sausage worth useful legal\nwinner thank yellow \n'
+    ),
+    hexToBin('7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f')
+  );
+});
+
+test('[key] BIP39: mnemonic seed to HD key', async (t) => {
+  const sha512 = await sha512Promise;
+  const seed = deriveBip39Seed(
+    sha512,
+    'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+  );
+  const node = deriveHdPrivateNodeFromSeed(await crypto, seed, true);
+  t.deepEqual(
+    encodeHdPrivateKey(await crypto, { network: 'mainnet', node }),
+    'xprv9s21ZrQH143K3GJpoapnV8SFfukcVBSfeCficPSGfubmSFDxo1kuHnLisriDvSnRRuL2Qrg5ggqHKNVpxR86QEC8w35uxmGoggxtQTPvfUu'
+  );
+});
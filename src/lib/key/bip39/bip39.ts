@@ -0,0 +1,11 @@
+export * from './bip39-mnemonic';
+export * from './bip39-wordlist-chinese-simplified';
+export * from './bip39-wordlist-chinese-traditional';
+export * from './bip39-wordlist-czech';
+export * from './bip39-wordlist-english';
+export * from './bip39-wordlist-french';
+export * from './bip39-wordlist-italian';
+export * from './bip39-wordlist-japanese';
+export * from './bip39-wordlist-korean';
+export * from './bip39-wordlist-portuguese';
+export * from './bip39-wordlist-spanish';
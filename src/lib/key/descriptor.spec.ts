@@ -0,0 +1,281 @@
+/* eslint-disable functional/no-expression-statement */
+
+import test, { Macro } from 'ava';
+
+import {
+  addressContentsToLockingBytecode,
+  AddressType,
+  binToHex,
+  decodeHdPublicKey,
+  deriveDescriptorLockingBytecode,
+  deriveDescriptorLockingBytecodeRange,
+  deriveHdPath,
+  descriptorChecksum,
+  Descriptor,
+  DescriptorError,
+  HdPublicNode,
+  hexToBin,
+  instantiateBIP32Crypto,
+  parseDescriptor,
+} from '../lib';
+
+const crypto = instantiateBIP32Crypto();
+
+const xpub =
+  'xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8';
+const xprv =
+  'xprv9s21ZrQH143K3QTDL4LXw2F7HEK3wJUD2nW2nRk4stbPy6cq3jPPqjiChkVvvNKmPGJxWUtg6LnF5kejMRNNU3TGtRBeJgk33yuGBxrMPHi';
+
+const lockingBytecode: Macro<[string, string]> = async (
+  t,
+  descriptor,
+  expected
+) => {
+  const parsed = parseDescriptor(await crypto, descriptor);
+  if (typeof parsed === 'string') {
+    t.fail(parsed);
+    return;
+  }
+  const bytecode = deriveDescriptorLockingBytecode(await crypto, parsed);
+  t.deepEqual(
+    typeof bytecode === 'string' ? bytecode : binToHex(bytecode),
+    expected
+  );
+};
+// eslint-disable-next-line functional/immutable-data
+lockingBytecode.title = (title) => `[crypto] parseDescriptor: ${title ?? '?'}`;
+
+test(
+  'pk()',
+  lockingBytecode,
+  'pk(0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798)',
+  '210279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798ac'
+);
+
+test(
+  'pkh() (WIF)',
+  lockingBytecode,
+  'pkh(L4rK1yDtCWekvXuE6oXD9jCYfFNV2cWRpVuPLBcCU2z8TrisoyY1)',
+  '76a9149a1c78a507689f6f54b847ad1cef1e614ee23f1e88ac'
+);
+
+test(
+  'pkh() (uncompressed WIF)',
+  lockingBytecode,
+  'pkh(5KYZdUEo39z3FPrtuX2QbbwGnNP5zTd7yyr2SC1j299sBCnWjss)',
+  '76a914b5bd079c4d57cc7fc28ecf8213a6b791625b818388ac'
+);
+
+test(
+  'sh(wpkh())',
+  lockingBytecode,
+  'sh(wpkh(03a34b99f22c790c4e36b2b3c2c35a36db06226e41c692fc82b8b56ac1c540c5bd))',
+  'a91484ab21b1b2fd065d4504ff693d832434b6108d7b87'
+);
+
+test(
+  'wsh(pkh())',
+  lockingBytecode,
+  'wsh(pkh(02e493dbf1c10d80f3581e4904930b1404cc6c13900ee0758474fa94abe8c4cd13))',
+  '0020fc5acc302aab97f821f9a61e1cc572e7968a603551e95d4ba12b51df6581482f'
+);
+
+test(
+  'multi()',
+  lockingBytecode,
+  'multi(1,022f8bde4d1a07209355b4a7250a5c5128e88b84bddc619ab7cba8d569b240efe4,025cbdf0646e5db4eaa398f365f2ea7a0e3d419b7e0330e39ce92bddedcac4f9bc)',
+  '5121022f8bde4d1a07209355b4a7250a5c5128e88b84bddc619ab7cba8d569b240efe421025cbdf0646e5db4eaa398f365f2ea7a0e3d419b7e0330e39ce92bddedcac4f9bc52ae'
+);
+
+test(
+  'sortedmulti()',
+  lockingBytecode,
+  'sortedmulti(1,025cbdf0646e5db4eaa398f365f2ea7a0e3d419b7e0330e39ce92bddedcac4f9bc,022f8bde4d1a07209355b4a7250a5c5128e88b84bddc619ab7cba8d569b240efe4)',
+  '5121022f8bde4d1a07209355b4a7250a5c5128e88b84bddc619ab7cba8d569b240efe421025cbdf0646e5db4eaa398f365f2ea7a0e3d419b7e0330e39ce92bddedcac4f9bc52ae'
+);
+
+test(
+  'addr() (CashAddress)',
+  lockingBytecode,
+  'addr(bitcoincash:qr95sy3j9xwd2ap32xkykttr4cvcu7as4y0qverfuy)',
+  '76a914cb481232299cd5743151ac4b2d63ae198e7bb0a988ac'
+);
+
+test(
+  'addr() (Base58Address)',
+  lockingBytecode,
+  'addr(1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2)',
+  '76a91477bff20c60e522dfaa3350c39b030a5d004e839a88ac'
+);
+
+test(
+  'raw() (with checksum)',
+  lockingBytecode,
+  'raw(deadbeef)#89f8spxm',
+  'deadbeef'
+);
+
+test('[crypto] descriptorChecksum', (t) => {
+  t.deepEqual(descriptorChecksum('raw(deadbeef)'), '89f8spxm');
+  t.deepEqual(
+    descriptorChecksum(
+      'pkh(02c6047f9441ed7d6d3045406e95c07cd85c778e4b8cef3ca7abac09b95c709ee5)'
+    ),
+    '8fhd9pwu'
+  );
+  t.deepEqual(descriptorChecksum('raw(é)'), DescriptorError.invalidCharacter);
+});
+
+test('[crypto] deriveDescriptorLockingBytecodeRange', async (t) => {
+  const bip32Crypto = await crypto;
+  const parsed = parseDescriptor(
+    bip32Crypto,
+    `pkh([d34db33f/44h/0h/0h]${xpub}/1/*)`
+  ) as Descriptor;
+  const { node } = decodeHdPublicKey(bip32Crypto, xpub) as {
+    node: HdPublicNode;
+  };
+  t.true(parsed.isRange);
+  t.deepEqual(parsed.script, {
+    key: {
+      derivationPath: 'M/1/i',
+      hdKey: xpub,
+      node,
+      origin: { fingerprint: hexToBin('d34db33f'), path: "m/44'/0'/0'" },
+      type: 'hdKey',
+    },
+    type: 'pkh',
+  });
+  t.deepEqual(
+    deriveDescriptorLockingBytecodeRange(bip32Crypto, parsed, 3, 5),
+    [5, 6, 7].map((index) => ({
+      index,
+      lockingBytecode: addressContentsToLockingBytecode({
+        payload: bip32Crypto.ripemd160.hash(
+          bip32Crypto.sha256.hash(
+            (deriveHdPath(bip32Crypto, node, `M/1/${index}`) as HdPublicNode)
+              .publicKey
+          )
+        ),
+        type: AddressType.p2pkh,
+      }),
+    }))
+  );
+  t.deepEqual(
+    deriveDescriptorLockingBytecode(bip32Crypto, parsed, 0x80000000),
+    DescriptorError.invalidIndex
+  );
+});
+
+test('[crypto] deriveDescriptorLockingBytecodeRange: sh(sortedmulti())', async (t) => {
+  const parsed = parseDescriptor(
+    await crypto,
+    `sh(sortedmulti(2,${xpub}/0/*,${xprv}/1'/*',${xpub}/2/*))`
+  ) as Descriptor;
+  t.deepEqual(
+    (deriveDescriptorLockingBytecodeRange(await crypto, parsed, 2) as {
+      lockingBytecode: Uint8Array;
+    }[]).map((result) => binToHex(result.lockingBytecode)),
+    [
+      'a9144708a8d8482cb99f008acfea7fd39a7c0d8aa67087',
+      'a914749def4e4393e6f94987ef4fa3c7eb3d2105793c87',
+    ]
+  );
+});
+
+const error: Macro<[string, DescriptorError]> = async (
+  t,
+  descriptor,
+  expected
+) => {
+  t.deepEqual(parseDescriptor(await crypto, descriptor), expected);
+};
+// eslint-disable-next-line functional/immutable-data
+error.title = (title) => `[crypto] parseDescriptor: ${title ?? '?'} (error)`;
+
+test(
+  'invalid checksum',
+  error,
+  'raw(deadbeef)#89f8spxx',
+  DescriptorError.invalidChecksum
+);
+test(
+  'unknown expression',
+  error,
+  `foo(${xpub})`,
+  DescriptorError.invalidExpression
+);
+test(
+  'sh() within sh()',
+  error,
+  `sh(sh(pk(${xpub})))`,
+  DescriptorError.invalidContext
+);
+test(
+  'hardened derivation from an HD public key',
+  error,
+  `pkh(${xpub}/1'/*)`,
+  DescriptorError.hardenedDerivationRequiresPrivateKey
+);
+test(
+  'uncompressed key within wpkh()',
+  error,
+  'wpkh(5KYZdUEo39z3FPrtuX2QbbwGnNP5zTd7yyr2SC1j299sBCnWjss)',
+  DescriptorError.uncompressedKeyNotAllowed
+);
+test(
+  'invalid threshold',
+  error,
+  `multi(3,${xpub},${xpub})`,
+  DescriptorError.invalidThreshold
+);
+test(
+  'too many bare multisig keys',
+  error,
+  `multi(1,${xpub},${xpub},${xpub},${xpub})`,
+  DescriptorError.tooManyKeys
+);
+test(
+  'sh() multisig with more than 15 compressed keys',
+  error,
+  `sh(multi(1,${Array(16).fill(xpub).join(',')}))`,
+  DescriptorError.redeemBytecodeTooLong
+);
+test(
+  'sh() multisig with more than 7 uncompressed keys',
+  error,
+  `sh(multi(1,${Array(8)
+    .fill('5KYZdUEo39z3FPrtuX2QbbwGnNP5zTd7yyr2SC1j299sBCnWjss')
+    .join(',')}))`,
+  DescriptorError.redeemBytecodeTooLong
+);
+test(
+  'invalid key origin',
+  error,
+  `pkh([d34db33/0]${xpub})`,
+  DescriptorError.invalidKeyOrigin
+);
+test('invalid key', error, 'pkh(02)', DescriptorError.invalidKey);
+
+test('[crypto] parseDescriptor: multisig redeem bytecode length', async (t) => {
+  const keys = (count: number) => Array(count).fill(xpub).join(',');
+  t.is(
+    typeof parseDescriptor(await crypto, `sh(multi(1,${keys(15)}))`),
+    'object'
+  );
+  t.is(
+    typeof parseDescriptor(await crypto, `wsh(multi(1,${keys(20)}))`),
+    'object'
+  );
+  t.is(
+    typeof parseDescriptor(await crypto, `sh(wsh(multi(1,${keys(20)})))`),
+    'object'
+  );
+});
+
+test('[crypto] parseDescriptor: missing checksum', async (t) => {
+  t.deepEqual(
+    parseDescriptor(await crypto, 'raw(deadbeef)', true),
+    DescriptorError.missingChecksum
+  );
+});
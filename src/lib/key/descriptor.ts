@@ -0,0 +1,754 @@
+import {
+  addressContentsToLockingBytecode,
+  AddressType,
+  base58AddressToLockingBytecode,
+  cashAddressToLockingBytecode,
+  segWitAddressToLockingBytecode,
+} from '../address/address';
+import { Ripemd160, Secp256k1, Sha256, Sha512 } from '../crypto/crypto';
+import {
+  compareBin,
+  flattenBinArray,
+  hexToBin,
+  isHex,
+  range,
+  splitEvery,
+} from '../format/format';
+import { bigIntToScriptNumber, encodeDataPush, OpcodesCommon } from '../vm/vm';
+
+import {
+  decodeHdKey,
+  deriveHdPath,
+  HdNodeDerivationError,
+  HdPrivateNodeValid,
+  HdPublicNode,
+} from './hd-key';
+import { decodePrivateKeyWif } from './wallet-import-format';
+
+/**
+ * Output script descriptors, a language for describing collections of output
+ * scripts (and the keys from which they are derived) as defined by BIP380
+ * through BIP386.
+ *
+ * Supported script expressions are `pk()`, `pkh()`, `wpkh()`, `sh()`,
+ * `wsh()`, `multi()`, `sortedmulti()`, `addr()`, and `raw()`. Key expressions
+ * may be hex-encoded public keys, WIF-encoded private keys, or HD keys (with
+ * optional key origin information, child derivation steps, and a final `/*`
+ * or `/*'` range).
+ */
+
+export enum DescriptorError {
+  invalidCharacter = 'Descriptor error: the descriptor includes a character which is not allowed in descriptors.',
+  missingChecksum = 'Descriptor error: a checksum is required, but the descriptor does not include one.',
+  invalidChecksum = 'Descriptor error: the checksum does not match the descriptor.',
+  invalidExpression = 'Descriptor error: the descriptor includes an invalid or unknown script expression.',
+  invalidContext = 'Descriptor error: a script expression is used in a context in which it is not allowed (e.g. "sh()" within "wsh()", or "addr()" within "sh()").',
+  invalidKey = 'Descriptor error: a key expression is not a valid hex-encoded public key, WIF-encoded private key, or HD key.',
+  invalidKeyOrigin = "Descriptor error: a key origin must include an 8-character hex-encoded fingerprint followed by a valid derivation path, e.g. \"[d34db33f/44'/145'/0']\".",
+  invalidDerivationPath = 'Descriptor error: the derivation steps following an HD key must be child indexes (less than 2147483648), optionally followed by a "/*" range.',
+  hardenedDerivationRequiresPrivateKey = 'Descriptor error: hardened derivation requires an HD private key.',
+  uncompressedKeyNotAllowed = 'Descriptor error: uncompressed public keys are not allowed within "wpkh()" or "wsh()".',
+  invalidThreshold = 'Descriptor error: the threshold of a multisig expression must be between 1 and the number of keys.',
+  tooManyKeys = 'Descriptor error: multisig expressions may include at most 20 keys (at most 3 if not within "sh()" or "wsh()"). Within "sh()", the redeem bytecode is further limited to 520 bytes (at most 15 compressed keys).',
+  invalidAddress = 'Descriptor error: the address is not a valid CashAddress, Base58Address, or SegWit address.',
+  invalidHex = 'Descriptor error: "raw()" requires hex-encoded bytecode.',
+  invalidIndex = 'Descriptor error: the derivation index must be a non-hardened child index (between 0 and 2147483647).',
+  redeemBytecodeTooLong = 'Descriptor error: the redeem bytecode of "sh()" exceeds the maximum length for P2SH (520 bytes), e.g. a multisig expression within "sh()" may include at most 15 compressed keys.',
+}
+
+const enum Internal {
+  checksumLength = 8,
+  compressedPublicKeyLength = 33,
+  checksumSymbolBits = 5,
+  checksumSymbolMask = 31,
+  fingerprintHexLength = 8,
+  groupSize = 3,
+  hardenedIndexOffset = 0x80000000,
+  maximumBareMultisigKeys = 3,
+  maximumMultisigKeys = 20,
+  maximumRedeemBytecodeLength = 520,
+  opcodeLength = 1,
+}
+
+/**
+ * The origin of a key within a descriptor, e.g. `[d34db33f/44'/145'/0']`.
+ */
+export interface DescriptorKeyOrigin {
+  /**
+   * The 4-byte fingerprint of the master key from which the key was derived.
+   */
+  fingerprint: Uint8Array;
+  /**
+   * The derivation path from the master key to the key, e.g. `m/44'/145'/0'`.
+   */
+  path: string;
+}
+
+interface DescriptorKeyBase {
+  origin?: DescriptorKeyOrigin;
+}
+
+/**
+ * A hex-encoded (compressed or uncompressed) public key.
+ */
+export interface DescriptorPublicKey extends DescriptorKeyBase {
+  type: 'publicKey';
+  publicKey: Uint8Array;
+}
+
+/**
+ * A WIF-encoded private key.
+ */
+export interface DescriptorPrivateKey extends DescriptorKeyBase {
+  type: 'privateKey';
+  compressed: boolean;
+  privateKey: Uint8Array;
+}
+
+/**
+ * An HD public or private key followed by zero or more derivation steps.
+ */
+export interface DescriptorHdKey extends DescriptorKeyBase {
+  type: 'hdKey';
+  /**
+   * The HD key as it appears in the descriptor.
+   */
+  hdKey: string;
+  node: HdPrivateNodeValid | HdPublicNode;
+  /**
+   * The derivation path from `node` to each derived key. This uses the same
+   * notation as the `privateDerivationPath` and `publicDerivationPath` of an
+   * authentication template `HdKey`: if the key is a range (ends in `/*` or
+   * `/*'`), the final index is `i` (or `i'` for hardened ranges), e.g.
+   * `M/0/i`.
+   */
+  derivationPath: string;
+}
+
+export type DescriptorKey =
+  | DescriptorHdKey
+  | DescriptorPrivateKey
+  | DescriptorPublicKey;
+
+export type DescriptorScript =
+  | { type: 'pk' | 'pkh' | 'wpkh'; key: DescriptorKey }
+  | { type: 'sh' | 'wsh'; script: DescriptorScript }
+  | {
+      type: 'multi' | 'sortedmulti';
+      threshold: number;
+      keys: DescriptorKey[];
+    }
+  | { type: 'addr'; address: string; lockingBytecode: Uint8Array }
+  | { type: 'raw'; bytecode: Uint8Array };
+
+/**
+ * A parsed output script descriptor. See `parseDescriptor` for details.
+ */
+export interface Descriptor {
+  /**
+   * The 8-character checksum of the descriptor.
+   */
+  checksum: string;
+  /**
+   * If `true`, the descriptor includes an HD key range (`/*`), and a different
+   * locking bytecode is derived at each index.
+   */
+  isRange: boolean;
+  script: DescriptorScript;
+}
+
+const descriptorInputCharset =
+  '0123456789()[],\'/*abcdefgh@:$%{}IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~ijklmnopqrstuvwxyzABCDEFGH`#"\\ ';
+const descriptorChecksumCharset = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const descriptorChecksumGenerator = [
+  '0xf5dee51989',
+  '0xa9fdca3312',
+  '0x1bab10e32d',
+  '0x3706b1677a',
+  '0x644d626ffd',
+].map((generator) => BigInt(generator));
+
+/**
+ * The BCH code polynomial modulo used by descriptor checksums (BIP380).
+ */
+const descriptorPolynomialModulo = (symbols: readonly number[]) =>
+  symbols.reduce((checksum, symbol) => {
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    const top = checksum >> BigInt(35);
+    return descriptorChecksumGenerator.reduce(
+      (result, generator, i) =>
+        // eslint-disable-next-line no-bitwise
+        ((top >> BigInt(i)) & BigInt(1)) === BigInt(1)
+          ? // eslint-disable-next-line no-bitwise
+            result ^ generator
+          : result,
+      // eslint-disable-next-line no-bitwise, @typescript-eslint/no-magic-numbers
+      ((checksum & BigInt('0x7ffffffff')) << BigInt(5)) ^ BigInt(symbol)
+    );
+  }, BigInt(1));
+
+/**
+ * Compute the 8-character checksum of a descriptor (as defined by BIP380),
+ * e.g. `raw(deadbeef)` has a checksum of `89f8spxm` (and is written with its
+ * checksum as `raw(deadbeef)#89f8spxm`).
+ *
+ * If `descriptor` includes a character which may not be used in descriptors,
+ * returns `DescriptorError.invalidCharacter`.
+ *
+ * @param descriptor - the descriptor (without a checksum)
+ */
+export const descriptorChecksum = (descriptor: string) => {
+  if (
+    descriptor
+      .split('')
+      .some((character) => !descriptorInputCharset.includes(character))
+  ) {
+    return DescriptorError.invalidCharacter;
+  }
+  const symbols = splitEvery(descriptor, Internal.groupSize).reduce<number[]>(
+    (all, group) => {
+      const values = group
+        .split('')
+        .map((character) => descriptorInputCharset.indexOf(character));
+      return [
+        ...all,
+        // eslint-disable-next-line no-bitwise
+        ...values.map((value) => value & Internal.checksumSymbolMask),
+        values.reduce(
+          // eslint-disable-next-line no-bitwise, @typescript-eslint/no-magic-numbers
+          (classes, value) => classes * Internal.groupSize + (value >> 5),
+          0
+        ),
+      ];
+    },
+    []
+  );
+  const checksum =
+    // eslint-disable-next-line no-bitwise
+    descriptorPolynomialModulo([
+      ...symbols,
+      ...new Array<number>(Internal.checksumLength).fill(0),
+    ]) ^ BigInt(1);
+  return range(Internal.checksumLength)
+    .map(
+      (i) =>
+        descriptorChecksumCharset[
+          Number(
+            // eslint-disable-next-line no-bitwise
+            (checksum >>
+              BigInt(
+                Internal.checksumSymbolBits * (Internal.checksumLength - 1 - i)
+              )) &
+              BigInt(Internal.checksumSymbolMask)
+          )
+        ]
+    )
+    .join('');
+};
+
+/**
+ * Split the arguments of a script expression at each top-level comma.
+ */
+const splitArguments = (args: string) =>
+  args.split('').reduce<{ depth: number; parts: string[] }>(
+    ({ depth, parts }, character) =>
+      character === ',' && depth === 0
+        ? { depth, parts: [...parts, ''] }
+        : {
+            depth:
+              character === '('
+                ? depth + 1
+                : character === ')'
+                ? depth - 1
+                : depth,
+            parts: [
+              ...parts.slice(0, -1),
+              `${parts[parts.length - 1]}${character}`,
+            ],
+          },
+    { depth: 0, parts: [''] }
+  ).parts;
+
+/**
+ * Normalize a list of descriptor derivation steps (e.g. `['0h', "1'", '2']`)
+ * to the notation used by `deriveHdPath` (e.g. `0'/1'/2`), returning
+ * `undefined` if any step is invalid.
+ */
+const normalizeDerivationSteps = (steps: string[]) => {
+  const normalized = steps.map((step) => {
+    const match = /^(?<index>[0-9]+)(?<hardened>['h]?)$/u.exec(step);
+    return match?.groups === undefined ||
+      Number(match.groups.index) >= Internal.hardenedIndexOffset
+      ? undefined
+      : `${Number(match.groups.index)}${
+          match.groups.hardened === '' ? '' : "'"
+        }`;
+  });
+  return normalized.includes(undefined) ? undefined : (normalized as string[]);
+};
+
+const keyOriginPattern = /^\[(?<fingerprint>[^/\]]*)(?<path>[^\]]*)\](?<key>.*)$/u;
+const publicKeyPattern = /^(?:0[23][0-9a-fA-F]{64}|04[0-9a-fA-F]{128})$/u;
+
+/**
+ * Parse the derivation steps following an HD key (e.g. `/0/*`).
+ */
+const parseHdKeyDerivation = (
+  node: HdPrivateNodeValid | HdPublicNode,
+  steps: string[]
+) => {
+  const isPrivate = 'privateKey' in node;
+  const rangeMatch = /^\*(?<hardened>['h]?)$/u.exec(steps[steps.length - 1]);
+  const fixedSteps = rangeMatch === null ? steps : steps.slice(0, -1);
+  const normalized = normalizeDerivationSteps(fixedSteps);
+  if (normalized === undefined) {
+    return DescriptorError.invalidDerivationPath;
+  }
+  const rangeStep =
+    rangeMatch === null
+      ? []
+      : [rangeMatch.groups?.hardened === '' ? 'i' : "i'"];
+  const path = [...normalized, ...rangeStep];
+  if (!isPrivate && path.some((step) => step.endsWith("'"))) {
+    return DescriptorError.hardenedDerivationRequiresPrivateKey;
+  }
+  return [isPrivate ? 'm' : 'M', ...path].join('/');
+};
+
+/**
+ * Parse a key expression.
+ */
+// eslint-disable-next-line complexity
+const parseKey = (
+  crypto: { sha256: { hash: Sha256['hash'] } },
+  expression: string
+): DescriptorKey | DescriptorError => {
+  const originMatch = keyOriginPattern.exec(expression);
+  const groups = originMatch?.groups;
+  const originSteps = groups?.path.split('/').slice(1) ?? [];
+  const normalizedOriginSteps = normalizeDerivationSteps(originSteps);
+  if (
+    groups !== undefined &&
+    (groups.fingerprint.length !== Internal.fingerprintHexLength ||
+      !isHex(groups.fingerprint) ||
+      (groups.path !== '' && !groups.path.startsWith('/')) ||
+      normalizedOriginSteps === undefined)
+  ) {
+    return DescriptorError.invalidKeyOrigin;
+  }
+  const origin =
+    groups === undefined
+      ? {}
+      : {
+          origin: {
+            fingerprint: hexToBin(groups.fingerprint),
+            path: ['m', ...(normalizedOriginSteps as string[])].join('/'),
+          },
+        };
+  const key = groups === undefined ? expression : groups.key;
+
+  if (publicKeyPattern.test(key)) {
+    return { ...origin, publicKey: hexToBin(key), type: 'publicKey' };
+  }
+
+  const [encoded, ...steps] = key.split('/');
+  const hdKey = decodeHdKey(crypto, encoded);
+  if (typeof hdKey !== 'string') {
+    if ('valid' in hdKey.node && !hdKey.node.valid) {
+      return DescriptorError.invalidKey;
+    }
+    const derivationPath = parseHdKeyDerivation(hdKey.node, steps);
+    return derivationPath === DescriptorError.invalidDerivationPath ||
+      derivationPath === DescriptorError.hardenedDerivationRequiresPrivateKey
+      ? derivationPath
+      : {
+          ...origin,
+          derivationPath,
+          hdKey: encoded,
+          node: hdKey.node,
+          type: 'hdKey',
+        };
+  }
+
+  if (steps.length !== 0) {
+    return DescriptorError.invalidKey;
+  }
+  const wif = decodePrivateKeyWif(crypto.sha256, key);
+  return typeof wif === 'string'
+    ? DescriptorError.invalidKey
+    : {
+        ...origin,
+        compressed: !wif.type.endsWith('uncompressed'),
+        privateKey: wif.privateKey,
+        type: 'privateKey',
+      };
+};
+
+const uncompressedPublicKeyLength = 65;
+
+const isUncompressed = (key: DescriptorKey) =>
+  (key.type === 'publicKey' &&
+    key.publicKey.length === uncompressedPublicKeyLength) ||
+  (key.type === 'privateKey' && !key.compressed);
+
+/**
+ * Get the length of the bytecode which will be compiled from a multisig
+ * expression (see `compileScript`). The length of each public key is known
+ * before derivation: HD keys always derive compressed public keys.
+ */
+const multisigBytecodeLength = (threshold: number, keys: DescriptorKey[]) =>
+  encodeDataPush(bigIntToScriptNumber(BigInt(threshold))).length +
+  keys.reduce(
+    (total, key) =>
+      total +
+      Internal.opcodeLength +
+      (key.type === 'publicKey'
+        ? key.publicKey.length
+        : isUncompressed(key)
+        ? uncompressedPublicKeyLength
+        : Internal.compressedPublicKeyLength),
+    0
+  ) +
+  encodeDataPush(bigIntToScriptNumber(BigInt(keys.length))).length +
+  Internal.opcodeLength;
+
+type DescriptorContext = 'sh' | 'top' | 'wsh';
+
+const keyScriptTypes = ['pk', 'pkh', 'wpkh'];
+const multisigScriptTypes = ['multi', 'sortedmulti'];
+
+/**
+ * Parse a script expression within the provided context.
+ */
+// eslint-disable-next-line complexity
+const parseScript = (
+  crypto: { sha256: { hash: Sha256['hash'] } },
+  expression: string,
+  context: DescriptorContext
+): DescriptorScript | DescriptorError => {
+  const match = /^(?<type>[a-z]+)\((?<args>.*)\)$/su.exec(expression);
+  if (match?.groups === undefined) {
+    return DescriptorError.invalidExpression;
+  }
+  const { type } = match.groups;
+  const args = splitArguments(match.groups.args);
+  const segWitContext = context === 'wsh' || type === 'wpkh';
+
+  if (keyScriptTypes.includes(type)) {
+    if (args.length !== 1) {
+      return DescriptorError.invalidExpression;
+    }
+    if (type === 'wpkh' && context === 'wsh') {
+      return DescriptorError.invalidContext;
+    }
+    const key = parseKey(crypto, args[0]);
+    return typeof key === 'string'
+      ? key
+      : segWitContext && isUncompressed(key)
+      ? DescriptorError.uncompressedKeyNotAllowed
+      : { key, type: type as 'pk' | 'pkh' | 'wpkh' };
+  }
+
+  if (type === 'sh' || type === 'wsh') {
+    if (args.length !== 1) {
+      return DescriptorError.invalidExpression;
+    }
+    if (context === 'wsh' || (type === 'sh' && context === 'sh')) {
+      return DescriptorError.invalidContext;
+    }
+    const script = parseScript(crypto, args[0], type);
+    return typeof script === 'string' ? script : { script, type };
+  }
+
+  if (multisigScriptTypes.includes(type)) {
+    const [thresholdArgument, ...keyArguments] = args;
+    const threshold = Number(thresholdArgument);
+    if (
+      !/^[0-9]+$/u.test(thresholdArgument) ||
+      threshold < 1 ||
+      threshold > keyArguments.length
+    ) {
+      return DescriptorError.invalidThreshold;
+    }
+    if (
+      keyArguments.length > Internal.maximumMultisigKeys ||
+      (context === 'top' &&
+        keyArguments.length > Internal.maximumBareMultisigKeys)
+    ) {
+      return DescriptorError.tooManyKeys;
+    }
+    const keys = keyArguments.map((argument) => parseKey(crypto, argument));
+    const error = keys.find(
+      (key): key is DescriptorError => typeof key === 'string'
+    );
+    if (error !== undefined) {
+      return error;
+    }
+    return segWitContext && (keys as DescriptorKey[]).some(isUncompressed)
+      ? DescriptorError.uncompressedKeyNotAllowed
+      : context === 'sh' &&
+        multisigBytecodeLength(threshold, keys as DescriptorKey[]) >
+          Internal.maximumRedeemBytecodeLength
+      ? DescriptorError.redeemBytecodeTooLong
+      : {
+          keys: keys as DescriptorKey[],
+          threshold,
+          type: type as 'multi' | 'sortedmulti',
+        };
+  }
+
+  if (type === 'addr' || type === 'raw') {
+    if (args.length !== 1) {
+      return DescriptorError.invalidExpression;
+    }
+    if (context !== 'top') {
+      return DescriptorError.invalidContext;
+    }
+    if (type === 'raw') {
+      return isHex(args[0])
+        ? { bytecode: hexToBin(args[0]), type }
+        : DescriptorError.invalidHex;
+    }
+    const lockingBytecode = [
+      cashAddressToLockingBytecode(args[0]),
+      base58AddressToLockingBytecode(crypto.sha256, args[0]),
+      segWitAddressToLockingBytecode(args[0]),
+    ]
+      .map((result) =>
+        typeof result === 'string' ? undefined : result.bytecode
+      )
+      .find((bytecode) => bytecode !== undefined);
+    return lockingBytecode === undefined
+      ? DescriptorError.invalidAddress
+      : { address: args[0], lockingBytecode, type };
+  }
+
+  return DescriptorError.invalidExpression;
+};
+
+const isRangeKey = (key: DescriptorKey) =>
+  key.type === 'hdKey' && /i'?$/u.test(key.derivationPath);
+
+const isRangeScript = (script: DescriptorScript): boolean =>
+  script.type === 'sh' || script.type === 'wsh'
+    ? isRangeScript(script.script)
+    : script.type === 'multi' || script.type === 'sortedmulti'
+    ? script.keys.some(isRangeKey)
+    : 'key' in script && isRangeKey(script.key);
+
+/**
+ * Parse an output script descriptor (as defined by BIP380 through BIP386),
+ * e.g. `sh(sortedmulti(2,xpub.../0/*,xpub.../0/*))` or
+ * `pkh([d34db33f/44'/145'/0']xpub.../0/*)#checksum`.
+ *
+ * If the descriptor includes a checksum, it is verified. If `requireChecksum`
+ * is `true`, descriptors without a checksum are rejected.
+ *
+ * If the descriptor is invalid, a `DescriptorError` is returned.
+ *
+ * @param crypto - an implementation of sha256
+ * @param descriptor - the descriptor to parse
+ * @param requireChecksum - if `true`, the descriptor must include a checksum
+ * (defaults to `false`)
+ */
+export const parseDescriptor = (
+  crypto: { sha256: { hash: Sha256['hash'] } },
+  descriptor: string,
+  requireChecksum = false
+): Descriptor | DescriptorError => {
+  const [expression, providedChecksum, ...extra] = descriptor.split('#');
+  if (extra.length !== 0) {
+    return DescriptorError.invalidCharacter;
+  }
+  const checksum = descriptorChecksum(expression);
+  if (checksum === DescriptorError.invalidCharacter) {
+    return checksum;
+  }
+  if (providedChecksum === undefined && requireChecksum) {
+    return DescriptorError.missingChecksum;
+  }
+  if (providedChecksum !== undefined && providedChecksum !== checksum) {
+    return DescriptorError.invalidChecksum;
+  }
+  const script = parseScript(crypto, expression, 'top');
+  return typeof script === 'string'
+    ? script
+    : { checksum, isRange: isRangeScript(script), script };
+};
+
+/**
+ * The crypto implementations required to derive the public keys and locking
+ * bytecode described by a descriptor – these are available via
+ * `instantiateBIP32Crypto`.
+ */
+export interface DescriptorDerivationCrypto {
+  ripemd160: { hash: Ripemd160['hash'] };
+  secp256k1: {
+    addTweakPrivateKey: Secp256k1['addTweakPrivateKey'];
+    addTweakPublicKeyCompressed: Secp256k1['addTweakPublicKeyCompressed'];
+    derivePublicKeyCompressed: Secp256k1['derivePublicKeyCompressed'];
+    derivePublicKeyUncompressed: Secp256k1['derivePublicKeyUncompressed'];
+  };
+  sha256: { hash: Sha256['hash'] };
+  sha512: { hash: Sha512['hash'] };
+}
+
+/**
+ * Derive the public key of a descriptor key expression at the provided index.
+ * For keys which are not ranges, the same public key is derived at every
+ * index.
+ *
+ * If derivation fails, an error message is returned as a string.
+ *
+ * @param crypto - implementations of sha256, sha512, ripemd160, and secp256k1
+ * derivation functions – these are available via `instantiateBIP32Crypto`
+ * @param key - the parsed key expression
+ * @param index - the index at which to derive the public key
+ */
+export const deriveDescriptorPublicKey = (
+  crypto: DescriptorDerivationCrypto,
+  key: DescriptorKey,
+  index: number
+) => {
+  if (key.type === 'publicKey') {
+    return key.publicKey;
+  }
+  if (key.type === 'privateKey') {
+    return key.compressed
+      ? crypto.secp256k1.derivePublicKeyCompressed(key.privateKey)
+      : crypto.secp256k1.derivePublicKeyUncompressed(key.privateKey);
+  }
+  const node = deriveHdPath(
+    crypto,
+    key.node,
+    key.derivationPath.replace('i', index.toString())
+  );
+  return typeof node === 'string'
+    ? node
+    : 'privateKey' in node
+    ? crypto.secp256k1.derivePublicKeyCompressed(node.privateKey)
+    : node.publicKey;
+};
+
+/**
+ * Compile a script expression at the provided index.
+ */
+// eslint-disable-next-line complexity
+const compileScript = (
+  crypto: DescriptorDerivationCrypto,
+  script: DescriptorScript,
+  index: number
+): Uint8Array | string => {
+  const hash160 = (input: Uint8Array) =>
+    crypto.ripemd160.hash(crypto.sha256.hash(input));
+
+  if ('key' in script) {
+    const publicKey = deriveDescriptorPublicKey(crypto, script.key, index);
+    return typeof publicKey === 'string'
+      ? publicKey
+      : script.type === 'pk'
+      ? flattenBinArray([
+          encodeDataPush(publicKey),
+          Uint8Array.of(OpcodesCommon.OP_CHECKSIG),
+        ])
+      : addressContentsToLockingBytecode({
+          payload: hash160(publicKey),
+          type: script.type === 'pkh' ? AddressType.p2pkh : AddressType.p2wpkh,
+        });
+  }
+
+  if ('script' in script) {
+    const inner = compileScript(crypto, script.script, index);
+    if (typeof inner === 'string') {
+      return inner;
+    }
+    if (script.type === 'wsh') {
+      return addressContentsToLockingBytecode({
+        payload: crypto.sha256.hash(inner),
+        type: AddressType.p2wsh,
+      });
+    }
+    return addressContentsToLockingBytecode({
+      payload: hash160(inner),
+      type: AddressType.p2sh,
+    });
+  }
+
+  if ('keys' in script) {
+    const keys = script.keys.map((key) =>
+      deriveDescriptorPublicKey(crypto, key, index)
+    );
+    const error = keys.find(
+      (key): key is HdNodeDerivationError => typeof key === 'string'
+    );
+    if (error !== undefined) {
+      return error;
+    }
+    const publicKeys = (keys as Uint8Array[]).slice();
+    const ordered =
+      script.type === 'sortedmulti' ? publicKeys.sort(compareBin) : publicKeys;
+    return flattenBinArray([
+      encodeDataPush(bigIntToScriptNumber(BigInt(script.threshold))),
+      ...ordered.map(encodeDataPush),
+      encodeDataPush(bigIntToScriptNumber(BigInt(ordered.length))),
+      Uint8Array.of(OpcodesCommon.OP_CHECKMULTISIG),
+    ]);
+  }
+
+  return script.type === 'addr' ? script.lockingBytecode : script.bytecode;
+};
+
+/**
+ * Derive the locking bytecode described by a parsed descriptor (see
+ * `parseDescriptor`) at the provided index. For descriptors which are not
+ * ranges (`isRange` is `false`), the same locking bytecode is derived at
+ * every index.
+ *
+ * If derivation fails, an error message is returned as a string.
+ *
+ * @param crypto - implementations of sha256, sha512, ripemd160, and secp256k1
+ * derivation functions – these are available via `instantiateBIP32Crypto`
+ * @param descriptor - the parsed descriptor
+ * @param index - the index at which to derive the locking bytecode (a
+ * non-hardened child index; for hardened ranges, the hardened index offset is
+ * added automatically)
+ */
+export const deriveDescriptorLockingBytecode = (
+  crypto: DescriptorDerivationCrypto,
+  descriptor: Descriptor,
+  index = 0
+) =>
+  Number.isInteger(index) && index >= 0 && index < Internal.hardenedIndexOffset
+    ? compileScript(crypto, descriptor.script, index)
+    : DescriptorError.invalidIndex;
+
+/**
+ * Derive the locking bytecode described by a parsed descriptor (see
+ * `parseDescriptor`) for each index in a range, e.g. to import a watch-only
+ * wallet.
+ *
+ * If derivation fails at any index, an error message is returned as a string.
+ *
+ * @param crypto - implementations of sha256, sha512, ripemd160, and secp256k1
+ * derivation functions – these are available via `instantiateBIP32Crypto`
+ * @param descriptor - the parsed descriptor
+ * @param count - the number of indexes for which to derive locking bytecode
+ * @param startIndex - the first index to derive (defaults to `0`)
+ */
+export const deriveDescriptorLockingBytecodeRange = (
+  crypto: DescriptorDerivationCrypto,
+  descriptor: Descriptor,
+  count: number,
+  startIndex = 0
+) => {
+  const results = range(count, startIndex).map((index) => ({
+    index,
+    lockingBytecode: deriveDescriptorLockingBytecode(crypto, descriptor, index),
+  }));
+  const failed = results.find(
+    (result) => typeof result.lockingBytecode === 'string'
+  );
+  return failed === undefined
+    ? (results as { index: number; lockingBytecode: Uint8Array }[])
+    : (failed.lockingBytecode as string);
+};
@@ -0,0 +1,177 @@
+/* eslint-disable functional/no-expression-statement */
+import test from 'ava';
+
+import {
+  addressContentsToLockingBytecode,
+  AddressType,
+  base58AddressToLockingBytecode,
+  binToHex,
+  deriveBip39Seed,
+  deriveHdPath,
+  deriveHdPrivateNodeFromSeed,
+  deriveHdPublicNode,
+  HdAccountHistoryCallback,
+  HdAccountScanError,
+  hdAccountPath,
+  HdPrivateNodeValid,
+  HdPublicNode,
+  instantiateBIP32Crypto,
+  scanHdAccount,
+} from '../lib';
+
+const crypto = instantiateBIP32Crypto();
+
+const mnemonic =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+const rootNode = async () =>
+  deriveHdPrivateNodeFromSeed(
+    await crypto,
+    deriveBip39Seed((await crypto).sha512, mnemonic),
+    true
+  );
+
+const p2pkhAt = async (path: string) => {
+  const bip32Crypto = await crypto;
+  const node = deriveHdPath(
+    bip32Crypto,
+    await rootNode(),
+    path
+  ) as HdPrivateNodeValid;
+  return addressContentsToLockingBytecode({
+    payload: bip32Crypto.ripemd160.hash(
+      bip32Crypto.sha256.hash(deriveHdPublicNode(bip32Crypto, node).publicKey)
+    ),
+    type: AddressType.p2pkh,
+  });
+};
+
+/**
+ * An in-memory stand-in for a blockchain indexer.
+ */
+const historyOf = (lockingBytecodes: Uint8Array[]) => {
+  const used = new Set(lockingBytecodes.map(binToHex));
+  const checked: string[] = [];
+  const hasHistory: HdAccountHistoryCallback = (lockingBytecode, position) => {
+    // eslint-disable-next-line functional/immutable-data
+    checked.push(`${position.chain}/${position.index}`);
+    return used.has(binToHex(lockingBytecode));
+  };
+  return { checked, hasHistory };
+};
+
+test('[crypto] hdAccountPath', (t) => {
+  t.deepEqual(hdAccountPath(), "m/44'/145'/0'");
+  t.deepEqual(
+    hdAccountPath({ account: 2, coinType: 1, purpose: 49 }),
+    "m/49'/1'/2'"
+  );
+});
+
+test('[crypto] scanHdAccount: BIP44 restore', async (t) => {
+  const account = hdAccountPath();
+  const [receive0, receive3, receive22, receive45, change1] = await Promise.all(
+    ['0/0', '0/3', '0/22', '0/45', '1/1'].map(async (path) =>
+      p2pkhAt(`${account}/${path}`)
+    )
+  );
+  const { checked, hasHistory } = historyOf([
+    receive0,
+    receive3,
+    receive22,
+    receive45,
+    change1,
+  ]);
+  const result = await scanHdAccount(await crypto, {
+    accountPath: account,
+    hasHistory,
+    node: await rootNode(),
+  });
+  t.deepEqual(result, {
+    change: {
+      discovered: [{ index: 1, lockingBytecode: change1 }],
+      nextIndex: 2,
+    },
+    receive: {
+      discovered: [
+        { index: 0, lockingBytecode: receive0 },
+        { index: 3, lockingBytecode: receive3 },
+        { index: 22, lockingBytecode: receive22 },
+      ],
+      nextIndex: 23,
+    },
+  });
+  t.deepEqual(checked.length, 43 + 22);
+  t.deepEqual(checked[42], 'receive/42');
+  t.deepEqual(checked[checked.length - 1], 'change/21');
+});
+
+test('[crypto] scanHdAccount: watch-only account with async history and gap limit', async (t) => {
+  const bip32Crypto = await crypto;
+  const accountNode = deriveHdPublicNode(
+    bip32Crypto,
+    deriveHdPath(
+      bip32Crypto,
+      await rootNode(),
+      hdAccountPath({ coinType: 0 })
+    ) as HdPrivateNodeValid
+  );
+  const receive4 = await p2pkhAt("m/44'/0'/0'/0/4");
+  const { hasHistory } = historyOf([receive4]);
+  const scan = async (gapLimit: number) =>
+    scanHdAccount(bip32Crypto, {
+      gapLimit,
+      hasHistory: async (...args) => Promise.resolve(hasHistory(...args)),
+      node: accountNode,
+    });
+  t.deepEqual(await scan(4), {
+    change: { discovered: [], nextIndex: 0 },
+    receive: { discovered: [], nextIndex: 0 },
+  });
+  t.deepEqual(await scan(5), {
+    change: { discovered: [], nextIndex: 0 },
+    receive: {
+      discovered: [{ index: 4, lockingBytecode: receive4 }],
+      nextIndex: 5,
+    },
+  });
+});
+
+test('[crypto] scanHdAccount: BIP49 (P2SH-P2WPKH)', async (t) => {
+  const bip32Crypto = await crypto;
+  /**
+   * BIP49 test vector: `m/49'/1'/0'/0/0`
+   */
+  const { bytecode: lockingBytecode } = base58AddressToLockingBytecode(
+    bip32Crypto.sha256,
+    '2Mww8dCYPUpKHofjgcXcBCEGmniw9CoaiD2'
+  ) as { bytecode: Uint8Array };
+  const result = await scanHdAccount(bip32Crypto, {
+    accountPath: hdAccountPath({ coinType: 1, purpose: 49 }),
+    addressType: 'p2sh-p2wpkh',
+    hasHistory: historyOf([lockingBytecode]).hasHistory,
+    node: await rootNode(),
+  });
+  t.deepEqual(result, {
+    change: { discovered: [], nextIndex: 0 },
+    receive: { discovered: [{ index: 0, lockingBytecode }], nextIndex: 1 },
+  });
+});
+
+test('[crypto] scanHdAccount: errors', async (t) => {
+  const bip32Crypto = await crypto;
+  const node = await rootNode();
+  const { hasHistory } = historyOf([]);
+  t.deepEqual(
+    await scanHdAccount(bip32Crypto, { gapLimit: 0, hasHistory, node }),
+    HdAccountScanError.invalidGapLimit
+  );
+  t.deepEqual(
+    await scanHdAccount(bip32Crypto, {
+      accountPath: hdAccountPath(),
+      hasHistory,
+      node: deriveHdPublicNode(bip32Crypto, node) as HdPublicNode,
+    }),
+    HdAccountScanError.accountPathRequiresPrivateNode
+  );
+});
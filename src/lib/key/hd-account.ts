@@ -0,0 +1,251 @@
+import {
+  addressContentsToLockingBytecode,
+  AddressType,
+} from '../address/address';
+import { Ripemd160, Secp256k1, Sha256, Sha512 } from '../crypto/crypto';
+import { range } from '../format/format';
+
+import {
+  deriveHdPath,
+  deriveHdPublicNode,
+  deriveHdPublicNodeChild,
+  HdPrivateNodeValid,
+  HdPublicNode,
+} from './hd-key';
+
+export enum HdAccountScanError {
+  invalidGapLimit = 'HD account scan error: the gap limit must be a positive integer.',
+  accountPathRequiresPrivateNode = 'HD account scan error: an account path can only be derived from an HD private node – to scan an account using an HD public key, provide the account-level HD public node.',
+}
+
+const enum Internal {
+  defaultGapLimit = 20,
+  bitcoinCashCoinType = 145,
+  bip44Purpose = 44,
+}
+
+/**
+ * The chains of a BIP44-style account: the `receive` chain (`0`, a.k.a.
+ * "external") is used for addresses given to others, and the `change` chain
+ * (`1`, a.k.a. "internal") is used for change outputs.
+ */
+const chains = { change: 1, receive: 0 };
+
+/**
+ * The type of locking bytecode derived for each address in an account:
+ * - `p2pkh` – Pay-to-Public-Key-Hash, as used by BIP44 accounts
+ * - `p2sh-p2wpkh` – Pay-to-Witness-Public-Key-Hash nested in Pay-to-Script-Hash,
+ * as used by BIP49 accounts
+ */
+export type HdAccountAddressType = 'p2pkh' | 'p2sh-p2wpkh';
+
+/**
+ * A callback which indicates whether or not a locking bytecode has ever been
+ * used on the network (e.g. by querying an indexer). It may return either a
+ * boolean or a promise which resolves to a boolean.
+ */
+export type HdAccountHistoryCallback = (
+  lockingBytecode: Uint8Array,
+  position: { chain: 'change' | 'receive'; index: number }
+) => boolean | Promise<boolean>;
+
+export interface HdAccountChainScan {
+  /**
+   * The index and locking bytecode of each address in the chain with history,
+   * in order of index.
+   */
+  discovered: { index: number; lockingBytecode: Uint8Array }[];
+  /**
+   * The index following the last discovered address (or `0` if no addresses
+   * were discovered), the next address which should be used from this chain.
+   */
+  nextIndex: number;
+}
+
+export interface HdAccountScan {
+  change: HdAccountChainScan;
+  receive: HdAccountChainScan;
+}
+
+/**
+ * Encode the derivation path of a BIP44-style HD account, e.g.
+ * `m/44'/145'/0'`. All levels of an account path are hardened.
+ *
+ * @param account - the account index, defaults to `0`
+ * @param coinType - the SLIP-0044 coin type, defaults to `145` (Bitcoin Cash)
+ * – note, some wallets use `0` (Bitcoin) for Bitcoin Cash accounts
+ * @param purpose - the purpose, defaults to `44` (BIP44) – use `49` for BIP49
+ * accounts
+ */
+export const hdAccountPath = ({
+  account = 0,
+  coinType = Internal.bitcoinCashCoinType,
+  purpose = Internal.bip44Purpose,
+}: {
+  account?: number;
+  coinType?: number;
+  purpose?: number;
+} = {}) => `m/${purpose}'/${coinType}'/${account}'`;
+
+/**
+ * Derive the locking bytecode of an HD account address from its public key.
+ */
+const publicKeyToLockingBytecode = (
+  crypto: {
+    ripemd160: { hash: Ripemd160['hash'] };
+    sha256: { hash: Sha256['hash'] };
+  },
+  publicKey: Uint8Array,
+  addressType: HdAccountAddressType
+) => {
+  const hash160 = (input: Uint8Array) =>
+    crypto.ripemd160.hash(crypto.sha256.hash(input));
+  return addressType === 'p2pkh'
+    ? addressContentsToLockingBytecode({
+        payload: hash160(publicKey),
+        type: AddressType.p2pkh,
+      })
+    : addressContentsToLockingBytecode({
+        payload: hash160(
+          addressContentsToLockingBytecode({
+            payload: hash160(publicKey),
+            type: AddressType.p2wpkh,
+          })
+        ),
+        type: AddressType.p2sh,
+      });
+};
+
+/**
+ * Scan an HD wallet account for addresses with history, e.g. to restore a
+ * wallet from its seed or to import a watch-only wallet from an account-level
+ * HD public key.
+ *
+ * Each chain of the account (`receive` and `change`) is walked from index `0`
+ * until `gapLimit` consecutive addresses without history are found (as
+ * specified by BIP44). To minimize latency, `hasHistory` is called
+ * concurrently for up to `gapLimit` addresses at a time.
+ *
+ * If derivation fails, an error message is returned as a string.
+ *
+ * @param crypto - implementations of sha256, sha512, ripemd160, and secp256k1
+ * derivation functions – these are available via `instantiateBIP32Crypto`
+ * @param node - the account-level HD node (e.g. derived at `m/44'/145'/0'`),
+ * or – if `accountPath` is provided – the HD private node from which to derive
+ * the account
+ * @param hasHistory - a callback which indicates whether or not the provided
+ * locking bytecode has been used (see `HdAccountHistoryCallback`)
+ * @param accountPath - an optional path at which to derive the account node
+ * from `node` (see `hdAccountPath`)
+ * @param addressType - the type of locking bytecode to derive, defaults to
+ * `p2pkh` (see `HdAccountAddressType`)
+ * @param gapLimit - the number of consecutive addresses without history after
+ * which to stop scanning each chain, defaults to `20`
+ */
+export const scanHdAccount = async (
+  crypto: {
+    ripemd160: { hash: Ripemd160['hash'] };
+    secp256k1: {
+      addTweakPrivateKey: Secp256k1['addTweakPrivateKey'];
+      addTweakPublicKeyCompressed: Secp256k1['addTweakPublicKeyCompressed'];
+      derivePublicKeyCompressed: Secp256k1['derivePublicKeyCompressed'];
+    };
+    sha256: { hash: Sha256['hash'] };
+    sha512: { hash: Sha512['hash'] };
+  },
+  {
+    accountPath,
+    addressType = 'p2pkh',
+    gapLimit = Internal.defaultGapLimit,
+    hasHistory,
+    node,
+  }: {
+    accountPath?: string;
+    addressType?: HdAccountAddressType;
+    gapLimit?: number;
+    hasHistory: HdAccountHistoryCallback;
+    node: HdPrivateNodeValid | HdPublicNode;
+  }
+): Promise<HdAccountScan | string> => {
+  if (!Number.isInteger(gapLimit) || gapLimit < 1) {
+    return HdAccountScanError.invalidGapLimit;
+  }
+  if (accountPath !== undefined && !('privateKey' in node)) {
+    return HdAccountScanError.accountPathRequiresPrivateNode;
+  }
+  const accountNode =
+    accountPath === undefined ? node : deriveHdPath(crypto, node, accountPath);
+  if (typeof accountNode === 'string') {
+    return accountNode;
+  }
+  const accountPublicNode =
+    'privateKey' in accountNode
+      ? deriveHdPublicNode(crypto, accountNode)
+      : accountNode;
+
+  const scanChain = async (
+    chain: 'change' | 'receive'
+  ): Promise<HdAccountChainScan | string> => {
+    const chainNode = deriveHdPublicNodeChild(
+      crypto,
+      accountPublicNode,
+      chains[chain]
+    );
+    if (typeof chainNode === 'string') {
+      return chainNode;
+    }
+    const walk = async (
+      checkedIndexes: number,
+      discovered: HdAccountChainScan['discovered']
+    ): Promise<HdAccountChainScan | string> => {
+      const nextIndex =
+        discovered.length === 0
+          ? 0
+          : discovered[discovered.length - 1].index + 1;
+      const gapEnd = nextIndex + gapLimit;
+      if (checkedIndexes >= gapEnd) {
+        return { discovered, nextIndex };
+      }
+      const batch = range(gapEnd - checkedIndexes, checkedIndexes).map(
+        (index) => {
+          const child = deriveHdPublicNodeChild(crypto, chainNode, index);
+          return typeof child === 'string'
+            ? child
+            : {
+                index,
+                lockingBytecode: publicKeyToLockingBytecode(
+                  crypto,
+                  child.publicKey,
+                  addressType
+                ),
+              };
+        }
+      );
+      const error = batch.find((result) => typeof result === 'string');
+      if (typeof error === 'string') {
+        return error;
+      }
+      const addresses = batch as HdAccountChainScan['discovered'];
+      const histories = await Promise.all(
+        addresses.map(async ({ index, lockingBytecode }) =>
+          hasHistory(lockingBytecode, { chain, index })
+        )
+      );
+      return walk(gapEnd, [
+        ...discovered,
+        ...addresses.filter((_, i) => histories[i]),
+      ]);
+    };
+    return walk(0, []);
+  };
+
+  const receive = await scanChain('receive');
+  if (typeof receive === 'string') {
+    return receive;
+  }
+  const change = await scanChain('change');
+  if (typeof change === 'string') {
+    return change;
+  }
+  return { change, receive };
+};
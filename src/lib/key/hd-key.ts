@@ -794,6 +794,42 @@ type ReductionResults<NodeType> = NodeType extends HdPrivateNodeValid
   ? PrivateResults<NodeType>
   : PublicResults<NodeType>;
 
+/**
+ * Parse a BIP32 derivation path (e.g. `m/0/1'/2` or `M/3/4/5`) into the list of
+ * child indexes it specifies, where hardened child indexes include the hardened
+ * index offset (`2147483648`). See `deriveHdPath` for details.
+ *
+ * @param path - the BIP32 derivation path
+ * @param isPrivateDerivation - if `true`, the path must begin with `m`,
+ * otherwise it must begin with `M`
+ */
+export const parseHdPath = (path: string, isPrivateDerivation: boolean) => {
+  const validDerivationPath = /^[mM](?:\/[0-9]+'?)*$/u;
+  if (!validDerivationPath.test(path)) {
+    return HdNodeDerivationError.invalidDerivationPath;
+  }
+
+  const parsed = path.split('/');
+
+  if (isPrivateDerivation && parsed[0] !== 'm') {
+    return HdNodeDerivationError.invalidPrivateDerivationPrefix;
+  }
+
+  if (!isPrivateDerivation && parsed[0] !== 'M') {
+    return HdNodeDerivationError.invalidPublicDerivationPrefix;
+  }
+
+  const base = 10;
+  const hardenedIndexOffset = 0x80000000;
+  return parsed
+    .slice(1)
+    .map((index) =>
+      index.endsWith("'")
+        ? parseInt(index.slice(0, -1), base) + hardenedIndexOffset
+        : parseInt(index, base)
+    );
+};
+
 /**
  * Derive a child HD node from a parent node given a derivation path. The
  * resulting node is the same type as the parent node (private nodes return
@@ -854,33 +890,12 @@ export const deriveHdPath = <
   | HdNodeDerivationError.invalidPrivateDerivationPrefix
   | HdNodeDerivationError.invalidPublicDerivationPrefix
   | ReductionResults<NodeType> => {
-  const validDerivationPath = /^[mM](?:\/[0-9]+'?)*$/u;
-  if (!validDerivationPath.test(path)) {
-    return HdNodeDerivationError.invalidDerivationPath;
-  }
-
-  const parsed = path.split('/');
-
   const isPrivateDerivation = 'privateKey' in node;
-
-  if (isPrivateDerivation && parsed[0] !== 'm') {
-    return HdNodeDerivationError.invalidPrivateDerivationPrefix;
+  const indexes = parseHdPath(path, isPrivateDerivation);
+  if (typeof indexes === 'string') {
+    return indexes;
   }
 
-  if (!isPrivateDerivation && parsed[0] !== 'M') {
-    return HdNodeDerivationError.invalidPublicDerivationPrefix;
-  }
-
-  const base = 10;
-  const hardenedIndexOffset = 0x80000000;
-  const indexes = parsed
-    .slice(1)
-    .map((index) =>
-      index.endsWith("'")
-        ? parseInt(index.slice(0, -1), base) + hardenedIndexOffset
-        : parseInt(index, base)
-    );
-
   return (isPrivateDerivation
     ? indexes.reduce(
         (result, nextIndex) =>
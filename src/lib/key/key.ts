@@ -1,3 +1,11 @@
+export * from './adaptor-signature';
+export * from './bip38';
+export * from './bip39/bip39';
+export * from './descriptor';
+export * from './hd-account';
 export * from './hd-key';
 export * from './key-utils';
+export * from './musig2';
+export * from './signed-message';
+export * from './slip10';
 export * from './wallet-import-format';
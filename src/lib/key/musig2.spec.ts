@@ -0,0 +1,318 @@
+/* eslint-disable functional/no-expression-statement, @typescript-eslint/no-magic-numbers */
+import test from 'ava';
+
+import {
+  aggregateNoncesMusig2,
+  aggregatePartialSignaturesMusig2,
+  aggregatePublicKeysMusig2,
+  createSessionMusig2,
+  generateNonceMusig2,
+  hexToBin,
+  instantiateSecp256k1,
+  instantiateSha256,
+  KeyAggregationMusig2,
+  Musig2Error,
+  NonceMusig2,
+  SessionMusig2,
+  signPartialMusig2,
+  verifyPartialSignatureMusig2,
+} from '../lib';
+
+const cryptoPromise = (async () => {
+  const [secp256k1, sha256] = await Promise.all([
+    instantiateSecp256k1(),
+    instantiateSha256(),
+  ]);
+  return { secp256k1, sha256 };
+})();
+
+const privateKeys = [
+  'f85d4bd8a03ca106c9deb47b791803dac7f0333809e3f1dd04d182e0aba6e553',
+  '1e99423a4ed27608a15a2616a2b0e9e52ced330ac530edcc32c8ffc6a526aedd',
+  '0000000000000000000000000000000000000000000000000000000000000003',
+].map(hexToBin);
+
+const signMusig2 = async (
+  signerKeys: Uint8Array[],
+  messageHash: Uint8Array
+) => {
+  const crypto = await cryptoPromise;
+  const publicKeys = signerKeys.map((key) =>
+    crypto.secp256k1.derivePublicKeyCompressed(key)
+  );
+  const keyAggregation = aggregatePublicKeysMusig2(
+    crypto,
+    publicKeys
+  ) as KeyAggregationMusig2;
+  const nonces = signerKeys.map(
+    (privateKey, index) =>
+      generateNonceMusig2(crypto, {
+        aggregatePublicKey: keyAggregation.aggregatePublicKey,
+        messageHash,
+        privateKey,
+        publicKey: publicKeys[index],
+        sessionRandom: crypto.sha256.hash(
+          Uint8Array.from([index, ...messageHash])
+        ),
+      }) as NonceMusig2
+  );
+  const aggregateNonce = aggregateNoncesMusig2(
+    nonces.map((nonce) => nonce.publicNonce)
+  ) as Uint8Array;
+  const session = createSessionMusig2(crypto, {
+    aggregateNonce,
+    keyAggregation,
+    messageHash,
+  }) as SessionMusig2;
+  const partialSignatures = signerKeys.map(
+    (privateKey, index) =>
+      signPartialMusig2(crypto, {
+        privateKey,
+        secretNonce: nonces[index].secretNonce,
+        session,
+      }) as Uint8Array
+  );
+  return { keyAggregation, nonces, partialSignatures, publicKeys, session };
+};
+
+test('[key] MuSig2: n-of-n signing', async (t) => {
+  const crypto = await cryptoPromise;
+  const messageHashes = [...Array(8).keys()].map((index) =>
+    crypto.sha256.hash(Uint8Array.of(index))
+  );
+  const sessions = await Promise.all(
+    messageHashes.map(async (messageHash) => {
+      const {
+        keyAggregation,
+        nonces,
+        partialSignatures,
+        publicKeys,
+        session,
+      } = await signMusig2(privateKeys, messageHash);
+      partialSignatures.forEach((partialSignature, index) => {
+        t.true(
+          verifyPartialSignatureMusig2(crypto, {
+            partialSignature,
+            publicKey: publicKeys[index],
+            publicNonce: nonces[index].publicNonce,
+            session,
+          })
+        );
+      });
+      const signature = aggregatePartialSignaturesMusig2({
+        partialSignatures,
+        session,
+      }) as Uint8Array;
+      t.is(signature.length, 64);
+      t.true(
+        crypto.secp256k1.verifySignatureSchnorr(
+          signature,
+          keyAggregation.aggregatePublicKey,
+          messageHash
+        )
+      );
+      t.false(
+        crypto.secp256k1.verifySignatureSchnorr(
+          signature,
+          publicKeys[0],
+          messageHash
+        )
+      );
+      return session;
+    })
+  );
+  /**
+   * Both final nonce cases (with and without negation) must be covered.
+   */
+  t.true(sessions.some((session) => session.negateNonce));
+  t.true(sessions.some((session) => !session.negateNonce));
+});
+
+test('[key] MuSig2: single signer and repeated keys', async (t) => {
+  const crypto = await cryptoPromise;
+  const messageHash = crypto.sha256.hash(Uint8Array.of(1));
+  const single = await signMusig2([privateKeys[0]], messageHash);
+  t.true(
+    crypto.secp256k1.verifySignatureSchnorr(
+      aggregatePartialSignaturesMusig2(single) as Uint8Array,
+      single.keyAggregation.aggregatePublicKey,
+      messageHash
+    )
+  );
+  const repeated = await signMusig2(
+    [privateKeys[1], privateKeys[1], privateKeys[2]],
+    messageHash
+  );
+  t.true(
+    crypto.secp256k1.verifySignatureSchnorr(
+      aggregatePartialSignaturesMusig2(repeated) as Uint8Array,
+      repeated.keyAggregation.aggregatePublicKey,
+      messageHash
+    )
+  );
+});
+
+test('[key] MuSig2: key aggregation depends on key order', async (t) => {
+  const crypto = await cryptoPromise;
+  const publicKeys = privateKeys.map((key) =>
+    crypto.secp256k1.derivePublicKeyCompressed(key)
+  );
+  const aggregation = aggregatePublicKeysMusig2(
+    crypto,
+    publicKeys
+  ) as KeyAggregationMusig2;
+  const reversed = aggregatePublicKeysMusig2(
+    crypto,
+    [...publicKeys].reverse()
+  ) as KeyAggregationMusig2;
+  t.is(aggregation.coefficients.length, 3);
+  t.notDeepEqual(aggregation.aggregatePublicKey, reversed.aggregatePublicKey);
+  t.deepEqual(
+    aggregatePublicKeysMusig2(crypto, publicKeys),
+    aggregatePublicKeysMusig2(crypto, publicKeys)
+  );
+});
+
+test('[key] MuSig2: invalid partial signatures', async (t) => {
+  const crypto = await cryptoPromise;
+  const messageHash = crypto.sha256.hash(Uint8Array.of(2));
+  const { nonces, partialSignatures, publicKeys, session } = await signMusig2(
+    privateKeys,
+    messageHash
+  );
+  t.false(
+    verifyPartialSignatureMusig2(crypto, {
+      partialSignature: partialSignatures[0],
+      publicKey: publicKeys[1],
+      publicNonce: nonces[1].publicNonce,
+      session,
+    })
+  );
+  t.false(
+    verifyPartialSignatureMusig2(crypto, {
+      partialSignature: partialSignatures[0],
+      publicKey: publicKeys[0],
+      publicNonce: nonces[1].publicNonce,
+      session,
+    })
+  );
+  t.false(
+    verifyPartialSignatureMusig2(crypto, {
+      partialSignature: partialSignatures[0],
+      publicKey: crypto.secp256k1.derivePublicKeyCompressed(
+        hexToBin(
+          '0000000000000000000000000000000000000000000000000000000000000004'
+        )
+      ),
+      publicNonce: nonces[0].publicNonce,
+      session,
+    })
+  );
+  const signature = aggregatePartialSignaturesMusig2({
+    partialSignatures: [
+      partialSignatures[0],
+      partialSignatures[0],
+      partialSignatures[2],
+    ],
+    session,
+  }) as Uint8Array;
+  t.false(
+    crypto.secp256k1.verifySignatureSchnorr(
+      signature,
+      session.keyAggregation.aggregatePublicKey,
+      messageHash
+    )
+  );
+});
+
+test('[key] MuSig2: errors', async (t) => {
+  const crypto = await cryptoPromise;
+  const publicKey = crypto.secp256k1.derivePublicKeyCompressed(privateKeys[0]);
+  const messageHash = crypto.sha256.hash(Uint8Array.of(3));
+  t.deepEqual(aggregatePublicKeysMusig2(crypto, []), Musig2Error.noPublicKeys);
+  t.deepEqual(
+    aggregatePublicKeysMusig2(crypto, [
+      crypto.secp256k1.uncompressPublicKey(publicKey),
+    ]),
+    Musig2Error.invalidPublicKey
+  );
+  t.deepEqual(
+    generateNonceMusig2(crypto, {
+      publicKey,
+      sessionRandom: new Uint8Array(31),
+    }),
+    Musig2Error.invalidSessionRandom
+  );
+  t.deepEqual(
+    generateNonceMusig2(crypto, {
+      publicKey: new Uint8Array(33),
+      sessionRandom: new Uint8Array(32),
+    }),
+    Musig2Error.invalidPublicKey
+  );
+  t.deepEqual(aggregateNoncesMusig2([]), Musig2Error.noPublicNonces);
+  t.deepEqual(
+    aggregateNoncesMusig2([new Uint8Array(66)]),
+    Musig2Error.invalidPublicNonce
+  );
+  const nonce = generateNonceMusig2(crypto, {
+    publicKey,
+    sessionRandom: new Uint8Array(32),
+  }) as NonceMusig2;
+  const negated = Uint8Array.from(nonce.publicNonce);
+  // eslint-disable-next-line functional/immutable-data
+  negated[0] = nonce.publicNonce[0] === 2 ? 3 : 2;
+  // eslint-disable-next-line functional/immutable-data
+  negated[33] = nonce.publicNonce[33] === 2 ? 3 : 2;
+  t.deepEqual(
+    aggregateNoncesMusig2([nonce.publicNonce, negated]),
+    Musig2Error.infiniteNonce
+  );
+  const keyAggregation = aggregatePublicKeysMusig2(crypto, [
+    publicKey,
+  ]) as KeyAggregationMusig2;
+  t.deepEqual(
+    createSessionMusig2(crypto, {
+      aggregateNonce: new Uint8Array(66),
+      keyAggregation,
+      messageHash,
+    }),
+    Musig2Error.invalidAggregateNonce
+  );
+  const session = createSessionMusig2(crypto, {
+    aggregateNonce: nonce.publicNonce,
+    keyAggregation,
+    messageHash,
+  }) as SessionMusig2;
+  t.deepEqual(
+    signPartialMusig2(crypto, {
+      privateKey: new Uint8Array(32),
+      secretNonce: nonce.secretNonce,
+      session,
+    }),
+    Musig2Error.invalidPrivateKey
+  );
+  t.deepEqual(
+    signPartialMusig2(crypto, {
+      privateKey: privateKeys[0],
+      secretNonce: new Uint8Array(64),
+      session,
+    }),
+    Musig2Error.invalidSecretNonce
+  );
+  t.deepEqual(
+    signPartialMusig2(crypto, {
+      privateKey: privateKeys[1],
+      secretNonce: nonce.secretNonce,
+      session,
+    }),
+    Musig2Error.signerNotInKeyAggregation
+  );
+  t.deepEqual(
+    aggregatePartialSignaturesMusig2({
+      partialSignatures: [new Uint8Array(32).fill(255)],
+      session,
+    }),
+    Musig2Error.invalidPartialSignature
+  );
+});
@@ -0,0 +1,573 @@
+import {
+  addPointsSecp256k1,
+  decodePointSecp256k1,
+  encodePointSecp256k1,
+  isQuadraticResidueSecp256k1,
+  modulo,
+  negatePublicKeyCompressed,
+  PointSecp256k1,
+  Secp256k1,
+  secp256k1Order,
+  Sha256,
+} from '../crypto/crypto';
+import {
+  bigIntToBinUint256BEClamped,
+  binsAreEqual,
+  binToBigIntUint256BE,
+  flattenBinArray,
+} from '../format/format';
+import { taggedHash } from '../vm/vm';
+
+import { validateSecp256k1PrivateKey } from './key-utils';
+
+export enum Musig2Error {
+  noPublicKeys = 'MuSig2 error: at least one public key is required for key aggregation.',
+  invalidPublicKey = 'MuSig2 error: a public key is not a valid, compressed Secp256k1 public key.',
+  invalidPrivateKey = 'MuSig2 error: the private key is not a valid Secp256k1 private key.',
+  invalidSessionRandom = 'MuSig2 error: the session random value must be 32 bytes.',
+  invalidNonceDerivation = 'MuSig2 error: the derived nonce is invalid; a different session random value must be used.',
+  noPublicNonces = 'MuSig2 error: at least one public nonce is required for nonce aggregation.',
+  invalidPublicNonce = 'MuSig2 error: a public nonce is not valid (public nonces must be 66 bytes: two compressed Secp256k1 public keys).',
+  invalidAggregateNonce = 'MuSig2 error: the aggregate nonce is not valid (aggregate nonces must be 66 bytes: two compressed Secp256k1 public keys).',
+  infiniteNonce = 'MuSig2 error: the aggregate nonce sums to the point at infinity; a new signing session must be started.',
+  invalidSecretNonce = 'MuSig2 error: the secret nonce is not valid (secret nonces must be 64 bytes: two valid Secp256k1 private keys).',
+  signerNotInKeyAggregation = 'MuSig2 error: the public key of the signer is not included in the key aggregation.',
+  invalidPartialSignature = 'MuSig2 error: a partial signature is not valid (partial signatures must be 32-byte integers less than the order of the curve).',
+}
+
+const enum Internal {
+  compressedPublicKeyLength = 33,
+  privateKeyLength = 32,
+  publicNonceLength = 66,
+  secretNonceLength = 64,
+  sessionRandomLength = 32,
+}
+
+const hashToScalar = (
+  sha256: { hash: Sha256['hash'] },
+  tag: string,
+  data: Uint8Array
+) => binToBigIntUint256BE(taggedHash(sha256, tag, data)) % secp256k1Order;
+
+/**
+ * The result of aggregating a set of public keys with
+ * `aggregatePublicKeysMusig2`.
+ */
+export interface KeyAggregationMusig2 {
+  /**
+   * The aggregate public key (a compressed Secp256k1 public key). Signatures
+   * produced by the signing session validate against this public key using
+   * `verifySignatureSchnorr`, so it can be used anywhere a single-signer
+   * public key can be used (e.g. in a P2PKH output).
+   */
+  aggregatePublicKey: Uint8Array;
+  /**
+   * The 32-byte key aggregation coefficient of each public key, in the same
+   * order as `publicKeys`.
+   */
+  coefficients: Uint8Array[];
+  /**
+   * The aggregated public keys, in the order in which they were provided.
+   */
+  publicKeys: Uint8Array[];
+}
+
+/**
+ * Aggregate a list of compressed public keys into a single MuSig2 aggregate
+ * public key (BIP327 key aggregation, adapted to the BCH Schnorr signature
+ * scheme).
+ *
+ * The aggregate public key depends on the order of `publicKeys`, so all
+ * signers must agree on the order (e.g. by sorting the public keys
+ * lexicographically before aggregation).
+ *
+ * @param crypto - implementations of sha256 and secp256k1
+ * @param publicKeys - the compressed public key of each signer
+ */
+export const aggregatePublicKeysMusig2 = (
+  crypto: {
+    secp256k1: {
+      mulTweakPublicKeyCompressed: Secp256k1['mulTweakPublicKeyCompressed'];
+    };
+    sha256: { hash: Sha256['hash'] };
+  },
+  publicKeys: Uint8Array[]
+): KeyAggregationMusig2 | Musig2Error => {
+  if (publicKeys.length === 0) {
+    return Musig2Error.noPublicKeys;
+  }
+  const points = publicKeys.map(decodePointSecp256k1);
+  if (points.some((point) => point === undefined)) {
+    return Musig2Error.invalidPublicKey;
+  }
+  const listHash = taggedHash(
+    crypto.sha256,
+    'KeyAgg list',
+    flattenBinArray(publicKeys)
+  );
+  const secondKey = publicKeys.find(
+    (publicKey) => !binsAreEqual(publicKey, publicKeys[0])
+  );
+  const coefficients = publicKeys.map((publicKey) =>
+    secondKey !== undefined && binsAreEqual(publicKey, secondKey)
+      ? BigInt(1)
+      : hashToScalar(
+          crypto.sha256,
+          'KeyAgg coefficient',
+          flattenBinArray([listHash, publicKey])
+        )
+  );
+  const aggregate = publicKeys.reduce<PointSecp256k1>(
+    (sum, publicKey, index) =>
+      addPointsSecp256k1(
+        sum,
+        decodePointSecp256k1(
+          crypto.secp256k1.mulTweakPublicKeyCompressed(
+            publicKey,
+            bigIntToBinUint256BEClamped(coefficients[index])
+          )
+        )
+      ),
+    undefined
+  );
+  if (aggregate === undefined) {
+    return Musig2Error.invalidPublicKey;
+  }
+  return {
+    aggregatePublicKey: encodePointSecp256k1(aggregate),
+    coefficients: coefficients.map(bigIntToBinUint256BEClamped),
+    publicKeys,
+  };
+};
+
+/**
+ * A MuSig2 nonce pair generated by `generateNonceMusig2`.
+ */
+export interface NonceMusig2 {
+  /**
+   * The 66-byte public nonce (two compressed public keys) to be shared with
+   * all other signers.
+   */
+  publicNonce: Uint8Array;
+  /**
+   * The 64-byte secret nonce (two private keys) to be used in exactly one call
+   * to `signPartialMusig2`.
+   *
+   * **The secret nonce must never be reused: signing two different messages
+   * (or the same message in two sessions with different aggregate nonces)
+   * with the same secret nonce reveals the signer's private key.**
+   */
+  secretNonce: Uint8Array;
+}
+
+/**
+ * Generate a MuSig2 nonce pair for a signing session.
+ *
+ * Nonces are derived from `sessionRandom`, which must be 32 bytes of fresh,
+ * cryptographically-secure randomness for every signing session. Optional
+ * values – the signer's private key, the aggregate public key, and the message
+ * hash – are also committed to, providing some defense against weak
+ * randomness.
+ *
+ * @param crypto - implementations of sha256 and secp256k1
+ * @param sessionRandom - 32 bytes of fresh, cryptographically-secure randomness
+ * @param publicKey - the compressed public key of the signer
+ * @param privateKey - the private key of the signer (optional)
+ * @param aggregatePublicKey - the aggregate public key (optional)
+ * @param messageHash - the 32-byte message hash to be signed (optional)
+ */
+export const generateNonceMusig2 = (
+  crypto: {
+    secp256k1: {
+      derivePublicKeyCompressed: Secp256k1['derivePublicKeyCompressed'];
+    };
+    sha256: { hash: Sha256['hash'] };
+  },
+  {
+    aggregatePublicKey = Uint8Array.of(),
+    messageHash = Uint8Array.of(),
+    privateKey = Uint8Array.of(),
+    publicKey,
+    sessionRandom,
+  }: {
+    aggregatePublicKey?: Uint8Array;
+    messageHash?: Uint8Array;
+    privateKey?: Uint8Array;
+    publicKey: Uint8Array;
+    sessionRandom: Uint8Array;
+  }
+): NonceMusig2 | Musig2Error => {
+  if (sessionRandom.length !== Internal.sessionRandomLength) {
+    return Musig2Error.invalidSessionRandom;
+  }
+  if (decodePointSecp256k1(publicKey) === undefined) {
+    return Musig2Error.invalidPublicKey;
+  }
+  const auxiliary = taggedHash(crypto.sha256, 'MuSig/aux', sessionRandom);
+  const random =
+    privateKey.length === 0
+      ? sessionRandom
+      : // eslint-disable-next-line no-bitwise
+        auxiliary.map((value, index) => value ^ privateKey[index]);
+  const committed = flattenBinArray([
+    random,
+    Uint8Array.of(publicKey.length),
+    publicKey,
+    Uint8Array.of(aggregatePublicKey.length),
+    aggregatePublicKey,
+    Uint8Array.of(messageHash.length),
+    messageHash,
+  ]);
+  const nonces = [0, 1].map((index) =>
+    bigIntToBinUint256BEClamped(
+      hashToScalar(
+        crypto.sha256,
+        'MuSig/nonce',
+        flattenBinArray([committed, Uint8Array.of(index)])
+      )
+    )
+  );
+  if (nonces.some((nonce) => !validateSecp256k1PrivateKey(nonce))) {
+    return Musig2Error.invalidNonceDerivation;
+  }
+  return {
+    publicNonce: flattenBinArray(
+      nonces.map((nonce) => crypto.secp256k1.derivePublicKeyCompressed(nonce))
+    ),
+    secretNonce: flattenBinArray(nonces),
+  };
+};
+
+const decodeNonce = (nonce: Uint8Array) =>
+  nonce.length === Internal.publicNonceLength
+    ? [
+        decodePointSecp256k1(
+          nonce.slice(0, Internal.compressedPublicKeyLength)
+        ),
+        decodePointSecp256k1(nonce.slice(Internal.compressedPublicKeyLength)),
+      ]
+    : [undefined, undefined];
+
+/**
+ * Aggregate the public nonces of all signers into a single 66-byte aggregate
+ * nonce. Any participant (or an untrusted coordinator) may aggregate nonces.
+ *
+ * @param publicNonces - the public nonce of each signer
+ */
+export const aggregateNoncesMusig2 = (publicNonces: Uint8Array[]) => {
+  if (publicNonces.length === 0) {
+    return Musig2Error.noPublicNonces;
+  }
+  const decoded = publicNonces.map(decodeNonce);
+  if (decoded.some(([r1, r2]) => r1 === undefined || r2 === undefined)) {
+    return Musig2Error.invalidPublicNonce;
+  }
+  const [r1, r2] = decoded.reduce<[PointSecp256k1, PointSecp256k1]>(
+    ([sum1, sum2], [nonce1, nonce2]) => [
+      addPointsSecp256k1(sum1, nonce1),
+      addPointsSecp256k1(sum2, nonce2),
+    ],
+    [undefined, undefined]
+  );
+  if (r1 === undefined || r2 === undefined) {
+    return Musig2Error.infiniteNonce;
+  }
+  return flattenBinArray([encodePointSecp256k1(r1), encodePointSecp256k1(r2)]);
+};
+
+/**
+ * The values of a MuSig2 signing session, created by `createSessionMusig2`.
+ */
+export interface SessionMusig2 {
+  /**
+   * The 66-byte aggregate nonce of the session.
+   */
+  aggregateNonce: Uint8Array;
+  /**
+   * The 32-byte BCH Schnorr challenge: `sha256(R.x || Q || m)`.
+   */
+  challenge: Uint8Array;
+  /**
+   * The compressed final nonce, `R`, before any negation.
+   */
+  finalNonce: Uint8Array;
+  /**
+   * The key aggregation used in this session.
+   */
+  keyAggregation: KeyAggregationMusig2;
+  /**
+   * The 32-byte message hash being signed.
+   */
+  messageHash: Uint8Array;
+  /**
+   * If `true`, the Y coordinate of the final nonce is not a quadratic residue,
+   * so each signer must negate their secret nonce (as required by the BCH
+   * Schnorr signature scheme).
+   */
+  negateNonce: boolean;
+  /**
+   * The 32-byte nonce coefficient, `b`.
+   */
+  nonceCoefficient: Uint8Array;
+}
+
+/**
+ * Create a MuSig2 signing session from the aggregate nonce, key aggregation,
+ * and message hash. All signers must use the same session values.
+ *
+ * @param crypto - implementations of sha256 and secp256k1
+ * @param aggregateNonce - the aggregate nonce from `aggregateNoncesMusig2`
+ * @param keyAggregation - the key aggregation from `aggregatePublicKeysMusig2`
+ * @param messageHash - the 32-byte message hash to sign
+ */
+export const createSessionMusig2 = (
+  crypto: {
+    secp256k1: {
+      mulTweakPublicKeyCompressed: Secp256k1['mulTweakPublicKeyCompressed'];
+    };
+    sha256: { hash: Sha256['hash'] };
+  },
+  {
+    aggregateNonce,
+    keyAggregation,
+    messageHash,
+  }: {
+    aggregateNonce: Uint8Array;
+    keyAggregation: KeyAggregationMusig2;
+    messageHash: Uint8Array;
+  }
+): SessionMusig2 | Musig2Error => {
+  const [r1, r2] = decodeNonce(aggregateNonce);
+  if (r1 === undefined || r2 === undefined) {
+    return Musig2Error.invalidAggregateNonce;
+  }
+  const nonceCoefficient = bigIntToBinUint256BEClamped(
+    hashToScalar(
+      crypto.sha256,
+      'MuSig/noncecoef',
+      flattenBinArray([
+        aggregateNonce,
+        keyAggregation.aggregatePublicKey,
+        messageHash,
+      ])
+    )
+  );
+  const r = addPointsSecp256k1(
+    r1,
+    decodePointSecp256k1(
+      crypto.secp256k1.mulTweakPublicKeyCompressed(
+        aggregateNonce.slice(Internal.compressedPublicKeyLength),
+        nonceCoefficient
+      )
+    )
+  );
+  if (r === undefined) {
+    return Musig2Error.infiniteNonce;
+  }
+  const finalNonce = encodePointSecp256k1(r);
+  const challenge = bigIntToBinUint256BEClamped(
+    binToBigIntUint256BE(
+      crypto.sha256.hash(
+        flattenBinArray([
+          finalNonce.slice(1),
+          keyAggregation.aggregatePublicKey,
+          messageHash,
+        ])
+      )
+    ) % secp256k1Order
+  );
+  return {
+    aggregateNonce,
+    challenge,
+    finalNonce,
+    keyAggregation,
+    messageHash,
+    negateNonce: !isQuadraticResidueSecp256k1(r.y),
+    nonceCoefficient,
+  };
+};
+
+const findSigner = (
+  keyAggregation: KeyAggregationMusig2,
+  publicKey: Uint8Array
+) => keyAggregation.publicKeys.findIndex((key) => binsAreEqual(key, publicKey));
+
+/**
+ * Create a 32-byte MuSig2 partial signature for a signing session.
+ *
+ * **The `secretNonce` must be discarded after this call and never reused.**
+ *
+ * @param crypto - an implementation of secp256k1
+ * @param privateKey - the private key of the signer
+ * @param secretNonce - the signer's secret nonce from `generateNonceMusig2`
+ * @param session - the signing session from `createSessionMusig2`
+ */
+export const signPartialMusig2 = (
+  crypto: {
+    secp256k1: {
+      derivePublicKeyCompressed: Secp256k1['derivePublicKeyCompressed'];
+    };
+  },
+  {
+    privateKey,
+    secretNonce,
+    session,
+  }: {
+    privateKey: Uint8Array;
+    secretNonce: Uint8Array;
+    session: SessionMusig2;
+  }
+) => {
+  if (!validateSecp256k1PrivateKey(privateKey)) {
+    return Musig2Error.invalidPrivateKey;
+  }
+  const k1 = secretNonce.slice(0, Internal.privateKeyLength);
+  const k2 = secretNonce.slice(Internal.privateKeyLength);
+  if (
+    secretNonce.length !== Internal.secretNonceLength ||
+    !validateSecp256k1PrivateKey(k1) ||
+    !validateSecp256k1PrivateKey(k2)
+  ) {
+    return Musig2Error.invalidSecretNonce;
+  }
+  const signerIndex = findSigner(
+    session.keyAggregation,
+    crypto.secp256k1.derivePublicKeyCompressed(privateKey)
+  );
+  if (signerIndex === -1) {
+    return Musig2Error.signerNotInKeyAggregation;
+  }
+  const nonce = modulo(
+    binToBigIntUint256BE(k1) +
+      binToBigIntUint256BE(session.nonceCoefficient) * binToBigIntUint256BE(k2),
+    secp256k1Order
+  );
+  const coefficient = binToBigIntUint256BE(
+    session.keyAggregation.coefficients[signerIndex]
+  );
+  return bigIntToBinUint256BEClamped(
+    modulo(
+      (session.negateNonce ? -nonce : nonce) +
+        binToBigIntUint256BE(session.challenge) *
+          coefficient *
+          binToBigIntUint256BE(privateKey),
+      secp256k1Order
+    )
+  );
+};
+
+/**
+ * Verify a MuSig2 partial signature against the signer's public key and public
+ * nonce. Partial signatures should be verified before aggregation to identify
+ * misbehaving signers.
+ *
+ * @param crypto - an implementation of secp256k1
+ * @param partialSignature - the 32-byte partial signature to verify
+ * @param publicKey - the compressed public key of the signer
+ * @param publicNonce - the signer's 66-byte public nonce
+ * @param session - the signing session from `createSessionMusig2`
+ */
+export const verifyPartialSignatureMusig2 = (
+  crypto: {
+    secp256k1: {
+      derivePublicKeyCompressed: Secp256k1['derivePublicKeyCompressed'];
+      mulTweakPublicKeyCompressed: Secp256k1['mulTweakPublicKeyCompressed'];
+    };
+  },
+  {
+    partialSignature,
+    publicKey,
+    publicNonce,
+    session,
+  }: {
+    partialSignature: Uint8Array;
+    publicKey: Uint8Array;
+    publicNonce: Uint8Array;
+    session: SessionMusig2;
+  }
+) => {
+  const signerIndex = findSigner(session.keyAggregation, publicKey);
+  const [r1] = decodeNonce(publicNonce);
+  if (
+    signerIndex === -1 ||
+    r1 === undefined ||
+    !validateSecp256k1PrivateKey(partialSignature)
+  ) {
+    return false;
+  }
+  const scalar = bigIntToBinUint256BEClamped(
+    modulo(
+      binToBigIntUint256BE(session.challenge) *
+        binToBigIntUint256BE(session.keyAggregation.coefficients[signerIndex]),
+      secp256k1Order
+    )
+  );
+  // eslint-disable-next-line functional/no-try-statement
+  try {
+    const nonce = encodePointSecp256k1(
+      addPointsSecp256k1(
+        r1,
+        decodePointSecp256k1(
+          crypto.secp256k1.mulTweakPublicKeyCompressed(
+            publicNonce.slice(Internal.compressedPublicKeyLength),
+            session.nonceCoefficient
+          )
+        )
+      ) as { x: bigint; y: bigint }
+    );
+    const expected = addPointsSecp256k1(
+      decodePointSecp256k1(
+        session.negateNonce ? negatePublicKeyCompressed(nonce) : nonce
+      ),
+      decodePointSecp256k1(
+        crypto.secp256k1.mulTweakPublicKeyCompressed(publicKey, scalar)
+      )
+    );
+    return (
+      expected !== undefined &&
+      binsAreEqual(
+        encodePointSecp256k1(expected),
+        crypto.secp256k1.derivePublicKeyCompressed(partialSignature)
+      )
+    );
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Aggregate the partial signatures of all signers into a 64-byte BCH Schnorr
+ * signature, which validates against the session's aggregate public key using
+ * `verifySignatureSchnorr`.
+ *
+ * Note, this method does not verify the partial signatures (see
+ * `verifyPartialSignatureMusig2`).
+ *
+ * @param partialSignatures - the partial signature of each signer
+ * @param session - the signing session from `createSessionMusig2`
+ */
+export const aggregatePartialSignaturesMusig2 = ({
+  partialSignatures,
+  session,
+}: {
+  partialSignatures: Uint8Array[];
+  session: SessionMusig2;
+}) => {
+  const scalars = partialSignatures.map(binToBigIntUint256BE);
+  if (
+    partialSignatures.some(
+      (signature) => signature.length !== Internal.privateKeyLength
+    ) ||
+    scalars.some((scalar) => scalar >= secp256k1Order)
+  ) {
+    return Musig2Error.invalidPartialSignature;
+  }
+  const s = scalars.reduce(
+    (sum, scalar) => (sum + scalar) % secp256k1Order,
+    BigInt(0)
+  );
+  return flattenBinArray([
+    session.finalNonce.slice(1),
+    bigIntToBinUint256BEClamped(s),
+  ]);
+};
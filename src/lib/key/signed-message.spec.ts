@@ -0,0 +1,186 @@
+/* eslint-disable functional/no-expression-statement */
+import test from 'ava';
+
+import {
+  binToHex,
+  encodeBitcoinSignedMessagePreimage,
+  hexToBin,
+  instantiateBIP32Crypto,
+  signBitcoinMessage,
+  SignedMessageError,
+  utf8ToBin,
+  verifyBitcoinSignedMessage,
+} from '../lib';
+
+const cryptoPromise = instantiateBIP32Crypto();
+
+const privateKey = hexToBin(
+  '1e99423a4ed27608a15a2616a2b0e9e52ced330ac530edcc32c8ffc6a526aedd'
+);
+const message = 'This is an example of a signed message.';
+const compressedSignature =
+  'IByrg9nja5SQ3wVs0qKGXHHiZfwsilBuxYMC4mBaAzdGfaktDmoYsrPz3xtwxdxVWHsiuHAneK3YNhNaYULjavA=';
+const uncompressedSignature =
+  'HByrg9nja5SQ3wVs0qKGXHHiZfwsilBuxYMC4mBaAzdGfaktDmoYsrPz3xtwxdxVWHsiuHAneK3YNhNaYULjavA=';
+
+test('[key] encodeBitcoinSignedMessagePreimage', (t) => {
+  t.deepEqual(
+    binToHex(encodeBitcoinSignedMessagePreimage('hello')),
+    '18426974636f696e205369676e6564204d6573736167653a0a0568656c6c6f'
+  );
+  t.deepEqual(
+    encodeBitcoinSignedMessagePreimage(utf8ToBin('hello')),
+    encodeBitcoinSignedMessagePreimage('hello')
+  );
+});
+
+test('[key] signBitcoinMessage', async (t) => {
+  const crypto = await cryptoPromise;
+  t.deepEqual(
+    signBitcoinMessage(crypto, privateKey, message),
+    compressedSignature
+  );
+  t.deepEqual(
+    signBitcoinMessage(crypto, privateKey, message, false),
+    uncompressedSignature
+  );
+  t.deepEqual(
+    signBitcoinMessage(crypto, new Uint8Array(32), message),
+    SignedMessageError.invalidPrivateKey
+  );
+});
+
+test('[key] verifyBitcoinSignedMessage: P2PKH', async (t) => {
+  const crypto = await cryptoPromise;
+  t.true(
+    verifyBitcoinSignedMessage(
+      crypto,
+      '1J7mdg5rbQyUHENYdx39WVWK7fsLpEoXZy',
+      compressedSignature,
+      message
+    )
+  );
+  t.true(
+    verifyBitcoinSignedMessage(
+      crypto,
+      'bitcoincash:qzaurep288g95nxxzafdd93m0a5apxaj0vua73mjlc',
+      compressedSignature,
+      message
+    )
+  );
+  t.true(
+    verifyBitcoinSignedMessage(
+      crypto,
+      '1424C2F4bC9JidNjjTUZCbUxv6Sa1Mt62x',
+      uncompressedSignature,
+      message
+    )
+  );
+  t.true(
+    verifyBitcoinSignedMessage(
+      crypto,
+      'bitcoincash:qqs3kax2g6r0s8ha54jpwelusnh3dkh7pvu23rzrru',
+      uncompressedSignature,
+      message
+    )
+  );
+  t.deepEqual(
+    verifyBitcoinSignedMessage(
+      crypto,
+      '1424C2F4bC9JidNjjTUZCbUxv6Sa1Mt62x',
+      compressedSignature,
+      message
+    ),
+    SignedMessageError.signatureMismatch
+  );
+  t.deepEqual(
+    verifyBitcoinSignedMessage(
+      crypto,
+      '1J7mdg5rbQyUHENYdx39WVWK7fsLpEoXZy',
+      compressedSignature,
+      'This is a different message.'
+    ),
+    SignedMessageError.signatureMismatch
+  );
+});
+
+test('[key] verifyBitcoinSignedMessage: P2WPKH and P2SH-P2WPKH (BIP137)', async (t) => {
+  const crypto = await cryptoPromise;
+  t.true(
+    verifyBitcoinSignedMessage(
+      crypto,
+      'bc1qh0q7g23e6pdye3sh2ttfvwmld8gfhvnmmfxuck',
+      'KByrg9nja5SQ3wVs0qKGXHHiZfwsilBuxYMC4mBaAzdGfaktDmoYsrPz3xtwxdxVWHsiuHAneK3YNhNaYULjavA=',
+      message
+    )
+  );
+  t.true(
+    verifyBitcoinSignedMessage(
+      crypto,
+      'bc1qh0q7g23e6pdye3sh2ttfvwmld8gfhvnmmfxuck',
+      compressedSignature,
+      message
+    )
+  );
+  t.true(
+    verifyBitcoinSignedMessage(
+      crypto,
+      '3FyC6EYuxW22uj4CaEGjNCjxeg7gHyFeVv',
+      'JByrg9nja5SQ3wVs0qKGXHHiZfwsilBuxYMC4mBaAzdGfaktDmoYsrPz3xtwxdxVWHsiuHAneK3YNhNaYULjavA=',
+      message
+    )
+  );
+  t.deepEqual(
+    verifyBitcoinSignedMessage(
+      crypto,
+      'bc1qh0q7g23e6pdye3sh2ttfvwmld8gfhvnmmfxuck',
+      uncompressedSignature,
+      message
+    ),
+    SignedMessageError.invalidSignatureHeader
+  );
+});
+
+test('[key] verifyBitcoinSignedMessage: errors', async (t) => {
+  const crypto = await cryptoPromise;
+  const address = '1J7mdg5rbQyUHENYdx39WVWK7fsLpEoXZy';
+  t.deepEqual(
+    verifyBitcoinSignedMessage(crypto, 'not an address', '', message),
+    SignedMessageError.invalidAddress
+  );
+  t.deepEqual(
+    verifyBitcoinSignedMessage(
+      crypto,
+      'bc1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3qccfmv3',
+      compressedSignature,
+      message
+    ),
+    SignedMessageError.unsupportedAddressType
+  );
+  t.deepEqual(
+    verifyBitcoinSignedMessage(crypto, address, 'not base64', message),
+    SignedMessageError.invalidSignatureEncoding
+  );
+  t.deepEqual(
+    verifyBitcoinSignedMessage(crypto, address, 'AAAA', message),
+    SignedMessageError.invalidSignatureLength
+  );
+  t.deepEqual(
+    verifyBitcoinSignedMessage(
+      crypto,
+      address,
+      `A${compressedSignature.slice(1)}`,
+      message
+    ),
+    SignedMessageError.invalidSignatureHeader
+  );
+  t.deepEqual(
+    verifyBitcoinSignedMessage(
+      crypto,
+      address,
+      'IAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA=',
+      message
+    ),
+    SignedMessageError.invalidSignature
+  );
+});
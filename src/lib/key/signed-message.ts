@@ -0,0 +1,267 @@
+import {
+  addressContentsToLockingBytecode,
+  AddressType,
+  base58AddressToLockingBytecode,
+  cashAddressToLockingBytecode,
+  lockingBytecodeToAddressContents,
+  segWitAddressToLockingBytecode,
+} from '../address/address';
+import { RecoveryId, Ripemd160, Secp256k1, Sha256 } from '../crypto/crypto';
+import {
+  base64ToBin,
+  bigIntToBitcoinVarInt,
+  binsAreEqual,
+  binToBase64,
+  flattenBinArray,
+  isBase64,
+  utf8ToBin,
+} from '../format/format';
+
+import { validateSecp256k1PrivateKey } from './key-utils';
+
+export enum SignedMessageError {
+  invalidPrivateKey = 'Signed message error: the private key is not a valid Secp256k1 private key.',
+  invalidAddress = 'Signed message error: the address is not a valid CashAddress, Base58Address, or SegWit address.',
+  unsupportedAddressType = 'Signed message error: only P2PKH, P2WPKH, and P2SH-P2WPKH addresses can be used to verify signed messages.',
+  invalidSignatureEncoding = 'Signed message error: the signature is not valid base64.',
+  invalidSignatureLength = 'Signed message error: the signature is not the correct length (65 bytes).',
+  invalidSignatureHeader = 'Signed message error: the signature header byte is invalid.',
+  invalidSignature = 'Signed message error: no public key can be recovered from the signature.',
+  signatureMismatch = 'Signed message error: the signature was not created by a key controlling the provided address.',
+}
+
+const enum Internal {
+  signatureLength = 65,
+  headerOffset = 27,
+  headerCompressedFlag = 4,
+  headerMaximum = 42,
+  recoveryIds = 4,
+}
+
+/**
+ * The magic string prepended to messages before they are hashed for signing.
+ */
+export const bitcoinSignedMessageMagic = 'Bitcoin Signed Message:\n';
+
+/**
+ * Encode the preimage of a Bitcoin signed message: the length-prefixed
+ * `bitcoinSignedMessageMagic`, followed by the length-prefixed message.
+ *
+ * This is the format used by the `signmessage` and `verifymessage` RPCs of the
+ * satoshi client, as well as most wallets on BTC and BCH.
+ *
+ * @param message - the message to encode – strings are UTF8-encoded
+ */
+export const encodeBitcoinSignedMessagePreimage = (
+  message: string | Uint8Array
+) => {
+  const magic = utf8ToBin(bitcoinSignedMessageMagic);
+  const messageBin = typeof message === 'string' ? utf8ToBin(message) : message;
+  return flattenBinArray([
+    bigIntToBitcoinVarInt(BigInt(magic.length)),
+    magic,
+    bigIntToBitcoinVarInt(BigInt(messageBin.length)),
+    messageBin,
+  ]);
+};
+
+/**
+ * Compute the hash signed by a Bitcoin signed message signature: the double
+ * `SHA256` of the preimage (see `encodeBitcoinSignedMessagePreimage`).
+ *
+ * @param sha256 - an implementation of sha256 (a universal implementation is
+ * available via `instantiateSha256`)
+ * @param message - the message to hash – strings are UTF8-encoded
+ */
+export const hashBitcoinSignedMessage = (
+  sha256: { hash: Sha256['hash'] },
+  message: string | Uint8Array
+) => sha256.hash(sha256.hash(encodeBitcoinSignedMessagePreimage(message)));
+
+/**
+ * Sign a message using the Bitcoin signed message format (as used by the
+ * `signmessage` RPC of the satoshi client), returning the base64-encoded,
+ * 65-byte recoverable signature.
+ *
+ * The first byte of the signature is a header byte encoding the recovery ID and
+ * the compression of the public key: `27` plus the recovery ID for uncompressed
+ * public keys, or `31` plus the recovery ID for compressed public keys. The
+ * remaining 64 bytes are the compact-encoded ECDSA signature.
+ *
+ * If the private key is invalid, an error message is returned as a string.
+ *
+ * @param crypto - implementations of sha256 and secp256k1 (universal
+ * implementations are available via `instantiateSha256` and
+ * `instantiateSecp256k1`)
+ * @param privateKey - the 32-byte Secp256k1 private key with which to sign
+ * @param message - the message to sign – strings are UTF8-encoded
+ * @param compressed - if `true`, the signature will commit to the compressed
+ * form of the public key (e.g. a P2PKH address using the compressed public
+ * key), defaults to `true`
+ */
+export const signBitcoinMessage = (
+  crypto: {
+    secp256k1: {
+      signMessageHashRecoverableCompact: Secp256k1['signMessageHashRecoverableCompact'];
+    };
+    sha256: { hash: Sha256['hash'] };
+  },
+  privateKey: Uint8Array,
+  message: string | Uint8Array,
+  compressed = true
+) => {
+  if (!validateSecp256k1PrivateKey(privateKey)) {
+    return SignedMessageError.invalidPrivateKey;
+  }
+  const {
+    recoveryId,
+    signature,
+  } = crypto.secp256k1.signMessageHashRecoverableCompact(
+    privateKey,
+    hashBitcoinSignedMessage(crypto.sha256, message)
+  );
+  const header =
+    Internal.headerOffset +
+    recoveryId +
+    (compressed ? Internal.headerCompressedFlag : 0);
+  return binToBase64(Uint8Array.from([header, ...signature]));
+};
+
+/**
+ * Decode a CashAddress, Base58Address, or SegWit address to its locking
+ * bytecode, returning `undefined` if the address cannot be decoded.
+ */
+const addressToLockingBytecode = (
+  sha256: { hash: Sha256['hash'] },
+  address: string
+) =>
+  [
+    cashAddressToLockingBytecode(address),
+    base58AddressToLockingBytecode(sha256, address),
+    segWitAddressToLockingBytecode(address),
+  ]
+    .map((result) => (typeof result === 'string' ? undefined : result.bytecode))
+    .find((bytecode) => bytecode !== undefined);
+
+/**
+ * Recover the public key from a compact signature, returning `undefined` if no
+ * public key can be recovered.
+ */
+const recoverPublicKey = (
+  secp256k1: {
+    recoverPublicKeyCompressed: Secp256k1['recoverPublicKeyCompressed'];
+    recoverPublicKeyUncompressed: Secp256k1['recoverPublicKeyUncompressed'];
+  },
+  signature: Uint8Array,
+  recoveryId: RecoveryId,
+  messageHash: Uint8Array,
+  compressed: boolean
+) => {
+  // eslint-disable-next-line functional/no-try-statement
+  try {
+    return compressed
+      ? secp256k1.recoverPublicKeyCompressed(signature, recoveryId, messageHash)
+      : secp256k1.recoverPublicKeyUncompressed(
+          signature,
+          recoveryId,
+          messageHash
+        );
+  } catch (error) {
+    return undefined;
+  }
+};
+
+/**
+ * Verify a Bitcoin signed message (as created by the `signmessage` RPC of the
+ * satoshi client, or `signBitcoinMessage`) against an address.
+ *
+ * The public key is recovered from the signature, and its hash is compared
+ * against the payload of the address (see `lockingBytecodeToAddressContents`).
+ * P2PKH addresses may be provided in CashAddress or Base58Address format. P2WPKH
+ * addresses (SegWit address format) and P2SH-P2WPKH addresses (Base58Address
+ * format) are also supported as described in BIP137; these always use the
+ * compressed public key, so any compressed header byte (`31` through `42`) is
+ * accepted.
+ *
+ * Returns `true` if the signature is valid, otherwise an error message is
+ * returned as a string.
+ *
+ * @param crypto - implementations of ripemd160, sha256, and secp256k1
+ * (available via `instantiateBIP32Crypto`)
+ * @param address - the address of the key which is expected to have signed the
+ * message
+ * @param signature - the base64-encoded, 65-byte recoverable signature
+ * @param message - the signed message – strings are UTF8-encoded
+ */
+// eslint-disable-next-line complexity
+export const verifyBitcoinSignedMessage = (
+  crypto: {
+    ripemd160: { hash: Ripemd160['hash'] };
+    secp256k1: {
+      recoverPublicKeyCompressed: Secp256k1['recoverPublicKeyCompressed'];
+      recoverPublicKeyUncompressed: Secp256k1['recoverPublicKeyUncompressed'];
+    };
+    sha256: { hash: Sha256['hash'] };
+  },
+  address: string,
+  signature: string,
+  message: string | Uint8Array
+): true | SignedMessageError => {
+  const lockingBytecode = addressToLockingBytecode(crypto.sha256, address);
+  if (lockingBytecode === undefined) {
+    return SignedMessageError.invalidAddress;
+  }
+  const contents = lockingBytecodeToAddressContents(lockingBytecode);
+  if (
+    contents.type !== AddressType.p2pkh &&
+    contents.type !== AddressType.p2sh &&
+    contents.type !== AddressType.p2wpkh
+  ) {
+    return SignedMessageError.unsupportedAddressType;
+  }
+
+  if (!isBase64(signature)) {
+    return SignedMessageError.invalidSignatureEncoding;
+  }
+  const signatureBin = base64ToBin(signature);
+  if (signatureBin.length !== Internal.signatureLength) {
+    return SignedMessageError.invalidSignatureLength;
+  }
+  const header = signatureBin[0];
+  if (header < Internal.headerOffset || header > Internal.headerMaximum) {
+    return SignedMessageError.invalidSignatureHeader;
+  }
+  const flags = header - Internal.headerOffset;
+  const recoveryId = (flags % Internal.recoveryIds) as RecoveryId;
+  const compressed = flags >= Internal.headerCompressedFlag;
+  if (contents.type !== AddressType.p2pkh && !compressed) {
+    return SignedMessageError.invalidSignatureHeader;
+  }
+
+  const publicKey = recoverPublicKey(
+    crypto.secp256k1,
+    signatureBin.slice(1),
+    recoveryId,
+    hashBitcoinSignedMessage(crypto.sha256, message),
+    compressed
+  );
+  if (publicKey === undefined) {
+    return SignedMessageError.invalidSignature;
+  }
+
+  const hash160 = (input: Uint8Array) =>
+    crypto.ripemd160.hash(crypto.sha256.hash(input));
+  const publicKeyHash = hash160(publicKey);
+  const expectedPayload =
+    contents.type === AddressType.p2sh
+      ? hash160(
+          addressContentsToLockingBytecode({
+            payload: publicKeyHash,
+            type: AddressType.p2wpkh,
+          })
+        )
+      : publicKeyHash;
+  return binsAreEqual(contents.payload, expectedPayload)
+    ? true
+    : SignedMessageError.signatureMismatch;
+};
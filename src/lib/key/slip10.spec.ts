@@ -0,0 +1,188 @@
+/* eslint-disable functional/no-expression-statement */
+
+import test, { Macro } from 'ava';
+
+import {
+  binToHex,
+  deriveSlip10Path,
+  deriveSlip10PrivateNodeChild,
+  deriveSlip10PrivateNodeFromSeed,
+  deriveSlip10PublicNode,
+  deriveSlip10PublicNodeChild,
+  HdNodeDerivationError,
+  HdPrivateNodeValid,
+  HdPublicNode,
+  hexToBin,
+  instantiateBIP32Crypto,
+  Slip10Curve,
+  Slip10DerivationError,
+} from '../lib';
+
+const crypto = instantiateBIP32Crypto();
+const seed = hexToBin('000102030405060708090a0b0c0d0e0f');
+
+/**
+ * SLIP-0010 test vector 1
+ */
+const vector: Macro<[
+  Slip10Curve,
+  string,
+  {
+    chainCode: string;
+    fingerprint: string;
+    privateKey: string;
+    publicKey: string;
+  }
+]> = async (t, curve, path, expected) => {
+  const master = deriveSlip10PrivateNodeFromSeed(await crypto, seed, curve);
+  const node = deriveSlip10Path(await crypto, master, path, curve);
+  if (typeof node === 'string') {
+    t.fail(node);
+    return;
+  }
+  t.deepEqual(
+    {
+      chainCode: binToHex(node.chainCode),
+      fingerprint: binToHex(node.parentFingerprint),
+      privateKey: binToHex(node.privateKey),
+      publicKey: binToHex(
+        deriveSlip10PublicNode(await crypto, node, curve).publicKey
+      ),
+    },
+    expected
+  );
+};
+// eslint-disable-next-line functional/immutable-data
+vector.title = (_, curve, path) =>
+  `[crypto] SLIP-0010 vector: ${curve} ${path}`;
+
+test(vector, 'ed25519', 'm', {
+  chainCode: '90046a93de5380a72b5e45010748567d5ea02bbf6522f979e05c0d8d8ca9fffb',
+  fingerprint: '00000000',
+  privateKey:
+    '2b4be7f19ee27bbf30c667b642d5f4aa69fd169872f8fc3059c08ebae2eb19e7',
+  publicKey:
+    '00a4b2856bfec510abab89753fac1ac0e1112364e7d250545963f135f2a33188ed',
+});
+
+test(vector, 'ed25519', "m/0'", {
+  chainCode: '8b59aa11380b624e81507a27fedda59fea6d0b779a778918a2fd3590e16e9c69',
+  fingerprint: 'ddebc675',
+  privateKey:
+    '68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3',
+  publicKey:
+    '008c8a13df77a28f3445213a0f432fde644acaa215fc72dcdf300d5efaa85d350c',
+});
+
+test(vector, 'ed25519', "m/0'/1'", {
+  chainCode: 'a320425f77d1b5c2505a6b1b27382b37368ee640e3557c315416801243552f14',
+  fingerprint: '13dab143',
+  privateKey:
+    'b1d0bad404bf35da785a64ca1ac54b2617211d2777696fbffaf208f746ae84f2',
+  publicKey:
+    '001932a5270f335bed617d5b935c80aedb1a35bd9fc1e31acafd5372c30f5c1187',
+});
+
+test(vector, 'ed25519', "m/0'/1'/2'", {
+  chainCode: '2e69929e00b5ab250f49c3fb1c12f252de4fed2c1db88387094a0f8c4c9ccd6c',
+  fingerprint: 'ebe4cb29',
+  privateKey:
+    '92a5b23c0b8a99e37d07df3fb9966917f5d06e02ddbd909c7e184371463e9fc9',
+  publicKey:
+    '00ae98736566d30ed0e9d2f4486a64bc95740d89c7db33f52121f8ea8f76ff0fc1',
+});
+
+test(vector, 'nist256p1', 'm', {
+  chainCode: 'beeb672fe4621673f722f38529c07392fecaa61015c80c34f29ce8b41b3cb6ea',
+  fingerprint: '00000000',
+  privateKey:
+    '612091aaa12e22dd2abef664f8a01a82cae99ad7441b7ef8110424915c268bc2',
+  publicKey:
+    '0266874dc6ade47b3ecd096745ca09bcd29638dd52c2c12117b11ed3e458cfa9e8',
+});
+
+test(vector, 'nist256p1', "m/0'", {
+  chainCode: '3460cea53e6a6bb5fb391eeef3237ffd8724bf0a40e94943c98b83825342ee11',
+  fingerprint: 'be6105b5',
+  privateKey:
+    '6939694369114c67917a182c59ddb8cafc3004e63ca5d3b84403ba8613debc0c',
+  publicKey:
+    '0384610f5ecffe8fda089363a41f56a5c7ffc1d81b59a612d0d649b2d22355590c',
+});
+
+test(vector, 'nist256p1', "m/0'/1", {
+  chainCode: '4187afff1aafa8445010097fb99d23aee9f599450c7bd140b6826ac22ba21d0c',
+  fingerprint: '9b02312f',
+  privateKey:
+    '284e9d38d07d21e4e281b645089a94f4cf5a5a81369acf151a1c3a57f18b2129',
+  publicKey:
+    '03526c63f8d0b4bbbf9c80df553fe66742df4676b241dabefdef67733e070f6844',
+});
+
+test('[crypto] deriveSlip10Path: nist256p1 public derivation', async (t) => {
+  const master = deriveSlip10PrivateNodeFromSeed(
+    await crypto,
+    seed,
+    'nist256p1'
+  );
+  const privateNode = deriveSlip10Path(
+    await crypto,
+    master,
+    "m/0'/1/2",
+    'nist256p1'
+  ) as HdPrivateNodeValid;
+  const publicParent = deriveSlip10PublicNode(
+    await crypto,
+    deriveSlip10Path(
+      await crypto,
+      master,
+      "m/0'",
+      'nist256p1'
+    ) as HdPrivateNodeValid,
+    'nist256p1'
+  );
+  const publicNode = deriveSlip10Path(
+    await crypto,
+    publicParent,
+    'M/1/2',
+    'nist256p1'
+  ) as HdPublicNode;
+  t.deepEqual(
+    deriveSlip10PublicNode(await crypto, privateNode, 'nist256p1'),
+    publicNode
+  );
+  t.deepEqual(
+    deriveSlip10PublicNodeChild(
+      await crypto,
+      publicParent,
+      0x80000000,
+      'nist256p1'
+    ),
+    HdNodeDerivationError.hardenedDerivationRequiresPrivateNode
+  );
+});
+
+test('[crypto] deriveSlip10Path: errors', async (t) => {
+  const master = deriveSlip10PrivateNodeFromSeed(await crypto, seed, 'ed25519');
+  t.deepEqual(
+    deriveSlip10Path(await crypto, master, "m/0'/1", 'ed25519'),
+    Slip10DerivationError.ed25519RequiresHardenedDerivation
+  );
+  t.deepEqual(
+    deriveSlip10Path(
+      await crypto,
+      deriveSlip10PublicNode(await crypto, master, 'ed25519'),
+      'M/0',
+      'ed25519'
+    ),
+    Slip10DerivationError.ed25519RequiresPrivateDerivation
+  );
+  t.deepEqual(
+    deriveSlip10Path(await crypto, master, 'M/0', 'ed25519'),
+    HdNodeDerivationError.invalidPrivateDerivationPrefix
+  );
+  t.deepEqual(
+    deriveSlip10PrivateNodeChild(await crypto, master, 0x100000000, 'ed25519'),
+    HdNodeDerivationError.childIndexExceedsMaximum
+  );
+});
@@ -0,0 +1,341 @@
+import {
+  addTweakPrivateKeyP256,
+  addTweakPublicKeyCompressedP256,
+  derivePublicKeyCompressedP256,
+  derivePublicKeyEd25519,
+  Ripemd160,
+  Sha256,
+  Sha512,
+  validatePrivateKeyP256,
+} from '../crypto/crypto';
+import { hmacSha512 } from '../crypto/hmac';
+import { flattenBinArray, numberToBinUint32BE } from '../format/format';
+import { utf8ToBin } from '../format/utf8';
+
+import {
+  HdNodeDerivationError,
+  HdPrivateNodeKnownParent,
+  HdPrivateNodeValid,
+  HdPublicNode,
+  HdPublicNodeKnownParent,
+  parseHdPath,
+} from './hd-key';
+
+/**
+ * The curves supported by SLIP-0010 derivation in this library. (SLIP-0010
+ * derivation for `secp256k1` is identical to BIP32, see
+ * `deriveHdPrivateNodeFromSeed`.)
+ */
+export type Slip10Curve = 'ed25519' | 'nist256p1';
+
+/**
+ * An error in the SLIP-0010 derivation of child HD public or private nodes.
+ */
+export enum Slip10DerivationError {
+  ed25519RequiresHardenedDerivation = 'SLIP-0010 derivation error: ed25519 only supports hardened derivation (child indexes greater than or equal to 2147483648).',
+  ed25519RequiresPrivateDerivation = 'SLIP-0010 derivation error: ed25519 does not support public derivation.',
+}
+
+const enum Internal {
+  halfHmacSha512Length = 32,
+  hardenedIndexOffset = 0x80000000,
+  maximumIndex = 0xffffffff,
+  parentFingerprintLength = 4,
+}
+
+const slip10HmacSha512Keys: { [curve in Slip10Curve]: Uint8Array } = {
+  ed25519: utf8ToBin('ed25519 seed'),
+  nist256p1: utf8ToBin('Nist256p1 seed'),
+};
+
+/**
+ * Derive the 33-byte public key of a private key as serialized by SLIP-0010:
+ * for `ed25519`, a `0x00` byte followed by the 32-byte ed25519 public key, for
+ * `nist256p1`, the compressed public key.
+ */
+const derivePublicKey = (
+  sha512: { hash: Sha512['hash'] },
+  privateKey: Uint8Array,
+  curve: Slip10Curve
+) =>
+  curve === 'ed25519'
+    ? flattenBinArray([
+        Uint8Array.of(0),
+        derivePublicKeyEd25519(sha512, privateKey),
+      ])
+    : (derivePublicKeyCompressedP256(privateKey) as Uint8Array);
+
+/**
+ * Derive an `HdPrivateNode` from the provided seed following the SLIP-0010
+ * specification. A seed should include between 16 bytes and 64 bytes of
+ * entropy (recommended: 32 bytes).
+ *
+ * Unlike BIP32, SLIP-0010 derivation always produces a valid node: for
+ * `nist256p1`, invalid private keys are skipped by repeating the HMAC, and for
+ * `ed25519`, every 32-byte value is a valid private key.
+ *
+ * @param crypto - an implementation of sha512
+ * @param seed - the entropy from which to derive the `HdPrivateNode`
+ * @param curve - the curve for which to derive the node
+ */
+export const deriveSlip10PrivateNodeFromSeed = (
+  crypto: { sha512: { hash: Sha512['hash'] } },
+  seed: Uint8Array,
+  curve: Slip10Curve
+): HdPrivateNodeValid => {
+  const derive = (data: Uint8Array): Uint8Array => {
+    const mac = hmacSha512(crypto.sha512, slip10HmacSha512Keys[curve], data);
+    const privateKey = mac.slice(0, Internal.halfHmacSha512Length);
+    return curve === 'ed25519' || validatePrivateKeyP256(privateKey)
+      ? mac
+      : derive(mac);
+  };
+  const mac = derive(seed);
+  return {
+    chainCode: mac.slice(Internal.halfHmacSha512Length),
+    childIndex: 0,
+    depth: 0,
+    parentFingerprint: Uint8Array.from([0, 0, 0, 0]),
+    privateKey: mac.slice(0, Internal.halfHmacSha512Length),
+    valid: true,
+  };
+};
+
+/**
+ * Derive the SLIP-0010 HD public node of an HD private node.
+ *
+ * For `ed25519`, the `publicKey` of the resulting node is a `0x00` byte
+ * followed by the 32-byte ed25519 public key (as serialized by SLIP-0010).
+ * Note, `ed25519` public nodes cannot be used to derive child nodes.
+ *
+ * @param crypto - an implementation of sha512
+ * @param node - a valid HD private node
+ * @param curve - the curve for which the node was derived
+ */
+export const deriveSlip10PublicNode = <
+  PrivateNode extends HdPrivateNodeValid = HdPrivateNodeValid
+>(
+  crypto: { sha512: { hash: Sha512['hash'] } },
+  node: PrivateNode,
+  curve: Slip10Curve
+) =>
+  ({
+    chainCode: node.chainCode,
+    childIndex: node.childIndex,
+    depth: node.depth,
+    parentFingerprint: node.parentFingerprint,
+    ...(node.parentIdentifier === undefined
+      ? {}
+      : { parentIdentifier: node.parentIdentifier }),
+    publicKey: derivePublicKey(crypto.sha512, node.privateKey, curve),
+  } as PrivateNode extends HdPrivateNodeKnownParent
+    ? HdPublicNodeKnownParent
+    : HdPublicNode);
+
+/**
+ * Derive a child node using the SLIP-0010 procedure: if `tweak` returns
+ * `undefined` (the derived key is invalid), the HMAC is repeated with the data
+ * `0x01 || IR || index`.
+ */
+const deriveChild = <T>(
+  crypto: { sha512: { hash: Sha512['hash'] } },
+  chainCode: Uint8Array,
+  data: Uint8Array,
+  index: number,
+  tweak: (tweakValue: Uint8Array) => T | undefined
+): { chainCode: Uint8Array; result: T } => {
+  const derivation = hmacSha512(crypto.sha512, chainCode, data);
+  const nextChainCode = derivation.slice(Internal.halfHmacSha512Length);
+  const result = tweak(derivation.slice(0, Internal.halfHmacSha512Length));
+  return result === undefined
+    ? deriveChild(
+        crypto,
+        chainCode,
+        flattenBinArray([
+          Uint8Array.of(1),
+          nextChainCode,
+          numberToBinUint32BE(index),
+        ]),
+        index,
+        tweak
+      )
+    : { chainCode: nextChainCode, result };
+};
+
+const parentIdentification = (
+  crypto: {
+    ripemd160: { hash: Ripemd160['hash'] };
+    sha256: { hash: Sha256['hash'] };
+  },
+  publicKey: Uint8Array
+) => {
+  const parentIdentifier = crypto.ripemd160.hash(crypto.sha256.hash(publicKey));
+  return {
+    parentFingerprint: parentIdentifier.slice(
+      0,
+      Internal.parentFingerprintLength
+    ),
+    parentIdentifier,
+  };
+};
+
+/**
+ * Derive a child HD private node from an HD private node following the
+ * SLIP-0010 specification. For `ed25519`, only hardened child indexes
+ * (greater than or equal to `0x80000000`/`2147483648`) may be derived.
+ *
+ * As with BIP32, the parent identifier is the `hash160` of the parent's
+ * (SLIP-0010-serialized) public key.
+ *
+ * @param crypto - implementations of sha256, sha512, and ripemd160
+ * @param node - the valid HD private node from which to derive the child node
+ * @param index - the index at which to derive the child node
+ * @param curve - the curve for which the node was derived
+ */
+export const deriveSlip10PrivateNodeChild = (
+  crypto: {
+    ripemd160: { hash: Ripemd160['hash'] };
+    sha256: { hash: Sha256['hash'] };
+    sha512: { hash: Sha512['hash'] };
+  },
+  node: HdPrivateNodeValid,
+  index: number,
+  curve: Slip10Curve
+):
+  | HdPrivateNodeKnownParent
+  | HdNodeDerivationError.childIndexExceedsMaximum
+  | Slip10DerivationError.ed25519RequiresHardenedDerivation => {
+  if (index > Internal.maximumIndex) {
+    return HdNodeDerivationError.childIndexExceedsMaximum;
+  }
+  const useHardenedAlgorithm = index >= Internal.hardenedIndexOffset;
+  if (curve === 'ed25519' && !useHardenedAlgorithm) {
+    return Slip10DerivationError.ed25519RequiresHardenedDerivation;
+  }
+  const publicKey = derivePublicKey(crypto.sha512, node.privateKey, curve);
+  const { chainCode, result } = deriveChild(
+    crypto,
+    node.chainCode,
+    flattenBinArray([
+      useHardenedAlgorithm
+        ? flattenBinArray([Uint8Array.of(0), node.privateKey])
+        : publicKey,
+      numberToBinUint32BE(index),
+    ]),
+    index,
+    (tweakValue) =>
+      curve === 'ed25519'
+        ? tweakValue
+        : addTweakPrivateKeyP256(node.privateKey, tweakValue)
+  );
+  return {
+    chainCode,
+    childIndex: index,
+    depth: node.depth + 1,
+    ...parentIdentification(crypto, publicKey),
+    privateKey: result,
+    valid: true,
+  };
+};
+
+/**
+ * Derive a non-hardened child HD public node from an HD public node following
+ * the SLIP-0010 specification. Public derivation is only supported by
+ * `nist256p1`.
+ *
+ * @param crypto - implementations of sha256, sha512, and ripemd160
+ * @param node - the HD public node from which to derive the child public node
+ * @param index - the index at which to derive the child node
+ * @param curve - the curve for which the node was derived
+ */
+export const deriveSlip10PublicNodeChild = (
+  crypto: {
+    ripemd160: { hash: Ripemd160['hash'] };
+    sha256: { hash: Sha256['hash'] };
+    sha512: { hash: Sha512['hash'] };
+  },
+  node: HdPublicNode,
+  index: number,
+  curve: Slip10Curve
+):
+  | HdPublicNodeKnownParent
+  | HdNodeDerivationError.hardenedDerivationRequiresPrivateNode
+  | Slip10DerivationError.ed25519RequiresPrivateDerivation => {
+  if (curve === 'ed25519') {
+    return Slip10DerivationError.ed25519RequiresPrivateDerivation;
+  }
+  if (index >= Internal.hardenedIndexOffset) {
+    return HdNodeDerivationError.hardenedDerivationRequiresPrivateNode;
+  }
+  const { chainCode, result } = deriveChild(
+    crypto,
+    node.chainCode,
+    flattenBinArray([node.publicKey, numberToBinUint32BE(index)]),
+    index,
+    (tweakValue) => addTweakPublicKeyCompressedP256(node.publicKey, tweakValue)
+  );
+  return {
+    chainCode,
+    childIndex: index,
+    depth: node.depth + 1,
+    ...parentIdentification(crypto, node.publicKey),
+    publicKey: result,
+  };
+};
+
+/**
+ * Derive a child HD node from a parent node given a derivation path following
+ * the SLIP-0010 specification. The resulting node is the same type as the
+ * parent node (private nodes return private nodes, public nodes return public
+ * nodes).
+ *
+ * The derivation path uses the same notation as `deriveHdPath`, e.g.
+ * `m/44'/1729'/0'` or (for `nist256p1` public derivation) `M/0/1`.
+ *
+ * @param crypto - implementations of sha256, sha512, and ripemd160
+ * @param node - the HD node from which to begin the derivation (for paths
+ * beginning with `m`, an `HdPrivateNodeValid`; for paths beginning with `M`, an
+ * `HdPublicNode`)
+ * @param path - the derivation path, e.g. `m/0'/1'` or `M/3/4/5`
+ * @param curve - the curve for which the node was derived
+ */
+export const deriveSlip10Path = <
+  NodeType extends HdPrivateNodeValid | HdPublicNode
+>(
+  crypto: {
+    ripemd160: { hash: Ripemd160['hash'] };
+    sha256: { hash: Sha256['hash'] };
+    sha512: { hash: Sha512['hash'] };
+  },
+  node: NodeType,
+  path: string,
+  curve: Slip10Curve
+):
+  | HdNodeDerivationError
+  | Slip10DerivationError
+  | (NodeType extends HdPrivateNodeValid
+      ? HdPrivateNodeValid
+      : HdPublicNode) => {
+  const isPrivateDerivation = 'privateKey' in node;
+  const indexes = parseHdPath(path, isPrivateDerivation);
+  if (typeof indexes === 'string') {
+    return indexes;
+  }
+  return indexes.reduce<
+    | HdNodeDerivationError
+    | Slip10DerivationError
+    | HdPrivateNodeValid
+    | HdPublicNode
+  >(
+    (result, nextIndex) =>
+      typeof result === 'string'
+        ? result
+        : 'privateKey' in result
+        ? deriveSlip10PrivateNodeChild(crypto, result, nextIndex, curve)
+        : deriveSlip10PublicNodeChild(crypto, result, nextIndex, curve),
+    node
+  ) as
+    | HdNodeDerivationError
+    | Slip10DerivationError
+    | (NodeType extends HdPrivateNodeValid ? HdPrivateNodeValid : HdPublicNode);
+};
@@ -4,6 +4,7 @@ import test from 'ava';
 import {
   AuthenticationErrorBCH,
   AuthenticationInstruction,
+  createAuthenticationProgramEvaluationCommon,
   createAuthenticationProgramStateCommon,
   createCompilerBCH,
   createTransactionContextCommonTesting,
@@ -61,9 +62,15 @@ test('[BCH compiler] createCompilerBCH: generateBytecode', async (t) => {
 
 test('[BCH compiler] createCompilerBCH: debug', async (t) => {
   const state = createTransactionContextCommonTesting();
+  const evaluationProgram = createAuthenticationProgramEvaluationCommon(
+    hexToBin(
+      '210376ea9e36a75d2ecf9c93a0be76885e36f822529db22acfdc761c9b5b4544f5c5a9'
+    )
+  );
   const createState = (instructions: AuthenticationInstruction<OpcodesBCH>[]) =>
     createAuthenticationProgramStateCommon<OpcodesBCH, AuthenticationErrorBCH>({
       instructions,
+      program: evaluationProgram,
       stack: [],
       transactionContext: state,
     });
@@ -390,6 +397,7 @@ test('[BCH compiler] createCompilerBCH: debug', async (t) => {
                       alternateStack: [],
                       correspondingOutput: hexToBin('000000000000000000'),
                       executionStack: [],
+                      inputIndex: 0,
                       instructions: [],
                       ip: 0,
                       lastCodeSeparator: -1,
@@ -403,6 +411,9 @@ test('[BCH compiler] createCompilerBCH: debug', async (t) => {
                       sequenceNumber: 0,
                       signatureOperationsCount: 0,
                       signedMessages: [],
+                      sourceOutputs: evaluationProgram.sourceOutputs,
+                      spendingTransaction:
+                        evaluationProgram.spendingTransaction,
                       stack: [],
                       transactionOutpoints: hexToBin(
                         '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -415,6 +426,7 @@ test('[BCH compiler] createCompilerBCH: debug', async (t) => {
                       alternateStack: [],
                       correspondingOutput: hexToBin('000000000000000000'),
                       executionStack: [],
+                      inputIndex: 0,
                       instructions: [
                         {
                           data: hexToBin(
@@ -438,6 +450,9 @@ test('[BCH compiler] createCompilerBCH: debug', async (t) => {
                       sequenceNumber: 0,
                       signatureOperationsCount: 0,
                       signedMessages: [],
+                      sourceOutputs: evaluationProgram.sourceOutputs,
+                      spendingTransaction:
+                        evaluationProgram.spendingTransaction,
                       stack: [],
                       transactionOutpoints: hexToBin(
                         '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -450,6 +465,7 @@ test('[BCH compiler] createCompilerBCH: debug', async (t) => {
                       alternateStack: [],
                       correspondingOutput: hexToBin('000000000000000000'),
                       executionStack: [],
+                      inputIndex: 0,
                       instructions: [
                         {
                           data: hexToBin(
@@ -473,6 +489,9 @@ test('[BCH compiler] createCompilerBCH: debug', async (t) => {
                       sequenceNumber: 0,
                       signatureOperationsCount: 0,
                       signedMessages: [],
+                      sourceOutputs: evaluationProgram.sourceOutputs,
+                      spendingTransaction:
+                        evaluationProgram.spendingTransaction,
                       stack: [
                         hexToBin(
                           '0376ea9e36a75d2ecf9c93a0be76885e36f822529db22acfdc761c9b5b4544f5c5'
@@ -489,6 +508,7 @@ test('[BCH compiler] createCompilerBCH: debug', async (t) => {
                       alternateStack: [],
                       correspondingOutput: hexToBin('000000000000000000'),
                       executionStack: [],
+                      inputIndex: 0,
                       instructions: [
                         {
                           data: hexToBin(
@@ -512,6 +532,9 @@ test('[BCH compiler] createCompilerBCH: debug', async (t) => {
                       sequenceNumber: 0,
                       signatureOperationsCount: 0,
                       signedMessages: [],
+                      sourceOutputs: evaluationProgram.sourceOutputs,
+                      spendingTransaction:
+                        evaluationProgram.spendingTransaction,
                       stack: [
                         hexToBin('15d16c84669ab46059313bf0747e781f1d13936d'),
                       ],
@@ -526,6 +549,7 @@ test('[BCH compiler] createCompilerBCH: debug', async (t) => {
                       alternateStack: [],
                       correspondingOutput: hexToBin('000000000000000000'),
                       executionStack: [],
+                      inputIndex: 0,
                       instructions: [
                         {
                           data: hexToBin(
@@ -549,6 +573,9 @@ test('[BCH compiler] createCompilerBCH: debug', async (t) => {
                       sequenceNumber: 0,
                       signatureOperationsCount: 0,
                       signedMessages: [],
+                      sourceOutputs: evaluationProgram.sourceOutputs,
+                      spendingTransaction:
+                        evaluationProgram.spendingTransaction,
                       stack: [
                         hexToBin('15d16c84669ab46059313bf0747e781f1d13936d'),
                       ],
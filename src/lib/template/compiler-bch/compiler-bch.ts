@@ -173,6 +173,7 @@ export const compilerOperationHelperComputeSignatureBCH = ({
     locktime: transactionContext.locktime,
     outpointIndex: transactionContext.outpointIndex,
     outpointTransactionHash: transactionContext.outpointTransactionHash,
+    outputTokenPrefix: transactionContext.outputTokenPrefix,
     outputValue: transactionContext.outputValue,
     sequenceNumber: transactionContext.sequenceNumber,
     sha256,
@@ -590,6 +591,7 @@ export const compilerOperationSigningSerializationFullBCH = compilerOperationReq
           locktime: transactionContext.locktime,
           outpointIndex: transactionContext.outpointIndex,
           outpointTransactionHash: transactionContext.outpointTransactionHash,
+          outputTokenPrefix: transactionContext.outputTokenPrefix,
           outputValue: transactionContext.outputValue,
           sequenceNumber: transactionContext.sequenceNumber,
           sha256,
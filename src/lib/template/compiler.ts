@@ -99,10 +99,12 @@ export const createAuthenticationProgramEvaluationCommon = (
   evaluationBytecode: Uint8Array
 ): AuthenticationProgramCommon => ({
   inputIndex: 0,
-  sourceOutput: {
-    lockingBytecode: evaluationBytecode,
-    satoshis: Uint8Array.from([0, 0, 0, 0, 0, 0, 0, 0]),
-  },
+  sourceOutputs: [
+    {
+      lockingBytecode: evaluationBytecode,
+      satoshis: Uint8Array.from([0, 0, 0, 0, 0, 0, 0, 0]),
+    },
+  ],
   spendingTransaction: {
     inputs: [
       {
@@ -0,0 +1,211 @@
+/* eslint-disable functional/no-expression-statement, @typescript-eslint/naming-convention */
+import test, { Macro } from 'ava';
+
+import {
+  AuthenticationTemplate,
+  authenticationTemplateToCompilerBCH,
+  bigIntToBinUint64LE,
+  CompilationData,
+  deriveDescriptorLockingBytecode,
+  Descriptor,
+  DescriptorTemplateError,
+  descriptorToAuthenticationTemplate,
+  generateTransaction,
+  hexToBin,
+  instantiateBIP32Crypto,
+  instantiateVirtualMachineBCH,
+  parseDescriptor,
+  range,
+  SigningCombinationsError,
+  verifyTransaction,
+} from '../lib';
+
+const crypto = instantiateBIP32Crypto();
+const vmPromise = instantiateVirtualMachineBCH();
+
+const xpub =
+  'xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8';
+const xprv =
+  'xprv9s21ZrQH143K3QTDL4LXw2F7HEK3wJUD2nW2nRk4stbPy6cq3jPPqjiChkVvvNKmPGJxWUtg6LnF5kejMRNNU3TGtRBeJgk33yuGBxrMPHi';
+
+const convert = async (descriptor: string) =>
+  descriptorToAuthenticationTemplate(
+    await crypto,
+    parseDescriptor(await crypto, descriptor) as Descriptor
+  );
+
+const equivalentLockingBytecode: Macro<[string]> = async (t, descriptor) => {
+  const converted = await convert(descriptor);
+  if (typeof converted === 'string') {
+    t.fail(converted);
+    return;
+  }
+  const compiler = await authenticationTemplateToCompilerBCH(
+    converted.template
+  );
+  const bip32Crypto = await crypto;
+  const parsed = parseDescriptor(bip32Crypto, descriptor) as Descriptor;
+  [0, 1, 2].forEach((addressIndex) => {
+    const result = compiler.generateBytecode('lock', {
+      ...converted.data,
+      hdKeys: { ...converted.data.hdKeys, addressIndex },
+    });
+    t.deepEqual(
+      result.success ? result.bytecode : result.errors,
+      deriveDescriptorLockingBytecode(
+        bip32Crypto,
+        parsed,
+        addressIndex
+      ) as Uint8Array
+    );
+  });
+};
+// eslint-disable-next-line functional/immutable-data
+equivalentLockingBytecode.title = (_, descriptor) =>
+  `[crypto] descriptorToAuthenticationTemplate: ${descriptor.slice(0, 20)}…`;
+
+test(equivalentLockingBytecode, `pk(${xpub}/0/*)`);
+test(equivalentLockingBytecode, `pkh([d34db33f/44'/0'/0']${xpub}/1/*)`);
+test(
+  equivalentLockingBytecode,
+  'sh(pkh(L4rK1yDtCWekvXuE6oXD9jCYfFNV2cWRpVuPLBcCU2z8TrisoyY1))'
+);
+test(
+  equivalentLockingBytecode,
+  'pkh(5KYZdUEo39z3FPrtuX2QbbwGnNP5zTd7yyr2SC1j299sBCnWjss)'
+);
+test(
+  equivalentLockingBytecode,
+  `sh(multi(2,${xpub}/0/*,${xprv}/1'/2/*,${xpub}/2))`
+);
+test(
+  equivalentLockingBytecode,
+  `sh(sortedmulti(1,${xpub}/0,${xpub}/1,${xpub}/2))`
+);
+
+test('[crypto] descriptorToAuthenticationTemplate: HdKey variables', async (t) => {
+  const converted = (await convert(
+    `sh(multi(2,[d34db33f/48'/0'/0']${xpub}/0/*,${xprv}/1'/2/*,${xpub}/2))`
+  )) as { data: CompilationData<never>; template: AuthenticationTemplate };
+  t.deepEqual(converted.template.entities.signer_1.variables, {
+    key_1: {
+      description: 'Key 1 of the descriptor.',
+      hdPublicKeyDerivationPath: "m/48'/0'/0'",
+      name: 'Key 1',
+      privateDerivationPath: "m/48'/0'/0'/0/i",
+      publicDerivationPath: 'M/0/i',
+      type: 'HdKey',
+    },
+  });
+  t.deepEqual(converted.template.entities.signer_2.variables, {
+    key_2: {
+      description: 'Key 2 of the descriptor.',
+      hdPublicKeyDerivationPath: "m/1'",
+      name: 'Key 2',
+      privateDerivationPath: "m/1'/2/i",
+      publicDerivationPath: 'M/2/i',
+      type: 'HdKey',
+    },
+  });
+  t.deepEqual(converted.template.entities.signer_3.variables, {
+    key_3: {
+      description: 'Key 3 of the descriptor.',
+      name: 'Key 3',
+      type: 'Key',
+    },
+  });
+  t.deepEqual(converted.template.entities.signer_3.scripts, [
+    'lock',
+    'unlock_1_3',
+    'unlock_2_3',
+  ]);
+  t.deepEqual(converted.template.name, '2-of-3 Multisig (P2SH)');
+  t.deepEqual(converted.data.hdKeys, {
+    hdPrivateKeys: { signer_2: xprv },
+    hdPublicKeys: { signer_1: xpub },
+  });
+});
+
+test('[crypto] descriptorToAuthenticationTemplate: spend from sh(multi())', async (t) => {
+  const converted = (await convert(
+    `sh(multi(2,${xprv}/0'/*,${xprv}/1'/*,${xpub}/2/*))`
+  )) as { data: CompilationData<never>; template: AuthenticationTemplate };
+  const compiler = await authenticationTemplateToCompilerBCH(
+    converted.template
+  );
+  const data = {
+    ...converted.data,
+    hdKeys: { ...converted.data.hdKeys, addressIndex: 5 },
+  };
+  const lockingBytecode = compiler.generateBytecode('lock', data);
+  if (!lockingBytecode.success) {
+    t.fail(JSON.stringify(lockingBytecode.errors));
+    return;
+  }
+  const satoshis = bigIntToBinUint64LE(BigInt(10000));
+  const result = generateTransaction({
+    inputs: [
+      {
+        outpointIndex: 0,
+        outpointTransactionHash: hexToBin(
+          '68127de83d2ab77d7f5fd8d2ac6181d94473c0cbb2d0776084bf28884f6ecd77'
+        ),
+        sequenceNumber: 0,
+        unlockingBytecode: { compiler, data, satoshis, script: 'unlock_1_2' },
+      },
+    ],
+    locktime: 0,
+    outputs: [
+      {
+        lockingBytecode: hexToBin('6a'),
+        satoshis: bigIntToBinUint64LE(BigInt(0)),
+      },
+    ],
+    version: 2,
+  });
+  if (!result.success) {
+    t.fail(JSON.stringify(result.errors));
+    return;
+  }
+  t.true(
+    verifyTransaction({
+      spentOutputs: [{ lockingBytecode: lockingBytecode.bytecode, satoshis }],
+      transaction: result.transaction,
+      vm: await vmPromise,
+    })
+  );
+});
+
+const error: Macro<[string, string]> = async (t, descriptor, expected) => {
+  t.deepEqual(await convert(descriptor), expected);
+};
+// eslint-disable-next-line functional/immutable-data
+error.title = (title) =>
+  `[crypto] descriptorToAuthenticationTemplate: ${title ?? '?'} (error)`;
+
+test(
+  'ranged sortedmulti()',
+  error,
+  `sh(sortedmulti(2,${xpub}/0/*,${xpub}/1/*))`,
+  DescriptorTemplateError.rangedSortedMulti
+);
+test(
+  'hardened range',
+  error,
+  `pkh(${xprv}/0/*')`,
+  DescriptorTemplateError.hardenedRange
+);
+test(
+  'unsupported script',
+  error,
+  `sh(wpkh(${xpub}/0/*))`,
+  DescriptorTemplateError.unsupportedScript
+);
+test(
+  'too many signing combinations',
+  error,
+  `sh(multi(5,${range(10)
+    .map((index) => `${xpub}/${index}/*`)
+    .join(',')}))`,
+  SigningCombinationsError.tooManySigningCombinations
+);
@@ -0,0 +1,414 @@
+import { compareBin } from '../format/format';
+import {
+  Descriptor,
+  DescriptorDerivationCrypto,
+  DescriptorKey,
+  DescriptorScript,
+  deriveDescriptorPublicKey,
+} from '../key/descriptor';
+import { deriveHdPath, HdNodeDerivationError } from '../key/hd-key';
+
+import { CompilationData } from './compiler-types';
+import { listSigningCombinations } from './signing-combinations';
+import {
+  AuthenticationTemplate,
+  AuthenticationTemplateEntity,
+  AuthenticationTemplateHdKey,
+  AuthenticationTemplateKey,
+  AuthenticationTemplateScript,
+  AuthenticationTemplateScriptLocking,
+  AuthenticationTemplateScriptUnlocking,
+} from './template-types';
+import { validateAuthenticationTemplate } from './template-validation';
+
+export enum DescriptorTemplateError {
+  unsupportedScript = 'Descriptor template error: only "pk()", "pkh()", "multi()", and "sortedmulti()" descriptors (optionally within "sh()") can be converted into authentication templates.',
+  rangedSortedMulti = 'Descriptor template error: "sortedmulti()" descriptors which include ranged keys cannot be converted into authentication templates – authentication templates cannot sort public keys by their value at each address index. Consider using "multi()" instead.',
+  hardenedRange = 'Descriptor template error: keys with hardened ranges ("/*\'") cannot be converted into authentication templates – the final derivation step of each HdKey must allow for public derivation.',
+}
+
+const enum Internal {
+  maximumOpNumber = 16,
+}
+
+interface DescriptorTemplateVariable {
+  data: CompilationData<never>;
+  variable: AuthenticationTemplateHdKey | AuthenticationTemplateKey;
+}
+
+/**
+ * Convert a descriptor key expression into an `HdKey` (for ranged HD keys) or
+ * `Key` variable, along with the compilation data required to use it.
+ */
+const keyToVariable = (
+  crypto: DescriptorDerivationCrypto,
+  key: DescriptorKey,
+  variableId: string,
+  entityId: string,
+  keyNumber: number
+): DescriptorTemplateVariable | string => {
+  const base = {
+    description: `Key ${keyNumber} of the descriptor.`,
+    name: `Key ${keyNumber}`,
+  };
+  const publicKeyIdentifier = `${variableId}.public_key`;
+
+  if (key.type === 'publicKey') {
+    return {
+      data: { bytecode: { [publicKeyIdentifier]: key.publicKey } },
+      variable: { ...base, type: 'Key' },
+    };
+  }
+
+  if (key.type === 'privateKey') {
+    return {
+      data: {
+        ...(key.compressed
+          ? {}
+          : {
+              bytecode: {
+                [publicKeyIdentifier]: crypto.secp256k1.derivePublicKeyUncompressed(
+                  key.privateKey
+                ),
+              },
+            }),
+        keys: { privateKeys: { [variableId]: key.privateKey } },
+      },
+      variable: { ...base, type: 'Key' },
+    };
+  }
+
+  const isPrivate = 'privateKey' in key.node;
+  const steps = key.derivationPath.split('/').slice(1);
+  const lastStep = steps[steps.length - 1] as string | undefined;
+
+  if (lastStep !== 'i' && lastStep !== "i'") {
+    const node = deriveHdPath(crypto, key.node, key.derivationPath);
+    if (typeof node === 'string') {
+      return node;
+    }
+    return {
+      data:
+        'privateKey' in node
+          ? { keys: { privateKeys: { [variableId]: node.privateKey } } }
+          : { bytecode: { [publicKeyIdentifier]: node.publicKey } },
+      variable: { ...base, type: 'Key' },
+    };
+  }
+
+  if (lastStep === "i'") {
+    return DescriptorTemplateError.hardenedRange;
+  }
+
+  if (!isPrivate) {
+    const hdPublicKeyDerivationPath = key.origin?.path ?? 'm';
+    return {
+      data: { hdKeys: { hdPublicKeys: { [entityId]: key.hdKey } } },
+      variable: {
+        ...base,
+        hdPublicKeyDerivationPath,
+        privateDerivationPath: `${hdPublicKeyDerivationPath}${key.derivationPath.slice(
+          1
+        )}`,
+        publicDerivationPath: key.derivationPath,
+        type: 'HdKey',
+      },
+    };
+  }
+
+  const publicSteps = steps.reduce(
+    (count, step) => (step.endsWith("'") ? 0 : count + 1),
+    0
+  );
+  const hardenedSteps = steps.slice(0, steps.length - publicSteps);
+  return {
+    data: { hdKeys: { hdPrivateKeys: { [entityId]: key.hdKey } } },
+    variable: {
+      ...base,
+      hdPublicKeyDerivationPath: ['m', ...hardenedSteps].join('/'),
+      privateDerivationPath: key.derivationPath,
+      publicDerivationPath: ['M', ...steps.slice(hardenedSteps.length)].join(
+        '/'
+      ),
+      type: 'HdKey',
+    },
+  };
+};
+
+/**
+ * Merge the compilation data required by each variable.
+ */
+const mergeData = (all: CompilationData<never>[]): CompilationData<never> =>
+  all.reduce<CompilationData<never>>(
+    (merged, data) => ({
+      bytecode: { ...merged.bytecode, ...data.bytecode },
+      hdKeys: {
+        hdPrivateKeys: {
+          ...merged.hdKeys?.hdPrivateKeys,
+          ...data.hdKeys?.hdPrivateKeys,
+        },
+        hdPublicKeys: {
+          ...merged.hdKeys?.hdPublicKeys,
+          ...data.hdKeys?.hdPublicKeys,
+        },
+      },
+      keys: {
+        privateKeys: {
+          ...merged.keys?.privateKeys,
+          ...data.keys?.privateKeys,
+        },
+      },
+    }),
+    {}
+  );
+
+const opNumber = (value: number) =>
+  value <= Internal.maximumOpNumber ? `OP_${value}` : `<${value}>`;
+
+/**
+ * Compile a (non-nested) key-based script expression into its locking script
+ * and unlocking scripts (one for each of `signingCombinations`).
+ */
+const scriptToTemplateScripts = (
+  script: DescriptorScript,
+  lockingKeyNumbers: number[],
+  signingCombinations: number[][]
+): {
+  lock: string;
+  unlocks: { keyNumbers: number[]; name: string; script: string }[];
+} => {
+  const publicKey = (keyNumber: number) => `<key_${keyNumber}.public_key>`;
+  if (script.type === 'pk' || script.type === 'pkh') {
+    return {
+      lock:
+        script.type === 'pk'
+          ? `${publicKey(1)}\nOP_CHECKSIG`
+          : `OP_DUP\nOP_HASH160 <$(${publicKey(
+              1
+            )} OP_HASH160\n)> OP_EQUALVERIFY\nOP_CHECKSIG`,
+      unlocks: [
+        {
+          keyNumbers: [1],
+          name: 'Unlock',
+          script:
+            script.type === 'pk'
+              ? '<key_1.schnorr_signature.all_outputs>'
+              : `<key_1.schnorr_signature.all_outputs>\n${publicKey(1)}`,
+        },
+      ],
+    };
+  }
+  const threshold = 'threshold' in script ? script.threshold : 0;
+  return {
+    lock: [
+      opNumber(threshold),
+      ...lockingKeyNumbers.map(publicKey),
+      opNumber(lockingKeyNumbers.length),
+      'OP_CHECKMULTISIG',
+    ].join('\n'),
+    unlocks: signingCombinations.map((keyNumbers) => {
+      const sorted = keyNumbers.slice().sort((a, b) => a - b);
+      return {
+        keyNumbers: sorted,
+        name: `Unlock with Keys ${sorted.join(', ')}`,
+        script: [
+          'OP_0',
+          ...keyNumbers.map(
+            (keyNumber) => `<key_${keyNumber}.signature.all_outputs>`
+          ),
+        ].join('\n'),
+      };
+    }),
+  };
+};
+
+/**
+ * Convert a parsed output descriptor (see `parseDescriptor`) into an
+ * equivalent `AuthenticationTemplate`, along with the `CompilationData`
+ * required to compile its scripts (see `authenticationTemplateToCompilerBCH`).
+ *
+ * Each key expression becomes a variable (`key_1`, `key_2`, etc.) owned by a
+ * separate entity (`signer_1`, `signer_2`, etc.). Ranged HD keys become
+ * `HdKey` variables (with a `publicDerivationPath` matching the descriptor's
+ * derivation steps, where the range is the address index, `i`), and all other
+ * keys become `Key` variables. An `observer` entity is also included, for
+ * which the locking script can be compiled using only the provided data.
+ *
+ * Only `pk()`, `pkh()`, `multi()`, and `sortedmulti()` descriptors (optionally
+ * within `sh()`) are supported. A separate unlocking script is created for
+ * each combination of signers which can satisfy a multisig threshold.
+ *
+ * Note, because authentication templates cannot sort public keys, ranged
+ * `sortedmulti()` descriptors are not supported; `sortedmulti()` descriptors
+ * with fixed keys are sorted during conversion.
+ *
+ * If conversion fails, an error message is returned as a string.
+ *
+ * @param crypto - implementations of sha256, sha512, ripemd160, and secp256k1
+ * derivation functions – these are available via `instantiateBIP32Crypto`
+ * @param descriptor - the parsed descriptor
+ */
+// eslint-disable-next-line complexity
+export const descriptorToAuthenticationTemplate = (
+  crypto: DescriptorDerivationCrypto,
+  descriptor: Descriptor
+):
+  | string
+  | { data: CompilationData<never>; template: AuthenticationTemplate } => {
+  const isP2sh = descriptor.script.type === 'sh';
+  const script =
+    'script' in descriptor.script
+      ? descriptor.script.script
+      : descriptor.script;
+  const keys =
+    'key' in script ? [script.key] : 'keys' in script ? script.keys : [];
+  if (
+    keys.length === 0 ||
+    (descriptor.script.type !== 'sh' && 'script' in descriptor.script) ||
+    script.type === 'wpkh'
+  ) {
+    return DescriptorTemplateError.unsupportedScript;
+  }
+
+  const variables = keys.map((key, index) =>
+    keyToVariable(
+      crypto,
+      key,
+      `key_${index + 1}`,
+      `signer_${index + 1}`,
+      index + 1
+    )
+  );
+  const variableError = variables.find(
+    (variable): variable is string => typeof variable === 'string'
+  );
+  if (variableError !== undefined) {
+    return variableError;
+  }
+
+  if (script.type === 'sortedmulti' && descriptor.isRange) {
+    return DescriptorTemplateError.rangedSortedMulti;
+  }
+  const publicKeys =
+    script.type === 'sortedmulti'
+      ? keys.map((key) => deriveDescriptorPublicKey(crypto, key, 0))
+      : [];
+  const derivationError = publicKeys.find(
+    (publicKey): publicKey is HdNodeDerivationError =>
+      typeof publicKey === 'string'
+  );
+  if (derivationError !== undefined) {
+    return derivationError;
+  }
+  const derived = publicKeys as Uint8Array[];
+  const keyNumbers = keys.map((_, index) => index + 1);
+  const lockingKeyNumbers =
+    script.type === 'sortedmulti'
+      ? keyNumbers
+          .slice()
+          .sort((a, b) => compareBin(derived[a - 1], derived[b - 1]))
+      : keyNumbers;
+
+  const threshold = 'threshold' in script ? script.threshold : 1;
+  const signingCombinations = listSigningCombinations(
+    lockingKeyNumbers,
+    threshold
+  );
+  if (typeof signingCombinations === 'string') {
+    return signingCombinations;
+  }
+
+  const { lock, unlocks } = scriptToTemplateScripts(
+    script,
+    lockingKeyNumbers,
+    signingCombinations
+  );
+  const unlockIds = unlocks.map((unlock) =>
+    unlocks.length === 1 ? 'unlock' : `unlock_${unlock.keyNumbers.join('_')}`
+  );
+  const validVariables = variables as DescriptorTemplateVariable[];
+
+  const entities = keyNumbers.reduce<{
+    [id: string]: AuthenticationTemplateEntity;
+  }>(
+    (all, keyNumber) => ({
+      ...all,
+      [`signer_${keyNumber}`]: {
+        description: `The individual who controls key ${keyNumber} of the descriptor.`,
+        name: `Signer ${keyNumber}`,
+        scripts: [
+          'lock',
+          ...unlockIds.filter((_, index) =>
+            (unlocks[index] as { keyNumbers: number[] }).keyNumbers.includes(
+              keyNumber
+            )
+          ),
+        ],
+        variables: {
+          [`key_${keyNumber}`]: (validVariables[
+            keyNumber - 1
+          ] as DescriptorTemplateVariable).variable,
+        },
+      },
+    }),
+    {
+      observer: {
+        description:
+          'An entity which can generate addresses but cannot spend funds from this wallet.',
+        name: 'Observer (Watch-Only)',
+        scripts: ['lock'],
+      },
+    }
+  );
+
+  const lockingScript: AuthenticationTemplateScriptLocking = {
+    lockingType: isP2sh ? 'p2sh' : 'standard',
+    name: 'Lock',
+    script: lock,
+  };
+  const scripts = unlocks.reduce<{
+    [id: string]:
+      | AuthenticationTemplateScript
+      | AuthenticationTemplateScriptLocking
+      | AuthenticationTemplateScriptUnlocking;
+  }>(
+    (all, unlock, index) => ({
+      ...all,
+      [unlockIds[index] as string]: {
+        name: unlock.name,
+        script: unlock.script,
+        unlocks: 'lock',
+      },
+    }),
+    { lock: lockingScript }
+  );
+
+  const name =
+    keys.length === 1
+      ? 'Single Signature'
+      : `${threshold}-of-${keys.length} Multisig`;
+  const type = isP2sh
+    ? 'P2SH'
+    : script.type === 'pk'
+    ? 'P2PK'
+    : script.type === 'pkh'
+    ? 'P2PKH'
+    : 'Bare';
+
+  const template = validateAuthenticationTemplate({
+    $schema:
+      'https://bitauth.com/schemas/authentication-template-v0.schema.json',
+    description: `An authentication template converted from an output descriptor (checksum: ${descriptor.checksum}).`,
+    entities,
+    name: `${name} (${type})`,
+    scripts,
+    supported: ['BCH_2019_05', 'BCH_2019_11', 'BCH_2020_05'],
+    version: 0,
+  });
+  return typeof template === 'string'
+    ? template
+    : {
+        data: mergeData(validVariables.map((variable) => variable.data)),
+        template,
+      };
+};
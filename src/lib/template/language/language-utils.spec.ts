@@ -12,6 +12,7 @@ import {
   extractBytecodeResolutions,
   extractEvaluationSamples,
   extractEvaluationSamplesRecursive,
+  extractInstructionRanges,
   extractUnexecutedRanges,
   hexToBin,
   instantiateVirtualMachineBCH,
@@ -416,6 +417,7 @@ test('extractEvaluationSamples: documentation example', async (t) => {
             correspondingOutput: hexToBin('000000000000000000'),
 
             executionStack: [],
+            inputIndex: 0,
             instructions: [],
             ip: 0,
             lastCodeSeparator: -1,
@@ -429,6 +431,10 @@ test('extractEvaluationSamples: documentation example', async (t) => {
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('5301007c7e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -441,6 +447,7 @@ test('extractEvaluationSamples: documentation example', async (t) => {
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 opcode: 83,
@@ -468,6 +475,10 @@ test('extractEvaluationSamples: documentation example', async (t) => {
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('5301007c7e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -480,6 +491,7 @@ test('extractEvaluationSamples: documentation example', async (t) => {
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 opcode: 83,
@@ -507,6 +519,10 @@ test('extractEvaluationSamples: documentation example', async (t) => {
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('5301007c7e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin('03')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -519,6 +535,7 @@ test('extractEvaluationSamples: documentation example', async (t) => {
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 opcode: 83,
@@ -546,6 +563,10 @@ test('extractEvaluationSamples: documentation example', async (t) => {
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('5301007c7e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin('03'), Uint8Array.of(0)],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -558,6 +579,7 @@ test('extractEvaluationSamples: documentation example', async (t) => {
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 opcode: 83,
@@ -585,6 +607,10 @@ test('extractEvaluationSamples: documentation example', async (t) => {
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('5301007c7e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [Uint8Array.of(0), hexToBin('03')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -597,6 +623,7 @@ test('extractEvaluationSamples: documentation example', async (t) => {
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 opcode: 83,
@@ -624,6 +651,10 @@ test('extractEvaluationSamples: documentation example', async (t) => {
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('5301007c7e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin('0003')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -636,6 +667,7 @@ test('extractEvaluationSamples: documentation example', async (t) => {
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 opcode: 83,
@@ -663,6 +695,10 @@ test('extractEvaluationSamples: documentation example', async (t) => {
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('5301007c7e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin('0003')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -693,6 +729,7 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [],
         ip: 0,
         lastCodeSeparator: -1,
@@ -706,6 +743,8 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -718,6 +757,7 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -759,6 +799,8 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -771,6 +813,7 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -812,6 +855,8 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin('')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -824,6 +869,7 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -865,6 +911,8 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin(''), hexToBin('ab')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -877,6 +925,7 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -918,6 +967,8 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin(''), hexToBin('ab'), hexToBin('cd')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -930,6 +981,7 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -971,6 +1023,8 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin(''), hexToBin('f8')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -983,6 +1037,7 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -1024,6 +1079,8 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin(''), hexToBin('f8'), hexToBin('')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -1036,6 +1093,7 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -1077,6 +1135,8 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin(''), hexToBin('f8'), hexToBin(''), hexToBin('')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -1089,6 +1149,7 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -1130,6 +1191,8 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [
           hexToBin(''),
           hexToBin('f8'),
@@ -1148,6 +1211,7 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -1189,6 +1253,8 @@ test('extractEvaluationSamples: documentation example', async (t) => {
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [
           hexToBin(''),
           hexToBin('f8'),
@@ -1283,10 +1349,12 @@ test('extractEvaluationSamples: error in initial validation', async (t) => {
   const nullHashLength = 32;
   const testProgram = {
     inputIndex: 0,
-    sourceOutput: {
-      lockingBytecode: Uint8Array.of(OpcodesCommon.OP_1),
-      satoshis: Uint8Array.from([0, 0, 0, 0, 0, 0, 0, 0]),
-    },
+    sourceOutputs: [
+      {
+        lockingBytecode: Uint8Array.of(OpcodesCommon.OP_1),
+        satoshis: Uint8Array.from([0, 0, 0, 0, 0, 0, 0, 0]),
+      },
+    ],
     spendingTransaction: {
       inputs: [
         {
@@ -1348,6 +1416,7 @@ test('extractEvaluationSamples: error in initial validation', async (t) => {
         correspondingOutput: hexToBin('000000000000000000'),
         error: 'Unlocking bytecode may contain only push operations.' as AuthenticationErrorBCH.requiresPushOnly,
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             opcode: 81,
@@ -1368,6 +1437,8 @@ test('extractEvaluationSamples: error in initial validation', async (t) => {
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -1501,6 +1572,7 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [],
             ip: 0,
             lastCodeSeparator: -1,
@@ -1514,6 +1586,10 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('03ab6a00')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -1526,6 +1602,7 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin('ab6a00'),
@@ -1544,6 +1621,10 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('03ab6a00')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -1556,6 +1637,7 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin('ab6a00'),
@@ -1574,6 +1656,10 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('03ab6a00')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin('ab6a00')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -1586,6 +1672,7 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin('ab6a00'),
@@ -1604,6 +1691,10 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('03ab6a00')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin('ab6a00')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -1625,6 +1716,7 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [],
         ip: 0,
         lastCodeSeparator: -1,
@@ -1638,6 +1730,8 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -1650,6 +1744,7 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin('ab'),
@@ -1675,6 +1770,8 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -1687,6 +1784,7 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin('ab'),
@@ -1712,6 +1810,8 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin('ab')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -1725,6 +1825,7 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
         correspondingOutput: hexToBin('000000000000000000'),
         error: AuthenticationErrorCommon.calledReturn,
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin('ab'),
@@ -1750,6 +1851,8 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin('ab')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -1763,6 +1866,7 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
         correspondingOutput: hexToBin('000000000000000000'),
         error: AuthenticationErrorCommon.calledReturn,
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin('ab'),
@@ -1788,6 +1892,8 @@ test("extractEvaluationSamples: node closes an open sample, then errors before t
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin('ab')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -1890,6 +1996,7 @@ test('extractEvaluationSamples: node which closes an open sample with an error',
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [],
         ip: 0,
         lastCodeSeparator: -1,
@@ -1903,6 +2010,8 @@ test('extractEvaluationSamples: node which closes an open sample with an error',
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -1915,6 +2024,7 @@ test('extractEvaluationSamples: node which closes an open sample with an error',
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -1939,6 +2049,8 @@ test('extractEvaluationSamples: node which closes an open sample with an error',
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -1951,6 +2063,7 @@ test('extractEvaluationSamples: node which closes an open sample with an error',
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -1975,6 +2088,8 @@ test('extractEvaluationSamples: node which closes an open sample with an error',
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin('')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -1988,6 +2103,7 @@ test('extractEvaluationSamples: node which closes an open sample with an error',
         correspondingOutput: hexToBin('000000000000000000'),
         error: AuthenticationErrorCommon.exceedsMaximumPush,
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -2012,6 +2128,8 @@ test('extractEvaluationSamples: node which closes an open sample with an error',
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin('')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2025,6 +2143,7 @@ test('extractEvaluationSamples: node which closes an open sample with an error',
         correspondingOutput: hexToBin('000000000000000000'),
         error: AuthenticationErrorCommon.exceedsMaximumPush,
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -2049,6 +2168,8 @@ test('extractEvaluationSamples: node which closes an open sample with an error',
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin('')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2168,6 +2289,7 @@ test('extractEvaluationSamples: error3 – error occurs, so final state is dropp
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [],
         ip: 0,
         lastCodeSeparator: -1,
@@ -2181,6 +2303,8 @@ test('extractEvaluationSamples: error3 – error occurs, so final state is dropp
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2193,6 +2317,7 @@ test('extractEvaluationSamples: error3 – error occurs, so final state is dropp
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -2222,6 +2347,8 @@ test('extractEvaluationSamples: error3 – error occurs, so final state is dropp
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2234,6 +2361,7 @@ test('extractEvaluationSamples: error3 – error occurs, so final state is dropp
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -2263,6 +2391,8 @@ test('extractEvaluationSamples: error3 – error occurs, so final state is dropp
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin('')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2276,6 +2406,7 @@ test('extractEvaluationSamples: error3 – error occurs, so final state is dropp
         correspondingOutput: hexToBin('000000000000000000'),
         error: 'Program called an OP_RETURN operation.' as AuthenticationErrorCommon,
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -2305,6 +2436,8 @@ test('extractEvaluationSamples: error3 – error occurs, so final state is dropp
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin('')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2318,6 +2451,7 @@ test('extractEvaluationSamples: error3 – error occurs, so final state is dropp
         correspondingOutput: hexToBin('000000000000000000'),
         error: 'Program called an OP_RETURN operation.' as AuthenticationErrorCommon,
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -2347,6 +2481,8 @@ test('extractEvaluationSamples: error3 – error occurs, so final state is dropp
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin('')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2529,6 +2665,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                                 '000000000000000000'
                               ),
                               executionStack: [],
+                              inputIndex: 0,
                               instructions: [],
                               ip: 0,
                               lastCodeSeparator: -1,
@@ -2542,6 +2679,11 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                               sequenceNumber: 0,
                               signatureOperationsCount: 0,
                               signedMessages: [],
+                              sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                                hexToBin('0151')
+                              ).sourceOutputs,
+                              spendingTransaction:
+                                testProgram.spendingTransaction,
                               stack: [],
                               transactionOutpoints: hexToBin(
                                 '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2558,6 +2700,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                                 '000000000000000000'
                               ),
                               executionStack: [],
+                              inputIndex: 0,
                               instructions: [
                                 {
                                   data: hexToBin('51'),
@@ -2576,6 +2719,11 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                               sequenceNumber: 0,
                               signatureOperationsCount: 0,
                               signedMessages: [],
+                              sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                                hexToBin('0151')
+                              ).sourceOutputs,
+                              spendingTransaction:
+                                testProgram.spendingTransaction,
                               stack: [],
                               transactionOutpoints: hexToBin(
                                 '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2592,6 +2740,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                                 '000000000000000000'
                               ),
                               executionStack: [],
+                              inputIndex: 0,
                               instructions: [
                                 {
                                   data: hexToBin('51'),
@@ -2610,6 +2759,11 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                               sequenceNumber: 0,
                               signatureOperationsCount: 0,
                               signedMessages: [],
+                              sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                                hexToBin('0151')
+                              ).sourceOutputs,
+                              spendingTransaction:
+                                testProgram.spendingTransaction,
                               stack: [hexToBin('51')],
                               transactionOutpoints: hexToBin(
                                 '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2626,6 +2780,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                                 '000000000000000000'
                               ),
                               executionStack: [],
+                              inputIndex: 0,
                               instructions: [
                                 {
                                   data: hexToBin('51'),
@@ -2644,6 +2799,11 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                               sequenceNumber: 0,
                               signatureOperationsCount: 0,
                               signedMessages: [],
+                              sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                                hexToBin('0151')
+                              ).sourceOutputs,
+                              spendingTransaction:
+                                testProgram.spendingTransaction,
                               stack: [hexToBin('51')],
                               transactionOutpoints: hexToBin(
                                 '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2681,6 +2841,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         alternateStack: [],
                         correspondingOutput: hexToBin('000000000000000000'),
                         executionStack: [],
+                        inputIndex: 0,
                         instructions: [],
                         ip: 0,
                         lastCodeSeparator: -1,
@@ -2694,6 +2855,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         sequenceNumber: 0,
                         signatureOperationsCount: 0,
                         signedMessages: [],
+                        sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                          hexToBin('515293')
+                        ).sourceOutputs,
+                        spendingTransaction: testProgram.spendingTransaction,
                         stack: [],
                         transactionOutpoints: hexToBin(
                           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2706,6 +2871,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         alternateStack: [],
                         correspondingOutput: hexToBin('000000000000000000'),
                         executionStack: [],
+                        inputIndex: 0,
                         instructions: [
                           {
                             opcode: 81,
@@ -2729,6 +2895,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         sequenceNumber: 0,
                         signatureOperationsCount: 0,
                         signedMessages: [],
+                        sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                          hexToBin('515293')
+                        ).sourceOutputs,
+                        spendingTransaction: testProgram.spendingTransaction,
                         stack: [],
                         transactionOutpoints: hexToBin(
                           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2741,6 +2911,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         alternateStack: [],
                         correspondingOutput: hexToBin('000000000000000000'),
                         executionStack: [],
+                        inputIndex: 0,
                         instructions: [
                           {
                             opcode: 81,
@@ -2764,6 +2935,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         sequenceNumber: 0,
                         signatureOperationsCount: 0,
                         signedMessages: [],
+                        sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                          hexToBin('515293')
+                        ).sourceOutputs,
+                        spendingTransaction: testProgram.spendingTransaction,
                         stack: [hexToBin('01')],
                         transactionOutpoints: hexToBin(
                           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2776,6 +2951,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         alternateStack: [],
                         correspondingOutput: hexToBin('000000000000000000'),
                         executionStack: [],
+                        inputIndex: 0,
                         instructions: [
                           {
                             opcode: 81,
@@ -2799,6 +2975,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         sequenceNumber: 0,
                         signatureOperationsCount: 0,
                         signedMessages: [],
+                        sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                          hexToBin('515293')
+                        ).sourceOutputs,
+                        spendingTransaction: testProgram.spendingTransaction,
                         stack: [hexToBin('01'), hexToBin('02')],
                         transactionOutpoints: hexToBin(
                           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2811,6 +2991,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         alternateStack: [],
                         correspondingOutput: hexToBin('000000000000000000'),
                         executionStack: [],
+                        inputIndex: 0,
                         instructions: [
                           {
                             opcode: 81,
@@ -2834,6 +3015,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         sequenceNumber: 0,
                         signatureOperationsCount: 0,
                         signedMessages: [],
+                        sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                          hexToBin('515293')
+                        ).sourceOutputs,
+                        spendingTransaction: testProgram.spendingTransaction,
                         stack: [hexToBin('03')],
                         transactionOutpoints: hexToBin(
                           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2846,6 +3031,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         alternateStack: [],
                         correspondingOutput: hexToBin('000000000000000000'),
                         executionStack: [],
+                        inputIndex: 0,
                         instructions: [
                           {
                             opcode: 81,
@@ -2869,6 +3055,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         sequenceNumber: 0,
                         signatureOperationsCount: 0,
                         signedMessages: [],
+                        sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                          hexToBin('515293')
+                        ).sourceOutputs,
+                        spendingTransaction: testProgram.spendingTransaction,
                         stack: [hexToBin('03')],
                         transactionOutpoints: hexToBin(
                           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2932,6 +3122,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         alternateStack: [],
                         correspondingOutput: hexToBin('000000000000000000'),
                         executionStack: [],
+                        inputIndex: 0,
                         instructions: [],
                         ip: 0,
                         lastCodeSeparator: -1,
@@ -2945,6 +3136,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         sequenceNumber: 0,
                         signatureOperationsCount: 0,
                         signedMessages: [],
+                        sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                          hexToBin('03616263')
+                        ).sourceOutputs,
+                        spendingTransaction: testProgram.spendingTransaction,
                         stack: [],
                         transactionOutpoints: hexToBin(
                           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2957,6 +3152,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         alternateStack: [],
                         correspondingOutput: hexToBin('000000000000000000'),
                         executionStack: [],
+                        inputIndex: 0,
                         instructions: [
                           {
                             data: hexToBin('616263'),
@@ -2975,6 +3171,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         sequenceNumber: 0,
                         signatureOperationsCount: 0,
                         signedMessages: [],
+                        sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                          hexToBin('03616263')
+                        ).sourceOutputs,
+                        spendingTransaction: testProgram.spendingTransaction,
                         stack: [],
                         transactionOutpoints: hexToBin(
                           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -2987,6 +3187,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         alternateStack: [],
                         correspondingOutput: hexToBin('000000000000000000'),
                         executionStack: [],
+                        inputIndex: 0,
                         instructions: [
                           {
                             data: hexToBin('616263'),
@@ -3005,6 +3206,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         sequenceNumber: 0,
                         signatureOperationsCount: 0,
                         signedMessages: [],
+                        sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                          hexToBin('03616263')
+                        ).sourceOutputs,
+                        spendingTransaction: testProgram.spendingTransaction,
                         stack: [hexToBin('616263')],
                         transactionOutpoints: hexToBin(
                           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3017,6 +3222,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         alternateStack: [],
                         correspondingOutput: hexToBin('000000000000000000'),
                         executionStack: [],
+                        inputIndex: 0,
                         instructions: [
                           {
                             data: hexToBin('616263'),
@@ -3035,6 +3241,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         sequenceNumber: 0,
                         signatureOperationsCount: 0,
                         signedMessages: [],
+                        sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                          hexToBin('03616263')
+                        ).sourceOutputs,
+                        spendingTransaction: testProgram.spendingTransaction,
                         stack: [hexToBin('616263')],
                         transactionOutpoints: hexToBin(
                           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3070,6 +3280,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   alternateStack: [],
                   correspondingOutput: hexToBin('000000000000000000'),
                   executionStack: [],
+                  inputIndex: 0,
                   instructions: [],
                   ip: 0,
                   lastCodeSeparator: -1,
@@ -3083,6 +3294,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   sequenceNumber: 0,
                   signatureOperationsCount: 0,
                   signedMessages: [],
+                  sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                    hexToBin('0000036162637e7e')
+                  ).sourceOutputs,
+                  spendingTransaction: testProgram.spendingTransaction,
                   stack: [],
                   transactionOutpoints: hexToBin(
                     '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3095,6 +3310,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   alternateStack: [],
                   correspondingOutput: hexToBin('000000000000000000'),
                   executionStack: [],
+                  inputIndex: 0,
                   instructions: [
                     {
                       data: hexToBin(''),
@@ -3127,6 +3343,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   sequenceNumber: 0,
                   signatureOperationsCount: 0,
                   signedMessages: [],
+                  sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                    hexToBin('0000036162637e7e')
+                  ).sourceOutputs,
+                  spendingTransaction: testProgram.spendingTransaction,
                   stack: [],
                   transactionOutpoints: hexToBin(
                     '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3139,6 +3359,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   alternateStack: [],
                   correspondingOutput: hexToBin('000000000000000000'),
                   executionStack: [],
+                  inputIndex: 0,
                   instructions: [
                     {
                       data: hexToBin(''),
@@ -3171,6 +3392,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   sequenceNumber: 0,
                   signatureOperationsCount: 0,
                   signedMessages: [],
+                  sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                    hexToBin('0000036162637e7e')
+                  ).sourceOutputs,
+                  spendingTransaction: testProgram.spendingTransaction,
                   stack: [hexToBin('')],
                   transactionOutpoints: hexToBin(
                     '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3183,6 +3408,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   alternateStack: [],
                   correspondingOutput: hexToBin('000000000000000000'),
                   executionStack: [],
+                  inputIndex: 0,
                   instructions: [
                     {
                       data: hexToBin(''),
@@ -3215,6 +3441,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   sequenceNumber: 0,
                   signatureOperationsCount: 0,
                   signedMessages: [],
+                  sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                    hexToBin('0000036162637e7e')
+                  ).sourceOutputs,
+                  spendingTransaction: testProgram.spendingTransaction,
                   stack: [hexToBin(''), hexToBin('')],
                   transactionOutpoints: hexToBin(
                     '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3227,6 +3457,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   alternateStack: [],
                   correspondingOutput: hexToBin('000000000000000000'),
                   executionStack: [],
+                  inputIndex: 0,
                   instructions: [
                     {
                       data: hexToBin(''),
@@ -3259,6 +3490,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   sequenceNumber: 0,
                   signatureOperationsCount: 0,
                   signedMessages: [],
+                  sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                    hexToBin('0000036162637e7e')
+                  ).sourceOutputs,
+                  spendingTransaction: testProgram.spendingTransaction,
                   stack: [hexToBin(''), hexToBin(''), hexToBin('616263')],
                   transactionOutpoints: hexToBin(
                     '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3271,6 +3506,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   alternateStack: [],
                   correspondingOutput: hexToBin('000000000000000000'),
                   executionStack: [],
+                  inputIndex: 0,
                   instructions: [
                     {
                       data: hexToBin(''),
@@ -3303,6 +3539,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   sequenceNumber: 0,
                   signatureOperationsCount: 0,
                   signedMessages: [],
+                  sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                    hexToBin('0000036162637e7e')
+                  ).sourceOutputs,
+                  spendingTransaction: testProgram.spendingTransaction,
                   stack: [hexToBin(''), hexToBin('616263')],
                   transactionOutpoints: hexToBin(
                     '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3315,6 +3555,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   alternateStack: [],
                   correspondingOutput: hexToBin('000000000000000000'),
                   executionStack: [],
+                  inputIndex: 0,
                   instructions: [
                     {
                       data: hexToBin(''),
@@ -3347,6 +3588,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   sequenceNumber: 0,
                   signatureOperationsCount: 0,
                   signedMessages: [],
+                  sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                    hexToBin('0000036162637e7e')
+                  ).sourceOutputs,
+                  spendingTransaction: testProgram.spendingTransaction,
                   stack: [hexToBin('616263')],
                   transactionOutpoints: hexToBin(
                     '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3359,6 +3604,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   alternateStack: [],
                   correspondingOutput: hexToBin('000000000000000000'),
                   executionStack: [],
+                  inputIndex: 0,
                   instructions: [
                     {
                       data: hexToBin(''),
@@ -3391,6 +3637,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   sequenceNumber: 0,
                   signatureOperationsCount: 0,
                   signedMessages: [],
+                  sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                    hexToBin('0000036162637e7e')
+                  ).sourceOutputs,
+                  spendingTransaction: testProgram.spendingTransaction,
                   stack: [hexToBin('616263')],
                   transactionOutpoints: hexToBin(
                     '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3529,6 +3779,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         alternateStack: [],
                         correspondingOutput: hexToBin('000000000000000000'),
                         executionStack: [],
+                        inputIndex: 0,
                         instructions: [],
                         ip: 0,
                         lastCodeSeparator: -1,
@@ -3542,6 +3793,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         sequenceNumber: 0,
                         signatureOperationsCount: 0,
                         signedMessages: [],
+                        sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                          hexToBin('017e')
+                        ).sourceOutputs,
+                        spendingTransaction: testProgram.spendingTransaction,
                         stack: [],
                         transactionOutpoints: hexToBin(
                           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3554,6 +3809,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         alternateStack: [],
                         correspondingOutput: hexToBin('000000000000000000'),
                         executionStack: [],
+                        inputIndex: 0,
                         instructions: [
                           {
                             data: hexToBin('7e'),
@@ -3572,6 +3828,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         sequenceNumber: 0,
                         signatureOperationsCount: 0,
                         signedMessages: [],
+                        sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                          hexToBin('017e')
+                        ).sourceOutputs,
+                        spendingTransaction: testProgram.spendingTransaction,
                         stack: [],
                         transactionOutpoints: hexToBin(
                           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3584,6 +3844,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         alternateStack: [],
                         correspondingOutput: hexToBin('000000000000000000'),
                         executionStack: [],
+                        inputIndex: 0,
                         instructions: [
                           {
                             data: hexToBin('7e'),
@@ -3602,6 +3863,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         sequenceNumber: 0,
                         signatureOperationsCount: 0,
                         signedMessages: [],
+                        sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                          hexToBin('017e')
+                        ).sourceOutputs,
+                        spendingTransaction: testProgram.spendingTransaction,
                         stack: [hexToBin('7e')],
                         transactionOutpoints: hexToBin(
                           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3614,6 +3879,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         alternateStack: [],
                         correspondingOutput: hexToBin('000000000000000000'),
                         executionStack: [],
+                        inputIndex: 0,
                         instructions: [
                           {
                             data: hexToBin('7e'),
@@ -3632,6 +3898,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                         sequenceNumber: 0,
                         signatureOperationsCount: 0,
                         signedMessages: [],
+                        sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                          hexToBin('017e')
+                        ).sourceOutputs,
+                        spendingTransaction: testProgram.spendingTransaction,
                         stack: [hexToBin('7e')],
                         transactionOutpoints: hexToBin(
                           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3649,6 +3919,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   alternateStack: [],
                   correspondingOutput: hexToBin('000000000000000000'),
                   executionStack: [],
+                  inputIndex: 0,
                   instructions: [],
                   ip: 0,
                   lastCodeSeparator: -1,
@@ -3662,6 +3933,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   sequenceNumber: 0,
                   signatureOperationsCount: 0,
                   signedMessages: [],
+                  sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                    hexToBin('00007e')
+                  ).sourceOutputs,
+                  spendingTransaction: testProgram.spendingTransaction,
                   stack: [],
                   transactionOutpoints: hexToBin(
                     '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3674,6 +3949,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   alternateStack: [],
                   correspondingOutput: hexToBin('000000000000000000'),
                   executionStack: [],
+                  inputIndex: 0,
                   instructions: [
                     {
                       data: hexToBin(''),
@@ -3699,6 +3975,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   sequenceNumber: 0,
                   signatureOperationsCount: 0,
                   signedMessages: [],
+                  sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                    hexToBin('00007e')
+                  ).sourceOutputs,
+                  spendingTransaction: testProgram.spendingTransaction,
                   stack: [],
                   transactionOutpoints: hexToBin(
                     '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3711,6 +3991,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   alternateStack: [],
                   correspondingOutput: hexToBin('000000000000000000'),
                   executionStack: [],
+                  inputIndex: 0,
                   instructions: [
                     {
                       data: hexToBin(''),
@@ -3736,6 +4017,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   sequenceNumber: 0,
                   signatureOperationsCount: 0,
                   signedMessages: [],
+                  sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                    hexToBin('00007e')
+                  ).sourceOutputs,
+                  spendingTransaction: testProgram.spendingTransaction,
                   stack: [hexToBin('')],
                   transactionOutpoints: hexToBin(
                     '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3748,6 +4033,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   alternateStack: [],
                   correspondingOutput: hexToBin('000000000000000000'),
                   executionStack: [],
+                  inputIndex: 0,
                   instructions: [
                     {
                       data: hexToBin(''),
@@ -3773,6 +4059,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   sequenceNumber: 0,
                   signatureOperationsCount: 0,
                   signedMessages: [],
+                  sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                    hexToBin('00007e')
+                  ).sourceOutputs,
+                  spendingTransaction: testProgram.spendingTransaction,
                   stack: [hexToBin(''), hexToBin('')],
                   transactionOutpoints: hexToBin(
                     '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3785,6 +4075,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   alternateStack: [],
                   correspondingOutput: hexToBin('000000000000000000'),
                   executionStack: [],
+                  inputIndex: 0,
                   instructions: [
                     {
                       data: hexToBin(''),
@@ -3810,6 +4101,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   sequenceNumber: 0,
                   signatureOperationsCount: 0,
                   signedMessages: [],
+                  sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                    hexToBin('00007e')
+                  ).sourceOutputs,
+                  spendingTransaction: testProgram.spendingTransaction,
                   stack: [hexToBin('')],
                   transactionOutpoints: hexToBin(
                     '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3822,6 +4117,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   alternateStack: [],
                   correspondingOutput: hexToBin('000000000000000000'),
                   executionStack: [],
+                  inputIndex: 0,
                   instructions: [
                     {
                       data: hexToBin(''),
@@ -3847,6 +4143,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                   sequenceNumber: 0,
                   signatureOperationsCount: 0,
                   signedMessages: [],
+                  sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                    hexToBin('00007e')
+                  ).sourceOutputs,
+                  spendingTransaction: testProgram.spendingTransaction,
                   stack: [hexToBin('')],
                   transactionOutpoints: hexToBin(
                     '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3877,6 +4177,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [],
         ip: 0,
         lastCodeSeparator: -1,
@@ -3890,6 +4191,8 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3902,6 +4205,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -3924,6 +4228,8 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3936,6 +4242,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -3958,6 +4265,8 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin('')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -3970,6 +4279,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -3992,6 +4302,8 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin(''), hexToBin('616263')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4004,6 +4316,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
         alternateStack: [],
         correspondingOutput: hexToBin('000000000000000000'),
         executionStack: [],
+        inputIndex: 0,
         instructions: [
           {
             data: hexToBin(''),
@@ -4026,6 +4339,8 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
         sequenceNumber: 0,
         signatureOperationsCount: 0,
         signedMessages: [],
+        sourceOutputs: testProgram.sourceOutputs,
+        spendingTransaction: testProgram.spendingTransaction,
         stack: [hexToBin(''), hexToBin('616263')],
         transactionOutpoints: hexToBin(
           '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4060,6 +4375,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin(''),
@@ -4082,6 +4398,8 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: testProgram.sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4113,6 +4431,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin(''),
@@ -4135,6 +4454,8 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: testProgram.sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin('')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4162,6 +4483,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin(''),
@@ -4194,6 +4516,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('0000036162637e7e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4224,6 +4550,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                 alternateStack: [],
                 correspondingOutput: hexToBin('000000000000000000'),
                 executionStack: [],
+                inputIndex: 0,
                 instructions: [
                   {
                     data: hexToBin(''),
@@ -4256,6 +4583,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
                 sequenceNumber: 0,
                 signatureOperationsCount: 0,
                 signedMessages: [],
+                sourceOutputs: createAuthenticationProgramEvaluationCommon(
+                  hexToBin('0000036162637e7e')
+                ).sourceOutputs,
+                spendingTransaction: testProgram.spendingTransaction,
                 stack: [hexToBin('')],
                 transactionOutpoints: hexToBin(
                   '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4276,6 +4607,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin(''),
@@ -4308,6 +4640,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('0000036162637e7e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin(''), hexToBin('')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4335,6 +4671,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 opcode: 81,
@@ -4358,6 +4695,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('515293')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4385,6 +4726,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin('51'),
@@ -4403,6 +4745,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('0151')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4434,6 +4780,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin('51'),
@@ -4452,6 +4799,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('0151')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin('51')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4482,6 +4833,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 opcode: 81,
@@ -4505,6 +4857,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('515293')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin('01')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4535,6 +4891,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 opcode: 81,
@@ -4558,6 +4915,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('515293')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin('01'), hexToBin('02')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4588,6 +4949,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 opcode: 81,
@@ -4611,6 +4973,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('515293')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin('03')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4638,6 +5004,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin('616263'),
@@ -4656,6 +5023,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('03616263')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4687,6 +5058,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin('616263'),
@@ -4705,6 +5077,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('03616263')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin('616263')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4736,6 +5112,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin(''),
@@ -4768,6 +5145,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('0000036162637e7e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin(''), hexToBin(''), hexToBin('616263')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4798,6 +5179,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin(''),
@@ -4830,6 +5212,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('0000036162637e7e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin(''), hexToBin('616263')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4860,6 +5246,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin(''),
@@ -4892,6 +5279,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('0000036162637e7e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin('616263')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4919,6 +5310,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin(''),
@@ -4944,6 +5336,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('00007e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -4975,6 +5371,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin(''),
@@ -5000,6 +5397,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('00007e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin('')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -5031,6 +5432,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin(''),
@@ -5056,6 +5458,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('00007e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin(''), hexToBin('')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -5083,6 +5489,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin('7e'),
@@ -5101,6 +5508,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('017e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -5132,6 +5543,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin('7e'),
@@ -5150,6 +5562,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('017e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin('7e')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -5180,6 +5596,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin(''),
@@ -5205,6 +5622,10 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: createAuthenticationProgramEvaluationCommon(
+              hexToBin('00007e')
+            ).sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin('')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -5236,6 +5657,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             alternateStack: [],
             correspondingOutput: hexToBin('000000000000000000'),
             executionStack: [],
+            inputIndex: 0,
             instructions: [
               {
                 data: hexToBin(''),
@@ -5258,6 +5680,8 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
             sequenceNumber: 0,
             signatureOperationsCount: 0,
             signedMessages: [],
+            sourceOutputs: testProgram.sourceOutputs,
+            spendingTransaction: testProgram.spendingTransaction,
             stack: [hexToBin(''), hexToBin('616263')],
             transactionOutpoints: hexToBin(
               '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -5273,6 +5697,7 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
           alternateStack: [],
           correspondingOutput: hexToBin('000000000000000000'),
           executionStack: [],
+          inputIndex: 0,
           instructions: [
             {
               data: hexToBin(''),
@@ -5295,6 +5720,8 @@ test('extractEvaluationSamplesRecursive: complex, deeply-nested script with irre
           sequenceNumber: 0,
           signatureOperationsCount: 0,
           signedMessages: [],
+          sourceOutputs: testProgram.sourceOutputs,
+          spendingTransaction: testProgram.spendingTransaction,
           stack: [hexToBin(''), hexToBin('616263')],
           transactionOutpoints: hexToBin(
             '000000000000000000000000000000000000000000000000000000000000000000000000'
@@ -5532,3 +5959,47 @@ test(extractUnexecutedRangesMacro, 'unexecuted11', [
 ]);
 
 test(extractUnexecutedRangesMacro, 'unexecutedEmpty', []);
+
+test('extractInstructionRanges: documentation example', async (t) => {
+  const compiler = await compilerPromise;
+  const vm = await vmPromise;
+  const result = compiler.generateBytecode('docs', {}, true);
+  if (!result.success) {
+    t.fail(stringifyErrors(result.errors));
+    return;
+  }
+  const line = (startColumn: number, endColumn: number) => ({
+    endColumn,
+    endLineNumber: 1,
+    startColumn,
+    startLineNumber: 1,
+  });
+  const sourceMap = extractInstructionRanges(result.reduce);
+  t.deepEqual(sourceMap, [
+    line(1, 5),
+    line(6, 17),
+    line(11, 26),
+    line(18, 26),
+    line(18, 26),
+    line(27, 56),
+    line(27, 65),
+  ]);
+  const session = vm.debugSession(
+    createAuthenticationProgramEvaluationCommon(result.bytecode),
+    [{ phase: 1, range: line(13, 13) }],
+    { 1: sourceMap }
+  );
+  const pauses = [session.continue(), session.continue(), session.continue()];
+  t.deepEqual(
+    pauses.map(({ breakpoint, reason, state }) => ({
+      breakpoint,
+      ip: state.ip,
+      reason,
+    })),
+    [
+      { breakpoint: 0, ip: 1, reason: 'breakpoint' },
+      { breakpoint: 0, ip: 2, reason: 'breakpoint' },
+      { breakpoint: undefined, ip: 7, reason: 'complete' },
+    ]
+  );
+});
@@ -1,4 +1,4 @@
-import { flattenBinArray } from '../../format/hex';
+import { flattenBinArray, range } from '../../format/hex';
 import {
   AuthenticationInstruction,
   ParsedAuthenticationInstruction,
@@ -816,3 +816,48 @@ export const extractUnexecutedRanges = <
         );
   return containedRangesExcluded;
 };
+
+/**
+ * Create a source map for the bytecode produced by a script reduction: an array
+ * mapping each instruction index to the `Range` of the script source from
+ * which the instruction was compiled. This source map can be used to set
+ * `range` breakpoints in a debugging session (see the `debugSession` method of
+ * `AuthenticationVirtualMachine`).
+ *
+ * Instructions are mapped using the same rules as `extractEvaluationSamples`,
+ * so an instruction which is encoded across multiple nodes is mapped to the
+ * merged range of those nodes.
+ *
+ * @param reduce - the `reduce` property of a successful compilation (e.g. from
+ * `compiler.generateBytecode(script, data, true)`)
+ */
+export const extractInstructionRanges = <ProgramState>(
+  reduce: ScriptReductionTraceScriptNode<ProgramState>
+) => {
+  const instructionCount = parseBytecode(reduce.bytecode).length;
+  /**
+   * Rather than program states, the "trace" is a list of the instruction
+   * indexes which produced each state (the initial and final states are
+   * included to match the format of `vm.debug`).
+   */
+  const { samples } = extractEvaluationSamples<number>({
+    evaluationRange: reduce.range,
+    nodes: reduce.script as ScriptReductionTraceScriptNode<number>['script'],
+    trace: range(instructionCount + 2, -1),
+  });
+  return samples.reduce<(Range | undefined)[]>(
+    (ranges, sample) =>
+      [...sample.internalStates, sample].reduce(
+        (updated, { state }) =>
+          state === -1
+            ? updated
+            : [
+                ...updated.slice(0, state),
+                sample.range,
+                ...updated.slice(state + 1),
+              ],
+        ranges
+      ),
+    new Array<Range | undefined>(instructionCount).fill(undefined)
+  );
+};
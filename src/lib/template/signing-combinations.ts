@@ -0,0 +1,50 @@
+import { range } from '../format/format';
+
+export enum SigningCombinationsError {
+  tooManySigningCombinations = 'Signing combinations error: this wallet has too many possible combinations of signers (at most 100 are supported).',
+}
+
+const enum Internal {
+  maximumSigningCombinations = 100,
+}
+
+/**
+ * Get all combinations of `size` items from `items`, preserving order.
+ */
+const combinations = <T>(items: readonly T[], size: number): T[][] =>
+  size === 0
+    ? [[]]
+    : items.reduce<T[][]>(
+        (all, item, index) => [
+          ...all,
+          ...combinations(items.slice(index + 1), size - 1).map((rest) => [
+            item,
+            ...rest,
+          ]),
+        ],
+        []
+      );
+
+const countCombinations = (total: number, size: number) =>
+  range(size).reduce((count, i) => (count * (total - i)) / (i + 1), 1);
+
+/**
+ * List every combination of `threshold` signers from `signers`, preserving
+ * order. Because authentication templates cannot choose signers at signing
+ * time, templates for threshold wallets include an unlocking script for each
+ * of these combinations.
+ *
+ * To keep templates to a reasonable size, an error is returned if there are
+ * more than `100` combinations.
+ *
+ * @param signers - the list of signers (e.g. signer indexes or key numbers)
+ * @param threshold - the number of signers in each combination
+ */
+export const listSigningCombinations = <T>(
+  signers: readonly T[],
+  threshold: number
+) =>
+  countCombinations(signers.length, threshold) >
+  Internal.maximumSigningCombinations
+    ? SigningCombinationsError.tooManySigningCombinations
+    : combinations(signers, threshold);
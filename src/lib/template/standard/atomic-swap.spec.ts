@@ -0,0 +1,160 @@
+/* eslint-disable functional/no-expression-statement */
+import test from 'ava';
+
+import {
+  authenticationTemplateAtomicSwap,
+  authenticationTemplateToCompilerBCH,
+  bigIntToBinUint64LE,
+  bigIntToScriptNumber,
+  completeAdaptorSignatureSchnorr,
+  createAdaptorSignatureSchnorr,
+  extractAdaptorSecretSchnorr,
+  generateTransaction,
+  hexToBin,
+  instantiateSecp256k1,
+  instantiateSha256,
+  instantiateVirtualMachineBCH,
+  InstructionSetBCH,
+  utf8ToBin,
+  validateAuthenticationTemplate,
+  verifyAdaptorSignatureSchnorr,
+  verifyTransaction,
+} from '../../lib';
+
+test('authenticationTemplateAtomicSwap is valid', (t) => {
+  const template = validateAuthenticationTemplate(
+    authenticationTemplateAtomicSwap
+  );
+  t.true(typeof template !== 'string');
+});
+
+test('authenticationTemplateAtomicSwap: claim reveals the adaptor secret', async (t) => {
+  const [secp256k1, sha256, vm] = await Promise.all([
+    instantiateSecp256k1(),
+    instantiateSha256(),
+    instantiateVirtualMachineBCH(InstructionSetBCH.BCH_2020_05),
+  ]);
+  const crypto = { secp256k1, sha256 };
+  const senderKey = hexToBin(
+    'f85d4bd8a03ca106c9deb47b791803dac7f0333809e3f1dd04d182e0aba6e553'
+  );
+  const recipientKey = hexToBin(
+    '1e99423a4ed27608a15a2616a2b0e9e52ced330ac530edcc32c8ffc6a526aedd'
+  );
+  const adaptorSecret = sha256.hash(utf8ToBin('adaptor secret'));
+  const adaptorPoint = secp256k1.derivePublicKeyCompressed(adaptorSecret);
+  const swapMessage = utf8ToBin('BCH-BTC swap');
+
+  /**
+   * The sender creates the adaptor signature and gives it to the recipient.
+   */
+  const adaptorSignature = createAdaptorSignatureSchnorr(crypto, {
+    adaptorPoint,
+    messageHash: sha256.hash(swapMessage),
+    privateKey: senderKey,
+  }) as Uint8Array;
+  t.true(
+    verifyAdaptorSignatureSchnorr(crypto, {
+      adaptorPoint,
+      adaptorSignature,
+      messageHash: sha256.hash(swapMessage),
+      publicKey: secp256k1.derivePublicKeyCompressed(senderKey),
+    })
+  );
+
+  const compiler = await authenticationTemplateToCompilerBCH(
+    authenticationTemplateAtomicSwap
+  );
+  const bytecode = {
+    // eslint-disable-next-line @typescript-eslint/naming-convention, @typescript-eslint/no-magic-numbers
+    refund_locktime: bigIntToScriptNumber(BigInt(700000)),
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    swap_message: swapMessage,
+  };
+  const keys = {
+    privateKeys: {
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      recipient_key: recipientKey,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      sender_key: senderKey,
+    },
+  };
+  const lockingBytecode = compiler.generateBytecode('lock', {
+    bytecode,
+    keys,
+  });
+  if (!lockingBytecode.success) {
+    t.fail(JSON.stringify(lockingBytecode.errors));
+    return;
+  }
+
+  /**
+   * The recipient completes the adaptor signature to claim the funds.
+   */
+  const completedSignature = completeAdaptorSignatureSchnorr(crypto, {
+    adaptorSecret,
+    adaptorSignature,
+  }) as Uint8Array;
+  const satoshis = bigIntToBinUint64LE(BigInt(10000));
+  const result = generateTransaction({
+    inputs: [
+      {
+        outpointIndex: 0,
+        outpointTransactionHash: hexToBin(
+          '68127de83d2ab77d7f5fd8d2ac6181d94473c0cbb2d0776084bf28884f6ecd77'
+        ),
+        sequenceNumber: 0,
+        unlockingBytecode: {
+          compiler,
+          data: {
+            bytecode: {
+              ...bytecode,
+              // eslint-disable-next-line @typescript-eslint/naming-convention
+              completed_signature: completedSignature,
+            },
+            keys,
+          },
+          satoshis,
+          script: 'claim',
+        },
+      },
+    ],
+    locktime: 0,
+    outputs: [
+      {
+        lockingBytecode: hexToBin('6a'),
+        satoshis: bigIntToBinUint64LE(BigInt(0)),
+      },
+    ],
+    version: 2,
+  });
+  if (!result.success) {
+    t.fail(JSON.stringify(result.errors));
+    return;
+  }
+  t.true(
+    verifyTransaction({
+      spentOutputs: [{ lockingBytecode: lockingBytecode.bytecode, satoshis }],
+      transaction: result.transaction,
+      vm,
+    })
+  );
+
+  /**
+   * The sender extracts the adaptor secret from the claiming transaction.
+   */
+  const published = result.transaction.inputs[0].unlockingBytecode.slice(
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    67,
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    67 + 64
+  );
+  t.deepEqual(published, completedSignature);
+  t.deepEqual(
+    extractAdaptorSecretSchnorr(crypto, {
+      adaptorSignature,
+      signature: published,
+    }),
+    adaptorSecret
+  );
+});
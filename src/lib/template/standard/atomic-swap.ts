@@ -0,0 +1,95 @@
+import { AuthenticationTemplate } from '../template-types';
+
+/**
+ * An authentication template for the BCH side of an adaptor signature atomic
+ * swap (e.g. BCH↔BTC).
+ *
+ * Before funding the swap, the sender creates a BCH Schnorr adaptor signature
+ * for `swap_message` (see `createAdaptorSignatureSchnorr`) using an adaptor
+ * point provided by the recipient, and gives it to the recipient. To claim the
+ * funds, the recipient must complete the adaptor signature (see
+ * `completeAdaptorSignatureSchnorr`) and publish it in the claiming
+ * transaction, where it is validated by `OP_CHECKDATASIG`. The sender then
+ * extracts the adaptor secret from the published signature (see
+ * `extractAdaptorSecretSchnorr`) and uses it to complete the other side of the
+ * swap. If the recipient never claims the funds, the sender can reclaim them
+ * after `refund_locktime`.
+ *
+ * Note, `OP_CHECKDATASIG` verifies signatures against the SHA-256 hash of the
+ * message, so adaptor signatures must be created for `sha256(swap_message)`.
+ */
+export const authenticationTemplateAtomicSwap: AuthenticationTemplate = {
+  $schema: 'https://bitauth.com/schemas/authentication-template-v0.schema.json',
+  description:
+    'The BCH side of an adaptor signature atomic swap.\n\nThe sender creates a BCH Schnorr adaptor signature for the swap message (encrypted to an adaptor point provided by the recipient) and gives it to the recipient. To claim the funds, the recipient must complete and publish the signature, revealing the adaptor secret to the sender. If the recipient never claims the funds, the sender can reclaim them after the refund locktime.',
+  entities: {
+    recipient: {
+      description:
+        'The individual who can claim the funds by publishing the completed adaptor signature.',
+      name: 'Recipient',
+      scripts: ['lock', 'claim'],
+      variables: {
+        completed_signature: {
+          description:
+            "The sender's adaptor signature of the swap message, completed with the adaptor secret.",
+          name: 'Completed Signature',
+          type: 'AddressData',
+        },
+        recipient_key: {
+          description: 'The private key which controls the claim path.',
+          name: 'Recipient Key',
+          type: 'Key',
+        },
+      },
+    },
+    sender: {
+      description:
+        'The individual who funds the swap and can reclaim the funds after the refund locktime.',
+      name: 'Sender',
+      scripts: ['lock', 'refund'],
+      variables: {
+        refund_locktime: {
+          description:
+            'The block height after which the sender may reclaim the funds (encoded as a Script Number).',
+          name: 'Refund Locktime',
+          type: 'WalletData',
+        },
+        sender_key: {
+          description:
+            'The private key with which the adaptor signature is created, also controlling the refund path.',
+          name: 'Sender Key',
+          type: 'Key',
+        },
+        swap_message: {
+          description:
+            'The message for which the sender creates the adaptor signature.',
+          name: 'Swap Message',
+          type: 'WalletData',
+        },
+      },
+    },
+  },
+  name: 'Adaptor Signature Atomic Swap',
+  scripts: {
+    claim: {
+      name: 'Claim',
+      script:
+        '<recipient_key.schnorr_signature.all_outputs>\n<completed_signature>\nOP_1',
+      unlocks: 'lock',
+    },
+    lock: {
+      lockingType: 'p2sh',
+      name: 'Atomic Swap Lock',
+      script:
+        'OP_IF\n  <swap_message> <sender_key.public_key> OP_CHECKDATASIGVERIFY\n  <recipient_key.public_key>\nOP_ELSE\n  <refund_locktime> OP_CHECKLOCKTIMEVERIFY OP_DROP\n  <sender_key.public_key>\nOP_ENDIF\nOP_CHECKSIG',
+    },
+    refund: {
+      name: 'Refund',
+      script: '<sender_key.schnorr_signature.all_outputs>\nOP_0',
+      timeLockType: 'height',
+      unlocks: 'lock',
+    },
+  },
+  supported: ['BCH_2019_05', 'BCH_2019_11', 'BCH_2020_05'],
+  version: 0,
+};
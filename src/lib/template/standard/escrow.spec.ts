@@ -0,0 +1,10 @@
+/* eslint-disable functional/no-expression-statement */
+import test from 'ava';
+
+import { authenticationTemplateEscrow } from '../../lib';
+
+import { expectScenarioResults } from './standard.spec.helper';
+
+test('authenticationTemplateEscrow: scenarios and script tests', async (t) => {
+  await expectScenarioResults(t, authenticationTemplateEscrow);
+});
@@ -0,0 +1,120 @@
+import { AuthenticationTemplate } from '../template-types';
+
+/**
+ * A 2-of-3 escrow authentication template in which a buyer and a seller may
+ * cooperatively spend the escrowed funds, and an arbiter may resolve disputes
+ * by co-signing with either party.
+ *
+ * In a typical escrow, the buyer funds the wallet and – once the purchase is
+ * complete – the buyer and seller cooperatively pay the seller. If the parties
+ * disagree, the arbiter reviews the dispute and co-signs either a payment to
+ * the seller (`seller_arbiter`) or a refund to the buyer (`buyer_arbiter`).
+ *
+ * This template uses BCH Schnorr multisig (available since `BCH_2019_11`),
+ * where each unlocking script selects its signers with a bitfield.
+ */
+export const authenticationTemplateEscrow: AuthenticationTemplate = {
+  $schema: 'https://bitauth.com/schemas/authentication-template-v0.schema.json',
+  description:
+    'A 2-of-3 escrow in which a buyer and a seller may cooperatively spend the escrowed funds, and an arbiter may resolve disputes by co-signing with either party.\n\nThis template uses BCH Schnorr multisig: each unlocking script selects its signers with a bitfield, and each selected signer provides a Schnorr signature.',
+  entities: {
+    arbiter: {
+      description:
+        'A trusted third party who resolves disputes by co-signing with either the buyer or the seller.',
+      name: 'Arbiter',
+      scripts: ['lock', 'buyer_arbiter', 'seller_arbiter'],
+      variables: {
+        arbiter_key: {
+          description: 'The HD key of the arbiter.',
+          name: 'Arbiter Key',
+          type: 'HdKey',
+        },
+      },
+    },
+    buyer: {
+      description:
+        'The individual who funds the escrow, and who may be refunded with the help of the arbiter.',
+      name: 'Buyer',
+      scripts: ['lock', 'buyer_seller', 'buyer_arbiter'],
+      variables: {
+        buyer_key: {
+          description: 'The HD key of the buyer.',
+          name: 'Buyer Key',
+          type: 'HdKey',
+        },
+      },
+    },
+    seller: {
+      description:
+        'The individual who is paid from the escrow, either cooperatively with the buyer or with the help of the arbiter.',
+      name: 'Seller',
+      scripts: ['lock', 'buyer_seller', 'seller_arbiter'],
+      variables: {
+        seller_key: {
+          description: 'The HD key of the seller.',
+          name: 'Seller Key',
+          type: 'HdKey',
+        },
+      },
+    },
+  },
+  name: '2-of-3 Escrow',
+  scenarios: {
+    spend: {
+      description:
+        'An example transaction spending the escrowed funds to a single output.',
+      name: 'Escrow Spend',
+    },
+  },
+  scripts: {
+    buyer_arbiter: {
+      name: 'Dispute – Buyer & Arbiter',
+      passes: ['spend'],
+      script:
+        '<0x05>\n<buyer_key.schnorr_signature.all_outputs>\n<arbiter_key.schnorr_signature.all_outputs>',
+      unlocks: 'lock',
+    },
+    buyer_seller: {
+      name: 'Cooperative Spend – Buyer & Seller',
+      passes: ['spend'],
+      script:
+        '<0x03>\n<buyer_key.schnorr_signature.all_outputs>\n<seller_key.schnorr_signature.all_outputs>',
+      unlocks: 'lock',
+    },
+    escrow: {
+      name: '2-of-3 Escrow Multisig',
+      script:
+        'OP_2\n<buyer_key.public_key>\n<seller_key.public_key>\n<arbiter_key.public_key>\nOP_3\nOP_CHECKMULTISIG',
+      tests: [
+        {
+          check: '',
+          name: 'Accepts Signatures Selected by the Bitfield',
+          passes: ['spend'],
+          setup:
+            '<0x06>\n<seller_key.schnorr_signature.all_outputs>\n<arbiter_key.schnorr_signature.all_outputs>',
+        },
+        {
+          check: '',
+          fails: ['spend'],
+          name: 'Rejects Signatures Not Selected by the Bitfield',
+          setup:
+            '<0x05>\n<seller_key.schnorr_signature.all_outputs>\n<arbiter_key.schnorr_signature.all_outputs>',
+        },
+      ],
+    },
+    lock: {
+      lockingType: 'p2sh',
+      name: 'Escrow Lock',
+      script: 'escrow',
+    },
+    seller_arbiter: {
+      name: 'Dispute – Seller & Arbiter',
+      passes: ['spend'],
+      script:
+        '<0x06>\n<seller_key.schnorr_signature.all_outputs>\n<arbiter_key.schnorr_signature.all_outputs>',
+      unlocks: 'lock',
+    },
+  },
+  supported: ['BCH_2019_11', 'BCH_2020_05'],
+  version: 0,
+};
@@ -0,0 +1,25 @@
+/* eslint-disable functional/no-expression-statement */
+import test from 'ava';
+
+import { createAuthenticationTemplateHtlc } from '../../lib';
+
+import { expectScenarioResults } from './standard.spec.helper';
+
+test('createAuthenticationTemplateHtlc: SHA-256, CLTV', async (t) => {
+  const template = createAuthenticationTemplateHtlc();
+  t.deepEqual(template.name, 'Hash Time-Locked Contract (SHA-256, CLTV)');
+  await expectScenarioResults(t, template);
+});
+
+test('createAuthenticationTemplateHtlc: HASH160, CSV', async (t) => {
+  const template = createAuthenticationTemplateHtlc({
+    hashFunction: 'hash160',
+    timeLock: 'csv',
+  });
+  t.deepEqual(template.name, 'Hash Time-Locked Contract (HASH160, CSV)');
+  t.deepEqual(
+    template.scripts.hash_lock.script,
+    'OP_SIZE <32> OP_EQUALVERIFY\nOP_HASH160 <secret_hash> OP_EQUALVERIFY'
+  );
+  await expectScenarioResults(t, template);
+});
@@ -0,0 +1,231 @@
+import { CompilerDefaults } from '../compiler-defaults';
+import { AuthenticationTemplate } from '../template-types';
+
+const enum Internal {
+  exampleTimeoutBlocks = 144,
+  secretLength = 32,
+}
+
+const hashFunctions = {
+  hash160: {
+    name: 'HASH160',
+    opcode: 'OP_HASH160',
+    oversizedSecretHash: '0x702a65dac608473d4b494db6d25cba9740222827',
+    secretHash: '0x5741af53b9f8d706ccb09b5ed96fc6f5774b6515',
+  },
+  sha256: {
+    name: 'SHA-256',
+    opcode: 'OP_SHA256',
+    oversizedSecretHash:
+      '0xe16984db70cd43f46de1329d89d78eaedb3a73548953c10d5a5a33a8f7e9114f',
+    secretHash:
+      '0xb867db875479bcc0287352cdaa4a1755689b8338777d0915e9acd9f6edbc96cb',
+  },
+};
+
+const timeLocks = {
+  cltv:
+    '<$(<current_block_height> <timeout_blocks> OP_ADD)> OP_CHECKLOCKTIMEVERIFY OP_DROP',
+  csv: '<timeout_blocks> OP_CHECKSEQUENCEVERIFY OP_DROP',
+};
+
+/**
+ * The 32-byte example secret, the SHA-256 hash of the UTF8-encoded string
+ * `correct horse battery staple`.
+ */
+const exampleSecret =
+  '0xc4bbcb1fbec99d65bf59d85c8cb62ee2db963f0fe106f483d9afa73bd4e39a8a';
+/**
+ * The SHA-256 hash of the UTF8-encoded string `wrong secret`.
+ */
+const exampleWrongSecret =
+  '0x4428fe1948054670b5544b471982e482ec4d2a06e1e5dc3a472c8a8cfc816c3a';
+/**
+ * The example secret followed by an additional `0x00` byte.
+ */
+const exampleOversizedSecret = `${exampleSecret}00`;
+
+/**
+ * Create a Hash Time-Locked Contract (HTLC) authentication template: the
+ * recipient may claim the funds by revealing a secret (the preimage of
+ * `secret_hash`), and if the funds are not claimed, the sender may reclaim them
+ * after a timeout. HTLCs are used in cross-chain atomic swaps and payment
+ * channel networks.
+ *
+ * The secret must be exactly 32 bytes. Without this limit, a secret which is
+ * too large to be revealed on another chain could be used to claim the funds
+ * of a cross-chain swap on one chain only.
+ *
+ * @param hashFunction - the hash function used to lock the funds:
+ * - `sha256` (default) – `OP_SHA256`, the hash function used by most HTLC
+ * protocols
+ * - `hash160` – `OP_HASH160` (RIPEMD-160 of SHA-256), producing a shorter
+ * `secret_hash`
+ * @param timeLock - the type of time lock to use for the sender's refund:
+ * - `cltv` (default) – an absolute time lock (`OP_CHECKLOCKTIMEVERIFY`), where
+ * the refund is possible once `timeout_blocks` have been mined after the
+ * contract's address was created
+ * - `csv` – a relative time lock (`OP_CHECKSEQUENCEVERIFY`), where the refund
+ * is possible once the funding output has aged by `timeout_blocks`
+ */
+export const createAuthenticationTemplateHtlc = ({
+  hashFunction = 'sha256',
+  timeLock = 'cltv',
+}: {
+  hashFunction?: 'hash160' | 'sha256';
+  timeLock?: 'cltv' | 'csv';
+} = {}): AuthenticationTemplate => {
+  const { name, opcode, oversizedSecretHash, secretHash } = hashFunctions[
+    hashFunction
+  ];
+  const isAbsolute = timeLock === 'cltv';
+  const exampleTransaction = (blocks: number) =>
+    isAbsolute
+      ? {
+          locktime:
+            (CompilerDefaults.defaultScenarioCurrentBlockHeight as number) +
+            blocks,
+        }
+      : { inputs: [{ sequenceNumber: blocks, unlockingBytecode: null }] };
+  return {
+    $schema:
+      'https://bitauth.com/schemas/authentication-template-v0.schema.json',
+    description: `A Hash Time-Locked Contract (HTLC): the recipient may claim the funds by revealing a secret (the ${name} preimage of the secret hash), and if the funds are not claimed, the sender may reclaim them after a timeout.\n\nThe refund timeout is enforced with ${
+      isAbsolute ? 'OP_CHECKLOCKTIMEVERIFY' : 'OP_CHECKSEQUENCEVERIFY'
+    }.`,
+    entities: {
+      recipient: {
+        description:
+          'The individual who can claim the funds by revealing the secret.',
+        name: 'Recipient',
+        scripts: ['lock', 'claim'],
+        variables: {
+          recipient_key: {
+            description: 'The HD key which controls the claim path.',
+            name: 'Recipient Key',
+            type: 'HdKey',
+          },
+          secret: {
+            description: `The ${Internal.secretLength}-byte secret which the recipient reveals to claim the funds (the ${name} preimage of the secret hash).`,
+            name: 'Secret',
+            type: 'AddressData',
+          },
+        },
+      },
+      sender: {
+        description:
+          'The individual who funds the contract and can reclaim the funds after the timeout.',
+        name: 'Sender',
+        scripts: ['lock', 'refund'],
+        variables: {
+          secret_hash: {
+            description: `The ${name} hash of the secret, provided by the recipient.`,
+            name: 'Secret Hash',
+            type: 'AddressData',
+          },
+          sender_key: {
+            description: 'The HD key which controls the refund path.',
+            name: 'Sender Key',
+            type: 'HdKey',
+          },
+          timeout_blocks: {
+            description:
+              'The number of blocks after which the sender may reclaim the funds, e.g. 1 day is approximately 144 blocks (encoded as a Script Number).',
+            name: 'Timeout (Blocks)',
+            type: 'WalletData',
+          },
+        },
+      },
+    },
+    name: `Hash Time-Locked Contract (${name}, ${isAbsolute ? 'CLTV' : 'CSV'})`,
+    scenarios: {
+      after_timeout: {
+        description: `An example of a spend after a ${Internal.exampleTimeoutBlocks} block timeout has passed.`,
+        extends: 'before_timeout',
+        name: 'After Timeout',
+        transaction: exampleTransaction(Internal.exampleTimeoutBlocks),
+      },
+      before_timeout: {
+        data: {
+          bytecode: {
+            secret: exampleSecret,
+            secret_hash: secretHash,
+            timeout_blocks: `${Internal.exampleTimeoutBlocks}`,
+          },
+        },
+        description: `An example of a spend one block before a ${Internal.exampleTimeoutBlocks} block timeout has passed.`,
+        name: 'Before Timeout',
+        transaction: exampleTransaction(Internal.exampleTimeoutBlocks - 1),
+      },
+      oversized_secret: {
+        data: {
+          bytecode: {
+            secret: exampleOversizedSecret,
+            secret_hash: oversizedSecretHash,
+          },
+        },
+        description: `An example of a claim before the timeout in which the recipient provides a secret which matches the secret hash but is longer than ${Internal.secretLength} bytes.`,
+        extends: 'before_timeout',
+        name: 'Oversized Secret',
+      },
+      wrong_secret: {
+        data: { bytecode: { secret: exampleWrongSecret } },
+        description:
+          'An example of a claim before the timeout in which the recipient provides the wrong secret.',
+        extends: 'before_timeout',
+        name: 'Wrong Secret',
+      },
+    },
+    scripts: {
+      claim: {
+        fails: ['wrong_secret', 'oversized_secret'],
+        name: 'Claim',
+        passes: ['before_timeout', 'after_timeout'],
+        script: '<recipient_key.schnorr_signature.all_outputs>\n<secret>\nOP_1',
+        unlocks: 'lock',
+      },
+      hash_lock: {
+        name: 'Hash Lock',
+        script: `OP_SIZE <${Internal.secretLength}> OP_EQUALVERIFY\n${opcode} <secret_hash> OP_EQUALVERIFY`,
+        tests: [
+          {
+            check: 'OP_1',
+            fails: ['wrong_secret', 'oversized_secret'],
+            name: 'Requires the Secret',
+            passes: ['before_timeout'],
+            setup: '<secret>',
+          },
+        ],
+      },
+      lock: {
+        lockingType: 'p2sh',
+        name: 'HTLC Lock',
+        script:
+          'OP_IF\n  hash_lock\n  <recipient_key.public_key>\nOP_ELSE\n  timeout\n  <sender_key.public_key>\nOP_ENDIF\nOP_CHECKSIG',
+      },
+      refund: {
+        fails: ['before_timeout'],
+        name: 'Refund',
+        passes: ['after_timeout'],
+        script: '<sender_key.schnorr_signature.all_outputs>\nOP_0',
+        ...(isAbsolute ? { timeLockType: 'height' as const } : {}),
+        unlocks: 'lock',
+      },
+      timeout: {
+        name: 'Timeout',
+        script: timeLocks[timeLock],
+        tests: [
+          {
+            check: 'OP_1',
+            fails: ['before_timeout'],
+            name: 'Requires the Timeout to Have Passed',
+            passes: ['after_timeout'],
+            setup: '',
+          },
+        ],
+      },
+    },
+    supported: ['BCH_2019_05', 'BCH_2019_11', 'BCH_2020_05'],
+    version: 0,
+  };
+};
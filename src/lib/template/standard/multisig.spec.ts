@@ -0,0 +1,73 @@
+/* eslint-disable functional/no-expression-statement */
+import test from 'ava';
+
+import {
+  AuthenticationTemplate,
+  createAuthenticationTemplateMultisig,
+  MultisigTemplateError,
+  SigningCombinationsError,
+} from '../../lib';
+
+import { expectScenarioResults } from './standard.spec.helper';
+
+test('createAuthenticationTemplateMultisig: 2-of-3', async (t) => {
+  const template = createAuthenticationTemplateMultisig({
+    signers: 3,
+    threshold: 2,
+  }) as AuthenticationTemplate;
+  t.deepEqual(template.name, '2-of-3 Multisig (P2SH)');
+  t.deepEqual(template.entities.signer_3.scripts, [
+    'lock',
+    'unlock_1_3',
+    'unlock_2_3',
+  ]);
+  t.deepEqual(
+    template.scripts.unlock_1_3.script,
+    '<0x05>\n<key_1.schnorr_signature.all_outputs>\n<key_3.schnorr_signature.all_outputs>'
+  );
+  await expectScenarioResults(t, template);
+});
+
+test('createAuthenticationTemplateMultisig: 1-of-1', async (t) => {
+  const template = createAuthenticationTemplateMultisig({
+    signers: 1,
+    threshold: 1,
+  }) as AuthenticationTemplate;
+  t.deepEqual(Object.keys(template.scripts).sort(), [
+    'lock',
+    'multisig',
+    'unlock',
+  ]);
+  await expectScenarioResults(t, template);
+});
+
+test('createAuthenticationTemplateMultisig: 9-of-10 (two-byte bitfield)', async (t) => {
+  const template = createAuthenticationTemplateMultisig({
+    signers: 10,
+    threshold: 9,
+  }) as AuthenticationTemplate;
+  t.deepEqual(
+    template.scripts.unlock_2_3_4_5_6_7_8_9_10.script.split('\n')[0],
+    '<0xfe03>'
+  );
+  await expectScenarioResults(t, template);
+});
+
+test('createAuthenticationTemplateMultisig: errors', (t) => {
+  t.deepEqual(
+    createAuthenticationTemplateMultisig({ signers: 2, threshold: 3 }),
+    MultisigTemplateError.invalidThreshold
+  );
+  t.deepEqual(
+    createAuthenticationTemplateMultisig({ signers: 2, threshold: 0 }),
+    MultisigTemplateError.invalidThreshold
+  );
+  t.deepEqual(
+    createAuthenticationTemplateMultisig({ signers: 16, threshold: 1 }),
+    MultisigTemplateError.tooManySigners
+  );
+  t.deepEqual(
+    createAuthenticationTemplateMultisig({ signers: 10, threshold: 5 }),
+    SigningCombinationsError.tooManySigningCombinations
+  );
+});
@@ -0,0 +1,208 @@
+import { binToHex, range } from '../../format/format';
+import {
+  listSigningCombinations,
+  SigningCombinationsError,
+} from '../signing-combinations';
+import {
+  AuthenticationTemplate,
+  AuthenticationTemplateEntity,
+  AuthenticationTemplateScript,
+  AuthenticationTemplateScriptUnlocking,
+} from '../template-types';
+
+export enum MultisigTemplateError {
+  invalidThreshold = 'Multisig template error: the threshold must be an integer from 1 to the number of signers.',
+  tooManySigners = 'Multisig template error: P2SH multisig wallets may have at most 15 signers (the redeem bytecode of larger wallets exceeds the maximum push size of 520 bytes).',
+}
+
+const enum Internal {
+  bitsPerByte = 8,
+  maximumP2shSigners = 15,
+}
+
+/**
+ * Encode the Schnorr multisig "dummy" bitfield which selects the provided
+ * signer indexes (from `0`), e.g. `[0, 2]` is `0x05`.
+ */
+const bitfield = (signerIndexes: number[], signers: number) =>
+  binToHex(
+    Uint8Array.from(
+      range(Math.ceil(signers / Internal.bitsPerByte)).map((byte) =>
+        signerIndexes
+          .filter((index) => Math.floor(index / Internal.bitsPerByte) === byte)
+          .reduce(
+            // eslint-disable-next-line no-bitwise
+            (bits, index) => bits | (1 << index % Internal.bitsPerByte),
+            0
+          )
+      )
+    )
+  );
+
+/**
+ * Create the unlocking script for a combination of signers (signer indexes
+ * start from `0`). Schnorr multisig signatures must be provided in the same
+ * order as the public keys they satisfy.
+ */
+const multisigUnlock = (
+  signerIndexes: number[],
+  signers: number,
+  algorithm: 'schnorr_signature' | 'signature' = 'schnorr_signature'
+) =>
+  [
+    `<0x${bitfield(signerIndexes, signers)}>`,
+    ...signerIndexes.map(
+      (index) => `<key_${index + 1}.${algorithm}.all_outputs>`
+    ),
+  ].join('\n');
+
+/**
+ * Create a Pay-to-Script-Hash (P2SH) multisig authentication template which
+ * requires signatures from `threshold` of `signers` HD keys.
+ *
+ * The template uses BCH Schnorr multisig (available since `BCH_2019_11`):
+ * each unlocking script provides a bitfield selecting its signers in place of
+ * the `OP_CHECKMULTISIG` "dummy" element, followed by a Schnorr signature from
+ * each selected signer. Because authentication templates cannot choose signers
+ * at signing time, the template includes an unlocking script for every
+ * combination of `threshold` signers (e.g. `unlock_1_3` for a 2-of-3 wallet).
+ *
+ * Because the template uses Hierarchical Deterministic (HD) keys, it also
+ * supports an "Observer (Watch-Only)" entity.
+ *
+ * @param signers - the number of keys which may sign for the wallet (from `1`
+ * to `15`)
+ * @param threshold - the number of signatures required to spend from the
+ * wallet (from `1` to `signers`)
+ */
+export const createAuthenticationTemplateMultisig = ({
+  signers,
+  threshold,
+}: {
+  signers: number;
+  threshold: number;
+}):
+  | AuthenticationTemplate
+  | MultisigTemplateError
+  | SigningCombinationsError => {
+  if (
+    !Number.isInteger(signers) ||
+    !Number.isInteger(threshold) ||
+    threshold < 1 ||
+    threshold > signers
+  ) {
+    return MultisigTemplateError.invalidThreshold;
+  }
+  if (signers > Internal.maximumP2shSigners) {
+    return MultisigTemplateError.tooManySigners;
+  }
+  const signerIndexes = range(signers);
+  const signerCombinations = listSigningCombinations(signerIndexes, threshold);
+  if (typeof signerCombinations === 'string') {
+    return signerCombinations;
+  }
+  const unlockingScripts = signerCombinations.map<
+    [string, number[], AuthenticationTemplateScriptUnlocking]
+  >((combination) => {
+    const unlockId =
+      signerCombinations.length === 1
+        ? 'unlock'
+        : `unlock_${combination.map((index) => index + 1).join('_')}`;
+    return [
+      unlockId,
+      combination,
+      {
+        name: `Unlock (${combination
+          .map((index) => `Signer ${index + 1}`)
+          .join(', ')})`,
+        passes: ['spend'],
+        script: multisigUnlock(combination, signers),
+        unlocks: 'lock',
+      },
+    ];
+  });
+  const entities = signerIndexes.reduce<{
+    [id: string]: AuthenticationTemplateEntity;
+  }>(
+    (all, index) => ({
+      ...all,
+      [`signer_${index + 1}`]: {
+        description: `One of the ${signers} signers of this wallet.`,
+        name: `Signer ${index + 1}`,
+        scripts: [
+          'lock',
+          ...unlockingScripts
+            .filter(([, combination]) => combination.includes(index))
+            .map(([id]) => id),
+        ],
+        variables: {
+          [`key_${index + 1}`]: {
+            description: `The HD key of Signer ${index + 1}.`,
+            name: `Key ${index + 1}`,
+            type: 'HdKey',
+          },
+        },
+      },
+    }),
+    {}
+  );
+  const [firstCombination] = signerCombinations;
+  const name = `${threshold}-of-${signers} Multisig (P2SH)`;
+  return {
+    $schema:
+      'https://bitauth.com/schemas/authentication-template-v0.schema.json',
+    description: `A ${threshold}-of-${signers} Pay-to-Script-Hash (P2SH) multisig wallet. Any ${threshold} of the ${signers} signers may spend from this wallet.\n\nThis template uses BCH Schnorr multisig: each unlocking script selects its signers with a bitfield, and each selected signer provides a Schnorr signature. Because the template uses Hierarchical Deterministic (HD) keys, it also supports an "Observer (Watch-Only)" entity.`,
+    entities: {
+      observer: {
+        description:
+          'An entity which can generate addresses but cannot spend funds from this wallet.',
+        name: 'Observer (Watch-Only)',
+        scripts: ['lock'],
+      },
+      ...entities,
+    },
+    name,
+    scenarios: {
+      spend: {
+        description:
+          'An example transaction spending from this wallet to a single output.',
+        name: 'Standard Spend',
+      },
+    },
+    scripts: {
+      lock: {
+        lockingType: 'p2sh',
+        name: `${threshold}-of-${signers} Multisig Lock`,
+        script: 'multisig',
+      },
+      multisig: {
+        name: `${threshold}-of-${signers} Schnorr Multisig`,
+        script: [
+          `OP_${threshold}`,
+          ...signerIndexes.map((index) => `<key_${index + 1}.public_key>`),
+          `OP_${signers}`,
+          'OP_CHECKMULTISIG',
+        ].join('\n'),
+        tests: [
+          {
+            check: '',
+            name: 'Accepts Schnorr Signatures Selected by the Bitfield',
+            passes: ['spend'],
+            setup: multisigUnlock(firstCombination, signers),
+          },
+          {
+            check: '',
+            fails: ['spend'],
+            name: 'Rejects ECDSA Signatures',
+            setup: multisigUnlock(firstCombination, signers, 'signature'),
+          },
+        ],
+      },
+      ...unlockingScripts.reduce<{
+        [id: string]: AuthenticationTemplateScript;
+      }>((all, [id, , script]) => ({ ...all, [id]: script }), {}),
+    },
+    supported: ['BCH_2019_11', 'BCH_2020_05'],
+    version: 0,
+  };
+};
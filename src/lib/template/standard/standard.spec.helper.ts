@@ -0,0 +1,149 @@
+/* eslint-disable functional/no-expression-statement */
+import { ExecutionContext } from 'ava';
+
+import {
+  AuthenticationTemplate,
+  authenticationTemplateToCompilationEnvironmentVirtualizedTests,
+  CompilationData,
+  CompilerDefaults,
+  createCompilerBCH,
+  generateTransaction,
+  Input,
+  instantiateVirtualMachineBCH,
+  validateAuthenticationTemplate,
+  verifyTransaction,
+} from '../../lib';
+
+const vmPromise = instantiateVirtualMachineBCH();
+
+interface ScenarioExpectation {
+  passes: boolean;
+  scenarioId: string;
+  unlockingScriptId: string;
+}
+
+/**
+ * List the expected result of every `passes` and `fails` scenario of each
+ * unlocking script and script test in `template`.
+ */
+const listScenarioExpectations = (template: AuthenticationTemplate) =>
+  Object.entries(template.scripts).reduce<ScenarioExpectation[]>(
+    (all, [scriptId, script]) => {
+      const expect = (
+        unlockingScriptId: string,
+        { fails, passes }: { fails?: string[]; passes?: string[] }
+      ) => [
+        ...(passes ?? []).map((scenarioId) => ({
+          passes: true,
+          scenarioId,
+          unlockingScriptId,
+        })),
+        ...(fails ?? []).map((scenarioId) => ({
+          passes: false,
+          scenarioId,
+          unlockingScriptId,
+        })),
+      ];
+      if ('unlocks' in script) {
+        return [...all, ...expect(scriptId, script)];
+      }
+      if ('tests' in script) {
+        return script.tests.reduce(
+          (expectations, test, index) => [
+            ...expectations,
+            ...expect(
+              `${CompilerDefaults.virtualizedTestUnlockingScriptPrefix}${scriptId}_${index}`,
+              test
+            ),
+          ],
+          all
+        );
+      }
+      return all;
+    },
+    []
+  );
+
+/**
+ * Validate `template`, then generate, sign, and verify the transaction of each
+ * `passes` and `fails` scenario of every unlocking script and script test,
+ * asserting that each scenario passes or fails as expected.
+ */
+export const expectScenarioResults = async (
+  t: ExecutionContext,
+  template: AuthenticationTemplate
+) => {
+  const validated = validateAuthenticationTemplate(template);
+  if (typeof validated === 'string') {
+    t.fail(validated);
+    return;
+  }
+  const environment = authenticationTemplateToCompilationEnvironmentVirtualizedTests(
+    validated
+  );
+  const compiler = await createCompilerBCH(environment);
+  const vm = await vmPromise;
+  const expectations = listScenarioExpectations(validated);
+  t.true(expectations.length > 0);
+  expectations.forEach(({ passes, scenarioId, unlockingScriptId }) => {
+    const label = `${unlockingScriptId} in ${scenarioId}`;
+    const scenario = compiler.generateScenario({
+      scenarioId,
+      unlockingScriptId,
+    });
+    if (typeof scenario === 'string') {
+      t.fail(`${label}: ${scenario}`);
+      return;
+    }
+    const lockingScriptId = (environment.unlockingScripts ?? {})[
+      unlockingScriptId
+    ];
+    const lockingBytecode = compiler.generateBytecode(
+      lockingScriptId,
+      scenario.data
+    );
+    if (!lockingBytecode.success) {
+      t.fail(`${label}: ${JSON.stringify(lockingBytecode.errors)}`);
+      return;
+    }
+    const {
+      inputIndex,
+      sourceOutput: { satoshis },
+      spendingTransaction,
+    } = scenario.program;
+    const result = generateTransaction({
+      ...spendingTransaction,
+      inputs: spendingTransaction.inputs.map((input, index) =>
+        index === inputIndex
+          ? {
+              ...input,
+              unlockingBytecode: {
+                compiler,
+                data: scenario.data as CompilationData<never>,
+                satoshis,
+                script: unlockingScriptId,
+              },
+            }
+          : (input as Input)
+      ),
+    });
+    if (!result.success) {
+      t.fail(`${label}: ${JSON.stringify(result.errors)}`);
+      return;
+    }
+    const verification = verifyTransaction({
+      spentOutputs: spendingTransaction.inputs.map((_, index) => ({
+        lockingBytecode:
+          index === inputIndex ? lockingBytecode.bytecode : Uint8Array.of(),
+        satoshis,
+      })),
+      transaction: result.transaction,
+      vm,
+    });
+    t.deepEqual(
+      verification === true,
+      passes,
+      `${label}: ${JSON.stringify(verification)}`
+    );
+  });
+};
@@ -1 +1,6 @@
+export * from './atomic-swap';
+export * from './escrow';
+export * from './htlc';
+export * from './multisig';
 export * from './p2pkh';
+export * from './vault';
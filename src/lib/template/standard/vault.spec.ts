@@ -0,0 +1,26 @@
+/* eslint-disable functional/no-expression-statement */
+import test from 'ava';
+
+import { createAuthenticationTemplateVault } from '../../lib';
+
+import { expectScenarioResults } from './standard.spec.helper';
+
+test('createAuthenticationTemplateVault: CSV', async (t) => {
+  const template = createAuthenticationTemplateVault();
+  t.deepEqual(template.name, 'Time-Locked Vault (CSV)');
+  await expectScenarioResults(t, template);
+});
+
+test('createAuthenticationTemplateVault: CLTV', async (t) => {
+  const template = createAuthenticationTemplateVault({ timeLock: 'cltv' });
+  t.deepEqual(template.name, 'Time-Locked Vault (CLTV)');
+  t.deepEqual(template.scripts.spend, {
+    fails: ['before_delay'],
+    name: 'Spend',
+    passes: ['after_delay'],
+    script: '<owner_key.schnorr_signature.all_outputs>\nOP_1',
+    timeLockType: 'height',
+    unlocks: 'lock',
+  });
+  await expectScenarioResults(t, template);
+});
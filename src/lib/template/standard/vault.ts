@@ -0,0 +1,144 @@
+import { CompilerDefaults } from '../compiler-defaults';
+import { AuthenticationTemplate } from '../template-types';
+
+const enum Internal {
+  exampleDelayBlocks = 144,
+}
+
+const timeLocks = {
+  cltv: {
+    description:
+      'The owner may spend from the wallet after the number of blocks specified by "delay_blocks" have been mined (measured from the block height at which each address is created), enforced with OP_CHECKLOCKTIMEVERIFY.',
+    script:
+      '<$(<current_block_height> <delay_blocks> OP_ADD)> OP_CHECKLOCKTIMEVERIFY OP_DROP',
+  },
+  csv: {
+    description:
+      'The owner may spend each deposit to the wallet after the deposit has aged by the number of blocks specified by "delay_blocks", enforced with OP_CHECKSEQUENCEVERIFY.',
+    script: '<delay_blocks> OP_CHECKSEQUENCEVERIFY OP_DROP',
+  },
+};
+
+/**
+ * Create a time-locked vault authentication template: the owner may spend
+ * from the vault only after a delay, but a recovery key (e.g. held offline)
+ * may spend from the vault at any time. If the owner's key is compromised, the
+ * recovery key can be used to move the funds before the attacker's delay has
+ * passed.
+ *
+ * @param timeLock - the type of time lock to use for the owner's delay:
+ * - `csv` (default) – a relative time lock (`OP_CHECKSEQUENCEVERIFY`), where
+ * each deposit must age by `delay_blocks` before it can be spent by the owner
+ * - `cltv` – an absolute time lock (`OP_CHECKLOCKTIMEVERIFY`), where all
+ * deposits to an address can be spent by the owner once `delay_blocks` have
+ * been mined after the address was created
+ */
+export const createAuthenticationTemplateVault = ({
+  timeLock = 'csv',
+}: {
+  timeLock?: 'cltv' | 'csv';
+} = {}): AuthenticationTemplate => {
+  const { description, script } = timeLocks[timeLock];
+  const isAbsolute = timeLock === 'cltv';
+  const exampleTransaction = (blocks: number) =>
+    isAbsolute
+      ? {
+          locktime:
+            (CompilerDefaults.defaultScenarioCurrentBlockHeight as number) +
+            blocks,
+        }
+      : { inputs: [{ sequenceNumber: blocks, unlockingBytecode: null }] };
+  return {
+    $schema:
+      'https://bitauth.com/schemas/authentication-template-v0.schema.json',
+    description: `A time-locked vault: the owner may spend from the vault only after a delay, but a recovery key (e.g. held offline) may spend from the vault at any time. If the owner's key is compromised, the recovery key can be used to move the funds before the delay has passed.\n\n${description}`,
+    entities: {
+      owner: {
+        description:
+          'The individual who can spend from this wallet after the delay.',
+        name: 'Owner',
+        scripts: ['lock', 'spend'],
+        variables: {
+          delay_blocks: {
+            description:
+              'The number of blocks the owner must wait before spending, e.g. 1 day is approximately 144 blocks (encoded as a Script Number).',
+            name: 'Delay (Blocks)',
+            type: 'WalletData',
+          },
+          owner_key: {
+            description: 'The HD key of the owner.',
+            name: 'Owner Key',
+            type: 'HdKey',
+          },
+        },
+      },
+      recovery: {
+        description:
+          'The individual (or offline device) who can spend from this wallet at any time.',
+        name: 'Recovery',
+        scripts: ['lock', 'recover'],
+        variables: {
+          recovery_key: {
+            description: 'The HD key which can recover funds at any time.',
+            name: 'Recovery Key',
+            type: 'HdKey',
+          },
+        },
+      },
+    },
+    name: `Time-Locked Vault (${isAbsolute ? 'CLTV' : 'CSV'})`,
+    scenarios: {
+      after_delay: {
+        description: `An example of a spend after a ${Internal.exampleDelayBlocks} block delay has passed.`,
+        extends: 'before_delay',
+        name: 'After Delay',
+        transaction: exampleTransaction(Internal.exampleDelayBlocks),
+      },
+      before_delay: {
+        data: {
+          bytecode: { delay_blocks: `${Internal.exampleDelayBlocks}` },
+        },
+        description: `An example of a spend one block before a ${Internal.exampleDelayBlocks} block delay has passed.`,
+        name: 'Before Delay',
+        transaction: exampleTransaction(Internal.exampleDelayBlocks - 1),
+      },
+    },
+    scripts: {
+      delay: {
+        name: 'Delay',
+        script,
+        tests: [
+          {
+            check: 'OP_1',
+            fails: ['before_delay'],
+            name: 'Requires the Delay to Have Passed',
+            passes: ['after_delay'],
+            setup: '',
+          },
+        ],
+      },
+      lock: {
+        lockingType: 'p2sh',
+        name: 'Vault Lock',
+        script:
+          'OP_IF\n  delay\n  <owner_key.public_key>\nOP_ELSE\n  <recovery_key.public_key>\nOP_ENDIF\nOP_CHECKSIG',
+      },
+      recover: {
+        name: 'Recover',
+        passes: ['before_delay', 'after_delay'],
+        script: '<recovery_key.schnorr_signature.all_outputs>\nOP_0',
+        unlocks: 'lock',
+      },
+      spend: {
+        fails: ['before_delay'],
+        name: 'Spend',
+        passes: ['after_delay'],
+        script: '<owner_key.schnorr_signature.all_outputs>\nOP_1',
+        ...(isAbsolute ? { timeLockType: 'height' as const } : {}),
+        unlocks: 'lock',
+      },
+    },
+    supported: ['BCH_2019_05', 'BCH_2019_11', 'BCH_2020_05'],
+    version: 0,
+  };
+};
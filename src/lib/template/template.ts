@@ -5,7 +5,9 @@ export * from './compiler-operation-helpers';
 export * from './compiler-operations';
 export * from './compiler-types';
 export * from './compiler';
+export * from './descriptor-template';
 export * from './scenarios';
+export * from './signing-combinations';
 export * from './standard/standard';
 export * from './template-types';
 export * from './template-validation';
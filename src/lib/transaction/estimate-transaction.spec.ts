@@ -0,0 +1,205 @@
+/* eslint-disable functional/no-expression-statement */
+
+import test from 'ava';
+
+import {
+  authenticationTemplateToCompilerBCH,
+  bigIntToBinUint64LE,
+  encodeTransaction,
+  estimateTransaction,
+  generateTransaction,
+  hexToBin,
+  invalidSatoshis,
+  validateAuthenticationTemplate,
+} from '../lib';
+import { privkey } from '../template/compiler-bch/compiler-bch.e2e.spec.helper';
+
+const maybeTemplate: unknown = {
+  entities: {
+    ownerEntity: {
+      name: 'Owner',
+      scripts: ['lock', 'unlock', 'unlock_ecdsa'],
+      variables: {
+        owner: {
+          description: 'The private key which controls this wallet.',
+          name: "Owner's Key",
+          type: 'Key',
+        },
+      },
+    },
+  },
+  scenarios: {
+    estimate: {
+      description: 'A scenario used to estimate the size of transactions.',
+      name: 'Estimate',
+    },
+  },
+  scripts: {
+    celebrate: {
+      script: 'OP_RETURN <"hello world">',
+    },
+    lock: {
+      lockingType: 'standard',
+      name: 'P2PKH Lock',
+      script:
+        'OP_DUP\nOP_HASH160 <$( <owner.public_key> OP_HASH160\n)> OP_EQUALVERIFY\nOP_CHECKSIG',
+    },
+    unlock: {
+      name: 'Unlock',
+      script: '<owner.schnorr_signature.all_outputs>\n<owner.public_key>',
+      unlocks: 'lock',
+    },
+    unlock_ecdsa: {
+      name: 'Unlock (ECDSA)',
+      script: '<owner.signature.all_outputs>\n<owner.public_key>',
+      unlocks: 'lock',
+    },
+  },
+  supported: ['BCH_2019_05', 'BCH_2019_11'],
+  version: 0,
+};
+
+const outpointTransactionHash = hexToBin(
+  '68127de83d2ab77d7f5fd8d2ac6181d94473c0cbb2d0776084bf28884f6ecd77'
+);
+const satoshis = bigIntToBinUint64LE(BigInt(1000000));
+
+test('estimateTransaction', async (t) => {
+  const template = validateAuthenticationTemplate(maybeTemplate);
+  if (typeof template === 'string') {
+    t.fail(template);
+    return;
+  }
+  const compiler = await authenticationTemplateToCompilerBCH(template);
+
+  const estimate = estimateTransaction({
+    inputSatoshis: 1000000,
+    inputs: [
+      {
+        outpointIndex: 1,
+        outpointTransactionHash,
+        sequenceNumber: 0,
+        unlockingBytecode: {
+          compiler,
+          estimate: 'estimate',
+          satoshis,
+          script: 'unlock',
+        },
+      },
+      {
+        outpointIndex: 2,
+        outpointTransactionHash,
+        sequenceNumber: 0,
+        unlockingBytecode: {
+          compiler,
+          estimate: 'estimate',
+          satoshis,
+          script: 'unlock_ecdsa',
+        },
+      },
+    ],
+    locktime: 0,
+    outputs: [
+      {
+        lockingBytecode: { compiler, script: 'celebrate' },
+        satoshis: undefined,
+      },
+    ],
+    version: 2,
+  });
+
+  if (!estimate.success) {
+    t.log(estimate.errors);
+    t.fail();
+    return;
+  }
+  t.deepEqual(estimate.transaction.outputs[0].satoshis, invalidSatoshis);
+  t.deepEqual(
+    estimate.size,
+    encodeTransaction(estimate.transaction).length,
+    'size'
+  );
+
+  const final = generateTransaction({
+    inputs: estimate.transaction.inputs.map((input, index) => ({
+      ...input,
+      unlockingBytecode: {
+        compiler,
+        data: { keys: { privateKeys: { owner: privkey } } },
+        satoshis,
+        script: index === 0 ? 'unlock' : 'unlock_ecdsa',
+      },
+    })),
+    locktime: 0,
+    outputs: [
+      {
+        lockingBytecode: { compiler, script: 'celebrate' },
+        satoshis: bigIntToBinUint64LE(BigInt(0)),
+      },
+    ],
+    version: 2,
+  });
+  if (!final.success) {
+    t.log(final.errors);
+    t.fail();
+    return;
+  }
+  const finalSize = encodeTransaction(final.transaction).length;
+  t.true(estimate.size >= finalSize);
+  const maximumDERSignatureSizeDifference = 2;
+  t.true(estimate.size - finalSize <= maximumDERSignatureSizeDifference);
+});
+
+test('estimateTransaction: unknown estimate scenario', async (t) => {
+  const template = validateAuthenticationTemplate(maybeTemplate);
+  if (typeof template === 'string') {
+    t.fail(template);
+    return;
+  }
+  const compiler = await authenticationTemplateToCompilerBCH(template);
+
+  t.deepEqual(
+    estimateTransaction({
+      inputSatoshis: 1000000,
+      inputs: [
+        {
+          outpointIndex: 1,
+          outpointTransactionHash,
+          sequenceNumber: 0,
+          unlockingBytecode: {
+            compiler,
+            estimate: 'unknown',
+            satoshis,
+            script: 'unlock',
+          },
+        },
+      ],
+      locktime: 0,
+      outputs: [{ lockingBytecode: Uint8Array.of(), satoshis: undefined }],
+      version: 2,
+    }),
+    {
+      completions: [],
+      errors: [
+        {
+          errors: [
+            {
+              error:
+                'Failed compilation of unlocking directive at index "0": the estimate scenario could not be generated. Cannot generate scenario "unknown": a scenario with the identifier unknown is not included in this compilation environment.',
+              range: {
+                endColumn: 0,
+                endLineNumber: 0,
+                startColumn: 0,
+                startLineNumber: 0,
+              },
+            },
+          ],
+          index: 0,
+          type: 'unlocking',
+        },
+      ],
+      stage: 'inputs',
+      success: false,
+    }
+  );
+});
@@ -1,11 +1,60 @@
-import { Compiler } from '../template/compiler-types';
+import { createCompiler } from '../template/compiler';
+import {
+  AnyCompilationEnvironment,
+  CompilationData,
+  Compiler,
+} from '../template/compiler-types';
 
+import { generateTransaction } from './generate-transaction';
+import { encodeTransaction } from './transaction-serialization';
 import {
+  BytecodeGenerationErrorUnlocking,
+  InputTemplate,
+  invalidSatoshis,
+  OutputTemplate,
   TransactionContextCommon,
-  TransactionGenerationAttempt,
+  TransactionEstimationAttempt,
   TransactionTemplateEstimated,
+  TransactionTemplateFixed,
 } from './transaction-types';
 
+/**
+ * A 71-byte placeholder matching the maximum length of a DER-encoded, low-S
+ * ECDSA signature (without the signing serialization type byte):
+ * `0x30 <length> 0x02 <33-byte r> 0x02 <32-byte s>`. Because signatures must
+ * use a low `s` value, only `r` may require a padding byte.
+ */
+// prettier-ignore
+// eslint-disable-next-line @typescript-eslint/no-magic-numbers
+const maximumSizeSignatureDER = Uint8Array.from([0x30, 0x45, 0x02, 0x21, 0x00, ...new Array(32).fill(0xff), 0x02, 0x20, 0x7f, ...new Array(31).fill(0xff)]);
+
+/**
+ * Create a compiler which matches the provided compiler, but where all ECDSA
+ * signatures are replaced by a maximum-size placeholder. (ECDSA signatures
+ * vary in length, so an estimate must assume the largest possible signature
+ * to avoid underpaying fees.)
+ *
+ * @param compiler - the compiler to modify
+ */
+const createEstimationCompiler = <
+  CompilerType extends Compiler<TransactionContextCommon, unknown, unknown>
+>(
+  compiler: CompilerType
+) => {
+  const environment = compiler.environment as AnyCompilationEnvironment<
+    TransactionContextCommon
+  >;
+  return (environment.secp256k1 === undefined
+    ? compiler
+    : createCompiler({
+        ...environment,
+        secp256k1: {
+          ...environment.secp256k1,
+          signMessageHashDER: () => maximumSizeSignatureDER.slice(),
+        },
+      })) as CompilerType;
+};
+
 /**
  * Generate an "estimated" transaction – an invalid transaction which matches
  * the expected size of the final transaction.
@@ -16,6 +65,9 @@ import {
  * be quickly generated by a single entity without requiring any variable data
  * (like private keys or wallet data).
  *
+ * If successful, the result includes the `size` (in bytes) of the encoded
+ * estimated transaction.
+ *
  * @remarks
  * Like `generateTransaction` This method accepts a transaction template and
  * generates bytecode given all compilation directives, however, each directive
@@ -26,7 +78,11 @@ import {
  * The `satoshis` value of each output is also optional. (All output `satoshis`
  * values will be set to `invalidSatoshis` to guarantee the transaction's
  * invalidity).
- *s
+ *
+ * All ECDSA signatures are replaced with a placeholder of the maximum possible
+ * signature length, so the estimated size is never smaller than the size of
+ * the final transaction.
+ *
  * @param template - the transaction template from which to generate the
  * "estimated" transaction
  */
@@ -34,9 +90,73 @@ export const estimateTransaction = <
   CompilerType extends Compiler<TransactionContextCommon, unknown, unknown>
 >(
   template: Readonly<TransactionTemplateEstimated<CompilerType>>
-): TransactionGenerationAttempt => {
-  // TODO: estimateTransaction
-  return typeof template === 'object'
-    ? { completions: [], errors: [], stage: 'inputs', success: false }
-    : { completions: [], errors: [], stage: 'inputs', success: false };
+): TransactionEstimationAttempt => {
+  const outputs = template.outputs.map<OutputTemplate<CompilerType>>(
+    (output) => ({
+      lockingBytecode: output.lockingBytecode,
+      satoshis: invalidSatoshis.slice(),
+    })
+  );
+
+  const inputResults = template.inputs.map<
+    InputTemplate<CompilerType> | BytecodeGenerationErrorUnlocking
+  >((input, index) => {
+    if (!('script' in input.unlockingBytecode)) {
+      return input as InputTemplate<CompilerType>;
+    }
+    const directive = input.unlockingBytecode;
+    const scenario = directive.compiler.generateScenario({
+      scenarioId: directive.estimate,
+      unlockingScriptId: directive.script,
+    });
+    if (typeof scenario === 'string') {
+      return {
+        errors: [
+          {
+            error: `Failed compilation of unlocking directive at index "${index}": the estimate scenario could not be generated. ${scenario}`,
+            range: {
+              endColumn: 0,
+              endLineNumber: 0,
+              startColumn: 0,
+              startLineNumber: 0,
+            },
+          },
+        ],
+        index,
+        type: 'unlocking',
+      };
+    }
+    return {
+      ...input,
+      unlockingBytecode: {
+        compiler: createEstimationCompiler(directive.compiler),
+        data: scenario.data as CompilationData<never>,
+        satoshis: directive.satoshis,
+        script: directive.script,
+      },
+    };
+  });
+
+  const scenarioErrors = inputResults.filter(
+    (result): result is BytecodeGenerationErrorUnlocking => 'errors' in result
+  );
+  if (scenarioErrors.length > 0) {
+    return {
+      completions: [],
+      errors: scenarioErrors,
+      stage: 'inputs',
+      success: false,
+    };
+  }
+
+  const fixedTemplate: TransactionTemplateFixed<CompilerType> = {
+    inputs: inputResults as InputTemplate<CompilerType>[],
+    locktime: template.locktime,
+    outputs,
+    version: template.version,
+  };
+  const attempt = generateTransaction(fixedTemplate);
+  return attempt.success
+    ? { ...attempt, size: encodeTransaction(attempt.transaction).length }
+    : attempt;
 };
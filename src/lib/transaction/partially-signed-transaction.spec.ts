@@ -0,0 +1,386 @@
+/* eslint-disable functional/no-expression-statement */
+import test from 'ava';
+
+import {
+  authenticationTemplateToCompilerBCH,
+  bigIntToBinUint64LE,
+  binToHex,
+  CompilationData,
+  combinePartiallySignedTransactions,
+  createPartiallySignedTransaction,
+  decodePartiallySignedTransaction,
+  decodeTransaction,
+  encodePartiallySignedTransaction,
+  extractTransactionFromPartiallySignedTransaction,
+  finalizePartiallySignedTransaction,
+  hexToBin,
+  instantiateVirtualMachineBCH,
+  PartiallySignedTransaction,
+  PartiallySignedTransactionError,
+  stringify,
+  validateAuthenticationTemplate,
+  verifyTransaction,
+} from '../lib';
+
+import {
+  hdPrivateKey0H,
+  hdPrivateKey2H,
+  hdPublicKey0H,
+  hdPublicKey1H,
+  hdPublicKey2H,
+  twoOfThreeJson,
+} from './transaction-e2e.spec.helper';
+
+const vmPromise = instantiateVirtualMachineBCH();
+
+/**
+ * Created with bitcoinjs-lib: two inputs (with source transaction, partial
+ * signatures, signing serialization type, redeem bytecode, and HD key
+ * derivation; and with witness source output, witness bytecode, and final
+ * unlocking bytecode and witness), two outputs, and a global HD public key.
+ */
+const fullPst =
+  '70736274ff01009d0200000002ea1dd94acdca6dbbcb8f6d289f2c3ecb36a9f5e87b53b4710672cf0f72ec60a50100000000feffffff030303030303030303030303030303030303030303030303030303030303030300000000000000000002983a0000000000001976a914333333333333333333333333333333333333333388aca00f0000000000001600144444444444444444444444444444444444444444000000004f010488b21e000000000000000000873dff81c02f525623fd1fe5167eac3a55a049de3d314bb42ee227ffed37d5080339a36013301597daef41fbe593a02cc513d0b55527ec2df1050e2e8ff49c85c210010203042c00008000000080000000800001007601000000010101010101010101010101010101010101010101010101010101010101010101000000000100ffffffff0210270000000000001976a914111111111111111111111111111111111111111188ac204e00000000000017a9142222222222222222222222222222222222222222870000000022020255555555555555555555555555555555555555555555555555555555555555550930060201020201020122020366666666666666666666666666666666666666666666666666666666666666660930060201010201014101030441000000010425512102555555555555555555555555555555555555555555555555555555555555555551ae220602555555555555555555555555555555555555555555555555555555555555555510010203040000008001000000020000000001012b28230000000000002200207777777777777777777777777777777777777777777777777777777777777777010501510107010001080502015101000001000152220203666666666666666666666666666666666666666666666666666666666666666610aabbccdd010000000200000003000000000101015300';
+
+/**
+ * Created with bitcoinjs-lib: one input and one output, no other information.
+ */
+const emptyPst =
+  '70736274ff01003d020000000109090909090909090909090909090909090909090909090909090909090909090200000000ffffffff010000000000000000016a00000000000000';
+
+const emptyTransaction = {
+  inputs: [
+    {
+      outpointIndex: 2,
+      outpointTransactionHash: hexToBin(
+        '0909090909090909090909090909090909090909090909090909090909090909'
+      ),
+      sequenceNumber: 0xffffffff,
+      unlockingBytecode: Uint8Array.of(),
+    },
+  ],
+  locktime: 0,
+  outputs: [
+    {
+      lockingBytecode: hexToBin('6a'),
+      satoshis: bigIntToBinUint64LE(BigInt(0)),
+    },
+  ],
+  version: 2,
+};
+
+test('createPartiallySignedTransaction', (t) => {
+  const pst = createPartiallySignedTransaction({
+    ...emptyTransaction,
+    inputs: [
+      { ...emptyTransaction.inputs[0], unlockingBytecode: hexToBin('51') },
+    ],
+  });
+  t.deepEqual(pst, {
+    hdPublicKeys: [],
+    inputs: [
+      {
+        hdKeyDerivations: [],
+        partialSignatures: [],
+        resolvedVariables: {},
+        unknown: [],
+      },
+    ],
+    outputs: [{ hdKeyDerivations: [], unknown: [] }],
+    transaction: emptyTransaction,
+    unknown: [],
+  });
+  t.deepEqual(binToHex(encodePartiallySignedTransaction(pst)), emptyPst);
+});
+
+test('decodePartiallySignedTransaction', (t) => {
+  const pst = decodePartiallySignedTransaction(hexToBin(fullPst));
+  if (typeof pst === 'string') {
+    t.fail(pst);
+    return;
+  }
+  t.deepEqual(
+    pst.hdPublicKeys.map((key) => key.path),
+    [[0x8000002c, 0x80000000, 0x80000000]]
+  );
+  t.deepEqual(pst.inputs[0].signingSerializationType, 0x41);
+  t.deepEqual(pst.inputs[0].partialSignatures.length, 2);
+  t.deepEqual(pst.inputs[0].hdKeyDerivations[0].path, [0x80000000, 1, 2]);
+  t.deepEqual(
+    binToHex(pst.inputs[0].hdKeyDerivations[0].fingerprint),
+    '01020304'
+  );
+  t.deepEqual(pst.inputs[1].witnessSourceOutput, {
+    lockingBytecode: hexToBin(`0020${'77'.repeat(32)}`),
+    satoshis: bigIntToBinUint64LE(BigInt(9000)),
+  });
+  t.deepEqual(pst.inputs[1].finalUnlockingBytecode, hexToBin('00'));
+  t.deepEqual(pst.inputs[1].finalWitness, [hexToBin('51'), hexToBin('00')]);
+  t.deepEqual(pst.outputs[0].redeemBytecode, hexToBin('52'));
+  t.deepEqual(pst.outputs[1].witnessBytecode, hexToBin('53'));
+  t.deepEqual(binToHex(encodePartiallySignedTransaction(pst)), fullPst);
+});
+
+test('decodePartiallySignedTransaction: BCH fields', (t) => {
+  const pst = createPartiallySignedTransaction(emptyTransaction);
+  const withBchFields: PartiallySignedTransaction = {
+    ...pst,
+    inputs: [
+      {
+        ...pst.inputs[0],
+        resolvedVariables: {
+          'key1.signature.all_outputs': hexToBin('abcd'),
+        },
+        sourceOutput: {
+          lockingBytecode: hexToBin('51'),
+          satoshis: bigIntToBinUint64LE(BigInt(1000)),
+        },
+        unknown: [{ key: hexToBin('fc03424348ff'), value: hexToBin('01') }],
+      },
+    ],
+  };
+  const encoded = encodePartiallySignedTransaction(withBchFields);
+  t.deepEqual(
+    binToHex(encoded),
+    '70736274ff01003d020000000109090909090909090909090909090909090909090909090909090909090909090200000000ffffffff010000000000000000016a000000000006fc03424348000ae803000000000000015120fc03424348016b6579312e7369676e61747572652e616c6c5f6f75747075747302abcd06fc03424348ff01010000'
+  );
+  t.deepEqual(decodePartiallySignedTransaction(encoded), withBchFields);
+});
+
+test('decodePartiallySignedTransaction: errors', (t) => {
+  t.deepEqual(
+    decodePartiallySignedTransaction(hexToBin(`00${emptyPst.slice(2)}`)),
+    PartiallySignedTransactionError.invalidMagic
+  );
+  t.deepEqual(
+    decodePartiallySignedTransaction(hexToBin(emptyPst.slice(0, -2))),
+    PartiallySignedTransactionError.invalidFormat
+  );
+  t.deepEqual(
+    decodePartiallySignedTransaction(hexToBin(`${emptyPst}00`)),
+    PartiallySignedTransactionError.invalidFormat
+  );
+  t.deepEqual(
+    decodePartiallySignedTransaction(hexToBin('70736274ff00')),
+    PartiallySignedTransactionError.missingUnsignedTransaction
+  );
+  t.deepEqual(
+    decodePartiallySignedTransaction(
+      hexToBin(
+        emptyPst
+          .replace('01003d', '01003e')
+          .replace('0200000000ffffffff', '020000000151ffffffff')
+      )
+    ),
+    PartiallySignedTransactionError.invalidUnsignedTransaction
+  );
+  t.deepEqual(
+    decodePartiallySignedTransaction(
+      hexToBin(`${emptyPst.slice(0, -4)}01030441000000010304410000000000`)
+    ),
+    PartiallySignedTransactionError.duplicateKey
+  );
+  t.deepEqual(
+    decodePartiallySignedTransaction(
+      hexToBin(`${emptyPst.slice(0, -4)}010301410000`)
+    ),
+    PartiallySignedTransactionError.invalidField
+  );
+  t.deepEqual(
+    decodePartiallySignedTransaction(
+      hexToBin(`${emptyPst.slice(0, -6)}01fb0401000000000000`)
+    ),
+    PartiallySignedTransactionError.unsupportedVersion
+  );
+});
+
+test('combinePartiallySignedTransactions', (t) => {
+  const pst = createPartiallySignedTransaction(emptyTransaction);
+  const signature1 = {
+    publicKey: hexToBin(`02${'55'.repeat(32)}`),
+    signature: hexToBin('300602010102010141'),
+  };
+  const signature2 = {
+    publicKey: hexToBin(`03${'66'.repeat(32)}`),
+    signature: hexToBin('300602010202010241'),
+  };
+  const first = {
+    ...pst,
+    inputs: [{ ...pst.inputs[0], partialSignatures: [signature1] }],
+  };
+  const second = {
+    ...pst,
+    inputs: [
+      {
+        ...pst.inputs[0],
+        partialSignatures: [
+          signature2,
+          { ...signature1, signature: hexToBin('00') },
+        ],
+        signingSerializationType: 0x41,
+      },
+    ],
+  };
+  t.deepEqual(combinePartiallySignedTransactions([first, second]), {
+    ...pst,
+    inputs: [
+      {
+        ...pst.inputs[0],
+        partialSignatures: [signature1, signature2],
+        signingSerializationType: 0x41,
+      },
+    ],
+  });
+  t.deepEqual(
+    combinePartiallySignedTransactions([
+      first,
+      { ...second, transaction: { ...second.transaction, locktime: 1 } },
+    ]),
+    PartiallySignedTransactionError.mismatchedTransactions
+  );
+});
+
+test('extractTransactionFromPartiallySignedTransaction', (t) => {
+  const pst = createPartiallySignedTransaction(emptyTransaction);
+  t.deepEqual(
+    extractTransactionFromPartiallySignedTransaction(pst),
+    PartiallySignedTransactionError.incompleteInputs
+  );
+  t.deepEqual(
+    extractTransactionFromPartiallySignedTransaction({
+      ...pst,
+      inputs: [{ ...pst.inputs[0], finalUnlockingBytecode: hexToBin('51') }],
+    }),
+    {
+      ...emptyTransaction,
+      inputs: [
+        { ...emptyTransaction.inputs[0], unlockingBytecode: hexToBin('51') },
+      ],
+    }
+  );
+});
+
+test('finalizePartiallySignedTransaction: 2-of-3 multisig', async (t) => {
+  const template = validateAuthenticationTemplate(twoOfThreeJson);
+  if (typeof template === 'string') {
+    t.fail(template);
+    return;
+  }
+  const hdPublicKeys = {
+    signer_1: hdPublicKey0H,
+    signer_2: hdPublicKey1H,
+    signer_3: hdPublicKey2H,
+  };
+  const lockingData: CompilationData<never> = {
+    hdKeys: { addressIndex: 0, hdPublicKeys },
+  };
+  const compiler = await authenticationTemplateToCompilerBCH(template);
+  const lockingBytecode = compiler.generateBytecode('lock', lockingData);
+  if (!lockingBytecode.success) {
+    t.fail(stringify(lockingBytecode));
+    return;
+  }
+  const sourceOutput = {
+    lockingBytecode: lockingBytecode.bytecode,
+    satoshis: bigIntToBinUint64LE(BigInt(10000)),
+  };
+
+  const pst = createPartiallySignedTransaction({
+    inputs: [
+      {
+        outpointIndex: 1,
+        outpointTransactionHash: hexToBin(
+          '3423be78a1976b4ae3516cda594577df004663ff24f1beb9d5bb63056b1b0a60'
+        ),
+        sequenceNumber: 0,
+        unlockingBytecode: Uint8Array.of(),
+      },
+    ],
+    locktime: 0,
+    outputs: [
+      {
+        lockingBytecode: hexToBin('6a0b68656c6c6f20776f726c64'),
+        satoshis: bigIntToBinUint64LE(BigInt(0)),
+      },
+    ],
+    version: 2,
+  });
+  const proposal = {
+    ...pst,
+    inputs: [{ ...pst.inputs[0], sourceOutput }],
+  };
+
+  const signer1 = finalizePartiallySignedTransaction(proposal, {
+    0: {
+      compiler,
+      data: {
+        hdKeys: {
+          ...lockingData.hdKeys,
+          hdPrivateKeys: { signer_1: hdPrivateKey0H },
+        },
+      },
+      satoshis: sourceOutput.satoshis,
+      script: '1_and_3',
+    },
+  });
+  t.deepEqual(signer1.missingVariables, {
+    'key3.signature.all_outputs': 'signer_3',
+  });
+  t.deepEqual(signer1.partiallySignedTransaction.inputs[0].resolvedVariables, {
+    'key1.signature.all_outputs': hexToBin(
+      '304402205e7d56c4e7854f9c672977d6606dd2f0af5494b8e61108e2a92fc920bf8049fc022065262675b0e1a3850d88bd3c56e0eb5fb463d9cdbe49f2f625da5c0f82c7653041'
+    ),
+  });
+
+  const received = decodePartiallySignedTransaction(
+    encodePartiallySignedTransaction(signer1.partiallySignedTransaction)
+  );
+  if (typeof received === 'string') {
+    t.fail(received);
+    return;
+  }
+  t.deepEqual(received, signer1.partiallySignedTransaction);
+
+  const signer3 = finalizePartiallySignedTransaction(received, {
+    0: {
+      compiler,
+      data: {
+        hdKeys: {
+          ...lockingData.hdKeys,
+          hdPrivateKeys: { signer_3: hdPrivateKey2H },
+        },
+      },
+      satoshis: sourceOutput.satoshis,
+      script: '1_and_3',
+    },
+  });
+  t.deepEqual(signer3.errors, []);
+  t.deepEqual(signer3.missingVariables, {});
+  t.deepEqual(signer3.partiallySignedTransaction.inputs[0], {
+    finalUnlockingBytecode:
+      signer3.partiallySignedTransaction.inputs[0].finalUnlockingBytecode,
+    hdKeyDerivations: [],
+    partialSignatures: [],
+    resolvedVariables: {},
+    sourceOutput,
+    unknown: [],
+  });
+
+  const transaction = extractTransactionFromPartiallySignedTransaction(
+    signer3.partiallySignedTransaction
+  );
+  if (typeof transaction === 'string') {
+    t.fail(transaction);
+    return;
+  }
+  t.deepEqual(
+    transaction,
+    decodeTransaction(
+      hexToBin(
+        '0200000001600a1b6b0563bbd5b9bef124ff634600df774559da6c51e34a6b97a178be233401000000fc0047304402205e7d56c4e7854f9c672977d6606dd2f0af5494b8e61108e2a92fc920bf8049fc022065262675b0e1a3850d88bd3c56e0eb5fb463d9cdbe49f2f625da5c0f82c765304147304402200d167d5ed77fa169346d295f6fb742e80ae391f0ae086d42b99152bdb23edf4102202c8b85c2583b07b66485b88cacdd14f680bd3aa3f3f12e9f63bc02b4d1cc6d15414c6952210349c17cce8a460f013fdcd286f90f7b0330101d0f3ab4ced44a5a3db764e465882102a438b1662aec9c35f85794600e1d2d3683a43cbb66307cf825fc4486b84695452103d9fffac162e9e15aecbe4f937b951815ccb4f940c850fff9ee52fa70805ae7de53ae000000000100000000000000000d6a0b68656c6c6f20776f726c6400000000'
+      )
+    )
+  );
+  const vm = await vmPromise;
+  t.true(verifyTransaction({ spentOutputs: [sourceOutput], transaction, vm }));
+});
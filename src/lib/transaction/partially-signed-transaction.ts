@@ -0,0 +1,1259 @@
+import {
+  bigIntToBitcoinVarInt,
+  binToHex,
+  binToNumberUint32LE,
+  binToUtf8,
+  flattenBinArray,
+  numberToBinUint32LE,
+  readBitcoinVarInt,
+  utf8ToBin,
+} from '../format/format';
+import { CompilationData, Compiler } from '../template/compiler-types';
+import { extractResolvedVariableBytecodeMap } from '../template/language/language-utils';
+
+import {
+  extractMissingVariables,
+  generateTransaction,
+} from './generate-transaction';
+import {
+  decodeTransaction,
+  encodeOutput,
+  encodeTransactionWithoutWitness,
+  encodeWitness,
+  isWitnessEncodedTransaction,
+  readTransactionOutput,
+  readTransactionWitness,
+} from './transaction-serialization';
+import {
+  BytecodeGenerationErrorUnlocking,
+  CompilationDirectiveUnlocking,
+  Output,
+  Transaction,
+  TransactionContextCommon,
+  TransactionGenerationAttempt,
+} from './transaction-types';
+
+export enum PartiallySignedTransactionError {
+  invalidMagic = 'Partially-signed transaction error: the encoded transaction does not begin with the expected magic bytes ("psbt" followed by "0xff").',
+  invalidFormat = 'Partially-signed transaction error: the encoded transaction does not follow the expected key-value map format.',
+  duplicateKey = 'Partially-signed transaction error: a key-value map includes a duplicate key.',
+  invalidField = 'Partially-signed transaction error: a field has an invalid key or value.',
+  missingUnsignedTransaction = 'Partially-signed transaction error: the global map does not include an unsigned transaction.',
+  invalidUnsignedTransaction = 'Partially-signed transaction error: the unsigned transaction is invalid – it must use the non-witness serialization format, and all unlocking bytecode must be empty.',
+  unsupportedVersion = 'Partially-signed transaction error: only version 0 partially-signed transactions are supported.',
+  mismatchedTransactions = 'Partially-signed transaction error: the partially-signed transactions to combine do not share the same unsigned transaction.',
+  incompleteInputs = 'Partially-signed transaction error: not all inputs have been finalized.',
+}
+
+/**
+ * A key-value pair which is not recognized (or not decoded) by this library.
+ * Unknown pairs are preserved by all operations so that they can be passed on
+ * to other software.
+ */
+export interface PartiallySignedTransactionKeyValue {
+  /**
+   * The full key, beginning with the key type.
+   */
+  key: Uint8Array;
+  value: Uint8Array;
+}
+
+/**
+ * The HD derivation information of a public key, used by signers to identify
+ * the keys for which they are responsible.
+ */
+export interface PartiallySignedTransactionDerivation {
+  /**
+   * The 4-byte fingerprint of the master key from which `publicKey` was
+   * derived.
+   */
+  fingerprint: Uint8Array;
+  /**
+   * The derivation path of `publicKey`, where each element is a child index
+   * (hardened indexes are greater than or equal to `0x80000000`).
+   */
+  path: number[];
+  /**
+   * The derived (compressed or uncompressed) public key.
+   */
+  publicKey: Uint8Array;
+}
+
+/**
+ * An HD public key (A.K.A. "extended public key" or `xpub`) included in the
+ * global map, along with its derivation information.
+ */
+export interface PartiallySignedTransactionHdPublicKey {
+  /**
+   * The 78-byte serialized HD public key (the payload of an encoded HD public
+   * key, see `encodeHdPublicKey`).
+   */
+  extendedPublicKey: Uint8Array;
+  /**
+   * The 4-byte fingerprint of the master key from which this key was derived.
+   */
+  fingerprint: Uint8Array;
+  /**
+   * The derivation path of this key from the master key.
+   */
+  path: number[];
+}
+
+/**
+ * The information known about a single transaction input. See BIP174 for
+ * details about each standard field.
+ */
+export interface PartiallySignedTransactionInput {
+  /**
+   * The full, encoded transaction from which the spent output originates.
+   *
+   * A.K.A. `PSBT_IN_NON_WITNESS_UTXO`
+   */
+  sourceTransaction?: Uint8Array;
+  /**
+   * The output spent by this input, if the output is a witness program.
+   *
+   * A.K.A. `PSBT_IN_WITNESS_UTXO`
+   */
+  witnessSourceOutput?: Output;
+  /**
+   * The output spent by this input. This is a BCH-specific field: all BCH
+   * signing serializations commit to the value of the spent output, so signers
+   * require the value (and locking bytecode) of every spent output without
+   * using the witness-specific `witnessSourceOutput`.
+   *
+   * This field is encoded as a proprietary field (`0xfc`) with the
+   * identifier `BCH` and subtype `0x00`.
+   */
+  sourceOutput?: Output;
+  /**
+   * Signatures which have been created by signers for this input.
+   *
+   * A.K.A. `PSBT_IN_PARTIAL_SIG`
+   */
+  partialSignatures: { publicKey: Uint8Array; signature: Uint8Array }[];
+  /**
+   * The signing serialization type (A.K.A. `SIGHASH` type) which signers should
+   * use for this input.
+   *
+   * A.K.A. `PSBT_IN_SIGHASH_TYPE`
+   */
+  signingSerializationType?: number;
+  /**
+   * The redeem bytecode (A.K.A. "redeem script") of this input, if it spends a
+   * P2SH output.
+   *
+   * A.K.A. `PSBT_IN_REDEEM_SCRIPT`
+   */
+  redeemBytecode?: Uint8Array;
+  /**
+   * The witness script of this input, if it spends a P2WSH output.
+   *
+   * A.K.A. `PSBT_IN_WITNESS_SCRIPT`
+   */
+  witnessBytecode?: Uint8Array;
+  /**
+   * The derivation information of public keys which are relevant to this
+   * input.
+   *
+   * A.K.A. `PSBT_IN_BIP32_DERIVATION`
+   */
+  hdKeyDerivations: PartiallySignedTransactionDerivation[];
+  /**
+   * The final unlocking bytecode of this input. Once set, this input is
+   * complete.
+   *
+   * A.K.A. `PSBT_IN_FINAL_SCRIPTSIG`
+   */
+  finalUnlockingBytecode?: Uint8Array;
+  /**
+   * The final witness stack of this input. Once set, this input is complete.
+   *
+   * A.K.A. `PSBT_IN_FINAL_SCRIPTWITNESS`
+   */
+  finalWitness?: Uint8Array[];
+  /**
+   * A map of full identifiers to the bytecode to which they were resolved by
+   * signers, e.g. `key1.signature.all_outputs`. These resolutions are used to
+   * complete the compilation of this input's unlocking bytecode. (See
+   * `finalizePartiallySignedTransaction`.)
+   *
+   * This is a BCH-specific field encoded as a proprietary field (`0xfc`) with
+   * the identifier `BCH` and subtype `0x01`, where the key data is the
+   * UTF8-encoded full identifier.
+   */
+  resolvedVariables: { [fullIdentifier: string]: Uint8Array };
+  /**
+   * Any key-value pairs which were not recognized.
+   */
+  unknown: PartiallySignedTransactionKeyValue[];
+}
+
+/**
+ * The information known about a single transaction output. See BIP174 for
+ * details about each standard field.
+ */
+export interface PartiallySignedTransactionOutput {
+  /**
+   * The redeem bytecode of this output, if it is a P2SH output.
+   *
+   * A.K.A. `PSBT_OUT_REDEEM_SCRIPT`
+   */
+  redeemBytecode?: Uint8Array;
+  /**
+   * The witness script of this output, if it is a P2WSH output.
+   *
+   * A.K.A. `PSBT_OUT_WITNESS_SCRIPT`
+   */
+  witnessBytecode?: Uint8Array;
+  /**
+   * The derivation information of public keys which are relevant to this
+   * output (e.g. to allow signers to verify change outputs).
+   *
+   * A.K.A. `PSBT_OUT_BIP32_DERIVATION`
+   */
+  hdKeyDerivations: PartiallySignedTransactionDerivation[];
+  /**
+   * Any key-value pairs which were not recognized.
+   */
+  unknown: PartiallySignedTransactionKeyValue[];
+}
+
+/**
+ * A partially-signed transaction (A.K.A. "PST" or "PSBT") as specified by
+ * BIP174: an interchange format which allows an unsigned transaction to be
+ * passed between the entities required to complete it, along with the
+ * information they require (and have contributed so far).
+ *
+ * In addition to the standard BIP174 fields, this library supports several
+ * BCH-specific fields encoded as proprietary fields, allowing the entities of
+ * an authentication template to exchange the variables required to compile
+ * each input (see `finalizePartiallySignedTransaction`).
+ */
+export interface PartiallySignedTransaction {
+  /**
+   * The HD public keys relevant to this transaction.
+   *
+   * A.K.A. `PSBT_GLOBAL_XPUB`
+   */
+  hdPublicKeys: PartiallySignedTransactionHdPublicKey[];
+  /**
+   * The information known about each input, in the same order as the inputs
+   * of `transaction`.
+   */
+  inputs: PartiallySignedTransactionInput[];
+  /**
+   * The information known about each output, in the same order as the outputs
+   * of `transaction`.
+   */
+  outputs: PartiallySignedTransactionOutput[];
+  /**
+   * The unsigned transaction – the unlocking bytecode (and witness) of each
+   * input must be empty.
+   *
+   * A.K.A. `PSBT_GLOBAL_UNSIGNED_TX`
+   */
+  transaction: Transaction;
+  /**
+   * Any key-value pairs in the global map which were not recognized.
+   */
+  unknown: PartiallySignedTransactionKeyValue[];
+}
+
+const enum Internal {
+  mapSeparator = 0x00,
+  fingerprintLength = 4,
+  pathElementLength = 4,
+  supportedVersion = 0,
+  versionLength = 4,
+  extendedPublicKeyLength = 78,
+}
+
+const enum GlobalType {
+  unsignedTransaction = 0x00,
+  hdPublicKey = 0x01,
+  version = 0xfb,
+}
+
+const enum InputType {
+  sourceTransaction = 0x00,
+  witnessSourceOutput = 0x01,
+  partialSignature = 0x02,
+  signingSerializationType = 0x03,
+  redeemBytecode = 0x04,
+  witnessBytecode = 0x05,
+  hdKeyDerivation = 0x06,
+  finalUnlockingBytecode = 0x07,
+  finalWitness = 0x08,
+}
+
+const enum OutputType {
+  redeemBytecode = 0x00,
+  witnessBytecode = 0x01,
+  hdKeyDerivation = 0x02,
+}
+
+const enum ProprietaryType {
+  proprietary = 0xfc,
+  bchSourceOutput = 0x00,
+  bchResolvedVariable = 0x01,
+}
+
+/**
+ * The magic bytes with which all partially-signed transactions begin: `psbt`
+ * followed by `0xff`.
+ */
+const magicBytes = [0x70, 0x73, 0x62, 0x74, 0xff];
+
+/**
+ * The prefix of BCH-specific proprietary keys: the proprietary key type, the
+ * length of the identifier, and the identifier (`BCH`).
+ */
+const bchProprietaryPrefix = [
+  ProprietaryType.proprietary,
+  0x03,
+  0x42,
+  0x43,
+  0x48,
+];
+
+const encodeKey = (type: number, keyData: Uint8Array | number[] = []) =>
+  Uint8Array.from([type, ...keyData]);
+
+const encodeBchKey = (subtype: number, keyData: Uint8Array | number[] = []) =>
+  Uint8Array.from([...bchProprietaryPrefix, subtype, ...keyData]);
+
+const encodeKeyValue = ({ key, value }: PartiallySignedTransactionKeyValue) =>
+  flattenBinArray([
+    bigIntToBitcoinVarInt(BigInt(key.length)),
+    key,
+    bigIntToBitcoinVarInt(BigInt(value.length)),
+    value,
+  ]);
+
+/**
+ * Encode a key-value map, sorting pairs by key so that the encoding of a
+ * partially-signed transaction is deterministic.
+ */
+const encodeMap = (pairs: PartiallySignedTransactionKeyValue[]) =>
+  flattenBinArray([
+    ...pairs
+      .map((pair) => ({
+        encoded: encodeKeyValue(pair),
+        hex: binToHex(pair.key),
+      }))
+      .sort((a, b) => (a.hex < b.hex ? -1 : a.hex > b.hex ? 1 : 0))
+      .map((pair) => pair.encoded),
+    Uint8Array.of(Internal.mapSeparator),
+  ]);
+
+const encodeDerivationPath = (fingerprint: Uint8Array, path: number[]) =>
+  flattenBinArray([fingerprint, ...path.map(numberToBinUint32LE)]);
+
+const encodeDerivations = (
+  type: number,
+  derivations: PartiallySignedTransactionDerivation[]
+) =>
+  derivations.map((derivation) => ({
+    key: encodeKey(type, derivation.publicKey),
+    value: encodeDerivationPath(derivation.fingerprint, derivation.path),
+  }));
+
+const optionalPair = (key: Uint8Array, value: Uint8Array | undefined) =>
+  value === undefined ? [] : [{ key, value }];
+
+const encodeGlobalMap = (
+  partiallySignedTransaction: PartiallySignedTransaction
+): PartiallySignedTransactionKeyValue[] => [
+  {
+    key: encodeKey(GlobalType.unsignedTransaction),
+    value: encodeTransactionWithoutWitness(
+      partiallySignedTransaction.transaction
+    ),
+  },
+  ...partiallySignedTransaction.hdPublicKeys.map((hdPublicKey) => ({
+    key: encodeKey(GlobalType.hdPublicKey, hdPublicKey.extendedPublicKey),
+    value: encodeDerivationPath(hdPublicKey.fingerprint, hdPublicKey.path),
+  })),
+  ...partiallySignedTransaction.unknown,
+];
+
+const encodeInputMap = (
+  input: PartiallySignedTransactionInput
+): PartiallySignedTransactionKeyValue[] => [
+  ...optionalPair(
+    encodeKey(InputType.sourceTransaction),
+    input.sourceTransaction
+  ),
+  ...optionalPair(
+    encodeKey(InputType.witnessSourceOutput),
+    input.witnessSourceOutput === undefined
+      ? undefined
+      : encodeOutput(input.witnessSourceOutput)
+  ),
+  ...input.partialSignatures.map(({ publicKey, signature }) => ({
+    key: encodeKey(InputType.partialSignature, publicKey),
+    value: signature,
+  })),
+  ...optionalPair(
+    encodeKey(InputType.signingSerializationType),
+    input.signingSerializationType === undefined
+      ? undefined
+      : numberToBinUint32LE(input.signingSerializationType)
+  ),
+  ...optionalPair(encodeKey(InputType.redeemBytecode), input.redeemBytecode),
+  ...optionalPair(encodeKey(InputType.witnessBytecode), input.witnessBytecode),
+  ...encodeDerivations(InputType.hdKeyDerivation, input.hdKeyDerivations),
+  ...optionalPair(
+    encodeKey(InputType.finalUnlockingBytecode),
+    input.finalUnlockingBytecode
+  ),
+  ...optionalPair(
+    encodeKey(InputType.finalWitness),
+    input.finalWitness === undefined
+      ? undefined
+      : encodeWitness(input.finalWitness)
+  ),
+  ...optionalPair(
+    encodeBchKey(ProprietaryType.bchSourceOutput),
+    input.sourceOutput === undefined
+      ? undefined
+      : encodeOutput(input.sourceOutput)
+  ),
+  ...Object.entries(input.resolvedVariables).map(([identifier, bytecode]) => ({
+    key: encodeBchKey(
+      ProprietaryType.bchResolvedVariable,
+      utf8ToBin(identifier)
+    ),
+    value: bytecode,
+  })),
+  ...input.unknown,
+];
+
+const encodeOutputMap = (
+  output: PartiallySignedTransactionOutput
+): PartiallySignedTransactionKeyValue[] => [
+  ...optionalPair(encodeKey(OutputType.redeemBytecode), output.redeemBytecode),
+  ...optionalPair(
+    encodeKey(OutputType.witnessBytecode),
+    output.witnessBytecode
+  ),
+  ...encodeDerivations(OutputType.hdKeyDerivation, output.hdKeyDerivations),
+  ...output.unknown,
+];
+
+/**
+ * Encode a partially-signed transaction using the BIP174 format. (To encode
+ * the result in base64 – the format used by most software – use
+ * `binToBase64`.)
+ *
+ * @param partiallySignedTransaction - the partially-signed transaction to
+ * encode
+ */
+export const encodePartiallySignedTransaction = (
+  partiallySignedTransaction: PartiallySignedTransaction
+) =>
+  flattenBinArray([
+    Uint8Array.from(magicBytes),
+    encodeMap(encodeGlobalMap(partiallySignedTransaction)),
+    ...partiallySignedTransaction.inputs.map((input) =>
+      encodeMap(encodeInputMap(input))
+    ),
+    ...partiallySignedTransaction.outputs.map((output) =>
+      encodeMap(encodeOutputMap(output))
+    ),
+  ]);
+
+/**
+ * Read a length-prefixed item, returning `undefined` if `bin` ends before the
+ * item is complete.
+ */
+const readLengthPrefixed = (bin: Uint8Array, offset: number) => {
+  if (offset >= bin.length) {
+    return undefined;
+  }
+  const { nextOffset: offsetAfterLength, value } = readBitcoinVarInt(
+    bin,
+    offset
+  );
+  const nextOffset = offsetAfterLength + Number(value);
+  return nextOffset > bin.length
+    ? undefined
+    : { item: bin.slice(offsetAfterLength, nextOffset), nextOffset };
+};
+
+/**
+ * Read a key-value map (terminated by a `0x00` separator) from an encoded
+ * partially-signed transaction.
+ */
+const readMap = (
+  bin: Uint8Array,
+  offset: number
+):
+  | PartiallySignedTransactionError
+  | { nextOffset: number; pairs: PartiallySignedTransactionKeyValue[] } => {
+  const pairs: PartiallySignedTransactionKeyValue[] = [];
+  // eslint-disable-next-line functional/no-let
+  let cursor = offset;
+  // eslint-disable-next-line functional/no-loop-statement
+  while (cursor < bin.length && bin[cursor] !== Internal.mapSeparator) {
+    const key = readLengthPrefixed(bin, cursor);
+    const value =
+      key === undefined ? undefined : readLengthPrefixed(bin, key.nextOffset);
+    if (key === undefined || value === undefined) {
+      return PartiallySignedTransactionError.invalidFormat;
+    }
+    // eslint-disable-next-line functional/no-expression-statement, functional/immutable-data
+    pairs.push({ key: key.item, value: value.item });
+    // eslint-disable-next-line functional/no-expression-statement
+    cursor = value.nextOffset;
+  }
+  if (cursor >= bin.length) {
+    return PartiallySignedTransactionError.invalidFormat;
+  }
+  const keys = pairs.map((pair) => binToHex(pair.key));
+  if (new Set(keys).size !== keys.length) {
+    return PartiallySignedTransactionError.duplicateKey;
+  }
+  return { nextOffset: cursor + 1, pairs };
+};
+
+const decodeDerivationPath = (value: Uint8Array) =>
+  value.length < Internal.fingerprintLength ||
+  value.length % Internal.pathElementLength !== 0
+    ? undefined
+    : {
+        fingerprint: value.slice(0, Internal.fingerprintLength),
+        path: new Array(
+          (value.length - Internal.fingerprintLength) /
+            Internal.pathElementLength
+        )
+          .fill(0)
+          .map((_, index) => {
+            const start =
+              Internal.fingerprintLength + index * Internal.pathElementLength;
+            return binToNumberUint32LE(
+              value.subarray(start, start + Internal.pathElementLength)
+            );
+          }),
+      };
+
+/**
+ * Decode an encoded output, returning `undefined` if `value` is not exactly
+ * one output.
+ */
+const decodeOutput = (value: Uint8Array) => {
+  if (value.length === 0) {
+    return undefined;
+  }
+  const { nextOffset, output } = readTransactionOutput(value, 0);
+  return nextOffset === value.length ? output : undefined;
+};
+
+const decodeWitness = (value: Uint8Array) => {
+  if (value.length === 0) {
+    return undefined;
+  }
+  const { nextOffset, witness } = readTransactionWitness(value, 0);
+  return nextOffset === value.length ? witness : undefined;
+};
+
+const hasBchPrefix = (key: Uint8Array) =>
+  key.length > bchProprietaryPrefix.length &&
+  bchProprietaryPrefix.every((byte, index) => key[index] === byte);
+
+/**
+ * Decode a single key-value pair of an input map, returning the updated input
+ * or an error.
+ */
+// eslint-disable-next-line complexity
+const decodeInputPair = (
+  input: PartiallySignedTransactionInput,
+  pair: PartiallySignedTransactionKeyValue
+): PartiallySignedTransactionInput | PartiallySignedTransactionError => {
+  const { key, value } = pair;
+  const keyData = key.slice(1);
+  const invalid = PartiallySignedTransactionError.invalidField;
+  if (hasBchPrefix(key)) {
+    const subtype = key[bchProprietaryPrefix.length];
+    const proprietaryKeyData = key.slice(bchProprietaryPrefix.length + 1);
+    switch (subtype) {
+      case ProprietaryType.bchSourceOutput: {
+        const sourceOutput = decodeOutput(value);
+        return proprietaryKeyData.length !== 0 || sourceOutput === undefined
+          ? invalid
+          : { ...input, sourceOutput };
+      }
+      case ProprietaryType.bchResolvedVariable:
+        return proprietaryKeyData.length === 0
+          ? invalid
+          : {
+              ...input,
+              resolvedVariables: {
+                ...input.resolvedVariables,
+                [binToUtf8(proprietaryKeyData)]: value,
+              },
+            };
+      default:
+        return { ...input, unknown: [...input.unknown, pair] };
+    }
+  }
+  switch (key[0]) {
+    case InputType.sourceTransaction:
+      return keyData.length !== 0 ||
+        typeof decodeTransaction(value) === 'string'
+        ? invalid
+        : { ...input, sourceTransaction: value };
+    case InputType.witnessSourceOutput: {
+      const witnessSourceOutput = decodeOutput(value);
+      return keyData.length !== 0 || witnessSourceOutput === undefined
+        ? invalid
+        : { ...input, witnessSourceOutput };
+    }
+    case InputType.partialSignature:
+      return keyData.length === 0
+        ? invalid
+        : {
+            ...input,
+            partialSignatures: [
+              ...input.partialSignatures,
+              { publicKey: keyData, signature: value },
+            ],
+          };
+    case InputType.signingSerializationType:
+      return keyData.length !== 0 || value.length !== Internal.versionLength
+        ? invalid
+        : { ...input, signingSerializationType: binToNumberUint32LE(value) };
+    case InputType.redeemBytecode:
+      return keyData.length === 0
+        ? { ...input, redeemBytecode: value }
+        : invalid;
+    case InputType.witnessBytecode:
+      return keyData.length === 0
+        ? { ...input, witnessBytecode: value }
+        : invalid;
+    case InputType.hdKeyDerivation: {
+      const derivation = decodeDerivationPath(value);
+      return keyData.length === 0 || derivation === undefined
+        ? invalid
+        : {
+            ...input,
+            hdKeyDerivations: [
+              ...input.hdKeyDerivations,
+              { ...derivation, publicKey: keyData },
+            ],
+          };
+    }
+    case InputType.finalUnlockingBytecode:
+      return keyData.length === 0
+        ? { ...input, finalUnlockingBytecode: value }
+        : invalid;
+    case InputType.finalWitness: {
+      const finalWitness = decodeWitness(value);
+      return keyData.length !== 0 || finalWitness === undefined
+        ? invalid
+        : { ...input, finalWitness };
+    }
+    default:
+      return { ...input, unknown: [...input.unknown, pair] };
+  }
+};
+
+const decodeOutputPair = (
+  output: PartiallySignedTransactionOutput,
+  pair: PartiallySignedTransactionKeyValue
+): PartiallySignedTransactionOutput | PartiallySignedTransactionError => {
+  const { key, value } = pair;
+  const keyData = key.slice(1);
+  const invalid = PartiallySignedTransactionError.invalidField;
+  switch (key[0]) {
+    case OutputType.redeemBytecode:
+      return keyData.length === 0
+        ? { ...output, redeemBytecode: value }
+        : invalid;
+    case OutputType.witnessBytecode:
+      return keyData.length === 0
+        ? { ...output, witnessBytecode: value }
+        : invalid;
+    case OutputType.hdKeyDerivation: {
+      const derivation = decodeDerivationPath(value);
+      return keyData.length === 0 || derivation === undefined
+        ? invalid
+        : {
+            ...output,
+            hdKeyDerivations: [
+              ...output.hdKeyDerivations,
+              { ...derivation, publicKey: keyData },
+            ],
+          };
+    }
+    default:
+      return { ...output, unknown: [...output.unknown, pair] };
+  }
+};
+
+const emptyInput = (): PartiallySignedTransactionInput => ({
+  hdKeyDerivations: [],
+  partialSignatures: [],
+  resolvedVariables: {},
+  unknown: [],
+});
+
+const emptyOutput = (): PartiallySignedTransactionOutput => ({
+  hdKeyDerivations: [],
+  unknown: [],
+});
+
+const decodeInputMap = (pairs: PartiallySignedTransactionKeyValue[]) =>
+  pairs.reduce<
+    PartiallySignedTransactionInput | PartiallySignedTransactionError
+  >(
+    (input, pair) =>
+      typeof input === 'string' ? input : decodeInputPair(input, pair),
+    emptyInput()
+  );
+
+const decodeOutputMap = (pairs: PartiallySignedTransactionKeyValue[]) =>
+  pairs.reduce<
+    PartiallySignedTransactionOutput | PartiallySignedTransactionError
+  >(
+    (output, pair) =>
+      typeof output === 'string' ? output : decodeOutputPair(output, pair),
+    emptyOutput()
+  );
+
+/**
+ * Decode the unsigned transaction of a global map, ensuring that it uses the
+ * non-witness serialization format and includes no unlocking bytecode.
+ */
+const decodeUnsignedTransaction = (value: Uint8Array) => {
+  const transaction = decodeTransaction(value);
+  return typeof transaction === 'string' ||
+    isWitnessEncodedTransaction(value) ||
+    encodeTransactionWithoutWitness(transaction).length !== value.length ||
+    transaction.inputs.some((input) => input.unlockingBytecode.length !== 0)
+    ? PartiallySignedTransactionError.invalidUnsignedTransaction
+    : transaction;
+};
+
+// eslint-disable-next-line complexity
+const decodeGlobalMap = (
+  pairs: PartiallySignedTransactionKeyValue[]
+):
+  | PartiallySignedTransactionError
+  | Omit<PartiallySignedTransaction, 'inputs' | 'outputs'> => {
+  const transactionPair = pairs.find(
+    (pair) =>
+      pair.key.length === 1 && pair.key[0] === GlobalType.unsignedTransaction
+  );
+  if (transactionPair === undefined) {
+    return PartiallySignedTransactionError.missingUnsignedTransaction;
+  }
+  const transaction = decodeUnsignedTransaction(transactionPair.value);
+  if (typeof transaction === 'string') {
+    return transaction;
+  }
+  return pairs.reduce<
+    | PartiallySignedTransactionError
+    | Omit<PartiallySignedTransaction, 'inputs' | 'outputs'>
+  >(
+    (global, pair) => {
+      if (typeof global === 'string' || pair === transactionPair) {
+        return global;
+      }
+      const keyData = pair.key.slice(1);
+      switch (pair.key[0]) {
+        case GlobalType.unsignedTransaction:
+          return PartiallySignedTransactionError.invalidField;
+        case GlobalType.hdPublicKey: {
+          const derivation = decodeDerivationPath(pair.value);
+          return keyData.length !== Internal.extendedPublicKeyLength ||
+            derivation === undefined
+            ? PartiallySignedTransactionError.invalidField
+            : {
+                ...global,
+                hdPublicKeys: [
+                  ...global.hdPublicKeys,
+                  { ...derivation, extendedPublicKey: keyData },
+                ],
+              };
+        }
+        case GlobalType.version:
+          return keyData.length !== 0 ||
+            pair.value.length !== Internal.versionLength
+            ? PartiallySignedTransactionError.invalidField
+            : binToNumberUint32LE(pair.value) === Internal.supportedVersion
+            ? global
+            : PartiallySignedTransactionError.unsupportedVersion;
+        default:
+          return { ...global, unknown: [...global.unknown, pair] };
+      }
+    },
+    { hdPublicKeys: [], transaction, unknown: [] }
+  );
+};
+
+/**
+ * Decode a partially-signed transaction encoded using the BIP174 format. (To
+ * decode from the base64 format used by most software, first use
+ * `base64ToBin`.)
+ *
+ * If the encoded partially-signed transaction is invalid, an error message is
+ * returned as a string.
+ *
+ * @param bin - the encoded partially-signed transaction
+ */
+// eslint-disable-next-line complexity
+export const decodePartiallySignedTransaction = (
+  bin: Uint8Array
+): PartiallySignedTransaction | PartiallySignedTransactionError => {
+  if (!magicBytes.every((byte, index) => bin[index] === byte)) {
+    return PartiallySignedTransactionError.invalidMagic;
+  }
+  const globalMap = readMap(bin, magicBytes.length);
+  if (typeof globalMap === 'string') {
+    return globalMap;
+  }
+  const global = decodeGlobalMap(globalMap.pairs);
+  if (typeof global === 'string') {
+    return global;
+  }
+  const mapCount =
+    global.transaction.inputs.length + global.transaction.outputs.length;
+  const maps: PartiallySignedTransactionKeyValue[][] = [];
+  // eslint-disable-next-line functional/no-let
+  let cursor = globalMap.nextOffset;
+  // eslint-disable-next-line functional/no-let, functional/no-loop-statement, no-plusplus
+  for (let i = 0; i < mapCount; i++) {
+    const map = readMap(bin, cursor);
+    if (typeof map === 'string') {
+      return map;
+    }
+    // eslint-disable-next-line functional/no-expression-statement, functional/immutable-data
+    maps.push(map.pairs);
+    // eslint-disable-next-line functional/no-expression-statement
+    cursor = map.nextOffset;
+  }
+  if (cursor !== bin.length) {
+    return PartiallySignedTransactionError.invalidFormat;
+  }
+  const inputs = maps
+    .slice(0, global.transaction.inputs.length)
+    .map(decodeInputMap);
+  const outputs = maps
+    .slice(global.transaction.inputs.length)
+    .map(decodeOutputMap);
+  const inputError = inputs.find(
+    (input): input is PartiallySignedTransactionError =>
+      typeof input === 'string'
+  );
+  const outputError = outputs.find(
+    (output): output is PartiallySignedTransactionError =>
+      typeof output === 'string'
+  );
+  if (inputError !== undefined) {
+    return inputError;
+  }
+  if (outputError !== undefined) {
+    return outputError;
+  }
+  return {
+    ...global,
+    inputs: inputs as PartiallySignedTransactionInput[],
+    outputs: outputs as PartiallySignedTransactionOutput[],
+  };
+};
+
+/**
+ * Create a new partially-signed transaction from a transaction. The unlocking
+ * bytecode and witness of each input are removed, and no other information is
+ * included. (A.K.A. the BIP174 "Creator" role.)
+ *
+ * @param transaction - the transaction from which to create the
+ * partially-signed transaction
+ */
+export const createPartiallySignedTransaction = (
+  transaction: Transaction
+): PartiallySignedTransaction => ({
+  hdPublicKeys: [],
+  inputs: transaction.inputs.map(emptyInput),
+  outputs: transaction.outputs.map(emptyOutput),
+  transaction: {
+    ...transaction,
+    inputs: transaction.inputs.map((input) => ({
+      outpointIndex: input.outpointIndex,
+      outpointTransactionHash: input.outpointTransactionHash.slice(),
+      sequenceNumber: input.sequenceNumber,
+      unlockingBytecode: Uint8Array.of(),
+    })),
+  },
+  unknown: [],
+});
+
+/**
+ * Merge lists of key-value pairs, keeping only the first pair for each key.
+ */
+const mergePairs = (lists: PartiallySignedTransactionKeyValue[][]) =>
+  lists
+    .reduce((all, list) => [...all, ...list], [])
+    .filter(
+      (pair, index, all) =>
+        all.findIndex((other) => binToHex(other.key) === binToHex(pair.key)) ===
+        index
+    );
+
+/**
+ * Combine multiple partially-signed transactions for the same unsigned
+ * transaction, merging all of the information in each. (A.K.A. the BIP174
+ * "Combiner" role.)
+ *
+ * If the same key is present in multiple partially-signed transactions, the
+ * value from the earliest partially-signed transaction in
+ * `partiallySignedTransactions` is used.
+ *
+ * If the partially-signed transactions do not share the same unsigned
+ * transaction, an error message is returned as a string.
+ *
+ * @param partiallySignedTransactions - the partially-signed transactions to
+ * combine
+ */
+export const combinePartiallySignedTransactions = (
+  partiallySignedTransactions: readonly [
+    PartiallySignedTransaction,
+    ...PartiallySignedTransaction[]
+  ]
+) => {
+  const [first] = partiallySignedTransactions;
+  const expected = binToHex(encodeTransactionWithoutWitness(first.transaction));
+  if (
+    partiallySignedTransactions.some(
+      (pst) =>
+        binToHex(encodeTransactionWithoutWitness(pst.transaction)) !== expected
+    )
+  ) {
+    return PartiallySignedTransactionError.mismatchedTransactions;
+  }
+  /**
+   * Maps are merged in their encoded form, so decoding cannot fail: each
+   * merged map contains only valid pairs with unique keys.
+   */
+  return {
+    hdPublicKeys: mergePairs(
+      partiallySignedTransactions.map((pst) =>
+        encodeGlobalMap({ ...pst, unknown: [] }).slice(1)
+      )
+    ).map((pair) => ({
+      ...(decodeDerivationPath(pair.value) as {
+        fingerprint: Uint8Array;
+        path: number[];
+      }),
+      extendedPublicKey: pair.key.slice(1),
+    })),
+    inputs: first.inputs.map(
+      (_, index) =>
+        decodeInputMap(
+          mergePairs(
+            partiallySignedTransactions.map((pst) =>
+              encodeInputMap(pst.inputs[index])
+            )
+          )
+        ) as PartiallySignedTransactionInput
+    ),
+    outputs: first.outputs.map(
+      (_, index) =>
+        decodeOutputMap(
+          mergePairs(
+            partiallySignedTransactions.map((pst) =>
+              encodeOutputMap(pst.outputs[index])
+            )
+          )
+        ) as PartiallySignedTransactionOutput
+    ),
+    transaction: first.transaction,
+    unknown: mergePairs(partiallySignedTransactions.map((pst) => pst.unknown)),
+  };
+};
+
+/**
+ * The result of `finalizePartiallySignedTransaction`.
+ */
+export interface PartiallySignedTransactionFinalization {
+  /**
+   * The compilation errors of each input which could not yet be finalized
+   * (or an empty array if all provided directives were successfully compiled).
+   */
+  errors: BytecodeGenerationErrorUnlocking[];
+  /**
+   * A map of the full identifiers which must still be provided to finalize
+   * the remaining inputs, mapped to the ID of the entity which owns each
+   * variable (see `extractMissingVariables`). This indicates which entities
+   * must still process the partially-signed transaction (and which variables
+   * each entity must supply).
+   *
+   * If `false`, at least one error cannot be resolved by providing a variable.
+   */
+  missingVariables: ReturnType<typeof extractMissingVariables>;
+  /**
+   * The updated partially-signed transaction, including the final unlocking
+   * bytecode of each successfully compiled input, and the variables resolved
+   * while attempting to compile the remaining inputs.
+   */
+  partiallySignedTransaction: PartiallySignedTransaction;
+}
+
+/**
+ * Generate a transaction template for the unsigned transaction of a
+ * partially-signed transaction, where each not-yet-finalized input uses the
+ * provided compilation directive (if any).
+ */
+const partiallySignedTransactionToTemplate = <
+  CompilerType extends Compiler<TransactionContextCommon, unknown, unknown>
+>(
+  partiallySignedTransaction: PartiallySignedTransaction,
+  directives: {
+    [inputIndex: number]:
+      | CompilationDirectiveUnlocking<CompilerType, CompilationData<never>>
+      | undefined;
+  }
+) => ({
+  ...partiallySignedTransaction.transaction,
+  inputs: partiallySignedTransaction.transaction.inputs.map((input, index) => ({
+    outpointIndex: input.outpointIndex,
+    outpointTransactionHash: input.outpointTransactionHash,
+    sequenceNumber: input.sequenceNumber,
+    unlockingBytecode:
+      partiallySignedTransaction.inputs[index].finalUnlockingBytecode ??
+      directives[index] ??
+      Uint8Array.of(),
+  })),
+});
+
+/**
+ * Update a partially-signed transaction with the results of a transaction
+ * generation attempt: successfully compiled inputs are finalized, and the
+ * variables resolved while compiling the remaining inputs are saved.
+ */
+const applyGenerationAttempt = (
+  partiallySignedTransaction: PartiallySignedTransaction,
+  attempt: TransactionGenerationAttempt,
+  compiledIndexes: number[]
+): PartiallySignedTransaction => {
+  const finalized = attempt.success
+    ? attempt.transaction.inputs.map((input, index) => ({
+        index,
+        unlockingBytecode: input.unlockingBytecode,
+      }))
+    : attempt.stage === 'inputs'
+    ? attempt.completions.map((completion) => ({
+        index: completion.index,
+        unlockingBytecode: completion.input.unlockingBytecode,
+      }))
+    : [];
+  const errors =
+    attempt.success || attempt.stage === 'outputs' ? [] : attempt.errors;
+  return {
+    ...partiallySignedTransaction,
+    inputs: partiallySignedTransaction.inputs.map((input, index) => {
+      if (!compiledIndexes.includes(index)) {
+        return input;
+      }
+      const completion = finalized.find((item) => item.index === index);
+      if (completion !== undefined) {
+        /**
+         * Per BIP174, all information other than the spent output and unknown
+         * pairs is removed from finalized inputs.
+         */
+        return {
+          ...emptyInput(),
+          finalUnlockingBytecode: completion.unlockingBytecode,
+          ...(input.sourceOutput === undefined
+            ? {}
+            : { sourceOutput: input.sourceOutput }),
+          ...(input.sourceTransaction === undefined
+            ? {}
+            : { sourceTransaction: input.sourceTransaction }),
+          unknown: input.unknown,
+          ...(input.witnessSourceOutput === undefined
+            ? {}
+            : { witnessSourceOutput: input.witnessSourceOutput }),
+        };
+      }
+      const error = errors.find((item) => item.index === index);
+      return error?.resolved === undefined
+        ? input
+        : {
+            ...input,
+            resolvedVariables: {
+              ...input.resolvedVariables,
+              ...extractResolvedVariableBytecodeMap(error.resolved),
+            },
+          };
+    }),
+  };
+};
+
+/**
+ * Attempt to compile the unlocking bytecode of inputs in a partially-signed
+ * transaction using the provided compilation directives, finalizing each input
+ * which can be successfully compiled. (A.K.A. the BIP174 "Signer" and "Input
+ * Finalizer" roles.)
+ *
+ * Compilation is first attempted using only the trusted `CompilationData` of
+ * each directive. For inputs which cannot yet be compiled, the variables which
+ * were resolved (e.g. this entity's signatures) are saved to the
+ * `resolvedVariables` of the input for use by other entities. Then, any missing
+ * variables (see `extractMissingVariables`) which have been provided by other
+ * entities in the `resolvedVariables` of each input are added to the
+ * compilation data, and compilation is attempted again. (Trusted compilation
+ * data is never overwritten by the `resolvedVariables` of an input.)
+ *
+ * The result includes the updated partially-signed transaction, any remaining
+ * compilation errors, and a map of the variables which must still be provided
+ * (and the entity from which each is expected). Once all inputs are finalized,
+ * the completed transaction can be extracted with
+ * `extractTransactionFromPartiallySignedTransaction`.
+ *
+ * Note, this method does not verify the resulting unlocking bytecode. Before
+ * broadcasting the completed transaction, it should be verified with
+ * `verifyTransaction`.
+ *
+ * @param partiallySignedTransaction - the partially-signed transaction to
+ * finalize
+ * @param directives - an object mapping input indexes to the compilation
+ * directive with which each input should be compiled – inputs without a
+ * directive (or which have already been finalized) are not modified
+ */
+export const finalizePartiallySignedTransaction = <
+  CompilerType extends Compiler<TransactionContextCommon, unknown, unknown>
+>(
+  partiallySignedTransaction: PartiallySignedTransaction,
+  directives: {
+    [inputIndex: number]:
+      | CompilationDirectiveUnlocking<CompilerType, CompilationData<never>>
+      | undefined;
+  }
+): PartiallySignedTransactionFinalization => {
+  const compiledIndexes = partiallySignedTransaction.inputs
+    .map((input, index) =>
+      input.finalUnlockingBytecode === undefined &&
+      directives[index] !== undefined
+        ? index
+        : undefined
+    )
+    .filter((index): index is number => index !== undefined);
+
+  const trustedAttempt = generateTransaction(
+    partiallySignedTransactionToTemplate(partiallySignedTransaction, directives)
+  );
+  const updated = applyGenerationAttempt(
+    partiallySignedTransaction,
+    trustedAttempt,
+    compiledIndexes
+  );
+  if (trustedAttempt.success) {
+    return {
+      errors: [],
+      missingVariables: {},
+      partiallySignedTransaction: updated,
+    };
+  }
+  const missingVariables = extractMissingVariables(trustedAttempt);
+  if (missingVariables === false) {
+    return {
+      errors: trustedAttempt.errors as BytecodeGenerationErrorUnlocking[],
+      missingVariables,
+      partiallySignedTransaction: updated,
+    };
+  }
+
+  const missingIdentifiers = Object.keys(missingVariables);
+  const extendedDirectives = compiledIndexes.reduce<{
+    [inputIndex: number]: CompilationDirectiveUnlocking<
+      CompilerType,
+      CompilationData<never>
+    >;
+  }>((all, index) => {
+    const directive = directives[index] as CompilationDirectiveUnlocking<
+      CompilerType,
+      CompilationData<never>
+    >;
+    const { resolvedVariables } = updated.inputs[index];
+    const provided = missingIdentifiers
+      .filter((identifier) => resolvedVariables[identifier] !== undefined)
+      .reduce<{ [fullIdentifier: string]: Uint8Array }>(
+        (selected, identifier) => ({
+          ...selected,
+          [identifier]: resolvedVariables[identifier],
+        }),
+        {}
+      );
+    return {
+      ...all,
+      [index]: {
+        ...directive,
+        data: {
+          ...directive.data,
+          bytecode: { ...provided, ...directive.data?.bytecode },
+        },
+      },
+    };
+  }, {});
+
+  const extendedAttempt = generateTransaction(
+    partiallySignedTransactionToTemplate(updated, extendedDirectives)
+  );
+  const final = applyGenerationAttempt(
+    updated,
+    extendedAttempt,
+    compiledIndexes
+  );
+  return extendedAttempt.success
+    ? { errors: [], missingVariables: {}, partiallySignedTransaction: final }
+    : {
+        errors: extendedAttempt.errors as BytecodeGenerationErrorUnlocking[],
+        missingVariables: extractMissingVariables(extendedAttempt),
+        partiallySignedTransaction: final,
+      };
+};
+
+/**
+ * Extract the completed transaction from a partially-signed transaction in
+ * which all inputs have been finalized. (A.K.A. the BIP174 "Transaction
+ * Extractor" role.)
+ *
+ * If any input has not been finalized, an error message is returned as a
+ * string.
+ *
+ * @param partiallySignedTransaction - the finalized partially-signed
+ * transaction
+ */
+export const extractTransactionFromPartiallySignedTransaction = (
+  partiallySignedTransaction: PartiallySignedTransaction
+): Transaction | PartiallySignedTransactionError => {
+  const { inputs, transaction } = partiallySignedTransaction;
+  if (
+    inputs.some(
+      (input) =>
+        input.finalUnlockingBytecode === undefined &&
+        input.finalWitness === undefined
+    )
+  ) {
+    return PartiallySignedTransactionError.incompleteInputs;
+  }
+  return {
+    ...transaction,
+    inputs: transaction.inputs.map((input, index) => {
+      const { finalUnlockingBytecode, finalWitness } = inputs[index];
+      return {
+        outpointIndex: input.outpointIndex,
+        outpointTransactionHash: input.outpointTransactionHash.slice(),
+        sequenceNumber: input.sequenceNumber,
+        unlockingBytecode:
+          finalUnlockingBytecode === undefined
+            ? Uint8Array.of()
+            : finalUnlockingBytecode.slice(),
+        ...(finalWitness === undefined ? {} : { witness: finalWitness }),
+      };
+    }),
+  };
+};
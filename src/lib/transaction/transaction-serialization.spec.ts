@@ -3,13 +3,23 @@ import test from 'ava';
 
 import {
   bigIntToBinUint64LE,
+  binToHex,
+  decodeTokenPrefix,
   decodeTransaction,
+  encodeTokenPrefix,
   encodeTransaction,
+  encodeTransactionWithoutWitness,
   getTransactionHash,
   getTransactionHashBE,
   getTransactionHashLE,
+  getWitnessTransactionHash,
+  getWitnessTransactionHashBE,
+  getWitnessTransactionHashLE,
   hexToBin,
   instantiateSha256,
+  NonFungibleTokenCapability,
+  Output,
+  TokenPrefixDecodingError,
   Transaction,
   TransactionDecodingError,
 } from '../lib';
@@ -230,3 +240,251 @@ test('getTransactionHash, getTransactionHashBE, getTransactionHashLE', async (t)
     hexToBin(txid).reverse()
   );
 });
+
+const witnessTransaction =
+  '02000000000102aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa000000000151ffffffffbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb0100000000fdffffff0110270000000000001600142222222222222222222222222222222222222222000306304401010101210233333333333333333333333333333333333333333333333333333333333333330000000000';
+
+test('decodeTransaction: witness serialization', (t) => {
+  t.deepEqual(decodeTransaction(hexToBin(witnessTransaction)), {
+    inputs: [
+      {
+        outpointIndex: 0,
+        outpointTransactionHash: hexToBin(
+          'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa'
+        ),
+        sequenceNumber: 4294967295,
+        unlockingBytecode: hexToBin('51'),
+        witness: [],
+      },
+      {
+        outpointIndex: 1,
+        outpointTransactionHash: hexToBin(
+          'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb'
+        ),
+        sequenceNumber: 4294967293,
+        unlockingBytecode: hexToBin(''),
+        witness: [
+          hexToBin('304401010101'),
+          hexToBin(
+            '023333333333333333333333333333333333333333333333333333333333333333'
+          ),
+          hexToBin(''),
+        ],
+      },
+    ],
+    locktime: 0,
+    outputs: [
+      {
+        lockingBytecode: hexToBin(
+          '00142222222222222222222222222222222222222222'
+        ),
+        satoshis: bigIntToBinUint64LE(BigInt(10000)),
+      },
+    ],
+    version: 2,
+  });
+});
+
+test('decode and encode transaction: witness serialization', (t) => {
+  const decoded = decodeTransaction(
+    hexToBin(witnessTransaction)
+  ) as Transaction;
+  t.deepEqual(encodeTransaction(decoded), hexToBin(witnessTransaction));
+  t.deepEqual(
+    encodeTransactionWithoutWitness(decoded),
+    hexToBin(
+      '0200000002aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa000000000151ffffffffbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb0100000000fdffffff011027000000000000160014222222222222222222222222222222222222222200000000'
+    )
+  );
+});
+
+test('encodeTransaction: empty witnesses use the legacy format', (t) => {
+  const decoded = decodeTransaction(
+    hexToBin(witnessTransaction)
+  ) as Transaction;
+  const withoutWitness = {
+    ...decoded,
+    inputs: decoded.inputs.map((input) => ({ ...input, witness: [] })),
+  };
+  t.deepEqual(
+    encodeTransaction(withoutWitness),
+    encodeTransactionWithoutWitness(decoded)
+  );
+});
+
+test('getTransactionHash, getWitnessTransactionHash: witness serialization', async (t) => {
+  const sha256 = await sha256Promise;
+  const tx = hexToBin(witnessTransaction);
+  const txid =
+    '63c8d88b2d6e1cdc8d61a3f62699018a3c16ea6a8fbad8139385c16c9b42f818';
+  const wtxid =
+    '1537ef1f96a261b38715d0f9f9a3b204851703a8a52b648efcb6c073f4a51ad5';
+  t.deepEqual(getTransactionHash(sha256, tx), txid);
+  t.deepEqual(getWitnessTransactionHash(sha256, tx), wtxid);
+  t.deepEqual(getWitnessTransactionHashBE(sha256, tx), hexToBin(wtxid));
+  t.deepEqual(
+    getWitnessTransactionHashLE(sha256, tx),
+    hexToBin(wtxid).reverse()
+  );
+});
+
+const tokenCategory = hexToBin(
+  '0102030405060708091011121314151617181920212223242526272829303132'
+);
+const tokenCategoryLE = binToHex(tokenCategory.slice().reverse());
+
+const tokenPrefixVectors: [string, NonNullable<Output['token']>][] = [
+  [`ef${tokenCategoryLE}1001`, { amount: BigInt(1), category: tokenCategory }],
+  [
+    `ef${tokenCategoryLE}22`,
+    {
+      amount: BigInt(0),
+      category: tokenCategory,
+      nft: {
+        capability: NonFungibleTokenCapability.minting,
+        commitment: Uint8Array.of(),
+      },
+    },
+  ],
+  [
+    `ef${tokenCategoryLE}7102cafefdfd00`,
+    {
+      amount: BigInt(253),
+      category: tokenCategory,
+      nft: {
+        capability: NonFungibleTokenCapability.mutable,
+        commitment: hexToBin('cafe'),
+      },
+    },
+  ],
+  [
+    `ef${tokenCategoryLE}20`,
+    {
+      amount: BigInt(0),
+      category: tokenCategory,
+      nft: {
+        capability: NonFungibleTokenCapability.none,
+        commitment: Uint8Array.of(),
+      },
+    },
+  ],
+];
+
+test('encodeTokenPrefix, decodeTokenPrefix', (t) => {
+  tokenPrefixVectors.forEach(([prefix, token]) => {
+    t.deepEqual(binToHex(encodeTokenPrefix(token)), prefix);
+    t.deepEqual(decodeTokenPrefix(hexToBin(prefix)), {
+      nextOffset: prefix.length / 2,
+      token,
+    });
+  });
+  t.deepEqual(encodeTokenPrefix(undefined), Uint8Array.of());
+});
+
+test('decodeTokenPrefix: errors', (t) => {
+  const withBitfield = (hex: string) =>
+    decodeTokenPrefix(hexToBin(`ef${tokenCategoryLE}${hex}`));
+  t.deepEqual(
+    decodeTokenPrefix(hexToBin('6a')),
+    TokenPrefixDecodingError.invalidPrefix
+  );
+  t.deepEqual(
+    decodeTokenPrefix(hexToBin(`ef${tokenCategoryLE}`)),
+    TokenPrefixDecodingError.insufficientLength
+  );
+  t.deepEqual(withBitfield('9001'), TokenPrefixDecodingError.reservedBit);
+  t.deepEqual(withBitfield('23'), TokenPrefixDecodingError.invalidCapability);
+  t.deepEqual(withBitfield('00'), TokenPrefixDecodingError.noTokens);
+  t.deepEqual(withBitfield('1101'), TokenPrefixDecodingError.missingNft);
+  t.deepEqual(withBitfield('5001cc01'), TokenPrefixDecodingError.missingNft);
+  t.deepEqual(
+    withBitfield('6000'),
+    TokenPrefixDecodingError.invalidCommitmentLength
+  );
+  t.deepEqual(
+    withBitfield(`6029${'00'.repeat(41)}`),
+    TokenPrefixDecodingError.invalidCommitmentLength
+  );
+  t.deepEqual(
+    withBitfield('6005cc'),
+    TokenPrefixDecodingError.insufficientLength
+  );
+  t.deepEqual(withBitfield('60'), TokenPrefixDecodingError.insufficientLength);
+  t.deepEqual(withBitfield('10'), TokenPrefixDecodingError.insufficientLength);
+  t.deepEqual(withBitfield('1000'), TokenPrefixDecodingError.invalidAmount);
+  t.deepEqual(
+    withBitfield('10ff0000000000000080'),
+    TokenPrefixDecodingError.invalidAmount
+  );
+  t.deepEqual(
+    withBitfield('60fd0100cc'),
+    TokenPrefixDecodingError.nonMinimalCompactSize
+  );
+  t.deepEqual(
+    withBitfield('10fd0100'),
+    TokenPrefixDecodingError.nonMinimalCompactSize
+  );
+  t.deepEqual(
+    withBitfield('10feffff0000'),
+    TokenPrefixDecodingError.nonMinimalCompactSize
+  );
+});
+
+test('decode and encode transaction: tokens', (t) => {
+  const transaction: Transaction = {
+    inputs: [
+      {
+        outpointIndex: 0,
+        outpointTransactionHash: tokenCategory,
+        sequenceNumber: 0,
+        unlockingBytecode: Uint8Array.of(),
+      },
+    ],
+    locktime: 0,
+    outputs: tokenPrefixVectors.map(([, token]) => ({
+      lockingBytecode: hexToBin(
+        '76a914000000000000000000000000000000000000000088ac'
+      ),
+      satoshis: bigIntToBinUint64LE(BigInt(1000)),
+      token,
+    })),
+    version: 2,
+  };
+  const encoded = encodeTransaction(transaction);
+  t.true(
+    binToHex(encoded).includes(
+      `e8030000000000003cef${tokenCategoryLE}100176a914${'00'.repeat(20)}88ac`
+    )
+  );
+  t.deepEqual(decodeTransaction(encoded), transaction);
+});
+
+test('decode and encode transaction: invalid token prefixes', (t) => {
+  const encoded = hexToBin(
+    `0200000001${tokenCategoryLE}00000000000000000002e80300000000000022ef${tokenCategoryLE}00e80300000000000027ef${tokenCategoryLE}10fd010076a900000000`
+  );
+  const transaction: Transaction = {
+    inputs: [
+      {
+        outpointIndex: 0,
+        outpointTransactionHash: tokenCategory,
+        sequenceNumber: 0,
+        unlockingBytecode: Uint8Array.of(),
+      },
+    ],
+    locktime: 0,
+    outputs: [
+      {
+        lockingBytecode: hexToBin(`ef${tokenCategoryLE}00`),
+        satoshis: bigIntToBinUint64LE(BigInt(1000)),
+      },
+      {
+        lockingBytecode: hexToBin(`ef${tokenCategoryLE}10fd010076a9`),
+        satoshis: bigIntToBinUint64LE(BigInt(1000)),
+      },
+    ],
+    version: 2,
+  };
+  t.deepEqual(decodeTransaction(encoded), transaction);
+  t.deepEqual(encodeTransaction(transaction), encoded);
+});
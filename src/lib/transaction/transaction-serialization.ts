@@ -8,7 +8,12 @@ import {
   readBitcoinVarInt,
 } from '../format/format';
 
-import { Input, Output, Transaction } from './transaction-types';
+import {
+  Input,
+  NonFungibleTokenCapability,
+  Output,
+  Transaction,
+} from './transaction-types';
 
 /**
  * @param bin - the raw transaction from which to read the input
@@ -78,9 +83,199 @@ export const encodeInputs = (inputs: readonly Input[]) =>
     ...inputs.map(encodeInput),
   ]);
 
+const enum TokenPrefix {
+  prefix = 0xef,
+  categoryLength = 32,
+  reservedBit = 0b1000_0000,
+  hasCommitmentLength = 0b0100_0000,
+  hasNft = 0b0010_0000,
+  hasAmount = 0b0001_0000,
+  capabilityBits = 0b0000_1111,
+  maximumCommitmentLength = 40,
+}
+
+const nftCapabilities = [
+  NonFungibleTokenCapability.none,
+  NonFungibleTokenCapability.mutable,
+  NonFungibleTokenCapability.minting,
+];
+
+const maximumTokenAmount = BigInt('9223372036854775807');
+
+/**
+ * Encode the token prefix of an output's CashTokens (CHIP-2022-02). The token
+ * prefix is encoded before an output's locking bytecode (within the same
+ * length-prefixed field) in both transaction encoding and signing
+ * serialization.
+ *
+ * Format: [PREFIX_TOKEN (`0xef`)] [32 bytes: category ID, little-endian]
+ * [token bitfield] ([BitcoinVarInt: commitment length] [commitment])
+ * ([BitcoinVarInt: fungible token amount])
+ *
+ * If `token` is `undefined`, an empty `Uint8Array` is returned.
+ *
+ * @param token - the `token` property of the output to encode
+ */
+export const encodeTokenPrefix = (token: Output['token']) => {
+  if (token === undefined) {
+    return Uint8Array.of();
+  }
+  const hasCommitment =
+    token.nft !== undefined && token.nft.commitment.length > 0;
+  const hasAmount = token.amount > BigInt(0);
+  const bitfield =
+    /* eslint-disable no-bitwise */
+    (hasCommitment ? TokenPrefix.hasCommitmentLength : 0) |
+    (token.nft === undefined ? 0 : TokenPrefix.hasNft) |
+    (hasAmount ? TokenPrefix.hasAmount : 0) |
+    (token.nft === undefined
+      ? 0
+      : nftCapabilities.indexOf(token.nft.capability));
+  /* eslint-enable no-bitwise */
+  return flattenBinArray([
+    Uint8Array.of(TokenPrefix.prefix),
+    token.category.slice().reverse(),
+    Uint8Array.of(bitfield),
+    ...(hasCommitment && token.nft !== undefined
+      ? [
+          bigIntToBitcoinVarInt(BigInt(token.nft.commitment.length)),
+          token.nft.commitment,
+        ]
+      : []),
+    ...(hasAmount ? [bigIntToBitcoinVarInt(token.amount)] : []),
+  ]);
+};
+
+export enum TokenPrefixDecodingError {
+  invalidPrefix = 'Token prefix decoding error: the bytecode does not begin with PREFIX_TOKEN (0xef).',
+  insufficientLength = 'Token prefix decoding error: the token prefix is truncated.',
+  reservedBit = 'Token prefix decoding error: the reserved bit of the token bitfield is set.',
+  invalidCapability = 'Token prefix decoding error: the token bitfield encodes an unknown non-fungible token capability.',
+  noTokens = 'Token prefix decoding error: the token bitfield encodes neither a fungible token amount nor a non-fungible token.',
+  missingNft = 'Token prefix decoding error: the token bitfield encodes a commitment or capability without a non-fungible token.',
+  invalidCommitmentLength = 'Token prefix decoding error: the non-fungible token commitment length must be from 1 to 40 bytes.',
+  invalidAmount = 'Token prefix decoding error: the fungible token amount must be from 1 to 9223372036854775807.',
+  nonMinimalCompactSize = 'Token prefix decoding error: the commitment length and fungible token amount must be minimally-encoded CompactSize integers.',
+}
+
+/**
+ * Read a Bitcoin VarInt (CompactSize) within a token prefix, returning an error
+ * if it extends beyond the end of `bin` or is not minimally encoded.
+ */
+const readBitcoinVarIntChecked = (bin: Uint8Array, offset: number) => {
+  if (offset >= bin.length) {
+    return TokenPrefixDecodingError.insufficientLength;
+  }
+  const result = readBitcoinVarInt(bin, offset);
+  return result.nextOffset > bin.length
+    ? TokenPrefixDecodingError.insufficientLength
+    : bigIntToBitcoinVarInt(result.value).length === result.nextOffset - offset
+    ? result
+    : TokenPrefixDecodingError.nonMinimalCompactSize;
+};
+
+/**
+ * Decode a CashTokens (CHIP-2022-02) token prefix from the beginning of the
+ * locking bytecode field of an encoded output. See `encodeTokenPrefix` for
+ * the format.
+ *
+ * If successful, returns the decoded `token` and the `nextOffset` at which the
+ * locking bytecode begins; otherwise, returns an error message as a string.
+ *
+ * @param bin - the contents of the encoded output's locking bytecode field
+ */
+// eslint-disable-next-line complexity
+export const decodeTokenPrefix = (
+  bin: Uint8Array
+):
+  | { nextOffset: number; token: NonNullable<Output['token']> }
+  | TokenPrefixDecodingError => {
+  if (bin[0] !== TokenPrefix.prefix) {
+    return TokenPrefixDecodingError.invalidPrefix;
+  }
+  const offsetAfterCategory = 1 + TokenPrefix.categoryLength;
+  if (bin.length <= offsetAfterCategory) {
+    return TokenPrefixDecodingError.insufficientLength;
+  }
+  const category = bin.slice(1, offsetAfterCategory).reverse();
+  const bitfield = bin[offsetAfterCategory];
+  /* eslint-disable no-bitwise */
+  const capability = nftCapabilities[bitfield & TokenPrefix.capabilityBits];
+  const hasCommitment = (bitfield & TokenPrefix.hasCommitmentLength) !== 0;
+  const hasNft = (bitfield & TokenPrefix.hasNft) !== 0;
+  const hasAmount = (bitfield & TokenPrefix.hasAmount) !== 0;
+  if ((bitfield & TokenPrefix.reservedBit) !== 0) {
+    return TokenPrefixDecodingError.reservedBit;
+  }
+  /* eslint-enable no-bitwise */
+  if (capability === undefined) {
+    return TokenPrefixDecodingError.invalidCapability;
+  }
+  if (!hasNft && !hasAmount) {
+    return TokenPrefixDecodingError.noTokens;
+  }
+  if (
+    !hasNft &&
+    (hasCommitment || capability !== NonFungibleTokenCapability.none)
+  ) {
+    return TokenPrefixDecodingError.missingNft;
+  }
+
+  const offsetAfterBitfield = offsetAfterCategory + 1;
+  const commitmentLength = hasCommitment
+    ? readBitcoinVarIntChecked(bin, offsetAfterBitfield)
+    : { nextOffset: offsetAfterBitfield, value: BigInt(0) };
+  if (typeof commitmentLength === 'string') {
+    return commitmentLength;
+  }
+  if (
+    hasCommitment &&
+    (commitmentLength.value === BigInt(0) ||
+      commitmentLength.value > BigInt(TokenPrefix.maximumCommitmentLength))
+  ) {
+    return TokenPrefixDecodingError.invalidCommitmentLength;
+  }
+  const offsetAfterCommitment =
+    commitmentLength.nextOffset + Number(commitmentLength.value);
+  if (offsetAfterCommitment > bin.length) {
+    return TokenPrefixDecodingError.insufficientLength;
+  }
+  const commitment = bin.slice(
+    commitmentLength.nextOffset,
+    offsetAfterCommitment
+  );
+
+  const amount = hasAmount
+    ? readBitcoinVarIntChecked(bin, offsetAfterCommitment)
+    : { nextOffset: offsetAfterCommitment, value: BigInt(0) };
+  if (typeof amount === 'string') {
+    return amount;
+  }
+  if (
+    hasAmount &&
+    (amount.value === BigInt(0) || amount.value > maximumTokenAmount)
+  ) {
+    return TokenPrefixDecodingError.invalidAmount;
+  }
+
+  return {
+    nextOffset: amount.nextOffset,
+    token: {
+      amount: amount.value,
+      category,
+      ...(hasNft ? { nft: { capability, commitment } } : {}),
+    },
+  };
+};
+
 /**
  * Read a single transaction output from an encoded transaction.
  *
+ * If the output's locking bytecode field begins with a valid token prefix, the
+ * prefix is decoded into the output's `token`. Otherwise, the full field is
+ * returned as `lockingBytecode` (as required by CHIP-2022-02, an invalid token
+ * prefix does not invalidate the transaction encoding).
+ *
  * @param bin - the raw transaction from which to read the output
  * @param offset - the offset at which the output begins
  */
@@ -94,31 +289,52 @@ export const readTransactionOutput = (bin: Uint8Array, offset: number) => {
   );
   const bytecodeLength = Number(value);
   const nextOffset = offsetAfterScriptLength + bytecodeLength;
-  const lockingBytecode =
+  const bytecodeField =
     bytecodeLength === 0
       ? new Uint8Array()
       : bin.slice(offsetAfterScriptLength, nextOffset);
 
+  const decoded =
+    bytecodeField[0] === TokenPrefix.prefix
+      ? decodeTokenPrefix(bytecodeField)
+      : TokenPrefixDecodingError.invalidPrefix;
+  if (typeof decoded === 'string') {
+    return {
+      nextOffset,
+      output: {
+        lockingBytecode: bytecodeField,
+        satoshis,
+      },
+    };
+  }
   return {
     nextOffset,
     output: {
-      lockingBytecode,
+      lockingBytecode: bytecodeField.slice(decoded.nextOffset),
       satoshis,
+      token: decoded.token,
     },
   };
 };
 
 /**
- * Encode a single output for inclusion in an encoded transaction.
+ * Encode a single output for inclusion in an encoded transaction. If the
+ * output holds tokens, the token prefix is included before the locking
+ * bytecode (see `encodeTokenPrefix`).
  *
  * @param output - the output to encode
  */
-export const encodeOutput = (output: Output) =>
-  flattenBinArray([
-    output.satoshis,
-    bigIntToBitcoinVarInt(BigInt(output.lockingBytecode.length)),
+export const encodeOutput = (output: Output) => {
+  const bytecodeField = flattenBinArray([
+    encodeTokenPrefix(output.token),
     output.lockingBytecode,
   ]);
+  return flattenBinArray([
+    output.satoshis,
+    bigIntToBitcoinVarInt(BigInt(bytecodeField.length)),
+    bytecodeField,
+  ]);
+};
 
 /**
  * Encode a set of outputs for inclusion in an encoded transaction
@@ -134,8 +350,75 @@ export const encodeOutputsForTransaction = (outputs: readonly Output[]) =>
     ...outputs.map(encodeOutput),
   ]);
 
+/**
+ * Read the witness stack of a single input from an encoded transaction (BIP144).
+ *
+ * @param bin - the raw transaction from which to read the witness
+ * @param offset - the offset at which the witness begins
+ */
+export const readTransactionWitness = (bin: Uint8Array, offset: number) => {
+  const {
+    nextOffset: offsetAfterItemCount,
+    value: itemCount,
+  } = readBitcoinVarInt(bin, offset);
+  // eslint-disable-next-line functional/no-let
+  let cursor = offsetAfterItemCount;
+  const witness = [];
+  // eslint-disable-next-line functional/no-let, functional/no-loop-statement, no-plusplus
+  for (let i = 0; i < Number(itemCount); i++) {
+    const {
+      nextOffset: offsetAfterItemLength,
+      value: itemLength,
+    } = readBitcoinVarInt(bin, cursor);
+    const offsetAfterItem = offsetAfterItemLength + Number(itemLength);
+    // eslint-disable-next-line functional/no-expression-statement, functional/immutable-data
+    witness.push(bin.slice(offsetAfterItemLength, offsetAfterItem));
+    // eslint-disable-next-line functional/no-expression-statement
+    cursor = offsetAfterItem;
+  }
+  return { nextOffset: cursor, witness };
+};
+
+/**
+ * Encode the witness stack of a single input for inclusion in an encoded
+ * transaction (BIP144).
+ *
+ * Format: [BitcoinVarInt: item count] ([BitcoinVarInt: item length] [item])...
+ *
+ * @param witness - the witness stack to encode
+ */
+export const encodeWitness = (witness: readonly Uint8Array[]) =>
+  flattenBinArray([
+    bigIntToBitcoinVarInt(BigInt(witness.length)),
+    ...witness.map((item) =>
+      flattenBinArray([bigIntToBitcoinVarInt(BigInt(item.length)), item])
+    ),
+  ]);
+
+const enum WitnessEncoding {
+  marker = 0x00,
+  flag = 0x01,
+  markerOffset = 4,
+  flagOffset = 5,
+  markerAndFlagLength = 2,
+}
+
+/**
+ * Determine if an encoded transaction uses the witness serialization format
+ * (BIP144), i.e. the version is followed by the marker (`0x00`) and flag
+ * (`0x01`) bytes.
+ *
+ * @param bin - the encoded transaction
+ */
+export const isWitnessEncodedTransaction = (bin: Uint8Array) =>
+  bin[WitnessEncoding.markerOffset] === WitnessEncoding.marker &&
+  bin[WitnessEncoding.flagOffset] === WitnessEncoding.flag;
+
 /**
  * Decode a `Uint8Array` using the version 1 or 2 raw transaction format.
+ * Transactions using the witness serialization format (BIP144) are also
+ * supported: when the marker and flag bytes are present, the `witness` of
+ * each decoded input is set (to an empty array if the input has no witness).
  *
  * Note: this method throws runtime errors when attempting to decode messages
  * which do not properly follow the transaction format. If the input is
@@ -146,7 +429,10 @@ export const encodeOutputsForTransaction = (outputs: readonly Output[]) =>
 export const decodeTransactionUnsafe = (bin: Uint8Array): Transaction => {
   const uint32Bytes = 4;
   const version = binToNumberUint32LE(bin.subarray(0, uint32Bytes));
-  const offsetAfterVersion = uint32Bytes;
+  const hasWitness = isWitnessEncodedTransaction(bin);
+  const offsetAfterVersion = hasWitness
+    ? uint32Bytes + WitnessEncoding.markerAndFlagLength
+    : uint32Bytes;
   const {
     nextOffset: offsetAfterInputCount,
     value: inputCount,
@@ -177,11 +463,23 @@ export const decodeTransactionUnsafe = (bin: Uint8Array): Transaction => {
     // eslint-disable-next-line functional/no-expression-statement, functional/immutable-data
     outputs.push(output);
   }
+  const witnessCount = hasWitness ? inputs.length : 0;
+  const witnesses: Uint8Array[][] = [];
+  // eslint-disable-next-line functional/no-let, functional/no-loop-statement, no-plusplus
+  for (let i = 0; i < witnessCount; i++) {
+    const { witness, nextOffset } = readTransactionWitness(bin, cursor);
+    // eslint-disable-next-line functional/no-expression-statement
+    cursor = nextOffset;
+    // eslint-disable-next-line functional/no-expression-statement, functional/immutable-data
+    witnesses.push(witness);
+  }
   const locktime = binToNumberUint32LE(
     bin.subarray(cursor, cursor + uint32Bytes)
   );
   return {
-    inputs,
+    inputs: hasWitness
+      ? inputs.map((input, index) => ({ ...input, witness: witnesses[index] }))
+      : inputs,
     locktime,
     outputs,
     version,
@@ -207,11 +505,11 @@ export const decodeTransaction = (bin: Uint8Array) => {
 };
 
 /**
- * Encode a `Transaction` using the standard P2P network format. This
- * serialization is also used when computing the transaction's hash (A.K.A.
- * "transaction ID" or "TXID").
+ * Encode a `Transaction` using the legacy (non-witness) P2P network format,
+ * omitting any witness data. This serialization is used when computing the
+ * transaction's hash (A.K.A. "transaction ID" or "TXID").
  */
-export const encodeTransaction = (tx: Transaction) =>
+export const encodeTransactionWithoutWitness = (tx: Transaction) =>
   flattenBinArray([
     numberToBinUint32LE(tx.version),
     encodeInputs(tx.inputs),
@@ -219,11 +517,34 @@ export const encodeTransaction = (tx: Transaction) =>
     numberToBinUint32LE(tx.locktime),
   ]);
 
+/**
+ * Encode a `Transaction` using the standard P2P network format.
+ *
+ * If any input includes a non-empty `witness`, the transaction is encoded
+ * using the witness serialization format (BIP144); otherwise, the legacy
+ * format is used (see `encodeTransactionWithoutWitness`).
+ */
+export const encodeTransaction = (tx: Transaction) =>
+  tx.inputs.some((input) => (input.witness?.length ?? 0) > 0)
+    ? flattenBinArray([
+        numberToBinUint32LE(tx.version),
+        Uint8Array.of(WitnessEncoding.marker, WitnessEncoding.flag),
+        encodeInputs(tx.inputs),
+        encodeOutputsForTransaction(tx.outputs),
+        ...tx.inputs.map((input) => encodeWitness(input.witness ?? [])),
+        numberToBinUint32LE(tx.locktime),
+      ])
+    : encodeTransactionWithoutWitness(tx);
+
 /**
  * Compute a transaction hash (A.K.A. "transaction ID" or "TXID") from an
  * encoded transaction in big-endian byte order. This is the byte order
  * typically used by block explorers and other user interfaces.
  *
+ * If the transaction is encoded using the witness serialization format
+ * (BIP144), witness data is removed before hashing. (To hash the witness data,
+ * see `getWitnessTransactionHashBE`.)
+ *
  * @returns the transaction hash as a string
  *
  * @param transaction - the encoded transaction
@@ -232,7 +553,14 @@ export const encodeTransaction = (tx: Transaction) =>
 export const getTransactionHashBE = (
   sha256: { hash: Sha256['hash'] },
   transaction: Uint8Array
-) => sha256.hash(sha256.hash(transaction));
+) =>
+  sha256.hash(
+    sha256.hash(
+      isWitnessEncodedTransaction(transaction)
+        ? encodeTransactionWithoutWitness(decodeTransactionUnsafe(transaction))
+        : transaction
+    )
+  );
 
 /**
  * Compute a transaction hash (A.K.A. "transaction ID" or "TXID") from an
@@ -266,6 +594,45 @@ export const getTransactionHash = (
   transaction: Uint8Array
 ) => binToHex(getTransactionHashBE(sha256, transaction));
 
+/**
+ * Compute a witness transaction hash (A.K.A. "WTXID") from an encoded
+ * transaction in big-endian byte order (BIP141). The witness transaction hash
+ * covers the full witness serialization of the transaction; for transactions
+ * without witness data, it is equal to the transaction hash.
+ *
+ * @param transaction - the encoded transaction
+ * @param sha256 - an implementation of sha256
+ */
+export const getWitnessTransactionHashBE = (
+  sha256: { hash: Sha256['hash'] },
+  transaction: Uint8Array
+) => sha256.hash(sha256.hash(transaction));
+
+/**
+ * Compute a witness transaction hash (A.K.A. "WTXID") from an encoded
+ * transaction in little-endian byte order. This is the byte order used in P2P
+ * network messages.
+ *
+ * @param transaction - the encoded transaction
+ * @param sha256 - an implementation of sha256
+ */
+export const getWitnessTransactionHashLE = (
+  sha256: { hash: Sha256['hash'] },
+  transaction: Uint8Array
+) => getWitnessTransactionHashBE(sha256, transaction).reverse();
+
+/**
+ * Return a `Transaction`'s witness transaction hash (A.K.A. "WTXID") as a
+ * string (in big-endian byte order as is common for user interfaces).
+ *
+ * @param transaction - the encoded transaction
+ * @param sha256 - an implementation of sha256
+ */
+export const getWitnessTransactionHash = (
+  sha256: { hash: Sha256['hash'] },
+  transaction: Uint8Array
+) => binToHex(getWitnessTransactionHashBE(sha256, transaction));
+
 /**
  * Get the hash of all outpoints in a series of inputs. (For use in
  * `hashTransactionOutpoints`.)
@@ -68,6 +68,11 @@ export interface TransactionContextCommon
    * `bigIntToBinUint64LE`).
    */
   readonly outputValue: Uint8Array;
+  /**
+   * The encoded token prefix of the outpoint being spent (see
+   * `encodeTokenPrefix`), if the outpoint holds tokens.
+   */
+  readonly outputTokenPrefix?: Uint8Array;
   /**
    * The `sequenceNumber` associated with the input being validated. See
    * `Input.sequenceNumber` for details.
@@ -179,6 +184,14 @@ export interface Input<Bytecode = Uint8Array, HashRepresentation = Uint8Array> {
    * A.K.A. `scriptSig` or "unlocking script"
    */
   unlockingBytecode: Bytecode;
+  /**
+   * The witness stack provided for this input (BIP141), if any.
+   *
+   * Witness data is only evaluated by virtual machines which support SegWit
+   * (e.g. BTC). It is not covered by the transaction hash, and it is ignored
+   * by instruction sets which do not support SegWit.
+   */
+  witness?: Uint8Array[];
 }
 
 /**
@@ -228,6 +241,60 @@ export interface Output<Bytecode = Uint8Array, Amount = Uint8Array> {
    * `binToBigIntUint64LE`, respectively.
    */
   readonly satoshis: Amount;
+  /**
+   * The CashTokens (CHIP-2022-02) held by this output, if any. Outputs with
+   * tokens are encoded with a token prefix before the locking bytecode (see
+   * `encodeTokenPrefix`).
+   */
+  readonly token?: {
+    /**
+     * The number of fungible tokens held by this output – an integer from `1`
+     * to `9223372036854775807`, or `0` if the output holds only a non-fungible
+     * token.
+     */
+    readonly amount: bigint;
+    /**
+     * The 32-byte token category ID in big-endian byte order – the
+     * transaction hash of the transaction which created the category (the
+     * "genesis" transaction). This is the byte order typically seen in block
+     * explorers and user interfaces (see `Input.outpointTransactionHash`).
+     */
+    readonly category: Uint8Array;
+    /**
+     * The non-fungible token held by this output, if any.
+     */
+    readonly nft?: {
+      /**
+       * The capability of this non-fungible token.
+       */
+      readonly capability: NonFungibleTokenCapability;
+      /**
+       * The commitment contents of this non-fungible token – from `0` to `40`
+       * bytes.
+       */
+      readonly commitment: Uint8Array;
+    };
+  };
+}
+
+/**
+ * The capabilities of a CashTokens (CHIP-2022-02) non-fungible token.
+ */
+export enum NonFungibleTokenCapability {
+  /**
+   * The token's commitment cannot be modified.
+   */
+  none = 'none',
+  /**
+   * The token may be spent to create a single token of the same category with
+   * a new commitment.
+   */
+  mutable = 'mutable',
+  /**
+   * The token may be spent to create any number of tokens of the same category,
+   * each with any commitment and capability.
+   */
+  minting = 'minting',
 }
 
 /**
@@ -544,3 +611,16 @@ export type TransactionGenerationError =
 export type TransactionGenerationAttempt =
   | TransactionGenerationSuccess
   | TransactionGenerationError;
+
+export interface TransactionEstimationSuccess
+  extends TransactionGenerationSuccess {
+  /**
+   * The length of the encoded estimated transaction in bytes. See
+   * `estimateTransaction` for details.
+   */
+  size: number;
+}
+
+export type TransactionEstimationAttempt =
+  | TransactionEstimationSuccess
+  | TransactionGenerationError;
@@ -1,4 +1,7 @@
+export * from './estimate-transaction';
 export * from './generate-transaction';
+export * from './partially-signed-transaction';
 export * from './transaction-serialization';
 export * from './transaction-types';
+export * from './verify-standardness';
 export * from './verify-transaction';
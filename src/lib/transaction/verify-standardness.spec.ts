@@ -0,0 +1,218 @@
+/* eslint-disable functional/no-expression-statement, @typescript-eslint/no-magic-numbers */
+
+import test from 'ava';
+
+import {
+  bigIntToBinUint64LE,
+  consensusLimitsBCH,
+  decodeTransactionUnsafe,
+  densityLimitsStandardBCH,
+  getDustThreshold,
+  hexToBin,
+  instantiateVirtualMachineBCH,
+  instructionSetBCHCurrentStrict,
+  Output,
+  StandardnessError,
+  standardnessPolicyBCH,
+  stringify,
+  Transaction,
+  verifyTransactionStandardness,
+} from '../lib';
+
+const vmPromise = instantiateVirtualMachineBCH(instructionSetBCHCurrentStrict, {
+  ...consensusLimitsBCH,
+  density: densityLimitsStandardBCH,
+});
+
+const transaction = decodeTransactionUnsafe(
+  hexToBin(
+    '0200000001600a1b6b0563bbd5b9bef124ff634600df774559da6c51e34a6b97a178be233401000000fc0047304402205e7d56c4e7854f9c672977d6606dd2f0af5494b8e61108e2a92fc920bf8049fc022065262675b0e1a3850d88bd3c56e0eb5fb463d9cdbe49f2f625da5c0f82c765304147304402200d167d5ed77fa169346d295f6fb742e80ae391f0ae086d42b99152bdb23edf4102202c8b85c2583b07b66485b88cacdd14f680bd3aa3f3f12e9f63bc02b4d1cc6d15414c6952210349c17cce8a460f013fdcd286f90f7b0330101d0f3ab4ced44a5a3db764e465882102a438b1662aec9c35f85794600e1d2d3683a43cbb66307cf825fc4486b84695452103d9fffac162e9e15aecbe4f937b951815ccb4f940c850fff9ee52fa70805ae7de53ae000000000100000000000000000d6a0b68656c6c6f20776f726c6400000000'
+  )
+);
+
+const createSpentOutputs = (satoshis: number): Output[] => [
+  {
+    lockingBytecode: hexToBin('a9147ff682419764f7d0e6df75884c28334b9729864387'),
+    satoshis: bigIntToBinUint64LE(BigInt(satoshis)),
+  },
+];
+
+const p2pkhLockingBytecode = hexToBin(
+  '76a914000000000000000000000000000000000000000088ac'
+);
+
+test('getDustThreshold', (t) => {
+  const satoshis = bigIntToBinUint64LE(BigInt(0));
+  t.deepEqual(
+    getDustThreshold({ lockingBytecode: p2pkhLockingBytecode, satoshis }),
+    BigInt(546)
+  );
+  t.deepEqual(
+    getDustThreshold({
+      lockingBytecode: hexToBin(
+        'a914000000000000000000000000000000000000000087'
+      ),
+      satoshis,
+    }),
+    BigInt(540)
+  );
+  t.deepEqual(
+    getDustThreshold(
+      { lockingBytecode: p2pkhLockingBytecode, satoshis },
+      { dustRelayFeeRate: 2 }
+    ),
+    BigInt(1092)
+  );
+  t.deepEqual(
+    getDustThreshold({ lockingBytecode: hexToBin('6a'), satoshis }),
+    BigInt(0)
+  );
+});
+
+test('verifyTransactionStandardness', async (t) => {
+  const vm = await vmPromise;
+  const result = verifyTransactionStandardness({
+    spentOutputs: createSpentOutputs(10000),
+    transaction,
+    vm,
+  });
+  t.deepEqual(result, true, stringify(result));
+});
+
+test('verifyTransactionStandardness: requires resource usage metrics', async (t) => {
+  const vm = await instantiateVirtualMachineBCH(instructionSetBCHCurrentStrict);
+  t.deepEqual(
+    verifyTransactionStandardness({
+      spentOutputs: createSpentOutputs(10000),
+      transaction,
+      vm,
+    }),
+    [{ error: StandardnessError.missingResourceMetrics, inputIndex: 0 }]
+  );
+});
+
+test('verifyTransactionStandardness: incorrect spentOutputs length', async (t) => {
+  const vm = await vmPromise;
+  t.deepEqual(
+    verifyTransactionStandardness({ spentOutputs: [], transaction, vm }),
+    [{ error: StandardnessError.missingSpentOutputs }]
+  );
+});
+
+test('verifyTransactionStandardness: non-standard outputs', async (t) => {
+  const vm = await vmPromise;
+  const nonStandard: Transaction = {
+    ...transaction,
+    outputs: [
+      ...transaction.outputs,
+      {
+        lockingBytecode: p2pkhLockingBytecode,
+        satoshis: bigIntToBinUint64LE(BigInt(545)),
+      },
+      {
+        lockingBytecode: p2pkhLockingBytecode,
+        satoshis: bigIntToBinUint64LE(BigInt(546)),
+      },
+      {
+        lockingBytecode: Uint8Array.of(0x51),
+        satoshis: bigIntToBinUint64LE(BigInt(1000)),
+      },
+      {
+        lockingBytecode: Uint8Array.from([0x6a, 0x4c, 0xd4, ...new Array(212)]),
+        satoshis: bigIntToBinUint64LE(BigInt(0)),
+      },
+    ],
+    version: 3,
+  };
+  t.deepEqual(
+    verifyTransactionStandardness({
+      spentOutputs: createSpentOutputs(10000),
+      transaction: nonStandard,
+      vm,
+    }),
+    [
+      { error: StandardnessError.nonStandardVersion },
+      { error: StandardnessError.failedEvaluation, inputIndex: 0 },
+      { error: StandardnessError.dustOutput, outputIndex: 1 },
+      { error: StandardnessError.nonStandardOutput, outputIndex: 3 },
+      { error: StandardnessError.exceedsMaximumDataCarrierBytes },
+    ]
+  );
+});
+
+test('verifyTransactionStandardness: fees', async (t) => {
+  const vm = await vmPromise;
+  t.deepEqual(
+    verifyTransactionStandardness({
+      spentOutputs: createSpentOutputs(300),
+      transaction,
+      vm,
+    }),
+    [
+      { error: StandardnessError.failedEvaluation, inputIndex: 0 },
+      { error: StandardnessError.insufficientFee },
+    ]
+  );
+  t.deepEqual(
+    verifyTransactionStandardness({
+      spentOutputs: createSpentOutputs(10000),
+      transaction: {
+        ...transaction,
+        outputs: [
+          {
+            lockingBytecode: p2pkhLockingBytecode,
+            satoshis: bigIntToBinUint64LE(BigInt(20000)),
+          },
+        ],
+      },
+      vm,
+    }),
+    [
+      { error: StandardnessError.failedEvaluation, inputIndex: 0 },
+      { error: StandardnessError.outputsExceedInputs },
+    ]
+  );
+});
+
+test('verifyTransactionStandardness: inputs', async (t) => {
+  const vm = await vmPromise;
+  t.deepEqual(
+    verifyTransactionStandardness({
+      policy: {
+        ...standardnessPolicyBCH,
+        maximumTransactionSize: 200,
+        maximumUnlockingBytecodeLength: 100,
+      },
+      spentOutputs: createSpentOutputs(10000),
+      transaction,
+      vm,
+    }),
+    [
+      { error: StandardnessError.exceedsMaximumTransactionSize },
+      {
+        error: StandardnessError.exceedsMaximumUnlockingBytecodeLength,
+        inputIndex: 0,
+      },
+    ]
+  );
+  t.deepEqual(
+    verifyTransactionStandardness({
+      spentOutputs: createSpentOutputs(10000),
+      transaction: {
+        ...transaction,
+        inputs: [
+          {
+            ...transaction.inputs[0],
+            unlockingBytecode: Uint8Array.of(0x51, 0x76),
+          },
+        ],
+      },
+      vm,
+    }),
+    [
+      { error: StandardnessError.belowMinimumTransactionSize },
+      { error: StandardnessError.unlockingBytecodeNotPushOnly, inputIndex: 0 },
+      { error: StandardnessError.failedEvaluation, inputIndex: 0 },
+    ]
+  );
+});
@@ -0,0 +1,326 @@
+import {
+  AddressType,
+  lockingBytecodeToAddressContents,
+} from '../address/address';
+import { binToBigIntUint64LE } from '../format/format';
+import {
+  AuthenticationProgramCommon,
+  AuthenticationProgramStateMetrics,
+  AuthenticationVirtualMachine,
+  authenticationInstructionsAreMalformed,
+  DensityLimitsBCH,
+  densityLimitsStandardBCH,
+  getInputDensityBCH,
+  OpcodesCommon,
+  parseBytecode,
+} from '../vm/vm';
+
+import { encodeOutput, encodeTransaction } from './transaction-serialization';
+import { Output, Transaction } from './transaction-types';
+
+/**
+ * The relay policy parameters used by `verifyTransactionStandardness`.
+ */
+export interface StandardnessPolicy {
+  /**
+   * The density limits used to determine the maximum number of signature
+   * checks allowed in each input.
+   */
+  readonly densityLimits: DensityLimitsBCH;
+  /**
+   * The fee rate (in satoshis per byte) used to compute the dust threshold of
+   * each output (A.K.A. `-dustrelayfee`).
+   */
+  readonly dustRelayFeeRate: number;
+  /**
+   * The maximum combined byte length of the locking bytecode of all data
+   * carrier (`OP_RETURN`) outputs (A.K.A. `-datacarriersize`).
+   */
+  readonly maximumDataCarrierBytes: number;
+  /**
+   * The maximum number of signature checks performed by all inputs of the
+   * transaction (A.K.A. `MAX_STANDARD_TX_SIGCHECKS`).
+   */
+  readonly maximumTransactionSignatureChecks: number;
+  /**
+   * The maximum byte length of the encoded transaction (A.K.A.
+   * `MAX_STANDARD_TX_SIZE`).
+   */
+  readonly maximumTransactionSize: number;
+  /**
+   * The maximum byte length of the unlocking bytecode of each input (A.K.A.
+   * `MAX_TX_IN_SCRIPT_SIG_SIZE`).
+   */
+  readonly maximumUnlockingBytecodeLength: number;
+  /**
+   * The minimum fee rate (in satoshis per byte) required to relay the
+   * transaction (A.K.A. `-minrelaytxfee`).
+   */
+  readonly minimumFeeRate: number;
+  /**
+   * The minimum byte length of the encoded transaction (A.K.A. `MIN_TX_SIZE`).
+   */
+  readonly minimumTransactionSize: number;
+  /**
+   * The types of locking bytecode (as identified by
+   * `lockingBytecodeToAddressContents`) which may be used in outputs. Data
+   * carrier (`OP_RETURN`) outputs are always allowed.
+   */
+  readonly standardOutputTypes: readonly AddressType[];
+  /**
+   * The transaction versions which may be relayed.
+   */
+  readonly standardVersions: readonly number[];
+}
+
+/**
+ * The default relay policy of BCH node implementations.
+ */
+export const standardnessPolicyBCH: StandardnessPolicy = {
+  densityLimits: densityLimitsStandardBCH,
+  dustRelayFeeRate: 1,
+  maximumDataCarrierBytes: 223,
+  maximumTransactionSignatureChecks: 3000,
+  maximumTransactionSize: 100000,
+  maximumUnlockingBytecodeLength: 1650,
+  minimumFeeRate: 1,
+  minimumTransactionSize: 100,
+  standardOutputTypes: [AddressType.p2pk, AddressType.p2pkh, AddressType.p2sh],
+  standardVersions: [1, 2],
+};
+
+export enum StandardnessError {
+  missingSpentOutputs = 'Standardness error: a spent output must be provided for each transaction input.',
+  nonStandardVersion = 'Standardness error: the transaction version is non-standard.',
+  exceedsMaximumTransactionSize = 'Standardness error: the transaction exceeds the maximum standard transaction size.',
+  belowMinimumTransactionSize = 'Standardness error: the transaction is smaller than the minimum transaction size.',
+  exceedsMaximumUnlockingBytecodeLength = 'Standardness error: the unlocking bytecode exceeds the maximum standard unlocking bytecode length.',
+  unlockingBytecodeNotPushOnly = 'Standardness error: the unlocking bytecode contains non-push operations.',
+  failedEvaluation = 'Standardness error: the input failed evaluation.',
+  missingResourceMetrics = 'Standardness error: the provided virtual machine does not track resource usage, so signature check density cannot be verified. Provide a virtual machine configured with density limits (see "ConsensusLimitsBCH.density").',
+  exceedsSignatureCheckDensity = 'Standardness error: the input performs more signature checks than allowed for its unlocking bytecode length.',
+  exceedsMaximumTransactionSignatureChecks = 'Standardness error: the transaction exceeds the maximum standard number of signature checks.',
+  nonStandardOutput = 'Standardness error: the output uses a non-standard locking bytecode type.',
+  dustOutput = 'Standardness error: the output value is below the dust threshold.',
+  exceedsMaximumDataCarrierBytes = 'Standardness error: the data carrier (OP_RETURN) outputs exceed the maximum standard data carrier size.',
+  outputsExceedInputs = 'Standardness error: the total value of outputs exceeds the total value of spent outputs.',
+  insufficientFee = 'Standardness error: the transaction fee is below the minimum relay fee.',
+}
+
+/**
+ * A violation of a single standardness rule. If the rule applies to a specific
+ * input or output, its index is provided.
+ */
+export interface StandardnessViolation {
+  error: StandardnessError;
+  inputIndex?: number;
+  outputIndex?: number;
+}
+
+const enum Dust {
+  /**
+   * Outputs are dust if spending them would cost more than a third of their
+   * value (at the dust relay fee rate).
+   */
+  multiplier = 3,
+  /**
+   * The typical byte length of an input spending the output.
+   */
+  spendingInputLength = 148,
+}
+
+/**
+ * Get the minimum `satoshis` value of an output for it to be considered
+ * standard (non-dust) by the provided policy. Data carrier (`OP_RETURN`)
+ * outputs are never considered dust.
+ *
+ * @param output - the output for which to compute the dust threshold
+ * @param policy - the `StandardnessPolicy` to use, defaults to
+ * `standardnessPolicyBCH`
+ */
+export const getDustThreshold = (
+  output: Output,
+  policy: Pick<StandardnessPolicy, 'dustRelayFeeRate'> = standardnessPolicyBCH
+) =>
+  output.lockingBytecode[0] === OpcodesCommon.OP_RETURN
+    ? BigInt(0)
+    : BigInt(
+        Math.ceil(
+          Dust.multiplier *
+            policy.dustRelayFeeRate *
+            (encodeOutput(output).length + Dust.spendingInputLength)
+        )
+      );
+
+const isPushOnly = (bytecode: Uint8Array) => {
+  const instructions = parseBytecode(bytecode);
+  return (
+    !authenticationInstructionsAreMalformed(instructions) &&
+    instructions.every(
+      (instruction) => instruction.opcode <= OpcodesCommon.OP_16
+    )
+  );
+};
+
+const isDataCarrier = (lockingBytecode: Uint8Array) =>
+  lockingBytecode[0] === OpcodesCommon.OP_RETURN &&
+  isPushOnly(lockingBytecode.slice(1));
+
+const sumSatoshis = (outputs: Output[]) =>
+  outputs.reduce(
+    (total, output) => total + binToBigIntUint64LE(output.satoshis),
+    BigInt(0)
+  );
+
+const verifyOutputs = (outputs: Output[], policy: StandardnessPolicy) => {
+  const dataCarrierBytes = outputs
+    .filter((output) => isDataCarrier(output.lockingBytecode))
+    .reduce((total, output) => total + output.lockingBytecode.length, 0);
+  const outputViolations = outputs.reduce<StandardnessViolation[]>(
+    (violations, output, outputIndex) => {
+      if (isDataCarrier(output.lockingBytecode)) {
+        return violations;
+      }
+      const { type } = lockingBytecodeToAddressContents(output.lockingBytecode);
+      if (!policy.standardOutputTypes.includes(type)) {
+        return [
+          ...violations,
+          { error: StandardnessError.nonStandardOutput, outputIndex },
+        ];
+      }
+      return binToBigIntUint64LE(output.satoshis) <
+        getDustThreshold(output, policy)
+        ? [...violations, { error: StandardnessError.dustOutput, outputIndex }]
+        : violations;
+    },
+    []
+  );
+  return dataCarrierBytes > policy.maximumDataCarrierBytes
+    ? [
+        ...outputViolations,
+        { error: StandardnessError.exceedsMaximumDataCarrierBytes },
+      ]
+    : outputViolations;
+};
+
+/**
+ * Verify that a transaction satisfies the relay policy ("standardness") rules
+ * of BCH node implementations, returning `true` if the transaction is standard
+ * or a list of `StandardnessViolation`s describing each violated rule.
+ *
+ * Each input is evaluated by the provided `vm`; inputs which fail evaluation
+ * are reported as `StandardnessError.failedEvaluation`. Because signature
+ * check density can only be measured during evaluation, the `vm` must track
+ * resource usage, e.g.:
+ * `instantiateVirtualMachineBCH(instructionSetBCHCurrentStrict, { ...consensusLimitsBCH, density: densityLimitsStandardBCH })`.
+ *
+ * Note, standardness rules are not enforced by consensus: non-standard
+ * transactions may still be valid if included in a block, but most nodes will
+ * refuse to relay them. Like `verifyTransaction`, this method is stateless and
+ * does not verify that the spent outputs remain unspent.
+ *
+ * @param policy - the `StandardnessPolicy` to enforce, defaults to
+ * `standardnessPolicyBCH`
+ * @param spentOutputs - an array of the `Output`s spent by the transaction's
+ * `inputs` in matching order (`inputs[0]` spends `spentOutputs[0]`, etc.)
+ * @param transaction - the transaction to verify
+ * @param vm - the authentication virtual machine to use in validation
+ */
+export const verifyTransactionStandardness = <
+  AuthenticationProgram extends AuthenticationProgramCommon,
+  ProgramState extends AuthenticationProgramStateMetrics
+>({
+  policy = standardnessPolicyBCH,
+  spentOutputs,
+  transaction,
+  vm,
+}: {
+  policy?: StandardnessPolicy;
+  spentOutputs: Output[];
+  transaction: Transaction;
+  vm: AuthenticationVirtualMachine<AuthenticationProgram, ProgramState>;
+}): true | StandardnessViolation[] => {
+  if (transaction.inputs.length !== spentOutputs.length) {
+    return [{ error: StandardnessError.missingSpentOutputs }];
+  }
+  const size = encodeTransaction(transaction).length;
+  const transactionViolations = [
+    ...(policy.standardVersions.includes(transaction.version)
+      ? []
+      : [{ error: StandardnessError.nonStandardVersion }]),
+    ...(size > policy.maximumTransactionSize
+      ? [{ error: StandardnessError.exceedsMaximumTransactionSize }]
+      : []),
+    ...(size < policy.minimumTransactionSize
+      ? [{ error: StandardnessError.belowMinimumTransactionSize }]
+      : []),
+  ];
+
+  const evaluated = transaction.inputs.map((input, inputIndex) => {
+    const program: AuthenticationProgramCommon = {
+      inputIndex,
+      sourceOutputs: spentOutputs,
+      spendingTransaction: transaction,
+    };
+    const state = vm.evaluate(program as AuthenticationProgram);
+    const { length } = input.unlockingBytecode;
+    const signatureChecks = state.metrics?.signatureChecks ?? 0;
+    const violations: StandardnessViolation[] = [
+      ...(length > policy.maximumUnlockingBytecodeLength
+        ? [
+            {
+              error: StandardnessError.exceedsMaximumUnlockingBytecodeLength,
+              inputIndex,
+            },
+          ]
+        : []),
+      ...(isPushOnly(input.unlockingBytecode)
+        ? []
+        : [
+            {
+              error: StandardnessError.unlockingBytecodeNotPushOnly,
+              inputIndex,
+            },
+          ]),
+      ...(vm.verify(state) === true
+        ? []
+        : [{ error: StandardnessError.failedEvaluation, inputIndex }]),
+      ...(state.metrics === undefined
+        ? [{ error: StandardnessError.missingResourceMetrics, inputIndex }]
+        : getInputDensityBCH(state.metrics, length, policy.densityLimits)
+            .signatureChecks.ratio > 1
+        ? [
+            {
+              error: StandardnessError.exceedsSignatureCheckDensity,
+              inputIndex,
+            },
+          ]
+        : []),
+    ];
+    return { signatureChecks, violations };
+  });
+  const inputViolations = evaluated.reduce<StandardnessViolation[]>(
+    (all, input) => [...all, ...input.violations],
+    []
+  );
+  const signatureChecks = evaluated.reduce(
+    (total, input) => total + input.signatureChecks,
+    0
+  );
+
+  const fee = sumSatoshis(spentOutputs) - sumSatoshis(transaction.outputs);
+  const violations = [
+    ...transactionViolations,
+    ...inputViolations,
+    ...(signatureChecks > policy.maximumTransactionSignatureChecks
+      ? [{ error: StandardnessError.exceedsMaximumTransactionSignatureChecks }]
+      : []),
+    ...verifyOutputs(transaction.outputs, policy),
+    ...(fee < BigInt(0)
+      ? [{ error: StandardnessError.outputsExceedInputs }]
+      : fee < BigInt(Math.ceil(size * policy.minimumFeeRate))
+      ? [{ error: StandardnessError.insufficientFee }]
+      : []),
+  ];
+  return violations.length === 0 ? true : violations;
+};
@@ -4,11 +4,25 @@ import test from 'ava';
 
 import {
   bigIntToBinUint64LE,
+  createAuthenticationVirtualMachine,
+  createInstructionSetBCH,
+  createSignatureBatchSchnorr,
   decodeTransaction,
+  encodeDataPush,
+  flattenBinArray,
+  getFlagsForInstructionSetBCH,
   hexToBin,
+  instantiateRipemd160,
+  instantiateSecp256k1,
+  instantiateSha1,
+  instantiateSha256,
   instantiateVirtualMachineBCH,
+  InstructionSetBCH,
+  OpcodesBCH,
   Output,
   stringify,
+  Transaction,
+  utf8ToBin,
   verifyTransaction,
 } from '../lib';
 
@@ -121,3 +135,83 @@ test('verifyTransaction: invalid input', async (t) => {
     stringify(result)
   );
 });
+
+test('verifyTransaction: batch Schnorr signature verification', async (t) => {
+  const [sha1, sha256, ripemd160, secp256k1] = await Promise.all([
+    instantiateSha1(),
+    instantiateSha256(),
+    instantiateRipemd160(),
+    instantiateSecp256k1(),
+  ]);
+  const batch = createSignatureBatchSchnorr(secp256k1);
+  const vm = createAuthenticationVirtualMachine(
+    createInstructionSetBCH({
+      flags: getFlagsForInstructionSetBCH(InstructionSetBCH.BCH_2020_05),
+      ripemd160,
+      secp256k1: batch.secp256k1,
+      sha1,
+      sha256,
+    })
+  );
+  const privateKey = hexToBin(
+    'f85d4bd8a03ca106c9deb47b791803dac7f0333809e3f1dd04d182e0aba6e553'
+  );
+  const publicKey = secp256k1.derivePublicKeyCompressed(privateKey);
+  const message = utf8ToBin('hello');
+  const signature = secp256k1.signMessageHashSchnorr(
+    privateKey,
+    sha256.hash(message)
+  );
+  const spentOutputs: Output[] = [
+    {
+      lockingBytecode: flattenBinArray([
+        encodeDataPush(publicKey),
+        Uint8Array.of(OpcodesBCH.OP_CHECKDATASIG),
+      ]),
+      satoshis: bigIntToBinUint64LE(BigInt(10000)),
+    },
+  ];
+  const createTransaction = (unlockingSignature: Uint8Array): Transaction => ({
+    inputs: [
+      {
+        outpointIndex: 0,
+        outpointTransactionHash: new Uint8Array(32),
+        sequenceNumber: 0,
+        unlockingBytecode: flattenBinArray([
+          encodeDataPush(unlockingSignature),
+          encodeDataPush(message),
+        ]),
+      },
+    ],
+    locktime: 0,
+    outputs: [
+      {
+        lockingBytecode: hexToBin('6a'),
+        satoshis: bigIntToBinUint64LE(BigInt(0)),
+      },
+    ],
+    version: 2,
+  });
+
+  const valid = verifyTransaction({
+    signatureBatch: batch,
+    spentOutputs,
+    transaction: createTransaction(signature),
+    vm,
+  });
+  t.deepEqual(valid, true, stringify(valid));
+
+  const invalid = verifyTransaction({
+    signatureBatch: batch,
+    spentOutputs,
+    transaction: createTransaction(signature.slice().fill(0, 6, 7)),
+    vm,
+  });
+  t.deepEqual(
+    invalid,
+    [
+      'Unable to verify transaction: one or more Schnorr signatures are invalid.',
+    ],
+    stringify(invalid)
+  );
+});
@@ -1,9 +1,7 @@
+import { SignatureBatchSchnorr } from '../crypto/crypto';
 import {
-  AuthenticationErrorBCH,
   AuthenticationProgramCommon,
-  AuthenticationProgramStateCommon,
   AuthenticationVirtualMachine,
-  OpcodesBCH,
 } from '../vm/vm';
 
 import { Output, Transaction } from './transaction-types';
@@ -24,28 +22,33 @@ import { Output, Transaction } from './transaction-types';
  * - both relative and absolute locktime consensus requirements have been met.
  * (See BIP65, BIP68, and BIP112 for details.)
  *
+ * ### Batch Verification of Schnorr Signatures
+ * To verify all of the transaction's Schnorr signatures together (rather than
+ * one-by-one during evaluation), create a batch with
+ * `createSignatureBatchSchnorr`, instantiate `vm` using the batch's `secp256k1`
+ * object, and provide the batch as `signatureBatch`. The batch is verified
+ * (and emptied) after all inputs have been evaluated.
+ *
  * @param spentOutputs - an array of the `Output`s spent by the transaction's
  * `inputs` in matching order (`inputs[0]` spends `spentOutputs[0]`, etc.)
  * @param transaction - the transaction to verify
  * @param vm - the authentication virtual machine to use in validation
+ * @param signatureBatch - an optional `SignatureBatchSchnorr`, the `secp256k1`
+ * object of which was used to create `vm`
  */
 export const verifyTransaction = <
-  VirtualMachine extends AuthenticationVirtualMachine<
-    AuthenticationProgram,
-    ProgramState
-  >,
   AuthenticationProgram extends AuthenticationProgramCommon,
-  ProgramState extends AuthenticationProgramStateCommon<Opcodes, Errors>,
-  Opcodes = OpcodesBCH,
-  Errors = AuthenticationErrorBCH
+  ProgramState
 >({
+  signatureBatch,
   spentOutputs,
   transaction,
   vm,
 }: {
+  signatureBatch?: SignatureBatchSchnorr;
   transaction: Transaction;
   spentOutputs: Output[];
-  vm: VirtualMachine;
+  vm: AuthenticationVirtualMachine<AuthenticationProgram, ProgramState>;
 }) => {
   if (transaction.inputs.length !== spentOutputs.length) {
     return [
@@ -53,18 +56,25 @@ export const verifyTransaction = <
     ];
   }
   const errors = transaction.inputs.reduce<string[]>((all, _, index) => {
-    const program = {
+    const program: AuthenticationProgramCommon = {
       inputIndex: index,
-      sourceOutput: spentOutputs[index],
+      sourceOutputs: spentOutputs,
       spendingTransaction: transaction,
-    } as AuthenticationProgram;
-    const state = vm.evaluate(program);
+    };
+    const state = vm.evaluate(program as AuthenticationProgram);
     const verify = vm.verify(state);
     if (verify === true) {
       return all;
     }
     return [...all, `Error in evaluating input index "${index}": ${verify}`];
   }, []);
+  const batchErrors =
+    signatureBatch === undefined || signatureBatch.verify()
+      ? []
+      : [
+          'Unable to verify transaction: one or more Schnorr signatures are invalid.',
+        ];
+  const allErrors = [...errors, ...batchErrors];
 
-  return errors.length === 0 ? true : errors;
+  return allErrors.length === 0 ? true : allErrors;
 };
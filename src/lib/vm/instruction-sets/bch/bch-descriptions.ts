@@ -4,15 +4,36 @@ export enum OpcodeDescriptionsUniqueBCH {
   OP_CAT = 'Pop the top 2 items from the stack and concatenate them, pushing the result.',
   OP_SPLIT = 'Pop the top item from the stack as an index (Script Number) and the next item as a byte array. Split the byte array into two stack items at the index (zero-based), pushing the results.',
   OP_NUM2BIN = 'Pop the top item from the stack as an item length (Script Number) and the next item as a Script Number (without encoding restrictions). Re-encode the number using a byte array of the provided length, filling any unused bytes with zeros. (If the requested length is too short to encode the number, error.)',
-  OP_BIN2NUM = "Pop the top item from the stack as a Script Number without encoding restrictions. Minimally-encode the number and push the result. (If the number can't be encoded in 4 bytes or less, error.)",
+  OP_BIN2NUM = "Pop the top item from the stack as a Script Number without encoding restrictions. Minimally-encode the number and push the result. (If the number can't be encoded in 4 bytes or less – or 8 bytes or less beginning in BCH_2022_05 – error.)",
   OP_AND = 'Pop the top 2 items from the stack and perform a bitwise AND on each byte, pushing the result. If the length of the items are not equal, error.',
   OP_OR = 'Pop the top 2 items from the stack and perform a bitwise OR on each byte, pushing the result. If the length of the items are not equal, error.',
   OP_XOR = 'Pop the top 2 items from the stack and perform a bitwise XOR on each byte, pushing the result. If the length of the items are not equal, error.',
+  OP_MUL = 'Pop the top 2 items from the stack as Script Numbers. Multiply them and push the result to the stack. (If the result overflows the Script Number range, error.) This operation is disabled prior to BCH_2022_05.',
   OP_DIV = 'Pop the top item from the stack as a denominator (Script Number) and the next as a numerator (Script Number). Divide and push the result to the stack.',
   OP_MOD = 'Pop the top item from the stack as a denominator (Script Number) and the next as a numerator (Script Number). Divide and push the remainder to the stack.',
   OP_CHECKDATASIG = 'Pop the top 3 items from the stack. Treat the top as a public key, the second as a message, and the third as a signature. If the signature is valid, push a Script Number 1, otherwise push a Script Number 0.',
   OP_CHECKDATASIGVERIFY = 'Pop the top 3 items from the stack. Treat the top as a public key, the second as a message, and the third as a signature. If the signature is not valid, error. (This operation is a combination of OP_CHECKDATASIG followed by OP_VERIFY.)',
   OP_REVERSEBYTES = 'Pop the top item from the stack and reverse it, pushing the result.',
+  OP_INPUTINDEX = 'Push the index of the input being evaluated to the stack as a Script Number.',
+  OP_ACTIVEBYTECODE = 'Push the bytecode currently being evaluated, beginning after the last executed OP_CODESEPARATOR, to the stack. For Pay-to-Script-Hash (P2SH) evaluations, this is the redeem bytecode of the Unspent Transaction Output (UTXO) being spent; for all other evaluations, this is the locking bytecode of the UTXO being spent.',
+  OP_TXVERSION = 'Push the version of the current transaction to the stack as a Script Number.',
+  OP_TXINPUTCOUNT = 'Push the count of inputs in the current transaction to the stack as a Script Number.',
+  OP_TXOUTPUTCOUNT = 'Push the count of outputs in the current transaction to the stack as a Script Number.',
+  OP_TXLOCKTIME = 'Push the locktime of the current transaction to the stack as a Script Number.',
+  OP_UTXOVALUE = 'Pop the top item from the stack as an input index (Script Number). Push the value (in satoshis) of the Unspent Transaction Output (UTXO) spent by that input to the stack as a Script Number.',
+  OP_UTXOBYTECODE = 'Pop the top item from the stack as an input index (Script Number). Push the full locking bytecode of the Unspent Transaction Output (UTXO) spent by that input to the stack.',
+  OP_OUTPOINTTXHASH = 'Pop the top item from the stack as an input index (Script Number). From that input, push the outpoint transaction hash – the hash of the transaction which created the Unspent Transaction Output (UTXO) which is being spent – to the stack in OP_HASH256 byte order.',
+  OP_OUTPOINTINDEX = 'Pop the top item from the stack as an input index (Script Number). From that input, push the outpoint index – the index of the output in the transaction which created the Unspent Transaction Output (UTXO) which is being spent – to the stack as a Script Number.',
+  OP_INPUTBYTECODE = 'Pop the top item from the stack as an input index (Script Number). Push the unlocking bytecode of the input at that index to the stack.',
+  OP_INPUTSEQUENCENUMBER = 'Pop the top item from the stack as an input index (Script Number). Push the sequence number of the input at that index to the stack as a Script Number.',
+  OP_OUTPUTVALUE = 'Pop the top item from the stack as an output index (Script Number). Push the value (in satoshis) of the output at that index to the stack as a Script Number.',
+  OP_OUTPUTBYTECODE = 'Pop the top item from the stack as an output index (Script Number). Push the locking bytecode of the output at that index to the stack.',
+  OP_UTXOTOKENCATEGORY = "Pop the top item from the stack as an input index (Script Number). If the Unspent Transaction Output (UTXO) spent by that input includes no tokens, push a 0 (Script Number) to the stack. If the UTXO does not include a non-fungible token with a capability, push the UTXO's token category, otherwise, push the concatenation of the token category and capability, where the mutable capability is represented by 1 (Script Number) and the minting capability is represented by 2 (Script Number).",
+  OP_UTXOTOKENCOMMITMENT = 'Pop the top item from the stack as an input index (Script Number). Push the token commitment of the Unspent Transaction Output (UTXO) spent by that input to the stack. (If the UTXO does not include a non-fungible token, or if it includes a non-fungible token with a zero-length commitment, push a 0 (Script Number).)',
+  OP_UTXOTOKENAMOUNT = 'Pop the top item from the stack as an input index (Script Number). Push the fungible token amount of the Unspent Transaction Output (UTXO) spent by that input to the stack as a Script Number. (If the UTXO includes no fungible tokens, push a 0.)',
+  OP_OUTPUTTOKENCATEGORY = "Pop the top item from the stack as an output index (Script Number). If the output at that index includes no tokens, push a 0 (Script Number) to the stack. If the output does not include a non-fungible token with a capability, push the output's token category, otherwise, push the concatenation of the token category and capability, where the mutable capability is represented by 1 (Script Number) and the minting capability is represented by 2 (Script Number).",
+  OP_OUTPUTTOKENCOMMITMENT = 'Pop the top item from the stack as an output index (Script Number). Push the token commitment of the output at that index to the stack. (If the output does not include a non-fungible token, or if it includes a non-fungible token with a zero-length commitment, push a 0 (Script Number).)',
+  OP_OUTPUTTOKENAMOUNT = 'Pop the top item from the stack as an output index (Script Number). Push the fungible token amount of the output at that index to the stack as a Script Number. (If the output includes no fungible tokens, push a 0.)',
 }
 
 /**
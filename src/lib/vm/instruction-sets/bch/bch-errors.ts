@@ -5,6 +5,8 @@ export enum AuthenticationErrorBCH {
   divisionByZero = 'Program attempted to divide a number by zero.',
   insufficientLength = 'Program called an OP_NUM2BIN operation with an insufficient byte length to re-encode the provided number.',
   invalidSplitIndex = 'Program called an OP_SPLIT operation with an invalid index.',
+  invalidTransactionInputIndex = 'Program attempted to introspect an input index which does not exist in the transaction.',
+  invalidTransactionOutputIndex = 'Program attempted to introspect an output index which does not exist in the transaction.',
   malformedP2shBytecode = 'Redeem bytecode was malformed prior to P2SH evaluation.',
   mismatchedBitwiseOperandLength = 'Program attempted a bitwise operation on operands of different lengths.',
   requiresPushOnly = 'Unlocking bytecode may contain only push operations.',
@@ -8,11 +8,11 @@ import {
 import {
   applyError,
   AuthenticationErrorCommon,
-  checkLimitsCommon,
+  checkLimits,
   cloneAuthenticationProgramStateCommon,
   cloneStack,
   commonOperations,
-  ConsensusCommon,
+  createAuthenticationProgramMetricsEmpty,
   createAuthenticationProgramStateCommon,
   createTransactionContextCommon,
   stackItemIsTruthy,
@@ -25,6 +25,11 @@ import {
 } from '../instruction-sets-utils';
 
 import { AuthenticationErrorBCH } from './bch-errors';
+import {
+  accountResourceUsageBCH,
+  consensusLimitsBCH,
+  ConsensusLimitsBCH,
+} from './bch-limits';
 import { OpcodesBCH } from './bch-opcodes';
 import { bitcoinCashOperations } from './bch-operations';
 import {
@@ -128,6 +133,8 @@ export enum InstructionSetBCH {
   BCH_2022_05_STRICT_SPEC = 'BCH_2022_05_STRICT',
   BCH_2022_11_SPEC = 'BCH_2022_11',
   BCH_2022_11_STRICT_SPEC = 'BCH_2022_11_STRICT',
+  BCH_2023_05_SPEC = 'BCH_2023_05',
+  BCH_2023_05_STRICT_SPEC = 'BCH_2023_05_STRICT',
 }
 
 /**
@@ -144,51 +151,129 @@ export const getFlagsForInstructionSetBCH = (
   switch (instructionSet) {
     case InstructionSetBCH.BCH_2019_05:
       return {
+        bigScriptIntegers: false,
         disallowUpgradableNops: false,
+        opNativeIntrospection: false,
         opReverseBytes: false,
+        opTokenIntrospection: false,
         requireBugValueZero: false,
         requireMinimalEncoding: false,
         requireNullSignatureFailures: true,
+        schnorrMultisig: false,
       };
     case InstructionSetBCH.BCH_2019_05_STRICT:
       return {
+        bigScriptIntegers: false,
         disallowUpgradableNops: true,
+        opNativeIntrospection: false,
         opReverseBytes: false,
+        opTokenIntrospection: false,
         requireBugValueZero: false,
         requireMinimalEncoding: true,
         requireNullSignatureFailures: true,
+        schnorrMultisig: false,
       };
     case InstructionSetBCH.BCH_2019_11:
       return {
+        bigScriptIntegers: false,
         disallowUpgradableNops: false,
+        opNativeIntrospection: false,
         opReverseBytes: false,
+        opTokenIntrospection: false,
         requireBugValueZero: true,
         requireMinimalEncoding: true,
         requireNullSignatureFailures: true,
+        schnorrMultisig: true,
       };
     case InstructionSetBCH.BCH_2019_11_STRICT:
       return {
+        bigScriptIntegers: false,
         disallowUpgradableNops: true,
+        opNativeIntrospection: false,
         opReverseBytes: false,
+        opTokenIntrospection: false,
         requireBugValueZero: true,
         requireMinimalEncoding: true,
         requireNullSignatureFailures: true,
+        schnorrMultisig: true,
       };
     case InstructionSetBCH.BCH_2020_05:
+    case InstructionSetBCH.BCH_2020_11_SPEC:
+    case InstructionSetBCH.BCH_2021_05_SPEC:
+    case InstructionSetBCH.BCH_2021_11_SPEC:
       return {
+        bigScriptIntegers: false,
         disallowUpgradableNops: false,
+        opNativeIntrospection: false,
         opReverseBytes: true,
+        opTokenIntrospection: false,
         requireBugValueZero: false,
         requireMinimalEncoding: false,
         requireNullSignatureFailures: true,
+        schnorrMultisig: true,
       };
     case InstructionSetBCH.BCH_2020_05_STRICT:
+    case InstructionSetBCH.BCH_2020_11_STRICT_SPEC:
+    case InstructionSetBCH.BCH_2021_05_STRICT_SPEC:
+    case InstructionSetBCH.BCH_2021_11_STRICT_SPEC:
       return {
+        bigScriptIntegers: false,
         disallowUpgradableNops: true,
+        opNativeIntrospection: false,
         opReverseBytes: true,
+        opTokenIntrospection: false,
         requireBugValueZero: true,
         requireMinimalEncoding: true,
         requireNullSignatureFailures: true,
+        schnorrMultisig: true,
+      };
+    case InstructionSetBCH.BCH_2022_05_SPEC:
+      return {
+        bigScriptIntegers: true,
+        disallowUpgradableNops: false,
+        opNativeIntrospection: true,
+        opReverseBytes: true,
+        opTokenIntrospection: false,
+        requireBugValueZero: false,
+        requireMinimalEncoding: false,
+        requireNullSignatureFailures: true,
+        schnorrMultisig: true,
+      };
+    case InstructionSetBCH.BCH_2022_05_STRICT_SPEC:
+      return {
+        bigScriptIntegers: true,
+        disallowUpgradableNops: true,
+        opNativeIntrospection: true,
+        opReverseBytes: true,
+        opTokenIntrospection: false,
+        requireBugValueZero: true,
+        requireMinimalEncoding: true,
+        requireNullSignatureFailures: true,
+        schnorrMultisig: true,
+      };
+    case InstructionSetBCH.BCH_2023_05_SPEC:
+      return {
+        bigScriptIntegers: true,
+        disallowUpgradableNops: false,
+        opNativeIntrospection: true,
+        opReverseBytes: true,
+        opTokenIntrospection: true,
+        requireBugValueZero: false,
+        requireMinimalEncoding: false,
+        requireNullSignatureFailures: true,
+        schnorrMultisig: true,
+      };
+    case InstructionSetBCH.BCH_2023_05_STRICT_SPEC:
+      return {
+        bigScriptIntegers: true,
+        disallowUpgradableNops: true,
+        opNativeIntrospection: true,
+        opReverseBytes: true,
+        opTokenIntrospection: true,
+        requireBugValueZero: true,
+        requireMinimalEncoding: true,
+        requireNullSignatureFailures: true,
+        schnorrMultisig: true,
       };
     default:
       return new Error(
@@ -197,11 +282,74 @@ export const getFlagsForInstructionSetBCH = (
   }
 };
 
+export interface InstructionSetParametersBCH {
+  flags: {
+    readonly bigScriptIntegers: boolean;
+    readonly disallowUpgradableNops: boolean;
+    readonly opNativeIntrospection: boolean;
+    readonly opReverseBytes: boolean;
+    readonly opTokenIntrospection: boolean;
+    readonly requireBugValueZero: boolean;
+    readonly requireMinimalEncoding: boolean;
+    readonly requireNullSignatureFailures: boolean;
+    readonly schnorrMultisig: boolean;
+  };
+  limits?: ConsensusLimitsBCH;
+  sha1: { hash: Sha1['hash'] };
+  sha256: { hash: Sha256['hash'] };
+  ripemd160: { hash: Ripemd160['hash'] };
+  secp256k1: {
+    verifySignatureSchnorr: Secp256k1['verifySignatureSchnorr'];
+    verifySignatureDERLowS: Secp256k1['verifySignatureDERLowS'];
+  };
+}
+
+/**
+ * Create the operations of a BCH instruction set. If `limits.density` is
+ * provided, each operation also accumulates its resource usage in
+ * `state.metrics`.
+ */
+const createOperationsBCH = ({
+  flags,
+  limits = consensusLimitsBCH,
+  ripemd160,
+  secp256k1,
+  sha1,
+  sha256,
+}: InstructionSetParametersBCH) => {
+  const operations = {
+    ...commonOperations<
+      OpcodesBCH,
+      AuthenticationProgramStateBCH,
+      AuthenticationErrorBCH
+    >({ flags, limits, ripemd160, secp256k1, sha1, sha256 }),
+    ...mapOverOperations<AuthenticationProgramStateBCH>(
+      bitcoinCashOperations<OpcodesBCH, AuthenticationProgramStateBCH>({
+        flags,
+        limits,
+        secp256k1,
+        sha256,
+      }),
+      conditionallyEvaluate,
+      incrementOperationCount,
+      checkLimits<AuthenticationProgramStateBCH, AuthenticationErrorBCH>(limits)
+    ),
+  };
+  return limits.density === undefined
+    ? operations
+    : mapOverOperations<AuthenticationProgramStateBCH>(
+        operations,
+        accountResourceUsageBCH(limits.density)
+      );
+};
+
 /**
  * Initialize a new instruction set for the BCH virtual machine.
  *
  * @param flags - an object configuring the flags for this vm (see
  * `getFlagsForInstructionSetBCH`)
+ * @param limits - the consensus limits to enforce, defaults to
+ * `consensusLimitsBCH` (see `ConsensusLimitsBCH`)
  * @param sha1 - a Sha1 implementation
  * @param sha256 - a Sha256 implementation
  * @param ripemd160 - a Ripemd160 implementation
@@ -209,26 +357,12 @@ export const getFlagsForInstructionSetBCH = (
  */
 export const createInstructionSetBCH = ({
   flags,
+  limits = consensusLimitsBCH,
   ripemd160,
   secp256k1,
   sha1,
   sha256,
-}: {
-  flags: {
-    readonly disallowUpgradableNops: boolean;
-    readonly opReverseBytes: boolean;
-    readonly requireBugValueZero: boolean;
-    readonly requireMinimalEncoding: boolean;
-    readonly requireNullSignatureFailures: boolean;
-  };
-  sha1: { hash: Sha1['hash'] };
-  sha256: { hash: Sha256['hash'] };
-  ripemd160: { hash: Ripemd160['hash'] };
-  secp256k1: {
-    verifySignatureSchnorr: Secp256k1['verifySignatureSchnorr'];
-    verifySignatureDERLowS: Secp256k1['verifySignatureDERLowS'];
-  };
-}): InstructionSet<
+}: InstructionSetParametersBCH): InstructionSet<
   AuthenticationProgramBCH,
   AuthenticationProgramStateBCH
 > => ({
@@ -240,21 +374,30 @@ export const createInstructionSetBCH = ({
     const { unlockingBytecode } = program.spendingTransaction.inputs[
       program.inputIndex
     ];
-    const { lockingBytecode } = program.sourceOutput;
+    const sourceOutput = program.sourceOutputs[program.inputIndex];
+    const { lockingBytecode } = sourceOutput;
     const unlockingInstructions = parseBytecode<OpcodesBCH>(unlockingBytecode);
     const lockingInstructions = parseBytecode<OpcodesBCH>(lockingBytecode);
-    const externalState = createTransactionContextCommon(program);
+    const externalState = createTransactionContextCommon({
+      ...program,
+      sourceOutput,
+    });
     const initialState = createAuthenticationProgramStateCommon<
       OpcodesBCH,
       AuthenticationErrorBCH
     >({
       instructions: unlockingInstructions,
+      metrics:
+        limits.density === undefined
+          ? undefined
+          : createAuthenticationProgramMetricsEmpty(),
+      program,
       stack: [],
       transactionContext: externalState,
     });
 
     const unlockingResult =
-      unlockingBytecode.length > ConsensusCommon.maximumBytecodeLength
+      unlockingBytecode.length > limits.maximumBytecodeLength
         ? applyError<AuthenticationProgramStateBCH, AuthenticationErrorBCH>(
             AuthenticationErrorCommon.exceededMaximumBytecodeLengthUnlocking,
             initialState
@@ -264,7 +407,7 @@ export const createInstructionSetBCH = ({
             AuthenticationErrorCommon.malformedUnlockingBytecode,
             initialState
           )
-        : lockingBytecode.length > ConsensusCommon.maximumBytecodeLength
+        : lockingBytecode.length > limits.maximumBytecodeLength
         ? applyError<AuthenticationProgramStateBCH, AuthenticationErrorBCH>(
             AuthenticationErrorCommon.exceededMaximumBytecodeLengthLocking,
             initialState
@@ -292,6 +435,8 @@ export const createInstructionSetBCH = ({
         AuthenticationErrorBCH
       >({
         instructions: lockingInstructions,
+        metrics: unlockingResult.metrics,
+        program,
         stack: unlockingResult.stack,
         transactionContext: externalState,
       })
@@ -320,28 +465,21 @@ export const createInstructionSetBCH = ({
             AuthenticationErrorBCH
           >({
             instructions: p2shInstructions,
+            metrics: lockingResult.metrics,
+            program,
             stack: p2shStack,
             transactionContext: externalState,
           })
         );
   },
-  operations: {
-    ...commonOperations<
-      OpcodesBCH,
-      AuthenticationProgramStateBCH,
-      AuthenticationErrorBCH
-    >({ flags, ripemd160, secp256k1, sha1, sha256 }),
-    ...mapOverOperations<AuthenticationProgramStateBCH>(
-      bitcoinCashOperations<OpcodesBCH, AuthenticationProgramStateBCH>({
-        flags,
-        secp256k1,
-        sha256,
-      }),
-      conditionallyEvaluate,
-      incrementOperationCount,
-      checkLimitsCommon
-    ),
-  },
+  operations: createOperationsBCH({
+    flags,
+    limits,
+    ripemd160,
+    secp256k1,
+    sha1,
+    sha256,
+  }),
   ...undefinedOperation(),
   verify: (state: AuthenticationProgramStateBCH) => {
     if (state.error !== undefined) {
@@ -0,0 +1,369 @@
+import { Operation } from '../../virtual-machine';
+import { AuthenticationProgramMetrics } from '../../vm-types';
+import { consensusLimitsCommon, ConsensusLimitsCommon } from '../common/common';
+import { isScriptNumberError, parseBytesAsScriptNumber } from '../common/types';
+
+import { OpcodesBCH } from './bch-opcodes';
+import { AuthenticationProgramStateBCH } from './bch-types';
+
+/**
+ * The parameters of the density-based limits used to evaluate the resource
+ * usage of an input. Each limit is a budget proportional to the byte length of
+ * the input's unlocking bytecode, so larger inputs (which pay proportionally
+ * larger fees) may perform proportionally more computation.
+ *
+ * The operation cost and hash digest iteration limits are those proposed by
+ * `CHIP-2021-05-vm-limits`; the signature check limit is the per-input
+ * SigChecks standardness rule deployed in `BCH_2020_05`.
+ */
+export interface DensityLimitsBCH {
+  /**
+   * The cost added for every evaluated instruction, including instructions in
+   * unexecuted branches.
+   */
+  readonly baseInstructionCost: number;
+  /**
+   * The number of bytes added to the length of the unlocking bytecode when
+   * computing the operation cost and hash digest iteration budgets (the
+   * minimum serialized length of an input).
+   */
+  readonly densityControlBaseLength: number;
+  /**
+   * The operation cost added for each hash digest iteration.
+   */
+  readonly hashDigestIterationCost: number;
+  /**
+   * The number of hash digest iterations allowed per byte of density control
+   * length.
+   */
+  readonly hashDigestIterationsPerByte: number;
+  /**
+   * The operation cost allowed per byte of density control length.
+   */
+  readonly operationCostBudgetPerByte: number;
+  /**
+   * The operation cost added for each signature check.
+   */
+  readonly signatureCheckCost: number;
+  /**
+   * The number of bytes added to the length of the unlocking bytecode when
+   * computing the signature check budget.
+   */
+  readonly signatureCheckBaseLength: number;
+  /**
+   * The number of unlocking bytecode bytes required per signature check.
+   */
+  readonly bytesPerSignatureCheck: number;
+}
+
+export interface ConsensusLimitsBCH extends ConsensusLimitsCommon {
+  /**
+   * If provided, the instruction set tracks the resource usage of each input
+   * in `state.metrics` (see `AuthenticationProgramMetrics`) using these
+   * parameters. Density limits are not enforced during evaluation – use
+   * `getInputDensityBCH` to compare the resulting metrics with these limits.
+   */
+  readonly density?: DensityLimitsBCH;
+}
+
+/**
+ * The density limits applied to standard transactions.
+ */
+export const densityLimitsStandardBCH: DensityLimitsBCH = {
+  baseInstructionCost: 100,
+  bytesPerSignatureCheck: 43,
+  densityControlBaseLength: 41,
+  hashDigestIterationCost: 192,
+  hashDigestIterationsPerByte: 0.5,
+  operationCostBudgetPerByte: 800,
+  signatureCheckBaseLength: 60,
+  signatureCheckCost: 26000,
+};
+
+/**
+ * The density limits applied to all transactions by consensus (relaxed
+ * relative to `densityLimitsStandardBCH`).
+ */
+export const densityLimitsNonstandardBCH: DensityLimitsBCH = {
+  ...densityLimitsStandardBCH,
+  hashDigestIterationCost: 64,
+  hashDigestIterationsPerByte: 3.5,
+};
+
+/**
+ * The consensus limits of all currently-supported BCH instruction sets.
+ * Resource usage is not tracked.
+ */
+export const consensusLimitsBCH: ConsensusLimitsBCH = consensusLimitsCommon;
+
+/**
+ * The consensus limits proposed by `CHIP-2021-05-vm-limits`: stack items may
+ * be up to 10,000 bytes, and the operation count limit is replaced by the
+ * density-based operation cost limit. Resource usage is tracked using
+ * `densityLimitsStandardBCH`.
+ */
+export const consensusLimitsBCHVmLimitsProposal: ConsensusLimitsBCH = {
+  ...consensusLimitsCommon,
+  density: densityLimitsStandardBCH,
+  maximumOperationCount: Infinity,
+  maximumStackItemLength: 10000,
+};
+
+const enum HashDigest {
+  blockLength = 64,
+  messageLengthBytes = 8,
+}
+
+/**
+ * Get the number of hash digest iterations (compression function
+ * applications) required to hash a message of `messageLength` bytes using
+ * `RIPEMD160`, `SHA1`, or `SHA256`.
+ *
+ * @param messageLength - the byte length of the hashed message
+ */
+export const getHashDigestIterations = (messageLength: number) =>
+  1 +
+  Math.floor(
+    (messageLength + HashDigest.messageLengthBytes) / HashDigest.blockLength
+  );
+
+const enum Multisig {
+  maximumPublicKeys = 20,
+}
+
+const readCount = (item: Uint8Array | undefined) => {
+  if (item === undefined) {
+    return 0;
+  }
+  const value = parseBytesAsScriptNumber(item, {
+    requireMinimalEncoding: false,
+  });
+  return isScriptNumberError(value) ||
+    value < BigInt(0) ||
+    value > BigInt(Multisig.maximumPublicKeys)
+    ? 0
+    : Number(value);
+};
+
+const isNonNullSignature = (signature: Uint8Array | undefined) =>
+  signature !== undefined && signature.length !== 0;
+
+/**
+ * Count the signature checks performed by an operation as specified by the
+ * SigChecks upgrade (`BCH_2020_05`): single-signature operations perform one
+ * check for non-null signatures, legacy-mode multisig operations perform one
+ * check per public key unless all signatures are null, and Schnorr-mode
+ * multisig operations (with a non-null protocol bug value) perform one check
+ * per signature.
+ */
+// eslint-disable-next-line complexity
+const countSignatureChecks = (opcode: number, stack: Uint8Array[]) => {
+  switch (opcode) {
+    case OpcodesBCH.OP_CHECKSIG:
+    case OpcodesBCH.OP_CHECKSIGVERIFY:
+      return isNonNullSignature(stack[stack.length - 2]) ? 1 : 0;
+    case OpcodesBCH.OP_CHECKDATASIG:
+    case OpcodesBCH.OP_CHECKDATASIGVERIFY:
+      // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+      return isNonNullSignature(stack[stack.length - 3]) ? 1 : 0;
+    case OpcodesBCH.OP_CHECKMULTISIG:
+    case OpcodesBCH.OP_CHECKMULTISIGVERIFY: {
+      const publicKeys = readCount(stack[stack.length - 1]);
+      const signaturesIndex = stack.length - 2 - publicKeys;
+      const signatures = readCount(stack[signaturesIndex]);
+      if (isNonNullSignature(stack[signaturesIndex - signatures - 1])) {
+        return signatures;
+      }
+      return stack
+        .slice(signaturesIndex - signatures, signaturesIndex)
+        .some(isNonNullSignature)
+        ? publicKeys
+        : 0;
+    }
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Count the hash digest iterations performed by a hashing operation, given the
+ * stack before the operation is evaluated.
+ */
+const countHashingIterations = (opcode: number, stack: Uint8Array[]) => {
+  const top = stack[stack.length - 1] as Uint8Array | undefined;
+  if (top === undefined) {
+    return 0;
+  }
+  switch (opcode) {
+    case OpcodesBCH.OP_RIPEMD160:
+    case OpcodesBCH.OP_SHA1:
+    case OpcodesBCH.OP_SHA256:
+      return getHashDigestIterations(top.length);
+    case OpcodesBCH.OP_HASH160:
+    case OpcodesBCH.OP_HASH256:
+      return getHashDigestIterations(top.length) + 1;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Count the hash digest iterations performed while checking signatures: data
+ * signature messages are hashed once, while signing serializations are double
+ * hashed.
+ */
+const countSigningIterations = (opcode: number, signedMessages: Uint8Array[]) =>
+  signedMessages.reduce(
+    (total, message) =>
+      total +
+      getHashDigestIterations(message.length) +
+      (opcode === OpcodesBCH.OP_CHECKDATASIG ||
+      opcode === OpcodesBCH.OP_CHECKDATASIGVERIFY
+        ? 0
+        : 1),
+    0
+  );
+
+const isQuadraticArithmetic = (opcode: number) =>
+  opcode === OpcodesBCH.OP_MUL ||
+  opcode === OpcodesBCH.OP_DIV ||
+  opcode === OpcodesBCH.OP_MOD;
+
+/**
+ * Count the bytes pushed to the stack by an operation: every item following
+ * the longest prefix of the stack left unmodified by the operation is
+ * considered to have been pushed.
+ */
+const countPushedBytes = (before: Uint8Array[], after: Uint8Array[]) => {
+  const unmodified = after.findIndex((item, index) => item !== before[index]);
+  return after
+    .slice(unmodified === -1 ? after.length : unmodified)
+    .reduce((total, item) => total + item.length, 0);
+};
+
+const countStackBytes = (state: AuthenticationProgramStateBCH) =>
+  [...state.stack, ...state.alternateStack].reduce(
+    (total, item) => total + item.length,
+    0
+  );
+
+/**
+ * Create a combinator which accumulates the resource usage of each operation
+ * in `state.metrics` (if present) using the provided `DensityLimitsBCH`.
+ *
+ * @param density - the density limit parameters used to compute operation cost
+ */
+export const accountResourceUsageBCH = <
+  State extends AuthenticationProgramStateBCH
+>(
+  density: DensityLimitsBCH
+) => (operation: Operation<State>): Operation<State> => (state: State) => {
+  if (state.metrics === undefined) {
+    return operation(state);
+  }
+  const opcode = (state.instructions[state.ip].opcode as unknown) as number;
+  const executed = state.executionStack.every((item) => item);
+  const stack = state.stack.slice();
+  const signedMessageCount = state.signedMessages.length;
+  const signatureChecks = executed ? countSignatureChecks(opcode, stack) : 0;
+  const hashingIterations = executed
+    ? countHashingIterations(opcode, stack)
+    : 0;
+  const arithmeticCost =
+    executed && isQuadraticArithmetic(opcode) && stack.length >= 2
+      ? stack[stack.length - 1].length * stack[stack.length - 2].length
+      : 0;
+
+  const nextState = operation(state);
+  const { metrics } = nextState as State & {
+    metrics: AuthenticationProgramMetrics;
+  };
+  const hashDigestIterations =
+    hashingIterations +
+    countSigningIterations(
+      opcode,
+      nextState.signedMessages.slice(signedMessageCount)
+    );
+  const checkedSignatures = nextState.error === undefined ? signatureChecks : 0;
+
+  /* eslint-disable functional/no-expression-statement, functional/immutable-data */
+  metrics.hashDigestIterations += hashDigestIterations;
+  metrics.signatureChecks += checkedSignatures;
+  metrics.operationCost +=
+    density.baseInstructionCost +
+    countPushedBytes(stack, nextState.stack) +
+    arithmeticCost +
+    hashDigestIterations * density.hashDigestIterationCost +
+    checkedSignatures * density.signatureCheckCost;
+  metrics.peakStackBytes = Math.max(
+    metrics.peakStackBytes,
+    countStackBytes(nextState)
+  );
+  /* eslint-enable functional/no-expression-statement, functional/immutable-data */
+  return nextState;
+};
+
+export interface DensityUsageBCH {
+  /**
+   * The resources used by the input.
+   */
+  used: number;
+  /**
+   * The maximum resources which may be used by the input.
+   */
+  limit: number;
+  /**
+   * The ratio of `used` to `limit` – inputs with a ratio greater than `1`
+   * exceed the limit.
+   */
+  ratio: number;
+}
+
+export interface InputDensityBCH {
+  hashDigestIterations: DensityUsageBCH;
+  operationCost: DensityUsageBCH;
+  signatureChecks: DensityUsageBCH;
+}
+
+/**
+ * Compare the resource usage metrics of an evaluated input with the density
+ * limits for an input of its size, e.g. to determine how close an input is to
+ * the limits proposed by a VM limits upgrade.
+ *
+ * @param metrics - the `metrics` of the final program state produced by an
+ * instruction set tracking resource usage (see `ConsensusLimitsBCH.density`)
+ * @param unlockingBytecodeLength - the byte length of the input's unlocking
+ * bytecode
+ * @param density - the density limits with which to compare, defaults to
+ * `densityLimitsStandardBCH`
+ */
+export const getInputDensityBCH = (
+  metrics: AuthenticationProgramMetrics,
+  unlockingBytecodeLength: number,
+  density: DensityLimitsBCH = densityLimitsStandardBCH
+): InputDensityBCH => {
+  const densityControlLength =
+    density.densityControlBaseLength + unlockingBytecodeLength;
+  const usage = (used: number, limit: number) => ({
+    limit,
+    ratio: used / limit,
+    used,
+  });
+  return {
+    hashDigestIterations: usage(
+      metrics.hashDigestIterations,
+      Math.floor(densityControlLength * density.hashDigestIterationsPerByte)
+    ),
+    operationCost: usage(
+      metrics.operationCost,
+      densityControlLength * density.operationCostBudgetPerByte
+    ),
+    signatureChecks: usage(
+      metrics.signatureChecks,
+      Math.floor(
+        (unlockingBytecodeLength + density.signatureCheckBaseLength) /
+          density.bytesPerSignatureCheck
+      )
+    ),
+  };
+};
@@ -215,26 +215,86 @@ export enum OpcodesBCH {
   OP_UNKNOWN189 = 0xbd,
   OP_UNKNOWN190 = 0xbe,
   OP_UNKNOWN191 = 0xbf,
-  OP_UNKNOWN192 = 0xc0,
-  OP_UNKNOWN193 = 0xc1,
-  OP_UNKNOWN194 = 0xc2,
-  OP_UNKNOWN195 = 0xc3,
-  OP_UNKNOWN196 = 0xc4,
-  OP_UNKNOWN197 = 0xc5,
-  OP_UNKNOWN198 = 0xc6,
-  OP_UNKNOWN199 = 0xc7,
-  OP_UNKNOWN200 = 0xc8,
-  OP_UNKNOWN201 = 0xc9,
-  OP_UNKNOWN202 = 0xca,
-  OP_UNKNOWN203 = 0xcb,
-  OP_UNKNOWN204 = 0xcc,
-  OP_UNKNOWN205 = 0xcd,
-  OP_UNKNOWN206 = 0xce,
-  OP_UNKNOWN207 = 0xcf,
-  OP_UNKNOWN208 = 0xd0,
-  OP_UNKNOWN209 = 0xd1,
-  OP_UNKNOWN210 = 0xd2,
-  OP_UNKNOWN211 = 0xd3,
+  /**
+   * Previously `OP_UNKNOWN192`
+   */
+  OP_INPUTINDEX = 0xc0,
+  /**
+   * Previously `OP_UNKNOWN193`
+   */
+  OP_ACTIVEBYTECODE = 0xc1,
+  /**
+   * Previously `OP_UNKNOWN194`
+   */
+  OP_TXVERSION = 0xc2,
+  /**
+   * Previously `OP_UNKNOWN195`
+   */
+  OP_TXINPUTCOUNT = 0xc3,
+  /**
+   * Previously `OP_UNKNOWN196`
+   */
+  OP_TXOUTPUTCOUNT = 0xc4,
+  /**
+   * Previously `OP_UNKNOWN197`
+   */
+  OP_TXLOCKTIME = 0xc5,
+  /**
+   * Previously `OP_UNKNOWN198`
+   */
+  OP_UTXOVALUE = 0xc6,
+  /**
+   * Previously `OP_UNKNOWN199`
+   */
+  OP_UTXOBYTECODE = 0xc7,
+  /**
+   * Previously `OP_UNKNOWN200`
+   */
+  OP_OUTPOINTTXHASH = 0xc8,
+  /**
+   * Previously `OP_UNKNOWN201`
+   */
+  OP_OUTPOINTINDEX = 0xc9,
+  /**
+   * Previously `OP_UNKNOWN202`
+   */
+  OP_INPUTBYTECODE = 0xca,
+  /**
+   * Previously `OP_UNKNOWN203`
+   */
+  OP_INPUTSEQUENCENUMBER = 0xcb,
+  /**
+   * Previously `OP_UNKNOWN204`
+   */
+  OP_OUTPUTVALUE = 0xcc,
+  /**
+   * Previously `OP_UNKNOWN205`
+   */
+  OP_OUTPUTBYTECODE = 0xcd,
+  /**
+   * Previously `OP_UNKNOWN206`
+   */
+  OP_UTXOTOKENCATEGORY = 0xce,
+  /**
+   * Previously `OP_UNKNOWN207`
+   */
+  OP_UTXOTOKENCOMMITMENT = 0xcf,
+  /**
+   * Previously `OP_UNKNOWN208`
+   */
+  OP_UTXOTOKENAMOUNT = 0xd0,
+  /**
+   * Previously `OP_UNKNOWN209`
+   */
+  OP_OUTPUTTOKENCATEGORY = 0xd1,
+  /**
+   * Previously `OP_UNKNOWN210`
+   */
+  OP_OUTPUTTOKENCOMMITMENT = 0xd2,
+  /**
+   * Previously `OP_UNKNOWN211`
+   */
+  OP_OUTPUTTOKENAMOUNT = 0xd3,
   OP_UNKNOWN212 = 0xd4,
   OP_UNKNOWN213 = 0xd5,
   OP_UNKNOWN214 = 0xd6,
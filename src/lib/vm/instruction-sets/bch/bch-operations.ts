@@ -1,11 +1,20 @@
 import { Secp256k1, Sha256 } from '../../../crypto/crypto';
 import { flattenBinArray } from '../../../format/hex';
+import { binToBigIntUint64LE } from '../../../format/numbers';
+import {
+  NonFungibleTokenCapability,
+  Output,
+} from '../../../transaction/transaction-types';
+import { Operation } from '../../virtual-machine';
 import {
   AuthenticationProgramStateCommon,
   AuthenticationProgramStateError,
+  AuthenticationProgramStateMinimum,
   AuthenticationProgramStateSignatureAnalysis,
   AuthenticationProgramStateStack,
+  AuthenticationProgramStateTransactionContext,
 } from '../../vm-types';
+import { arithmeticOperations, opMul } from '../common/arithmetic';
 import {
   combineOperations,
   pushToStack,
@@ -15,7 +24,11 @@ import {
   useTwoScriptNumbers,
   useTwoStackItems,
 } from '../common/combinators';
-import { ConsensusCommon } from '../common/common';
+import {
+  ConsensusCommon,
+  consensusLimitsCommon,
+  ConsensusLimitsCommon,
+} from '../common/common';
 import {
   isValidPublicKeyEncoding,
   isValidSignatureEncodingDER,
@@ -23,6 +36,7 @@ import {
 import { applyError, AuthenticationErrorCommon } from '../common/errors';
 import { opVerify } from '../common/flow-control';
 import { bigIntToScriptNumber, booleanToScriptNumber } from '../common/types';
+import { serializeAuthenticationInstructions } from '../instruction-sets-utils';
 
 import { AuthenticationErrorBCH } from './bch-errors';
 import { OpcodesBCH } from './bch-opcodes';
@@ -31,9 +45,13 @@ import { ConsensusBCH } from './bch-types';
 export const opCat = <
   State extends AuthenticationProgramStateStack &
     AuthenticationProgramStateError<AuthenticationErrorBCH>
->() => (state: State) =>
+>({
+  maximumStackItemLength = ConsensusCommon.maximumStackItemLength,
+}: {
+  maximumStackItemLength?: number;
+} = {}) => (state: State) =>
   useTwoStackItems(state, (nextState, [a, b]) =>
-    a.length + b.length > ConsensusCommon.maximumStackItemLength
+    a.length + b.length > maximumStackItemLength
       ? applyError<State, AuthenticationErrorBCH>(
           AuthenticationErrorBCH.exceededMaximumStackItemLength,
           nextState
@@ -45,8 +63,10 @@ export const opSplit = <
   State extends AuthenticationProgramStateStack &
     AuthenticationProgramStateError<AuthenticationErrorBCH>
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useOneScriptNumber(
@@ -62,7 +82,7 @@ export const opSplit = <
           : pushToStack(finalState, item.slice(0, index), item.slice(index))
       );
     },
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 enum Constants {
@@ -97,12 +117,16 @@ export const padMinimallyEncodedScriptNumber = (
 export const opNum2Bin = <
   State extends AuthenticationProgramStateStack &
     AuthenticationProgramStateError<AuthenticationErrorBCH>
->() => (state: State) =>
+>({
+  maximumStackItemLength = ConsensusCommon.maximumStackItemLength,
+}: {
+  maximumStackItemLength?: number;
+} = {}) => (state: State) =>
   useOneScriptNumber(
     state,
     (nextState, value) => {
       const targetLength = Number(value);
-      return targetLength > ConsensusCommon.maximumStackItemLength
+      return targetLength > maximumStackItemLength
         ? applyError<State, AuthenticationErrorBCH>(
             AuthenticationErrorBCH.exceededMaximumStackItemLength,
             nextState
@@ -127,9 +151,8 @@ export const opNum2Bin = <
                   );
             },
             {
-              maximumScriptNumberByteLength:
-                // TODO: is this right?
-                ConsensusCommon.maximumStackItemLength,
+              // TODO: is this right?
+              maximumScriptNumberByteLength: maximumStackItemLength,
               requireMinimalEncoding: false,
             }
           );
@@ -140,12 +163,16 @@ export const opNum2Bin = <
 export const opBin2Num = <
   State extends AuthenticationProgramStateStack &
     AuthenticationProgramStateError<AuthenticationErrorBCH>
->() => (state: State) =>
+>({
+  maximumScriptNumberByteLength = ConsensusCommon.maximumScriptNumberLength,
+}: {
+  maximumScriptNumberByteLength?: number;
+}) => (state: State) =>
   useOneScriptNumber(
     state,
     (nextState, [target]) => {
       const minimallyEncoded = bigIntToScriptNumber(target);
-      return minimallyEncoded.length > ConsensusCommon.maximumScriptNumberLength
+      return minimallyEncoded.length > maximumScriptNumberByteLength
         ? applyError<State, AuthenticationErrorBCH>(
             AuthenticationErrorBCH.exceededMaximumScriptNumberLength,
             nextState
@@ -196,8 +223,10 @@ export const opDiv = <
   State extends AuthenticationProgramStateStack &
     AuthenticationProgramStateError<AuthenticationErrorBCH>
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useTwoScriptNumbers(
@@ -209,15 +238,17 @@ export const opDiv = <
             nextState
           )
         : pushToStack(nextState, bigIntToScriptNumber(a / b)),
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const opMod = <
   State extends AuthenticationProgramStateStack &
     AuthenticationProgramStateError<AuthenticationErrorBCH>
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useTwoScriptNumbers(
@@ -229,7 +260,7 @@ export const opMod = <
             nextState
           )
         : pushToStack(nextState, bigIntToScriptNumber(a % b)),
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 /**
@@ -317,6 +348,485 @@ export const opReverseBytes = <
     pushToStack(nextState, item.slice().reverse())
   );
 
+const enum Introspection {
+  transactionVersionBits = 32,
+  mutableCapability = 0x01,
+  mintingCapability = 0x02,
+}
+
+const pushToStackChecked = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH>
+>(
+  state: State,
+  item: Uint8Array,
+  maximumStackItemLength = ConsensusCommon.maximumStackItemLength
+) =>
+  item.length > maximumStackItemLength
+    ? applyError<State, AuthenticationErrorBCH>(
+        AuthenticationErrorBCH.exceededMaximumStackItemLength,
+        state
+      )
+    : pushToStack(state, item);
+
+const pushNumberToStack = <State extends AuthenticationProgramStateStack>(
+  state: State,
+  value: bigint | number
+) => pushToStack(state, bigIntToScriptNumber(BigInt(value)));
+
+/**
+ * Pop an index from the stack (as a Script Number), and call `operation` with
+ * the index if it is less than `length`. Otherwise, apply `error`.
+ */
+const useIndex = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH>
+>(
+  state: State,
+  length: number,
+  error: AuthenticationErrorBCH,
+  operation: (nextState: State, index: number) => State,
+  { requireMinimalEncoding }: { requireMinimalEncoding: boolean }
+) =>
+  useOneScriptNumber(
+    state,
+    (nextState, [value]) => {
+      const index = Number(value);
+      return index < 0 || index >= length
+        ? applyError<State, AuthenticationErrorBCH>(error, nextState)
+        : operation(nextState, index);
+    },
+    { requireMinimalEncoding }
+  );
+
+const useInputIndex = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH> &
+    AuthenticationProgramStateTransactionContext
+>(
+  state: State,
+  operation: (nextState: State, index: number) => State,
+  flags: { requireMinimalEncoding: boolean }
+) =>
+  useIndex(
+    state,
+    state.spendingTransaction.inputs.length,
+    AuthenticationErrorBCH.invalidTransactionInputIndex,
+    operation,
+    flags
+  );
+
+const useOutputIndex = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH> &
+    AuthenticationProgramStateTransactionContext
+>(
+  state: State,
+  operation: (nextState: State, index: number) => State,
+  flags: { requireMinimalEncoding: boolean }
+) =>
+  useIndex(
+    state,
+    state.spendingTransaction.outputs.length,
+    AuthenticationErrorBCH.invalidTransactionOutputIndex,
+    operation,
+    flags
+  );
+
+export const opInputIndex = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateTransactionContext
+>() => (state: State) => pushNumberToStack(state, state.inputIndex);
+
+export const opActiveBytecode = <
+  Opcodes,
+  State extends AuthenticationProgramStateMinimum<Opcodes> &
+    AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH> & {
+      lastCodeSeparator: number;
+    }
+>({
+  maximumStackItemLength,
+}: {
+  maximumStackItemLength?: number;
+} = {}) => (state: State) =>
+  pushToStackChecked(
+    state,
+    serializeAuthenticationInstructions(
+      state.instructions.slice(state.lastCodeSeparator + 1)
+    ),
+    maximumStackItemLength
+  );
+
+export const opTxVersion = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateTransactionContext
+>() => (state: State) =>
+  pushNumberToStack(
+    state,
+    BigInt.asIntN(
+      Introspection.transactionVersionBits,
+      BigInt(state.spendingTransaction.version)
+    )
+  );
+
+export const opTxInputCount = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateTransactionContext
+>() => (state: State) =>
+  pushNumberToStack(state, state.spendingTransaction.inputs.length);
+
+export const opTxOutputCount = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateTransactionContext
+>() => (state: State) =>
+  pushNumberToStack(state, state.spendingTransaction.outputs.length);
+
+export const opTxLocktime = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateTransactionContext
+>() => (state: State) =>
+  pushNumberToStack(state, state.spendingTransaction.locktime);
+
+export const opUtxoValue = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH> &
+    AuthenticationProgramStateTransactionContext
+>(flags: {
+  requireMinimalEncoding: boolean;
+}) => (state: State) =>
+  useInputIndex(
+    state,
+    (nextState, index) =>
+      pushNumberToStack(
+        nextState,
+        binToBigIntUint64LE(nextState.sourceOutputs[index].satoshis)
+      ),
+    flags
+  );
+
+export const opUtxoBytecode = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH> &
+    AuthenticationProgramStateTransactionContext
+>(flags: {
+  maximumStackItemLength?: number;
+  requireMinimalEncoding: boolean;
+}) => (state: State) =>
+  useInputIndex(
+    state,
+    (nextState, index) =>
+      pushToStackChecked(
+        nextState,
+        nextState.sourceOutputs[index].lockingBytecode.slice(),
+        flags.maximumStackItemLength
+      ),
+    flags
+  );
+
+export const opOutpointTxHash = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH> &
+    AuthenticationProgramStateTransactionContext
+>(flags: {
+  requireMinimalEncoding: boolean;
+}) => (state: State) =>
+  useInputIndex(
+    state,
+    (nextState, index) =>
+      pushToStack(
+        nextState,
+        nextState.spendingTransaction.inputs[index].outpointTransactionHash
+          .slice()
+          .reverse()
+      ),
+    flags
+  );
+
+export const opOutpointIndex = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH> &
+    AuthenticationProgramStateTransactionContext
+>(flags: {
+  requireMinimalEncoding: boolean;
+}) => (state: State) =>
+  useInputIndex(
+    state,
+    (nextState, index) =>
+      pushNumberToStack(
+        nextState,
+        nextState.spendingTransaction.inputs[index].outpointIndex
+      ),
+    flags
+  );
+
+export const opInputBytecode = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH> &
+    AuthenticationProgramStateTransactionContext
+>(flags: {
+  maximumStackItemLength?: number;
+  requireMinimalEncoding: boolean;
+}) => (state: State) =>
+  useInputIndex(
+    state,
+    (nextState, index) =>
+      pushToStackChecked(
+        nextState,
+        nextState.spendingTransaction.inputs[index].unlockingBytecode.slice(),
+        flags.maximumStackItemLength
+      ),
+    flags
+  );
+
+export const opInputSequenceNumber = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH> &
+    AuthenticationProgramStateTransactionContext
+>(flags: {
+  requireMinimalEncoding: boolean;
+}) => (state: State) =>
+  useInputIndex(
+    state,
+    (nextState, index) =>
+      pushNumberToStack(
+        nextState,
+        nextState.spendingTransaction.inputs[index].sequenceNumber
+      ),
+    flags
+  );
+
+export const opOutputValue = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH> &
+    AuthenticationProgramStateTransactionContext
+>(flags: {
+  requireMinimalEncoding: boolean;
+}) => (state: State) =>
+  useOutputIndex(
+    state,
+    (nextState, index) =>
+      pushNumberToStack(
+        nextState,
+        binToBigIntUint64LE(
+          nextState.spendingTransaction.outputs[index].satoshis
+        )
+      ),
+    flags
+  );
+
+export const opOutputBytecode = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH> &
+    AuthenticationProgramStateTransactionContext
+>(flags: {
+  maximumStackItemLength?: number;
+  requireMinimalEncoding: boolean;
+}) => (state: State) =>
+  useOutputIndex(
+    state,
+    (nextState, index) =>
+      pushToStackChecked(
+        nextState,
+        nextState.spendingTransaction.outputs[index].lockingBytecode.slice(),
+        flags.maximumStackItemLength
+      ),
+    flags
+  );
+
+/**
+ * Encode the token category of an output as pushed by the token introspection
+ * operations: the category ID in `OP_HASH256` byte order, followed by `0x01`
+ * for a mutable non-fungible token or `0x02` for a minting non-fungible token.
+ * If the output holds no tokens, an empty `Uint8Array` is returned.
+ */
+const encodeTokenCategory = (token: Output['token']) =>
+  token === undefined
+    ? Uint8Array.of()
+    : flattenBinArray([
+        token.category.slice().reverse(),
+        token.nft?.capability === NonFungibleTokenCapability.mutable
+          ? Uint8Array.of(Introspection.mutableCapability)
+          : token.nft?.capability === NonFungibleTokenCapability.minting
+          ? Uint8Array.of(Introspection.mintingCapability)
+          : Uint8Array.of(),
+      ]);
+
+export const opUtxoTokenCategory = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH> &
+    AuthenticationProgramStateTransactionContext
+>(flags: {
+  requireMinimalEncoding: boolean;
+}) => (state: State) =>
+  useInputIndex(
+    state,
+    (nextState, index) =>
+      pushToStack(
+        nextState,
+        encodeTokenCategory(nextState.sourceOutputs[index].token)
+      ),
+    flags
+  );
+
+export const opUtxoTokenCommitment = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH> &
+    AuthenticationProgramStateTransactionContext
+>(flags: {
+  requireMinimalEncoding: boolean;
+}) => (state: State) =>
+  useInputIndex(
+    state,
+    (nextState, index) =>
+      pushToStack(
+        nextState,
+        nextState.sourceOutputs[index].token?.nft?.commitment.slice() ??
+          Uint8Array.of()
+      ),
+    flags
+  );
+
+export const opUtxoTokenAmount = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH> &
+    AuthenticationProgramStateTransactionContext
+>(flags: {
+  requireMinimalEncoding: boolean;
+}) => (state: State) =>
+  useInputIndex(
+    state,
+    (nextState, index) =>
+      pushNumberToStack(
+        nextState,
+        nextState.sourceOutputs[index].token?.amount ?? BigInt(0)
+      ),
+    flags
+  );
+
+export const opOutputTokenCategory = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH> &
+    AuthenticationProgramStateTransactionContext
+>(flags: {
+  requireMinimalEncoding: boolean;
+}) => (state: State) =>
+  useOutputIndex(
+    state,
+    (nextState, index) =>
+      pushToStack(
+        nextState,
+        encodeTokenCategory(nextState.spendingTransaction.outputs[index].token)
+      ),
+    flags
+  );
+
+export const opOutputTokenCommitment = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH> &
+    AuthenticationProgramStateTransactionContext
+>(flags: {
+  requireMinimalEncoding: boolean;
+}) => (state: State) =>
+  useOutputIndex(
+    state,
+    (nextState, index) =>
+      pushToStack(
+        nextState,
+        nextState.spendingTransaction.outputs[
+          index
+        ].token?.nft?.commitment.slice() ?? Uint8Array.of()
+      ),
+    flags
+  );
+
+export const opOutputTokenAmount = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<AuthenticationErrorBCH> &
+    AuthenticationProgramStateTransactionContext
+>(flags: {
+  requireMinimalEncoding: boolean;
+}) => (state: State) =>
+  useOutputIndex(
+    state,
+    (nextState, index) =>
+      pushNumberToStack(
+        nextState,
+        nextState.spendingTransaction.outputs[index].token?.amount ?? BigInt(0)
+      ),
+    flags
+  );
+
+/**
+ * The native transaction introspection operations specified by
+ * CHIP-2021-02 (deployed in `BCH_2022_05`).
+ */
+export const introspectionOperations = <
+  Opcodes,
+  State extends AuthenticationProgramStateCommon<
+    Opcodes,
+    AuthenticationErrorBCH
+  >
+>(flags: {
+  maximumStackItemLength?: number;
+  requireMinimalEncoding: boolean;
+}) => ({
+  [OpcodesBCH.OP_INPUTINDEX]: opInputIndex<State>(),
+  [OpcodesBCH.OP_ACTIVEBYTECODE]: opActiveBytecode<Opcodes, State>(flags),
+  [OpcodesBCH.OP_TXVERSION]: opTxVersion<State>(),
+  [OpcodesBCH.OP_TXINPUTCOUNT]: opTxInputCount<State>(),
+  [OpcodesBCH.OP_TXOUTPUTCOUNT]: opTxOutputCount<State>(),
+  [OpcodesBCH.OP_TXLOCKTIME]: opTxLocktime<State>(),
+  [OpcodesBCH.OP_UTXOVALUE]: opUtxoValue<State>(flags),
+  [OpcodesBCH.OP_UTXOBYTECODE]: opUtxoBytecode<State>(flags),
+  [OpcodesBCH.OP_OUTPOINTTXHASH]: opOutpointTxHash<State>(flags),
+  [OpcodesBCH.OP_OUTPOINTINDEX]: opOutpointIndex<State>(flags),
+  [OpcodesBCH.OP_INPUTBYTECODE]: opInputBytecode<State>(flags),
+  [OpcodesBCH.OP_INPUTSEQUENCENUMBER]: opInputSequenceNumber<State>(flags),
+  [OpcodesBCH.OP_OUTPUTVALUE]: opOutputValue<State>(flags),
+  [OpcodesBCH.OP_OUTPUTBYTECODE]: opOutputBytecode<State>(flags),
+});
+
+/**
+ * The arithmetic operations as modified by CHIP-2021-03 (deployed in
+ * `BCH_2022_05`): Script Numbers may be up to 8 bytes, results which overflow
+ * the Script Number range produce an error, and `OP_MUL` is re-enabled.
+ */
+export const bigIntegerOperations = <
+  Opcodes,
+  State extends AuthenticationProgramStateCommon<
+    Opcodes,
+    AuthenticationErrorBCH
+  >
+>(flags: {
+  maximumScriptNumberByteLength?: number;
+  requireMinimalEncoding: boolean;
+}): { readonly [opcodes: number]: Operation<State> } => ({
+  ...arithmeticOperations<Opcodes, State, AuthenticationErrorBCH>(flags),
+  [OpcodesBCH.OP_MUL]: opMul<State, AuthenticationErrorBCH>(flags),
+});
+
+/**
+ * The token introspection operations specified by CHIP-2022-02 (CashTokens,
+ * deployed in `BCH_2023_05`).
+ */
+export const tokenIntrospectionOperations = <
+  Opcodes,
+  State extends AuthenticationProgramStateCommon<
+    Opcodes,
+    AuthenticationErrorBCH
+  >
+>(flags: {
+  requireMinimalEncoding: boolean;
+}) => ({
+  [OpcodesBCH.OP_UTXOTOKENCATEGORY]: opUtxoTokenCategory<State>(flags),
+  [OpcodesBCH.OP_UTXOTOKENCOMMITMENT]: opUtxoTokenCommitment<State>(flags),
+  [OpcodesBCH.OP_UTXOTOKENAMOUNT]: opUtxoTokenAmount<State>(flags),
+  [OpcodesBCH.OP_OUTPUTTOKENCATEGORY]: opOutputTokenCategory<State>(flags),
+  [OpcodesBCH.OP_OUTPUTTOKENCOMMITMENT]: opOutputTokenCommitment<State>(flags),
+  [OpcodesBCH.OP_OUTPUTTOKENAMOUNT]: opOutputTokenAmount<State>(flags),
+});
+
 export const bitcoinCashOperations = <
   Opcodes,
   State extends AuthenticationProgramStateCommon<
@@ -325,6 +835,7 @@ export const bitcoinCashOperations = <
   >
 >({
   flags,
+  limits = consensusLimitsCommon,
   secp256k1,
   sha256,
 }: {
@@ -333,23 +844,37 @@ export const bitcoinCashOperations = <
     verifySignatureSchnorr: Secp256k1['verifySignatureSchnorr'];
     verifySignatureDERLowS: Secp256k1['verifySignatureDERLowS'];
   };
+  /**
+   * The consensus limits to enforce, defaults to `consensusLimitsCommon`.
+   */
+  limits?: ConsensusLimitsCommon;
   flags: {
+    bigScriptIntegers: boolean;
+    opNativeIntrospection: boolean;
     opReverseBytes: boolean;
+    opTokenIntrospection: boolean;
     requireBugValueZero: boolean;
     requireMinimalEncoding: boolean;
     requireNullSignatureFailures: boolean;
   };
 }) => {
+  const scriptNumberFlags = {
+    maximumScriptNumberByteLength: flags.bigScriptIntegers
+      ? ConsensusBCH.maximumBigScriptNumberLength
+      : undefined,
+    requireMinimalEncoding: flags.requireMinimalEncoding,
+  };
+  const { maximumStackItemLength } = limits;
   const operations = {
-    [OpcodesBCH.OP_CAT]: opCat<State>(),
-    [OpcodesBCH.OP_SPLIT]: opSplit<State>(flags),
-    [OpcodesBCH.OP_NUM2BIN]: opNum2Bin<State>(),
-    [OpcodesBCH.OP_BIN2NUM]: opBin2Num<State>(),
+    [OpcodesBCH.OP_CAT]: opCat<State>({ maximumStackItemLength }),
+    [OpcodesBCH.OP_SPLIT]: opSplit<State>(scriptNumberFlags),
+    [OpcodesBCH.OP_NUM2BIN]: opNum2Bin<State>({ maximumStackItemLength }),
+    [OpcodesBCH.OP_BIN2NUM]: opBin2Num<State>(scriptNumberFlags),
     [OpcodesBCH.OP_AND]: opAnd<State>(),
     [OpcodesBCH.OP_OR]: opOr<State>(),
     [OpcodesBCH.OP_XOR]: opXor<State>(),
-    [OpcodesBCH.OP_DIV]: opDiv<State>(flags),
-    [OpcodesBCH.OP_MOD]: opMod<State>(flags),
+    [OpcodesBCH.OP_DIV]: opDiv<State>(scriptNumberFlags),
+    [OpcodesBCH.OP_MOD]: opMod<State>(scriptNumberFlags),
     [OpcodesBCH.OP_CHECKDATASIG]: opCheckDataSig<State, AuthenticationErrorBCH>(
       {
         secp256k1,
@@ -361,7 +886,28 @@ export const bitcoinCashOperations = <
       AuthenticationErrorBCH
     >({ secp256k1, sha256 }),
   };
-  return flags.opReverseBytes
+  const operationsWithReverseBytes = flags.opReverseBytes
     ? { ...operations, [OpcodesBCH.OP_REVERSEBYTES]: opReverseBytes<State>() }
     : operations;
+  const operationsWithBigIntegers = flags.bigScriptIntegers
+    ? {
+        ...operationsWithReverseBytes,
+        ...bigIntegerOperations<Opcodes, State>(scriptNumberFlags),
+      }
+    : operationsWithReverseBytes;
+  const operationsWithIntrospection = flags.opNativeIntrospection
+    ? {
+        ...operationsWithBigIntegers,
+        ...introspectionOperations<Opcodes, State>({
+          maximumStackItemLength,
+          requireMinimalEncoding: flags.requireMinimalEncoding,
+        }),
+      }
+    : operationsWithBigIntegers;
+  return flags.opTokenIntrospection
+    ? {
+        ...operationsWithIntrospection,
+        ...tokenIntrospectionOperations<Opcodes, State>(flags),
+      }
+    : operationsWithIntrospection;
 };
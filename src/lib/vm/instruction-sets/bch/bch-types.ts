@@ -19,6 +19,11 @@ import { OpcodesBCH } from './bch-opcodes';
 
 export enum ConsensusBCH {
   schnorrSignatureLength = 64,
+  /**
+   * The maximum byte length of Script Numbers in instruction sets supporting
+   * 64-bit integers (CHIP-2021-03, deployed in `BCH_2022_05`).
+   */
+  maximumBigScriptNumberLength = 8,
 }
 
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
@@ -77,7 +82,7 @@ export const createTestAuthenticationProgramBCH = ({
   };
   return {
     inputIndex: 0,
-    sourceOutput: testFundingTransaction.outputs[0],
+    sourceOutputs: testFundingTransaction.outputs,
     spendingTransaction: testSpendingTransaction,
   };
 };
@@ -3,12 +3,27 @@
 import test from 'ava';
 
 import {
+  AuthenticationErrorBCH,
+  AuthenticationErrorCommon,
+  AuthenticationProgramBCH,
+  AuthenticationProgramMetrics,
   AuthenticationProgramStateBCH,
+  bigIntToBinUint64LE,
+  bigIntToScriptNumber,
+  consensusLimitsBCH,
+  ConsensusLimitsBCH,
+  consensusLimitsBCHVmLimitsProposal,
   createAuthenticationProgramStateCommonEmpty,
   createTestAuthenticationProgramBCH,
+  encodeDataPush,
+  flattenBinArray,
+  getInputDensityBCH,
   hexToBin,
+  instantiateSecp256k1,
   instantiateSha256,
   instantiateVirtualMachineBCH,
+  InstructionSetBCH,
+  NonFungibleTokenCapability,
   OpcodesBCH,
   parseBytecode,
 } from '../../../lib';
@@ -25,6 +40,7 @@ test('[BCH VM] vm.stateEvaluate: OP_2 OP_2 OP_ADD', async (t) => {
     alternateStack: [],
     correspondingOutput: Uint8Array.of(0),
     executionStack: [],
+    inputIndex: 0,
     instructions: [
       {
         opcode: 82,
@@ -48,6 +64,8 @@ test('[BCH VM] vm.stateEvaluate: OP_2 OP_2 OP_ADD', async (t) => {
     sequenceNumber: 0,
     signatureOperationsCount: 0,
     signedMessages: [],
+    sourceOutputs: [],
+    spendingTransaction: { inputs: [], locktime: 0, outputs: [], version: 0 },
     stack: [Uint8Array.of(0x04)],
     transactionOutpoints: Uint8Array.of(0),
     transactionOutputs: Uint8Array.of(0),
@@ -69,6 +87,7 @@ test('[BCH VM] vm.stateDebug: OP_2 OP_2 OP_ADD', async (t) => {
       alternateStack: [],
       correspondingOutput: Uint8Array.of(0),
       executionStack: [],
+      inputIndex: 0,
       instructions: [
         {
           opcode: 82,
@@ -92,6 +111,8 @@ test('[BCH VM] vm.stateDebug: OP_2 OP_2 OP_ADD', async (t) => {
       sequenceNumber: 0,
       signatureOperationsCount: 0,
       signedMessages: [],
+      sourceOutputs: [],
+      spendingTransaction: { inputs: [], locktime: 0, outputs: [], version: 0 },
       stack: [],
       transactionOutpoints: Uint8Array.of(0),
       transactionOutputs: Uint8Array.of(0),
@@ -102,6 +123,7 @@ test('[BCH VM] vm.stateDebug: OP_2 OP_2 OP_ADD', async (t) => {
       alternateStack: [],
       correspondingOutput: Uint8Array.of(0),
       executionStack: [],
+      inputIndex: 0,
       instructions: [
         {
           opcode: 82,
@@ -125,6 +147,8 @@ test('[BCH VM] vm.stateDebug: OP_2 OP_2 OP_ADD', async (t) => {
       sequenceNumber: 0,
       signatureOperationsCount: 0,
       signedMessages: [],
+      sourceOutputs: [],
+      spendingTransaction: { inputs: [], locktime: 0, outputs: [], version: 0 },
       stack: [Uint8Array.of(0x02)],
       transactionOutpoints: Uint8Array.of(0),
       transactionOutputs: Uint8Array.of(0),
@@ -135,6 +159,7 @@ test('[BCH VM] vm.stateDebug: OP_2 OP_2 OP_ADD', async (t) => {
       alternateStack: [],
       correspondingOutput: Uint8Array.of(0),
       executionStack: [],
+      inputIndex: 0,
       instructions: [
         {
           opcode: 82,
@@ -158,6 +183,8 @@ test('[BCH VM] vm.stateDebug: OP_2 OP_2 OP_ADD', async (t) => {
       sequenceNumber: 0,
       signatureOperationsCount: 0,
       signedMessages: [],
+      sourceOutputs: [],
+      spendingTransaction: { inputs: [], locktime: 0, outputs: [], version: 0 },
       stack: [Uint8Array.of(0x02), Uint8Array.of(0x02)],
       transactionOutpoints: Uint8Array.of(0),
       transactionOutputs: Uint8Array.of(0),
@@ -168,6 +195,7 @@ test('[BCH VM] vm.stateDebug: OP_2 OP_2 OP_ADD', async (t) => {
       alternateStack: [],
       correspondingOutput: Uint8Array.of(0),
       executionStack: [],
+      inputIndex: 0,
       instructions: [
         {
           opcode: 82,
@@ -191,6 +219,8 @@ test('[BCH VM] vm.stateDebug: OP_2 OP_2 OP_ADD', async (t) => {
       sequenceNumber: 0,
       signatureOperationsCount: 0,
       signedMessages: [],
+      sourceOutputs: [],
+      spendingTransaction: { inputs: [], locktime: 0, outputs: [], version: 0 },
       stack: [Uint8Array.of(0x04)],
       transactionOutpoints: Uint8Array.of(0),
       transactionOutputs: Uint8Array.of(0),
@@ -217,6 +247,7 @@ test('[BCH VM] vm.stateStep through: OP_2 OP_2 OP_ADD', async (t) => {
     alternateStack: [],
     correspondingOutput: Uint8Array.of(0),
     executionStack: [],
+    inputIndex: 0,
     instructions: [
       {
         opcode: 82,
@@ -240,6 +271,8 @@ test('[BCH VM] vm.stateStep through: OP_2 OP_2 OP_ADD', async (t) => {
     sequenceNumber: 0,
     signatureOperationsCount: 0,
     signedMessages: [],
+    sourceOutputs: [],
+    spendingTransaction: { inputs: [], locktime: 0, outputs: [], version: 0 },
     stack: [],
     transactionOutpoints: Uint8Array.of(0),
     transactionOutputs: Uint8Array.of(0),
@@ -250,6 +283,7 @@ test('[BCH VM] vm.stateStep through: OP_2 OP_2 OP_ADD', async (t) => {
     alternateStack: [],
     correspondingOutput: Uint8Array.of(0),
     executionStack: [],
+    inputIndex: 0,
     instructions: [
       {
         opcode: 82,
@@ -273,6 +307,8 @@ test('[BCH VM] vm.stateStep through: OP_2 OP_2 OP_ADD', async (t) => {
     sequenceNumber: 0,
     signatureOperationsCount: 0,
     signedMessages: [],
+    sourceOutputs: [],
+    spendingTransaction: { inputs: [], locktime: 0, outputs: [], version: 0 },
     stack: [Uint8Array.of(0x02)],
     transactionOutpoints: Uint8Array.of(0),
     transactionOutputs: Uint8Array.of(0),
@@ -283,6 +319,7 @@ test('[BCH VM] vm.stateStep through: OP_2 OP_2 OP_ADD', async (t) => {
     alternateStack: [],
     correspondingOutput: Uint8Array.of(0),
     executionStack: [],
+    inputIndex: 0,
     instructions: [
       {
         opcode: 82,
@@ -306,6 +343,8 @@ test('[BCH VM] vm.stateStep through: OP_2 OP_2 OP_ADD', async (t) => {
     sequenceNumber: 0,
     signatureOperationsCount: 0,
     signedMessages: [],
+    sourceOutputs: [],
+    spendingTransaction: { inputs: [], locktime: 0, outputs: [], version: 0 },
     stack: [Uint8Array.of(0x02), Uint8Array.of(0x02)],
     transactionOutpoints: Uint8Array.of(0),
     transactionOutputs: Uint8Array.of(0),
@@ -316,6 +355,7 @@ test('[BCH VM] vm.stateStep through: OP_2 OP_2 OP_ADD', async (t) => {
     alternateStack: [],
     correspondingOutput: Uint8Array.of(0),
     executionStack: [],
+    inputIndex: 0,
     instructions: [
       {
         opcode: 82,
@@ -339,6 +379,8 @@ test('[BCH VM] vm.stateStep through: OP_2 OP_2 OP_ADD', async (t) => {
     sequenceNumber: 0,
     signatureOperationsCount: 0,
     signedMessages: [],
+    sourceOutputs: [],
+    spendingTransaction: { inputs: [], locktime: 0, outputs: [], version: 0 },
     stack: [Uint8Array.of(0x04)],
     transactionOutpoints: Uint8Array.of(0),
     transactionOutputs: Uint8Array.of(0),
@@ -365,6 +407,7 @@ test('[BCH VM] vm.evaluate: only lockingBytecode: OP_2 OP_2 OP_ADD', async (t) =
     alternateStack: [],
     correspondingOutput: hexToBin('000000000000000000'),
     executionStack: [],
+    inputIndex: 0,
     instructions: [
       {
         opcode: 82,
@@ -388,6 +431,8 @@ test('[BCH VM] vm.evaluate: only lockingBytecode: OP_2 OP_2 OP_ADD', async (t) =
     sequenceNumber: 4294967295,
     signatureOperationsCount: 0,
     signedMessages: [],
+    sourceOutputs: program.sourceOutputs,
+    spendingTransaction: program.spendingTransaction,
     stack: [Uint8Array.of(0x04)],
     transactionOutpoints: hexToBin(
       'afc2d6568ca9a00a1d490c6a91332cc5699dde309a0e69d21967d1b10878d2e300000000'
@@ -417,6 +462,7 @@ test('[BCH VM] vm.debug: only lockingBytecode: OP_2 OP_2 OP_ADD', async (t) => {
       alternateStack: [],
       correspondingOutput: hexToBin('000000000000000000'),
       executionStack: [],
+      inputIndex: 0,
       instructions: [],
       ip: 0,
       lastCodeSeparator: -1,
@@ -430,6 +476,8 @@ test('[BCH VM] vm.debug: only lockingBytecode: OP_2 OP_2 OP_ADD', async (t) => {
       sequenceNumber: 4294967295,
       signatureOperationsCount: 0,
       signedMessages: [],
+      sourceOutputs: program.sourceOutputs,
+      spendingTransaction: program.spendingTransaction,
       stack: [],
       transactionOutpoints: hexToBin(
         'afc2d6568ca9a00a1d490c6a91332cc5699dde309a0e69d21967d1b10878d2e300000000'
@@ -442,6 +490,7 @@ test('[BCH VM] vm.debug: only lockingBytecode: OP_2 OP_2 OP_ADD', async (t) => {
       alternateStack: [],
       correspondingOutput: hexToBin('000000000000000000'),
       executionStack: [],
+      inputIndex: 0,
       instructions: [
         {
           opcode: 82,
@@ -465,6 +514,8 @@ test('[BCH VM] vm.debug: only lockingBytecode: OP_2 OP_2 OP_ADD', async (t) => {
       sequenceNumber: 4294967295,
       signatureOperationsCount: 0,
       signedMessages: [],
+      sourceOutputs: program.sourceOutputs,
+      spendingTransaction: program.spendingTransaction,
       stack: [],
       transactionOutpoints: hexToBin(
         'afc2d6568ca9a00a1d490c6a91332cc5699dde309a0e69d21967d1b10878d2e300000000'
@@ -477,6 +528,7 @@ test('[BCH VM] vm.debug: only lockingBytecode: OP_2 OP_2 OP_ADD', async (t) => {
       alternateStack: [],
       correspondingOutput: hexToBin('000000000000000000'),
       executionStack: [],
+      inputIndex: 0,
       instructions: [
         {
           opcode: 82,
@@ -500,6 +552,8 @@ test('[BCH VM] vm.debug: only lockingBytecode: OP_2 OP_2 OP_ADD', async (t) => {
       sequenceNumber: 4294967295,
       signatureOperationsCount: 0,
       signedMessages: [],
+      sourceOutputs: program.sourceOutputs,
+      spendingTransaction: program.spendingTransaction,
       stack: [Uint8Array.of(0x02)],
       transactionOutpoints: hexToBin(
         'afc2d6568ca9a00a1d490c6a91332cc5699dde309a0e69d21967d1b10878d2e300000000'
@@ -512,6 +566,7 @@ test('[BCH VM] vm.debug: only lockingBytecode: OP_2 OP_2 OP_ADD', async (t) => {
       alternateStack: [],
       correspondingOutput: hexToBin('000000000000000000'),
       executionStack: [],
+      inputIndex: 0,
       instructions: [
         {
           opcode: 82,
@@ -535,6 +590,8 @@ test('[BCH VM] vm.debug: only lockingBytecode: OP_2 OP_2 OP_ADD', async (t) => {
       sequenceNumber: 4294967295,
       signatureOperationsCount: 0,
       signedMessages: [],
+      sourceOutputs: program.sourceOutputs,
+      spendingTransaction: program.spendingTransaction,
       stack: [Uint8Array.of(0x02), Uint8Array.of(0x02)],
       transactionOutpoints: hexToBin(
         'afc2d6568ca9a00a1d490c6a91332cc5699dde309a0e69d21967d1b10878d2e300000000'
@@ -547,6 +604,7 @@ test('[BCH VM] vm.debug: only lockingBytecode: OP_2 OP_2 OP_ADD', async (t) => {
       alternateStack: [],
       correspondingOutput: hexToBin('000000000000000000'),
       executionStack: [],
+      inputIndex: 0,
       instructions: [
         {
           opcode: 82,
@@ -570,6 +628,8 @@ test('[BCH VM] vm.debug: only lockingBytecode: OP_2 OP_2 OP_ADD', async (t) => {
       sequenceNumber: 4294967295,
       signatureOperationsCount: 0,
       signedMessages: [],
+      sourceOutputs: program.sourceOutputs,
+      spendingTransaction: program.spendingTransaction,
       stack: [Uint8Array.of(0x04)],
       transactionOutpoints: hexToBin(
         'afc2d6568ca9a00a1d490c6a91332cc5699dde309a0e69d21967d1b10878d2e300000000'
@@ -582,6 +642,7 @@ test('[BCH VM] vm.debug: only lockingBytecode: OP_2 OP_2 OP_ADD', async (t) => {
       alternateStack: [],
       correspondingOutput: hexToBin('000000000000000000'),
       executionStack: [],
+      inputIndex: 0,
       instructions: [
         {
           opcode: 82,
@@ -605,6 +666,8 @@ test('[BCH VM] vm.debug: only lockingBytecode: OP_2 OP_2 OP_ADD', async (t) => {
       sequenceNumber: 4294967295,
       signatureOperationsCount: 0,
       signedMessages: [],
+      sourceOutputs: program.sourceOutputs,
+      spendingTransaction: program.spendingTransaction,
       stack: [Uint8Array.of(0x04)],
       transactionOutpoints: hexToBin(
         'afc2d6568ca9a00a1d490c6a91332cc5699dde309a0e69d21967d1b10878d2e300000000'
@@ -615,3 +678,666 @@ test('[BCH VM] vm.debug: only lockingBytecode: OP_2 OP_2 OP_ADD', async (t) => {
     },
   ]);
 });
+
+test('[BCH VM] vm.debugSession: stepOver and stepOut of OP_IF blocks', async (t) => {
+  const vm = await instantiateVirtualMachineBCH();
+  const sha256 = await instantiateSha256();
+  /**
+   * Unlocking: `OP_1`
+   *
+   * Locking: `OP_IF OP_2 OP_IF OP_3 OP_ENDIF OP_4 OP_ENDIF OP_5`
+   */
+  const program = createTestAuthenticationProgramBCH({
+    lockingBytecode: hexToBin('6352635368546855'),
+    satoshis: hexToBin('0000000000000000'),
+    sha256,
+    unlockingBytecode: hexToBin('51'),
+  });
+  const session = vm.debugSession(program);
+  const summarize = ({
+    phase,
+    reason,
+    state,
+  }: {
+    phase: number;
+    reason: string;
+    state: AuthenticationProgramStateBCH;
+  }) => ({
+    executionStack: state.executionStack,
+    ip: state.ip,
+    phase,
+    reason,
+    stack: state.stack,
+  });
+  t.deepEqual(summarize(session.current()), {
+    executionStack: [],
+    ip: 0,
+    phase: 0,
+    reason: 'start',
+    stack: [],
+  });
+  t.deepEqual(summarize(session.stepOver()), {
+    executionStack: [],
+    ip: 0,
+    phase: 1,
+    reason: 'step',
+    stack: [Uint8Array.of(1)],
+  });
+  t.deepEqual(summarize(session.stepOver()), {
+    executionStack: [],
+    ip: 7,
+    phase: 1,
+    reason: 'step',
+    stack: [Uint8Array.of(3), Uint8Array.of(4)],
+  });
+  t.deepEqual(session.step().reason, 'complete');
+
+  const breakpointSession = vm.debugSession(program, [{ ip: 4, phase: 1 }]);
+  t.deepEqual(summarize(breakpointSession.continue()), {
+    executionStack: [true, true],
+    ip: 4,
+    phase: 1,
+    reason: 'breakpoint',
+    stack: [Uint8Array.of(3)],
+  });
+  t.deepEqual(breakpointSession.current().reason, 'breakpoint');
+  t.deepEqual(summarize(breakpointSession.stepOut()), {
+    executionStack: [true],
+    ip: 5,
+    phase: 1,
+    reason: 'step',
+    stack: [Uint8Array.of(3)],
+  });
+  t.deepEqual(summarize(breakpointSession.stepOut()), {
+    executionStack: [],
+    ip: 7,
+    phase: 1,
+    reason: 'step',
+    stack: [Uint8Array.of(3), Uint8Array.of(4)],
+  });
+  t.deepEqual(summarize(breakpointSession.stepOut()), {
+    executionStack: [],
+    ip: 8,
+    phase: 1,
+    reason: 'complete',
+    stack: [Uint8Array.of(3), Uint8Array.of(4), Uint8Array.of(5)],
+  });
+});
+
+const outpointTransactionHash = hexToBin(
+  '1111111111111111111111111111111111111111111111111111111111111122'
+);
+
+const createIntrospectionProgram = (
+  lockingBytecode: Uint8Array
+): AuthenticationProgramBCH => ({
+  inputIndex: 0,
+  sourceOutputs: [
+    { lockingBytecode, satoshis: bigIntToBinUint64LE(BigInt(10000)) },
+    {
+      lockingBytecode: Uint8Array.of(OpcodesBCH.OP_1),
+      satoshis: bigIntToBinUint64LE(BigInt(20000)),
+    },
+  ],
+  spendingTransaction: {
+    inputs: [
+      {
+        outpointIndex: 1,
+        outpointTransactionHash,
+        sequenceNumber: 0xfffffffe,
+        unlockingBytecode: Uint8Array.of(),
+      },
+      {
+        outpointIndex: 0,
+        outpointTransactionHash: new Uint8Array(32),
+        sequenceNumber: 5,
+        unlockingBytecode: Uint8Array.of(OpcodesBCH.OP_1),
+      },
+    ],
+    locktime: 500,
+    outputs: [
+      {
+        lockingBytecode: Uint8Array.of(OpcodesBCH.OP_RETURN),
+        satoshis: bigIntToBinUint64LE(BigInt(25000)),
+      },
+      {
+        lockingBytecode: Uint8Array.of(OpcodesBCH.OP_1),
+        satoshis: bigIntToBinUint64LE(BigInt(0)),
+      },
+    ],
+    version: 2,
+  },
+});
+
+const pushNumber = (value: number | bigint) =>
+  encodeDataPush(bigIntToScriptNumber(BigInt(value)));
+
+test('[BCH VM] BCH_2022_05: transaction introspection operations', async (t) => {
+  const vm = await instantiateVirtualMachineBCH(
+    InstructionSetBCH.BCH_2022_05_STRICT_SPEC
+  );
+  const lockingBytecode = flattenBinArray([
+    Uint8Array.of(OpcodesBCH.OP_INPUTINDEX, OpcodesBCH.OP_0),
+    Uint8Array.of(OpcodesBCH.OP_EQUALVERIFY, OpcodesBCH.OP_TXVERSION),
+    Uint8Array.of(OpcodesBCH.OP_2, OpcodesBCH.OP_EQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_TXINPUTCOUNT, OpcodesBCH.OP_2),
+    Uint8Array.of(OpcodesBCH.OP_EQUALVERIFY, OpcodesBCH.OP_TXOUTPUTCOUNT),
+    Uint8Array.of(OpcodesBCH.OP_2, OpcodesBCH.OP_EQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_TXLOCKTIME),
+    pushNumber(500),
+    Uint8Array.of(OpcodesBCH.OP_EQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_1, OpcodesBCH.OP_UTXOVALUE),
+    pushNumber(20000),
+    Uint8Array.of(OpcodesBCH.OP_EQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_1, OpcodesBCH.OP_UTXOBYTECODE),
+    encodeDataPush(Uint8Array.of(OpcodesBCH.OP_1)),
+    Uint8Array.of(OpcodesBCH.OP_EQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_0, OpcodesBCH.OP_OUTPOINTTXHASH),
+    encodeDataPush(outpointTransactionHash.slice().reverse()),
+    Uint8Array.of(OpcodesBCH.OP_EQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_0, OpcodesBCH.OP_OUTPOINTINDEX),
+    Uint8Array.of(OpcodesBCH.OP_1, OpcodesBCH.OP_EQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_1, OpcodesBCH.OP_INPUTBYTECODE),
+    encodeDataPush(Uint8Array.of(OpcodesBCH.OP_1)),
+    Uint8Array.of(OpcodesBCH.OP_EQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_0, OpcodesBCH.OP_INPUTSEQUENCENUMBER),
+    pushNumber(0xfffffffe),
+    Uint8Array.of(OpcodesBCH.OP_EQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_0, OpcodesBCH.OP_OUTPUTVALUE),
+    pushNumber(25000),
+    Uint8Array.of(OpcodesBCH.OP_EQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_0, OpcodesBCH.OP_OUTPUTBYTECODE),
+    encodeDataPush(Uint8Array.of(OpcodesBCH.OP_RETURN)),
+    Uint8Array.of(OpcodesBCH.OP_EQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_ACTIVEBYTECODE, OpcodesBCH.OP_0),
+    Uint8Array.of(OpcodesBCH.OP_UTXOBYTECODE, OpcodesBCH.OP_EQUAL),
+  ]);
+  const program = createIntrospectionProgram(lockingBytecode);
+  t.deepEqual(vm.verify(vm.evaluate(program)), true);
+
+  const withCodeSeparator = createIntrospectionProgram(
+    Uint8Array.of(
+      OpcodesBCH.OP_CODESEPARATOR,
+      OpcodesBCH.OP_ACTIVEBYTECODE,
+      OpcodesBCH.OP_SIZE,
+      OpcodesBCH.OP_NIP,
+      OpcodesBCH.OP_5,
+      OpcodesBCH.OP_EQUAL
+    )
+  );
+  t.deepEqual(vm.verify(vm.evaluate(withCodeSeparator)), true);
+});
+
+test('[BCH VM] BCH_2022_05: transaction introspection errors', async (t) => {
+  const vm = await instantiateVirtualMachineBCH(
+    InstructionSetBCH.BCH_2022_05_STRICT_SPEC
+  );
+  const evaluate = (...opcodes: number[]) =>
+    vm.evaluate(createIntrospectionProgram(Uint8Array.from(opcodes))).error;
+  t.deepEqual(
+    evaluate(OpcodesBCH.OP_2, OpcodesBCH.OP_UTXOVALUE),
+    AuthenticationErrorBCH.invalidTransactionInputIndex
+  );
+  t.deepEqual(
+    evaluate(OpcodesBCH.OP_1NEGATE, OpcodesBCH.OP_INPUTBYTECODE),
+    AuthenticationErrorBCH.invalidTransactionInputIndex
+  );
+  t.deepEqual(
+    evaluate(OpcodesBCH.OP_2, OpcodesBCH.OP_OUTPUTBYTECODE),
+    AuthenticationErrorBCH.invalidTransactionOutputIndex
+  );
+  t.deepEqual(
+    evaluate(OpcodesBCH.OP_OUTPUTVALUE),
+    AuthenticationErrorCommon.emptyStack
+  );
+
+  const vm2020 = await instantiateVirtualMachineBCH(
+    InstructionSetBCH.BCH_2020_05_STRICT
+  );
+  t.deepEqual(
+    vm2020.evaluate(
+      createIntrospectionProgram(Uint8Array.of(OpcodesBCH.OP_INPUTINDEX))
+    ).error,
+    AuthenticationErrorCommon.unknownOpcode
+  );
+});
+
+const maximumScriptNumber = BigInt('9223372036854775807');
+
+test('[BCH VM] BCH_2022_05: 64-bit script integers', async (t) => {
+  const vm = await instantiateVirtualMachineBCH(
+    InstructionSetBCH.BCH_2022_05_STRICT_SPEC
+  );
+  const verify = (...bytecode: Uint8Array[]) =>
+    vm.verify(
+      vm.evaluate(createIntrospectionProgram(flattenBinArray(bytecode)))
+    );
+  t.deepEqual(
+    verify(
+      pushNumber(BigInt(2100000000000)),
+      Uint8Array.of(OpcodesBCH.OP_1ADD),
+      pushNumber(BigInt(2100000000001)),
+      Uint8Array.of(OpcodesBCH.OP_EQUAL)
+    ),
+    true
+  );
+  t.deepEqual(
+    verify(
+      pushNumber(3000000000),
+      Uint8Array.of(OpcodesBCH.OP_4, OpcodesBCH.OP_MUL),
+      pushNumber(BigInt(12000000000)),
+      Uint8Array.of(OpcodesBCH.OP_NUMEQUAL)
+    ),
+    true
+  );
+  t.deepEqual(
+    verify(
+      pushNumber(maximumScriptNumber),
+      Uint8Array.of(OpcodesBCH.OP_NEGATE, OpcodesBCH.OP_1ADD),
+      Uint8Array.of(OpcodesBCH.OP_1, OpcodesBCH.OP_SUB),
+      pushNumber(-maximumScriptNumber),
+      Uint8Array.of(OpcodesBCH.OP_NUMEQUAL)
+    ),
+    true
+  );
+  t.deepEqual(
+    verify(
+      pushNumber(BigInt(2) ** BigInt(40)),
+      Uint8Array.of(OpcodesBCH.OP_2, OpcodesBCH.OP_DIV),
+      pushNumber(BigInt(2) ** BigInt(39)),
+      Uint8Array.of(OpcodesBCH.OP_NUMEQUAL)
+    ),
+    true
+  );
+  t.deepEqual(
+    verify(
+      encodeDataPush(hexToBin('ffffffffffffff7f00')),
+      Uint8Array.of(OpcodesBCH.OP_BIN2NUM),
+      pushNumber(maximumScriptNumber),
+      Uint8Array.of(OpcodesBCH.OP_EQUAL)
+    ),
+    true
+  );
+});
+
+test('[BCH VM] BCH_2022_05: 64-bit script integer errors', async (t) => {
+  const vm = await instantiateVirtualMachineBCH(
+    InstructionSetBCH.BCH_2022_05_STRICT_SPEC
+  );
+  const evaluate = (...bytecode: Uint8Array[]) =>
+    vm.evaluate(createIntrospectionProgram(flattenBinArray(bytecode))).error;
+  t.deepEqual(
+    evaluate(
+      pushNumber(maximumScriptNumber),
+      Uint8Array.of(OpcodesBCH.OP_1ADD)
+    ),
+    AuthenticationErrorCommon.overflowsScriptNumberRange
+  );
+  t.deepEqual(
+    evaluate(
+      pushNumber(-maximumScriptNumber),
+      Uint8Array.of(OpcodesBCH.OP_1SUB)
+    ),
+    AuthenticationErrorCommon.overflowsScriptNumberRange
+  );
+  t.deepEqual(
+    evaluate(
+      pushNumber(maximumScriptNumber),
+      Uint8Array.of(OpcodesBCH.OP_DUP, OpcodesBCH.OP_ADD)
+    ),
+    AuthenticationErrorCommon.overflowsScriptNumberRange
+  );
+  t.deepEqual(
+    evaluate(
+      pushNumber(maximumScriptNumber),
+      Uint8Array.of(OpcodesBCH.OP_2, OpcodesBCH.OP_MUL)
+    ),
+    AuthenticationErrorCommon.overflowsScriptNumberRange
+  );
+  t.deepEqual(
+    evaluate(
+      pushNumber(maximumScriptNumber + BigInt(1)),
+      Uint8Array.of(OpcodesBCH.OP_1ADD)
+    ),
+    AuthenticationErrorCommon.invalidScriptNumber
+  );
+  t.deepEqual(
+    evaluate(
+      encodeDataPush(hexToBin('000000000000008000')),
+      Uint8Array.of(OpcodesBCH.OP_BIN2NUM)
+    ),
+    AuthenticationErrorBCH.exceededMaximumScriptNumberLength
+  );
+
+  const vm2020 = await instantiateVirtualMachineBCH(
+    InstructionSetBCH.BCH_2020_05_STRICT
+  );
+  const evaluate2020 = (...bytecode: Uint8Array[]) =>
+    vm2020.evaluate(createIntrospectionProgram(flattenBinArray(bytecode)))
+      .error;
+  t.deepEqual(
+    evaluate2020(pushNumber(3000000000), Uint8Array.of(OpcodesBCH.OP_1ADD)),
+    AuthenticationErrorCommon.invalidScriptNumber
+  );
+  t.deepEqual(
+    evaluate2020(
+      Uint8Array.of(OpcodesBCH.OP_2, OpcodesBCH.OP_2, OpcodesBCH.OP_MUL)
+    ),
+    AuthenticationErrorCommon.unknownOpcode
+  );
+});
+
+const tokenCategory = hexToBin(
+  '0102030405060708091011121314151617181920212223242526272829303132'
+);
+
+const createTokenProgram = (
+  lockingBytecode: Uint8Array
+): AuthenticationProgramBCH => {
+  const program = createIntrospectionProgram(lockingBytecode);
+  return {
+    ...program,
+    sourceOutputs: [
+      program.sourceOutputs[0],
+      {
+        ...program.sourceOutputs[1],
+        token: {
+          amount: BigInt(1000),
+          category: tokenCategory,
+          nft: {
+            capability: NonFungibleTokenCapability.minting,
+            commitment: hexToBin('cafe'),
+          },
+        },
+      },
+    ],
+    spendingTransaction: {
+      ...program.spendingTransaction,
+      outputs: [
+        program.spendingTransaction.outputs[0],
+        {
+          ...program.spendingTransaction.outputs[1],
+          token: {
+            amount: BigInt(0),
+            category: tokenCategory,
+            nft: {
+              capability: NonFungibleTokenCapability.none,
+              commitment: Uint8Array.of(),
+            },
+          },
+        },
+      ],
+    },
+  };
+};
+
+test('[BCH VM] BCH_2023_05: token introspection operations', async (t) => {
+  const vm = await instantiateVirtualMachineBCH(
+    InstructionSetBCH.BCH_2023_05_STRICT_SPEC
+  );
+  const lockingBytecode = flattenBinArray([
+    Uint8Array.of(OpcodesBCH.OP_1, OpcodesBCH.OP_UTXOTOKENCATEGORY),
+    encodeDataPush(
+      flattenBinArray([tokenCategory.slice().reverse(), Uint8Array.of(0x02)])
+    ),
+    Uint8Array.of(OpcodesBCH.OP_EQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_1, OpcodesBCH.OP_UTXOTOKENCOMMITMENT),
+    encodeDataPush(hexToBin('cafe')),
+    Uint8Array.of(OpcodesBCH.OP_EQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_1, OpcodesBCH.OP_UTXOTOKENAMOUNT),
+    pushNumber(1000),
+    Uint8Array.of(OpcodesBCH.OP_NUMEQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_0, OpcodesBCH.OP_UTXOTOKENCATEGORY),
+    Uint8Array.of(OpcodesBCH.OP_0, OpcodesBCH.OP_EQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_0, OpcodesBCH.OP_UTXOTOKENAMOUNT),
+    Uint8Array.of(OpcodesBCH.OP_0, OpcodesBCH.OP_NUMEQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_1, OpcodesBCH.OP_OUTPUTTOKENCATEGORY),
+    encodeDataPush(tokenCategory.slice().reverse()),
+    Uint8Array.of(OpcodesBCH.OP_EQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_1, OpcodesBCH.OP_OUTPUTTOKENCOMMITMENT),
+    Uint8Array.of(OpcodesBCH.OP_0, OpcodesBCH.OP_EQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_1, OpcodesBCH.OP_OUTPUTTOKENAMOUNT),
+    Uint8Array.of(OpcodesBCH.OP_0, OpcodesBCH.OP_NUMEQUALVERIFY),
+    Uint8Array.of(OpcodesBCH.OP_0, OpcodesBCH.OP_OUTPUTTOKENCATEGORY),
+    Uint8Array.of(OpcodesBCH.OP_0, OpcodesBCH.OP_EQUAL),
+  ]);
+  t.deepEqual(
+    vm.verify(vm.evaluate(createTokenProgram(lockingBytecode))),
+    true
+  );
+});
+
+test('[BCH VM] BCH_2023_05: token introspection errors', async (t) => {
+  const vm = await instantiateVirtualMachineBCH(
+    InstructionSetBCH.BCH_2023_05_STRICT_SPEC
+  );
+  const evaluate = (...opcodes: number[]) =>
+    vm.evaluate(createTokenProgram(Uint8Array.from(opcodes))).error;
+  t.deepEqual(
+    evaluate(OpcodesBCH.OP_2, OpcodesBCH.OP_UTXOTOKENCATEGORY),
+    AuthenticationErrorBCH.invalidTransactionInputIndex
+  );
+  t.deepEqual(
+    evaluate(OpcodesBCH.OP_2, OpcodesBCH.OP_OUTPUTTOKENAMOUNT),
+    AuthenticationErrorBCH.invalidTransactionOutputIndex
+  );
+
+  const vm2022 = await instantiateVirtualMachineBCH(
+    InstructionSetBCH.BCH_2022_05_STRICT_SPEC
+  );
+  t.deepEqual(
+    vm2022.evaluate(
+      createTokenProgram(
+        Uint8Array.of(OpcodesBCH.OP_1, OpcodesBCH.OP_UTXOTOKENCATEGORY)
+      )
+    ).error,
+    AuthenticationErrorCommon.unknownOpcode
+  );
+});
+
+test('[BCH VM] createInstructionSetBCH: custom consensus limits', async (t) => {
+  const evaluate = async (
+    limits: ConsensusLimitsBCH,
+    ...bytecode: Uint8Array[]
+  ) => {
+    const vm = await instantiateVirtualMachineBCH(
+      InstructionSetBCH.BCH_2022_05_STRICT_SPEC,
+      limits
+    );
+    return vm.evaluate(createIntrospectionProgram(flattenBinArray(bytecode)))
+      .error;
+  };
+  const smallItems = { ...consensusLimitsBCH, maximumStackItemLength: 2 };
+  t.deepEqual(
+    await evaluate(smallItems, encodeDataPush(hexToBin('010203'))),
+    AuthenticationErrorCommon.exceedsMaximumPush
+  );
+  t.deepEqual(
+    await evaluate(
+      smallItems,
+      encodeDataPush(hexToBin('0102')),
+      Uint8Array.of(OpcodesBCH.OP_1, OpcodesBCH.OP_CAT)
+    ),
+    AuthenticationErrorBCH.exceededMaximumStackItemLength
+  );
+  t.deepEqual(
+    await evaluate(
+      { ...consensusLimitsBCH, maximumOperationCount: 1 },
+      Uint8Array.of(OpcodesBCH.OP_1, OpcodesBCH.OP_DUP, OpcodesBCH.OP_DROP)
+    ),
+    AuthenticationErrorCommon.exceededMaximumOperationCount
+  );
+  t.deepEqual(
+    await evaluate(
+      { ...consensusLimitsBCH, maximumStackDepth: 2 },
+      Uint8Array.of(OpcodesBCH.OP_1, OpcodesBCH.OP_1, OpcodesBCH.OP_1)
+    ),
+    AuthenticationErrorCommon.exceededMaximumStackDepth
+  );
+  t.deepEqual(
+    await evaluate(
+      { ...consensusLimitsBCH, maximumBytecodeLength: 2 },
+      Uint8Array.of(OpcodesBCH.OP_1, OpcodesBCH.OP_1, OpcodesBCH.OP_EQUAL)
+    ),
+    AuthenticationErrorCommon.exceededMaximumBytecodeLengthLocking
+  );
+  const largePush = encodeDataPush(new Uint8Array(1000));
+  t.deepEqual(
+    await evaluate(consensusLimitsBCH, largePush),
+    AuthenticationErrorCommon.exceedsMaximumPush
+  );
+  t.deepEqual(
+    await evaluate(consensusLimitsBCHVmLimitsProposal, largePush),
+    undefined
+  );
+});
+
+test('[BCH VM] createInstructionSetBCH: resource usage metrics', async (t) => {
+  const vm = await instantiateVirtualMachineBCH(
+    InstructionSetBCH.BCH_2022_05_STRICT_SPEC,
+    consensusLimitsBCHVmLimitsProposal
+  );
+  const result = vm.evaluate(
+    createIntrospectionProgram(
+      Uint8Array.of(
+        OpcodesBCH.OP_0,
+        OpcodesBCH.OP_SHA256,
+        OpcodesBCH.OP_HASH256,
+        OpcodesBCH.OP_SIZE,
+        OpcodesBCH.OP_NIP,
+        OpcodesBCH.OP_16,
+        OpcodesBCH.OP_16,
+        OpcodesBCH.OP_ADD,
+        OpcodesBCH.OP_NUMEQUAL
+      )
+    )
+  );
+  t.deepEqual(vm.verify(result), true);
+  t.deepEqual(result.metrics, {
+    hashDigestIterations: 3,
+    operationCost: 1546,
+    peakStackBytes: 33,
+    signatureChecks: 0,
+  });
+  t.deepEqual(
+    getInputDensityBCH(result.metrics as AuthenticationProgramMetrics, 0),
+    {
+      hashDigestIterations: { limit: 20, ratio: 0.15, used: 3 },
+      operationCost: { limit: 32800, ratio: 1546 / 32800, used: 1546 },
+      signatureChecks: { limit: 1, ratio: 0, used: 0 },
+    }
+  );
+
+  const untracked = await instantiateVirtualMachineBCH(
+    InstructionSetBCH.BCH_2022_05_STRICT_SPEC
+  );
+  t.deepEqual(
+    untracked.evaluate(
+      createIntrospectionProgram(Uint8Array.of(OpcodesBCH.OP_1))
+    ).metrics,
+    undefined
+  );
+});
+
+test('[BCH VM] createInstructionSetBCH: resource usage metrics across unlocking and locking bytecode', async (t) => {
+  const [sha256, secp256k1] = await Promise.all([
+    instantiateSha256(),
+    instantiateSecp256k1(),
+  ]);
+  const vm = await instantiateVirtualMachineBCH(
+    InstructionSetBCH.BCH_2022_05_STRICT_SPEC,
+    consensusLimitsBCHVmLimitsProposal
+  );
+  const privateKey = new Uint8Array(32).fill(1);
+  const message = hexToBin('010203');
+  const signature = secp256k1.signMessageHashSchnorr(
+    privateKey,
+    sha256.hash(message)
+  );
+  const unlockingBytecode = flattenBinArray([
+    encodeDataPush(signature),
+    encodeDataPush(message),
+  ]);
+  const program = createIntrospectionProgram(
+    flattenBinArray([
+      encodeDataPush(secp256k1.derivePublicKeyCompressed(privateKey)),
+      Uint8Array.of(OpcodesBCH.OP_CHECKDATASIG),
+    ])
+  );
+  const result = vm.evaluate({
+    ...program,
+    spendingTransaction: {
+      ...program.spendingTransaction,
+      inputs: [
+        { ...program.spendingTransaction.inputs[0], unlockingBytecode },
+        program.spendingTransaction.inputs[1],
+      ],
+    },
+  });
+  t.deepEqual(vm.verify(result), true);
+  t.deepEqual(result.metrics, {
+    hashDigestIterations: 1,
+    operationCost: 26693,
+    peakStackBytes: 100,
+    signatureChecks: 1,
+  });
+  const density = getInputDensityBCH(
+    result.metrics as AuthenticationProgramMetrics,
+    unlockingBytecode.length
+  );
+  t.deepEqual(density.signatureChecks, {
+    limit: 3,
+    ratio: 1 / 3,
+    used: 1,
+  });
+  t.deepEqual(density.operationCost.limit, (41 + 69) * 800);
+});
+
+test('[BCH VM] BCH_2019_11: Schnorr multisig errors', async (t) => {
+  const [vm, vm2019, sha256] = await Promise.all([
+    instantiateVirtualMachineBCH(InstructionSetBCH.BCH_2019_11),
+    instantiateVirtualMachineBCH(InstructionSetBCH.BCH_2019_05),
+    instantiateSha256(),
+  ]);
+  const publicKey = hexToBin(
+    '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'
+  );
+  const createProgram = (bitfield: Uint8Array, signatures: Uint8Array[]) =>
+    createTestAuthenticationProgramBCH({
+      lockingBytecode: flattenBinArray([
+        encodeDataPush(bigIntToScriptNumber(BigInt(signatures.length))),
+        encodeDataPush(publicKey),
+        encodeDataPush(publicKey),
+        Uint8Array.of(OpcodesBCH.OP_2, OpcodesBCH.OP_CHECKMULTISIG),
+      ]),
+      satoshis: bigIntToBinUint64LE(BigInt(0)),
+      sha256,
+      unlockingBytecode: flattenBinArray([
+        encodeDataPush(bitfield),
+        ...signatures.map(encodeDataPush),
+      ]),
+    });
+  const evaluate = (bitfield: Uint8Array, signatures: Uint8Array[]) =>
+    vm.evaluate(createProgram(bitfield, signatures)).error;
+  t.deepEqual(
+    evaluate(Uint8Array.of(0b01), []),
+    AuthenticationErrorCommon.invalidSchnorrMultisigBitfield
+  );
+  t.deepEqual(
+    evaluate(Uint8Array.of(0b01, 0), [Uint8Array.of()]),
+    AuthenticationErrorCommon.invalidSchnorrMultisigBitfield
+  );
+  t.deepEqual(
+    evaluate(Uint8Array.of(0b100), [Uint8Array.of()]),
+    AuthenticationErrorCommon.invalidSchnorrMultisigBitfield
+  );
+  t.deepEqual(
+    evaluate(Uint8Array.of(0b10), [Uint8Array.of()]),
+    AuthenticationErrorCommon.nonSchnorrSignatureInSchnorrMultisig
+  );
+  t.deepEqual(
+    vm2019.evaluate(createProgram(Uint8Array.of(0b10), [Uint8Array.of()]))
+      .error,
+    undefined
+  );
+});
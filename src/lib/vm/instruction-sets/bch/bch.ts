@@ -11,10 +11,12 @@ import {
   getFlagsForInstructionSetBCH,
   instructionSetBCHCurrentStrict,
 } from './bch-instruction-sets';
+import { consensusLimitsBCH } from './bch-limits';
 
 export * from './bch-descriptions';
 export * from './bch-errors';
 export * from './bch-instruction-sets';
+export * from './bch-limits';
 export * from './bch-opcodes';
 export * from './bch-operations';
 export * from './bch-types';
@@ -25,9 +27,12 @@ export * from './fixtures/bitcoin-abc/bitcoin-abc-utils';
  *
  * @param instructionSet - the VM version to instantiate – by default, the
  * current "strict" VM is used (`instructionSetBCHCurrentStrict`)
+ * @param limits - the consensus limits to enforce – by default, the limits of
+ * all currently-supported BCH instruction sets are used (`consensusLimitsBCH`)
  */
 export const instantiateVirtualMachineBCH = async (
-  instructionSet = instructionSetBCHCurrentStrict
+  instructionSet = instructionSetBCHCurrentStrict,
+  limits = consensusLimitsBCH
 ) => {
   const [sha1, sha256, ripemd160, secp256k1] = await Promise.all([
     instantiateSha1(),
@@ -38,6 +43,7 @@ export const instantiateVirtualMachineBCH = async (
   return createAuthenticationVirtualMachine(
     createInstructionSetBCH({
       flags: getFlagsForInstructionSetBCH(instructionSet),
+      limits,
       ripemd160,
       secp256k1,
       sha1,
@@ -0,0 +1,230 @@
+import { Secp256k1, secp256k1Order, Sha256 } from '../../../crypto/crypto';
+import {
+  bigIntToBinUint256BEClamped,
+  bigIntToBitcoinVarInt,
+  binsAreEqual,
+  binToBigIntUint256BE,
+  compareBin,
+  flattenBinArray,
+  utf8ToBin,
+} from '../../../format/format';
+
+import { ConsensusBTC } from './btc-types';
+
+const enum Internal {
+  evenPublicKeyHeaderByte = 0x02,
+  oddPublicKeyHeaderByte = 0x03,
+  leafVersionMask = 0xfe,
+  parityMask = 0x01,
+  xOnlyPublicKeyLength = 32,
+}
+
+/**
+ * Compute a BIP340 tagged hash: `sha256(sha256(tag) || sha256(tag) || data)`.
+ *
+ * @param sha256 - an implementation of sha256
+ * @param tag - the UTF8 tag, e.g. `TapLeaf`
+ * @param data - the data to hash
+ */
+export const taggedHash = (
+  sha256: { hash: Sha256['hash'] },
+  tag: string,
+  data: Uint8Array
+) => {
+  const tagHash = sha256.hash(utf8ToBin(tag));
+  return sha256.hash(flattenBinArray([tagHash, tagHash, data]));
+};
+
+/**
+ * Verify a BIP340 Schnorr signature using the x-only `publicKey` and
+ * `message`.
+ *
+ * @remarks
+ * This implementation verifies signatures using the public key tweaking
+ * methods of a `Secp256k1` implementation: the point `R = s⋅G - e⋅P` is
+ * computed as `(n - e)⋅P + s⋅G`, and the signature is valid if `R` has an
+ * even Y coordinate and its X coordinate is equal to `r`.
+ *
+ * @param secp256k1 - a Secp256k1 implementation
+ * @param sha256 - a Sha256 implementation
+ * @param signature - the 64-byte signature to verify
+ * @param publicKey - the 32-byte x-only public key
+ * @param message - the 32-byte message which was signed
+ */
+export const verifySignatureSchnorrBIP340 = ({
+  message,
+  publicKey,
+  secp256k1,
+  sha256,
+  signature,
+}: {
+  secp256k1: {
+    addTweakPublicKeyCompressed: Secp256k1['addTweakPublicKeyCompressed'];
+    derivePublicKeyCompressed: Secp256k1['derivePublicKeyCompressed'];
+    mulTweakPublicKeyCompressed: Secp256k1['mulTweakPublicKeyCompressed'];
+  };
+  sha256: { hash: Sha256['hash'] };
+  signature: Uint8Array;
+  publicKey: Uint8Array;
+  message: Uint8Array;
+}) => {
+  if (
+    signature.length !== ConsensusBTC.schnorrSignatureLength ||
+    publicKey.length !== Internal.xOnlyPublicKeyLength
+  ) {
+    return false;
+  }
+  const r = signature.slice(0, Internal.xOnlyPublicKeyLength);
+  const s = signature.slice(Internal.xOnlyPublicKeyLength);
+  const e =
+    binToBigIntUint256BE(
+      taggedHash(
+        sha256,
+        'BIP0340/challenge',
+        flattenBinArray([r, publicKey, message])
+      )
+    ) % secp256k1Order;
+  const point = Uint8Array.from([
+    Internal.evenPublicKeyHeaderByte,
+    ...publicKey,
+  ]);
+  // eslint-disable-next-line functional/no-try-statement
+  try {
+    const nonce =
+      e === BigInt(0)
+        ? secp256k1.derivePublicKeyCompressed(s)
+        : secp256k1.addTweakPublicKeyCompressed(
+            secp256k1.mulTweakPublicKeyCompressed(
+              point,
+              bigIntToBinUint256BEClamped(secp256k1Order - e)
+            ),
+            s
+          );
+    return (
+      nonce[0] === Internal.evenPublicKeyHeaderByte &&
+      binsAreEqual(nonce.slice(1), r)
+    );
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Compute the leaf hash of a Tapscript (BIP341).
+ *
+ * @param sha256 - a Sha256 implementation
+ * @param leafVersion - the leaf version, e.g. `0xc0` for Tapscript
+ * @param bytecode - the bytecode of the leaf
+ */
+export const computeTapLeafHash = (
+  sha256: { hash: Sha256['hash'] },
+  leafVersion: number,
+  bytecode: Uint8Array
+) =>
+  taggedHash(
+    sha256,
+    'TapLeaf',
+    flattenBinArray([
+      Uint8Array.of(leafVersion),
+      bigIntToBitcoinVarInt(BigInt(bytecode.length)),
+      bytecode,
+    ])
+  );
+
+/**
+ * Compute a branch hash of a Taproot script tree (BIP341). The two child
+ * hashes are sorted before hashing.
+ *
+ * @param sha256 - a Sha256 implementation
+ * @param a - the first child hash
+ * @param b - the second child hash
+ */
+export const computeTapBranchHash = (
+  sha256: { hash: Sha256['hash'] },
+  a: Uint8Array,
+  b: Uint8Array
+) =>
+  taggedHash(
+    sha256,
+    'TapBranch',
+    compareBin(a, b) < 0 ? flattenBinArray([a, b]) : flattenBinArray([b, a])
+  );
+
+/**
+ * Verify that a Taproot control block and Tapscript leaf hash commit to the
+ * provided witness program (the 32-byte x-only output key).
+ *
+ * @param controlBlock - the control block, which must have a valid length
+ * @param program - the 32-byte witness program
+ * @param secp256k1 - a Secp256k1 implementation
+ * @param sha256 - a Sha256 implementation
+ * @param tapLeafHash - the leaf hash of the Tapscript being spent
+ */
+export const verifyTaprootCommitment = ({
+  controlBlock,
+  program,
+  secp256k1,
+  sha256,
+  tapLeafHash,
+}: {
+  controlBlock: Uint8Array;
+  program: Uint8Array;
+  secp256k1: {
+    addTweakPublicKeyCompressed: Secp256k1['addTweakPublicKeyCompressed'];
+  };
+  sha256: { hash: Sha256['hash'] };
+  tapLeafHash: Uint8Array;
+}) => {
+  const internalKey = controlBlock.slice(
+    1,
+    ConsensusBTC.taprootControlBlockBaseLength
+  );
+  const nodeCount =
+    (controlBlock.length - ConsensusBTC.taprootControlBlockBaseLength) /
+    ConsensusBTC.taprootControlBlockNodeLength;
+  const merkleRoot = Array.from({ length: nodeCount }).reduce<Uint8Array>(
+    (hash, _, index) => {
+      const start =
+        ConsensusBTC.taprootControlBlockBaseLength +
+        index * ConsensusBTC.taprootControlBlockNodeLength;
+      return computeTapBranchHash(
+        sha256,
+        hash,
+        controlBlock.slice(
+          start,
+          start + ConsensusBTC.taprootControlBlockNodeLength
+        )
+      );
+    },
+    tapLeafHash
+  );
+  const tweak = taggedHash(
+    sha256,
+    'TapTweak',
+    flattenBinArray([internalKey, merkleRoot])
+  );
+  // eslint-disable-next-line functional/no-try-statement
+  try {
+    const outputKey = secp256k1.addTweakPublicKeyCompressed(
+      Uint8Array.from([Internal.evenPublicKeyHeaderByte, ...internalKey]),
+      tweak
+    );
+    // eslint-disable-next-line no-bitwise
+    const expectedParity = controlBlock[0] & Internal.parityMask;
+    const parity = outputKey[0] === Internal.oddPublicKeyHeaderByte ? 1 : 0;
+    return (
+      parity === expectedParity && binsAreEqual(outputKey.slice(1), program)
+    );
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Get the leaf version encoded in a Taproot control block.
+ *
+ * @param controlBlock - the control block
+ */
+export const getTaprootLeafVersion = (controlBlock: Uint8Array) =>
+  // eslint-disable-next-line no-bitwise
+  controlBlock[0] & Internal.leafVersionMask;
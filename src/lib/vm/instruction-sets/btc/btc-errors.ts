@@ -0,0 +1,31 @@
+export enum AuthenticationErrorBTC {
+  disabledCheckMultiSig = 'Program called an OP_CHECKMULTISIG or OP_CHECKMULTISIGVERIFY operation, but these operations are disabled in Tapscript (use OP_CHECKSIGADD).',
+  disallowedOpSuccess = 'Tapscript contains an OP_SUCCESS opcode, but OP_SUCCESS opcodes are disallowed by this instruction set.',
+  disallowedUpgradablePublicKeyType = 'Program used a public key of an unknown type, but upgradable public key types are disallowed by this instruction set.',
+  disallowedUpgradableTaprootVersion = 'The spent output uses a Tapscript leaf version which is not yet defined, but upgradable leaf versions are disallowed by this instruction set.',
+  disallowedUpgradableWitnessProgram = 'The spent output uses a witness program version which is not yet defined, but upgradable witness programs are disallowed by this instruction set.',
+  emptyTapscriptPublicKey = 'Program called a Tapscript signature checking operation with an empty public key.',
+  exceededMaximumStackDepth = 'The witness stack exceeds the maximum stack depth (1,000 items).',
+  exceededMaximumStackItemLength = 'The witness stack includes an item which exceeds the maximum stack item length (520 bytes).',
+  exceededValidationWeight = 'Program exceeded the Tapscript validation weight budget (50 plus the serialized size of the witness, less 50 per non-empty signature).',
+  invalidControlBlock = 'The Taproot control block is not properly encoded.',
+  invalidKeyHashWitness = 'The P2WPKH witness must include exactly 2 items (a signature and public key).',
+  invalidSchnorrSignatureLength = 'Encountered a Taproot signature with an invalid length (must be 64 or 65 bytes).',
+  invalidSchnorrSigningSerializationType = 'Encountered a Taproot signature with an undefined signing serialization type.',
+  invalidWitnessProgramLength = 'The witness program has an invalid length for its version.',
+  malformedP2shBytecode = 'Redeem bytecode was malformed prior to P2SH evaluation.',
+  malformedWitnessBytecode = 'Witness bytecode was malformed prior to witness evaluation.',
+  mismatchedWitnessProgram = 'The witness bytecode does not match the witness program.',
+  missingSourceOutputs = 'Taproot signature validation requires every output spent by the transaction (`sourceOutputs`).',
+  nonMinimalIf = 'Program called an OP_IF or OP_NOTIF with a value which is neither an empty stack item nor exactly 0x01 (violating the "MINIMALIF" rule).',
+  nonEmptyTaprootSignatureFailure = 'Program failed a Taproot signature verification with a non-empty signature.',
+  requiresCleanWitnessStack = 'Witness evaluation completed with an unexpected number of items on the stack (must be exactly 1).',
+  requiresEmptyUnlockingBytecode = 'Native witness programs require empty unlocking bytecode.',
+  requiresPushOnly = 'Unlocking bytecode may contain only push operations.',
+  requiresSinglePushUnlockingBytecode = 'P2SH-wrapped witness programs require unlocking bytecode which contains only a single push of the redeem bytecode.',
+  taprootCommitmentMismatch = 'The Taproot control block and Tapscript do not commit to the witness program.',
+  uncompressedWitnessPublicKey = 'Witness programs may only use compressed public keys (violating the "WITNESS_PUBKEYTYPE" rule).',
+  unexpectedHighS = 'Encountered a signature with a high S value (violating the "LOW_S" rule).',
+  unexpectedWitness = 'The input includes witness data, but the spent output is not a witness program.',
+  witnessProgramEmptyWitness = 'The spent output is a witness program, but the input includes no witness data.',
+}
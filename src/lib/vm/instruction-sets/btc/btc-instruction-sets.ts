@@ -0,0 +1,682 @@
+import { Ripemd160, Secp256k1, Sha1, Sha256 } from '../../../crypto/crypto';
+import { bigIntToBitcoinVarInt, flattenBinArray } from '../../../format/format';
+import { InstructionSet } from '../../virtual-machine';
+import {
+  isPayToScriptHash,
+  isWitnessProgram,
+} from '../bch/bch-instruction-sets';
+import {
+  applyError,
+  AuthenticationErrorCommon,
+  cloneAuthenticationProgramStateCommon,
+  cloneStack,
+  ConsensusCommon,
+  createAuthenticationProgramStateCommon,
+  createTransactionContextCommon,
+  encodeDataPush,
+  stackItemIsTruthy,
+  undefinedOperation,
+} from '../common/common';
+import { AuthenticationInstruction } from '../instruction-sets-types';
+import {
+  authenticationInstructionsAreMalformed,
+  parseBytecode,
+} from '../instruction-sets-utils';
+
+import {
+  computeTapLeafHash,
+  getTaprootLeafVersion,
+  verifyTaprootCommitment,
+} from './btc-crypto';
+import { AuthenticationErrorBTC } from './btc-errors';
+import { OpcodesBTC } from './btc-opcodes';
+import {
+  bitcoinOperations,
+  FlagsBTC,
+  isOpSuccess,
+  verifyTaprootSignature,
+} from './btc-operations';
+import {
+  AuthenticationProgramBTC,
+  AuthenticationProgramStateBTC,
+  ConsensusBTC,
+  SignatureVersionBTC,
+} from './btc-types';
+
+export { OpcodesBTC };
+
+const enum WitnessProgram {
+  OP_0 = 0,
+  versionOffset = 0x50,
+  programIndex = 2,
+}
+
+/**
+ * From C++ implementation:
+ * Note that IsPushOnly() *does* consider OP_RESERVED to be a push-type
+ * opcode, however execution of OP_RESERVED fails, so it's not relevant to
+ * P2SH/BIP62 as the scriptSig would fail prior to the P2SH special
+ * validation code being executed.
+ */
+const isPushOperation = (opcode: number) => opcode <= OpcodesBTC.OP_16;
+
+const isPushOnly = (
+  instructions: readonly AuthenticationInstruction<OpcodesBTC>[]
+) => instructions.every((instruction) => isPushOperation(instruction.opcode));
+
+/**
+ * Decode a witness program (which passes `isWitnessProgram`) into its version
+ * and program.
+ *
+ * @param bytecode - the witness program to decode
+ */
+export const decodeWitnessProgram = (bytecode: Uint8Array) => ({
+  program: bytecode.slice(WitnessProgram.programIndex),
+  version:
+    bytecode[0] === WitnessProgram.OP_0
+      ? 0
+      : bytecode[0] - WitnessProgram.versionOffset,
+});
+
+/**
+ * Get the serialized length of a witness stack, including its item count and
+ * the length of each item.
+ *
+ * @param witness - the witness stack
+ */
+const getWitnessLength = (witness: readonly Uint8Array[]) =>
+  flattenBinArray([
+    bigIntToBitcoinVarInt(BigInt(witness.length)),
+    ...witness.map((item) => bigIntToBitcoinVarInt(BigInt(item.length))),
+  ]).length + witness.reduce((total, item) => total + item.length, 0);
+
+/**
+ * This library's supported versions of the BTC virtual machine. "Strict"
+ * versions (A.K.A. `isStandard` from the C++ implementations) enable additional
+ * validation which is commonly used on the P2P network before relaying
+ * transactions. Transactions which fail these rules are often called
+ * "non-standard" – the transactions can technically be included by miners in
+ * valid blocks, but most network nodes will refuse to relay them.
+ *
+ * - `BTC_2017_08` includes SegWit (BIP141, BIP143, and BIP147).
+ * - `BTC_2021_11` includes Taproot (BIP341 and BIP342).
+ */
+export enum InstructionSetBTC {
+  BTC_2017_08 = 'BTC_2017_08',
+  BTC_2017_08_STRICT = 'BTC_2017_08_STRICT',
+  BTC_2021_11 = 'BTC_2021_11',
+  BTC_2021_11_STRICT = 'BTC_2021_11_STRICT',
+}
+
+/**
+ * The current strict virtual machine version used by the Bitcoin (BTC)
+ * network.
+ */
+export const instructionSetBTCCurrentStrict =
+  InstructionSetBTC.BTC_2021_11_STRICT;
+
+const consensusFlagsBTC = {
+  disallowUpgradableNops: false,
+  disallowUpgradableWitnessPrograms: false,
+  requireBugValueZero: true,
+  requireCleanStack: false,
+  requireCompressedWitnessPublicKeys: false,
+  requireLowS: false,
+  requireMinimalEncoding: false,
+  requireMinimalIf: false,
+  requireNullSignatureFailures: false,
+  requirePushOnly: false,
+  requireStrictEncoding: false,
+};
+
+const strictFlagsBTC = {
+  disallowUpgradableNops: true,
+  disallowUpgradableWitnessPrograms: true,
+  requireBugValueZero: true,
+  requireCleanStack: true,
+  requireCompressedWitnessPublicKeys: true,
+  requireLowS: true,
+  requireMinimalEncoding: true,
+  requireMinimalIf: true,
+  requireNullSignatureFailures: true,
+  requirePushOnly: true,
+  requireStrictEncoding: true,
+};
+
+export const getFlagsForInstructionSetBTC = (
+  instructionSet: InstructionSetBTC
+): FlagsBTC => {
+  switch (instructionSet) {
+    case InstructionSetBTC.BTC_2017_08:
+      return { ...consensusFlagsBTC, taproot: false };
+    case InstructionSetBTC.BTC_2017_08_STRICT:
+      return { ...strictFlagsBTC, taproot: false };
+    case InstructionSetBTC.BTC_2021_11:
+      return { ...consensusFlagsBTC, taproot: true };
+    case InstructionSetBTC.BTC_2021_11_STRICT:
+      return { ...strictFlagsBTC, taproot: true };
+    default:
+      return new Error(
+        `${instructionSet as string} is not a known instruction set.`
+      ) as never;
+  }
+};
+
+/**
+ * Note: this implementation does not safely clone elements within array
+ * properties. Mutating values within arrays will mutate those values in cloned
+ * program states.
+ */
+export const cloneAuthenticationProgramStateBTC = <
+  State extends AuthenticationProgramStateBTC
+>(
+  state: State
+) => ({
+  ...cloneAuthenticationProgramStateCommon<
+    OpcodesBTC,
+    State,
+    AuthenticationErrorBTC
+  >(state),
+  annex: state.annex,
+  signatureVersion: state.signatureVersion,
+  tapLeafHash: state.tapLeafHash,
+  validationWeightRemaining: state.validationWeightRemaining,
+});
+
+/**
+ * Initialize a new instruction set for the BTC virtual machine.
+ *
+ * Inputs are evaluated following `VerifyScript` from the C++ implementation:
+ * the unlocking and locking bytecode are evaluated, followed by P2SH redeem
+ * bytecode (BIP16), followed by any witness program (BIP141) – either P2WPKH,
+ * P2WSH, or (if the `taproot` flag is set) a Taproot key path or Tapscript
+ * spend (BIP341 and BIP342). Witness data is read from the `witness` property
+ * of the input being evaluated.
+ *
+ * @param flags - an object configuring the flags for this vm (see
+ * `getFlagsForInstructionSetBTC`)
+ * @param sha1 - a Sha1 implementation
+ * @param sha256 - a Sha256 implementation
+ * @param ripemd160 - a Ripemd160 implementation
+ * @param secp256k1 - a Secp256k1 implementation
+ */
+export const createInstructionSetBTC = ({
+  flags,
+  ripemd160,
+  secp256k1,
+  sha1,
+  sha256,
+}: {
+  flags: FlagsBTC;
+  sha1: { hash: Sha1['hash'] };
+  sha256: { hash: Sha256['hash'] };
+  ripemd160: { hash: Ripemd160['hash'] };
+  secp256k1: {
+    addTweakPublicKeyCompressed: Secp256k1['addTweakPublicKeyCompressed'];
+    derivePublicKeyCompressed: Secp256k1['derivePublicKeyCompressed'];
+    mulTweakPublicKeyCompressed: Secp256k1['mulTweakPublicKeyCompressed'];
+    verifySignatureDER: Secp256k1['verifySignatureDER'];
+  };
+}): InstructionSet<AuthenticationProgramBTC, AuthenticationProgramStateBTC> => {
+  // eslint-disable-next-line complexity
+  const evaluate: InstructionSet<
+    AuthenticationProgramBTC,
+    AuthenticationProgramStateBTC
+  >['evaluate'] = (program, stateEvaluate) => {
+    const input = program.spendingTransaction.inputs[program.inputIndex];
+    const { unlockingBytecode } = input;
+    const witness = input.witness ?? [];
+    const sourceOutput = program.sourceOutputs[program.inputIndex];
+    const { lockingBytecode } = sourceOutput;
+    const unlockingInstructions = parseBytecode<OpcodesBTC>(unlockingBytecode);
+    const lockingInstructions = parseBytecode<OpcodesBTC>(lockingBytecode);
+    const transactionContext = createTransactionContextCommon({
+      ...program,
+      sourceOutput,
+    });
+
+    const createState = ({
+      annex,
+      instructions,
+      signatureVersion = SignatureVersionBTC.base,
+      stack,
+      tapLeafHash,
+      validationWeightRemaining = 0,
+    }: {
+      annex?: Uint8Array;
+      instructions: readonly AuthenticationInstruction<OpcodesBTC>[];
+      signatureVersion?: SignatureVersionBTC;
+      stack: Uint8Array[];
+      tapLeafHash?: Uint8Array;
+      validationWeightRemaining?: number;
+    }): AuthenticationProgramStateBTC => ({
+      ...createAuthenticationProgramStateCommon<
+        OpcodesBTC,
+        AuthenticationErrorBTC
+      >({ instructions, program, stack, transactionContext }),
+      annex,
+      signatureVersion,
+      tapLeafHash,
+      validationWeightRemaining,
+    });
+
+    /**
+     * Produce a successful final state for witness programs which are not
+     * evaluated (Taproot key path spends and upgradable witness programs).
+     */
+    const witnessSuccess = (signatureVersion: SignatureVersionBTC) =>
+      createState({
+        instructions: [],
+        signatureVersion,
+        stack: [Uint8Array.of(1)],
+      });
+
+    const executeWitnessBytecode = ({
+      annex,
+      bytecode,
+      signatureVersion,
+      stack,
+      tapLeafHash,
+    }: {
+      annex?: Uint8Array;
+      bytecode: Uint8Array;
+      signatureVersion: SignatureVersionBTC;
+      stack: Uint8Array[];
+      tapLeafHash?: Uint8Array;
+    }) => {
+      const instructions = parseBytecode<OpcodesBTC>(bytecode);
+      const state = createState({
+        annex,
+        instructions,
+        signatureVersion,
+        stack,
+        tapLeafHash,
+        validationWeightRemaining:
+          getWitnessLength(witness) + ConsensusBTC.validationWeightOffset,
+      });
+      if (signatureVersion === SignatureVersionBTC.tapscript) {
+        const firstMalformed = authenticationInstructionsAreMalformed(
+          instructions
+        )
+          ? instructions.length - 1
+          : instructions.length;
+        if (
+          instructions
+            .slice(0, firstMalformed)
+            .some((instruction) => isOpSuccess(instruction.opcode))
+        ) {
+          return flags.disallowUpgradableWitnessPrograms
+            ? applyError<AuthenticationProgramStateBTC, AuthenticationErrorBTC>(
+                AuthenticationErrorBTC.disallowedOpSuccess,
+                state
+              )
+            : witnessSuccess(signatureVersion);
+        }
+        if (stack.length > ConsensusCommon.maximumStackDepth) {
+          return applyError<
+            AuthenticationProgramStateBTC,
+            AuthenticationErrorBTC
+          >(AuthenticationErrorBTC.exceededMaximumStackDepth, state);
+        }
+      }
+      if (
+        signatureVersion === SignatureVersionBTC.witnessV0 &&
+        bytecode.length > ConsensusCommon.maximumBytecodeLength
+      ) {
+        return applyError<
+          AuthenticationProgramStateBTC,
+          AuthenticationErrorBTC
+        >(
+          AuthenticationErrorCommon.exceededMaximumBytecodeLengthLocking,
+          state
+        );
+      }
+      if (
+        stack.some(
+          (item) => item.length > ConsensusCommon.maximumStackItemLength
+        )
+      ) {
+        return applyError<
+          AuthenticationProgramStateBTC,
+          AuthenticationErrorBTC
+        >(AuthenticationErrorBTC.exceededMaximumStackItemLength, state);
+      }
+      if (authenticationInstructionsAreMalformed(instructions)) {
+        return applyError<
+          AuthenticationProgramStateBTC,
+          AuthenticationErrorBTC
+        >(AuthenticationErrorBTC.malformedWitnessBytecode, state);
+      }
+      return stateEvaluate(state);
+    };
+
+    // eslint-disable-next-line complexity
+    const verifyTaproot = (witnessProgramData: Uint8Array) => {
+      if (witness.length === 0) {
+        return applyError<
+          AuthenticationProgramStateBTC,
+          AuthenticationErrorBTC
+        >(
+          AuthenticationErrorBTC.witnessProgramEmptyWitness,
+          witnessSuccess(SignatureVersionBTC.tapscript)
+        );
+      }
+      const lastItem = witness[witness.length - 1];
+      const annex =
+        witness.length >= 2 && lastItem[0] === ConsensusBTC.annexTag
+          ? lastItem
+          : undefined;
+      const stack = cloneStack(
+        annex === undefined ? witness : witness.slice(0, -1)
+      );
+      if (stack.length === 1) {
+        const keyPathState = createState({
+          annex,
+          instructions: [],
+          signatureVersion: SignatureVersionBTC.tapscript,
+          stack: [Uint8Array.of(1)],
+        });
+        const result = verifyTaprootSignature({
+          publicKey: witnessProgramData,
+          secp256k1,
+          sha256,
+          signature: stack[0],
+          state: keyPathState,
+        });
+        return result === true
+          ? keyPathState
+          : applyError<AuthenticationProgramStateBTC, AuthenticationErrorBTC>(
+              result,
+              keyPathState
+            );
+      }
+      // eslint-disable-next-line functional/immutable-data
+      const controlBlock = stack.pop() as Uint8Array;
+      // eslint-disable-next-line functional/immutable-data
+      const tapscript = stack.pop() as Uint8Array;
+      const nodesLength =
+        controlBlock.length - ConsensusBTC.taprootControlBlockBaseLength;
+      if (
+        nodesLength < 0 ||
+        nodesLength % ConsensusBTC.taprootControlBlockNodeLength !== 0 ||
+        nodesLength / ConsensusBTC.taprootControlBlockNodeLength >
+          ConsensusBTC.taprootControlBlockMaximumNodeCount
+      ) {
+        return applyError<
+          AuthenticationProgramStateBTC,
+          AuthenticationErrorBTC
+        >(
+          AuthenticationErrorBTC.invalidControlBlock,
+          witnessSuccess(SignatureVersionBTC.tapscript)
+        );
+      }
+      const leafVersion = getTaprootLeafVersion(controlBlock);
+      const tapLeafHash = computeTapLeafHash(sha256, leafVersion, tapscript);
+      if (
+        !verifyTaprootCommitment({
+          controlBlock,
+          program: witnessProgramData,
+          secp256k1,
+          sha256,
+          tapLeafHash,
+        })
+      ) {
+        return applyError<
+          AuthenticationProgramStateBTC,
+          AuthenticationErrorBTC
+        >(
+          AuthenticationErrorBTC.taprootCommitmentMismatch,
+          witnessSuccess(SignatureVersionBTC.tapscript)
+        );
+      }
+      if (leafVersion !== ConsensusBTC.tapscriptLeafVersion) {
+        return flags.disallowUpgradableWitnessPrograms
+          ? applyError<AuthenticationProgramStateBTC, AuthenticationErrorBTC>(
+              AuthenticationErrorBTC.disallowedUpgradableTaprootVersion,
+              witnessSuccess(SignatureVersionBTC.tapscript)
+            )
+          : witnessSuccess(SignatureVersionBTC.tapscript);
+      }
+      return executeWitnessBytecode({
+        annex,
+        bytecode: tapscript,
+        signatureVersion: SignatureVersionBTC.tapscript,
+        stack,
+        tapLeafHash,
+      });
+    };
+
+    // eslint-disable-next-line complexity
+    const verifyWitnessProgram = (
+      witnessProgram: Uint8Array,
+      isP2sh: boolean
+    ) => {
+      const { program: witnessProgramData, version } = decodeWitnessProgram(
+        witnessProgram
+      );
+      if (version === 0) {
+        if (
+          witnessProgramData.length === ConsensusBTC.witnessV0ScriptHashLength
+        ) {
+          if (witness.length === 0) {
+            return applyError<
+              AuthenticationProgramStateBTC,
+              AuthenticationErrorBTC
+            >(
+              AuthenticationErrorBTC.witnessProgramEmptyWitness,
+              witnessSuccess(SignatureVersionBTC.witnessV0)
+            );
+          }
+          const witnessBytecode = witness[witness.length - 1];
+          const hash = sha256.hash(witnessBytecode);
+          if (!hash.every((value, i) => value === witnessProgramData[i])) {
+            return applyError<
+              AuthenticationProgramStateBTC,
+              AuthenticationErrorBTC
+            >(
+              AuthenticationErrorBTC.mismatchedWitnessProgram,
+              witnessSuccess(SignatureVersionBTC.witnessV0)
+            );
+          }
+          return executeWitnessBytecode({
+            bytecode: witnessBytecode,
+            signatureVersion: SignatureVersionBTC.witnessV0,
+            stack: cloneStack(witness.slice(0, -1)),
+          });
+        }
+        if (witnessProgramData.length === ConsensusBTC.witnessV0KeyHashLength) {
+          if (witness.length !== 2) {
+            return applyError<
+              AuthenticationProgramStateBTC,
+              AuthenticationErrorBTC
+            >(
+              AuthenticationErrorBTC.invalidKeyHashWitness,
+              witnessSuccess(SignatureVersionBTC.witnessV0)
+            );
+          }
+          return executeWitnessBytecode({
+            bytecode: flattenBinArray([
+              Uint8Array.of(OpcodesBTC.OP_DUP, OpcodesBTC.OP_HASH160),
+              encodeDataPush(witnessProgramData),
+              Uint8Array.of(OpcodesBTC.OP_EQUALVERIFY, OpcodesBTC.OP_CHECKSIG),
+            ]),
+            signatureVersion: SignatureVersionBTC.witnessV0,
+            stack: cloneStack(witness),
+          });
+        }
+        return applyError<
+          AuthenticationProgramStateBTC,
+          AuthenticationErrorBTC
+        >(
+          AuthenticationErrorBTC.invalidWitnessProgramLength,
+          witnessSuccess(SignatureVersionBTC.witnessV0)
+        );
+      }
+      if (
+        version === 1 &&
+        witnessProgramData.length === ConsensusBTC.witnessV1TaprootLength &&
+        !isP2sh &&
+        flags.taproot
+      ) {
+        return verifyTaproot(witnessProgramData);
+      }
+      return flags.disallowUpgradableWitnessPrograms
+        ? applyError<AuthenticationProgramStateBTC, AuthenticationErrorBTC>(
+            AuthenticationErrorBTC.disallowedUpgradableWitnessProgram,
+            witnessSuccess(SignatureVersionBTC.base)
+          )
+        : witnessSuccess(SignatureVersionBTC.base);
+    };
+
+    const initialState = createState({
+      instructions: unlockingInstructions,
+      stack: [],
+    });
+    const unlockingResult =
+      unlockingBytecode.length > ConsensusCommon.maximumBytecodeLength
+        ? applyError<AuthenticationProgramStateBTC, AuthenticationErrorBTC>(
+            AuthenticationErrorCommon.exceededMaximumBytecodeLengthUnlocking,
+            initialState
+          )
+        : authenticationInstructionsAreMalformed(unlockingInstructions)
+        ? applyError<AuthenticationProgramStateBTC, AuthenticationErrorBTC>(
+            AuthenticationErrorCommon.malformedUnlockingBytecode,
+            initialState
+          )
+        : lockingBytecode.length > ConsensusCommon.maximumBytecodeLength
+        ? applyError<AuthenticationProgramStateBTC, AuthenticationErrorBTC>(
+            AuthenticationErrorCommon.exceededMaximumBytecodeLengthLocking,
+            initialState
+          )
+        : authenticationInstructionsAreMalformed(lockingInstructions)
+        ? applyError<AuthenticationProgramStateBTC, AuthenticationErrorBTC>(
+            AuthenticationErrorCommon.malformedLockingBytecode,
+            initialState
+          )
+        : flags.requirePushOnly && !isPushOnly(unlockingInstructions)
+        ? applyError<AuthenticationProgramStateBTC, AuthenticationErrorBTC>(
+            AuthenticationErrorBTC.requiresPushOnly,
+            initialState
+          )
+        : stateEvaluate(initialState);
+
+    if (unlockingResult.error !== undefined) {
+      return unlockingResult;
+    }
+    const lockingResult = stateEvaluate(
+      createState({
+        instructions: lockingInstructions,
+        stack: cloneStack(unlockingResult.stack),
+      })
+    );
+    if (
+      lockingResult.error !== undefined ||
+      lockingResult.stack.length === 0 ||
+      !stackItemIsTruthy(lockingResult.stack[lockingResult.stack.length - 1])
+    ) {
+      return lockingResult;
+    }
+
+    if (isWitnessProgram(lockingBytecode)) {
+      return unlockingBytecode.length === 0
+        ? verifyWitnessProgram(lockingBytecode, false)
+        : applyError<AuthenticationProgramStateBTC, AuthenticationErrorBTC>(
+            AuthenticationErrorBTC.requiresEmptyUnlockingBytecode,
+            lockingResult
+          );
+    }
+
+    if (!isPayToScriptHash(lockingInstructions)) {
+      return witness.length === 0
+        ? lockingResult
+        : applyError<AuthenticationProgramStateBTC, AuthenticationErrorBTC>(
+            AuthenticationErrorBTC.unexpectedWitness,
+            lockingResult
+          );
+    }
+
+    if (!isPushOnly(unlockingInstructions)) {
+      return applyError<AuthenticationProgramStateBTC, AuthenticationErrorBTC>(
+        AuthenticationErrorBTC.requiresPushOnly,
+        lockingResult
+      );
+    }
+    const p2shStack = cloneStack(unlockingResult.stack);
+    // eslint-disable-next-line functional/immutable-data
+    const p2shScript = p2shStack.pop() ?? Uint8Array.of();
+    const p2shInstructions = parseBytecode<OpcodesBTC>(p2shScript);
+    if (authenticationInstructionsAreMalformed(p2shInstructions)) {
+      return applyError<AuthenticationProgramStateBTC, AuthenticationErrorBTC>(
+        AuthenticationErrorBTC.malformedP2shBytecode,
+        lockingResult
+      );
+    }
+    const p2shResult = stateEvaluate(
+      createState({ instructions: p2shInstructions, stack: p2shStack })
+    );
+    if (
+      p2shResult.error !== undefined ||
+      p2shResult.stack.length === 0 ||
+      !stackItemIsTruthy(p2shResult.stack[p2shResult.stack.length - 1])
+    ) {
+      return p2shResult;
+    }
+    if (isWitnessProgram(p2shScript)) {
+      const expectedUnlockingBytecode = encodeDataPush(p2shScript);
+      return unlockingBytecode.length === expectedUnlockingBytecode.length &&
+        unlockingBytecode.every(
+          (value, i) => value === expectedUnlockingBytecode[i]
+        )
+        ? verifyWitnessProgram(p2shScript, true)
+        : applyError<AuthenticationProgramStateBTC, AuthenticationErrorBTC>(
+            AuthenticationErrorBTC.requiresSinglePushUnlockingBytecode,
+            p2shResult
+          );
+    }
+    return witness.length === 0
+      ? p2shResult
+      : applyError<AuthenticationProgramStateBTC, AuthenticationErrorBTC>(
+          AuthenticationErrorBTC.unexpectedWitness,
+          p2shResult
+        );
+  };
+
+  return {
+    clone: cloneAuthenticationProgramStateBTC,
+    continue: (state: AuthenticationProgramStateBTC) =>
+      state.error === undefined && state.ip < state.instructions.length,
+    evaluate,
+    operations: bitcoinOperations<AuthenticationProgramStateBTC>({
+      flags,
+      ripemd160,
+      secp256k1,
+      sha1,
+      sha256,
+    }),
+    ...undefinedOperation(),
+    // eslint-disable-next-line complexity
+    verify: (state: AuthenticationProgramStateBTC) => {
+      if (state.error !== undefined) {
+        return state.error;
+      }
+      if (state.executionStack.length !== 0) {
+        return AuthenticationErrorCommon.nonEmptyExecutionStack;
+      }
+      const requireCleanStack =
+        flags.requireCleanStack ||
+        state.signatureVersion !== SignatureVersionBTC.base;
+      if (requireCleanStack && state.stack.length !== 1) {
+        return state.signatureVersion === SignatureVersionBTC.base
+          ? AuthenticationErrorCommon.requiresCleanStack
+          : AuthenticationErrorBTC.requiresCleanWitnessStack;
+      }
+      if (
+        state.stack.length === 0 ||
+        !stackItemIsTruthy(state.stack[state.stack.length - 1])
+      ) {
+        return AuthenticationErrorCommon.unsuccessfulEvaluation;
+      }
+      return true;
+    },
+  };
+};
@@ -0,0 +1,940 @@
+import {
+  Ripemd160,
+  Secp256k1,
+  secp256k1Order,
+  Sha1,
+  Sha256,
+} from '../../../crypto/crypto';
+import { binsAreEqual, binToBigIntUintBE } from '../../../format/format';
+import { Operation } from '../../virtual-machine';
+import { arithmeticOperations } from '../common/arithmetic';
+import { bitwiseOperations } from '../common/bitwise';
+import {
+  combineOperations,
+  conditionallyEvaluate,
+  incrementOperationCount,
+  mapOverOperations,
+  pushToStack,
+  useOneScriptNumber,
+  useOneStackItem,
+  useTwoStackItems,
+} from '../common/combinators';
+import { ConsensusCommon } from '../common/common';
+import {
+  opCodeSeparator,
+  opHash160,
+  opHash256,
+  opRipemd160,
+  opSha1,
+  opSha256,
+} from '../common/crypto';
+import {
+  decodeBitcoinSignature,
+  isValidCompressedPublicKeyEncoding,
+  isValidPublicKeyEncoding,
+  isValidSignatureEncodingDER,
+} from '../common/encoding';
+import { applyError, AuthenticationErrorCommon } from '../common/errors';
+import {
+  conditionalFlowControlOperations,
+  opElse,
+  opEndIf,
+  opVerify,
+  reservedOperation,
+} from '../common/flow-control';
+import { disabledOperations, nonOperations } from '../common/nop';
+import { OpcodesCommon } from '../common/opcodes';
+import {
+  encodeDataPush,
+  pushNumberOperations,
+  pushOperations,
+} from '../common/push';
+import {
+  generateSigningSerializationBCH,
+  isDefinedSigningSerializationType,
+} from '../common/signing-serialization';
+import { spliceOperations } from '../common/splice';
+import { stackOperations } from '../common/stack';
+import { timeOperations } from '../common/time';
+import {
+  bigIntToScriptNumber,
+  booleanToScriptNumber,
+  stackItemIsTruthy,
+} from '../common/types';
+import { serializeAuthenticationInstructions } from '../instruction-sets-utils';
+
+import { verifySignatureSchnorrBIP340 } from './btc-crypto';
+import { AuthenticationErrorBTC } from './btc-errors';
+import { OpcodesBTC } from './btc-opcodes';
+import {
+  generateSigningSerializationBTCLegacy,
+  generateSigningSerializationBTCTaproot,
+  hashSigningSerializationBTCTaproot,
+  legacySigningSerializationSingleBugHash,
+} from './btc-signing-serialization';
+import {
+  AuthenticationProgramStateBTC,
+  ConsensusBTC,
+  SignatureVersionBTC,
+} from './btc-types';
+
+export interface FlagsBTC {
+  /**
+   * Error if an upgradable non-operation (`OP_NOP1`, `OP_NOP4`-`OP_NOP10`) is
+   * executed (A.K.A. `DISCOURAGE_UPGRADABLE_NOPS`).
+   */
+  readonly disallowUpgradableNops: boolean;
+  /**
+   * Error if the spent output uses an undefined witness program version, if a
+   * Tapscript contains an `OP_SUCCESS` opcode, or if a Taproot spend uses an
+   * undefined leaf version or public key type (A.K.A.
+   * `DISCOURAGE_UPGRADABLE_WITNESS_PROGRAM`,
+   * `DISCOURAGE_UPGRADABLE_TAPROOT_VERSION`, `DISCOURAGE_OP_SUCCESS`, and
+   * `DISCOURAGE_UPGRADABLE_PUBKEYTYPE`).
+   */
+  readonly disallowUpgradableWitnessPrograms: boolean;
+  /**
+   * Require the `OP_CHECKMULTISIG` protocol bug value to be empty (A.K.A.
+   * `NULLDUMMY`).
+   */
+  readonly requireBugValueZero: boolean;
+  /**
+   * Require non-witness evaluation to complete with exactly one stack item
+   * (A.K.A. `CLEANSTACK`). Witness evaluation always requires a clean stack.
+   */
+  readonly requireCleanStack: boolean;
+  /**
+   * Require all public keys used in witness version 0 evaluation to be
+   * compressed (A.K.A. `WITNESS_PUBKEYTYPE`).
+   */
+  readonly requireCompressedWitnessPublicKeys: boolean;
+  /**
+   * Require ECDSA signatures to use a low S value (A.K.A. `LOW_S`).
+   */
+  readonly requireLowS: boolean;
+  /**
+   * Require minimal encodings for pushes and Script Numbers (A.K.A.
+   * `MINIMALDATA`).
+   */
+  readonly requireMinimalEncoding: boolean;
+  /**
+   * Require the argument to `OP_IF` and `OP_NOTIF` to be either empty or
+   * exactly `0x01` in witness version 0 evaluation (A.K.A. `MINIMALIF`).
+   * Tapscript evaluation always requires minimal `OP_IF` arguments.
+   */
+  readonly requireMinimalIf: boolean;
+  /**
+   * Require failed signature checks to use empty signatures (A.K.A.
+   * `NULLFAIL`). Tapscript evaluation always errors on failed non-empty
+   * signatures.
+   */
+  readonly requireNullSignatureFailures: boolean;
+  /**
+   * Require unlocking bytecode to contain only push operations (A.K.A.
+   * `SIGPUSHONLY`). P2SH unlocking bytecode is always required to be
+   * push-only.
+   */
+  readonly requirePushOnly: boolean;
+  /**
+   * Require all public keys to be properly encoded and all ECDSA signatures to
+   * use a defined signing serialization type (A.K.A. `STRICTENC`).
+   */
+  readonly requireStrictEncoding: boolean;
+  /**
+   * Enable evaluation of Taproot outputs (BIP341 and BIP342). If disabled,
+   * witness version 1 programs are treated as undefined witness programs.
+   */
+  readonly taproot: boolean;
+}
+
+const enum Internal {
+  maximumPushByteOperationSize = 0x4b,
+  maximumLengthMinimalIf = 1,
+  minimalIfTrue = 1,
+  /**
+   * The length of the `r` value's tag and length bytes in a DER-encoded
+   * signature, plus the sequence tag and length bytes.
+   */
+  signatureDERPrefixLength = 4,
+  signatureDERIntegerMetadataLength = 2,
+  rLengthIndex = 3,
+  maximumPublicKeys = 20,
+}
+
+const secp256k1HalfOrder = secp256k1Order / BigInt(2);
+
+/**
+ * Determine if a valid DER-encoded signature (without a signing serialization
+ * type byte) has a low S value.
+ *
+ * @param signature - a signature which passes `isValidSignatureEncodingDER`
+ */
+export const isLowSSignatureDER = (signature: Uint8Array) => {
+  const rLength = signature[Internal.rLengthIndex];
+  const s = signature.slice(
+    Internal.signatureDERPrefixLength +
+      rLength +
+      Internal.signatureDERIntegerMetadataLength
+  );
+  return binToBigIntUintBE(s) <= secp256k1HalfOrder;
+};
+
+/**
+ * Encode a push of `data` in the same way as the C++ implementation's
+ * `CScript() << data` (without minimal number encodings), for use in the legacy
+ * `FindAndDelete` signature removal.
+ */
+const encodeSignaturePush = (data: Uint8Array) =>
+  data.length <= Internal.maximumPushByteOperationSize
+    ? Uint8Array.from([data.length, ...data])
+    : encodeDataPush(data);
+
+/**
+ * Get the bytecode covered by ECDSA signatures (A.K.A. `scriptCode`): the
+ * bytecode being evaluated, beginning after the last executed
+ * `OP_CODESEPARATOR`. In non-witness evaluation, all `OP_CODESEPARATOR`s and
+ * pushes of the provided signatures are also removed (A.K.A. `FindAndDelete`).
+ *
+ * @param state - the state being evaluated
+ * @param signatures - the bitcoin-encoded signatures to remove
+ */
+const getCoveredBytecodeECDSA = <State extends AuthenticationProgramStateBTC>(
+  state: State,
+  signatures: readonly Uint8Array[]
+) => {
+  const instructions = state.instructions.slice(state.lastCodeSeparator + 1);
+  if (state.signatureVersion !== SignatureVersionBTC.base) {
+    return serializeAuthenticationInstructions(instructions);
+  }
+  const removedPushes = signatures.map(encodeSignaturePush);
+  return serializeAuthenticationInstructions(
+    instructions.filter((instruction) => {
+      if (instruction.opcode === OpcodesBTC.OP_CODESEPARATOR) {
+        return false;
+      }
+      const serialized = serializeAuthenticationInstructions([instruction]);
+      return !removedPushes.some((push) => binsAreEqual(push, serialized));
+    })
+  );
+};
+
+/**
+ * Verify a bitcoin-encoded ECDSA signature in non-witness or witness version
+ * 0 evaluation, returning the verification result or an error.
+ */
+// eslint-disable-next-line complexity
+const checkSignatureECDSA = <State extends AuthenticationProgramStateBTC>({
+  bitcoinEncodedSignature,
+  coveredBytecode,
+  flags,
+  publicKey,
+  secp256k1,
+  sha256,
+  state,
+}: {
+  bitcoinEncodedSignature: Uint8Array;
+  coveredBytecode: Uint8Array;
+  flags: FlagsBTC;
+  publicKey: Uint8Array;
+  secp256k1: { verifySignatureDER: Secp256k1['verifySignatureDER'] };
+  sha256: { hash: Sha256['hash'] };
+  state: State;
+}): boolean | AuthenticationErrorCommon | AuthenticationErrorBTC => {
+  if (bitcoinEncodedSignature.length !== 0) {
+    const { signature } = decodeBitcoinSignature(bitcoinEncodedSignature);
+    if (!isValidSignatureEncodingDER(signature)) {
+      return AuthenticationErrorCommon.invalidSignatureEncoding;
+    }
+    if (flags.requireLowS && !isLowSSignatureDER(signature)) {
+      return AuthenticationErrorBTC.unexpectedHighS;
+    }
+    if (
+      flags.requireStrictEncoding &&
+      !isDefinedSigningSerializationType(
+        bitcoinEncodedSignature[bitcoinEncodedSignature.length - 1]
+      )
+    ) {
+      return AuthenticationErrorCommon.invalidSignatureEncoding;
+    }
+  }
+  if (flags.requireStrictEncoding && !isValidPublicKeyEncoding(publicKey)) {
+    return AuthenticationErrorCommon.invalidPublicKeyEncoding;
+  }
+  if (
+    flags.requireCompressedWitnessPublicKeys &&
+    state.signatureVersion === SignatureVersionBTC.witnessV0 &&
+    !isValidCompressedPublicKeyEncoding(publicKey)
+  ) {
+    return AuthenticationErrorBTC.uncompressedWitnessPublicKey;
+  }
+  if (bitcoinEncodedSignature.length === 0) {
+    return false;
+  }
+  const { signingSerializationType, signature } = decodeBitcoinSignature(
+    bitcoinEncodedSignature
+  );
+  const serialization =
+    state.signatureVersion === SignatureVersionBTC.base
+      ? generateSigningSerializationBTCLegacy({
+          coveredBytecode,
+          inputIndex: state.inputIndex,
+          signingSerializationType,
+          transaction: state.spendingTransaction,
+        })
+      : generateSigningSerializationBCH({
+          correspondingOutput: state.correspondingOutput,
+          coveredBytecode,
+          locktime: state.locktime,
+          outpointIndex: state.outpointIndex,
+          outpointTransactionHash: state.outpointTransactionHash,
+          outputValue: state.outputValue,
+          sequenceNumber: state.sequenceNumber,
+          sha256,
+          signingSerializationType,
+          transactionOutpoints: state.transactionOutpoints,
+          transactionOutputs: state.transactionOutputs,
+          transactionSequenceNumbers: state.transactionSequenceNumbers,
+          version: state.version,
+        });
+  // eslint-disable-next-line functional/no-conditional-statement
+  if (serialization !== undefined) {
+    // eslint-disable-next-line functional/no-expression-statement, functional/immutable-data
+    state.signedMessages.push(serialization);
+  }
+  const digest =
+    serialization === undefined
+      ? legacySigningSerializationSingleBugHash()
+      : sha256.hash(sha256.hash(serialization));
+  return (
+    isValidPublicKeyEncoding(publicKey) &&
+    secp256k1.verifySignatureDER(signature, publicKey, digest)
+  );
+};
+
+/**
+ * Verify a signature in Tapscript evaluation following BIP342, returning the
+ * verification result or an error.
+ */
+// eslint-disable-next-line complexity
+const checkSignatureTapscript = <State extends AuthenticationProgramStateBTC>({
+  flags,
+  publicKey,
+  secp256k1,
+  sha256,
+  signature,
+  state,
+}: {
+  flags: FlagsBTC;
+  publicKey: Uint8Array;
+  secp256k1: {
+    addTweakPublicKeyCompressed: Secp256k1['addTweakPublicKeyCompressed'];
+    derivePublicKeyCompressed: Secp256k1['derivePublicKeyCompressed'];
+    mulTweakPublicKeyCompressed: Secp256k1['mulTweakPublicKeyCompressed'];
+  };
+  sha256: { hash: Sha256['hash'] };
+  signature: Uint8Array;
+  state: State;
+}): boolean | AuthenticationErrorCommon | AuthenticationErrorBTC => {
+  const success = signature.length !== 0;
+  // eslint-disable-next-line functional/no-conditional-statement
+  if (success) {
+    // eslint-disable-next-line functional/no-expression-statement, functional/immutable-data
+    state.validationWeightRemaining -=
+      ConsensusBTC.validationWeightPerSignatureCheck;
+    // eslint-disable-next-line functional/no-conditional-statement
+    if (state.validationWeightRemaining < 0) {
+      return AuthenticationErrorBTC.exceededValidationWeight;
+    }
+  }
+  if (publicKey.length === 0) {
+    return AuthenticationErrorBTC.emptyTapscriptPublicKey;
+  }
+  if (publicKey.length !== ConsensusBTC.witnessV1TaprootLength) {
+    return flags.disallowUpgradableWitnessPrograms
+      ? AuthenticationErrorBTC.disallowedUpgradablePublicKeyType
+      : success;
+  }
+  if (!success) {
+    return false;
+  }
+  return verifyTaprootSignature({
+    publicKey,
+    secp256k1,
+    sha256,
+    signature,
+    state,
+  });
+};
+
+/**
+ * Verify a Taproot signature (for either a key path spend or a Tapscript
+ * signature check) using the BIP341 signing serialization algorithm. Returns
+ * `true` if the signature is valid, otherwise an error.
+ */
+// eslint-disable-next-line complexity
+export const verifyTaprootSignature = <
+  State extends AuthenticationProgramStateBTC
+>({
+  publicKey,
+  secp256k1,
+  sha256,
+  signature,
+  state,
+}: {
+  publicKey: Uint8Array;
+  secp256k1: {
+    addTweakPublicKeyCompressed: Secp256k1['addTweakPublicKeyCompressed'];
+    derivePublicKeyCompressed: Secp256k1['derivePublicKeyCompressed'];
+    mulTweakPublicKeyCompressed: Secp256k1['mulTweakPublicKeyCompressed'];
+  };
+  sha256: { hash: Sha256['hash'] };
+  signature: Uint8Array;
+  state: State;
+}) => {
+  if (
+    signature.length !== ConsensusBTC.schnorrSignatureLength &&
+    signature.length !== ConsensusBTC.schnorrSignatureLength + 1
+  ) {
+    return AuthenticationErrorBTC.invalidSchnorrSignatureLength;
+  }
+  const explicitType = signature.length > ConsensusBTC.schnorrSignatureLength;
+  const signingSerializationType = explicitType
+    ? signature[ConsensusBTC.schnorrSignatureLength]
+    : 0;
+  if (explicitType && signingSerializationType === 0) {
+    return AuthenticationErrorBTC.invalidSchnorrSigningSerializationType;
+  }
+  if (state.sourceOutputs.length !== state.spendingTransaction.inputs.length) {
+    return AuthenticationErrorBTC.missingSourceOutputs;
+  }
+  const serialization = generateSigningSerializationBTCTaproot({
+    annex: state.annex,
+    codeSeparatorPosition: state.lastCodeSeparator,
+    inputIndex: state.inputIndex,
+    sha256,
+    signingSerializationType,
+    sourceOutputs: state.sourceOutputs,
+    tapLeafHash: state.tapLeafHash,
+    transaction: state.spendingTransaction,
+  });
+  if (serialization === undefined) {
+    return AuthenticationErrorBTC.invalidSchnorrSigningSerializationType;
+  }
+  // eslint-disable-next-line functional/no-expression-statement, functional/immutable-data
+  state.signedMessages.push(serialization);
+  return verifySignatureSchnorrBIP340({
+    message: hashSigningSerializationBTCTaproot(sha256, serialization),
+    publicKey,
+    secp256k1,
+    sha256,
+    signature: signature.slice(0, ConsensusBTC.schnorrSignatureLength),
+  })
+    ? true
+    : AuthenticationErrorBTC.nonEmptyTaprootSignatureFailure;
+};
+
+/**
+ * Apply the result of a signature check to `state`: errors are applied, and
+ * failed checks with non-empty signatures produce an error if
+ * `requireNullSignatureFailures` is set.
+ */
+const applySignatureCheckResult = <State extends AuthenticationProgramStateBTC>(
+  state: State,
+  result: boolean | AuthenticationErrorCommon | AuthenticationErrorBTC,
+  signatureIsEmpty: boolean,
+  flags: { requireNullSignatureFailures: boolean },
+  onResult: (nextState: State, success: boolean) => State
+) =>
+  typeof result === 'string'
+    ? applyError<State, AuthenticationErrorBTC>(result, state)
+    : !result && flags.requireNullSignatureFailures && !signatureIsEmpty
+    ? applyError<State, AuthenticationErrorBTC>(
+        AuthenticationErrorCommon.nonNullSignatureFailure,
+        state
+      )
+    : onResult(state, result);
+
+interface SignatureCheckingCrypto {
+  addTweakPublicKeyCompressed: Secp256k1['addTweakPublicKeyCompressed'];
+  derivePublicKeyCompressed: Secp256k1['derivePublicKeyCompressed'];
+  mulTweakPublicKeyCompressed: Secp256k1['mulTweakPublicKeyCompressed'];
+  verifySignatureDER: Secp256k1['verifySignatureDER'];
+}
+
+const checkSignatureBTC = <State extends AuthenticationProgramStateBTC>({
+  bitcoinEncodedSignature,
+  flags,
+  publicKey,
+  secp256k1,
+  sha256,
+  state,
+}: {
+  bitcoinEncodedSignature: Uint8Array;
+  flags: FlagsBTC;
+  publicKey: Uint8Array;
+  secp256k1: SignatureCheckingCrypto;
+  sha256: { hash: Sha256['hash'] };
+  state: State;
+}) =>
+  state.signatureVersion === SignatureVersionBTC.tapscript
+    ? checkSignatureTapscript({
+        flags,
+        publicKey,
+        secp256k1,
+        sha256,
+        signature: bitcoinEncodedSignature,
+        state,
+      })
+    : checkSignatureECDSA({
+        bitcoinEncodedSignature,
+        coveredBytecode: getCoveredBytecodeECDSA(state, [
+          bitcoinEncodedSignature,
+        ]),
+        flags,
+        publicKey,
+        secp256k1,
+        sha256,
+        state,
+      });
+
+export const opCheckSigBTC = <State extends AuthenticationProgramStateBTC>({
+  flags,
+  secp256k1,
+  sha256,
+}: {
+  flags: FlagsBTC;
+  secp256k1: SignatureCheckingCrypto;
+  sha256: { hash: Sha256['hash'] };
+}): Operation<State> => (s: State) =>
+  useTwoStackItems(s, (state, [bitcoinEncodedSignature, publicKey]) =>
+    applySignatureCheckResult(
+      state,
+      checkSignatureBTC({
+        bitcoinEncodedSignature,
+        flags,
+        publicKey,
+        secp256k1,
+        sha256,
+        state,
+      }),
+      bitcoinEncodedSignature.length === 0,
+      flags,
+      (nextState, success) =>
+        pushToStack(nextState, booleanToScriptNumber(success))
+    )
+  );
+
+export const opCheckSigVerifyBTC = <
+  State extends AuthenticationProgramStateBTC
+>({
+  flags,
+  secp256k1,
+  sha256,
+}: {
+  flags: FlagsBTC;
+  secp256k1: SignatureCheckingCrypto;
+  sha256: { hash: Sha256['hash'] };
+}): Operation<State> =>
+  combineOperations(
+    opCheckSigBTC<State>({ flags, secp256k1, sha256 }),
+    opVerify<State, AuthenticationErrorBTC>()
+  );
+
+/**
+ * `OP_CHECKSIGADD` (BIP342), only available in Tapscript evaluation.
+ */
+export const opCheckSigAdd = <State extends AuthenticationProgramStateBTC>({
+  flags,
+  secp256k1,
+  sha256,
+}: {
+  flags: FlagsBTC;
+  secp256k1: SignatureCheckingCrypto;
+  sha256: { hash: Sha256['hash'] };
+}): Operation<State> => (s: State) =>
+  s.signatureVersion === SignatureVersionBTC.tapscript
+    ? useOneStackItem(s, (state, [publicKey]) =>
+        useOneScriptNumber(
+          state,
+          (nextState, [value]) =>
+            useOneStackItem(nextState, (finalState, [signature]) =>
+              applySignatureCheckResult(
+                finalState,
+                checkSignatureTapscript({
+                  flags,
+                  publicKey,
+                  secp256k1,
+                  sha256,
+                  signature,
+                  state: finalState,
+                }),
+                signature.length === 0,
+                flags,
+                (resultState, success) =>
+                  pushToStack(
+                    resultState,
+                    bigIntToScriptNumber(value + BigInt(success ? 1 : 0))
+                  )
+              )
+            ),
+          { requireMinimalEncoding: flags.requireMinimalEncoding }
+        )
+      )
+    : applyError<State, AuthenticationErrorBTC>(
+        AuthenticationErrorCommon.unknownOpcode,
+        s
+      );
+
+export const opCheckMultiSigBTC = <
+  State extends AuthenticationProgramStateBTC
+>({
+  flags,
+  secp256k1,
+  sha256,
+}: {
+  flags: FlagsBTC;
+  secp256k1: SignatureCheckingCrypto;
+  sha256: { hash: Sha256['hash'] };
+}): Operation<State> => (s: State) =>
+  s.signatureVersion === SignatureVersionBTC.tapscript
+    ? applyError<State, AuthenticationErrorBTC>(
+        AuthenticationErrorBTC.disabledCheckMultiSig,
+        s
+      )
+    : useOneScriptNumber(
+        s,
+        (state, [publicKeysValue]) => {
+          const potentialPublicKeys = Number(publicKeysValue);
+          if (potentialPublicKeys < 0) {
+            return applyError<State, AuthenticationErrorBTC>(
+              AuthenticationErrorCommon.invalidNaturalNumber,
+              state
+            );
+          }
+          if (potentialPublicKeys > Internal.maximumPublicKeys) {
+            return applyError<State, AuthenticationErrorBTC>(
+              AuthenticationErrorCommon.exceedsMaximumMultisigPublicKeyCount,
+              state
+            );
+          }
+          // eslint-disable-next-line functional/no-expression-statement, functional/immutable-data
+          state.operationCount += potentialPublicKeys;
+          if (state.operationCount > ConsensusCommon.maximumOperationCount) {
+            return applyError<State, AuthenticationErrorBTC>(
+              AuthenticationErrorCommon.exceededMaximumOperationCount,
+              state
+            );
+          }
+          const publicKeys =
+            potentialPublicKeys > 0
+              ? // eslint-disable-next-line functional/immutable-data
+                state.stack.splice(-potentialPublicKeys)
+              : [];
+          if (publicKeys.length !== potentialPublicKeys) {
+            return applyError<State, AuthenticationErrorBTC>(
+              AuthenticationErrorCommon.invalidStackIndex,
+              state
+            );
+          }
+          return useOneScriptNumber(
+            state,
+            (nextState, [approvingKeys]) => {
+              const requiredApprovingPublicKeys = Number(approvingKeys);
+              if (requiredApprovingPublicKeys < 0) {
+                return applyError<State, AuthenticationErrorBTC>(
+                  AuthenticationErrorCommon.invalidNaturalNumber,
+                  nextState
+                );
+              }
+              if (requiredApprovingPublicKeys > potentialPublicKeys) {
+                return applyError<State, AuthenticationErrorBTC>(
+                  AuthenticationErrorCommon.insufficientPublicKeys,
+                  nextState
+                );
+              }
+              const signatures =
+                requiredApprovingPublicKeys > 0
+                  ? // eslint-disable-next-line functional/immutable-data
+                    nextState.stack.splice(-requiredApprovingPublicKeys)
+                  : [];
+              if (signatures.length !== requiredApprovingPublicKeys) {
+                return applyError<State, AuthenticationErrorBTC>(
+                  AuthenticationErrorCommon.invalidStackIndex,
+                  nextState
+                );
+              }
+              return useOneStackItem(
+                nextState,
+                // eslint-disable-next-line complexity
+                (finalState, [protocolBugValue]) => {
+                  if (
+                    flags.requireBugValueZero &&
+                    protocolBugValue.length !== 0
+                  ) {
+                    return applyError<State, AuthenticationErrorBTC>(
+                      AuthenticationErrorCommon.invalidProtocolBugValue,
+                      finalState
+                    );
+                  }
+                  const coveredBytecode = getCoveredBytecodeECDSA(
+                    finalState,
+                    signatures
+                  );
+
+                  let approvingPublicKeys = 0; // eslint-disable-line functional/no-let
+                  let remainingSignatures = signatures.length; // eslint-disable-line functional/no-let
+                  let remainingPublicKeys = publicKeys.length; // eslint-disable-line functional/no-let
+                  // eslint-disable-next-line functional/no-loop-statement
+                  while (
+                    remainingSignatures > 0 &&
+                    remainingPublicKeys > 0 &&
+                    approvingPublicKeys + remainingPublicKeys >=
+                      remainingSignatures &&
+                    approvingPublicKeys !== requiredApprovingPublicKeys
+                  ) {
+                    const result = checkSignatureECDSA({
+                      bitcoinEncodedSignature:
+                        signatures[remainingSignatures - 1],
+                      coveredBytecode,
+                      flags,
+                      publicKey: publicKeys[remainingPublicKeys - 1],
+                      secp256k1,
+                      sha256,
+                      state: finalState,
+                    });
+                    // eslint-disable-next-line functional/no-conditional-statement
+                    if (typeof result === 'string') {
+                      return applyError<State, AuthenticationErrorBTC>(
+                        result,
+                        finalState
+                      );
+                    }
+                    // eslint-disable-next-line functional/no-conditional-statement
+                    if (result) {
+                      approvingPublicKeys += 1; // eslint-disable-line functional/no-expression-statement
+                      remainingSignatures -= 1; // eslint-disable-line functional/no-expression-statement
+                    }
+                    remainingPublicKeys -= 1; // eslint-disable-line functional/no-expression-statement
+                  }
+
+                  const success =
+                    approvingPublicKeys === requiredApprovingPublicKeys;
+                  return applySignatureCheckResult(
+                    finalState,
+                    success,
+                    signatures.every((signature) => signature.length === 0),
+                    flags,
+                    (resultState) =>
+                      pushToStack(resultState, booleanToScriptNumber(success))
+                  );
+                }
+              );
+            },
+            { requireMinimalEncoding: flags.requireMinimalEncoding }
+          );
+        },
+        { requireMinimalEncoding: flags.requireMinimalEncoding }
+      );
+
+export const opCheckMultiSigVerifyBTC = <
+  State extends AuthenticationProgramStateBTC
+>({
+  flags,
+  secp256k1,
+  sha256,
+}: {
+  flags: FlagsBTC;
+  secp256k1: SignatureCheckingCrypto;
+  sha256: { hash: Sha256['hash'] };
+}): Operation<State> =>
+  combineOperations(
+    opCheckMultiSigBTC<State>({ flags, secp256k1, sha256 }),
+    opVerify<State, AuthenticationErrorBTC>()
+  );
+
+/**
+ * `OP_IF` and `OP_NOTIF`, requiring minimal arguments in Tapscript (and in
+ * witness version 0 evaluation if `requireMinimalIf` is set).
+ */
+export const opIfBTC = <State extends AuthenticationProgramStateBTC>(
+  flags: { requireMinimalIf: boolean },
+  negate = false
+): Operation<State> => (state: State) => {
+  if (!state.executionStack.every((item) => item)) {
+    // eslint-disable-next-line functional/no-expression-statement, functional/immutable-data
+    state.executionStack.push(false);
+    return state;
+  }
+  return useOneStackItem(state, (nextState, [element]) => {
+    const requireMinimalIf =
+      nextState.signatureVersion === SignatureVersionBTC.tapscript ||
+      (nextState.signatureVersion === SignatureVersionBTC.witnessV0 &&
+        flags.requireMinimalIf);
+    if (
+      requireMinimalIf &&
+      (element.length > Internal.maximumLengthMinimalIf ||
+        (element.length === 1 && element[0] !== Internal.minimalIfTrue))
+    ) {
+      return applyError<State, AuthenticationErrorBTC>(
+        AuthenticationErrorBTC.nonMinimalIf,
+        nextState
+      );
+    }
+    // eslint-disable-next-line functional/no-expression-statement, functional/immutable-data
+    nextState.executionStack.push(
+      negate ? !stackItemIsTruthy(element) : stackItemIsTruthy(element)
+    );
+    return nextState;
+  });
+};
+
+/**
+ * Check the limits which apply after each operation: the maximum stack depth,
+ * and (outside of Tapscript) the maximum operation count.
+ */
+export const checkLimitsBTC = <State extends AuthenticationProgramStateBTC>(
+  operation: Operation<State>
+): Operation<State> => (state: State) => {
+  const nextState = operation(state);
+  return nextState.stack.length + nextState.alternateStack.length >
+    ConsensusCommon.maximumStackDepth
+    ? applyError<State, AuthenticationErrorBTC>(
+        AuthenticationErrorCommon.exceededMaximumStackDepth,
+        nextState
+      )
+    : nextState.signatureVersion !== SignatureVersionBTC.tapscript &&
+      nextState.operationCount > ConsensusCommon.maximumOperationCount
+    ? applyError<State, AuthenticationErrorBTC>(
+        AuthenticationErrorCommon.exceededMaximumOperationCount,
+        nextState
+      )
+    : nextState;
+};
+
+/**
+ * Create the full operation mapping for the BTC virtual machine.
+ *
+ * @remarks
+ * This mapping includes all operations from `commonOperations`, replacing the
+ * signature checking and `OP_IF`/`OP_NOTIF` operations with versions which
+ * support witness version 0 and Tapscript evaluation, and adding
+ * `OP_CHECKSIGADD`.
+ */
+export const bitcoinOperations = <State extends AuthenticationProgramStateBTC>({
+  flags,
+  ripemd160,
+  secp256k1,
+  sha1,
+  sha256,
+}: {
+  flags: FlagsBTC;
+  sha1: { hash: Sha1['hash'] };
+  sha256: { hash: Sha256['hash'] };
+  ripemd160: { hash: Ripemd160['hash'] };
+  secp256k1: SignatureCheckingCrypto;
+}): { readonly [opcodes: number]: Operation<State> } => {
+  type Errors = AuthenticationErrorBTC;
+  const unconditionalOperations = {
+    ...disabledOperations<State, Errors>(),
+    ...pushOperations<OpcodesBTC, State, Errors>(flags),
+    ...mapOverOperations<State>(
+      {
+        [OpcodesCommon.OP_IF]: opIfBTC<State>(flags),
+        [OpcodesCommon.OP_NOTIF]: opIfBTC<State>(flags, true),
+        [OpcodesCommon.OP_VERIF]: reservedOperation<State, Errors>(),
+        [OpcodesCommon.OP_VERNOTIF]: reservedOperation<State, Errors>(),
+        [OpcodesCommon.OP_ELSE]: opElse<State, Errors>(),
+        [OpcodesCommon.OP_ENDIF]: opEndIf<State, Errors>(),
+      },
+      incrementOperationCount
+    ),
+  };
+  const conditionalOperations = mapOverOperations<State>(
+    {
+      ...pushNumberOperations<OpcodesBTC, State>(),
+      [OpcodesCommon.OP_RESERVED]: reservedOperation<State, Errors>(),
+    },
+    conditionallyEvaluate
+  );
+  const incrementingOperations = mapOverOperations<State>(
+    {
+      ...arithmeticOperations<OpcodesBTC, State, Errors>(flags),
+      ...bitwiseOperations<OpcodesBTC, State, Errors>(),
+      [OpcodesCommon.OP_RIPEMD160]: opRipemd160<OpcodesBTC, State, Errors>({
+        ripemd160,
+      }),
+      [OpcodesCommon.OP_SHA1]: opSha1<OpcodesBTC, State, Errors>({ sha1 }),
+      [OpcodesCommon.OP_SHA256]: opSha256<OpcodesBTC, State, Errors>({
+        sha256,
+      }),
+      [OpcodesCommon.OP_HASH160]: opHash160<OpcodesBTC, State, Errors>({
+        ripemd160,
+        sha256,
+      }),
+      [OpcodesCommon.OP_HASH256]: opHash256<OpcodesBTC, State, Errors>({
+        sha256,
+      }),
+      [OpcodesCommon.OP_CODESEPARATOR]: opCodeSeparator<OpcodesBTC, State>(),
+      [OpcodesCommon.OP_CHECKSIG]: opCheckSigBTC<State>({
+        flags,
+        secp256k1,
+        sha256,
+      }),
+      [OpcodesCommon.OP_CHECKSIGVERIFY]: opCheckSigVerifyBTC<State>({
+        flags,
+        secp256k1,
+        sha256,
+      }),
+      [OpcodesCommon.OP_CHECKMULTISIG]: opCheckMultiSigBTC<State>({
+        flags,
+        secp256k1,
+        sha256,
+      }),
+      [OpcodesCommon.OP_CHECKMULTISIGVERIFY]: opCheckMultiSigVerifyBTC<State>({
+        flags,
+        secp256k1,
+        sha256,
+      }),
+      [OpcodesBTC.OP_CHECKSIGADD]: opCheckSigAdd<State>({
+        flags,
+        secp256k1,
+        sha256,
+      }),
+      ...conditionalFlowControlOperations<OpcodesBTC, State, Errors>(),
+      ...stackOperations<State, Errors>(flags),
+      ...spliceOperations<State, Errors>(),
+      ...timeOperations<OpcodesBTC, State, Errors>(flags),
+      ...nonOperations<State>(flags),
+    },
+    conditionallyEvaluate,
+    incrementOperationCount
+  );
+
+  return mapOverOperations<State>(
+    {
+      ...unconditionalOperations,
+      ...incrementingOperations,
+      ...conditionalOperations,
+    },
+    checkLimitsBTC
+  );
+};
+
+/**
+ * Determine if the provided opcode is an `OP_SUCCESSx` opcode in Tapscript
+ * (BIP342).
+ *
+ * @param opcode - the opcode to test
+ */
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+// eslint-disable-next-line complexity
+export const isOpSuccess = (opcode: number) =>
+  opcode === 0x50 ||
+  opcode === 0x62 ||
+  (opcode >= 0x7e && opcode <= 0x81) ||
+  (opcode >= 0x83 && opcode <= 0x86) ||
+  (opcode >= 0x89 && opcode <= 0x8a) ||
+  (opcode >= 0x8d && opcode <= 0x8e) ||
+  (opcode >= 0x95 && opcode <= 0x99) ||
+  (opcode >= 0xbb && opcode <= 0xfe);
+/* eslint-enable @typescript-eslint/no-magic-numbers */
@@ -0,0 +1,277 @@
+import { Sha256 } from '../../../crypto/crypto';
+import {
+  bigIntToBitcoinVarInt,
+  flattenBinArray,
+  numberToBinUint32LE,
+} from '../../../format/format';
+import {
+  encodeOutpoints,
+  encodeOutput,
+  encodeOutputsForSigning,
+  encodeSequenceNumbersForSigning,
+  encodeTransaction,
+} from '../../../transaction/transaction-serialization';
+import { Output, Transaction } from '../../../transaction/transaction-types';
+import { SigningSerializationFlag } from '../common/signing-serialization';
+
+import { taggedHash } from './btc-crypto';
+
+const enum Internal {
+  mask5Bits = 0b11111,
+  maskBaseType = 0b11,
+  sha256HashByteLength = 32,
+  /**
+   * A.K.A. `SIGHASH_DEFAULT`
+   */
+  taprootDefault = 0x00,
+  taprootEpoch = 0x00,
+  taprootKeyVersion = 0x00,
+  codeSeparatorPositionNone = 0xffffffff,
+}
+
+/**
+ * The value used in place of removed outputs by the legacy signing
+ * serialization algorithm when `SIGHASH_SINGLE` is set: `-1`, encoded as
+ * an 8-byte integer.
+ */
+// prettier-ignore
+const nullOutputSatoshis = Uint8Array.from([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+
+const isSingleInput = (signingSerializationType: number) =>
+  // eslint-disable-next-line no-bitwise
+  (signingSerializationType & SigningSerializationFlag.singleInput) !== 0;
+
+/**
+ * Serialize the signature-protected properties of a transaction following the
+ * legacy (pre-SegWit) signing serialization algorithm (A.K.A.
+ * `SignatureHash` with `SigVersion::BASE`).
+ *
+ * The returned serialization should be double-sha256 hashed to produce the
+ * signed message hash. If `SIGHASH_SINGLE` is set and there is no output at
+ * the same index as the input being signed, this method returns `undefined`:
+ * the legacy algorithm instead signs the message hash
+ * `0x0100000000000000000000000000000000000000000000000000000000000000` (see
+ * `legacySigningSerializationSingleBugHash`).
+ *
+ * @param coveredBytecode - the bytecode covered by the signature (A.K.A.
+ * `scriptCode`) with all `OP_CODESEPARATOR`s and signatures already removed
+ * @param inputIndex - the index of the input being signed
+ * @param signingSerializationType - the signing serialization type of the
+ * signature (A.K.A. `sighash` type)
+ * @param transaction - the transaction being signed
+ */
+export const generateSigningSerializationBTCLegacy = ({
+  coveredBytecode,
+  inputIndex,
+  signingSerializationType,
+  transaction,
+}: {
+  coveredBytecode: Uint8Array;
+  inputIndex: number;
+  signingSerializationType: Uint8Array;
+  transaction: Transaction;
+}) => {
+  const type = signingSerializationType[0];
+  // eslint-disable-next-line no-bitwise
+  const baseType = type & Internal.mask5Bits;
+  const noOutputs = baseType === SigningSerializationFlag.noOutputs;
+  const correspondingOutput =
+    baseType === SigningSerializationFlag.correspondingOutput;
+  if (correspondingOutput && inputIndex >= transaction.outputs.length) {
+    return undefined;
+  }
+  const inputs = transaction.inputs.map((input, index) => ({
+    outpointIndex: input.outpointIndex,
+    outpointTransactionHash: input.outpointTransactionHash,
+    sequenceNumber:
+      index !== inputIndex && (noOutputs || correspondingOutput)
+        ? 0
+        : input.sequenceNumber,
+    unlockingBytecode: index === inputIndex ? coveredBytecode : Uint8Array.of(),
+  }));
+  const outputs = noOutputs
+    ? []
+    : correspondingOutput
+    ? transaction.outputs
+        .slice(0, inputIndex + 1)
+        .map((output, index) =>
+          index === inputIndex
+            ? output
+            : { lockingBytecode: Uint8Array.of(), satoshis: nullOutputSatoshis }
+        )
+    : transaction.outputs;
+  return flattenBinArray([
+    encodeTransaction({
+      inputs: isSingleInput(type) ? [inputs[inputIndex]] : inputs,
+      locktime: transaction.locktime,
+      outputs,
+      version: transaction.version,
+    }),
+    numberToBinUint32LE(type),
+  ]);
+};
+
+/**
+ * The message hash signed by legacy signatures which use `SIGHASH_SINGLE`
+ * without a corresponding output (A.K.A. the `SIGHASH_SINGLE` bug).
+ */
+export const legacySigningSerializationSingleBugHash = () =>
+  Uint8Array.from([
+    1,
+    ...new Array<number>(Internal.sha256HashByteLength - 1).fill(0),
+  ]);
+
+/**
+ * Determine if a signing serialization type is defined for Taproot signatures
+ * (`0x00`, `0x01`, `0x02`, `0x03`, `0x81`, `0x82`, or `0x83`).
+ *
+ * @param signingSerializationType - the signing serialization type to test
+ */
+export const isDefinedSigningSerializationTypeTaproot = (
+  signingSerializationType: number
+) =>
+  signingSerializationType === Internal.taprootDefault ||
+  (signingSerializationType >= SigningSerializationFlag.allOutputs &&
+    signingSerializationType <= SigningSerializationFlag.correspondingOutput) ||
+  (signingSerializationType >=
+    // eslint-disable-next-line no-bitwise
+    (SigningSerializationFlag.singleInput |
+      SigningSerializationFlag.allOutputs) &&
+    signingSerializationType <=
+      // eslint-disable-next-line no-bitwise
+      (SigningSerializationFlag.singleInput |
+        SigningSerializationFlag.correspondingOutput));
+
+/**
+ * Serialize the signature-protected properties of a transaction following the
+ * Taproot signing serialization algorithm (BIP341). The serialization begins
+ * with the epoch byte (`0x00`); the signed message hash is the
+ * `TapSighash` tagged hash of the serialization (see `taggedHash`).
+ *
+ * This method returns `undefined` if the `signingSerializationType` is not
+ * defined, or if `SIGHASH_SINGLE` is set and there is no output at the same
+ * index as the input being signed.
+ *
+ * @param annex - the annex of the input being signed, if present
+ * @param codeSeparatorPosition - the opcode position of the last executed
+ * `OP_CODESEPARATOR` (or `-1` if none has been executed); only used in
+ * Tapscript
+ * @param inputIndex - the index of the input being signed
+ * @param sha256 - a Sha256 implementation
+ * @param signingSerializationType - the signing serialization type (A.K.A.
+ * `hash_type`)
+ * @param sourceOutputs - the outputs spent by every input of `transaction`
+ * @param tapLeafHash - the leaf hash of the Tapscript being evaluated, or
+ * `undefined` for key path spends
+ * @param transaction - the transaction being signed
+ */
+// eslint-disable-next-line complexity
+export const generateSigningSerializationBTCTaproot = ({
+  annex,
+  codeSeparatorPosition,
+  inputIndex,
+  sha256,
+  signingSerializationType,
+  sourceOutputs,
+  tapLeafHash,
+  transaction,
+}: {
+  annex: Uint8Array | undefined;
+  codeSeparatorPosition: number;
+  inputIndex: number;
+  sha256: { hash: Sha256['hash'] };
+  signingSerializationType: number;
+  sourceOutputs: readonly Output[];
+  tapLeafHash: Uint8Array | undefined;
+  transaction: Transaction;
+}) => {
+  if (!isDefinedSigningSerializationTypeTaproot(signingSerializationType)) {
+    return undefined;
+  }
+  const singleInput = isSingleInput(signingSerializationType);
+  // eslint-disable-next-line no-bitwise
+  const baseType = signingSerializationType & Internal.maskBaseType;
+  const correspondingOutput =
+    baseType === SigningSerializationFlag.correspondingOutput;
+  const allOutputs =
+    baseType !== SigningSerializationFlag.noOutputs && !correspondingOutput;
+  if (correspondingOutput && inputIndex >= transaction.outputs.length) {
+    return undefined;
+  }
+  const input = transaction.inputs[inputIndex];
+  const sourceOutput = sourceOutputs[inputIndex];
+  const extensionFlag = tapLeafHash === undefined ? 0 : 1;
+  // eslint-disable-next-line no-bitwise
+  const spendType = (extensionFlag << 1) + (annex === undefined ? 0 : 1);
+  return flattenBinArray([
+    Uint8Array.of(Internal.taprootEpoch, signingSerializationType),
+    numberToBinUint32LE(transaction.version),
+    numberToBinUint32LE(transaction.locktime),
+    ...(singleInput
+      ? []
+      : [
+          sha256.hash(encodeOutpoints(transaction.inputs)),
+          sha256.hash(
+            flattenBinArray(sourceOutputs.map((output) => output.satoshis))
+          ),
+          sha256.hash(
+            flattenBinArray(
+              sourceOutputs.map((output) =>
+                flattenBinArray([
+                  bigIntToBitcoinVarInt(BigInt(output.lockingBytecode.length)),
+                  output.lockingBytecode,
+                ])
+              )
+            )
+          ),
+          sha256.hash(encodeSequenceNumbersForSigning(transaction.inputs)),
+        ]),
+    ...(allOutputs
+      ? [sha256.hash(encodeOutputsForSigning(transaction.outputs))]
+      : []),
+    Uint8Array.of(spendType),
+    ...(singleInput
+      ? [
+          encodeOutpoints([input]),
+          encodeOutput(sourceOutput),
+          numberToBinUint32LE(input.sequenceNumber),
+        ]
+      : [numberToBinUint32LE(inputIndex)]),
+    ...(annex === undefined
+      ? []
+      : [
+          sha256.hash(
+            flattenBinArray([
+              bigIntToBitcoinVarInt(BigInt(annex.length)),
+              annex,
+            ])
+          ),
+        ]),
+    ...(correspondingOutput
+      ? [sha256.hash(encodeOutput(transaction.outputs[inputIndex]))]
+      : []),
+    ...(tapLeafHash === undefined
+      ? []
+      : [
+          tapLeafHash,
+          Uint8Array.of(Internal.taprootKeyVersion),
+          numberToBinUint32LE(
+            codeSeparatorPosition === -1
+              ? Internal.codeSeparatorPositionNone
+              : codeSeparatorPosition
+          ),
+        ]),
+  ]);
+};
+
+/**
+ * Hash a Taproot signing serialization (as produced by
+ * `generateSigningSerializationBTCTaproot`) to produce the signed message hash.
+ *
+ * @param sha256 - a Sha256 implementation
+ * @param serialization - the signing serialization
+ */
+export const hashSigningSerializationBTCTaproot = (
+  sha256: { hash: Sha256['hash'] },
+  serialization: Uint8Array
+) => taggedHash(sha256, 'TapSighash', serialization);
@@ -0,0 +1,105 @@
+import {
+  AuthenticationProgramCommon,
+  AuthenticationProgramStateCommon,
+} from '../../vm-types';
+
+import { AuthenticationErrorBTC } from './btc-errors';
+import { OpcodesBTC } from './btc-opcodes';
+
+export enum ConsensusBTC {
+  /**
+   * A.K.A. `WITNESS_V0_KEYHASH_SIZE`
+   */
+  witnessV0KeyHashLength = 20,
+  /**
+   * A.K.A. `WITNESS_V0_SCRIPTHASH_SIZE`
+   */
+  witnessV0ScriptHashLength = 32,
+  /**
+   * A.K.A. `WITNESS_V1_TAPROOT_SIZE`
+   */
+  witnessV1TaprootLength = 32,
+  schnorrSignatureLength = 64,
+  /**
+   * A.K.A. `TAPROOT_CONTROL_BASE_SIZE`
+   */
+  taprootControlBlockBaseLength = 33,
+  /**
+   * A.K.A. `TAPROOT_CONTROL_NODE_SIZE`
+   */
+  taprootControlBlockNodeLength = 32,
+  /**
+   * A.K.A. `TAPROOT_CONTROL_MAX_NODE_COUNT`
+   */
+  taprootControlBlockMaximumNodeCount = 128,
+  /**
+   * A.K.A. `TAPROOT_LEAF_TAPSCRIPT`
+   */
+  tapscriptLeafVersion = 0xc0,
+  /**
+   * A.K.A. `ANNEX_TAG`
+   */
+  annexTag = 0x50,
+  /**
+   * A.K.A. `VALIDATION_WEIGHT_OFFSET`
+   */
+  validationWeightOffset = 50,
+  /**
+   * A.K.A. `VALIDATION_WEIGHT_PER_SIGOP_PASSED`
+   */
+  validationWeightPerSignatureCheck = 50,
+}
+
+/**
+ * The set of signature-checking rules which apply to the bytecode currently
+ * being evaluated (A.K.A. `SigVersion`).
+ */
+export enum SignatureVersionBTC {
+  /**
+   * Non-witness bytecode (locking bytecode, unlocking bytecode, and P2SH
+   * redeem bytecode).
+   */
+  base = 'base',
+  /**
+   * Witness version 0 bytecode (P2WPKH and P2WSH), using the BIP143 signing
+   * serialization algorithm.
+   */
+  witnessV0 = 'witnessV0',
+  /**
+   * Tapscript (BIP342), using the BIP341 signing serialization algorithm.
+   */
+  tapscript = 'tapscript',
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface AuthenticationProgramBTC extends AuthenticationProgramCommon {}
+
+export interface SegWitState {
+  /**
+   * The signature version of the bytecode currently being evaluated.
+   */
+  readonly signatureVersion: SignatureVersionBTC;
+}
+
+export interface TaprootState {
+  /**
+   * The annex of the input being evaluated (BIP341), or `undefined` if the
+   * input has no annex.
+   */
+  readonly annex: Uint8Array | undefined;
+  /**
+   * The leaf hash of the Tapscript being evaluated (BIP341), or `undefined`
+   * outside of Tapscript evaluation.
+   */
+  readonly tapLeafHash: Uint8Array | undefined;
+  /**
+   * The remaining validation weight budget for signature checking operations
+   * in Tapscript (BIP342).
+   */
+  validationWeightRemaining: number;
+}
+
+export interface AuthenticationProgramStateBTC
+  extends AuthenticationProgramStateCommon<OpcodesBTC, AuthenticationErrorBTC>,
+    SegWitState,
+    TaprootState {}
@@ -0,0 +1,476 @@
+/* eslint-disable functional/no-expression-statement, @typescript-eslint/no-magic-numbers */
+
+import test, { Macro } from 'ava';
+
+import {
+  AuthenticationErrorBTC,
+  AuthenticationErrorCommon,
+  bigIntToBinUint64LE,
+  binToHex,
+  computeTapLeafHash,
+  decodeTransaction,
+  hexToBin,
+  instantiateSecp256k1,
+  instantiateSha256,
+  instantiateVirtualMachineBTC,
+  InstructionSetBTC,
+  Output,
+  stringify,
+  Transaction,
+  verifySignatureSchnorrBIP340,
+  verifyTransaction,
+} from '../../../lib';
+
+const vmPromise = instantiateVirtualMachineBTC();
+const secp256k1Promise = instantiateSecp256k1();
+const sha256Promise = instantiateSha256();
+
+/**
+ * A transaction spending (in order): P2PKH, P2WPKH, P2WSH (2-of-2 multisig),
+ * P2SH-P2WPKH, P2TR (key path), and P2TR (script path, using a 2-of-2
+ * `OP_CHECKSIGADD` Tapscript) outputs. Signatures were created using
+ * independent implementations (bitcoinjs-lib and @noble/secp256k1).
+ */
+const transactionHex =
+  '0200000006264c4038e8e2ba40928d7f447df7ff74f5b657c5c15eff3434c540917b665224000000006b483045022100c547e62e037458ac74f0cc155abc27235a0154ff2851b1746a559e54ada80573022078be692d487b0ecd4172a53efec6941bb28aefeee8e96ba7384ddacb82b9fd83012102a05cce6675aeb1d896451e3597b3f82d669fe5658b6636aff3dc19c52e33e01cfeffffff264c4038e8e2ba40928d7f447df7ff74f5b657c5c15eff3434c540917b6652240100000000feffffff264c4038e8e2ba40928d7f447df7ff74f5b657c5c15eff3434c540917b6652240200000000feffffff264c4038e8e2ba40928d7f447df7ff74f5b657c5c15eff3434c540917b6652240300000017160014371daf42be31f3eccacd2942d082e50e100e61b2feffffff264c4038e8e2ba40928d7f447df7ff74f5b657c5c15eff3434c540917b6652240400000000feffffff264c4038e8e2ba40928d7f447df7ff74f5b657c5c15eff3434c540917b6652240500000000feffffff0120a1070000000000160014111111111111111111111111111111111111111160ae0a00';
+
+const witnesses = [
+  [],
+  [
+    '3044022059fecb95a7b19ab5f54c1960b735308c6c01f1e3ffcbc240ea45c3b5901e01f502205f8519607c2952e593ed03de1a302ad73d34061e62af3b96b626a74c81fbfb4a01',
+    '02bab3847baa4890cba97757fc3450640291692a9a2d913681287b135b450bc485',
+  ],
+  [
+    '',
+    '304402205fd17a343485d4dad03d79dad18b2afd85f83fc4a25df2e02bc6e1f867b93a2c02204940ebd63bbca278c315a5299dd77fc5a9896590132130815c28bbebed13a47c01',
+    '3045022100d1b659e869a02483b109ec948649964fb927435ff1099b5731adab00fbc2fc3d02201e107127fb017ec3529dd620ba098cc3fd3ecb68b5bc12bfee761fcf8a149ff301',
+    '5221028aa5e94696066b4700be8223989b25b6f85850493764f1184b38710700aac6092103b38f8b488930178e4aa7831ea8e64c9773bbcb73999af6f2c171b1523238874252ae',
+  ],
+  [
+    '3045022100d16d699b940f4f3937dd50a893c3532d2144ac99d5ca5fcc27ed317d12ec7f7b02205045b545c40755b9a1859aab1fe8c5862ae11e31f79af89b2a669cb98ad1fb4f01',
+    '028e449f075771d4e1a5c2ef7ce7504f8522e2c1386e4aaf33c8e4839249eb798f',
+  ],
+  [
+    'e9f7e2cacd1082072a13f754f94c63c0162244b9829e71e2b76cde57e9c911bcd31084aaace092736ded494eaee37971b90719d0c62f575a296b5bdfe6b98222',
+  ],
+  [
+    'a7b4180f0eaa07de1165fc61822467ceb4a2d00f2fb1783cb3efb897f0c1882385f49235ba2841b2504b532e989726151baab62616d0af27bae3f987171376c9',
+    'd84741465a99d2d52f9d73051109f68d6c5ca6b5f48d561bd78b9d83cae9213668037626143c561bfbe3257b55a9c706489c60ede39b10e5169ef382f4d76f11',
+    '209af6b0e509c22bb92c869664fad83fe052532512d0e260f7ba296dd9e1665d43ac20c6a8e64f77b5022aaf9950d134778d9c4b4853f75ad7f67f953bb9f82cb58788ba529c',
+    'c1a05cce6675aeb1d896451e3597b3f82d669fe5658b6636aff3dc19c52e33e01c46c7eccffefd2d573ec014130e508f0c9963ccebd7830409f7b1b1301725e9fa',
+  ],
+];
+
+const sourceOutputs: Output[] = [
+  {
+    lockingBytecode: '76a9143f96c4d8024b50f1bce26c0b5a2ba46299c0fa0d88ac',
+    satoshis: 100000,
+  },
+  {
+    lockingBytecode: '001437609fd7cd82f0df6023f0bd5270ca4b5750793c',
+    satoshis: 110000,
+  },
+  {
+    lockingBytecode:
+      '00208916609f6d153d053903a2ee6a3b408ec13c4c6d5b364fb0f27c1d1964518cc7',
+    satoshis: 120000,
+  },
+  {
+    lockingBytecode: 'a9144aa18bce71cb337518e1aa3c30680acce11dbba387',
+    satoshis: 130000,
+  },
+  {
+    lockingBytecode:
+      '512085b2c303594e8f8bd7a2452e4c19d81f3d14316cf8b2453b4413a64fb4a7500f',
+    satoshis: 140000,
+  },
+  {
+    lockingBytecode:
+      '5120ed710d135b5aabc9034e29bb8355b3b8a40da470338da7b888ada1f9fed1c5d1',
+    satoshis: 150000,
+  },
+].map((output) => ({
+  lockingBytecode: hexToBin(output.lockingBytecode),
+  satoshis: bigIntToBinUint64LE(BigInt(output.satoshis)),
+}));
+
+const getTransaction = (witnessData: string[][] = witnesses): Transaction => {
+  const decoded = decodeTransaction(hexToBin(transactionHex));
+  if (typeof decoded === 'string') {
+    throw new Error(decoded);
+  }
+  return {
+    ...decoded,
+    inputs: decoded.inputs.map((input, index) => ({
+      ...input,
+      witness: witnessData[index].map(hexToBin),
+    })),
+  };
+};
+
+const replaceWitness = (inputIndex: number, witness: string[]) =>
+  witnesses.map((original, index) =>
+    index === inputIndex ? witness : original
+  );
+
+const flipLastByte = (hex: string) => {
+  const bin = hexToBin(hex);
+  // eslint-disable-next-line functional/immutable-data, no-bitwise
+  bin[bin.length - 1] ^= 1;
+  return binToHex(bin);
+};
+
+test('[BTC VM] verifyTransaction: legacy, SegWit v0, and Taproot inputs', async (t) => {
+  const vm = await vmPromise;
+  const result = verifyTransaction({
+    spentOutputs: sourceOutputs,
+    transaction: getTransaction(),
+    vm,
+  });
+  t.deepEqual(result, true, stringify(result));
+});
+
+test('[BTC VM] verifyTransaction: instruction sets', async (t) => {
+  const transaction = getTransaction();
+  const verify = async (instructionSet: InstructionSetBTC) =>
+    verifyTransaction({
+      spentOutputs: sourceOutputs,
+      transaction,
+      vm: await instantiateVirtualMachineBTC(instructionSet),
+    });
+  t.deepEqual(await verify(InstructionSetBTC.BTC_2017_08), true);
+  t.deepEqual(await verify(InstructionSetBTC.BTC_2017_08_STRICT), [
+    `Error in evaluating input index "4": ${AuthenticationErrorBTC.disallowedUpgradableWitnessProgram}`,
+    `Error in evaluating input index "5": ${AuthenticationErrorBTC.disallowedUpgradableWitnessProgram}`,
+  ]);
+  t.deepEqual(await verify(InstructionSetBTC.BTC_2021_11), true);
+  t.deepEqual(await verify(InstructionSetBTC.BTC_2021_11_STRICT), true);
+});
+
+const verifyWitness = async (inputIndex: number, witness: string[]) =>
+  verifyTransaction({
+    spentOutputs: sourceOutputs,
+    transaction: getTransaction(replaceWitness(inputIndex, witness)),
+    vm: await vmPromise,
+  });
+
+test('[BTC VM] verifyTransaction: invalid witness v0 signatures', async (t) => {
+  t.deepEqual(
+    await verifyWitness(1, [
+      `${flipLastByte(witnesses[1][0].slice(0, -2))}01`,
+      witnesses[1][1],
+    ]),
+    [
+      `Error in evaluating input index "1": ${AuthenticationErrorCommon.nonNullSignatureFailure}`,
+    ]
+  );
+  t.deepEqual(
+    await verifyWitness(2, [
+      witnesses[2][0],
+      witnesses[2][2],
+      witnesses[2][1],
+      witnesses[2][3],
+    ]),
+    [
+      `Error in evaluating input index "2": ${AuthenticationErrorCommon.nonNullSignatureFailure}`,
+    ]
+  );
+});
+
+test('[BTC VM] verifyTransaction: invalid witness v0 witness data', async (t) => {
+  t.deepEqual(await verifyWitness(1, [witnesses[1][0]]), [
+    `Error in evaluating input index "1": ${AuthenticationErrorBTC.invalidKeyHashWitness}`,
+  ]);
+  t.deepEqual(await verifyWitness(3, []), [
+    `Error in evaluating input index "3": ${AuthenticationErrorBTC.invalidKeyHashWitness}`,
+  ]);
+  t.deepEqual(await verifyWitness(0, ['00']), [
+    `Error in evaluating input index "0": ${AuthenticationErrorBTC.unexpectedWitness}`,
+  ]);
+});
+
+test('[BTC VM] verifyTransaction: invalid Taproot key path spends', async (t) => {
+  t.deepEqual(await verifyWitness(4, [flipLastByte(witnesses[4][0])]), [
+    `Error in evaluating input index "4": ${AuthenticationErrorBTC.nonEmptyTaprootSignatureFailure}`,
+  ]);
+  t.deepEqual(await verifyWitness(4, [`${witnesses[4][0]}01`]), [
+    `Error in evaluating input index "4": ${AuthenticationErrorBTC.nonEmptyTaprootSignatureFailure}`,
+  ]);
+  t.deepEqual(await verifyWitness(4, [`${witnesses[4][0]}04`]), [
+    `Error in evaluating input index "4": ${AuthenticationErrorBTC.invalidSchnorrSigningSerializationType}`,
+  ]);
+});
+
+test('[BTC VM] verifyTransaction: invalid Taproot script path spends', async (t) => {
+  t.deepEqual(
+    await verifyWitness(5, [
+      flipLastByte(witnesses[5][0]),
+      ...witnesses[5].slice(1),
+    ]),
+    [
+      `Error in evaluating input index "5": ${AuthenticationErrorBTC.nonEmptyTaprootSignatureFailure}`,
+    ]
+  );
+  t.deepEqual(await verifyWitness(5, ['', ...witnesses[5].slice(1)]), [
+    `Error in evaluating input index "5": ${AuthenticationErrorCommon.unsuccessfulEvaluation}`,
+  ]);
+  t.deepEqual(
+    await verifyWitness(5, [
+      ...witnesses[5].slice(0, -1),
+      flipLastByte(witnesses[5][3]),
+    ]),
+    [
+      `Error in evaluating input index "5": ${AuthenticationErrorBTC.taprootCommitmentMismatch}`,
+    ]
+  );
+  t.deepEqual(await verifyWitness(5, [...witnesses[5], '50']), [
+    `Error in evaluating input index "5": ${AuthenticationErrorBTC.nonEmptyTaprootSignatureFailure}`,
+  ]);
+});
+
+test('[BTC VM] vm.evaluate: Taproot spends require sourceOutputs', async (t) => {
+  const vm = await vmPromise;
+  const state = vm.evaluate({
+    inputIndex: 4,
+    sourceOutputs: sourceOutputs.slice(0, 5),
+    spendingTransaction: getTransaction(),
+  });
+  t.deepEqual(vm.verify(state), AuthenticationErrorBTC.missingSourceOutputs);
+});
+
+test('[crypto] computeTapLeafHash', async (t) => {
+  const sha256 = await sha256Promise;
+  t.deepEqual(
+    computeTapLeafHash(sha256, 0xc0, hexToBin(witnesses[5][2])),
+    hexToBin('de60c5cb936de72f28d193c7e33e3d0013d893b86a589c571736547eda623058')
+  );
+});
+
+test('[crypto] verifySignatureSchnorrBIP340', async (t) => {
+  const secp256k1 = await secp256k1Promise;
+  const sha256 = await sha256Promise;
+  /**
+   * BIP340 test vector 1
+   */
+  const publicKey = hexToBin(
+    'dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659'
+  );
+  const message = hexToBin(
+    '243f6a8885a308d313198a2e03707344a4093822299f31d0082efa98ec4e6c89'
+  );
+  const signature = hexToBin(
+    '6896bd60eeae296db48a229ff71dfe071bde413e6d43f917dc8dcf8c78de33418906d11ac976abccb20b091292bff4ea897efcb639ea871cfa95f6de339e4b0a'
+  );
+  t.true(
+    verifySignatureSchnorrBIP340({
+      message,
+      publicKey,
+      secp256k1,
+      sha256,
+      signature,
+    })
+  );
+  t.false(
+    verifySignatureSchnorrBIP340({
+      message: hexToBin(flipLastByte(binToHex(message))),
+      publicKey,
+      secp256k1,
+      sha256,
+      signature,
+    })
+  );
+  t.false(
+    verifySignatureSchnorrBIP340({
+      message,
+      publicKey,
+      secp256k1,
+      sha256,
+      signature: signature.slice(1),
+    })
+  );
+});
+
+/**
+ * BIP340 test vectors (`test-vectors.csv`), including the negative vectors
+ */
+const bip340Vector: Macro<[
+  number,
+  string,
+  string,
+  string,
+  boolean,
+  string?
+]> = async (t, _index, publicKey, message, signature, expected) => {
+  const secp256k1 = await secp256k1Promise;
+  const sha256 = await sha256Promise;
+  t.is(
+    verifySignatureSchnorrBIP340({
+      message: hexToBin(message),
+      publicKey: hexToBin(publicKey),
+      secp256k1,
+      sha256,
+      signature: hexToBin(signature),
+    }),
+    expected
+  );
+};
+
+// eslint-disable-next-line functional/immutable-data
+bip340Vector.title = (
+  _,
+  index,
+  _publicKey,
+  _message,
+  _signature,
+  expected,
+  comment
+) =>
+  `[crypto] verifySignatureSchnorrBIP340: BIP340 test vector ${index} (${
+    expected ? 'valid' : 'invalid'
+  }${comment === undefined ? '' : `: ${comment}`})`;
+
+test(
+  bip340Vector,
+  0,
+  'f9308a019258c31049344f85f89d5229b531c845836f99b08601f113bce036f9',
+  '0000000000000000000000000000000000000000000000000000000000000000',
+  'e907831f80848d1069a5371b402410364bdf1c5f8307b0084c55f1ce2dca821525f66a4a85ea8b71e482a74f382d2ce5ebeee8fdb2172f477df4900d310536c0',
+  true
+);
+
+test(
+  bip340Vector,
+  1,
+  'dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659',
+  '243f6a8885a308d313198a2e03707344a4093822299f31d0082efa98ec4e6c89',
+  '6896bd60eeae296db48a229ff71dfe071bde413e6d43f917dc8dcf8c78de33418906d11ac976abccb20b091292bff4ea897efcb639ea871cfa95f6de339e4b0a',
+  true
+);
+
+test(
+  bip340Vector,
+  2,
+  'dd308afec5777e13121fa72b9cc1b7cc0139715309b086c960e18fd969774eb8',
+  '7e2d58d8b3bcdf1abadec7829054f90dda9805aab56c77333024b9d0a508b75c',
+  '5831aaeed7b44bb74e5eab94ba9d4294c49bcf2a60728d8b4c200f50dd313c1bab745879a5ad954a72c45a91c3a51d3c7adea98d82f8481e0e1e03674a6f3fb7',
+  true
+);
+
+test(
+  bip340Vector,
+  3,
+  '25d1dff95105f5253c4022f628a996ad3a0d95fbf21d468a1b33f8c160d8f517',
+  'ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+  '7eb0509757e246f19449885651611cb965ecc1a187dd51b64fda1edc9637d5ec97582b9cb13db3933705b32ba982af5af25fd78881ebb32771fc5922efc66ea3',
+  true,
+  'test fails if msg is reduced modulo p or n'
+);
+
+test(
+  bip340Vector,
+  4,
+  'd69c3509bb99e412e68b0fe8544e72837dfa30746d8be2aa65975f29d22dc7b9',
+  '4df3c3f68fcc83b27e9d42c90431a72499f17875c81a599b566c9889b9696703',
+  '00000000000000000000003b78ce563f89a0ed9414f5aa28ad0d96d6795f9c6376afb1548af603b3eb45c9f8207dee1060cb71c04e80f593060b07d28308d7f4',
+  true
+);
+
+test(
+  bip340Vector,
+  5,
+  'eefdea4cdb677750a420fee807eacf21eb9898ae79b9768766e4faa04a2d4a34',
+  '243f6a8885a308d313198a2e03707344a4093822299f31d0082efa98ec4e6c89',
+  '6cff5c3ba86c69ea4b7376f31a9bcb4f74c1976089b2d9963da2e5543e17776969e89b4c5564d00349106b8497785dd7d1d713a8ae82b32fa79d5f7fc407d39b',
+  false,
+  'public key not on the curve'
+);
+
+test(
+  bip340Vector,
+  6,
+  'dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659',
+  '243f6a8885a308d313198a2e03707344a4093822299f31d0082efa98ec4e6c89',
+  'fff97bd5755eeea420453a14355235d382f6472f8568a18b2f057a14602975563cc27944640ac607cd107ae10923d9ef7a73c643e166be5ebeafa34b1ac553e2',
+  false,
+  'has_even_y(R) is false'
+);
+
+test(
+  bip340Vector,
+  7,
+  'dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659',
+  '243f6a8885a308d313198a2e03707344a4093822299f31d0082efa98ec4e6c89',
+  '1fa62e331edbc21c394792d2ab1100a7b432b013df3f6ff4f99fcb33e0e1515f28890b3edb6e7189b630448b515ce4f8622a954cfe545735aaea5134fccdb2bd',
+  false,
+  'negated message'
+);
+
+test(
+  bip340Vector,
+  8,
+  'dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659',
+  '243f6a8885a308d313198a2e03707344a4093822299f31d0082efa98ec4e6c89',
+  '6cff5c3ba86c69ea4b7376f31a9bcb4f74c1976089b2d9963da2e5543e177769961764b3aa9b2ffcb6ef947b6887a226e8d7c93e00c5ed0c1834ff0d0c2e6da6',
+  false,
+  'negated s value'
+);
+
+test(
+  bip340Vector,
+  9,
+  'dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659',
+  '243f6a8885a308d313198a2e03707344a4093822299f31d0082efa98ec4e6c89',
+  '0000000000000000000000000000000000000000000000000000000000000000123dda8328af9c23a94c1feecfd123ba4fb73476f0d594dcb65c6425bd186051',
+  false,
+  'sG - eP is infinite. Test fails in single verification if has_even_y(inf) is defined as true and x(inf) as 0'
+);
+
+test(
+  bip340Vector,
+  10,
+  'dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659',
+  '243f6a8885a308d313198a2e03707344a4093822299f31d0082efa98ec4e6c89',
+  '00000000000000000000000000000000000000000000000000000000000000017615fbaf5ae28864013c099742deadb4dba87f11ac6754f93780d5a1837cf197',
+  false,
+  'sG - eP is infinite. Test fails in single verification if has_even_y(inf) is defined as true and x(inf) as 1'
+);
+
+test(
+  bip340Vector,
+  11,
+  'dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659',
+  '243f6a8885a308d313198a2e03707344a4093822299f31d0082efa98ec4e6c89',
+  '4a298dacae57395a15d0795ddbfd1dcb564da82b0f269bc70a74f8220429ba1d69e89b4c5564d00349106b8497785dd7d1d713a8ae82b32fa79d5f7fc407d39b',
+  false,
+  'sig[0:32] is not an X coordinate on the curve'
+);
+
+test(
+  bip340Vector,
+  12,
+  'dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659',
+  '243f6a8885a308d313198a2e03707344a4093822299f31d0082efa98ec4e6c89',
+  'fffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f69e89b4c5564d00349106b8497785dd7d1d713a8ae82b32fa79d5f7fc407d39b',
+  false,
+  'sig[0:32] is equal to field size'
+);
+
+test(
+  bip340Vector,
+  13,
+  'dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659',
+  '243f6a8885a308d313198a2e03707344a4093822299f31d0082efa98ec4e6c89',
+  '6cff5c3ba86c69ea4b7376f31a9bcb4f74c1976089b2d9963da2e5543e177769fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141',
+  false,
+  'sig[32:64] is equal to curve order'
+);
+
+test(
+  bip340Vector,
+  14,
+  'fffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc30',
+  '243f6a8885a308d313198a2e03707344a4093822299f31d0082efa98ec4e6c89',
+  '6cff5c3ba86c69ea4b7376f31a9bcb4f74c1976089b2d9963da2e5543e17776969e89b4c5564d00349106b8497785dd7d1d713a8ae82b32fa79d5f7fc407d39b',
+  false,
+  'public key is not a valid X coordinate because it exceeds the field size'
+);
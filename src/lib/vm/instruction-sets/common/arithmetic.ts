@@ -11,24 +11,63 @@ import {
   useThreeScriptNumbers,
   useTwoScriptNumbers,
 } from './combinators';
+import { applyError, AuthenticationErrorCommon } from './errors';
 import { opVerify } from './flow-control';
 import { OpcodesCommon } from './opcodes';
 import { bigIntToScriptNumber, booleanToScriptNumber } from './types';
 
+/**
+ * Push `value` to the stack as a Script Number, or apply an error if it
+ * overflows the Script Number range.
+ *
+ * @remarks
+ * If `maximumScriptNumberByteLength` is not provided (the legacy behavior),
+ * results are not range-checked: they may exceed the 4-byte limit, in which
+ * case they can only be used as non-numeric values in later operations.
+ *
+ * @param state - the state to update and return
+ * @param value - the numeric result to push
+ * @param maximumScriptNumberByteLength - the maximum valid number of bytes
+ */
+export const pushScriptNumberChecked = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<Errors>,
+  Errors
+>(
+  state: State,
+  value: bigint,
+  maximumScriptNumberByteLength?: number
+) => {
+  const scriptNumber = bigIntToScriptNumber(value);
+  return maximumScriptNumberByteLength !== undefined &&
+    scriptNumber.length > maximumScriptNumberByteLength
+    ? applyError<State, Errors>(
+        AuthenticationErrorCommon.overflowsScriptNumberRange,
+        state
+      )
+    : pushToStack(state, scriptNumber);
+};
+
 export const op1Add = <
   State extends AuthenticationProgramStateStack &
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useOneScriptNumber(
     state,
     (nextState, [value]) =>
-      pushToStack(nextState, bigIntToScriptNumber(value + BigInt(1))),
-    { requireMinimalEncoding }
+      pushScriptNumberChecked(
+        nextState,
+        value + BigInt(1),
+        maximumScriptNumberByteLength
+      ),
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const op1Sub = <
@@ -36,15 +75,21 @@ export const op1Sub = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useOneScriptNumber(
     state,
     (nextState, [value]) =>
-      pushToStack(nextState, bigIntToScriptNumber(value - BigInt(1))),
-    { requireMinimalEncoding }
+      pushScriptNumberChecked(
+        nextState,
+        value - BigInt(1),
+        maximumScriptNumberByteLength
+      ),
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const opNegate = <
@@ -52,15 +97,17 @@ export const opNegate = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useOneScriptNumber(
     state,
     (nextState, [value]) =>
       pushToStack(nextState, bigIntToScriptNumber(-value)),
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const opAbs = <
@@ -68,15 +115,17 @@ export const opAbs = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useOneScriptNumber(
     state,
     (nextState, [value]) =>
       pushToStack(nextState, bigIntToScriptNumber(value < 0 ? -value : value)),
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const opNot = <
@@ -84,8 +133,10 @@ export const opNot = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useOneScriptNumber(
@@ -97,7 +148,7 @@ export const opNot = <
           ? bigIntToScriptNumber(BigInt(1))
           : bigIntToScriptNumber(BigInt(0))
       ),
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const op0NotEqual = <
@@ -105,8 +156,10 @@ export const op0NotEqual = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useOneScriptNumber(
@@ -118,7 +171,7 @@ export const op0NotEqual = <
           ? bigIntToScriptNumber(BigInt(0))
           : bigIntToScriptNumber(BigInt(1))
       ),
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const opAdd = <
@@ -126,15 +179,21 @@ export const opAdd = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useTwoScriptNumbers(
     state,
     (nextState, [firstValue, secondValue]) =>
-      pushToStack(nextState, bigIntToScriptNumber(firstValue + secondValue)),
-    { requireMinimalEncoding }
+      pushScriptNumberChecked(
+        nextState,
+        firstValue + secondValue,
+        maximumScriptNumberByteLength
+      ),
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const opSub = <
@@ -142,15 +201,48 @@ export const opSub = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useTwoScriptNumbers(
     state,
     (nextState, [firstValue, secondValue]) =>
-      pushToStack(nextState, bigIntToScriptNumber(firstValue - secondValue)),
-    { requireMinimalEncoding }
+      pushScriptNumberChecked(
+        nextState,
+        firstValue - secondValue,
+        maximumScriptNumberByteLength
+      ),
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
+  );
+
+/**
+ * Multiply the top two Script Numbers on the stack. `OP_MUL` is disabled in
+ * most instruction sets; it was re-enabled (with overflow detection) by
+ * CHIP-2021-03 for `BCH_2022_05`.
+ */
+export const opMul = <
+  State extends AuthenticationProgramStateStack &
+    AuthenticationProgramStateError<Errors>,
+  Errors
+>({
+  maximumScriptNumberByteLength,
+  requireMinimalEncoding,
+}: {
+  maximumScriptNumberByteLength?: number;
+  requireMinimalEncoding: boolean;
+}) => (state: State) =>
+  useTwoScriptNumbers(
+    state,
+    (nextState, [firstValue, secondValue]) =>
+      pushScriptNumberChecked(
+        nextState,
+        firstValue * secondValue,
+        maximumScriptNumberByteLength
+      ),
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const opBoolAnd = <
@@ -158,8 +250,10 @@ export const opBoolAnd = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useTwoScriptNumbers(
@@ -171,7 +265,7 @@ export const opBoolAnd = <
           firstValue !== BigInt(0) && secondValue !== BigInt(0)
         )
       ),
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const opBoolOr = <
@@ -179,8 +273,10 @@ export const opBoolOr = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useTwoScriptNumbers(
@@ -192,7 +288,7 @@ export const opBoolOr = <
           firstValue !== BigInt(0) || secondValue !== BigInt(0)
         )
       ),
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const opNumEqual = <
@@ -200,15 +296,17 @@ export const opNumEqual = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useTwoScriptNumbers(
     state,
     (nextState, [firstValue, secondValue]) =>
       pushToStack(nextState, booleanToScriptNumber(firstValue === secondValue)),
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const opNumEqualVerify = <
@@ -216,6 +314,7 @@ export const opNumEqualVerify = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >(flags: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) =>
   combineOperations(
@@ -228,15 +327,17 @@ export const opNumNotEqual = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useTwoScriptNumbers(
     state,
     (nextState, [firstValue, secondValue]) =>
       pushToStack(nextState, booleanToScriptNumber(firstValue !== secondValue)),
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const opLessThan = <
@@ -244,15 +345,17 @@ export const opLessThan = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useTwoScriptNumbers(
     state,
     (nextState, [firstValue, secondValue]) =>
       pushToStack(nextState, booleanToScriptNumber(firstValue < secondValue)),
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const opLessThanOrEqual = <
@@ -260,15 +363,17 @@ export const opLessThanOrEqual = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useTwoScriptNumbers(
     state,
     (nextState, [firstValue, secondValue]) =>
       pushToStack(nextState, booleanToScriptNumber(firstValue <= secondValue)),
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const opGreaterThan = <
@@ -276,15 +381,17 @@ export const opGreaterThan = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useTwoScriptNumbers(
     state,
     (nextState, [firstValue, secondValue]) =>
       pushToStack(nextState, booleanToScriptNumber(firstValue > secondValue)),
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const opGreaterThanOrEqual = <
@@ -292,15 +399,17 @@ export const opGreaterThanOrEqual = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useTwoScriptNumbers(
     state,
     (nextState, [firstValue, secondValue]) =>
       pushToStack(nextState, booleanToScriptNumber(firstValue >= secondValue)),
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const opMin = <
@@ -308,8 +417,10 @@ export const opMin = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useTwoScriptNumbers(
@@ -321,7 +432,7 @@ export const opMin = <
           firstValue < secondValue ? firstValue : secondValue
         )
       ),
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const opMax = <
@@ -329,8 +440,10 @@ export const opMax = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useTwoScriptNumbers(
@@ -342,7 +455,7 @@ export const opMax = <
           firstValue > secondValue ? firstValue : secondValue
         )
       ),
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const opWithin = <
@@ -350,8 +463,10 @@ export const opWithin = <
     AuthenticationProgramStateError<Errors>,
   Errors
 >({
+  maximumScriptNumberByteLength,
   requireMinimalEncoding,
 }: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => (state: State) =>
   useThreeScriptNumbers(
@@ -363,7 +478,7 @@ export const opWithin = <
           secondValue <= firstValue && firstValue < thirdValue
         )
       ),
-    { requireMinimalEncoding }
+    { maximumScriptNumberByteLength, requireMinimalEncoding }
   );
 
 export const arithmeticOperations = <
@@ -371,6 +486,7 @@ export const arithmeticOperations = <
   State extends AuthenticationProgramStateCommon<Opcodes, Errors>,
   Errors
 >(flags: {
+  maximumScriptNumberByteLength?: number;
   requireMinimalEncoding: boolean;
 }) => ({
   [OpcodesCommon.OP_1ADD]: op1Add<State, Errors>(flags),
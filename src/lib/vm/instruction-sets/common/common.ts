@@ -3,16 +3,19 @@ import {
   encodeOutput,
   encodeOutputsForSigning,
   encodeSequenceNumbersForSigning,
+  encodeTokenPrefix,
 } from '../../../transaction/transaction-serialization';
 import { TransactionContextCommon } from '../../../transaction/transaction-types';
 import { Operation } from '../../virtual-machine';
 import {
+  AuthenticationProgramMetrics,
   AuthenticationProgramStateAlternateStack,
   AuthenticationProgramStateCommon,
   AuthenticationProgramStateError,
   AuthenticationProgramStateExecutionStack,
   AuthenticationProgramStateInternalCommon,
   AuthenticationProgramStateStack,
+  AuthenticationProgramStateTransactionContext,
   AuthenticationProgramTransactionContextCommon,
 } from '../../vm-types';
 import { AuthenticationInstruction } from '../instruction-sets-types';
@@ -75,6 +78,45 @@ export enum ConsensusCommon {
   maximumStackDepth = 1000,
 }
 
+/**
+ * The consensus limits enforced by an instruction set. Instruction sets accept
+ * a limits object (rather than referencing `ConsensusCommon` directly) so that
+ * proposed changes to these limits can be evaluated without modifying the
+ * instruction set implementation.
+ */
+export interface ConsensusLimitsCommon {
+  /**
+   * The maximum byte length of unlocking and locking bytecode (A.K.A.
+   * `MAX_SCRIPT_SIZE`).
+   */
+  readonly maximumBytecodeLength: number;
+  /**
+   * The maximum number of non-push operations which may be evaluated in a
+   * single bytecode evaluation (A.K.A. `MAX_OPS_PER_SCRIPT`).
+   */
+  readonly maximumOperationCount: number;
+  /**
+   * The maximum combined depth of the stack and alternate stack (A.K.A.
+   * `MAX_STACK_SIZE`).
+   */
+  readonly maximumStackDepth: number;
+  /**
+   * The maximum byte length of any stack item (A.K.A.
+   * `MAX_SCRIPT_ELEMENT_SIZE`).
+   */
+  readonly maximumStackItemLength: number;
+}
+
+/**
+ * The consensus limits shared by most Bitcoin forks (see `ConsensusCommon`).
+ */
+export const consensusLimitsCommon: ConsensusLimitsCommon = {
+  maximumBytecodeLength: ConsensusCommon.maximumBytecodeLength,
+  maximumOperationCount: ConsensusCommon.maximumOperationCount,
+  maximumStackDepth: ConsensusCommon.maximumStackDepth,
+  maximumStackItemLength: ConsensusCommon.maximumStackItemLength,
+};
+
 export const undefinedOperation = <
   State extends AuthenticationProgramStateExecutionStack &
     AuthenticationProgramStateError<Errors>,
@@ -85,22 +127,32 @@ export const undefinedOperation = <
   ),
 });
 
-export const checkLimitsCommon = <
+/**
+ * Create a combinator which checks the stack depth and operation count of the
+ * state produced by each operation against the provided `limits`.
+ *
+ * @param limits - the `ConsensusLimitsCommon` to enforce
+ */
+export const checkLimits = <
   State extends AuthenticationProgramStateError<Errors> &
     AuthenticationProgramStateStack &
     AuthenticationProgramStateAlternateStack & { operationCount: number },
   Errors
->(
-  operation: Operation<State>
-): Operation<State> => (state: State) => {
+>({
+  maximumOperationCount,
+  maximumStackDepth,
+}: Pick<
+  ConsensusLimitsCommon,
+  'maximumOperationCount' | 'maximumStackDepth'
+>) => (operation: Operation<State>): Operation<State> => (state: State) => {
   const nextState = operation(state);
   return nextState.stack.length + nextState.alternateStack.length >
-    ConsensusCommon.maximumStackDepth
+    maximumStackDepth
     ? applyError<State, Errors>(
         AuthenticationErrorCommon.exceededMaximumStackDepth,
         nextState
       )
-    : nextState.operationCount > ConsensusCommon.maximumOperationCount
+    : nextState.operationCount > maximumOperationCount
     ? applyError<State, Errors>(
         AuthenticationErrorCommon.exceededMaximumOperationCount,
         nextState
@@ -108,12 +160,23 @@ export const checkLimitsCommon = <
     : nextState;
 };
 
+export const checkLimitsCommon = <
+  State extends AuthenticationProgramStateError<Errors> &
+    AuthenticationProgramStateStack &
+    AuthenticationProgramStateAlternateStack & { operationCount: number },
+  Errors
+>(
+  operation: Operation<State>
+): Operation<State> =>
+  checkLimits<State, Errors>(consensusLimitsCommon)(operation);
+
 export const commonOperations = <
   Opcodes,
   State extends AuthenticationProgramStateCommon<Opcodes, Errors>,
   Errors
 >({
   flags,
+  limits = consensusLimitsCommon,
   ripemd160,
   secp256k1,
   sha1,
@@ -131,11 +194,19 @@ export const commonOperations = <
     requireBugValueZero: boolean;
     requireMinimalEncoding: boolean;
     requireNullSignatureFailures: boolean;
+    schnorrMultisig: boolean;
   };
+  /**
+   * The consensus limits to enforce, defaults to `consensusLimitsCommon`.
+   */
+  limits?: ConsensusLimitsCommon;
 }): { readonly [opcodes: number]: Operation<State> } => {
   const unconditionalOperations = {
     ...disabledOperations<State, Errors>(),
-    ...pushOperations<Opcodes, State, Errors>(flags),
+    ...pushOperations<Opcodes, State, Errors>(
+      flags,
+      limits.maximumStackItemLength
+    ),
     ...mapOverOperations<State>(
       unconditionalFlowControlOperations<Opcodes, State, Errors>(flags),
       incrementOperationCount
@@ -154,6 +225,7 @@ export const commonOperations = <
       ...bitwiseOperations<Opcodes, State, Errors>(),
       ...cryptoOperations<Opcodes, State, Errors>({
         flags,
+        maximumOperationCount: limits.maximumOperationCount,
         ripemd160,
         secp256k1,
         sha1,
@@ -175,7 +247,7 @@ export const commonOperations = <
       ...incrementingOperations,
       ...conditionalOperations,
     },
-    checkLimitsCommon
+    checkLimits<State, Errors>(limits)
   );
 };
 
@@ -207,6 +279,17 @@ export const createAuthenticationProgramInternalStateCommon = <
   stack,
 });
 
+/**
+ * Create an empty `AuthenticationProgramMetrics` object with which to begin
+ * tracking the resource usage of an input.
+ */
+export const createAuthenticationProgramMetricsEmpty = (): AuthenticationProgramMetrics => ({
+  hashDigestIterations: 0,
+  operationCost: 0,
+  peakStackBytes: 0,
+  signatureChecks: 0,
+});
+
 export const createTransactionContextCommon = (
   program: AuthenticationProgramTransactionContextCommon
 ): TransactionContextCommon => ({
@@ -220,6 +303,9 @@ export const createTransactionContextCommon = (
   outpointTransactionHash:
     program.spendingTransaction.inputs[program.inputIndex]
       .outpointTransactionHash,
+  ...(program.sourceOutput.token === undefined
+    ? {}
+    : { outputTokenPrefix: encodeTokenPrefix(program.sourceOutput.token) }),
   outputValue: program.sourceOutput.satoshis,
   sequenceNumber:
     program.spendingTransaction.inputs[program.inputIndex].sequenceNumber,
@@ -234,19 +320,31 @@ export const createTransactionContextCommon = (
 });
 
 export const createAuthenticationProgramStateCommon = <Opcodes, Errors>({
-  transactionContext,
   instructions,
+  metrics,
+  program,
   stack,
+  transactionContext,
 }: {
-  transactionContext: TransactionContextCommon;
   instructions: readonly AuthenticationInstruction<Opcodes>[];
+  /**
+   * If provided, the resource usage metrics from which to continue counting
+   * (see `AuthenticationProgramStateMetrics`).
+   */
+  metrics?: AuthenticationProgramMetrics;
+  program: AuthenticationProgramStateTransactionContext;
   stack: Uint8Array[];
+  transactionContext: TransactionContextCommon;
 }): AuthenticationProgramStateCommon<Opcodes, Errors> => ({
   ...createAuthenticationProgramInternalStateCommon<Opcodes, Errors>({
     instructions,
     stack,
   }),
   ...transactionContext,
+  ...(metrics === undefined ? {} : { metrics: { ...metrics } }),
+  inputIndex: program.inputIndex,
+  sourceOutputs: program.sourceOutputs,
+  spendingTransaction: program.spendingTransaction,
 });
 
 /**
@@ -265,17 +363,24 @@ export const cloneAuthenticationProgramStateCommon = <
   alternateStack: state.alternateStack.slice(),
   correspondingOutput: state.correspondingOutput,
   executionStack: state.executionStack.slice(),
+  inputIndex: state.inputIndex,
   instructions: state.instructions.slice(),
   ip: state.ip,
   lastCodeSeparator: state.lastCodeSeparator,
   locktime: state.locktime,
+  ...(state.metrics === undefined ? {} : { metrics: { ...state.metrics } }),
   operationCount: state.operationCount,
   outpointIndex: state.outpointIndex,
   outpointTransactionHash: state.outpointTransactionHash.slice(),
+  ...(state.outputTokenPrefix === undefined
+    ? {}
+    : { outputTokenPrefix: state.outputTokenPrefix }),
   outputValue: state.outputValue,
   sequenceNumber: state.sequenceNumber,
   signatureOperationsCount: state.signatureOperationsCount,
   signedMessages: state.signedMessages.slice(),
+  sourceOutputs: state.sourceOutputs,
+  spendingTransaction: state.spendingTransaction,
   stack: state.stack.slice(),
   transactionOutpoints: state.transactionOutpoints,
   transactionOutputs: state.transactionOutputs,
@@ -341,4 +446,7 @@ export const createAuthenticationProgramStateCommonEmpty = <Opcodes, Errors>({
 }): AuthenticationProgramStateCommon<Opcodes, Errors> => ({
   ...createAuthenticationProgramInternalStateCommon({ instructions, stack }),
   ...createTransactionContextCommonEmpty(),
+  inputIndex: 0,
+  sourceOutputs: [],
+  spendingTransaction: { inputs: [], locktime: 0, outputs: [], version: 0 },
 });
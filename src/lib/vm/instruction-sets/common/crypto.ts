@@ -1,4 +1,5 @@
 import { Ripemd160, Secp256k1, Sha1, Sha256 } from '../../../crypto/crypto';
+import { range } from '../../../format/format';
 import { Operation } from '../../virtual-machine';
 import {
   AuthenticationProgramStateCommon,
@@ -164,6 +165,7 @@ export const opCheckSig = <
       locktime: state.locktime,
       outpointIndex: state.outpointIndex,
       outpointTransactionHash: state.outpointTransactionHash,
+      outputTokenPrefix: state.outputTokenPrefix,
       outputValue: state.outputValue,
       sequenceNumber: state.sequenceNumber,
       sha256,
@@ -194,9 +196,45 @@ export const opCheckSig = <
   });
 
 const enum Multisig {
+  bitsPerByte = 8,
   maximumPublicKeys = 20,
 }
 
+/**
+ * Decode the bitfield (the "protocol bug value") of an `OP_CHECKMULTISIG` in
+ * Schnorr mode, returning the index of the public key checked against each
+ * signature. The least significant bit of the first byte selects the first
+ * public key.
+ *
+ * Returns `undefined` if the bitfield is not exactly one byte per 8 public keys
+ * (rounded up) or does not select exactly one public key per signature.
+ *
+ * @param bitfield - the bitfield to decode
+ * @param publicKeyCount - the number of public keys
+ * @param signatureCount - the number of signatures
+ */
+const decodeSchnorrMultisigBitfield = (
+  bitfield: Uint8Array,
+  publicKeyCount: number,
+  signatureCount: number
+) => {
+  if (bitfield.length !== Math.ceil(publicKeyCount / Multisig.bitsPerByte)) {
+    return undefined;
+  }
+  const selected = range(bitfield.length * Multisig.bitsPerByte).filter(
+    (bit) =>
+      // eslint-disable-next-line no-bitwise
+      ((bitfield[Math.floor(bit / Multisig.bitsPerByte)] >>
+        bit % Multisig.bitsPerByte) &
+        1) ===
+      1
+  );
+  return selected.length === signatureCount &&
+    selected.every((index) => index < publicKeyCount)
+    ? selected
+    : undefined;
+};
+
 export const opCheckMultiSig = <
   Opcodes,
   State extends AuthenticationProgramStateCommon<Opcodes, Errors>,
@@ -206,19 +244,30 @@ export const opCheckMultiSig = <
     requireMinimalEncoding,
     requireBugValueZero,
     requireNullSignatureFailures,
+    schnorrMultisig,
   },
+  maximumOperationCount = ConsensusCommon.maximumOperationCount,
   secp256k1,
   sha256,
 }: {
   sha256: { hash: Sha256['hash'] };
   secp256k1: {
+    verifySignatureSchnorr: Secp256k1['verifySignatureSchnorr'];
     verifySignatureDERLowS: Secp256k1['verifySignatureDERLowS'];
   };
   flags: {
     requireBugValueZero: boolean;
     requireMinimalEncoding: boolean;
     requireNullSignatureFailures: boolean;
+    /**
+     * If `true`, a non-zero protocol bug value enables Schnorr mode (as
+     * specified by the `BCH_2019_11` upgrade): the protocol bug value is
+     * decoded as a bitfield selecting the public key checked against each
+     * signature, and each signature must be a valid Schnorr signature.
+     */
+    schnorrMultisig: boolean;
   };
+  maximumOperationCount?: number;
 }) => (s: State) =>
   useOneScriptNumber(
     s,
@@ -244,7 +293,7 @@ export const opCheckMultiSig = <
       // eslint-disable-next-line functional/no-expression-statement, functional/immutable-data
       state.operationCount += potentialPublicKeys;
 
-      return state.operationCount > ConsensusCommon.maximumOperationCount
+      return state.operationCount > maximumOperationCount
         ? applyError<State, Errors>(
             AuthenticationErrorCommon.exceededMaximumOperationCount,
             state
@@ -279,6 +328,84 @@ export const opCheckMultiSig = <
                 nextState,
                 // eslint-disable-next-line complexity
                 (finalState, [protocolBugValue]) => {
+                  const coveredBytecode = serializeAuthenticationInstructions(
+                    finalState.instructions
+                  ).subarray(finalState.lastCodeSeparator + 1);
+                  const serialize = (signingSerializationType: Uint8Array) =>
+                    generateSigningSerializationBCH({
+                      correspondingOutput: state.correspondingOutput,
+                      coveredBytecode,
+                      locktime: state.locktime,
+                      outpointIndex: state.outpointIndex,
+                      outpointTransactionHash: state.outpointTransactionHash,
+                      outputTokenPrefix: state.outputTokenPrefix,
+                      outputValue: state.outputValue,
+                      sequenceNumber: state.sequenceNumber,
+                      sha256,
+                      signingSerializationType,
+                      transactionOutpoints: state.transactionOutpoints,
+                      transactionOutputs: state.transactionOutputs,
+                      transactionSequenceNumbers:
+                        state.transactionSequenceNumbers,
+                      version: state.version,
+                    });
+
+                  if (schnorrMultisig && protocolBugValue.length !== 0) {
+                    const selected = decodeSchnorrMultisigBitfield(
+                      protocolBugValue,
+                      publicKeys.length,
+                      signatures.length
+                    );
+                    if (selected === undefined) {
+                      return applyError<State, Errors>(
+                        AuthenticationErrorCommon.invalidSchnorrMultisigBitfield,
+                        finalState
+                      );
+                    }
+                    const error = selected.reduce<
+                      AuthenticationErrorCommon | undefined
+                    >((firstError, publicKeyIndex, signatureIndex) => {
+                      if (firstError !== undefined) {
+                        return firstError;
+                      }
+                      const publicKey = publicKeys[publicKeyIndex];
+                      const bitcoinEncodedSignature =
+                        signatures[signatureIndex];
+                      if (!isValidPublicKeyEncoding(publicKey)) {
+                        return AuthenticationErrorCommon.invalidPublicKeyEncoding;
+                      }
+                      if (
+                        !isValidSignatureEncodingBCHTransaction(
+                          bitcoinEncodedSignature
+                        )
+                      ) {
+                        return AuthenticationErrorCommon.invalidSignatureEncoding;
+                      }
+                      const {
+                        signingSerializationType,
+                        signature,
+                      } = decodeBitcoinSignature(bitcoinEncodedSignature);
+                      if (
+                        signature.length !== ConsensusBCH.schnorrSignatureLength
+                      ) {
+                        return AuthenticationErrorCommon.nonSchnorrSignatureInSchnorrMultisig;
+                      }
+                      const serialization = serialize(signingSerializationType);
+                      // eslint-disable-next-line functional/no-expression-statement, functional/immutable-data
+                      finalState.signedMessages.push(serialization);
+                      return secp256k1.verifySignatureSchnorr(
+                        signature,
+                        publicKey,
+                        sha256.hash(sha256.hash(serialization))
+                      )
+                        ? undefined
+                        : AuthenticationErrorCommon.nonNullSignatureFailure;
+                    }, undefined);
+                    return error === undefined
+                      ? pushToStack(finalState, booleanToScriptNumber(true))
+                      : applyError<State, Errors>(error, finalState);
+                  }
+
                   if (requireBugValueZero && protocolBugValue.length !== 0) {
                     return applyError<State, Errors>(
                       AuthenticationErrorCommon.invalidProtocolBugValue,
@@ -286,10 +413,6 @@ export const opCheckMultiSig = <
                     );
                   }
 
-                  const coveredBytecode = serializeAuthenticationInstructions(
-                    finalState.instructions
-                  ).subarray(finalState.lastCodeSeparator + 1);
-
                   let approvingPublicKeys = 0; // eslint-disable-line functional/no-let
                   let remainingSignatures = signatures.length; // eslint-disable-line functional/no-let
                   let remainingPublicKeys = publicKeys.length; // eslint-disable-line functional/no-let
@@ -328,22 +451,7 @@ export const opCheckMultiSig = <
                       signature,
                     } = decodeBitcoinSignature(bitcoinEncodedSignature);
 
-                    const serialization = generateSigningSerializationBCH({
-                      correspondingOutput: state.correspondingOutput,
-                      coveredBytecode,
-                      locktime: state.locktime,
-                      outpointIndex: state.outpointIndex,
-                      outpointTransactionHash: state.outpointTransactionHash,
-                      outputValue: state.outputValue,
-                      sequenceNumber: state.sequenceNumber,
-                      sha256,
-                      signingSerializationType,
-                      transactionOutpoints: state.transactionOutpoints,
-                      transactionOutputs: state.transactionOutputs,
-                      transactionSequenceNumbers:
-                        state.transactionSequenceNumbers,
-                      version: state.version,
-                    });
+                    const serialization = serialize(signingSerializationType);
                     const digest = sha256.hash(sha256.hash(serialization));
 
                     // eslint-disable-next-line functional/no-expression-statement, functional/immutable-data
@@ -428,21 +536,30 @@ export const opCheckMultiSigVerify = <
   Errors
 >({
   flags,
+  maximumOperationCount,
   secp256k1,
   sha256,
 }: {
   sha256: { hash: Sha256['hash'] };
   secp256k1: {
+    verifySignatureSchnorr: Secp256k1['verifySignatureSchnorr'];
     verifySignatureDERLowS: Secp256k1['verifySignatureDERLowS'];
   };
   flags: {
     requireBugValueZero: boolean;
     requireMinimalEncoding: boolean;
     requireNullSignatureFailures: boolean;
+    schnorrMultisig: boolean;
   };
+  maximumOperationCount?: number;
 }): Operation<State> =>
   combineOperations(
-    opCheckMultiSig<Opcodes, State, Errors>({ flags, secp256k1, sha256 }),
+    opCheckMultiSig<Opcodes, State, Errors>({
+      flags,
+      maximumOperationCount,
+      secp256k1,
+      sha256,
+    }),
     opVerify<State, Errors>()
   );
 
@@ -452,6 +569,7 @@ export const cryptoOperations = <
   Errors
 >({
   flags,
+  maximumOperationCount,
   ripemd160,
   secp256k1,
   sha1,
@@ -468,7 +586,9 @@ export const cryptoOperations = <
     requireBugValueZero: boolean;
     requireMinimalEncoding: boolean;
     requireNullSignatureFailures: boolean;
+    schnorrMultisig: boolean;
   };
+  maximumOperationCount?: number;
 }) => ({
   [OpcodesCommon.OP_RIPEMD160]: opRipemd160<Opcodes, State, Errors>({
     ripemd160,
@@ -493,6 +613,7 @@ export const cryptoOperations = <
   }),
   [OpcodesCommon.OP_CHECKMULTISIG]: opCheckMultiSig<Opcodes, State, Errors>({
     flags,
+    maximumOperationCount,
     secp256k1,
     sha256,
   }),
@@ -500,5 +621,5 @@ export const cryptoOperations = <
     Opcodes,
     State,
     Errors
-  >({ flags, secp256k1, sha256 }),
+  >({ flags, maximumOperationCount, secp256k1, sha256 }),
 });
@@ -22,6 +22,7 @@ export enum AuthenticationErrorCommon {
   invalidNaturalNumber = 'Invalid input: the key/signature count inputs for OP_CHECKMULTISIG require a natural number (n > 0).',
   invalidProtocolBugValue = 'The OP_CHECKMULTISIG protocol bug value must be a Script Number 0 (to comply with the "NULLDUMMY" rule).',
   invalidPublicKeyEncoding = 'Encountered an improperly encoded public key.',
+  invalidSchnorrMultisigBitfield = 'Program called an OP_CHECKMULTISIG operation in Schnorr mode with an invalid bitfield. The bitfield must include one byte per 8 public keys (rounded up) and select exactly one public key per signature.',
   invalidScriptNumber = 'Invalid input: this operation requires a valid Script Number.',
   invalidSignatureEncoding = 'Encountered an improperly encoded signature.',
   locktimeDisabled = 'Program called an OP_CHECKLOCKTIMEVERIFY operation, but locktime is disabled for this transaction.',
@@ -32,6 +33,8 @@ export enum AuthenticationErrorCommon {
   nonEmptyExecutionStack = 'Program completed with a non-empty execution stack (missing `OP_ENDIF`).',
   nonMinimalPush = 'Push operations must use the smallest possible encoding.',
   nonNullSignatureFailure = 'Program failed a signature verification with a non-null signature (violating the "NULLFAIL" rule).',
+  nonSchnorrSignatureInSchnorrMultisig = 'Program used a non-Schnorr signature in an OP_CHECKMULTISIG operation in Schnorr mode (with a non-zero protocol bug value).',
+  overflowsScriptNumberRange = 'Program produced a numeric result which overflows the Script Number range.',
   requiresCleanStack = 'Program completed with an unexpected number of items on the stack (must be exactly 1).',
   schnorrSizedSignatureInCheckMultiSig = 'Program used a schnorr-sized signature (65 bytes) in an OP_CHECKMULTISIG operation.',
   unexpectedElse = 'Encountered an OP_ELSE outside of an OP_IF ... OP_ENDIF block.',
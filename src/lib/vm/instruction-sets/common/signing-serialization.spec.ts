@@ -5,6 +5,7 @@ import {
   binToHex,
   createTransactionContextCommon,
   decodeTransactionUnsafe,
+  encodeTokenPrefix,
   generateSigningSerializationBCH,
   hexToBin,
   instantiateSha256,
@@ -80,3 +81,50 @@ pendingTests.map((expectation, currentTest) => {
   });
   return undefined;
 });
+
+test('[signing-serialization] generateSigningSerializationBCH: outputTokenPrefix', async (t) => {
+  const sha256 = await sha256Promise;
+  const tokenPrefix = encodeTokenPrefix({
+    amount: BigInt(1),
+    category: new Uint8Array(32).fill(1),
+  });
+  const state = createTransactionContextCommon({
+    inputIndex: 0,
+    sourceOutput: { satoshis: new Uint8Array(8) },
+    spendingTransaction: decodeTransactionUnsafe(
+      hexToBin(
+        '020000000100000000000000000000000000000000000000000000000000000000000000000000000000ffffffff0100000000000000000000000000'
+      )
+    ),
+  });
+  const parameters = {
+    correspondingOutput: state.correspondingOutput,
+    coveredBytecode: Uint8Array.of(0x51),
+    forkId: Uint8Array.of(0, 0, 0),
+    locktime: state.locktime,
+    outpointIndex: state.outpointIndex,
+    outpointTransactionHash: state.outpointTransactionHash,
+    outputValue: state.outputValue,
+    sequenceNumber: state.sequenceNumber,
+    sha256,
+    signingSerializationType: Uint8Array.of(0x41),
+    transactionOutpoints: state.transactionOutpoints,
+    transactionOutputs: state.transactionOutputs,
+    transactionSequenceNumbers: state.transactionSequenceNumbers,
+    version: state.version,
+  };
+  const withoutTokens = binToHex(generateSigningSerializationBCH(parameters));
+  const withTokens = binToHex(
+    generateSigningSerializationBCH({
+      ...parameters,
+      outputTokenPrefix: tokenPrefix,
+    })
+  );
+  const coveredBytecodeIndex = withoutTokens.indexOf('0151');
+  t.deepEqual(
+    withTokens,
+    `${withoutTokens.slice(0, coveredBytecodeIndex)}${binToHex(
+      tokenPrefix
+    )}${withoutTokens.slice(coveredBytecodeIndex)}`
+  );
+});
@@ -149,6 +149,7 @@ export const generateSigningSerializationBCH = ({
   locktime,
   outpointIndex,
   outpointTransactionHash,
+  outputTokenPrefix = Uint8Array.of(),
   outputValue,
   sequenceNumber,
   sha256,
@@ -186,6 +187,12 @@ export const generateSigningSerializationBCH = ({
    * `lastCodeSeparator`.
    */
   coveredBytecode: Uint8Array;
+  /**
+   * The encoded token prefix of the outpoint being spent (see
+   * `encodeTokenPrefix`) – an empty `Uint8Array` (the default) if the outpoint
+   * holds no tokens.
+   */
+  outputTokenPrefix?: Uint8Array;
   /**
    * The 8-byte `Uint64LE`-encoded value of the outpoint in satoshis (see
    * `bigIntToBinUint64LE`).
@@ -231,6 +238,7 @@ export const generateSigningSerializationBCH = ({
     }),
     outpointTransactionHash.slice().reverse(),
     numberToBinUint32LE(outpointIndex),
+    outputTokenPrefix,
     bigIntToBitcoinVarInt(BigInt(coveredBytecode.length)),
     coveredBytecode,
     outputValue,
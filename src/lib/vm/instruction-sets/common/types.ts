@@ -34,6 +34,11 @@ const normalMaximumScriptNumberByteLength = 4;
  * further be encoded as minimally as possible (no zero-padding). See code/tests
  * for details.
  *
+ * Beginning in `BCH_2022_05` (CHIP-2021-03), arithmetic operations instead
+ * parse Script Numbers of up to 8 bytes (for 64-bits: inclusive range from
+ * -2^63 + 1 to 2^63 - 1), and results which overflow this range produce an
+ * error rather than an unusable stack item.
+ *
  * @remarks
  * Operators may push numeric results to the stack which exceed the current
  * 4-byte length limit of Script Numbers. While these stack elements would
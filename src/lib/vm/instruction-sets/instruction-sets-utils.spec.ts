@@ -305,7 +305,7 @@ test('disassembleBytecodeBCH & assembleBytecodeBCH', (t) => {
 
 test('disassembleBytecodeBTC & assembleBytecodeBTC', (t) => {
   const zcfAsm =
-    'OP_DUP OP_HASH160 OP_PUSHBYTES_20 0x8b139a5274cc85e2d36d4f97922a15ae5d7f68af OP_EQUAL OP_IF OP_CHECKSIG OP_ELSE OP_DUP OP_HASH160 OP_PUSHBYTES_20 0xf127e6b53e2005930718681d245fe5a2b22f2b9f OP_EQUAL OP_IF OP_OVER OP_4 OP_PICK OP_EQUAL OP_NOT OP_VERIFY OP_DUP OP_TOALTSTACK OP_UNKNOWN187 OP_FROMALTSTACK OP_UNKNOWN186 OP_ELSE OP_RETURN OP_ENDIF OP_ENDIF';
+    'OP_DUP OP_HASH160 OP_PUSHBYTES_20 0x8b139a5274cc85e2d36d4f97922a15ae5d7f68af OP_EQUAL OP_IF OP_CHECKSIG OP_ELSE OP_DUP OP_HASH160 OP_PUSHBYTES_20 0xf127e6b53e2005930718681d245fe5a2b22f2b9f OP_EQUAL OP_IF OP_OVER OP_4 OP_PICK OP_EQUAL OP_NOT OP_VERIFY OP_DUP OP_TOALTSTACK OP_UNKNOWN187 OP_FROMALTSTACK OP_CHECKSIGADD OP_ELSE OP_RETURN OP_ENDIF OP_ENDIF';
   t.deepEqual(disassembleBytecodeBTC(hexToBin(zcfHex)), zcfAsm);
   t.deepEqual(assembleBytecodeBTC(zcfAsm), {
     bytecode: hexToBin(zcfHex),
@@ -1,5 +1,5 @@
-export * from './btc/btc';
 export * from './bch/bch';
+export * from './btc/btc';
 export * from './common/common';
 export * from './instruction-sets-utils';
 export * from './instruction-sets-types';
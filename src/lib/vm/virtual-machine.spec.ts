@@ -152,3 +152,113 @@ test('vm.stateStepMutate does not clone (mutating the original state)', (t) => {
   t.deepEqual(vm.stateStepMutate(changed), { instructions, ip: 6, stack: [1] });
   t.deepEqual(changed, { instructions, ip: 6, stack: [1] });
 });
+
+test('vm.debugSession with a simple instruction set', (t) => {
+  const session = vm.debugSession({ instructions }, [
+    { ip: 0 },
+    { condition: (state) => state.stack[0] === 2, ip: 4 },
+    { condition: (state) => state.stack[0] === 3, ip: 5 },
+  ]);
+  t.deepEqual(session.current(), {
+    phase: 0,
+    reason: 'start',
+    state: { instructions, ip: 0, stack: [] },
+  });
+  t.deepEqual(session.continue(), {
+    breakpoint: 0,
+    phase: 0,
+    reason: 'breakpoint',
+    state: { instructions, ip: 0, stack: [] },
+  });
+  t.deepEqual(session.current(), {
+    breakpoint: 0,
+    phase: 0,
+    reason: 'breakpoint',
+    state: { instructions, ip: 0, stack: [] },
+  });
+  t.deepEqual(session.step(), {
+    phase: 0,
+    reason: 'step',
+    state: { instructions, ip: 1, stack: [0] },
+  });
+  t.deepEqual(session.continue(), {
+    breakpoint: 1,
+    phase: 0,
+    reason: 'breakpoint',
+    state: { instructions, ip: 4, stack: [2, 0] },
+  });
+  t.deepEqual(session.continue(), {
+    phase: 0,
+    reason: 'complete',
+    state: { instructions, ip: 6, stack: [1] },
+  });
+  t.deepEqual(session.step(), {
+    phase: 0,
+    reason: 'complete',
+    state: { instructions, ip: 6, stack: [1] },
+  });
+});
+
+test('vm.debugSession: creating a session does not evaluate the program', (t) => {
+  // eslint-disable-next-line functional/no-let
+  let evaluated = 0;
+  const countingVm = createAuthenticationVirtualMachine({
+    ...simpleInstructionSet,
+    operations: {
+      ...simpleInstructionSet.operations,
+      [SimpleOps.OP_0]: (state) => {
+        evaluated += 1;
+        state.stack.push(0);
+        return state;
+      },
+    },
+  });
+  const session = countingVm.debugSession({ instructions });
+  t.is(evaluated, 0);
+  t.deepEqual(session.step().state, { instructions, ip: 1, stack: [0] });
+  t.is(evaluated, 1);
+});
+
+test('vm.debugSession: stepOver and stepOut without an execution stack', (t) => {
+  const session = vm.debugSession({ instructions });
+  t.deepEqual(session.stepOver().state, { instructions, ip: 1, stack: [0] });
+  t.deepEqual(session.stepOut(), {
+    phase: 0,
+    reason: 'complete',
+    state: { instructions, ip: 6, stack: [1] },
+  });
+});
+
+test('vm.debugSession: range breakpoints', (t) => {
+  const line = (lineNumber: number) => ({
+    endColumn: 10,
+    endLineNumber: lineNumber,
+    startColumn: 1,
+    startLineNumber: lineNumber,
+  });
+  const sourceMap = [line(1), line(1), line(2), line(3), line(3), line(4)];
+  const session = vm.debugSession(
+    { instructions },
+    [{ range: { ...line(3), startColumn: 5 } }],
+    { 0: sourceMap }
+  );
+  t.deepEqual(session.continue().state, {
+    instructions,
+    ip: 3,
+    stack: [2],
+  });
+  t.deepEqual(session.continue().state, {
+    instructions,
+    ip: 4,
+    stack: [2, 0],
+  });
+  t.deepEqual(session.continue().reason, 'complete');
+  t.deepEqual(
+    vm
+      .debugSession({ instructions }, [{ phase: 1, range: line(3) }], {
+        0: sourceMap,
+      })
+      .continue().reason,
+    'complete'
+  );
+});
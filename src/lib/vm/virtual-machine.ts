@@ -1,7 +1,11 @@
 import { range } from '../format/format';
+import { Range } from '../template/language/language-types';
 
 import { AuthenticationProgramStateBCH } from './instruction-sets/instruction-sets';
-import { AuthenticationProgramStateMinimum } from './vm-types';
+import {
+  AuthenticationProgramStateExecutionStack,
+  AuthenticationProgramStateMinimum,
+} from './vm-types';
 
 /**
  * Operations define the behavior of an opcode in an `InstructionSet`.
@@ -117,6 +121,125 @@ export interface InstructionSet<AuthenticationProgram, ProgramState> {
   verify: (state: ProgramState) => string | true;
 }
 
+/**
+ * A breakpoint at which an `AuthenticationVirtualMachineDebugSession` should
+ * pause evaluation. Breakpoints are tested before the instruction at the
+ * breakpoint's location is evaluated.
+ *
+ * Breakpoints may be located by instruction index (`ip`) or by a `range` in
+ * the source of a template script (see the `sourceMaps` parameter of
+ * `debugSession`).
+ */
+export type DebugSessionBreakpoint<ProgramState> = {
+  /**
+   * An optional condition which must also be satisfied for evaluation to pause
+   * at this breakpoint, e.g. `(state) => state.stack.length > 2`.
+   */
+  condition?: (state: Readonly<ProgramState>) => boolean;
+  /**
+   * The index of the evaluation phase in which this breakpoint applies (e.g.
+   * for BCH, `0` is the unlocking phase, `1` is the locking phase, and `2` is
+   * the P2SH phase). If `undefined`, the breakpoint applies in all phases.
+   */
+  phase?: number;
+} & (
+  | {
+      /**
+       * The index of the instruction before which evaluation should pause.
+       */
+      ip: number;
+    }
+  | {
+      /**
+       * The range in a template script's source. Evaluation will pause before
+       * any instruction which was compiled from source overlapping this range.
+       * Requires a source map for the relevant phase(s).
+       */
+      range: Range;
+    }
+);
+
+/**
+ * The reason for which an `AuthenticationVirtualMachineDebugSession` has
+ * paused:
+ * - `start` – the session has not yet moved (it is paused before the first
+ * instruction of the first phase),
+ * - `breakpoint` – a breakpoint was reached,
+ * - `step` – the requested step was completed, or
+ * - `complete` – evaluation is complete.
+ */
+export type DebugSessionPauseReason =
+  | 'breakpoint'
+  | 'complete'
+  | 'start'
+  | 'step';
+
+/**
+ * The result of a movement in an `AuthenticationVirtualMachineDebugSession`.
+ */
+export interface DebugSessionPause<ProgramState> {
+  /**
+   * If `reason` is `breakpoint`, the index of the breakpoint (in the provided
+   * `breakpoints` array) which caused the session to pause.
+   */
+  breakpoint?: number;
+  /**
+   * The index of the current evaluation phase.
+   */
+  phase: number;
+  reason: DebugSessionPauseReason;
+  /**
+   * A copy of the current program state – the instruction at `state.ip` has
+   * not yet been evaluated. Once evaluation is complete, this is the final
+   * program state (as would be returned by `evaluate`).
+   */
+  state: ProgramState;
+}
+
+/**
+ * A resumable debugging session for a single authentication program, created
+ * by the `debugSession` method of an `AuthenticationVirtualMachine`.
+ *
+ * Unlike `debug`, a debugging session does not record every intermediate
+ * program state: only the current program state is held, and copies are made
+ * only when a pause is returned. This allows long-running programs to be
+ * inspected efficiently.
+ *
+ * Step-over and step-out behavior is determined by the depth of the program
+ * state's `executionStack` (see `AuthenticationProgramStateExecutionStack`);
+ * for program states without an `executionStack`, `stepOver` behaves like
+ * `step`, and `stepOut` runs to the end of the current phase.
+ */
+export interface AuthenticationVirtualMachineDebugSession<ProgramState> {
+  /**
+   * Evaluate instructions until a breakpoint is reached or evaluation is
+   * complete. If the session has not yet moved, breakpoints are also tested
+   * against the initial program state.
+   */
+  continue: () => DebugSessionPause<ProgramState>;
+  /**
+   * Return the current pause (without evaluating any instructions), including
+   * the reason for which the session last paused.
+   */
+  current: () => DebugSessionPause<ProgramState>;
+  /**
+   * Evaluate a single instruction.
+   */
+  step: () => DebugSessionPause<ProgramState>;
+  /**
+   * Evaluate a single instruction; if the instruction opens a conditional
+   * block (e.g. `OP_IF`), continue evaluating until the block is closed (or a
+   * breakpoint is reached).
+   */
+  stepOver: () => DebugSessionPause<ProgramState>;
+  /**
+   * Continue evaluating until the current conditional block is closed (e.g.
+   * by `OP_ENDIF`) or a breakpoint is reached. If no conditional block is
+   * open, continue until the end of the current phase.
+   */
+  stepOut: () => DebugSessionPause<ProgramState>;
+}
+
 /**
  * A set of pure-functions allowing authentication programs to be evaluated and
  * inspected.
@@ -157,6 +280,33 @@ export interface AuthenticationVirtualMachine<
    */
   debug: (program: Readonly<AuthenticationProgram>) => ProgramState[];
 
+  /**
+   * Create a resumable debugging session for a program. The session begins
+   * paused before the first instruction of the first phase. See
+   * `AuthenticationVirtualMachineDebugSession` for details.
+   *
+   * The initial program state of each evaluation phase is identified as the
+   * session reaches the end of the previous phase, so creating a session does
+   * not evaluate the program.
+   *
+   * This method is optional for implementations of
+   * `AuthenticationVirtualMachine`; virtual machines created by
+   * `createAuthenticationVirtualMachine` always provide it.
+   *
+   * @param program - the `AuthenticationProgram` to debug
+   * @param breakpoints - an array of `DebugSessionBreakpoint`s at which the
+   * session should pause when using `continue`, `stepOver`, or `stepOut`
+   * @param sourceMaps - an object mapping phase indexes to source maps
+   * (arrays mapping each instruction index to the `Range` in the template
+   * script from which it was compiled, see `extractInstructionRanges`) –
+   * required for breakpoints located by `range`
+   */
+  debugSession?: (
+    program: Readonly<AuthenticationProgram>,
+    breakpoints?: DebugSessionBreakpoint<ProgramState>[],
+    sourceMaps?: { [phase: number]: (Range | undefined)[] | undefined }
+  ) => AuthenticationVirtualMachineDebugSession<ProgramState>;
+
   /**
    * Fully evaluate a program, returning the resulting `ProgramState`.
    *
@@ -225,6 +375,27 @@ export interface AuthenticationVirtualMachine<
   verify: (state: ProgramState) => true | string;
 }
 
+/**
+ * Returns `true` if the position `a` is before (or equal to) position `b`.
+ */
+const isBeforeOrEqual = (
+  a: { column: number; line: number },
+  b: { column: number; line: number }
+) => a.line < b.line || (a.line === b.line && a.column <= b.column);
+
+/**
+ * Returns `true` if the two ranges overlap (or touch).
+ */
+const rangesOverlap = (a: Range, b: Range) =>
+  isBeforeOrEqual(
+    { column: a.startColumn, line: a.startLineNumber },
+    { column: b.endColumn, line: b.endLineNumber }
+  ) &&
+  isBeforeOrEqual(
+    { column: b.startColumn, line: b.startLineNumber },
+    { column: a.endColumn, line: a.endLineNumber }
+  );
+
 /**
  * Create an AuthenticationVirtualMachine to evaluate authentication programs
  * constructed from operations in the `instructionSet`.
@@ -235,7 +406,13 @@ export const createAuthenticationVirtualMachine = <
   ProgramState extends AuthenticationProgramStateMinimum = AuthenticationProgramStateBCH
 >(
   instructionSet: InstructionSet<AuthenticationProgram, ProgramState>
-): AuthenticationVirtualMachine<AuthenticationProgram, ProgramState> => {
+): AuthenticationVirtualMachine<AuthenticationProgram, ProgramState> &
+  Required<
+    Pick<
+      AuthenticationVirtualMachine<AuthenticationProgram, ProgramState>,
+      'debugSession'
+    >
+  > => {
   const availableOpcodes = 256;
   const operators = range(availableOpcodes).map((codepoint) =>
     (instructionSet.operations[codepoint] as
@@ -322,8 +499,165 @@ export const createAuthenticationVirtualMachine = <
     return [...results, finalResult];
   };
 
+  const getExecutionDepth = (state: ProgramState) => {
+    const { executionStack } = (state as unknown) as Partial<
+      AuthenticationProgramStateExecutionStack
+    >;
+    return executionStack === undefined ? 0 : executionStack.length;
+  };
+
+  // eslint-disable-next-line max-lines-per-function
+  const debugSession = (
+    program: AuthenticationProgram,
+    breakpoints: DebugSessionBreakpoint<ProgramState>[] = [],
+    sourceMaps: { [phase: number]: (Range | undefined)[] | undefined } = {}
+  ): AuthenticationVirtualMachineDebugSession<ProgramState> => {
+    /* eslint-disable functional/no-let, functional/no-expression-statement, functional/no-conditional-statement, functional/no-loop-statement, functional/immutable-data */
+    const completedPhases: ProgramState[] = [];
+
+    /**
+     * Re-run the instruction set's `evaluate` method, substituting the
+     * completed state of each phase already evaluated in this session, to find
+     * the initial state of the next phase (or the final state of the
+     * evaluation). No instructions are evaluated.
+     */
+    const nextPhase = () => {
+      let index = 0;
+      let initial: ProgramState | undefined;
+      const result = instructionSet.evaluate(program, (phaseState) => {
+        const completed = completedPhases[index] as ProgramState | undefined;
+        if (completed === undefined && initial === undefined) {
+          initial = clone(phaseState);
+        }
+        index += 1;
+        return completed === undefined ? phaseState : clone(completed);
+      });
+      return { initial, result };
+    };
+
+    const first = nextPhase();
+    let phase = 0;
+    let started = false;
+    let complete = first.initial === undefined;
+    let state = first.initial ?? first.result;
+    let last: { breakpoint?: number; reason: DebugSessionPauseReason } = {
+      reason: 'start',
+    };
+
+    /**
+     * Once the current phase is complete, move to the initial state of the
+     * next phase (or complete the session).
+     */
+    const settle = () => {
+      while (!complete && !stateContinue(state)) {
+        completedPhases.push(state);
+        const next = nextPhase();
+        if (next.initial === undefined) {
+          complete = true;
+          state = next.result;
+        } else {
+          phase += 1;
+          state = next.initial;
+        }
+      }
+    };
+    settle();
+
+    const findBreakpoint = () =>
+      breakpoints.findIndex(
+        (breakpoint) =>
+          (breakpoint.phase === undefined || breakpoint.phase === phase) &&
+          ('ip' in breakpoint
+            ? breakpoint.ip === state.ip
+            : rangesOverlap(
+                sourceMaps[phase]?.[state.ip] ?? {
+                  endColumn: -1,
+                  endLineNumber: -1,
+                  startColumn: -1,
+                  startLineNumber: -1,
+                },
+                breakpoint.range
+              )) &&
+          (breakpoint.condition === undefined || breakpoint.condition(state))
+      );
+
+    const pause = (
+      reason: DebugSessionPauseReason,
+      breakpoint?: number
+    ): DebugSessionPause<ProgramState> => {
+      last = { breakpoint, reason: complete ? 'complete' : reason };
+      return {
+        ...(last.breakpoint === undefined
+          ? {}
+          : { breakpoint: last.breakpoint }),
+        phase,
+        reason: last.reason,
+        state: clone(state),
+      };
+    };
+
+    const advance = () => {
+      started = true;
+      state = stateStepMutate(state);
+      settle();
+    };
+
+    const runUntil = (isDone: () => boolean) => {
+      while (!complete) {
+        advance();
+        const breakpoint = complete ? -1 : findBreakpoint();
+        if (breakpoint !== -1) {
+          return pause('breakpoint', breakpoint);
+        }
+        if (isDone()) {
+          return pause('step');
+        }
+      }
+      return pause('complete');
+    };
+
+    return {
+      continue: () => {
+        if (!started && !complete) {
+          started = true;
+          const breakpoint = findBreakpoint();
+          if (breakpoint !== -1) {
+            return pause('breakpoint', breakpoint);
+          }
+        }
+        return runUntil(() => false);
+      },
+      current: () => pause(last.reason, last.breakpoint),
+      step: () => {
+        if (!complete) {
+          advance();
+        }
+        return pause('step');
+      },
+      stepOver: () => {
+        const initialPhase = phase;
+        const initialDepth = getExecutionDepth(state);
+        return runUntil(
+          () =>
+            phase !== initialPhase || getExecutionDepth(state) <= initialDepth
+        );
+      },
+      stepOut: () => {
+        const initialPhase = phase;
+        const initialDepth = getExecutionDepth(state);
+        return runUntil(
+          () =>
+            phase !== initialPhase ||
+            (initialDepth > 0 && getExecutionDepth(state) < initialDepth)
+        );
+      },
+    };
+    /* eslint-enable functional/no-let, functional/no-expression-statement, functional/no-conditional-statement, functional/no-loop-statement, functional/immutable-data */
+  };
+
   return {
     debug,
+    debugSession,
     evaluate,
     stateContinue,
     stateDebug,
@@ -76,7 +76,7 @@ type MakeOptional<T, K extends keyof T> = Partial<Pick<T, K>> & Omit<T, K>;
  */
 export interface AuthenticationProgramTransactionContextCommon {
   inputIndex: number;
-  sourceOutput: Pick<Output, 'satoshis'>;
+  sourceOutput: Pick<Output, 'satoshis' | 'token'>;
   spendingTransaction: Transaction<MakeOptional<Input, 'unlockingBytecode'>>;
 }
 
@@ -86,7 +86,11 @@ export interface AuthenticationProgramTransactionContextCommon {
  */
 export interface AuthenticationProgramCommon {
   inputIndex: number;
-  sourceOutput: Output;
+  /**
+   * The outputs spent by every input of the `spendingTransaction` in matching
+   * order (`inputs[0]` spends `sourceOutputs[0]`, etc.).
+   */
+  sourceOutputs: Output[];
   spendingTransaction: Transaction;
 }
 
@@ -104,6 +108,42 @@ export interface AuthenticationProgramStateSignatureAnalysis {
   signedMessages: Uint8Array[];
 }
 
+/**
+ * Resource usage metrics accumulated over the evaluation of a single input.
+ */
+export interface AuthenticationProgramMetrics {
+  /**
+   * The cumulative operation cost of all evaluated instructions, including
+   * instructions in unexecuted branches.
+   */
+  operationCost: number;
+  /**
+   * The cumulative number of hash digest iterations (compression function
+   * applications) performed by hashing and signature checking operations.
+   */
+  hashDigestIterations: number;
+  /**
+   * The number of signature checks performed, as counted by the SigChecks
+   * specification (deployed in `BCH_2020_05`).
+   */
+  signatureChecks: number;
+  /**
+   * The largest combined byte length of all items on the stack and alternate
+   * stack at the end of any evaluated instruction.
+   */
+  peakStackBytes: number;
+}
+
+export interface AuthenticationProgramStateMetrics {
+  /**
+   * If present, the resource usage metrics of the input being evaluated. These
+   * are only tracked by instruction sets configured to do so (e.g. see
+   * `ConsensusLimitsBCH.density`), and they are carried across the unlocking,
+   * locking, and redeem bytecode evaluations of an input.
+   */
+  metrics?: AuthenticationProgramMetrics;
+}
+
 export interface AuthenticationProgramStateInternalCommon<
   Opcodes,
   InstructionSetError,
@@ -114,6 +154,7 @@ export interface AuthenticationProgramStateInternalCommon<
     AuthenticationProgramStateAlternateStack<StackType>,
     AuthenticationProgramStateExecutionStack,
     AuthenticationProgramStateError<InstructionSetError>,
+    AuthenticationProgramStateMetrics,
     AuthenticationProgramStateSignatureAnalysis {
   /**
    * The `lastCodeSeparator` indicates the index of the most recently executed
@@ -131,6 +172,23 @@ export interface AuthenticationProgramStateInternalCommon<
   signatureOperationsCount: number;
 }
 
+export interface AuthenticationProgramStateTransactionContext {
+  /**
+   * The index of the input being evaluated.
+   */
+  readonly inputIndex: number;
+  /**
+   * See `AuthenticationProgramCommon.sourceOutputs`.
+   */
+  readonly sourceOutputs: readonly Output[];
+  /**
+   * The full transaction being evaluated (required by transaction
+   * introspection operations and the BTC signing serialization algorithms).
+   */
+  readonly spendingTransaction: Transaction;
+}
+
 export interface AuthenticationProgramStateCommon<Opcodes, Errors>
   extends AuthenticationProgramStateInternalCommon<Opcodes, Errors>,
+    AuthenticationProgramStateTransactionContext,
     TransactionContextCommon {}